@@ -7,6 +7,7 @@ import './styles/globals.css';
 // Context Providers
 import { UserProvider } from './contexts/UserContext';
 import { TutorialProvider } from './contexts/TutorialContext';
+import { CommandProvider } from './contexts/CommandContext';
 
 // Pages
 import Dashboard from './pages/Dashboard';
@@ -148,7 +149,9 @@ function App() {
       <QueryClientProvider client={queryClient}>
         <UserProvider>
           <TutorialProvider>
-            <AppContent />
+            <CommandProvider>
+              <AppContent />
+            </CommandProvider>
           </TutorialProvider>
         </UserProvider>
       </QueryClientProvider>
@@ -14,7 +14,11 @@ import {
 } from 'lucide-react';
 
 import { BPMDetectorProps, BPMAnalysis } from '../../types';
-import { BPMDetector } from '../../utils/audio/bpmDetector';
+import { decodeAudio } from '../../utils/audio/audioAnalysisClient';
+import { useAudioAnalysis } from '../../hooks/useAudioAnalysis';
+
+// デコード完了時点の進捗（%）
+const DECODE_PROGRESS = 20;
 
 /**
  * BPM検出コンポーネント
@@ -35,8 +39,10 @@ const BPMDetectorComponent: React.FC<BPMDetectorProps> = ({
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
 
+  const { analyzeLocally, localProgress, cancelLocalAnalysis } = useAudioAnalysis();
+
   /**
-   * BPM検出の実行（軽量版アルゴリズムを使用し高速処理）
+   * BPM検出の実行（解析は Web Worker で行い、結果は MediaFile ごとにキャッシュ）
    */
   const detectBPM = useCallback(async () => {
     if (!audioFile) return;
@@ -47,80 +53,31 @@ const BPMDetectorComponent: React.FC<BPMDetectorProps> = ({
       setProgress(0);
       onAnalysisStart?.();
 
-      console.log('🎵 軽量版BPM検出を開始します（高速処理）');
-
-      // 進行状況を更新（UI更新のためのウェイト）
-      setProgress(15);
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      // AudioBuffer へ変換
-      let arrayBuffer: ArrayBuffer;
-
-      if (audioFile.originalFile) {
-        // 原始 File オブジェクトがある場合は直接使用（最も信頼性が高い）
-        console.log('📁 原始 File オブジェクトを使用してBPM検出');
-        arrayBuffer = await audioFile.originalFile.arrayBuffer();
-      } else if (audioFile.url.startsWith('blob:')) {
-        // Blob URL のフォールバック
-        console.log('🌐 Blob URL を使用してBPM検出');
-        try {
-          const response = await fetch(audioFile.url);
-          if (!response.ok) {
-            throw new Error(`Blob URL の読み込みに失敗: ${response.status}`);
-          }
-          arrayBuffer = await response.arrayBuffer();
-        } catch (fetchError) {
-          console.error('Blob URL の取得に失敗', fetchError);
-          throw new Error('音声ファイルの読み込みに失敗しました。ファイルを再アップロードしてください。');
-        }
-      } else {
-        // 通常の URL
-        console.log('🌐 通常の URL を使用してBPM検出');
-        try {
-          const response = await fetch(audioFile.url);
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-          arrayBuffer = await response.arrayBuffer();
-        } catch (fetchError) {
-          console.error('ファイルの取得に失敗', fetchError);
-          throw new Error('音声ファイルの読み込みに失敗しました。ネットワーク接続を確認してください。');
-        }
-      }
+      console.log('🎵 BPM検出を開始します（Web Worker）');
 
-      setProgress(35);
-      await new Promise((resolve) => setTimeout(resolve, 50));
-
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const buffer = await ctx.decodeAudioData(arrayBuffer);
+      // AudioBuffer へ変換（試聴にも使う）
+      const buffer = audioBuffer || await decodeAudio(audioFile);
       setAudioBuffer(buffer);
-      setProgress(50);
-      await new Promise((resolve) => setTimeout(resolve, 50));
-
-      // 軽量版 BPM 検出器の作成と実行
-      console.log('🚀 高速アルゴリズムで解析中...');
-      const detector = new BPMDetector();
-      setProgress(65);
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      setProgress(DECODE_PROGRESS);
 
-      const analysis = await detector.detectBPM(buffer);
-      setProgress(90);
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      const analysis = await analyzeLocally(audioFile, buffer);
+      if (!analysis) {
+        // キャンセルまたはエラー（エラーは hook 側で通知済み）
+        return;
+      }
 
       // 結果の保存と通知
-      setResult(analysis);
-      onBPMDetected(analysis);
+      setResult(analysis.bpmAnalysis);
+      onBPMDetected(analysis.bpmAnalysis);
       setProgress(100);
 
-      console.log('✅ 軽量版BPM検出完了', {
-        bpm: analysis.bpm,
-        confidence: Math.round(analysis.confidence * 100) + '%',
-        beats: analysis.beatTimes.length,
-        bars: analysis.bars.length,
-        processingTime: 'Fast',
+      console.log('✅ BPM検出完了', {
+        bpm: analysis.bpmAnalysis.bpm,
+        confidence: Math.round(analysis.bpmAnalysis.confidence * 100) + '%',
+        beats: analysis.bpmAnalysis.beatTimes.length,
+        bars: analysis.bpmAnalysis.bars.length,
       });
 
-      // クリーンアップ（特別な破棄は不要）
       onAnalysisComplete?.();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'BPM検出中にエラーが発生しました';
@@ -130,7 +87,12 @@ const BPMDetectorComponent: React.FC<BPMDetectorProps> = ({
     } finally {
       setIsAnalyzing(false);
     }
-  }, [audioFile, onBPMDetected, onAnalysisStart, onAnalysisComplete, onError]);
+  }, [audioFile, audioBuffer, analyzeLocally, onBPMDetected, onAnalysisStart, onAnalysisComplete, onError]);
+
+  // Worker の進捗をデコード後の区間に割り当てる
+  const displayProgress = localProgress
+    ? Math.round(DECODE_PROGRESS + localProgress.progress * (100 - DECODE_PROGRESS))
+    : progress;
 
   // 音声プレビュー再生
   const togglePlayback = useCallback(async () => {
@@ -254,7 +216,7 @@ const BPMDetectorComponent: React.FC<BPMDetectorProps> = ({
         {isAnalyzing ? (
           <>
             <Loader className="w-4 h-4 animate-spin" />
-            <span>解析中... {progress}%</span>
+            <span>解析中... {displayProgress}%</span>
           </>
         ) : result ? (
           <>
@@ -278,12 +240,20 @@ const BPMDetectorComponent: React.FC<BPMDetectorProps> = ({
             exit={{ opacity: 0, height: 0 }}
             className="mt-3"
           >
-            <div className="w-full bg-dark-700 rounded-full h-2">
-              <motion.div
-                className="bg-purple-500 h-2 rounded-full"
-                style={{ width: `${progress}%` }}
-                transition={{ duration: 0.3 }}
-              />
+            <div className="flex items-center space-x-2">
+              <div className="flex-1 bg-dark-700 rounded-full h-2">
+                <motion.div
+                  className="bg-purple-500 h-2 rounded-full"
+                  style={{ width: `${displayProgress}%` }}
+                  transition={{ duration: 0.3 }}
+                />
+              </div>
+              <button
+                onClick={cancelLocalAnalysis}
+                className="text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                中止
+              </button>
             </div>
           </motion.div>
         )}
@@ -9,7 +9,8 @@ import {
   Pause,
   Activity,
   Eye,
-  Info
+  Info,
+  Download
 } from 'lucide-react';
 
 import {
@@ -19,6 +20,8 @@ import {
   FrequencyBand,
   FREQUENCY_BANDS
 } from '../../types';
+import { getBandEnergy, getTriggerRange } from '../../utils/audio/frequencyTriggers';
+import { detectTriggerEventsInWorker, isAbortError } from '../../utils/audio/audioAnalysisClient';
 
 /**
  * リアルタイム周波数解析コンポーネント
@@ -30,6 +33,7 @@ const FrequencyAnalyzer: React.FC<FrequencyAnalyzerProps> = ({
   onAnalysisUpdate,
   triggers,
   onTriggerFired,
+  onTriggersBaked,
   realTime = false
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -44,6 +48,8 @@ const FrequencyAnalyzer: React.FC<FrequencyAnalyzerProps> = ({
   const [showSettings, setShowSettings] = useState(false);
   const [sensitivity, setSensitivity] = useState(0.7);
   const [visualizationMode, setVisualizationMode] = useState<'spectrum' | 'bands'>('spectrum');
+  const [isBaking, setIsBaking] = useState(false);
+  const bakeAbortRef = useRef<AbortController | null>(null);
 
   // スペクトラムビジュアライザーの描画
   const drawSpectrum = useCallback((dataArray: Uint8Array) => {
@@ -176,49 +182,42 @@ const FrequencyAnalyzer: React.FC<FrequencyAnalyzerProps> = ({
         threshold,
         triggered
       });
+    });
 
-      // トリガー処理
-      if (triggered) {
-        const matchingTriggers = triggers.filter((trigger: FrequencyTrigger) => {
-          if (trigger.band === 'custom' && trigger.customRange) {
-            const [customLow, customHigh] = trigger.customRange;
-            return lowHz >= customLow && highHz <= customHigh;
-          }
-          return trigger.band === name.toLowerCase();
-        });
+    // トリガー判定（各トリガーの threshold で判定。オフライン解析 detectTriggerEvents と同じ条件）
+    triggers.forEach((trigger: FrequencyTrigger) => {
+      if (!trigger.enabled || activeTriggers.has(trigger.id)) return;
+
+      const energy = getBandEnergy(dataArray, getTriggerRange(trigger), binSize);
+      if (energy <= trigger.threshold) return;
+
+      // Set の更新（ES5 互換）
+      setActiveTriggers(prev => {
+        const arr = Array.from(prev);
+        arr.push(trigger.id);
+        return new Set(arr);
+      });
 
-        matchingTriggers.forEach(trigger => {
-          if (trigger.enabled && !activeTriggers.has(trigger.id)) {
-            // Set の更新（ES5 互換）
-            setActiveTriggers(prev => {
-              const arr = Array.from(prev);
-              arr.push(trigger.id);
-              return new Set(arr);
-            });
-
-            onTriggerFired(trigger.id, normalizedEnergy);
-
-            // トリガー履歴に追加（最新10件保持）
-            setTriggerHistory(prev => [
-              ...prev.slice(-9),
-              {
-                triggerId: trigger.id,
-                timestamp: Date.now(),
-                intensity: normalizedEnergy
-              }
-            ]);
-
-            // クールダウン処理
-            setTimeout(() => {
-              setActiveTriggers(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(trigger.id);
-                return newSet;
-              });
-            }, trigger.duration * 1000);
-          }
+      onTriggerFired(trigger.id, energy);
+
+      // トリガー履歴に追加（最新10件保持）
+      setTriggerHistory(prev => [
+        ...prev.slice(-9),
+        {
+          triggerId: trigger.id,
+          timestamp: Date.now(),
+          intensity: energy
+        }
+      ]);
+
+      // エフェクト持続時間とクールダウンの長い方が過ぎるまで再発火しない
+      setTimeout(() => {
+        setActiveTriggers(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(trigger.id);
+          return newSet;
         });
-      }
+      }, Math.max(trigger.duration, trigger.cooldown) * 1000);
     });
 
     // dataArray の最大値を手動で計算（ES5 互換）
@@ -301,10 +300,35 @@ const FrequencyAnalyzer: React.FC<FrequencyAnalyzerProps> = ({
     setActiveTriggers(new Set());
   }, []);
 
+  // 音声全体を Worker でオフライン解析して発火イベントを渡す（タイムラインへの焼き込み用）
+  const bakeTriggers = useCallback(async () => {
+    if (!audioBuffer || !onTriggersBaked) return;
+
+    bakeAbortRef.current?.abort();
+    const controller = new AbortController();
+    bakeAbortRef.current = controller;
+    setIsBaking(true);
+
+    try {
+      const events = await detectTriggerEventsInWorker(audioBuffer, triggers, { signal: controller.signal });
+      onTriggersBaked(events);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('トリガー焼き込みエラー:', error);
+      }
+    } finally {
+      if (bakeAbortRef.current === controller) {
+        bakeAbortRef.current = null;
+        setIsBaking(false);
+      }
+    }
+  }, [audioBuffer, triggers, onTriggersBaked]);
+
   // コンポーネントのクリーンアップ
   useEffect(() => {
     return () => {
       stopAnalysis();
+      bakeAbortRef.current?.abort();
     };
   }, [stopAnalysis]);
 
@@ -331,6 +355,18 @@ const FrequencyAnalyzer: React.FC<FrequencyAnalyzerProps> = ({
               <Settings className="w-4 h-4" />
             </button>
 
+            {onTriggersBaked && !realTime && (
+              <button
+                onClick={bakeTriggers}
+                disabled={isBaking || !audioBuffer}
+                className="flex items-center space-x-2 px-3 py-2 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 text-gray-300 hover:text-white rounded-lg text-sm transition-all"
+                title="トリガーを音声全体で解析してタイムラインに書き込む"
+              >
+                <Download className="w-4 h-4" />
+                <span>{isBaking ? '解析中...' : '焼き込み'}</span>
+              </button>
+            )}
+
             <button
               onClick={isAnalyzing ? stopAnalysis : startAnalysis}
               className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-all ${
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+
+import type { MediaFile, AudioTrackEnhanced, FrequencyTrigger, FrequencyTriggerEvent } from '../../types';
+import FrequencyAnalyzer from './FrequencyAnalyzer';
+import { decodeAudio, isAbortError } from '../../utils/audio/audioAnalysisClient';
+import { SAMPLE_FREQUENCY_TRIGGERS } from '../../data/sampleData';
+
+interface FrequencyTriggerPanelProps {
+  audioFile: MediaFile;
+  track: AudioTrackEnhanced;
+  onTriggersBaked: (triggers: FrequencyTrigger[], events: FrequencyTriggerEvent[]) => void;
+}
+
+/**
+ * 音声トラックの周波数トリガー
+ * 音声をデコードして FrequencyAnalyzer に渡し、焼き込み結果を親に返す
+ */
+const FrequencyTriggerPanel: React.FC<FrequencyTriggerPanelProps> = ({ audioFile, track, onTriggersBaked }) => {
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
+
+  // トラックにトリガーがなければサンプルのトリガーを使う
+  const triggers = track.frequencyTriggers || SAMPLE_FREQUENCY_TRIGGERS;
+
+  // 選択中の音声をデコード
+  useEffect(() => {
+    const controller = new AbortController();
+    setAudioBuffer(null);
+    setError(null);
+
+    decodeAudio(audioFile, controller.signal)
+      .then(setAudioBuffer)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : '音声の読み込みに失敗しました');
+      });
+
+    return () => controller.abort();
+  }, [audioFile]);
+
+  // 解析・プレビュー用の AudioContext はパネルの間だけ保持
+  useEffect(() => {
+    const context = new AudioContext();
+    setAudioContext(context);
+    return () => {
+      context.close();
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-xs text-red-400">{error}</p>;
+  }
+
+  if (!audioBuffer || !audioContext) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        <span>音声を読み込み中...</span>
+      </div>
+    );
+  }
+
+  return (
+    <FrequencyAnalyzer
+      audioContext={audioContext}
+      audioBuffer={audioBuffer}
+      triggers={triggers}
+      onAnalysisUpdate={() => {}}
+      onTriggerFired={() => {}}
+      onTriggersBaked={(events) => onTriggersBaked(triggers, events)}
+    />
+  );
+};
+
+export default FrequencyTriggerPanel;
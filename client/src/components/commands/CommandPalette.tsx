@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, Command as CommandIcon } from 'lucide-react';
+import type { EditorCommand } from '@/types';
+import type { CommandRegistry } from '@/utils/commands/commandRegistry';
+import { COMMAND_CATEGORY_LABELS } from '@/utils/commands/editorCommands';
+import { formatKeyCombo } from '@/utils/commands/keybindings';
+
+interface CommandPaletteProps {
+  registry: CommandRegistry;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface PaletteEntry {
+  command: EditorCommand;
+  keys: string[];
+  available: boolean;
+}
+
+// 表示に使うコマンド・キー・実行できるかを registry から読み出す
+const readEntries = (registry: CommandRegistry): PaletteEntry[] =>
+  registry.getCommands().map(command => ({
+    command,
+    keys: registry.getKeys(command.id),
+    available: registry.isAvailable(command.id)
+  }));
+
+const matchesQuery = (command: EditorCommand, keys: string[], query: string) => {
+  if (!query) return true;
+  const haystack = [command.title, command.id, COMMAND_CATEGORY_LABELS[command.category], ...keys]
+    .join(' ')
+    .toLowerCase();
+  // 空白区切りの語がすべて含まれるもの
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+/**
+ * 名前・カテゴリ・キーで検索して実行するコマンドパレット
+ * 今の画面に処理が登録されていないコマンドは表示だけして実行できない
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ registry, isOpen, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [entries, setEntries] = useState(() => readEntries(registry));
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 処理の登録や割り当ての変更を反映する
+  useEffect(() => {
+    setEntries(readEntries(registry));
+    return registry.subscribe(() => setEntries(readEntries(registry)));
+  }, [registry]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+    }
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    const matched = entries.filter(entry => matchesQuery(entry.command, entry.keys, query));
+    return [...matched.filter(entry => entry.available), ...matched.filter(entry => !entry.available)];
+  }, [entries, query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const run = (command: EditorCommand | undefined) => {
+    if (!command || !registry.isAvailable(command.id)) return;
+    onClose();
+    registry.execute(command.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => Math.min(results.length - 1, index + 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => Math.max(0, index - 1));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        run(results[activeIndex]?.command);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-[15vh] z-50" onClick={onClose}>
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          className="bg-dark-800 rounded-lg border border-dark-600 w-full max-w-xl overflow-hidden flex flex-col shadow-2xl"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center space-x-3 px-4 py-3 border-b border-dark-700">
+            <Search className="w-4 h-4 text-dark-400" />
+            <input
+              autoFocus
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="コマンドを検索..."
+              className="flex-1 bg-transparent text-white placeholder-dark-400 outline-none"
+            />
+          </div>
+
+          <div ref={listRef} className="max-h-[50vh] overflow-y-auto py-1">
+            {results.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-dark-400">一致するコマンドがありません</p>
+            ) : (
+              results.map(({ command, keys, available }, index) => (
+                <button
+                  key={command.id}
+                  data-index={index}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => run(command)}
+                  disabled={!available}
+                  className={`w-full flex items-center justify-between px-4 py-2 text-left text-sm ${
+                    index === activeIndex ? 'bg-primary-500/20' : ''
+                  } ${available ? 'text-white' : 'text-dark-500 cursor-not-allowed'}`}
+                  title={available ? undefined : 'この画面では使えません'}
+                >
+                  <span className="flex items-center space-x-2 min-w-0">
+                    <CommandIcon className="w-3 h-3 flex-shrink-0 text-dark-400" />
+                    <span className="text-xs text-dark-400 flex-shrink-0">{COMMAND_CATEGORY_LABELS[command.category]}:</span>
+                    <span className="truncate">{command.title}</span>
+                  </span>
+                  <span className="flex items-center space-x-1 flex-shrink-0 ml-3">
+                    {keys.map(key => (
+                      <kbd key={key} className="px-1.5 py-0.5 rounded bg-dark-700 border border-dark-600 text-xs text-dark-300">
+                        {formatKeyCombo(key)}
+                      </kbd>
+                    ))}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Keyboard, X, Plus, RotateCcw, Search, AlertCircle, Loader2 } from 'lucide-react';
+import type { CommandCategory, CommandId, EditorCommand, KeybindingOverrides } from '@/types';
+import type { CommandRegistry } from '@/utils/commands/commandRegistry';
+import { COMMAND_CATEGORY_LABELS, COMMAND_SCOPE_LABELS } from '@/utils/commands/editorCommands';
+import {
+  eventToKeyCombo,
+  findCommandsUsingKey,
+  findKeybindingConflicts,
+  formatKeyCombo,
+  resolveKeybindings,
+  toKeybindingOverrides
+} from '@/utils/commands/keybindings';
+import { handleApiError } from '@/utils/api';
+
+interface KeybindingSettingsProps {
+  registry: CommandRegistry;
+  overrides: KeybindingOverrides;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (overrides: KeybindingOverrides) => Promise<void>;
+}
+
+interface PendingKey {
+  commandId: CommandId;
+  key: string;
+  conflicts: EditorCommand[];
+}
+
+/**
+ * キー割り当ての変更
+ * 同時に効く範囲（エディタ全体と各領域）で同じキーを使うコマンドがあれば、置き換えるか確認する
+ */
+const KeybindingSettings: React.FC<KeybindingSettingsProps> = ({ registry, overrides, isOpen, onClose, onSave }) => {
+  const commands = registry.getCommands();
+  const [bindings, setBindings] = useState<Map<CommandId, string[]>>(new Map());
+  const [query, setQuery] = useState('');
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const [pending, setPending] = useState<PendingKey | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 開くたびに保存済みの割り当てから始める
+  useEffect(() => {
+    if (!isOpen) return;
+    setBindings(resolveKeybindings(commands, overrides));
+    setQuery('');
+    setRecording(null);
+    setPending(null);
+    setError(null);
+  }, [isOpen, commands, overrides]);
+
+  const defaults = useMemo(() => resolveKeybindings(commands), [commands]);
+  const conflicts = useMemo(() => findKeybindingConflicts(commands, bindings), [commands, bindings]);
+  const conflictingIds = useMemo(() => new Set(conflicts.flatMap(conflict => conflict.commandIds)), [conflicts]);
+
+  const groups = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const grouped = new Map<CommandCategory, EditorCommand[]>();
+    commands.forEach(command => {
+      const haystack = [command.title, command.id, ...(bindings.get(command.id) || [])].join(' ').toLowerCase();
+      if (!words.every(word => haystack.includes(word))) return;
+      grouped.set(command.category, [...(grouped.get(command.category) || []), command]);
+    });
+    return Array.from(grouped.entries());
+  }, [commands, bindings, query]);
+
+  if (!isOpen) return null;
+
+  const setKeys = (commandId: CommandId, keys: string[]) => {
+    setBindings(prev => new Map(prev).set(commandId, keys));
+  };
+
+  const addKey = (commandId: CommandId, key: string, replace: EditorCommand[] = []) => {
+    setBindings(prev => {
+      const next = new Map(prev);
+      replace.forEach(other => next.set(other.id, (next.get(other.id) || []).filter(k => k !== key)));
+      const keys = next.get(commandId) || [];
+      next.set(commandId, keys.includes(key) ? keys : [...keys, key]);
+      return next;
+    });
+  };
+
+  const handleRecordKey = (command: EditorCommand, e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const key = eventToKeyCombo(e.nativeEvent);
+    if (!key) return;
+
+    setRecording(null);
+    const used = findCommandsUsingKey(commands, bindings, key, command);
+    if (used.length > 0) {
+      setPending({ commandId: command.id, key, conflicts: used });
+    } else {
+      addKey(command.id, key);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(toKeybindingOverrides(commands, bindings));
+      onClose();
+    } catch (err) {
+      setError(handleApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDefault = (commandId: CommandId) => {
+    const keys = bindings.get(commandId) || [];
+    const defaultKeys = defaults.get(commandId) || [];
+    return keys.length === defaultKeys.length && keys.every(key => defaultKeys.includes(key));
+  };
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          className="bg-dark-800 rounded-lg border border-dark-600 w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          {/* ヘッダー */}
+          <div className="flex items-center justify-between p-6 border-b border-dark-700">
+            <div className="flex items-center space-x-3">
+              <Keyboard className="w-6 h-6 text-primary-400" />
+              <h2 className="text-xl font-semibold text-white">キーボードショートカット</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-dark-600 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-dark-400" />
+            </button>
+          </div>
+
+          <div className="px-6 py-3 border-b border-dark-700">
+            <div className="flex items-center space-x-2 bg-dark-700 border border-dark-600 rounded-lg px-3 py-2">
+              <Search className="w-4 h-4 text-dark-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="コマンド名やキーで検索..."
+                className="flex-1 bg-transparent text-sm text-white placeholder-dark-400 outline-none"
+              />
+            </div>
+          </div>
+
+          {/* 置き換えの確認 */}
+          {pending && (
+            <div className="mx-6 mt-3 p-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 text-sm">
+              <p className="text-yellow-300 mb-2">
+                <kbd className="px-1.5 py-0.5 rounded bg-dark-700 text-xs">{formatKeyCombo(pending.key)}</kbd>
+                {' '}は「{pending.conflicts.map(command => command.title).join('」「')}」で使われています。
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => {
+                    addKey(pending.commandId, pending.key, pending.conflicts);
+                    setPending(null);
+                  }}
+                  className="px-3 py-1 rounded bg-yellow-600 hover:bg-yellow-700 text-white text-xs"
+                >
+                  置き換える
+                </button>
+                <button
+                  onClick={() => setPending(null)}
+                  className="px-3 py-1 rounded hover:bg-dark-700 text-dark-300 text-xs"
+                >
+                  キャンセル
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto px-6 py-3 space-y-4">
+            {groups.map(([category, categoryCommands]) => (
+              <div key={category}>
+                <h3 className="text-xs font-semibold text-dark-400 uppercase mb-1">{COMMAND_CATEGORY_LABELS[category]}</h3>
+                <div className="divide-y divide-dark-700">
+                  {categoryCommands.map(command => (
+                    <div key={command.id} className="flex items-center justify-between py-2">
+                      <div className="min-w-0">
+                        <div className={`text-sm ${conflictingIds.has(command.id) ? 'text-red-400' : 'text-white'}`}>
+                          {command.title}
+                        </div>
+                        <div className="text-xs text-dark-500">{COMMAND_SCOPE_LABELS[command.scope]}</div>
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0 ml-3">
+                        {(bindings.get(command.id) || []).map(key => (
+                          <span key={key} className="flex items-center px-1.5 py-0.5 rounded bg-dark-700 border border-dark-600 text-xs text-dark-300">
+                            {formatKeyCombo(key)}
+                            <button
+                              onClick={() => setKeys(command.id, (bindings.get(command.id) || []).filter(k => k !== key))}
+                              className="ml-1 text-dark-500 hover:text-white"
+                              title="割り当てを外す"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                        {recording === command.id ? (
+                          <button
+                            autoFocus
+                            onKeyDown={(e) => handleRecordKey(command, e)}
+                            onBlur={() => setRecording(null)}
+                            className="px-2 py-0.5 rounded border border-primary-400 text-xs text-primary-400 animate-pulse"
+                          >
+                            キーを押してください
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              setPending(null);
+                              setRecording(command.id);
+                            }}
+                            className="p-1 rounded hover:bg-dark-700 text-dark-400"
+                            title="キーを追加"
+                          >
+                            <Plus className="w-3 h-3" />
+                          </button>
+                        )}
+                        {!isDefault(command.id) && (
+                          <button
+                            onClick={() => setKeys(command.id, defaults.get(command.id) || [])}
+                            className="p-1 rounded hover:bg-dark-700 text-dark-400"
+                            title="既定に戻す"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between p-6 border-t border-dark-700">
+            <button
+              onClick={() => setBindings(resolveKeybindings(commands))}
+              className="text-sm text-dark-400 hover:text-white"
+            >
+              すべて既定に戻す
+            </button>
+            <div className="flex items-center space-x-2">
+              {conflicts.length > 0 && (
+                <span className="flex items-center space-x-1 text-xs text-red-400">
+                  <AlertCircle className="w-4 h-4" />
+                  <span>重複したキーがあります</span>
+                </span>
+              )}
+              {error && <span className="text-xs text-red-400">{error}</span>}
+              <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg text-dark-300 hover:bg-dark-700 transition-colors"
+              >
+                キャンセル
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || conflicts.length > 0}
+                className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50 transition-colors"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>保存</span>
+              </button>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default KeybindingSettings;
@@ -0,0 +1,2 @@
+export { default as CommandPalette } from './CommandPalette';
+export { default as KeybindingSettings } from './KeybindingSettings';
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { TimelineClip, ClipTransform } from '@/types';
+import { DEFAULT_CLIP_TRANSFORM } from '@/utils/constants';
+
+interface ClipTransformControlsProps {
+  clip: TimelineClip;
+  onClipUpdate: (clip: TimelineClip) => void;
+}
+
+/**
+ * クリップの位置・拡大率・不透明度
+ * 値はプレビューとエクスポートの合成（レイヤー順の重ね合わせ）にそのまま使われる
+ */
+const ClipTransformControls: React.FC<ClipTransformControlsProps> = ({ clip, onClipUpdate }) => {
+  const transform = { ...DEFAULT_CLIP_TRANSFORM, ...clip.transform };
+
+  const updateTransform = (updates: Partial<ClipTransform>) => {
+    onClipUpdate({ ...clip, transform: { ...transform, ...updates } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">位置 X</label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={transform.x}
+            onChange={(e) => updateTransform({ x: parseInt(e.target.value) })}
+            className="w-full"
+          />
+          <div className="text-xs text-gray-400 text-center">{transform.x}%</div>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">位置 Y</label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={transform.y}
+            onChange={(e) => updateTransform({ y: parseInt(e.target.value) })}
+            className="w-full"
+          />
+          <div className="text-xs text-gray-400 text-center">{transform.y}%</div>
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm text-gray-300 mb-1">拡大率</label>
+        <input
+          type="range"
+          min="0.1"
+          max="2"
+          step="0.05"
+          value={transform.scale}
+          onChange={(e) => updateTransform({ scale: parseFloat(e.target.value) })}
+          className="w-full"
+        />
+        <div className="text-xs text-gray-400 text-center">{transform.scale.toFixed(2)}x</div>
+      </div>
+      <div>
+        <label className="block text-sm text-gray-300 mb-1">不透明度</label>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={transform.opacity}
+          onChange={(e) => updateTransform({ opacity: parseInt(e.target.value) })}
+          className="w-full"
+        />
+        <div className="text-xs text-gray-400 text-center">{transform.opacity}%</div>
+      </div>
+      {clip.transform && (
+        <button
+          onClick={() => onClipUpdate({ ...clip, transform: undefined })}
+          className="w-full bg-dark-700 hover:bg-dark-600 px-3 py-2 rounded-lg text-xs transition-all"
+        >
+          変形をリセット
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ClipTransformControls;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Users, Eye, AlertTriangle } from 'lucide-react';
+import type { CollabParticipant, CollabRole } from '../../types';
+
+interface CollaboratorPresenceProps {
+  participants: CollabParticipant[];
+  role: CollabRole | null;
+  isJoined: boolean;
+  conflictMessage?: string | null;
+}
+
+// 参加者ごとに固定の色を割り当てる
+const PRESENCE_COLORS = ['bg-pink-500', 'bg-sky-500', 'bg-amber-500', 'bg-emerald-500', 'bg-violet-500', 'bg-rose-500'];
+
+const colorFor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+};
+
+const ROLE_LABELS: Record<CollabRole, string> = {
+  owner: 'オーナー',
+  admin: '管理者',
+  editor: '編集者',
+  viewer: '閲覧のみ'
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * 共同編集の参加者表示（ヘッダー用）
+ * アバターにカーソルを合わせると役割・再生位置・選択中のクリップ数を表示する
+ */
+const CollaboratorPresence: React.FC<CollaboratorPresenceProps> = ({
+  participants,
+  role,
+  isJoined,
+  conflictMessage
+}) => {
+  if (!isJoined) return null;
+
+  return (
+    <div className="flex items-center space-x-3">
+      {conflictMessage && (
+        <div className="hidden lg:flex items-center space-x-1 text-xs text-yellow-400" role="status">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          <span>{conflictMessage}</span>
+        </div>
+      )}
+
+      {role === 'viewer' && (
+        <div className="flex items-center space-x-1 text-xs text-gray-400 bg-dark-700 px-2 py-1 rounded">
+          <Eye className="w-3.5 h-3.5" />
+          <span>{ROLE_LABELS.viewer}</span>
+        </div>
+      )}
+
+      <div className="flex items-center" aria-label={`${participants.length + 1}人が編集中`}>
+        <Users className="w-4 h-4 text-gray-400 mr-2" />
+        <div className="flex -space-x-2">
+          {participants.slice(0, 5).map(participant => (
+            <div
+              key={participant.clientId}
+              title={`${participant.name}（${ROLE_LABELS[participant.role]}）・${formatTime(participant.playhead)}` +
+                (participant.selection.length > 0 ? `・${participant.selection.length}クリップ選択中` : '')}
+              className={`w-7 h-7 rounded-full border-2 border-dark-800 flex items-center justify-center text-xs font-medium text-white ${colorFor(participant.userId)}`}
+            >
+              {participant.avatar
+                ? <img src={participant.avatar} alt={participant.name} className="w-full h-full rounded-full object-cover" />
+                : participant.name.charAt(0).toUpperCase()}
+            </div>
+          ))}
+          {participants.length > 5 && (
+            <div className="w-7 h-7 rounded-full border-2 border-dark-800 bg-dark-600 flex items-center justify-center text-xs text-gray-300">
+              +{participants.length - 5}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollaboratorPresence;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { KEYFRAMABLE_PARAMETERS, parameterAt } from '@render';
+import type { TimelineClip } from '@/types';
+import { getClipTime, withKeyframeTrack, withParameterValue } from '@/utils/effects/keyframes';
+import KeyframeTrack from './KeyframeTrack';
+
+interface EffectKeyframesEditorProps {
+  clip: TimelineClip;
+  playheadPosition: number;
+  onClipUpdate: (clip: TimelineClip) => void;
+}
+
+const EFFECT_LABELS: Record<string, string> = {
+  brightness: '明るさ',
+  contrast: 'コントラスト',
+  saturation: '彩度',
+  pan_zoom: 'パン・ズーム'
+};
+
+// スライダーの範囲（PropertiesPanel と同じ）
+const PARAMETER_CONTROLS: Record<string, { label?: string; min: number; max: number; step: number; fallback: number }> = {
+  value: { min: -100, max: 100, step: 1, fallback: 0 },
+  zoom: { label: 'ズーム', min: 1, max: 2, step: 0.1, fallback: 1 },
+  panX: { label: '横位置', min: -0.5, max: 0.5, step: 0.1, fallback: 0 },
+  panY: { label: '縦位置', min: -0.5, max: 0.5, step: 0.1, fallback: 0 }
+};
+
+/**
+ * 選択中クリップのエフェクトのパラメータとキーフレーム
+ * スライダーは再生ヘッド位置の値を表示し、キーフレームがあればその位置のキーフレームを編集する
+ */
+const EffectKeyframesEditor: React.FC<EffectKeyframesEditorProps> = ({ clip, playheadPosition, onClipUpdate }) => {
+  const clipTime = getClipTime(clip, playheadPosition);
+  const effects = (clip.effects || []).filter(effect => KEYFRAMABLE_PARAMETERS[effect.type]);
+
+  if (effects.length === 0) {
+    return <p className="text-xs text-gray-500">キーフレームを使えるエフェクト（明るさ・コントラスト・彩度・パン/ズーム）がありません</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-gray-500">再生ヘッド: クリップ内 {clipTime.toFixed(2)} 秒</div>
+      {effects.map(effect => (
+        <div key={effect.id} className="space-y-3">
+          <div className="text-sm font-medium">{EFFECT_LABELS[effect.type] || effect.type}</div>
+          {(KEYFRAMABLE_PARAMETERS[effect.type] || []).map(parameter => {
+            const control = PARAMETER_CONTROLS[parameter] || { min: 0, max: 100, step: 1, fallback: 0 };
+            const label = control.label || EFFECT_LABELS[effect.type] || parameter;
+            const value = parameterAt(effect, parameter, clipTime, control.fallback);
+            return (
+              <div key={parameter} className="space-y-2">
+                <div>
+                  <label className="block text-xs text-gray-300 mb-1">{label}</label>
+                  <input
+                    type="range"
+                    min={control.min}
+                    max={control.max}
+                    step={control.step}
+                    value={value}
+                    onChange={(e) =>
+                      onClipUpdate(withParameterValue(clip, effect, parameter, parseFloat(e.target.value), clipTime))
+                    }
+                    className="w-full"
+                  />
+                  <div className="text-xs text-gray-400 text-center">{Number(value.toFixed(2))}</div>
+                </div>
+                <KeyframeTrack
+                  effect={effect}
+                  parameter={parameter}
+                  label={label}
+                  fallback={control.fallback}
+                  clipTime={clipTime}
+                  clipDuration={clip.duration}
+                  onChange={(keyframes) => onClipUpdate(withKeyframeTrack(clip, effect.id, parameter, keyframes))}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EffectKeyframesEditor;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Diamond, X } from 'lucide-react';
+import { EASINGS, KEYFRAMABLE_PARAMETERS, parameterAt } from '@render';
+import type { ClipEffect, Keyframe, EasingType } from '@/types';
+import { setKeyframeAt } from '@/utils/effects/keyframes';
+
+interface KeyframeTrackProps {
+  effect: ClipEffect;
+  parameter: string;
+  label: string;
+  fallback: number; // キーフレームも固定値もないときの値
+  clipTime: number; // 再生ヘッドのクリップ内での時間
+  clipDuration: number;
+  onChange: (keyframes: Keyframe[]) => void;
+}
+
+/**
+ * 1つのパラメータのキーフレーム一覧（時間・値・イージング）
+ */
+const KeyframeTrack: React.FC<KeyframeTrackProps> = ({
+  effect,
+  parameter,
+  label,
+  fallback,
+  clipTime,
+  clipDuration,
+  onChange
+}) => {
+  if (!KEYFRAMABLE_PARAMETERS[effect.type]?.includes(parameter)) return null;
+
+  const track = effect.keyframes?.[parameter] || [];
+  const updateKeyframe = (keyframeId: string, updates: Partial<Keyframe>) => {
+    onChange(track.map(keyframe => keyframe.id === keyframeId ? { ...keyframe, ...updates } : keyframe));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400">{label} のキーフレーム</span>
+        <button
+          onClick={() => onChange(setKeyframeAt(track, clipTime, parameterAt(effect, parameter, clipTime, fallback)))}
+          className={`p-1 rounded ${track.length > 0 ? 'text-purple-400' : 'text-gray-400'} hover:text-white`}
+          title="再生ヘッド位置にキーフレームを追加"
+        >
+          <Diamond className="w-3 h-3" />
+        </button>
+      </div>
+      {track.map(keyframe => (
+        <div key={keyframe.id} className="grid grid-cols-[1fr_1fr_1.5fr_auto] gap-1 items-center">
+          <input
+            type="number"
+            value={keyframe.time}
+            onChange={(e) => updateKeyframe(keyframe.id, {
+              time: Math.min(clipDuration, Math.max(0, parseFloat(e.target.value) || 0))
+            })}
+            className="bg-dark-700 border border-dark-600 rounded px-1 py-1 text-xs"
+            step="0.1"
+            min="0"
+            title="時間（秒）"
+          />
+          <input
+            type="number"
+            value={keyframe.value}
+            onChange={(e) => updateKeyframe(keyframe.id, { value: parseFloat(e.target.value) || 0 })}
+            className="bg-dark-700 border border-dark-600 rounded px-1 py-1 text-xs"
+            step="0.1"
+            title="値"
+          />
+          <select
+            value={keyframe.easing}
+            onChange={(e) => updateKeyframe(keyframe.id, { easing: e.target.value as EasingType })}
+            className="bg-dark-700 border border-dark-600 rounded px-1 py-1 text-xs"
+            title="イージング"
+          >
+            {EASINGS.map(easing => (
+              <option key={easing} value={easing}>{easing}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange(track.filter(k => k.id !== keyframe.id))}
+            className="text-red-400 hover:text-red-300"
+            title="キーフレームを削除"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default KeyframeTrack;
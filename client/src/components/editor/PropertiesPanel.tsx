@@ -19,20 +19,26 @@ import {
   ArrowRightLeft,
   X
 } from 'lucide-react';
-import type { TimelineClip, ProjectSettings, ClipEffect, EffectType, Resolution, Transition } from '@/types';
+import { parameterAt } from '@render';
+import type { TimelineClip, ProjectSettings, ClipEffect, EffectType, Resolution, Transition, Keyframe } from '@/types';
+import { getClipTime, withKeyframeTrack, withParameterValue } from '@/utils/effects/keyframes';
+import ClipTransformControls from './ClipTransformControls';
+import KeyframeTrack from './KeyframeTrack';
 
 interface PropertiesPanelProps {
   selectedClip: TimelineClip | null;
   projectSettings: ProjectSettings;
   onClipUpdate: (clip: TimelineClip) => void;
   onSettingsUpdate: (settings: ProjectSettings) => void;
+  playheadPosition?: number; // new keyframes are placed here
 }
 
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   selectedClip,
   projectSettings,
   onClipUpdate,
-  onSettingsUpdate
+  onSettingsUpdate,
+  playheadPosition = 0
 }) => {
   const [activeTab, setActiveTab] = useState<'clip' | 'project'>('clip');
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
@@ -104,6 +110,36 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     updateClipProperty('effects', updatedEffects);
   };
 
+  // キーフレーム関連の関数（時間はクリップ先頭からの秒数）
+  const clipTime = selectedClip ? getClipTime(selectedClip, playheadPosition) : 0;
+
+  const updateKeyframes = (effectId: string, parameter: string, keyframes: Keyframe[]) => {
+    if (!selectedClip) return;
+    onClipUpdate(withKeyframeTrack(selectedClip, effectId, parameter, keyframes));
+  };
+
+  // 再生ヘッド位置での値（キーフレームがあれば補間値）
+  const getParameterValue = (effect: ClipEffect, parameter: string, fallback: number) =>
+    parameterAt(effect, parameter, clipTime, fallback);
+
+  // キーフレームのあるパラメータは再生ヘッド位置のキーフレームを編集する
+  const setParameterValue = (effect: ClipEffect, parameter: string, value: number) => {
+    if (!selectedClip) return;
+    onClipUpdate(withParameterValue(selectedClip, effect, parameter, value, clipTime));
+  };
+
+  const renderKeyframeTrack = (effect: ClipEffect, parameter: string, label: string, fallback: number) => (
+    <KeyframeTrack
+      effect={effect}
+      parameter={parameter}
+      label={label}
+      fallback={fallback}
+      clipTime={clipTime}
+      clipDuration={selectedClip?.duration ?? 0}
+      onChange={(keyframes) => updateKeyframes(effect.id, parameter, keyframes)}
+    />
+  );
+
   // トランジション関連の関数
   const updateTransition = (direction: 'in' | 'out', transition: Transition | null) => {
     if (!selectedClip) return;
@@ -344,14 +380,15 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   type="range"
                   min="-100"
                   max="100"
-                  value={effect.parameters.value || 0}
-                  onChange={(e) => updateEffect(effect.id, { value: parseInt(e.target.value) })}
+                  value={getParameterValue(effect, 'value', 0)}
+                  onChange={(e) => setParameterValue(effect, 'value', parseInt(e.target.value))}
                   className="w-full"
                 />
                 <div className="text-xs text-dark-400 text-center">
-                  {effect.parameters.value || 0}%
+                  {Math.round(getParameterValue(effect, 'value', 0))}%
                 </div>
               </div>
+              {renderKeyframeTrack(effect, 'value', 'Value', 0)}
             </div>
           );
         
@@ -386,12 +423,12 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   min="1"
                   max="2"
                   step="0.1"
-                  value={effect.parameters.zoom || 1}
-                  onChange={(e) => updateEffect(effect.id, { zoom: parseFloat(e.target.value) })}
+                  value={getParameterValue(effect, 'zoom', 1)}
+                  onChange={(e) => setParameterValue(effect, 'zoom', parseFloat(e.target.value))}
                   className="w-full"
                 />
                 <div className="text-xs text-dark-400 text-center">
-                  {effect.parameters.zoom || 1}x
+                  {getParameterValue(effect, 'zoom', 1).toFixed(2)}x
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-3">
@@ -402,8 +439,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                     min="-0.5"
                     max="0.5"
                     step="0.1"
-                    value={effect.parameters.panX || 0}
-                    onChange={(e) => updateEffect(effect.id, { panX: parseFloat(e.target.value) })}
+                    value={getParameterValue(effect, 'panX', 0)}
+                    onChange={(e) => setParameterValue(effect, 'panX', parseFloat(e.target.value))}
                     className="w-full"
                   />
                 </div>
@@ -414,12 +451,15 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                     min="-0.5"
                     max="0.5"
                     step="0.1"
-                    value={effect.parameters.panY || 0}
-                    onChange={(e) => updateEffect(effect.id, { panY: parseFloat(e.target.value) })}
+                    value={getParameterValue(effect, 'panY', 0)}
+                    onChange={(e) => setParameterValue(effect, 'panY', parseFloat(e.target.value))}
                     className="w-full"
                   />
                 </div>
               </div>
+              {renderKeyframeTrack(effect, 'zoom', 'Zoom', 1)}
+              {renderKeyframeTrack(effect, 'panX', 'Pan X', 0)}
+              {renderKeyframeTrack(effect, 'panY', 'Pan Y', 0)}
             </div>
           );
         
@@ -672,11 +712,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
               </Section>
 
               <Section id="transform" title="Transform" icon={<Move className="w-4 h-4" />}>
-                <div className="space-y-4">
-                  <div className="text-sm text-dark-400">
-                    Transform controls coming soon...
-                  </div>
-                </div>
+                <ClipTransformControls clip={selectedClip} onClipUpdate={onClipUpdate} />
               </Section>
             </div>
           ) : (
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Download, 
@@ -15,9 +15,12 @@ import {
   Smartphone,
   Square,
   Film,
-  Zap
+  Zap,
+  Layers
 } from 'lucide-react';
-import type { Project, ExportJob, Timeline, ProjectSettings, Resolution } from '@/types';
+import type { Project, ExportJob, ExportBatchSkip, Timeline, ProjectSettings, Resolution } from '@/types';
+import { EXPORT_CONTAINERS, PLATFORM_PRESETS, checkPlatformDuration, type ExportContainer, type PlatformId } from '@render';
+import { useExportJobUpdates, mergeExportJob, isExportJobFinished, type ExportJobUpdate } from '@/hooks/useExportJobUpdates';
 
 interface ExportPanelProps {
   project: Project;
@@ -30,11 +33,42 @@ interface ExportSettings {
   resolution: Resolution;
   frameRate: 24 | 30 | 60;
   quality: 'low' | 'medium' | 'high' | 'ultra';
-  format: 'mp4' | 'webm';
+  format: ExportContainer;
   includeAudio: boolean;
   name?: string;
 }
 
+// 履歴の1行: 単独のジョブか、一括エクスポートのジョブのまとまり
+type ExportHistoryItem =
+  | { type: 'job'; job: ExportJob }
+  | { type: 'batch'; id: string; name: string; jobs: ExportJob[] };
+
+// 一括エクスポートのジョブを最初に現れた位置でまとめる（一覧は新しい順）
+const groupExportHistory = (jobs: ExportJob[]): ExportHistoryItem[] => {
+  const items: ExportHistoryItem[] = [];
+  const batches = new Map<string, Extract<ExportHistoryItem, { type: 'batch' }>>();
+
+  for (const job of jobs) {
+    const batch = job.metadata?.batch;
+    if (!batch) {
+      items.push({ type: 'job', job });
+      continue;
+    }
+    let group = batches.get(batch.id);
+    if (!group) {
+      group = { type: 'batch', id: batch.id, name: batch.name, jobs: [] };
+      batches.set(batch.id, group);
+      items.push(group);
+    }
+    group.jobs.push(job);
+  }
+
+  batches.forEach(group => {
+    group.jobs.sort((a, b) => (a.metadata?.batch?.index ?? 0) - (b.metadata?.batch?.index ?? 0));
+  });
+  return items;
+};
+
 const ExportPanel: React.FC<ExportPanelProps> = ({
   project,
   isOpen,
@@ -52,7 +86,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     resolution: initialAspect,
     frameRate: project.settings?.frameRate || 30,
     quality: 'high',
-    format: 'mp4',
+    format: project.settings?.outputFormat?.container || 'mp4',
     includeAudio: true,
     name: `${project.name} Export`
   });
@@ -61,6 +95,9 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
   const [exportJobs, setExportJobs] = useState<ExportJob[]>([]);
   const [selectedPreset, setSelectedPreset] = useState<string>('custom');
   const [estimatedTime, setEstimatedTime] = useState<string>('');
+  const [batchPlatforms, setBatchPlatforms] = useState<PlatformId[]>([]);
+  const [isBatchExporting, setIsBatchExporting] = useState(false);
+  const [batchSkipped, setBatchSkipped] = useState<ExportBatchSkip[]>([]);
 
   // プリセット設定
   const presets = {
@@ -125,12 +162,18 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
   useEffect(() => {
     if (isOpen) {
       fetchExportJobs();
-      // 5秒ごとに更新
-      const interval = setInterval(fetchExportJobs, 5000);
-      return () => clearInterval(interval);
     }
   }, [isOpen]);
 
+  // 進行中のジョブは WebSocket で更新（切断中はポーリング）
+  const activeJobIds = exportJobs.filter(job => !isExportJobFinished(job)).map(job => job.id);
+
+  const handleJobUpdate = useCallback((update: ExportJobUpdate) => {
+    setExportJobs(prev => prev.map(job => job.id === update.id ? mergeExportJob(job, update) : job));
+  }, []);
+
+  useExportJobUpdates(activeJobIds, handleJobUpdate, { enabled: isOpen });
+
   // プリセット適用
   const applyPreset = (presetKey: string) => {
     setSelectedPreset(presetKey);
@@ -168,39 +211,9 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
       
       if (data.success) {
         const newJob = data.data.exportJob;
+        // 一覧に加えると useExportJobUpdates が進捗の受信を始める
         setExportJobs(prev => [newJob, ...prev]);
         onExportStart?.(newJob);
-        
-        // リアルタイム更新開始
-        const interval = setInterval(async () => {
-          try {
-            const jobResponse = await fetch(`/api/export/jobs/${newJob.id}`, {
-              headers: {
-                'Authorization': `Bearer ${localStorage.getItem('token')}`
-              }
-            });
-            const jobData = await jobResponse.json();
-            
-            if (jobData.success) {
-              const updatedJob = jobData.data.exportJob;
-              setExportJobs(prev => 
-                prev.map(job => job.id === updatedJob.id ? updatedJob : job)
-              );
-              
-              // 完了したら失敗したら更新を停止
-              if (['completed', 'failed', 'cancelled'].includes(updatedJob.status)) {
-                clearInterval(interval);
-              }
-            }
-          } catch (error) {
-            console.error('Failed to update job status:', error);
-            clearInterval(interval);
-          }
-        }, 2000);
-        
-        // 10分にタイムアウト
-        setTimeout(() => clearInterval(interval), 600000);
-        
       } else {
         alert(data.message || 'エクスポートに失敗しました');
       }
@@ -212,6 +225,50 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     }
   };
 
+  const toggleBatchPlatform = (platform: PlatformId) => {
+    setBatchPlatforms(prev =>
+      prev.includes(platform) ? prev.filter(id => id !== platform) : [...prev, platform]
+    );
+  };
+
+  // 一括エクスポート開始（プラットフォームごとに1ジョブ）
+  const handleBatchExport = async () => {
+    if (!project.timeline?.clips?.length || batchPlatforms.length === 0) return;
+
+    setIsBatchExporting(true);
+    setBatchSkipped([]);
+
+    try {
+      const response = await fetch(`/api/export/batch/${project.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({
+          name: exportSettings.name || project.name,
+          platforms: batchPlatforms
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        const newJobs: ExportJob[] = data.data.exportJobs;
+        setExportJobs(prev => [...newJobs, ...prev]);
+        setBatchSkipped(data.data.skipped || []);
+        newJobs.forEach(job => onExportStart?.(job));
+      } else {
+        alert(data.message || '一括エクスポートに失敗しました');
+      }
+    } catch (error) {
+      console.error('Batch export failed:', error);
+      alert('一括エクスポートに失敗しました');
+    } finally {
+      setIsBatchExporting(false);
+    }
+  };
+
   // ジョブキャンセル
   const cancelJob = async (jobId: string) => {
     try {
@@ -260,11 +317,88 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     const labels = {
       '9:16': 'Vertical (1080×1920)',
       '1:1': 'Square (1080×1080)',
-      '16:9': 'Horizontal (1920×1080)'
+      '16:9': 'Horizontal (1920×1080)',
+      '4:3': 'Classic (1440×1080)',
+      '720p': 'HD (1280×720)',
+      '1080p': 'Full HD (1920×1080)',
+      '4K': '4K (3840×2160)'
     };
     return labels[resolution] || resolution;
   };
 
+  // 履歴のジョブ1件（一括エクスポートではプラットフォームの上限と再エンコードの結果も出す）
+  const renderJobCard = (job: ExportJob) => (
+    <motion.div
+      key={job.id}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-dark-700 rounded-lg p-4 border border-dark-600"
+    >
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          {getStatusIcon(job.status)}
+          <h4 className="font-medium text-white truncate">{job.name}</h4>
+        </div>
+        <div className="flex items-center space-x-1">
+          {job.status === 'completed' && (
+            <button
+              onClick={() => downloadJob(job.id)}
+              className="p-1 hover:bg-dark-600 rounded text-green-400"
+              title="Download"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          )}
+          {['queued', 'processing'].includes(job.status) && (
+            <button
+              onClick={() => cancelJob(job.id)}
+              className="p-1 hover:bg-dark-600 rounded text-red-400"
+              title="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="text-sm text-dark-400 mb-2">
+        {getResolutionLabel(job.settings?.resolution ?? '')} • {job.settings?.quality?.preset} quality
+        {job.settings?.format && ` • ${job.settings.format.container.toUpperCase()}`}
+      </div>
+
+      {job.settings?.platform && (
+        <div className="text-xs text-dark-400 mb-2">
+          ≤{job.settings.platform.maxDuration}s • ≤{job.settings.platform.maxFileSize}MB
+          {job.output?.platform && job.output.platform.reencodes > 0 &&
+            ` • re-encoded at ${job.output.platform.videoBitrate}kbps to fit`}
+        </div>
+      )}
+
+      {job.status === 'failed' && job.processing?.error && (
+        <div className="text-xs text-red-400 mb-2">{job.processing.error.message}</div>
+      )}
+
+      {job.status === 'processing' && (
+        <div className="w-full bg-dark-600 rounded-full h-2 mb-2">
+          <div 
+            className="bg-primary-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${job.progress || 0}%` }}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-dark-400">
+        <span>{new Date(job.createdAt).toLocaleString()}</span>
+        {job.status === 'processing' && (
+          <span>{job.progress || 0}%</span>
+        )}
+        {job.output?.size && (
+          <span>{(job.output.size / 1024 / 1024).toFixed(1)} MB</span>
+        )}
+      </div>
+    </motion.div>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -334,6 +468,28 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
                   <option value="9:16">9:16 - Vertical (1080×1920)</option>
                   <option value="1:1">1:1 - Square (1080×1080)</option>
                   <option value="16:9">16:9 - Horizontal (1920×1080)</option>
+                  <option value="4:3">4:3 - Classic (1440×1080)</option>
+                  <option value="720p">720p - HD (1280×720)</option>
+                  <option value="1080p">1080p - Full HD (1920×1080)</option>
+                  <option value="4K">4K - Ultra HD (3840×2160)</option>
+                </select>
+              </div>
+
+              {/* 形式（コーデックは形式ごとの既定。プランを超える解像度はサーバーが拒否する） */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-dark-300 mb-2">
+                  Format
+                </label>
+                <select
+                  value={exportSettings.format}
+                  onChange={(e) => setExportSettings(prev => ({ ...prev, format: e.target.value as ExportContainer }))}
+                  className="w-full bg-dark-700 border border-dark-600 rounded-lg px-3 py-2 text-white"
+                >
+                  {(Object.keys(EXPORT_CONTAINERS) as ExportContainer[]).map(container => (
+                    <option key={container} value={container}>
+                      {container.toUpperCase()} ({EXPORT_CONTAINERS[container].videoCodecs[0]?.toUpperCase()})
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -420,6 +576,71 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
                   </>
                 )}
               </button>
+
+              {/* 一括エクスポート（プラットフォームごとの解像度・ビットレート・上限で1本ずつ） */}
+              <div className="mt-6 pt-6 border-t border-dark-700">
+                <label className="block text-sm font-medium text-dark-300 mb-3">
+                  Multi-Platform Export
+                </label>
+                <div className="space-y-2 mb-3">
+                  {Object.values(PLATFORM_PRESETS).map(platform => {
+                    const durationError = checkPlatformDuration(platform, project.timeline?.duration || 0);
+                    const checked = batchPlatforms.includes(platform.id);
+                    return (
+                      <label
+                        key={platform.id}
+                        className={`flex items-center justify-between p-2 rounded-lg border transition-all ${
+                          durationError
+                            ? 'border-dark-700 opacity-50 cursor-not-allowed'
+                            : checked
+                              ? 'border-primary-400 bg-primary-500/20 cursor-pointer'
+                              : 'border-dark-600 hover:border-dark-500 cursor-pointer'
+                        }`}
+                        title={durationError?.message}
+                      >
+                        <span className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={checked && !durationError}
+                            disabled={Boolean(durationError)}
+                            onChange={() => toggleBatchPlatform(platform.id)}
+                          />
+                          <span className="text-sm text-white">{platform.name}</span>
+                        </span>
+                        <span className="text-xs text-dark-400">
+                          {platform.resolution} • ≤{platform.maxDuration}s • ≤{platform.maxFileSize}MB
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+
+                {batchSkipped.length > 0 && (
+                  <div className="mb-3 space-y-1">
+                    {batchSkipped.map(skip => (
+                      <div key={skip.platform} className="flex items-start space-x-1 text-xs text-yellow-400">
+                        <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        <span>{skip.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <button
+                  onClick={handleBatchExport}
+                  disabled={isBatchExporting || batchPlatforms.length === 0 || !project.timeline?.clips?.length}
+                  className="w-full flex items-center justify-center space-x-2 bg-dark-600 hover:bg-dark-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  {isBatchExporting ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Layers className="w-4 h-4" />
+                  )}
+                  <span>
+                    Export to {batchPlatforms.length} platform{batchPlatforms.length === 1 ? '' : 's'}
+                  </span>
+                </button>
+              </div>
             </div>
 
             {/* ジョブリスト */}
@@ -434,64 +655,27 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
                     <p className="text-sm">Start your first export to see it here</p>
                   </div>
                 ) : (
-                  exportJobs.map((job) => (
-                    <motion.div
-                      key={job.id}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      className="bg-dark-700 rounded-lg p-4 border border-dark-600"
-                    >
-                      <div className="flex items-start justify-between mb-2">
-                        <div className="flex items-center space-x-2">
-                          {getStatusIcon(job.status)}
-                          <h4 className="font-medium text-white truncate">{job.name}</h4>
-                        </div>
-                        <div className="flex items-center space-x-1">
-                          {job.status === 'completed' && (
-                            <button
-                              onClick={() => downloadJob(job.id)}
-                              className="p-1 hover:bg-dark-600 rounded text-green-400"
-                              title="Download"
-                            >
-                              <Download className="w-4 h-4" />
-                            </button>
-                          )}
-                          {['queued', 'processing'].includes(job.status) && (
-                            <button
-                              onClick={() => cancelJob(job.id)}
-                              className="p-1 hover:bg-dark-600 rounded text-red-400"
-                              title="Cancel"
-                            >
-                              <X className="w-4 h-4" />
-                            </button>
-                          )}
+                  groupExportHistory(exportJobs).map(item =>
+                    item.type === 'job' ? renderJobCard(item.job) : (
+                      <motion.div
+                        key={item.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="rounded-lg border border-dark-600 p-3 space-y-2"
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <Layers className="w-4 h-4 text-primary-400" />
+                            <h4 className="font-medium text-white truncate">{item.name}</h4>
+                          </div>
+                          <span className="text-xs text-dark-400">
+                            {item.jobs.filter(job => job.status === 'completed').length}/{item.jobs.length} completed
+                          </span>
                         </div>
-                      </div>
-                      
-                      <div className="text-sm text-dark-400 mb-2">
-                        {getResolutionLabel(job.settings?.resolution)} • {job.settings?.quality} quality
-                      </div>
-                      
-                      {job.status === 'processing' && (
-                        <div className="w-full bg-dark-600 rounded-full h-2 mb-2">
-                          <div 
-                            className="bg-primary-500 h-2 rounded-full transition-all duration-300"
-                            style={{ width: `${job.progress || 0}%` }}
-                          />
-                        </div>
-                      )}
-                      
-                      <div className="flex items-center justify-between text-xs text-dark-400">
-                        <span>{new Date(job.createdAt).toLocaleString()}</span>
-                        {job.status === 'processing' && (
-                          <span>{job.progress || 0}%</span>
-                        )}
-                        {job.output?.size && (
-                          <span>{(job.output.size / 1024 / 1024).toFixed(1)} MB</span>
-                        )}
-                      </div>
-                    </motion.div>
-                  ))
+                        {item.jobs.map(job => renderJobCard(job))}
+                      </motion.div>
+                    )
+                  )
                 )}
               </div>
             </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   CheckCircle, 
@@ -9,14 +9,17 @@ import {
   X,
   Play,
   Pause,
-  Film
+  Film,
+  Wifi,
+  WifiOff
 } from 'lucide-react';
+import { useExportJobUpdates, mergeExportJob, isExportJobFinished, type ExportJobUpdate } from '@/hooks/useExportJobUpdates';
 
 interface ExportProgressProps {
   jobId: string;
   isVisible: boolean;
   onClose: () => void;
-  onComplete?: (job: any) => void;
+  onComplete?: (job: ExportJobUpdate) => void;
 }
 
 const ExportProgress: React.FC<ExportProgressProps> = ({
@@ -25,55 +28,34 @@ const ExportProgress: React.FC<ExportProgressProps> = ({
   onClose,
   onComplete
 }) => {
-  const [job, setJob] = useState<any>(null);
+  const [job, setJob] = useState<ExportJobUpdate | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // ジョブ状態を取得
-  const fetchJobStatus = async () => {
-    try {
-      const response = await fetch(`/api/export/jobs/${jobId}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-      
-      const data = await response.json();
-      
-      if (data.success) {
-        setJob(data.data.exportJob);
-        setError(null);
-        
-        // 完了時にコールバック実行
-        if (data.data.exportJob.status === 'completed' && onComplete) {
-          onComplete(data.data.exportJob);
-        }
-      } else {
-        setError(data.message || 'Failed to fetch job status');
-      }
-    } catch (err) {
-      setError('Network error');
-      console.error('Failed to fetch job status:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // ジョブ状態の更新（初回取得・WebSocket の進捗イベント・切断中のポーリング）
+  const handleJobUpdate = useCallback((update: ExportJobUpdate) => {
+    setJob(prev => prev ? mergeExportJob(prev, update) : update);
+    setError(null);
+    setLoading(false);
+  }, []);
 
-  // 定期的に状態を更新
+  // 完了時にコールバック実行（ジョブごとに1回）
+  const notifiedJobIdRef = useRef<string | null>(null);
   useEffect(() => {
-    if (!jobId || !isVisible) return;
+    if (job?.status !== 'completed' || notifiedJobIdRef.current === job.id) return;
+    notifiedJobIdRef.current = job.id;
+    onComplete?.(job);
+  }, [job, onComplete]);
 
-    fetchJobStatus();
-    
-    // 完了していない場合は2秒ごとに更新
-    const interval = setInterval(() => {
-      if (!job || ['queued', 'processing'].includes(job.status)) {
-        fetchJobStatus();
-      }
-    }, 2000);
+  const handleJobError = useCallback((err: unknown) => {
+    setError(err instanceof Error ? err.message : 'Failed to fetch job status');
+    setLoading(false);
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [jobId, isVisible]);
+  const { isLive } = useExportJobUpdates([jobId], handleJobUpdate, {
+    enabled: Boolean(jobId) && isVisible && !isExportJobFinished(job),
+    onError: handleJobError
+  });
 
   // ジョブキャンセル
   const cancelJob = async () => {
@@ -86,7 +68,7 @@ const ExportProgress: React.FC<ExportProgressProps> = ({
       });
       
       if (response.ok) {
-        await fetchJobStatus();
+        handleJobUpdate({ id: jobId, status: 'cancelled' });
       }
     } catch (error) {
       console.error('Failed to cancel job:', error);
@@ -143,7 +125,11 @@ const ExportProgress: React.FC<ExportProgressProps> = ({
     }
   };
 
+  // ワーカーから届いた処理段階を優先し、無ければ進捗率から推定する
   const getProgressPhase = (progress: number) => {
+    if (job?.processing?.message) return job.processing.message;
+    if (job?.processing?.currentStep) return job.processing.currentStep;
+
     if (progress < 25) return 'Initializing...';
     if (progress < 50) return 'Processing clips...';
     if (progress < 75) return 'Applying effects...';
@@ -169,6 +155,13 @@ const ExportProgress: React.FC<ExportProgressProps> = ({
           <div className="flex items-center space-x-3">
             <Film className="w-5 h-5 text-primary-400" />
             <h3 className="font-medium text-white">Export Progress</h3>
+            {job && !isExportJobFinished(job) && (
+              <span title={isLive ? 'Live updates' : 'Polling for updates'}>
+                {isLive
+                  ? <Wifi className="w-3.5 h-3.5 text-green-400" />
+                  : <WifiOff className="w-3.5 h-3.5 text-dark-400" />}
+              </span>
+            )}
           </div>
           <button
             onClick={onClose}
@@ -192,7 +185,7 @@ const ExportProgress: React.FC<ExportProgressProps> = ({
             <div>
               <h4 className="text-white font-medium truncate">{job.name}</h4>
               <p className="text-sm text-dark-400">
-                {job.settings?.resolution} • {job.settings?.quality} quality
+                {job.settings?.resolution} • {job.settings?.quality?.preset} quality
               </p>
             </div>
 
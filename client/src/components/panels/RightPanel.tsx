@@ -14,12 +14,32 @@ import {
   Zap,
   BarChart3,
   Activity,
+  Wand2,
+  Move,
+  Diamond,
 } from 'lucide-react';
 
-import type { MediaFile, TimelineClip, Resolution, Project, AudioTrack } from '@/types';
+import type {
+  MediaFile,
+  TimelineClip,
+  Resolution,
+  Project,
+  AudioTrack,
+  AudioTrackEnhanced,
+  EditRecipe,
+  ReframeStrategy,
+  FrequencyTrigger,
+  FrequencyTriggerEvent,
+} from '@/types';
 import BPMDetectorComponent from '../audio/BPMDetector';
+import FrequencyTriggerPanel from '../audio/FrequencyTriggerPanel';
 import EffectPresetsLibrary from '../effects/EffectPresetsLibrary';
+import EditRecipesPanel from '../recipes/EditRecipesPanel';
+import { getTimelineBPMAnalysis } from '../../utils/recipes/recipeEngine';
+import { bakeTriggerEvents } from '../../utils/audio/frequencyTriggers';
 import WaveformDisplay from '../waveform/WaveformDisplay';
+import ClipTransformControls from '../editor/ClipTransformControls';
+import EffectKeyframesEditor from '../editor/EffectKeyframesEditor';
 import type { EffectPreset } from '../../utils/effects/effectPresets';
 
 // 解像度オプション
@@ -95,7 +115,10 @@ interface RightPanelProps {
   onClosePreviewWindow: (windowId: string) => void;
   onProjectUpdate: (project: Project) => void;
   onApplyPreset: (clip: TimelineClip) => void;
+  onClipUpdate?: (clip: TimelineClip) => void;
+  playheadPosition?: number; // キーフレームの追加・編集位置
   onPreviewPreset?: (preset: EffectPreset) => void;
+  onApplyRecipe?: (recipe: EditRecipe, clip: TimelineClip) => void;
 }
 
 const RightPanel: React.FC<RightPanelProps> = ({
@@ -108,14 +131,34 @@ const RightPanel: React.FC<RightPanelProps> = ({
   onClosePreviewWindow,
   onProjectUpdate,
   onApplyPreset,
+  onClipUpdate,
+  playheadPosition = 0,
   onPreviewPreset,
+  onApplyRecipe,
 }) => {
-  const [activeTab, setActiveTab] = useState<'properties' | 'audio' | 'effects'>('properties');
+  const [activeTab, setActiveTab] = useState<'properties' | 'audio' | 'effects' | 'recipes'>('properties');
   const [selectedAudioFile, setSelectedAudioFile] = useState<MediaFile | null>(null);
   const [selectedAudioTrack, setSelectedAudioTrack] = useState<AudioTrack | null>(null);
 
   const audioFiles = project.mediaLibrary.filter((file) => file.type === 'audio');
   const audioTracks = project.timeline.audioTracks || [];
+  // 選択時点ではなく現在のタイムライン上のトラック（移動・焼き込み後の状態）
+  const currentAudioTrack =
+    selectedAudioTrack && (audioTracks.find((track) => track.id === selectedAudioTrack.id) || selectedAudioTrack);
+
+  // 周波数トリガーの発火をクリップのエフェクトとして焼き込み、使ったトリガーをトラックに残す
+  const handleTriggersBaked = (track: AudioTrack, triggers: FrequencyTrigger[], events: FrequencyTriggerEvent[]) => {
+    const timeline = bakeTriggerEvents(project.timeline, track as AudioTrackEnhanced, triggers, events);
+    onProjectUpdate({
+      ...project,
+      timeline: {
+        ...timeline,
+        audioTracks: timeline.audioTracks.map((t) =>
+          t.id === track.id ? ({ ...t, frequencyTriggers: triggers } as AudioTrackEnhanced) : t
+        ),
+      },
+    });
+  };
 
   const handleProjectTimeChange = (newDuration: number) => {
     onProjectUpdate({
@@ -205,6 +248,7 @@ const RightPanel: React.FC<RightPanelProps> = ({
             { id: 'properties', label: '設定', icon: Settings },
             { id: 'audio', label: '音声解析', icon: Music },
             { id: 'effects', label: 'エフェクト', icon: Sparkles },
+            { id: 'recipes', label: 'レシピ', icon: Wand2 },
           ].map((tab) => {
             const Icon = tab.icon;
             return (
@@ -325,6 +369,25 @@ const RightPanel: React.FC<RightPanelProps> = ({
                     </select>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium mb-2">切り出し（アスペクト比変換）</label>
+                    <select
+                      value={project.settings.cropStrategy || 'center'}
+                      onChange={(e) =>
+                        onProjectUpdate({
+                          ...project,
+                          settings: { ...project.settings, cropStrategy: e.target.value as ReframeStrategy },
+                        })
+                      }
+                      className="w-full bg-dark-700 border border-dark-600 rounded-lg px-3 py-2 text-sm"
+                    >
+                      <option value="center">中央</option>
+                      <option value="smart">スマート（被写体を追従）</option>
+                      <option value="manual">手動キーフレームのみ</option>
+                    </select>
+                    <div className="text-xs text-gray-500 mt-1">クリップごとの設定はプレビューのリフレーム表示で変更できます</div>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium mb-2">プロジェクト時間</label>
                     <input
@@ -343,7 +406,29 @@ const RightPanel: React.FC<RightPanelProps> = ({
                   </div>
                 </div>
 
-                {!selectedClip && (
+                {selectedClip && onClipUpdate ? (
+                  <>
+                    <div className="bg-dark-700 rounded-lg p-4">
+                      <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
+                        <Move className="w-4 h-4 text-purple-400" />
+                        変形
+                      </h3>
+                      <ClipTransformControls clip={selectedClip} onClipUpdate={onClipUpdate} />
+                    </div>
+
+                    <div className="bg-dark-700 rounded-lg p-4">
+                      <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
+                        <Diamond className="w-4 h-4 text-purple-400" />
+                        キーフレーム
+                      </h3>
+                      <EffectKeyframesEditor
+                        clip={selectedClip}
+                        playheadPosition={playheadPosition}
+                        onClipUpdate={onClipUpdate}
+                      />
+                    </div>
+                  </>
+                ) : (
                   <div className="text-center text-gray-400 py-8">
                     <Info className="w-8 h-8 mx-auto mb-2" />
                     <p className="text-sm">クリップを選択してプロパティを編集</p>
@@ -473,6 +558,17 @@ const RightPanel: React.FC<RightPanelProps> = ({
                 </div>
               )}
 
+              {/* 周波数トリガー */}
+              {currentAudioTrack && selectedAudioFile && (
+                <div className="p-4 border-b border-dark-700">
+                  <FrequencyTriggerPanel
+                    audioFile={selectedAudioFile}
+                    track={currentAudioTrack as AudioTrackEnhanced}
+                    onTriggersBaked={(triggers, events) => handleTriggersBaked(currentAudioTrack, triggers, events)}
+                  />
+                </div>
+              )}
+
               {/* BPM検出 */}
               <div className="flex-1 overflow-hidden">
                 {selectedAudioFile ? (
@@ -523,6 +619,24 @@ const RightPanel: React.FC<RightPanelProps> = ({
               />
             </motion.div>
           )}
+
+          {/* 編集レシピ */}
+          {activeTab === 'recipes' && (
+            <motion.div
+              key="recipes"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="h-full"
+            >
+              <EditRecipesPanel
+                selectedClip={selectedClip || null}
+                bpmAnalysis={getTimelineBPMAnalysis(project.timeline)}
+                onRecipeApply={(recipe, clip) => onApplyRecipe?.(recipe, clip)}
+                onRecipePreview={(recipe) => console.log('👁️ レシピプレビュー:', recipe.name)}
+              />
+            </motion.div>
+          )}
         </AnimatePresence>
       </div>
     </div>
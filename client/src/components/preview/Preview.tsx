@@ -8,29 +8,106 @@ import {
   Smartphone,
   Tablet,
   Monitor,
-  Square
+  Square,
+  Crop
 } from 'lucide-react';
-import type { Project } from '../../types';
+import { cropWindow, describeFrame, toCanvasFilter, type LayerDescription, type ReframeFocus } from '@render';
+import type { Project, PreviewQuality, TimelineClip, ClipReframe } from '../../types';
 import { RESOLUTION_PRESETS } from '../../types';
+import { VideoFrameProvider } from '../../utils/media/videoFrameProvider';
+import { getPreviewSource } from '../../utils/media/renditions';
+import { usePerformanceMonitor } from '../../hooks/timeline';
+import { useCommandHandlers } from '../../hooks/useCommands';
+
+// 先読みするクリップの範囲（再生ヘッドから前後の秒数）
+const PREFETCH_WINDOW = 1;
 
 interface PreviewProps {
   project: Project;
   playheadPosition: number;
   isPlaying: boolean;
+  // リフレーム表示の対象（タイムラインで選択中のクリップ）
+  selectedClipId?: string;
+  onClipUpdate?: (clip: TimelineClip) => void;
+}
+
+// リフレーム表示で描く素材（直近のフレームで描いたもの）
+interface ReframeSource {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  layer: LayerDescription;
 }
 
+// 再生ヘッド位置のクリップ内の時間（リフレームキーフレームの時間）
+const reframeClipTime = (clip: TimelineClip, playheadPosition: number) =>
+  Math.round(Math.min(clip.duration, Math.max(0, playheadPosition - clip.startTime)) * 100) / 100;
+
+const findReframeKeyframe = (clip: TimelineClip, time: number) =>
+  clip.reframe?.keyframes?.find(keyframe => Math.abs(keyframe.time - time) < 0.01);
+
+// 空になったリフレーム設定はクリップから外す
+const withReframe = (clip: TimelineClip, reframe: ClipReframe): TimelineClip => {
+  const hasKeyframes = !!reframe.keyframes && reframe.keyframes.length > 0;
+  if (!reframe.strategy && !hasKeyframes) {
+    const next = { ...clip };
+    delete next.reframe;
+    return next;
+  }
+  return {
+    ...clip,
+    reframe: {
+      ...(reframe.strategy ? { strategy: reframe.strategy } : {}),
+      ...(hasKeyframes ? { keyframes: reframe.keyframes } : {})
+    }
+  };
+};
+
+// 同じ時間のキーフレームがあれば更新、なければ追加する
+const setReframeKeyframe = (clip: TimelineClip, time: number, focus: ReframeFocus): TimelineClip => {
+  const keyframes = clip.reframe?.keyframes || [];
+  const existing = findReframeKeyframe(clip, time);
+  const updated = existing
+    ? keyframes.map(keyframe => keyframe.id === existing.id ? { ...keyframe, x: focus.x, y: focus.y } : keyframe)
+    : [...keyframes, { id: `reframe-${Date.now()}`, time, x: focus.x, y: focus.y }];
+  return withReframe(clip, { ...clip.reframe, keyframes: updated.sort((a, b) => a.time - b.time) });
+};
+
+const clamp01 = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+
 const Preview: React.FC<PreviewProps> = ({ 
   project, 
   playheadPosition, 
-  isPlaying 
+  isPlaying,
+  selectedClipId,
+  onClipUpdate
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showSafeArea, setShowSafeArea] = useState(true);
   const [deviceFrame, setDeviceFrame] = useState<'none' | 'mobile' | 'tablet' | 'desktop'>('mobile');
-  const [previewQuality, setPreviewQuality] = useState<'low' | 'medium' | 'high'>('medium');
-  const [loadedMedia, setLoadedMedia] = useState<Map<string, HTMLImageElement | HTMLVideoElement>>(new Map());
+  // low / medium はサーバーが作るプロキシ、high は元ファイルを読み込む
+  const [previewQuality, setPreviewQuality] = useState<PreviewQuality>('medium');
+  const [loadedMedia, setLoadedMedia] = useState<Map<string, HTMLImageElement>>(new Map());
+
+  // リフレーム表示：選択中クリップの素材全体に切り出し範囲を重ね、ドラッグで注目点を指定する
+  const [showReframe, setShowReframe] = useState(false);
+  const reframeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const reframeSourceRef = useRef<ReframeSource | null>(null);
+  const reframeDragRef = useRef(false);
+  const selectedClip = project.timeline.clips.find(clip => clip.id === selectedClipId);
+  const selectedMedia = selectedClip && project.mediaLibrary.find(media => media.id === selectedClip.mediaId);
+  const reframeTime = selectedClip ? reframeClipTime(selectedClip, playheadPosition) : 0;
+  const reframeKeyframe = selectedClip ? findReframeKeyframe(selectedClip, reframeTime) : undefined;
+  const reframeStrategy = selectedClip?.reframe?.strategy || project.settings.cropStrategy || 'center';
+
+  // 動画フレームはフレーム供給から取得する（デコード済みフレームが届いたら描き直す）
+  const frameRate = project.settings.frameRate;
+  const [frameProvider, setFrameProvider] = useState<VideoFrameProvider | null>(null);
+  const [frameVersion, setFrameVersion] = useState(0);
+  const awaitingFrameRef = useRef(false);
+  const { recordDroppedFrames, startMonitoring, stopMonitoring, currentMetrics } = usePerformanceMonitor();
 
   // Get resolution data
   const resolution = RESOLUTION_PRESETS[project.settings.resolution];
@@ -59,10 +136,13 @@ const Preview: React.FC<PreviewProps> = ({
   const { width: previewWidth, height: previewHeight } = calculatePreviewSize();
 
   // メディアファイル読み込み（改良版）
-  const loadMediaFile = useCallback(async (mediaFile: any): Promise<HTMLImageElement | HTMLVideoElement | null> => {
-    if (loadedMedia.has(mediaFile.id)) {
-      return loadedMedia.get(mediaFile.id) || null;
+  // 画質ごとに読み込むので、キャッシュも画質ごと
+  const loadMediaFile = useCallback(async (mediaFile: any): Promise<HTMLImageElement | null> => {
+    const cacheKey = `${mediaFile.id}:${previewQuality}`;
+    if (loadedMedia.has(cacheKey)) {
+      return loadedMedia.get(cacheKey) || null;
     }
+    const sourceUrl = getPreviewSource(mediaFile, previewQuality).url;
 
     try {
       if (mediaFile.type === 'image') {
@@ -76,7 +156,7 @@ const Preview: React.FC<PreviewProps> = ({
           
           img.onload = () => {
             clearTimeout(timeoutId);
-            setLoadedMedia(prev => new Map(prev).set(mediaFile.id, img));
+            setLoadedMedia(prev => new Map(prev).set(cacheKey, img));
             console.log('✅ 画像読み込み成功:', mediaFile.name);
             resolve(img);
           };
@@ -97,7 +177,7 @@ const Preview: React.FC<PreviewProps> = ({
               img.onload = () => {
                 clearTimeout(timeoutId);
                 URL.revokeObjectURL(blobUrl);
-                setLoadedMedia(prev => new Map(prev).set(mediaFile.id, img));
+                setLoadedMedia(prev => new Map(prev).set(cacheKey, img));
                 console.log('✅ 画像読み込み成功（originalFile）:', mediaFile.name);
                 resolve(img);
               };
@@ -110,66 +190,12 @@ const Preview: React.FC<PreviewProps> = ({
               };
             } catch (blobError) {
               console.error('❌ Blob URL作成失敗', mediaFile.name, blobError);
-              // フォールバックで元のURLを使用
-              img.src = mediaFile.url;
-            }
-          } else {
-            // originalFileがない場合は元のURLを使用
-            img.src = mediaFile.url;
-          }
-        });
-      } else if (mediaFile.type === 'video') {
-        const video = document.createElement('video');
-        video.crossOrigin = 'anonymous';
-        video.muted = true;
-        video.preload = 'metadata';
-        
-        return new Promise((resolve, reject) => {
-          const timeoutId = setTimeout(() => {
-            reject(new Error('動画読み込みタイムアウト'));
-          }, 10000);
-          
-          video.onloadedmetadata = () => {
-            clearTimeout(timeoutId);
-            setLoadedMedia(prev => new Map(prev).set(mediaFile.id, video));
-            console.log('✅ 動画読み込み成功:', mediaFile.name);
-            resolve(video);
-          };
-          
-          video.onerror = (error) => {
-            clearTimeout(timeoutId);
-            console.error('❌ 動画読み込み失敗', mediaFile.name, error);
-            reject(error);
-          };
-          
-          // originalFileがある場合、新しいBlob URLを作成
-          if (mediaFile.originalFile && mediaFile.originalFile instanceof File) {
-            try {
-              const blobUrl = URL.createObjectURL(mediaFile.originalFile);
-              video.src = blobUrl;
-              
-              // 読み込み完了時にBlob URLをクリーンアップ
-              video.onloadedmetadata = () => {
-                clearTimeout(timeoutId);
-                setLoadedMedia(prev => new Map(prev).set(mediaFile.id, video));
-                console.log('✅ 動画読み込み成功（originalFile）:', mediaFile.name);
-                resolve(video);
-              };
-              
-              video.onerror = (error) => {
-                clearTimeout(timeoutId);
-                URL.revokeObjectURL(blobUrl);
-                console.error('❌ 動画読み込み失敗（originalFile）', mediaFile.name, error);
-                reject(error);
-              };
-            } catch (blobError) {
-              console.error('❌ Blob URL作成失敗', mediaFile.name, blobError);
-              // フォールバックで元のURLを使用
-              video.src = mediaFile.url;
+              // フォールバックでサーバーの画像を使用
+              img.src = sourceUrl;
             }
           } else {
-            // originalFileがない場合は元のURLを使用
-            video.src = mediaFile.url;
+            // originalFileがない場合は画質に合う縮小版（なければ元のURL）を使用
+            img.src = sourceUrl;
           }
         });
       }
@@ -179,9 +205,52 @@ const Preview: React.FC<PreviewProps> = ({
     }
 
     return null;
-  }, [loadedMedia]);
+  }, [loadedMedia, previewQuality]);
+
+  // フレームレートが変わるとフレーム番号がずれるので、フレーム供給ごと作り直す
+  useEffect(() => {
+    const provider = new VideoFrameProvider({ frameRate });
+    const unsubscribe = provider.subscribe(() => {
+      if (awaitingFrameRef.current) {
+        awaitingFrameRef.current = false;
+        setFrameVersion(version => version + 1);
+      }
+    });
+    setFrameProvider(provider);
+    return () => {
+      unsubscribe();
+      provider.dispose();
+    };
+  }, [frameRate]);
+
+  useEffect(() => {
+    frameProvider?.setQuality(previewQuality);
+  }, [frameProvider, previewQuality]);
+
+  // 再生中はドロップフレームを計測する
+  useEffect(() => {
+    if (!isPlaying) return;
+    startMonitoring();
+    return () => stopMonitoring();
+  }, [isPlaying, startMonitoring, stopMonitoring]);
 
-  // 現在のフレームをレンダリング（改良版）
+  // 再生ヘッド付近の動画クリップを先読み
+  useEffect(() => {
+    if (!frameProvider) return;
+    const mediaById = new Map(project.mediaLibrary.map(media => [media.id, media]));
+    const clips = project.timeline.clips
+      .filter(clip =>
+        clip.startTime < playheadPosition + PREFETCH_WINDOW &&
+        clip.startTime + clip.duration + PREFETCH_WINDOW > playheadPosition
+      )
+      .flatMap(clip => {
+        const media = mediaById.get(clip.mediaId);
+        return media && media.type === 'video' ? [{ clip, media }] : [];
+      });
+    frameProvider.prefetch(clips, playheadPosition, isPlaying);
+  }, [frameProvider, playheadPosition, isPlaying, project.timeline.clips, project.mediaLibrary]);
+
+  // 現在のフレームをレンダリング（エクスポートと共通のフレーム記述を使用）
   useEffect(() => {
     let isMounted = true;
     
@@ -194,40 +263,35 @@ const Preview: React.FC<PreviewProps> = ({
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
+      const frame = describeFrame(project, playheadPosition);
+
       // キャンバスサイズ設定
-      canvas.width = resolution.width;
-      canvas.height = resolution.height;
+      canvas.width = frame.width;
+      canvas.height = frame.height;
 
       // キャンバスをクリア
       ctx.fillStyle = '#000000';
       ctx.fillRect(0, 0, canvas.width, canvas.height);
+      reframeSourceRef.current = null;
 
-      // 現在時刻でアクティブなクリップを検索
-      const activeClips = project.timeline.clips.filter(clip => 
-        playheadPosition >= clip.startTime && 
-        playheadPosition < clip.startTime + clip.duration
-      );
-
-      // レイヤー順でソート（下から上へ）
-      activeClips.sort((a, b) => a.layer - b.layer);
-
-      // クリップをレンダリング
-      for (const clip of activeClips) {
+      // レイヤーは下から上の順で並んでいる
+      for (const layer of frame.layers) {
         if (!isMounted) break;
         
-        const mediaFile = project.mediaLibrary.find(m => m.id === clip.mediaId);
+        const mediaFile = project.mediaLibrary.find(m => m.id === layer.clip.mediaId);
         if (!mediaFile) continue;
 
-        const clipProgress = (playheadPosition - clip.startTime) / clip.duration;
-        
+        ctx.save();
         try {
+          // 位置・スケール・不透明度とトランジションの状態を適用
+          applyLayerPlacement(ctx, layer);
           if (mediaFile.type === 'image') {
-            await renderImageClip(ctx, mediaFile, clip, clipProgress);
+            await renderImageClip(ctx, mediaFile, layer);
           } else if (mediaFile.type === 'video') {
-            await renderVideoClip(ctx, mediaFile, clip, clipProgress);
+            renderVideoClip(ctx, layer);
           }
         } catch (error) {
-          console.error('クリップレンダリングエラー:', clip.id, error);
+          console.error('クリップレンダリングエラー:', layer.clip.id, error);
           // エラー時のフォールバック表示
           ctx.fillStyle = '#ff4444';
           ctx.fillRect(0, 0, ctx.canvas.width / 4, ctx.canvas.height / 4);
@@ -235,12 +299,13 @@ const Preview: React.FC<PreviewProps> = ({
           ctx.font = '12px Arial';
           ctx.textAlign = 'center';
           ctx.fillText('エラー', ctx.canvas.width / 8, ctx.canvas.height / 8);
+        } finally {
+          ctx.restore();
         }
       }
 
-      // テキストオーバーレイを追加
-      if (isMounted) {
-        renderTextOverlays(ctx);
+      if (isMounted && showReframe) {
+        drawReframeOverlay(frame.width, frame.height);
       }
     };
 
@@ -251,78 +316,105 @@ const Preview: React.FC<PreviewProps> = ({
     return () => {
       isMounted = false;
     };
-  }, [playheadPosition, project, resolution, loadedMedia]);
+  }, [playheadPosition, project, loadedMedia, frameProvider, frameVersion, previewQuality, showReframe, selectedClipId]);
   
   // コンポーネントクリーンアップ
   useEffect(() => {
     return () => {
       // ロードされたメディアのクリーンアップ
-      loadedMedia.forEach((media, id) => {
-        if (media instanceof HTMLVideoElement) {
-          media.pause();
-          media.src = '';
-          media.load();
-        }
+      loadedMedia.forEach((_, id) => {
         console.log('🧹 メディアクリーンアップ:', id);
       });
       setLoadedMedia(new Map());
     };
   }, []);
 
+  // エクスポートのオーバーレイ／xfadeと同じ基準でレイヤーを配置する
+  const applyLayerPlacement = (ctx: CanvasRenderingContext2D, layer: LayerDescription) => {
+    const { x, y, scale } = layer.transform;
+    const { offsetX, offsetY, reveal } = layer.geometry;
+    const { width, height } = ctx.canvas;
+
+    // ワイプで見えている範囲（フレーム基準）
+    if (reveal) {
+      ctx.beginPath();
+      ctx.rect(reveal.x * width, reveal.y * height, reveal.width * width, reveal.height * height);
+      ctx.clip();
+    }
+
+    // スライドはフレーム単位で、配置済みのクリップごと動かす
+    ctx.globalAlpha = layer.alpha;
+    ctx.translate(offsetX * width, offsetY * height);
+    ctx.translate((x / 100) * width, (y / 100) * height);
+    ctx.scale(scale, scale);
+    ctx.translate(-width / 2, -height / 2);
+
+    // クリップのフレーム外にはみ出さないようにする
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
+  };
+
+  // カバーフィット（注目点に合わせて切り出し）・パン/ズーム・カラー・フェードを適用して描画
+  const drawLayerSource = (
+    ctx: CanvasRenderingContext2D,
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    layer: LayerDescription
+  ) => {
+    const { width, height } = ctx.canvas;
+    const { color, panZoom, fadeLevel } = layer.effects;
+
+    ctx.save();
+    if (panZoom) {
+      ctx.translate(width / 2 + panZoom.offsetX * width, height / 2 + panZoom.offsetY * height);
+      ctx.scale(panZoom.zoom, panZoom.zoom);
+      ctx.translate(-width / 2, -height / 2);
+    }
+
+    const crop = cropWindow({ width: sourceWidth, height: sourceHeight }, { width, height }, layer.focus);
+
+    ctx.filter = toCanvasFilter(color);
+    ctx.drawImage(
+      source,
+      crop.x * sourceWidth,
+      crop.y * sourceHeight,
+      crop.width * sourceWidth,
+      crop.height * sourceHeight,
+      0,
+      0,
+      width,
+      height
+    );
+    ctx.restore();
+
+    if (layer.clip.id === selectedClipId) {
+      reframeSourceRef.current = { source, width: sourceWidth, height: sourceHeight, layer };
+    }
+
+    // フェードエフェクトは黒へのフェード
+    if (fadeLevel < 1) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${1 - fadeLevel})`;
+      ctx.fillRect(0, 0, width, height);
+    }
+  };
+
   const renderImageClip = async (
     ctx: CanvasRenderingContext2D, 
     mediaFile: any, 
-    clip: any, 
-    progress: number
+    layer: LayerDescription
   ) => {
     try {
       const img = await loadMediaFile(mediaFile) as HTMLImageElement;
       
       if (img && img.complete && img.naturalWidth > 0) {
-        ctx.save();
-        
-        // Ken Burnsエフェクトを適用（有効な場合）
-        const panZoomEffect = clip.effects?.find((e: any) => e.type === 'pan_zoom');
-        if (panZoomEffect && panZoomEffect.enabled) {
-          const { zoom = 1.1, panX = 0, panY = 0 } = panZoomEffect.parameters;
-          const currentZoom = 1 + (zoom - 1) * progress;
-          const currentPanX = panX * progress * ctx.canvas.width;
-          const currentPanY = panY * progress * ctx.canvas.height;
-          
-          ctx.scale(currentZoom, currentZoom);
-          ctx.translate(currentPanX / currentZoom, currentPanY / currentZoom);
-          
-          // キャンバスにフィットするスケールを計算
-          const scaleX = ctx.canvas.width / currentZoom / img.width;
-          const scaleY = ctx.canvas.height / currentZoom / img.height;
-          const scale = Math.max(scaleX, scaleY); // キャンバスをカバー
-          
-          const drawWidth = img.width * scale;
-          const drawHeight = img.height * scale;
-          const drawX = (ctx.canvas.width / currentZoom - drawWidth) / 2;
-          const drawY = (ctx.canvas.height / currentZoom - drawHeight) / 2;
-          
-          ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
-        } else {
-          // 標準フィット
-          const scaleX = ctx.canvas.width / img.width;
-          const scaleY = ctx.canvas.height / img.height;
-          const scale = Math.max(scaleX, scaleY);
-          
-          const drawWidth = img.width * scale;
-          const drawHeight = img.height * scale;
-          const drawX = (ctx.canvas.width - drawWidth) / 2;
-          const drawY = (ctx.canvas.height - drawHeight) / 2;
-          
-          ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
-        }
-        
-        ctx.restore();
+        drawLayerSource(ctx, img, img.naturalWidth, img.naturalHeight, layer);
       } else {
         // フォールバック: 色付き矩形
         const colors = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57'];
-        const colorIndex = parseInt(clip.id.slice(-1)) % colors.length;
-        ctx.fillStyle = colors[colorIndex];
+        const colorIndex = parseInt(layer.clip.id.slice(-1)) % colors.length;
+        ctx.fillStyle = colors[colorIndex] || colors[0];
         ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
         
         // 読み込みステータス
@@ -345,108 +437,134 @@ const Preview: React.FC<PreviewProps> = ({
     }
   };
 
-  const renderVideoClip = async (
-    ctx: CanvasRenderingContext2D, 
-    mediaFile: any, 
-    clip: any, 
-    progress: number
-  ) => {
-    try {
-      const video = await loadMediaFile(mediaFile) as HTMLVideoElement;
-      
-      if (video && video.readyState >= 2 && video.videoWidth > 0) { // HAVE_CURRENT_DATA
-        // クリップの進行状況に基づいてビデオ時間を設定
-        const videoTime = (clip.trimStart || 0) + progress * clip.duration;
-        const normalizedTime = Math.min(videoTime, video.duration - 0.1);
-        
-        // ビデオの現在時間を設定（安全に）
-        if (Math.abs(video.currentTime - normalizedTime) > 0.5) {
-          try {
-            video.currentTime = normalizedTime;
-          } catch (timeError) {
-            console.warn('ビデオ時間設定エラー:', timeError);
-          }
-        }
-        
-        // ビデオフレームを描画
-        const scaleX = ctx.canvas.width / video.videoWidth;
-        const scaleY = ctx.canvas.height / video.videoHeight;
-        const scale = Math.max(scaleX, scaleY);
-        
-        const drawWidth = video.videoWidth * scale;
-        const drawHeight = video.videoHeight * scale;
-        const drawX = (ctx.canvas.width - drawWidth) / 2;
-        const drawY = (ctx.canvas.height - drawHeight) / 2;
-        
-        ctx.drawImage(video, drawX, drawY, drawWidth, drawHeight);
-        
-        // ビデオ用プログレスバー
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-        const barWidth = ctx.canvas.width * progress;
-        ctx.fillRect(0, ctx.canvas.height - 10, barWidth, 10);
-        
-        // ビデオ情報表示
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-        ctx.fillRect(10, 10, 120, 60);
-        ctx.fillStyle = 'white';
-        ctx.font = '12px Arial';
-        ctx.textAlign = 'left';
-        ctx.fillText(`Time: ${normalizedTime.toFixed(1)}s`, 15, 25);
-        ctx.fillText(`Duration: ${video.duration.toFixed(1)}s`, 15, 40);
-        ctx.fillText(`Progress: ${(progress * 100).toFixed(0)}%`, 15, 55);
-      } else {
-        // フォールバック: グラデーション
-        const gradient = ctx.createLinearGradient(0, 0, ctx.canvas.width, ctx.canvas.height);
-        gradient.addColorStop(0, '#667eea');
-        gradient.addColorStop(1, '#764ba2');
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-        
-        // 読み込みステータス
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
-        ctx.font = '24px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText('動画を読み込み中...', ctx.canvas.width / 2, ctx.canvas.height / 2);
-        
-        // ビデオ状態情報
-        if (video) {
-          ctx.font = '14px Arial';
-          ctx.fillText(`ReadyState: ${video.readyState}`, ctx.canvas.width / 2, ctx.canvas.height / 2 + 30);
-          ctx.fillText(`VideoWidth: ${video.videoWidth}`, ctx.canvas.width / 2, ctx.canvas.height / 2 + 50);
-        }
-      }
-    } catch (error) {
-      console.error('動画クリップレンダリングエラー:', mediaFile.name, error);
-      // エラーフォールバック
-      ctx.fillStyle = '#cc2936';
+  // デコード済みフレームを描画。間に合わなかったフレームは近いフレームで代用し、ドロップとして記録する
+  const renderVideoClip = (ctx: CanvasRenderingContext2D, layer: LayerDescription) => {
+    const frame = frameProvider?.getFrame(layer.clip, playheadPosition) ?? null;
+
+    if (!frame || !frame.exact) {
+      awaitingFrameRef.current = true;
+      if (isPlaying) recordDroppedFrames();
+    }
+
+    if (frame) {
+      drawLayerSource(ctx, frame.bitmap, frame.width, frame.height, layer);
+    } else {
+      // フォールバック: グラデーション
+      const gradient = ctx.createLinearGradient(0, 0, ctx.canvas.width, ctx.canvas.height);
+      gradient.addColorStop(0, '#667eea');
+      gradient.addColorStop(1, '#764ba2');
+      ctx.fillStyle = gradient;
       ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-      ctx.fillStyle = 'white';
-      ctx.font = '20px Arial';
+
+      // 読み込みステータス
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.font = '24px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText('動画の読み込みに失敗', ctx.canvas.width / 2, ctx.canvas.height / 2 - 10);
-      ctx.font = '14px Arial';
-      ctx.fillText(mediaFile.name || '不明なファイル', ctx.canvas.width / 2, ctx.canvas.height / 2 + 20);
+      ctx.fillText('動画を読み込み中...', ctx.canvas.width / 2, ctx.canvas.height / 2);
     }
   };
 
-  const renderTextOverlays = (ctx: CanvasRenderingContext2D) => {
-    // Render any text overlays
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-    ctx.font = '24px Inter, sans-serif';
-    ctx.textAlign = 'center';
-    ctx.fillText('FlickMV Preview', ctx.canvas.width / 2, 50);
-    
-    // Time display
-    ctx.font = '16px monospace';
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
-    const timeText = `${Math.floor(playheadPosition / 60)}:${(playheadPosition % 60).toFixed(1).padStart(4, '0')}`;
-    ctx.fillText(timeText, ctx.canvas.width / 2, ctx.canvas.height - 30);
+  // リフレーム表示での素材の位置（キャンバスに収める）
+  const reframeLayout = (canvas: HTMLCanvasElement, target: ReframeSource) => {
+    const scale = Math.min(canvas.width / target.width, canvas.height / target.height);
+    const width = target.width * scale;
+    const height = target.height * scale;
+    return { x: (canvas.width - width) / 2, y: (canvas.height - height) / 2, width, height };
+  };
+
+  // 素材全体を暗く描き、書き出しで使われる範囲だけを明るく枠で囲む
+  const drawReframeOverlay = (frameWidth: number, frameHeight: number) => {
+    const canvas = reframeCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = frameWidth;
+    canvas.height = frameHeight;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.fillRect(0, 0, frameWidth, frameHeight);
+
+    const target = reframeSourceRef.current;
+    if (!target) return;
+
+    const area = reframeLayout(canvas, target);
+    const { focus } = target.layer;
+    const crop = cropWindow({ width: target.width, height: target.height }, { width: frameWidth, height: frameHeight }, focus);
+    const rect = {
+      x: area.x + crop.x * area.width,
+      y: area.y + crop.y * area.height,
+      width: crop.width * area.width,
+      height: crop.height * area.height
+    };
+
+    ctx.globalAlpha = 0.35;
+    ctx.drawImage(target.source, area.x, area.y, area.width, area.height);
+    ctx.globalAlpha = 1;
+    ctx.drawImage(
+      target.source,
+      crop.x * target.width,
+      crop.y * target.height,
+      crop.width * target.width,
+      crop.height * target.height,
+      rect.x,
+      rect.y,
+      rect.width,
+      rect.height
+    );
+
+    // 再生ヘッド位置にキーフレームがあれば黄色
+    const lineWidth = Math.max(2, frameWidth / 240);
+    ctx.strokeStyle = reframeKeyframe ? '#facc15' : '#a855f7';
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.beginPath();
+    ctx.arc(area.x + focus.x * area.width, area.y + focus.y * area.height, lineWidth * 3, 0, Math.PI * 2);
+    ctx.stroke();
+  };
+
+  // ドラッグした位置を再生ヘッド位置の注目点にする（手動キーフレームはスマートの軌跡より優先）
+  const handleReframePointer = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = reframeCanvasRef.current;
+    const target = reframeSourceRef.current;
+    if (!canvas || !target || !selectedClip || !onClipUpdate) return;
+
+    if (event.type === 'pointerdown') {
+      reframeDragRef.current = true;
+      canvas.setPointerCapture(event.pointerId);
+    } else if (!reframeDragRef.current) {
+      return;
+    }
+
+    const bounds = canvas.getBoundingClientRect();
+    const area = reframeLayout(canvas, target);
+    const x = ((event.clientX - bounds.left) / bounds.width) * canvas.width;
+    const y = ((event.clientY - bounds.top) / bounds.height) * canvas.height;
+    onClipUpdate(setReframeKeyframe(selectedClip, reframeTime, {
+      x: clamp01((x - area.x) / area.width),
+      y: clamp01((y - area.y) / area.height)
+    }));
+  };
+
+  const endReframeDrag = () => {
+    reframeDragRef.current = false;
+  };
+
+  const updateSelectedReframe = (reframe: ClipReframe) => {
+    if (selectedClip && onClipUpdate) {
+      onClipUpdate(withReframe(selectedClip, reframe));
+    }
   };
 
   const toggleFullscreen = () => {
     setIsFullscreen(!isFullscreen);
   };
 
+  // キーボードショートカット（プレビューを操作中だけ効く）
+  useCommandHandlers({
+    'preview.toggleFullscreen': toggleFullscreen,
+    'preview.toggleSafeArea': () => setShowSafeArea(prev => !prev),
+    'preview.toggleReframe': () => setShowReframe(prev => !prev)
+  });
+
   const getDeviceFrameStyle = () => {
     switch (deviceFrame) {
       case 'mobile':
@@ -478,6 +596,7 @@ const Preview: React.FC<PreviewProps> = ({
   return (
     <div 
       ref={containerRef}
+      data-command-scope="preview"
       className={`relative h-full flex items-center justify-center ${
         isFullscreen ? 'fixed inset-0 z-50 bg-black' : 'bg-dark-850'
       }`}
@@ -522,6 +641,14 @@ const Preview: React.FC<PreviewProps> = ({
         >
           <Settings className="w-4 h-4" />
         </button>
+
+        <button
+          className={`p-2 rounded-lg transition-colors ${showReframe ? 'bg-primary-500' : 'bg-black/50 hover:bg-black/70'}`}
+          onClick={() => setShowReframe(!showReframe)}
+          title="Reframe"
+        >
+          <Crop className="w-4 h-4" />
+        </button>
         
         <button
           className="p-2 bg-black/50 hover:bg-black/70 rounded-lg transition-colors"
@@ -541,6 +668,11 @@ const Preview: React.FC<PreviewProps> = ({
         <div className="space-y-1">
           <div>{resolution.width}×{resolution.height}</div>
           <div>{project.settings.frameRate}fps</div>
+          {isPlaying && currentMetrics.droppedFrames > 0 && (
+            <div className="text-xs text-yellow-400">
+              ドロップ: {currentMetrics.droppedFrames}フレーム/秒
+            </div>
+          )}
           <div>{Math.floor(playheadPosition / 60)}:{(playheadPosition % 60).toFixed(1).padStart(4, '0')}</div>
           <div className="text-xs text-green-400">
             クリップ: {project.timeline.clips.length}
@@ -605,6 +737,18 @@ const Preview: React.FC<PreviewProps> = ({
             </div>
           )}
 
+          {/* Reframe Overlay */}
+          {showReframe && (
+            <canvas
+              ref={reframeCanvasRef}
+              className={`absolute inset-0 w-full h-full ${onClipUpdate ? 'cursor-crosshair' : ''}`}
+              onPointerDown={handleReframePointer}
+              onPointerMove={handleReframePointer}
+              onPointerUp={endReframeDrag}
+              onPointerCancel={endReframeDrag}
+            />
+          )}
+
           {/* Loading Overlay */}
           {isPlaying && (
             <div className="absolute bottom-4 left-4 bg-black/70 rounded px-2 py-1 text-xs text-white">
@@ -614,11 +758,68 @@ const Preview: React.FC<PreviewProps> = ({
         </div>
       </motion.div>
 
+      {/* Reframe Controls */}
+      {showReframe && (
+        <div className="absolute bottom-16 right-4 w-60 bg-black/70 rounded-lg p-3 text-xs text-white space-y-2 z-10">
+          {selectedClip && selectedMedia && selectedMedia.type !== 'audio' ? (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="font-medium">リフレーム</span>
+                <select
+                  value={selectedClip.reframe?.strategy || ''}
+                  onChange={(e) => updateSelectedReframe({
+                    ...selectedClip.reframe,
+                    strategy: (e.target.value || undefined) as ClipReframe['strategy']
+                  })}
+                  disabled={!onClipUpdate}
+                  className="bg-dark-800 border border-dark-600 rounded px-1 py-0.5"
+                >
+                  <option value="">プロジェクト設定</option>
+                  <option value="center">中央</option>
+                  <option value="smart">スマート</option>
+                  <option value="manual">手動</option>
+                </select>
+              </div>
+              {reframeStrategy === 'smart' && !selectedMedia.reframe && (
+                <div className="text-yellow-400">解析結果がないため中央で切り出します</div>
+              )}
+              <div className="text-gray-300">
+                ドラッグで {reframeTime.toFixed(2)}秒 の注目点を指定
+              </div>
+              <div className="flex items-center justify-between">
+                <span>キーフレーム: {selectedClip.reframe?.keyframes?.length || 0}</span>
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => updateSelectedReframe({
+                      ...selectedClip.reframe,
+                      keyframes: selectedClip.reframe?.keyframes?.filter(keyframe => keyframe.id !== reframeKeyframe?.id)
+                    })}
+                    disabled={!reframeKeyframe || !onClipUpdate}
+                    className="px-2 py-0.5 rounded bg-dark-700 hover:bg-dark-600 disabled:opacity-40"
+                  >
+                    削除
+                  </button>
+                  <button
+                    onClick={() => updateSelectedReframe({ ...selectedClip.reframe, keyframes: [] })}
+                    disabled={!selectedClip.reframe?.keyframes?.length || !onClipUpdate}
+                    className="px-2 py-0.5 rounded bg-dark-700 hover:bg-dark-600 disabled:opacity-40"
+                  >
+                    すべて削除
+                  </button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="text-gray-300">動画・画像クリップを選択してください</div>
+          )}
+        </div>
+      )}
+
       {/* Quality Selector */}
       <div className="absolute bottom-4 right-4 bg-black/50 rounded-lg p-2 z-10">
         <select
           value={previewQuality}
-          onChange={(e) => setPreviewQuality(e.target.value as 'low' | 'medium' | 'high')}
+          onChange={(e) => setPreviewQuality(e.target.value as PreviewQuality)}
           className="bg-transparent text-white text-sm focus:outline-none"
         >
           <option value="low">Low Quality</option>
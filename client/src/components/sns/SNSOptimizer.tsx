@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import { SNSOptimizerProps, SNSPreset } from '../../types';
 
+// 上限・ビットレートは一括エクスポートの PLATFORM_PRESETS（@render）と揃える
 const SNS_PRESETS: Record<string, SNSPreset> = {
   instagram_reel: {
     id: 'instagram_reel',
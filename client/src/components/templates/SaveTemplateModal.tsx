@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LayoutTemplate, X, Loader2, Music, Film, AlertCircle } from 'lucide-react';
+import type { Project, Template, TemplateSlot } from '@/types';
+import { templatesAPI, handleApiError } from '@/utils/api';
+import { createTemplateFromProject } from '@/utils/templates/templateEngine';
+
+interface SaveTemplateModalProps {
+  project: Project;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: (template: Template) => void;
+}
+
+const CATEGORIES = [
+  { value: 'custom', label: 'カスタム' },
+  { value: 'music', label: 'ミュージック' },
+  { value: 'vlog', label: 'Vlog' },
+  { value: 'promo', label: 'プロモーション' },
+  { value: 'sns', label: 'SNS' }
+];
+
+const DIFFICULTIES: { value: Template['difficulty']; label: string }[] = [
+  { value: 'beginner', label: '初級' },
+  { value: 'intermediate', label: '中級' },
+  { value: 'advanced', label: '上級' }
+];
+
+/**
+ * 今のプロジェクトをテンプレートとして保存する
+ * 使っているメディアはスロットに置き換わり、スロット名はここで付け直せる
+ */
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ project, isOpen, onClose, onSaved }) => {
+  const draft = useMemo(() => (isOpen ? createTemplateFromProject(project) : null), [isOpen, project]);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('custom');
+  const [difficulty, setDifficulty] = useState<Template['difficulty']>('beginner');
+  const [isPublic, setIsPublic] = useState(false);
+  const [slotNames, setSlotNames] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 開くたびにプロジェクトの内容で初期化
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(project.name);
+    setDescription(project.description || '');
+    setError(null);
+    setSlotNames({});
+  }, [isOpen, project.name, project.description]);
+
+  if (!isOpen || !draft) return null;
+
+  const hasTempo = Boolean(draft.projectData.timeline.template?.tempo);
+  const slotName = (slot: TemplateSlot) => slotNames[slot.id] ?? slot.name;
+
+  const handleSave = async () => {
+    if (!name.trim() || draft.slots.length === 0) return;
+
+    const slots = draft.slots.map(slot => ({ ...slot, name: slotName(slot).trim() || slot.name }));
+    const timeline = draft.projectData.timeline;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await templatesAPI.create({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        category,
+        difficulty,
+        isPublic,
+        slots,
+        projectData: {
+          ...draft.projectData,
+          timeline: { ...timeline, template: { ...timeline.template, slots } }
+        }
+      });
+      onSaved?.(response.template);
+      onClose();
+    } catch (err) {
+      setError(handleApiError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          className="bg-dark-800 rounded-lg border border-dark-600 w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col"
+        >
+          {/* ヘッダー */}
+          <div className="flex items-center justify-between p-6 border-b border-dark-700">
+            <div className="flex items-center space-x-3">
+              <LayoutTemplate className="w-6 h-6 text-primary-400" />
+              <h2 className="text-xl font-semibold text-white">テンプレートとして保存</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-dark-600 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-dark-400" />
+            </button>
+          </div>
+
+          <div className="flex-1 p-6 overflow-y-auto space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-dark-300 mb-2">テンプレート名</label>
+              <input
+                type="text"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-dark-700 border border-dark-600 rounded-lg px-3 py-2 text-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-dark-300 mb-2">説明</label>
+              <textarea
+                value={description}
+                maxLength={500}
+                rows={2}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full bg-dark-700 border border-dark-600 rounded-lg px-3 py-2 text-white resize-none"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-dark-300 mb-2">カテゴリ</label>
+                <select
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  className="w-full bg-dark-700 border border-dark-600 rounded-lg px-3 py-2 text-white"
+                >
+                  {CATEGORIES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-dark-300 mb-2">難易度</label>
+                <select
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value as Template['difficulty'])}
+                  className="w-full bg-dark-700 border border-dark-600 rounded-lg px-3 py-2 text-white"
+                >
+                  {DIFFICULTIES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-dark-300">
+              <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+              <span>他のユーザーにも公開する</span>
+            </label>
+
+            {/* スロット */}
+            <div>
+              <label className="block text-sm font-medium text-dark-300 mb-2">
+                メディアスロット（{draft.slots.length}）
+              </label>
+              {draft.slots.length === 0 ? (
+                <p className="text-sm text-dark-400">タイムラインにメディアがありません。クリップを追加してから保存してください。</p>
+              ) : (
+                <div className="space-y-2">
+                  {draft.slots.map(slot => (
+                    <div key={slot.id} className="flex items-center space-x-2">
+                      {slot.type === 'audio'
+                        ? <Music className="w-4 h-4 text-green-400 flex-shrink-0" />
+                        : <Film className="w-4 h-4 text-blue-400 flex-shrink-0" />}
+                      <input
+                        type="text"
+                        value={slotName(slot)}
+                        maxLength={100}
+                        onChange={(e) => setSlotNames(prev => ({ ...prev, [slot.id]: e.target.value }))}
+                        className="flex-1 bg-dark-700 border border-dark-600 rounded-lg px-3 py-1.5 text-sm text-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {!hasTempo && draft.slots.length > 0 && (
+              <div className="flex items-start space-x-2 text-xs text-yellow-400">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>曲が解析されていないため、カット位置は秒で保存されます。新しい曲の拍には合わせ直されません。</span>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </div>
+
+          <div className="flex justify-end space-x-2 p-6 border-t border-dark-700">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-dark-300 hover:bg-dark-700 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim() || draft.slots.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50 transition-colors"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>保存</span>
+            </button>
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+};
+
+export default SaveTemplateModal;
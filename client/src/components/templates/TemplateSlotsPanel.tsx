@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { LayoutTemplate, Music, Film, CheckCircle, Loader2, AlertCircle } from 'lucide-react';
+import type { MediaFile, Project, TemplateSlot, Timeline } from '@/types';
+import { detectAudioBPM } from '@/utils/audio/audioAnalyzer';
+import {
+  fillTemplateSlot,
+  getUnfilledSlots,
+  isSlotCompatible,
+  refitTemplateTimeline
+} from '@/utils/templates/templateEngine';
+
+interface TemplateSlotsPanelProps {
+  project: Project;
+  // 非同期の解析後にも最新のタイムラインへ適用できるよう、更新関数で受け取る
+  onTimelineChange: (update: (timeline: Timeline) => Timeline) => void;
+}
+
+/**
+ * テンプレートから作ったプロジェクトのスロット一覧
+ * メディアライブラリから選ぶかドロップしてスロットを埋める。
+ * 曲のスロットを埋めたら曲を解析し、カット位置をその曲の拍に合わせ直す。
+ */
+const TemplateSlotsPanel: React.FC<TemplateSlotsPanelProps> = ({ project, onTimelineChange }) => {
+  const [analyzingSlot, setAnalyzingSlot] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const template = project.timeline.template;
+  if (!template || template.slots.length === 0) return null;
+
+  const unfilled = getUnfilledSlots(project.timeline).length;
+
+  const fillSlot = async (slot: TemplateSlot, media: MediaFile) => {
+    if (!isSlotCompatible(slot, media)) {
+      setError(slot.type === 'audio' ? '曲のスロットには音声を選んでください' : 'このスロットには動画か画像を選んでください');
+      return;
+    }
+    setError(null);
+    onTimelineChange(timeline => fillTemplateSlot(timeline, slot.id, media));
+    if (slot.type !== 'audio') return;
+
+    setAnalyzingSlot(slot.id);
+    try {
+      const analysis = await detectAudioBPM(media.originalFile || media.url);
+      onTimelineChange(timeline => refitTemplateTimeline(timeline, slot.id, analysis, project.mediaLibrary));
+    } catch (err) {
+      console.error('曲の解析に失敗:', err);
+      setError('曲の解析に失敗しました。カット位置はテンプレートのままです');
+    } finally {
+      setAnalyzingSlot(null);
+    }
+  };
+
+  const handleDrop = (slot: TemplateSlot, e: React.DragEvent) => {
+    e.preventDefault();
+    setDropTarget(null);
+    try {
+      const payload = JSON.parse(e.dataTransfer.getData('application/json') || '{}');
+      if (payload.type !== 'media') return;
+      // ドラッグのデータは JSON なので、ライブラリの実体（originalFile を持つ）を使う
+      const media = project.mediaLibrary.find(m => m.id === payload.data?.id);
+      if (media) fillSlot(slot, media);
+    } catch {
+      // メディア以外のドロップは無視
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-dark-700">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <LayoutTemplate className="w-4 h-4 text-primary-400" />
+          <h3 className="text-sm font-semibold text-white">テンプレートのスロット</h3>
+        </div>
+        <span className={`text-xs ${unfilled > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+          {unfilled > 0 ? `残り ${unfilled}` : 'すべて設定済み'}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {template.slots.map(slot => {
+          const candidates = project.mediaLibrary.filter(media => isSlotCompatible(slot, media));
+          const filled = Boolean(slot.mediaId);
+          return (
+            <div
+              key={slot.id}
+              onDragOver={(e) => { e.preventDefault(); setDropTarget(slot.id); }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(slot, e)}
+              className={`p-2 rounded-lg border transition-colors ${
+                dropTarget === slot.id
+                  ? 'border-primary-400 bg-primary-500/20'
+                  : filled ? 'border-dark-600 bg-dark-700' : 'border-dashed border-dark-500'
+              }`}
+            >
+              <div className="flex items-center space-x-2 mb-1">
+                {slot.type === 'audio'
+                  ? <Music className="w-4 h-4 text-green-400 flex-shrink-0" />
+                  : <Film className="w-4 h-4 text-blue-400 flex-shrink-0" />}
+                <span className="flex-1 text-sm text-white truncate">{slot.name}</span>
+                {analyzingSlot === slot.id
+                  ? <Loader2 className="w-4 h-4 text-primary-400 animate-spin" />
+                  : filled && <CheckCircle className="w-4 h-4 text-green-400" />}
+              </div>
+              <select
+                value={slot.mediaId || ''}
+                disabled={analyzingSlot !== null}
+                onChange={(e) => {
+                  const media = candidates.find(m => m.id === e.target.value);
+                  if (media) fillSlot(slot, media);
+                }}
+                className="w-full bg-dark-800 border border-dark-600 rounded px-2 py-1 text-xs text-white"
+              >
+                <option value="" disabled>
+                  {candidates.length > 0 ? 'メディアを選ぶかドロップ' : 'メディアライブラリに追加してください'}
+                </option>
+                {candidates.map(media => (
+                  <option key={media.id} value={media.id}>{media.name}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      {template.tempo && (
+        <p className="mt-2 text-xs text-dark-400">
+          カット位置は曲の拍に合わせて調整されます（元のテンポ {Math.round(template.tempo.bpm)} BPM）
+        </p>
+      )}
+      {error && (
+        <div className="mt-2 flex items-start space-x-2 text-xs text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateSlotsPanel;
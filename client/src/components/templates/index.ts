@@ -0,0 +1,2 @@
+export { default as SaveTemplateModal } from './SaveTemplateModal';
+export { default as TemplateSlotsPanel } from './TemplateSlotsPanel';
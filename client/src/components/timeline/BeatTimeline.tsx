@@ -9,6 +9,11 @@ import {
   BPMAnalysis,
   Timeline,
 } from '../../types';
+import { snapToBeatGrid, tempoAt } from '@analysis';
+import ClipFilmstrip from './ClipFilmstrip';
+import useTimelineScale from '../../hooks/timeline/useTimelineScale';
+import useFilmstripCache from '../../hooks/timeline/useFilmstripCache';
+import { useCommandHandlers } from '../../hooks/useCommands';
 
 /**
  * ビートスナップ機能付き拡張タイムライン (改良版)
@@ -30,6 +35,7 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
   onBeatGridChange,
   showBeatMarkers = true,
   showBarMarkers = true,
+  mediaLibrary = [],
 }) => {
   const timelineRef = useRef<HTMLDivElement>(null);
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
@@ -42,11 +48,14 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
   // ========== 基本的な計算関数 ==========
   
   // タイムラインスケール管理
-  const basePixelsPerSecond = 50;
-  const pixelsPerSecond = Math.max(10, Math.min(200, basePixelsPerSecond * zoom));
-  
-  const timeToPixel = useCallback((time: number) => time * pixelsPerSecond, [pixelsPerSecond]);
-  const pixelToTime = useCallback((pixel: number) => pixel / pixelsPerSecond, [pixelsPerSecond]);
+  const { pixelsPerSecond, timeToPixel, pixelToTime } = useTimelineScale({ zoom });
+
+  // クリップ背景のフィルムストリップ
+  const { getFilmstrip } = useFilmstripCache();
+  const mediaById = useMemo(
+    () => new Map(mediaLibrary.map(media => [media.id, media])),
+    [mediaLibrary]
+  );
 
   // 有効なビートグリッド（初期値またはpropsから）
   const effectiveBeatGrid: BeatGrid = beatGrid || {
@@ -64,7 +73,8 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
       return { snappedTime: time, wasSnapped: false };
     }
 
-    const bpm = bpmAnalysis.bpm;
+    const { tempoMap } = bpmAnalysis;
+    const bpm = tempoMap ? tempoAt(tempoMap, time) : bpmAnalysis.bpm;
     const beatDuration = 60 / bpm; // 1拍の長さ（秒）
     const subdivisionDuration = beatDuration / effectiveBeatGrid.subdivisions;
     
@@ -88,7 +98,16 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
     }
 
     // サブディビジョンにスナップ
-    if (effectiveBeatGrid.subdivisions > 1) {
+    if (effectiveBeatGrid.subdivisions > 1 && tempoMap) {
+      // テンポマップに沿った最寄りのサブディビジョン
+      const subdivisionTime = snapToBeatGrid(tempoMap, time, effectiveBeatGrid.subdivisions);
+      const distance = Math.abs(time - subdivisionTime);
+      if (distance < minDistance && distance <= thresholdTime) {
+        nearestSnapTime = subdivisionTime;
+        minDistance = distance;
+        wasSnapped = true;
+      }
+    } else if (effectiveBeatGrid.subdivisions > 1) {
       const firstBeatTime = bpmAnalysis.beatTimes[0] || 0;
       for (let i = 0; i < timeline.duration / subdivisionDuration; i++) {
         const subdivisionTime = firstBeatTime + (i * subdivisionDuration);
@@ -182,20 +201,11 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
     }
   }, [draggedClip, handleMouseMove, handleMouseUp]);
 
-  // キーボードショートカット
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'M' || e.key === 'm') {
-        setMagneticMode(prev => !prev);
-      }
-      if (e.key === 'S' || e.key === 's') {
-        setIsSnapEnabled(prev => !prev);
-      }
-    };
-
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  // キーボードショートカット（キーの割り当ては CommandProvider）
+  useCommandHandlers({
+    'snap.toggle': () => setIsSnapEnabled(prev => !prev),
+    'snap.toggleMagnetic': () => setMagneticMode(prev => !prev)
+  });
 
   // ========== レンダリング用の計算 ==========
   
@@ -231,7 +241,7 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
   };
 
   return (
-    <div className="bg-dark-900 border-t border-dark-700">
+    <div data-command-scope="timeline" className="bg-dark-900 border-t border-dark-700">
       {/* ========== ヘッダー (改良版) ========== */}
       <div className="bg-dark-800 border-b border-dark-700 px-4 py-3">
         <div className="flex items-center justify-between">
@@ -295,7 +305,7 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
               className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm transition-all ${
                 isSnapEnabled ? 'bg-purple-500 text-white' : 'bg-dark-700 text-gray-400 hover:text-white'
               }`}
-              title="スナップ切り替え (S キー)"
+              title="スナップ切り替え (N キー)"
             >
               <Magnet className="w-3 h-3" />
               <span>スナップ</span>
@@ -426,7 +436,7 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
                 <div className="w-2 h-2 bg-purple-500 rounded-full" />
               </div>
               <div className="absolute top-4 left-2 text-xs text-purple-400 font-mono">
-                {Math.floor(marker.time / (60 / ((bpmAnalysis?.bpm || 120) / 4)) / 4) + 1}
+                {index + 1}
               </div>
             </div>
           ))}
@@ -448,6 +458,8 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
             const clipX = timeToPixel(clip.startTime);
             const clipWidth = timeToPixel(clip.duration);
             const clipY = headerHeight + layerIndex * (trackHeight + 10);
+            const filmstrip = mediaById.get(clip.mediaId)?.filmstrip;
+            const filmstripImage = filmstrip ? getFilmstrip(filmstrip) : null;
 
             return (
               <motion.div
@@ -467,7 +479,17 @@ const BeatTimeline: React.FC<BeatTimelineProps> = ({
                 whileTap={{ scale: 0.98 }}
                 onMouseDown={(e) => handleClipMouseDown(e, clip)}
               >
-                <div className="p-2 h-full flex flex-col justify-between text-white text-xs">
+                {filmstrip && filmstripImage && (
+                  <ClipFilmstrip
+                    filmstrip={filmstrip}
+                    image={filmstripImage}
+                    clip={clip}
+                    pixelsPerSecond={pixelsPerSecond}
+                    height={trackHeight - 4}
+                    className="rounded opacity-50"
+                  />
+                )}
+                <div className="relative p-2 h-full flex flex-col justify-between text-white text-xs">
                   <div className="font-medium truncate">
                     {timeline.clips.findIndex((c) => c.id === clip.id) + 1}. クリップ
                   </div>
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { MediaFilmstrip, TimelineClip } from '../../types';
+import { getFilmstripTiles } from '../../utils/media/filmstrip';
+
+interface ClipFilmstripProps {
+  filmstrip: MediaFilmstrip;
+  // 読み込み済みのスプライト画像（useFilmstripCache）
+  image: HTMLImageElement;
+  clip: TimelineClip;
+  pixelsPerSecond: number;
+  height: number;
+  className?: string;
+}
+
+interface FilmstripChunkProps extends Omit<ClipFilmstripProps, 'className'> {
+  left: number; // クリップ左端からの位置（px）
+  width: number;
+}
+
+// 1枚のcanvasの幅。ブラウザのcanvas幅上限より十分小さく、長いクリップは複数に分ける
+const CHUNK_WIDTH = 2048;
+// 画面外でもこの距離までは先に描いておく（px）
+const VISIBLE_MARGIN = 512;
+
+/**
+ * フィルムストリップの一区間
+ * 画面内（付近）にある間だけ描画し、離れたらcanvasを空にしてメモリを解放する。
+ */
+const FilmstripChunk: React.FC<FilmstripChunkProps> = ({
+  filmstrip,
+  image,
+  clip,
+  pixelsPerSecond,
+  height,
+  left,
+  width
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting), {
+      rootMargin: `0px ${VISIBLE_MARGIN}px`
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    if (!isVisible) {
+      canvas.width = 0;
+      canvas.height = 0;
+      return;
+    }
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const tiles = getFilmstripTiles(filmstrip, clip, { pixelsPerSecond, height, from: left, to: left + width });
+    for (const tile of tiles) {
+      ctx.drawImage(image, tile.sx, tile.sy, tile.sw, tile.sh, tile.x - left, 0, tile.width, height);
+    }
+  }, [isVisible, filmstrip, image, clip, pixelsPerSecond, height, left, width]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0"
+      style={{ left, width, height }}
+    />
+  );
+};
+
+/**
+ * クリップ背景のフィルムストリップ
+ * クリップの素材（トリム・速度を反映）を現在のズーム（pixelsPerSecond）で並べる。
+ */
+const ClipFilmstrip: React.FC<ClipFilmstripProps> = ({
+  filmstrip,
+  image,
+  clip,
+  pixelsPerSecond,
+  height,
+  className = ''
+}) => {
+  const width = Math.ceil(clip.duration * pixelsPerSecond);
+  if (width <= 0) return null;
+
+  const chunks: number[] = [];
+  for (let left = 0; left < width; left += CHUNK_WIDTH) {
+    chunks.push(left);
+  }
+
+  return (
+    <div
+      className={`absolute left-0 top-0 pointer-events-none ${className}`}
+      style={{ width, height }}
+    >
+      {chunks.map(left => (
+        <FilmstripChunk
+          key={left}
+          filmstrip={filmstrip}
+          image={image}
+          clip={clip}
+          pixelsPerSecond={pixelsPerSecond}
+          height={height}
+          left={left}
+          width={Math.min(CHUNK_WIDTH, width - left)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ClipFilmstrip;
@@ -4,6 +4,7 @@ import { ZoomIn, ZoomOut, Move, Eye } from 'lucide-react';
 import type { Timeline, TimelineClip, AudioTrack } from '@/types';
 import useTimelineScale from '../../hooks/timeline/useTimelineScale';
 import useTimelineDrag from '../../hooks/timeline/useTimelineDrag';
+import { useCommandHandlers } from '../../hooks/useCommands';
 
 export interface DualTimelineProps {
   /** タイムライン全体 */
@@ -191,36 +192,14 @@ const DualTimeline: React.FC<DualTimelineProps> = ({
     onZoomChange?.(newZoom);
   }, [mainZoom, onZoomChange]);
 
-  // キーボードショートカット
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.target !== document.body && !(e.target as HTMLElement).closest('.dual-timeline')) return;
-
-    switch (e.key) {
-      case '+':
-      case '=':
-        e.preventDefault();
-        handleZoom('in');
-        break;
-      case '-':
-        e.preventDefault();
-        handleZoom('out');
-        break;
-      case 'Home':
-        e.preventDefault();
-        onViewportChange?.(0, viewportWindow.duration);
-        break;
-      case 'End':
-        e.preventDefault();
-        onViewportChange?.(Math.max(0, timeline.duration - viewportWindow.duration), viewportWindow.duration);
-        break;
-    }
-  }, [handleZoom, onViewportChange, viewportWindow.duration, timeline.duration]);
-
-  // キーボードイベント登録
-  useEffect(() => {
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [handleKeyDown]);
+  // キーボードショートカット（キーの割り当ては CommandProvider）
+  useCommandHandlers({
+    'view.zoomIn': () => handleZoom('in'),
+    'view.zoomOut': () => handleZoom('out'),
+    'view.scrollToStart': () => onViewportChange?.(0, viewportWindow.duration),
+    'view.scrollToEnd': () =>
+      onViewportChange?.(Math.max(0, timeline.duration - viewportWindow.duration), viewportWindow.duration)
+  });
 
   // ビューポート要素の登録
   useEffect(() => {
@@ -231,7 +210,7 @@ const DualTimeline: React.FC<DualTimelineProps> = ({
   }, [registerViewportDrag]);
 
   return (
-    <div className={`dual-timeline bg-gray-900 border border-gray-700 rounded-lg ${className}`}>
+    <div data-command-scope="timeline" className={`dual-timeline bg-gray-900 border border-gray-700 rounded-lg ${className}`}>
       {/* ヘッダー */}
       <div className="flex items-center justify-between p-3 border-b border-gray-700">
         <div className="flex items-center space-x-3">
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Play, 
@@ -6,6 +6,8 @@ import {
   SkipBack, 
   SkipForward,
   Volume2,
+  VolumeX,
+  Headphones,
   Scissors,
   Copy,
   Trash2,
@@ -20,15 +22,24 @@ import {
   Magnet,
   Zap
 } from 'lucide-react';
-import type { Timeline as TimelineType, TimelineClip, AudioTrack, Transition } from '../../types';
+import type { Timeline as TimelineType, TimelineClip, AudioTrack, Transition, MediaFile } from '../../types';
 import WaveformDisplay from '../waveform/WaveformDisplay';
+import ClipFilmstrip from './ClipFilmstrip';
+import useTimelineScale from '../../hooks/timeline/useTimelineScale';
+import useFilmstripCache from '../../hooks/timeline/useFilmstripCache';
+import { useCommandHandlers } from '../../hooks/useCommands';
+
+// クリップを少しずつ動かすときの移動量（秒）
+const NUDGE_STEP = 0.1;
 
 interface TimelineProps {
   timeline: TimelineType;
   playheadPosition: number;
   zoom: number;
   onClipSelect: (clip: TimelineClip) => void;
-  onTimelineUpdate: (timeline: TimelineType) => void;
+  // preview: ドラッグ・リサイズ中の途中経過（離したときに最終結果をもう一度送る）
+  onTimelineUpdate: (timeline: TimelineType, options?: { preview?: boolean }) => void;
+  mediaLibrary?: MediaFile[];
 }
 
 /**
@@ -42,7 +53,8 @@ const Timeline: React.FC<TimelineProps> = ({
   playheadPosition,
   zoom,
   onClipSelect,
-  onTimelineUpdate
+  onTimelineUpdate,
+  mediaLibrary = []
 }) => {
   // ========== State管理 ==========
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
@@ -83,16 +95,36 @@ const Timeline: React.FC<TimelineProps> = ({
   const playheadRef = useRef<HTMLDivElement>(null);
 
   // ========== スケール計算 ==========
-  const basePixelsPerSecond = 40;
-  const pixelsPerSecond = Math.max(10, Math.min(160, basePixelsPerSecond * zoom));
-  
-  const timeToPixel = useCallback((time: number) => {
-    return time * pixelsPerSecond;
-  }, [pixelsPerSecond]);
-  
-  const pixelToTime = useCallback((pixel: number) => {
-    return pixel / pixelsPerSecond;
-  }, [pixelsPerSecond]);
+  const { pixelsPerSecond, timeToPixel, pixelToTime } = useTimelineScale({
+    zoom,
+    basePixelsPerSecond: 40,
+    minPixelsPerSecond: 10,
+    maxPixelsPerSecond: 160
+  });
+
+  // ========== フィルムストリップ ==========
+  const { getFilmstrip } = useFilmstripCache();
+  const mediaById = useMemo(
+    () => new Map(mediaLibrary.map(media => [media.id, media])),
+    [mediaLibrary]
+  );
+
+  // 動画クリップの背景（スプライト読み込み前・動画以外は null）
+  const renderClipFilmstrip = (clip: TimelineClip, height: number) => {
+    const filmstrip = mediaById.get(clip.mediaId)?.filmstrip;
+    const image = filmstrip ? getFilmstrip(filmstrip) : null;
+    if (!filmstrip || !image) return null;
+    return (
+      <ClipFilmstrip
+        filmstrip={filmstrip}
+        image={image}
+        clip={clip}
+        pixelsPerSecond={pixelsPerSecond}
+        height={height}
+        className="opacity-60"
+      />
+    );
+  };
 
   // ========== レイアウト定数 ==========
   const trackHeight = 60;
@@ -144,7 +176,7 @@ const Timeline: React.FC<TimelineProps> = ({
       onTimelineUpdate({
         ...timeline,
         clips: updatedClips
-      });
+      }, { preview: true });
     }
 
     if (resizeState.isResizing && resizeState.clipId && timelineRef.current) {
@@ -199,11 +231,16 @@ const Timeline: React.FC<TimelineProps> = ({
       onTimelineUpdate({
         ...timeline,
         clips: updatedClips
-      });
+      }, { preview: true });
     }
   }, [dragState, resizeState, timeline, pixelToTime, onTimelineUpdate]);
 
   const handleMouseUp = useCallback(() => {
+    // 移動・リサイズの結果を1回の編集として確定する
+    if (dragState.isDragging || resizeState.isResizing) {
+      onTimelineUpdate(timeline);
+    }
+
     if (dragState.isDragging) {
       console.log(`✅ Drag completed for clip: ${dragState.clipId}`);
       setDragState({
@@ -230,7 +267,7 @@ const Timeline: React.FC<TimelineProps> = ({
 
     // マウスカーソルを戻す
     document.body.style.cursor = '';
-  }, [dragState, resizeState]);
+  }, [dragState, resizeState, timeline, onTimelineUpdate]);
 
   // ========== リサイズ処理 ==========
   const handleResizeMouseDown = useCallback((e: React.MouseEvent, clip: TimelineClip, edge: 'left' | 'right') => {
@@ -440,42 +477,67 @@ const Timeline: React.FC<TimelineProps> = ({
     }
   }, [timeline, onTimelineUpdate, pixelToTime]);
 
-  // ========== キーボードショートカット ==========
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    const activeElement = document.activeElement;
-    if (activeElement && (
-      activeElement.tagName === 'INPUT' ||
-      activeElement.tagName === 'TEXTAREA' ||
-      activeElement.getAttribute('contenteditable') === 'true'
-    )) {
-      return;
-    }
+  // リップル削除: 同じレイヤーで後ろにあるクリップを削除した長さだけ前へ詰める
+  const rippleDeleteClip = useCallback((clipId: string) => {
+    const removed = timeline.clips.find(clip => clip.id === clipId);
+    if (!removed) return;
+
+    const removedEnd = removed.startTime + removed.duration;
+    const updatedClips = timeline.clips
+      .filter(clip => clip.id !== clipId)
+      .map(clip =>
+        clip.layer === removed.layer && clip.startTime >= removedEnd - 0.001
+          ? { ...clip, startTime: Math.max(0, clip.startTime - removed.duration) }
+          : clip
+      );
+    onTimelineUpdate({
+      ...timeline,
+      clips: updatedClips
+    });
 
-    if ((e.ctrlKey || e.metaKey) && e.key === 'c') {
-      e.preventDefault();
-      copySelectedClip();
-    } else if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
-      e.preventDefault();
-      pasteClip();
-    } else if (e.key === 's' || e.key === 'S') {
-      if (!(e.ctrlKey || e.metaKey)) {
-        e.preventDefault();
-        splitClipAtPlayhead();
-      }
-    } else if (e.key === 'Delete' || e.key === 'Backspace') {
-      if (selectedClipId) {
-        e.preventDefault();
-        handleClipDelete(selectedClipId);
-      }
+    if (selectedClipId === clipId) {
+      setSelectedClipId(null);
     }
-  }, [copySelectedClip, pasteClip, splitClipAtPlayhead, selectedClipId, handleClipDelete]);
+  }, [timeline, onTimelineUpdate, selectedClipId]);
 
-  useEffect(() => {
-    document.addEventListener('keydown', handleKeyDown);
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown);
+  const nudgeSelectedClip = useCallback((delta: number) => {
+    if (!selectedClip) return;
+
+    const moved: TimelineClip = {
+      ...selectedClip,
+      startTime: Math.max(0, Math.round((selectedClip.startTime + delta) * 1000) / 1000)
     };
-  }, [handleKeyDown]);
+    onTimelineUpdate({
+      ...timeline,
+      clips: timeline.clips.map(clip => (clip.id === moved.id ? moved : clip))
+    });
+    onClipSelect(moved);
+  }, [selectedClip, timeline, onTimelineUpdate, onClipSelect]);
+
+  // オーディオトラックのミュート・ソロ（再生エンジンはタイムラインの muted / solo を見る）
+  const toggleAudioTrack = useCallback((trackId: string, key: 'muted' | 'solo') => {
+    onTimelineUpdate({
+      ...timeline,
+      audioTracks: timeline.audioTracks.map(track =>
+        track.id === trackId ? { ...track, [key]: !track[key] } : track
+      )
+    });
+  }, [timeline, onTimelineUpdate]);
+
+  // ========== キーボードショートカット（キーの割り当ては CommandProvider） ==========
+  useCommandHandlers({
+    'edit.copy': copySelectedClip,
+    'edit.paste': pasteClip,
+    'edit.split': splitClipAtPlayhead,
+    'edit.delete': () => {
+      if (selectedClipId) handleClipDelete(selectedClipId);
+    },
+    'edit.rippleDelete': () => {
+      if (selectedClipId) rippleDeleteClip(selectedClipId);
+    },
+    'edit.nudgeLeft': () => nudgeSelectedClip(-NUDGE_STEP),
+    'edit.nudgeRight': () => nudgeSelectedClip(NUDGE_STEP)
+  });
 
   // ========== 時間マーカー生成 ==========
   const generateTimeMarkers = useCallback(() => {
@@ -496,7 +558,7 @@ const Timeline: React.FC<TimelineProps> = ({
   }, []);
 
   return (
-    <div className="h-full flex flex-col bg-dark-900">
+    <div className="h-full flex flex-col bg-dark-900" data-command-scope="timeline">
       {/* Timeline Header */}
       <div className="bg-dark-800 border-b border-dark-700 p-4 flex items-center justify-between">
         <div className="flex items-center space-x-4">
@@ -676,6 +738,8 @@ const Timeline: React.FC<TimelineProps> = ({
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
                       >
+                        {renderClipFilmstrip(clip, trackHeight - 12)}
+
                         {/* 左端リサイズハンドル */}
                         <div
                           className="resize-handle absolute left-0 top-0 w-3 h-full bg-white/20 hover:bg-white/60 cursor-col-resize opacity-0 group-hover:opacity-100 transition-opacity z-20"
@@ -742,10 +806,32 @@ const Timeline: React.FC<TimelineProps> = ({
           {/* Audio Tracks */}
           {timeline.audioTracks.map((audioTrack, index) => (
             <div key={audioTrack.id} className="flex">
-              <div className="w-24 bg-dark-800 border-r border-dark-700 flex items-center justify-center text-sm text-gray-400 font-medium"
+              <div className="w-24 bg-dark-800 border-r border-dark-700 flex flex-col items-center justify-center gap-1 text-sm text-gray-400 font-medium"
                    style={{ height: audioTrackHeight }}>
-                <Volume2 className="w-4 h-4 mr-1" />
-                Audio {index + 1}
+                <div className="flex items-center">
+                  <Volume2 className="w-4 h-4 mr-1" />
+                  Audio {index + 1}
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    className={`p-1 rounded transition-colors ${
+                      audioTrack.muted ? 'bg-red-500/30 text-red-300' : 'hover:bg-dark-600 text-gray-400'
+                    }`}
+                    onClick={() => toggleAudioTrack(audioTrack.id, 'muted')}
+                    title={audioTrack.muted ? 'ミュート解除' : 'ミュート'}
+                  >
+                    <VolumeX className="w-3 h-3" />
+                  </button>
+                  <button
+                    className={`p-1 rounded transition-colors ${
+                      audioTrack.solo ? 'bg-yellow-500/30 text-yellow-300' : 'hover:bg-dark-600 text-gray-400'
+                    }`}
+                    onClick={() => toggleAudioTrack(audioTrack.id, 'solo')}
+                    title={audioTrack.solo ? 'ソロ解除' : 'ソロ'}
+                  >
+                    <Headphones className="w-3 h-3" />
+                  </button>
+                </div>
               </div>
               
               <div
@@ -22,9 +22,10 @@ import {
   Play,
   Download
 } from 'lucide-react';
+import { PLAN_ENTITLEMENTS, type PlanId } from '@entitlements';
 
 interface User {
-  plan: 'free' | 'light' | 'standard' | 'pro';
+  plan: PlanId;
   canRemoveWatermark: boolean;
 }
 
@@ -88,37 +89,26 @@ const WatermarkPanel: React.FC<WatermarkPanelProps> = ({
     }
   ];
 
-  const planFeatures = {
-    free: {
-      name: 'フリープラン',
-      price: '¥0',
-      watermark: '必須',
-      features: ['基本編集機能', 'FlickMV透かし付き', '720p出力'],
-      color: 'gray'
-    },
-    light: {
-      name: 'ライト',
-      price: '¥1,480/月',
-      watermark: '必須',
-      features: ['高度編集機能', '1080p出力', '優先サポート'],
-      color: 'blue'
-    },
-    standard: {
-      name: 'スタンダード',
-      price: '¥2,980/月',
-      watermark: '削除可能',
-      features: ['全機能利用可能', '1080p-4K対応', '優先レンダリング'],
-      color: 'purple'
-    },
-    pro: {
-      name: 'プロ',
-      price: '¥5,480/月',
-      watermark: '削除可能',
-      features: ['全機能 + AI機能', '4K出力', '専用サポート'],
-      color: 'gold'
-    }
+  // 料金と透かしの可否は共通のエンタイトルメントから取る
+  const planCopy: Record<PlanId, { features: string[]; color: string }> = {
+    free: { features: ['基本編集機能', 'FlickMV透かし付き', '720p出力'], color: 'gray' },
+    light: { features: ['高度編集機能', '1080p出力', '優先サポート'], color: 'blue' },
+    standard: { features: ['全機能利用可能', '1080p-4K対応', '優先レンダリング'], color: 'purple' },
+    pro: { features: ['全機能 + AI機能', '4K出力', '専用サポート'], color: 'gold' }
   };
 
+  const planFeatures = (Object.keys(planCopy) as PlanId[]).reduce((result, id) => {
+    const entitlements = PLAN_ENTITLEMENTS[id];
+    result[id] = {
+      ...planCopy[id],
+      name: entitlements.label,
+      price: entitlements.monthlyPrice === 0 ? '¥0' : `¥${entitlements.monthlyPrice.toLocaleString()}/月`,
+      watermark: entitlements.watermarkRemoval ? '削除可能' : '必須',
+      canRemoveWatermark: entitlements.watermarkRemoval
+    };
+    return result;
+  }, {} as Record<PlanId, { features: string[]; color: string; name: string; price: string; watermark: string; canRemoveWatermark: boolean }>);
+
   const currentPreset = watermarkPresets.find(p => p.id === selectedPreset) || watermarkPresets[0];
 
   const handleWatermarkToggle = () => {
@@ -185,7 +175,7 @@ const WatermarkPanel: React.FC<WatermarkPanelProps> = ({
                       className={`p-6 rounded-xl border-2 transition-all ${
                         user.plan === key
                           ? 'border-purple-500 bg-purple-500/10'
-                          : key === 'standard' || key === 'pro'
+                          : plan.canRemoveWatermark
                           ? 'border-purple-400/50 hover:border-purple-400 bg-dark-750'
                           : 'border-dark-600 bg-dark-750'
                       }`}
@@ -212,7 +202,7 @@ const WatermarkPanel: React.FC<WatermarkPanelProps> = ({
                           <div className="bg-purple-500/20 text-purple-400 py-2 px-4 rounded-lg text-sm font-medium">
                             現在のプラン
                           </div>
-                        ) : (key === 'standard' || key === 'pro') ? (
+                        ) : plan.canRemoveWatermark ? (
                           <button
                             onClick={() => handleUpgrade(key)}
                             className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white py-2 px-4 rounded-lg font-medium transition-all"
@@ -0,0 +1,123 @@
+import React, { createContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import type { KeybindingOverrides } from '@/types';
+import { useUser } from './UserContext';
+import { CommandRegistry, type CommandMatchContext } from '../utils/commands/commandRegistry';
+import { EDITOR_COMMANDS } from '../utils/commands/editorCommands';
+import { eventToKeyCombo, isTextInputTarget } from '../utils/commands/keybindings';
+import { CommandPalette, KeybindingSettings } from '../components/commands';
+
+interface CommandContextType {
+  registry: CommandRegistry;
+  overrides: KeybindingOverrides;
+  saveKeybindings: (overrides: KeybindingOverrides) => Promise<void>;
+  openPalette: () => void;
+  openKeybindings: () => void;
+}
+
+const CommandContext = createContext<CommandContextType | undefined>(undefined);
+
+const NO_OVERRIDES: KeybindingOverrides = {};
+
+/**
+ * キーボード操作の入口
+ * キー入力はここで1か所だけ受け取り、割り当てに従って登録済みのコマンドを実行する。
+ * timeline / preview のコマンドは、最後にクリックかフォーカスした領域（data-command-scope）でだけ効く。
+ */
+export const CommandProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, updatePreferences } = useUser();
+  const [registry] = useState(() => new CommandRegistry(EDITOR_COMMANDS));
+
+  const userOverrides = user?.preferences?.keybindings || NO_OVERRIDES;
+  const [overrides, setOverrides] = useState<KeybindingOverrides>(userOverrides);
+  useEffect(() => {
+    setOverrides(userOverrides);
+  }, [userOverrides]);
+  useEffect(() => {
+    registry.setKeybindings(overrides);
+  }, [registry, overrides]);
+
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isKeybindingsOpen, setIsKeybindingsOpen] = useState(false);
+  const isModalOpenRef = useRef(false);
+  useEffect(() => {
+    isModalOpenRef.current = isPaletteOpen || isKeybindingsOpen;
+  }, [isPaletteOpen, isKeybindingsOpen]);
+
+  const openPalette = useCallback(() => setIsPaletteOpen(true), []);
+  const openKeybindings = useCallback(() => setIsKeybindingsOpen(true), []);
+
+  useEffect(() => {
+    const unregisterPalette = registry.registerHandler('app.commandPalette', openPalette);
+    const unregisterKeybindings = registry.registerHandler('app.keybindings', openKeybindings);
+    return () => {
+      unregisterPalette();
+      unregisterKeybindings();
+    };
+  }, [registry, openPalette, openKeybindings]);
+
+  // 操作中の領域とキー入力
+  useEffect(() => {
+    let area: CommandMatchContext['area'] = 'timeline';
+
+    const trackArea = (e: Event) => {
+      const scope = (e.target as Element | null)?.closest?.('[data-command-scope]')?.getAttribute('data-command-scope');
+      if (scope === 'timeline' || scope === 'preview') area = scope;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // パレットや設定の表示中、コンポーネントが処理済みのキーは扱わない
+      if (e.defaultPrevented || isModalOpenRef.current) return;
+      const key = eventToKeyCombo(e);
+      if (!key) return;
+
+      const command = registry.findCommandForKey(key, { area, inTextInput: isTextInputTarget(e.target) });
+      if (!command) return;
+      e.preventDefault();
+      registry.execute(command.id);
+    };
+
+    document.addEventListener('pointerdown', trackArea, true);
+    document.addEventListener('focusin', trackArea);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', trackArea, true);
+      document.removeEventListener('focusin', trackArea);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [registry]);
+
+  const saveKeybindings = useCallback(async (next: KeybindingOverrides) => {
+    setOverrides(next);
+    if (user) {
+      await updatePreferences({ keybindings: next });
+    }
+  }, [user, updatePreferences]);
+
+  const value: CommandContextType = {
+    registry,
+    overrides,
+    saveKeybindings,
+    openPalette,
+    openKeybindings
+  };
+
+  return (
+    <CommandContext.Provider value={value}>
+      {children}
+      <CommandPalette
+        registry={registry}
+        isOpen={isPaletteOpen}
+        onClose={() => setIsPaletteOpen(false)}
+      />
+      <KeybindingSettings
+        registry={registry}
+        overrides={overrides}
+        isOpen={isKeybindingsOpen}
+        onClose={() => setIsKeybindingsOpen(false)}
+        onSave={saveKeybindings}
+      />
+    </CommandContext.Provider>
+  );
+};
+
+export default CommandContext;
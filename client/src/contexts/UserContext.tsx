@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, Notification, UserContextType, PLAN_TYPES } from '@/types';
+import { User, Notification, UserContextType } from '@/types';
+import { getEntitlements } from '@entitlements';
+import { usersAPI } from '../utils/api';
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
@@ -261,6 +263,17 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // 設定だけの更新（画面全体のローディングは出さずに先に反映し、サーバーの User.preferences に保存する）
+  const updatePreferences = async (preferences: Partial<User['preferences']>) => {
+    if (!user) throw new Error('User not logged in');
+
+    const updatedUser: User = { ...user, preferences: { ...user.preferences, ...preferences } };
+    setUser(updatedUser);
+    localStorage.setItem('flickmv_current_user', JSON.stringify(updatedUser));
+
+    await usersAPI.updatePreferences(preferences);
+  };
+
   const upgradePlan = async (plan: string) => {
     try {
       if (!user) throw new Error('User not logged in');
@@ -271,27 +284,20 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       await new Promise(resolve => setTimeout(resolve, 2000));
       
       // Update user plan and subscription details
-      const planLimits = {
-        free: { exportsLimit: 3, storageLimit: 1 },
-        light: { exportsLimit: 10, storageLimit: 10 },
-        standard: { exportsLimit: 25, storageLimit: 50 },
-        pro: { exportsLimit: 40, storageLimit: 100 }
-      };
-      
-      const limits = planLimits[plan as keyof typeof planLimits] || planLimits.free;
+      const limits = getEntitlements(plan);
       
       const updatedUser: User = {
         ...user,
-        plan: plan as typeof PLAN_TYPES[number],
+        plan: limits.id,
         subscription: {
           ...user.subscription,
-          exportsLimit: limits.exportsLimit,
+          exportsLimit: limits.exportsPerMonth,
           status: 'active',
           currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days from now
         },
         usage: {
           ...user.usage,
-          storageLimit: limits.storageLimit
+          storageLimit: limits.storageGB
         }
       };
       
@@ -366,7 +372,7 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   // Computed properties
-  const canRemoveWatermark = user?.plan === 'standard' || user?.plan === 'pro';
+  const canRemoveWatermark = Boolean(user) && getEntitlements(user?.plan).watermarkRemoval;
   const hasUnreadNotifications = notifications.some(n => n.unread);
   const isUpgradeNeeded = user?.plan === 'free' && user?.subscription.exportsRemaining <= 1;
 
@@ -380,6 +386,7 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     register,
     logout,
     updateUser,
+    updatePreferences,
     upgradePlan,
     markNotificationAsRead,
     clearAllNotifications,
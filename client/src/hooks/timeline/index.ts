@@ -20,6 +20,11 @@ export {
   type WaveformCacheItem,
   type WaveformRenderConfig
 } from './useWaveformCache';
+export {
+  useFilmstripCache,
+  type FilmstripCacheConfig,
+  type FilmstripCacheItem
+} from './useFilmstripCache';
 export {
   useUndoRedo,
   type UndoAction,
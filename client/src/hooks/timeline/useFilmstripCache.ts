@@ -0,0 +1,146 @@
+import { useRef, useEffect, useState, useCallback } from 'react';
+import type { MediaFilmstrip } from '@/types';
+
+export interface FilmstripCacheConfig {
+  /** キャッシュサイズ上限（バイト、デコード後の推定） */
+  maxCacheSize?: number;
+  /** キャッシュアイテム上限数 */
+  maxCacheItems?: number;
+  /** 自動クリーンアップの間隔（ミリ秒） */
+  cleanupInterval?: number;
+  /** デバッグモード */
+  debug?: boolean;
+}
+
+export interface FilmstripCacheItem {
+  /** キャッシュキー */
+  key: string;
+  /** スプライト画像 */
+  image: HTMLImageElement;
+  /** 読み込み状態 */
+  status: 'loading' | 'loaded' | 'error';
+  /** 作成日時 */
+  createdAt: number;
+  /** 最終アクセス日時 */
+  lastAccessed: number;
+  /** データサイズ（推定） */
+  size: number;
+}
+
+// 署名付きURLはレスポンスごとにクエリが変わるので、パスだけをキーにする
+const cacheKeyFor = (filmstrip: MediaFilmstrip) => filmstrip.url.split('?')[0] ?? filmstrip.url;
+
+/**
+ * フィルムストリップのスプライト画像キャッシュ
+ * useWaveformCache と同じくLRUで保持し、同じ素材のクリップやズーム変更で
+ * 画像を読み直さないようにする。読み込み完了で再描画される。
+ */
+export const useFilmstripCache = (config: FilmstripCacheConfig = {}) => {
+  const {
+    maxCacheSize = 100 * 1024 * 1024, // 100MB
+    maxCacheItems = 50,
+    cleanupInterval = 60000, // 1分
+    debug = false
+  } = config;
+
+  const cacheRef = useRef<Map<string, FilmstripCacheItem>>(new Map());
+  // 読み込み完了ごとに増やして、利用側に再描画させる
+  const [version, setVersion] = useState(0);
+
+  // LRUクリーンアップ（読み込み中のものは残す）
+  const cleanupCache = useCallback(() => {
+    const cache = cacheRef.current;
+    const items = Array.from(cache.values());
+    let currentSize = items.reduce((sum, item) => sum + item.size, 0);
+    let itemCount = items.length;
+
+    if (currentSize <= maxCacheSize && itemCount <= maxCacheItems) return;
+
+    const sortedItems = items
+      .filter(item => item.status !== 'loading')
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    for (const item of sortedItems) {
+      if (currentSize <= maxCacheSize * 0.8 && itemCount <= maxCacheItems * 0.8) {
+        break;
+      }
+      cache.delete(item.key);
+      currentSize -= item.size;
+      itemCount--;
+
+      if (debug) {
+        console.log(`🗑️ Filmstrip cache: removed ${item.key} (${item.size} bytes)`);
+      }
+    }
+  }, [maxCacheSize, maxCacheItems, debug]);
+
+  // 読み込み済みのスプライト画像（未読み込みなら読み込みを始めて null）
+  const getFilmstrip = useCallback((filmstrip: MediaFilmstrip): HTMLImageElement | null => {
+    const key = cacheKeyFor(filmstrip);
+    const cache = cacheRef.current;
+    const cached = cache.get(key);
+
+    if (cached) {
+      cached.lastAccessed = Date.now();
+      return cached.status === 'loaded' ? cached.image : null;
+    }
+
+    if (debug) {
+      console.log(`🔄 Filmstrip cache miss: ${key}`);
+    }
+
+    const image = new Image();
+    const now = Date.now();
+    const item: FilmstripCacheItem = {
+      key,
+      image,
+      status: 'loading',
+      createdAt: now,
+      lastAccessed: now,
+      size: 0
+    };
+
+    image.onload = () => {
+      item.status = 'loaded';
+      item.size = image.naturalWidth * image.naturalHeight * 4; // RGBA
+      setVersion(v => v + 1);
+      setTimeout(cleanupCache, 0);
+    };
+    image.onerror = () => {
+      // 失敗したURLは再試行しない（クリップは通常表示のまま）
+      item.status = 'error';
+      if (debug) {
+        console.warn(`❌ Filmstrip load failed: ${key}`);
+      }
+    };
+    image.src = filmstrip.url;
+
+    cache.set(key, item);
+    return null;
+  }, [cleanupCache, debug]);
+
+  // キャッシュクリア
+  const clearCache = useCallback(() => {
+    cacheRef.current.clear();
+    setVersion(v => v + 1);
+
+    if (debug) {
+      console.log('🧹 Filmstrip cache cleared');
+    }
+  }, [debug]);
+
+  // 定期クリーンアップ
+  useEffect(() => {
+    const interval = setInterval(cleanupCache, cleanupInterval);
+    return () => clearInterval(interval);
+  }, [cleanupCache, cleanupInterval]);
+
+  return {
+    getFilmstrip,
+    clearCache,
+    cleanupCache,
+    version
+  };
+};
+
+export default useFilmstripCache;
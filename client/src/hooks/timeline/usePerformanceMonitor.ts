@@ -11,6 +11,8 @@ export interface PerformanceMetrics {
   domNodes: number;
   /** キャッシュヒット率（%） */
   cacheHitRate: number;
+  /** 前回の測定以降に描画が間に合わなかったフレーム数 */
+  droppedFrames: number;
   /** 最後の測定時刻 */
   timestamp: number;
 }
@@ -24,6 +26,8 @@ export interface PerformanceThresholds {
   maxMemoryUsage: number;
   /** 最大DOMノード数 */
   maxDomNodes: number;
+  /** 測定間隔あたりの最大ドロップフレーム数 */
+  maxDroppedFrames: number;
 }
 
 export interface PerformanceConfig {
@@ -40,7 +44,7 @@ export interface PerformanceConfig {
 }
 
 export interface PerformanceAlert {
-  type: 'fps' | 'memory' | 'render' | 'dom';
+  type: 'fps' | 'memory' | 'render' | 'dom' | 'frames';
   message: string;
   severity: 'low' | 'medium' | 'high';
   timestamp: number;
@@ -60,7 +64,8 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
       minFps: 30,
       maxRenderTime: 16,
       maxMemoryUsage: 100,
-      maxDomNodes: 1000
+      maxDomNodes: 1000,
+      maxDroppedFrames: 5
     },
     enableWarnings = true,
     enableDebugLogs = false
@@ -72,6 +77,7 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
     memoryUsage: 0,
     domNodes: 0,
     cacheHitRate: 0,
+    droppedFrames: 0,
     timestamp: Date.now()
   });
 
@@ -83,6 +89,7 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
   const lastFrameTimeRef = useRef(performance.now());
   const measurementIntervalRef = useRef<number | null>(null);
   const renderStartTimeRef = useRef<number | null>(null);
+  const droppedFramesRef = useRef(0);
 
   // レンダリング開始の記録
   const startRenderMeasurement = useCallback(() => {
@@ -99,6 +106,11 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
     return renderTime;
   }, []);
 
+  // ドロップフレームの記録（プレビューのフレーム供給が間に合わなかったとき）
+  const recordDroppedFrames = useCallback((count: number = 1) => {
+    droppedFramesRef.current += count;
+  }, []);
+
   // FPS計算
   const calculateFPS = useCallback(() => {
     const now = performance.now();
@@ -129,6 +141,8 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
     const fps = calculateFPS();
     const memoryUsage = getMemoryUsage();
     const domNodes = getDOMNodeCount();
+    const droppedFrames = droppedFramesRef.current;
+    droppedFramesRef.current = 0;
 
     const metrics: PerformanceMetrics = {
       renderTime,
@@ -136,6 +150,7 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
       memoryUsage,
       domNodes,
       cacheHitRate,
+      droppedFrames,
       timestamp: Date.now()
     };
 
@@ -219,6 +234,18 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
       });
     }
 
+    // ドロップフレームチェック
+    if (metrics.droppedFrames > thresholds.maxDroppedFrames) {
+      newAlerts.push({
+        type: 'frames',
+        message: `Dropped frames: ${metrics.droppedFrames} (threshold: ${thresholds.maxDroppedFrames})`,
+        severity: metrics.droppedFrames > thresholds.maxDroppedFrames * 3 ? 'high' : 'medium',
+        timestamp: Date.now(),
+        value: metrics.droppedFrames,
+        threshold: thresholds.maxDroppedFrames
+      });
+    }
+
     if (newAlerts.length > 0) {
       setAlerts(prev => [...prev, ...newAlerts].slice(-50)); // 最新50件を保持
       
@@ -360,6 +387,7 @@ export const usePerformanceMonitor = (config: PerformanceConfig = {}) => {
     // 測定制御
     startRenderMeasurement,
     endRenderMeasurement,
+    recordDroppedFrames,
     measureMetrics,
     startMonitoring,
     stopMonitoring,
@@ -1,5 +1,6 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback } from 'react';
 import type { BeatGrid } from '@/types';
+import { useCommandHandlers } from '../useCommands';
 
 export interface SnapControlConfig {
   /** 初期のスナップ設定 */
@@ -21,7 +22,7 @@ export interface SnapControlState {
 
 /**
  * スナップのオン/オフとモード切替のフック
- * キーボードショートカット（Mキー）でMagneticモードを切り替え
+ * snap.* コマンド（既定: Nでスナップ、MでMagneticモード、Alt+数字でプリセット）を登録する
  */
 export const useSnapControl = (config: SnapControlConfig) => {
   const {
@@ -94,69 +95,15 @@ export const useSnapControl = (config: SnapControlConfig) => {
     }
   }, [updateBeatGrid]);
 
-  // キーボードショートカットの処理
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (!enableShortcuts) return;
-
-    // フォーカスがinput/textarea等にある場合はスキップ
-    const activeElement = document.activeElement;
-    if (activeElement && (
-      activeElement.tagName === 'INPUT' ||
-      activeElement.tagName === 'TEXTAREA' ||
-      activeElement.getAttribute('contenteditable') === 'true'
-    )) {
-      return;
-    }
-
-    switch (e.key.toLowerCase()) {
-      case 'm':
-        e.preventDefault();
-        toggleMagneticMode();
-        break;
-      case 's':
-        if (e.ctrlKey || e.metaKey) {
-          // Ctrl+S は保存なのでスキップ
-          return;
-        }
-        e.preventDefault();
-        toggleSnap();
-        break;
-      case '1':
-        if (e.ctrlKey || e.metaKey) {
-          e.preventDefault();
-          applyPreset('strict');
-        }
-        break;
-      case '2':
-        if (e.ctrlKey || e.metaKey) {
-          e.preventDefault();
-          applyPreset('medium');
-        }
-        break;
-      case '3':
-        if (e.ctrlKey || e.metaKey) {
-          e.preventDefault();
-          applyPreset('loose');
-        }
-        break;
-      case '0':
-        if (e.ctrlKey || e.metaKey) {
-          e.preventDefault();
-          applyPreset('off');
-        }
-        break;
-    }
-  }, [enableShortcuts, toggleMagneticMode, toggleSnap, applyPreset]);
-
-  // イベントリスナーの登録
-  useEffect(() => {
-    if (enableShortcuts) {
-      document.addEventListener('keydown', handleKeyDown);
-      return () => {
-        document.removeEventListener('keydown', handleKeyDown);
-      };
-    }
-  }, [enableShortcuts, handleKeyDown]);
+  // キーボードショートカット（キーの割り当ては CommandProvider）
+  useCommandHandlers({
+    'snap.toggle': toggleSnap,
+    'snap.toggleMagnetic': toggleMagneticMode,
+    'snap.presetStrict': () => applyPreset('strict'),
+    'snap.presetMedium': () => applyPreset('medium'),
+    'snap.presetLoose': () => applyPreset('loose'),
+    'snap.off': () => applyPreset('off')
+  }, enableShortcuts);
 
   return {
     // 状態
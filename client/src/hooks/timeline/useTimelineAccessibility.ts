@@ -1,4 +1,5 @@
 import { useRef, useCallback, useEffect, useState } from 'react';
+import { useCommandHandlers } from '../useCommands';
 
 export interface FocusableElement {
   id: string;
@@ -259,74 +260,33 @@ export const useTimelineAccessibility = (config: AccessibilityConfig = {}) => {
     return targetElement ? focusElement(targetElement.id) : false;
   }, [accessibilityState.focusedElement, accessibilityState.focusableElements, focusElement]);
 
-  // キーボードイベントハンドラー
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (!enableKeyboardNavigation) return;
-
-    // フォーカスがinput等にある場合はスキップ
-    const activeElement = document.activeElement;
-    if (activeElement && (
-      activeElement.tagName === 'INPUT' ||
-      activeElement.tagName === 'TEXTAREA' ||
-      activeElement.getAttribute('contenteditable') === 'true'
-    )) {
-      return;
-    }
-
-    let handled = false;
-
-    switch (e.key) {
-      case 'Tab':
-        e.preventDefault();
-        handled = e.shiftKey ? focusPrevious() : focusNext();
-        break;
-      
-      case 'ArrowUp':
-        e.preventDefault();
-        handled = focusDirection('up');
-        break;
-      
-      case 'ArrowDown':
-        e.preventDefault();
-        handled = focusDirection('down');
-        break;
-      
-      case 'ArrowLeft':
-        e.preventDefault();
-        handled = focusDirection('left');
-        break;
-      
-      case 'ArrowRight':
-        e.preventDefault();
-        handled = focusDirection('right');
-        break;
-      
-      case 'Home':
-        e.preventDefault();
-        if (accessibilityState.focusableElements.length > 0) {
-          handled = focusElement(accessibilityState.focusableElements[0].id);
-        }
-        break;
-      
-      case 'End':
-        e.preventDefault();
-        const lastElement = accessibilityState.focusableElements[accessibilityState.focusableElements.length - 1];
-        if (lastElement) {
-          handled = focusElement(lastElement.id);
-        }
-        break;
-      
-      case 'F1':
-        e.preventDefault();
-        announceToScreenReader(generateHelpText());
-        handled = true;
-        break;
+  // キーボードナビゲーション（キーの割り当ては CommandProvider）
+  const navigate = (commandId: string, move: () => boolean) => () => {
+    if (move() && debug) {
+      console.log('⌨️ Keyboard navigation:', commandId);
     }
+  };
 
-    if (handled && debug) {
-      console.log('⌨️ Keyboard navigation:', e.key);
-    }
-  }, [enableKeyboardNavigation, focusNext, focusPrevious, focusDirection, accessibilityState.focusableElements, focusElement, announceToScreenReader, debug]);
+  useCommandHandlers({
+    'navigation.focusNext': navigate('navigation.focusNext', focusNext),
+    'navigation.focusPrevious': navigate('navigation.focusPrevious', focusPrevious),
+    'navigation.focusUp': navigate('navigation.focusUp', () => focusDirection('up')),
+    'navigation.focusDown': navigate('navigation.focusDown', () => focusDirection('down')),
+    'navigation.focusLeft': navigate('navigation.focusLeft', () => focusDirection('left')),
+    'navigation.focusRight': navigate('navigation.focusRight', () => focusDirection('right')),
+    'navigation.focusFirst': navigate('navigation.focusFirst', () => {
+      const firstElement = accessibilityState.focusableElements[0];
+      return firstElement ? focusElement(firstElement.id) : false;
+    }),
+    'navigation.focusLast': navigate('navigation.focusLast', () => {
+      const lastElement = accessibilityState.focusableElements[accessibilityState.focusableElements.length - 1];
+      return lastElement ? focusElement(lastElement.id) : false;
+    }),
+    'navigation.help': navigate('navigation.help', () => {
+      announceToScreenReader(generateHelpText());
+      return true;
+    })
+  }, enableKeyboardNavigation);
 
   // ヘルパー関数
   const getRoleForType = (type: FocusableElement['type']): string => {
@@ -366,8 +326,9 @@ export const useTimelineAccessibility = (config: AccessibilityConfig = {}) => {
   const generateHelpText = (): string => {
     return `Timeline keyboard navigation: 
     Tab/Shift+Tab to move between elements,
-    Arrow keys for spatial navigation,
-    Home/End to jump to first/last element,
+    Up/Down arrows to move between tracks,
+    Ctrl+Left/Right arrows to move along a track,
+    Alt+Home/Alt+End to jump to first/last element,
     Space or Enter to activate,
     F1 for this help.`;
   };
@@ -413,17 +374,12 @@ export const useTimelineAccessibility = (config: AccessibilityConfig = {}) => {
   useEffect(() => {
     createAnnouncementRegion();
     
-    if (enableKeyboardNavigation) {
-      document.addEventListener('keydown', handleKeyDown);
-    }
-    
     return () => {
-      document.removeEventListener('keydown', handleKeyDown);
       if (announcementRegionRef.current) {
         document.body.removeChild(announcementRegionRef.current);
       }
     };
-  }, [createAnnouncementRegion, enableKeyboardNavigation, handleKeyDown]);
+  }, [createAnnouncementRegion]);
 
   return {
     // 状態
@@ -1,5 +1,6 @@
 import { useMemo, useCallback } from 'react';
 import type { BPMAnalysis, BeatGrid } from '@/types';
+import { getBeatGridTimes, tempoAt } from '@analysis';
 
 export interface SnapConfig {
   /** スナップが有効かどうか */
@@ -62,7 +63,12 @@ export const useTimelineSnap = (config: SnapConfig) => {
     }
 
     // サブディビジョンスナップ
-    if (beatGrid.subdivisions > 1 && bpmAnalysis) {
+    if (beatGrid.subdivisions > 1 && bpmAnalysis?.tempoMap) {
+      // テンポマップがあればテンポ変化に沿って分割
+      getBeatGridTimes(bpmAnalysis.tempoMap, beatGrid.subdivisions, timelineDuration).forEach(time => {
+        points.push({ time, type: 'subdivision' });
+      });
+    } else if (beatGrid.subdivisions > 1 && bpmAnalysis) {
       const subdivisionInterval = 60 / (bpmAnalysis.bpm * beatGrid.subdivisions);
       for (let t = 0; t <= timelineDuration; t += subdivisionInterval) {
         const time = Number(t.toFixed(4));
@@ -92,7 +98,8 @@ export const useTimelineSnap = (config: SnapConfig) => {
     }
 
     // BPMベースの基本距離（1/16拍分を基準）
-    const baseBeatDuration = 60 / bpmAnalysis.bpm; // 1拍の長さ
+    const bpm = bpmAnalysis.tempoMap ? tempoAt(bpmAnalysis.tempoMap, targetTime) : bpmAnalysis.bpm;
+    const baseBeatDuration = 60 / bpm; // 1拍の長さ
     const baseSnapDistance = baseBeatDuration / 16; // 1/16拍
 
     // quantizeStrengthに基づく調整 (0.0-1.0)
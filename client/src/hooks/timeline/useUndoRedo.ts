@@ -1,4 +1,5 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { useCommandHandlers } from '../useCommands';
 
 export type ActionType = 
   | 'clip_move'
@@ -13,7 +14,8 @@ export type ActionType =
   | 'track_remove'
   | 'track_mute'
   | 'track_solo'
-  | 'timeline_property_change';
+  | 'timeline_property_change'
+  | 'recipe_apply';
 
 export interface UndoAction<T = any> {
   /** アクションの一意ID */
@@ -41,6 +43,8 @@ export interface UndoRedoConfig<T> {
   stateCloner?: (state: T) => T;
   /** デバッグモード */
   debug?: boolean;
+  /** edit.undo / edit.redo コマンドを登録するか */
+  enableShortcuts?: boolean;
 }
 
 export interface UndoRedoState {
@@ -68,7 +72,8 @@ export const useUndoRedo = <T>(
     maxHistorySize = 50,
     stateComparer = (a, b) => JSON.stringify(a) === JSON.stringify(b),
     stateCloner = (state) => JSON.parse(JSON.stringify(state)) as T,
-    debug = false
+    debug = false,
+    enableShortcuts = true
   } = config;
 
   // 現在の状態
@@ -247,25 +252,11 @@ export const useUndoRedo = <T>(
     lastAction: history[currentIndex]
   };
 
-  // キーボードショートカット
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-      e.preventDefault();
-      undo();
-    } else if (((e.ctrlKey || e.metaKey) && e.key === 'y') || 
-               ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'Z')) {
-      e.preventDefault();
-      redo();
-    }
-  }, [undo, redo]);
-
-  // キーボードショートカットの登録
-  useEffect(() => {
-    document.addEventListener('keydown', handleKeyDown);
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown);
-    };
-  }, [handleKeyDown]);
+  // キーボードショートカット（キーの割り当ては CommandProvider）
+  useCommandHandlers({
+    'edit.undo': undo,
+    'edit.redo': redo
+  }, enableShortcuts);
 
   return {
     // 現在の状態
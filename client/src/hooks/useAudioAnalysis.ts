@@ -5,6 +5,13 @@ import type {
   AudioAnalysisOptions,
   AudioAnalysisResult
 } from '../types/audioAnalysis';
+import type { AudioAnalysisProgress, LocalAudioAnalysis, MediaFile } from '../types';
+import {
+  analyzeAudioBuffer,
+  analyzeMediaFile,
+  getCachedAudioAnalysis,
+  isAbortError
+} from '../utils/audio/audioAnalysisClient';
 
 interface UseAudioAnalysisOptions {
   pollingInterval?: number;
@@ -29,6 +36,13 @@ interface UseAudioAnalysisReturn {
 
   // Utils
   getAnalysisStatus: (mediaId: string) => Promise<any>;
+
+  // Local analysis (beats, band energies, waveform, spectrogram) in a Web Worker
+  localAnalysis: LocalAudioAnalysis | null;
+  localProgress: AudioAnalysisProgress | null;
+  isAnalyzingLocally: boolean;
+  analyzeLocally: (mediaFile: MediaFile, audioBuffer?: AudioBuffer) => Promise<LocalAudioAnalysis | null>;
+  cancelLocalAnalysis: () => void;
 }
 
 export const useAudioAnalysis = (options: UseAudioAnalysisOptions = {}): UseAudioAnalysisReturn => {
@@ -48,12 +62,18 @@ export const useAudioAnalysis = (options: UseAudioAnalysisOptions = {}): UseAudi
   const pollingTimeoutRef = useRef<number | null>(null);
   const pollingAttemptsRef = useRef(0);
 
+  const [localAnalysis, setLocalAnalysis] = useState<LocalAudioAnalysis | null>(null);
+  const [localProgress, setLocalProgress] = useState<AudioAnalysisProgress | null>(null);
+  const [isAnalyzingLocally, setIsAnalyzingLocally] = useState(false);
+  const localAbortRef = useRef<AbortController | null>(null);
+
   // クリーンアップ
   useEffect(() => {
     return () => {
       if (pollingTimeoutRef.current !== null) {
         clearTimeout(pollingTimeoutRef.current);
       }
+      localAbortRef.current?.abort();
     };
   }, []);
 
@@ -252,6 +272,57 @@ export const useAudioAnalysis = (options: UseAudioAnalysisOptions = {}): UseAudi
     }
   }, []);
 
+  const cancelLocalAnalysis = useCallback(() => {
+    localAbortRef.current?.abort();
+    localAbortRef.current = null;
+    setIsAnalyzingLocally(false);
+    setLocalProgress(null);
+  }, []);
+
+  // ブラウザ内解析（Web Worker）。同じ MediaFile.id の結果はキャッシュから返す
+  const analyzeLocally = useCallback(
+    async (mediaFile: MediaFile, audioBuffer?: AudioBuffer): Promise<LocalAudioAnalysis | null> => {
+      const cached = getCachedAudioAnalysis(mediaFile.id);
+      if (cached) {
+        setLocalAnalysis(cached);
+        return cached;
+      }
+
+      // 実行中の解析は中断して新しい解析に切り替える
+      localAbortRef.current?.abort();
+      const controller = new AbortController();
+      localAbortRef.current = controller;
+
+      setIsAnalyzingLocally(true);
+      setLocalProgress(null);
+      setError(null);
+
+      try {
+        const analysisOptions = { signal: controller.signal, onProgress: setLocalProgress };
+        const analysis = audioBuffer
+          ? await analyzeAudioBuffer(mediaFile.id, audioBuffer, analysisOptions)
+          : await analyzeMediaFile(mediaFile, analysisOptions);
+        setLocalAnalysis(analysis);
+        return analysis;
+      } catch (err) {
+        if (!isAbortError(err)) {
+          const analysisError = err instanceof Error ? err : new Error('音声の解析に失敗しました');
+          setError(analysisError.message);
+          if (onAnalysisError) {
+            onAnalysisError(analysisError);
+          }
+        }
+        return null;
+      } finally {
+        if (localAbortRef.current === controller) {
+          localAbortRef.current = null;
+          setIsAnalyzingLocally(false);
+        }
+      }
+    },
+    [onAnalysisError]
+  );
+
   return {
     // State
     isAnalyzing,
@@ -267,7 +338,14 @@ export const useAudioAnalysis = (options: UseAudioAnalysisOptions = {}): UseAudi
     reset,
 
     // Utils
-    getAnalysisStatus
+    getAnalysisStatus,
+
+    // Local analysis
+    localAnalysis,
+    localProgress,
+    isAnalyzingLocally,
+    analyzeLocally,
+    cancelLocalAnalysis
   };
 };
 
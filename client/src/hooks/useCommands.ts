@@ -0,0 +1,37 @@
+import { useContext, useEffect, useRef } from 'react';
+import type { CommandId } from '@/types';
+import CommandContext from '../contexts/CommandContext';
+import type { CommandHandler } from '../utils/commands/commandRegistry';
+
+export const useCommands = () => {
+  const context = useContext(CommandContext);
+  if (context === undefined) {
+    throw new Error('useCommands must be used within a CommandProvider');
+  }
+  return context;
+};
+
+/**
+ * コマンドの処理を登録する
+ * 処理は毎回の描画の最新のものが呼ばれる。CommandProvider の外や enabled = false では何もしない。
+ */
+export const useCommandHandlers = (
+  handlers: Partial<Record<CommandId, CommandHandler>>,
+  enabled = true
+) => {
+  const registry = useContext(CommandContext)?.registry;
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const ids = (Object.keys(handlers) as CommandId[]).filter(id => handlers[id]).sort().join(' ');
+
+  useEffect(() => {
+    if (!registry || !enabled || !ids) return;
+    const unregister = (ids.split(' ') as CommandId[]).map(id =>
+      registry.registerHandler(id, () => handlersRef.current[id]?.())
+    );
+    return () => unregister.forEach(fn => fn());
+  }, [registry, enabled, ids]);
+};
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { exportAPI } from '@/utils/api';
+import realtimeClient from '@/services/realtime';
+import type { ExportJob, ExportJobProgressEvent, ExportJobStatusEvent } from '@/types';
+
+// WebSocket が使えない間のポーリング間隔
+const DEFAULT_POLL_INTERVAL = 3000;
+
+export type ExportJobUpdate = Partial<ExportJob> & { id: string };
+
+const FINAL_STATUSES: ExportJob['status'][] = ['completed', 'failed', 'cancelled'];
+
+export const isExportJobFinished = (job?: Partial<Pick<ExportJob, 'status'>> | null): boolean =>
+  Boolean(job?.status && FINAL_STATUSES.includes(job.status));
+
+// undefined のキーは既存の値を消さないよう取り除く
+const compact = <T extends object>(value: T): T =>
+  (Object.keys(value) as (keyof T)[]).reduce((result, key) => {
+    if (value[key] !== undefined) result[key] = value[key];
+    return result;
+  }, {} as T);
+
+const progressEventToUpdate = (event: ExportJobProgressEvent): ExportJobUpdate => ({
+  id: event.jobId,
+  progress: event.progress,
+  processing: compact({ currentStep: event.phase, message: event.message, details: event.details })
+});
+
+const statusEventToUpdate = (event: ExportJobStatusEvent): ExportJobUpdate => compact({
+  id: event.jobId,
+  status: event.status,
+  progress: event.progress,
+  output: event.output,
+  processing: compact({ currentStep: event.phase, message: event.message, error: event.error }),
+  completedAt: event.completedAt ? new Date(event.completedAt) : undefined,
+  failedAt: event.failedAt ? new Date(event.failedAt) : undefined
+});
+
+/**
+ * ジョブに更新を適用する（processing は既存の内容とマージ）
+ */
+export const mergeExportJob = <T extends Partial<ExportJob>>(job: T, update: ExportJobUpdate): T => ({
+  ...job,
+  ...update,
+  processing: { ...(job.processing || {}), ...(update.processing || {}) }
+});
+
+interface UseExportJobUpdatesOptions {
+  enabled?: boolean;
+  pollInterval?: number;
+  onError?: (error: unknown) => void; // REST での取得に失敗したとき
+}
+
+/**
+ * エクスポートジョブの進捗をリアルタイムに受け取る
+ * WebSocket（export_job_progress / export_job_status）で受信し、
+ * 切断中は REST API をポーリングする。再接続時は取りこぼし分を一度取得し直す
+ */
+export const useExportJobUpdates = (
+  jobIds: string[],
+  onUpdate: (update: ExportJobUpdate) => void,
+  { enabled = true, pollInterval = DEFAULT_POLL_INTERVAL, onError }: UseExportJobUpdatesOptions = {}
+) => {
+  const [isLive, setIsLive] = useState(realtimeClient.isConnected());
+  const onUpdateRef = useRef(onUpdate);
+  const onErrorRef = useRef(onError);
+  onUpdateRef.current = onUpdate;
+  onErrorRef.current = onError;
+
+  // 依存配列用に ID 一覧を文字列化する
+  const jobKey = jobIds.join(',');
+  const active = enabled && jobIds.length > 0;
+
+  // WebSocket の購読
+  useEffect(() => {
+    if (!active) return;
+    const ids = new Set(jobKey.split(','));
+
+    const unsubscribeProgress = realtimeClient.subscribe<ExportJobProgressEvent>('export_job_progress', event => {
+      if (ids.has(event.jobId)) onUpdateRef.current(progressEventToUpdate(event));
+    });
+    const unsubscribeStatus = realtimeClient.subscribe<ExportJobStatusEvent>('export_job_status', event => {
+      if (ids.has(event.jobId)) onUpdateRef.current(statusEventToUpdate(event));
+    });
+    const unsubscribeConnection = realtimeClient.onStatusChange(setIsLive);
+
+    return () => {
+      unsubscribeProgress();
+      unsubscribeStatus();
+      unsubscribeConnection();
+    };
+  }, [active, jobKey]);
+
+  // REST での取得（切断中は定期的に、接続・再接続時は一度だけ）
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+
+    const fetchJobs = () => {
+      jobKey.split(',').forEach(async jobId => {
+        try {
+          const data = await exportAPI.getJob(jobId) as { exportJob: ExportJob };
+          if (!cancelled && data?.exportJob) onUpdateRef.current(data.exportJob);
+        } catch (error) {
+          console.error('Failed to fetch export job:', error);
+          if (!cancelled) onErrorRef.current?.(error);
+        }
+      });
+    };
+
+    fetchJobs();
+    if (isLive) return () => { cancelled = true; };
+
+    const interval = setInterval(fetchJobs, pollInterval);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [active, jobKey, isLive, pollInterval]);
+
+  return { isLive };
+};
+
+export default useExportJobUpdates;
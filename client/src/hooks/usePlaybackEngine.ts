@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { Timeline, MediaFile } from '../types';
+import { AudioPlaybackEngine, collectPlaybackSources } from '../utils/audio/playbackEngine';
+
+interface UsePlaybackEngineOptions {
+  timeline: Timeline;
+  mediaLibrary: MediaFile[];
+  isPlaying: boolean;
+  playheadPosition: number;
+  // 再生中、音声の時計から求めた位置をフレームごとに通知する
+  onTimeUpdate: (time: number) => void;
+  // タイムラインの終端に達した
+  onEnded?: () => void;
+}
+
+// 通知した位置との差がこれ以上なら、ユーザーによるシークとみなす
+const SEEK_TOLERANCE = 0.001;
+
+/**
+ * タイムラインの音声再生
+ * 再生ヘッドは音声エンジンの時計で進めるので、プレビューと音がずれない。
+ * 再生中に playheadPosition が外から変わればシーク、停止中ならスクラブ音を鳴らす。
+ */
+export const usePlaybackEngine = ({
+  timeline,
+  mediaLibrary,
+  isPlaying,
+  playheadPosition,
+  onTimeUpdate,
+  onEnded
+}: UsePlaybackEngineOptions) => {
+  const engineRef = useRef<AudioPlaybackEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new AudioPlaybackEngine();
+  }
+
+  // 最後に通知した位置（自分の通知とシークを区別する）
+  const reportedRef = useRef(playheadPosition);
+  const positionRef = useRef(playheadPosition);
+  positionRef.current = playheadPosition;
+  const callbacksRef = useRef({ onTimeUpdate, onEnded });
+  callbacksRef.current = { onTimeUpdate, onEnded };
+
+  // 再生ヘッドの移動ではタイムラインが変わるので、クリップとオーディオトラックだけを見る
+  const { clips, audioTracks } = timeline;
+  const sources = useMemo(
+    () => collectPlaybackSources({ clips, audioTracks }, mediaLibrary),
+    [clips, audioTracks, mediaLibrary]
+  );
+
+  useEffect(() => {
+    engineRef.current!.setSources(sources);
+  }, [sources]);
+
+  useEffect(() => {
+    const engine = engineRef.current!;
+    return () => engine.dispose();
+  }, []);
+
+  // 再生・停止と再生ヘッドの更新
+  useEffect(() => {
+    const engine = engineRef.current!;
+    if (!isPlaying) {
+      engine.pause();
+      return;
+    }
+
+    const start = positionRef.current >= timeline.duration ? 0 : positionRef.current;
+    reportedRef.current = start;
+    engine.play(start).catch(error => {
+      console.warn('音声の再生を開始できませんでした:', error);
+    });
+
+    let frame = 0;
+    const tick = () => {
+      const time = Math.min(engine.getCurrentTime(), timeline.duration);
+      reportedRef.current = time;
+      callbacksRef.current.onTimeUpdate(time);
+
+      if (time >= timeline.duration) {
+        engine.pause();
+        callbacksRef.current.onEnded?.();
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      engine.pause();
+    };
+  }, [isPlaying, timeline.duration]);
+
+  // 外からの再生ヘッド移動（タイムラインのクリック・ドラッグ、シークバー）
+  useEffect(() => {
+    if (Math.abs(playheadPosition - reportedRef.current) < SEEK_TOLERANCE) return;
+    reportedRef.current = playheadPosition;
+
+    const engine = engineRef.current!;
+    if (engine.isPlaying) {
+      engine.seek(playheadPosition);
+    } else {
+      engine.scrub(playheadPosition);
+    }
+  }, [playheadPosition]);
+
+  return {
+    preload: () => engineRef.current!.preload()
+  };
+};
+
+export default usePlaybackEngine;
@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { applyOperation, applyOperations, diffTimelines, LOCAL_AUDIO_TRACK_FIELDS } from '@collab';
+import realtimeClient from '@/services/realtime';
+import type {
+  Timeline,
+  TimelineOperation,
+  CollabRole,
+  CollabParticipant,
+  CollabStateEvent,
+  CollabOperationEvent,
+  CollabOperationRejectedEvent,
+  CollabPresenceEvent,
+  CollabErrorEvent
+} from '@/types';
+
+// プレゼンス（選択・再生位置）の送信間隔
+const PRESENCE_INTERVAL = 250;
+
+interface PendingOperation {
+  opId: string;
+  op: TimelineOperation;
+}
+
+interface UseTimelineCollaborationOptions {
+  // プロジェクトを読み込んでから有効にする（参加後に古い保存内容が届くと、その差分で他の人の編集を戻してしまう）
+  enabled?: boolean;
+  // 他の編集と競合して取り消された操作（UI で通知する）
+  onRejected?: (reason: CollabOperationRejectedEvent['reason'], op: TimelineOperation) => void;
+}
+
+// クリップ・オーディオトラック・長さはサーバーの状態、それ以外（ズーム・再生位置）は手元の状態を使う
+// オーディオトラックの波形などブラウザだけで持つ項目は手元のトラックから引き継ぐ
+const withLocalView = (shared: Timeline, local: Timeline): Timeline => {
+  const localTracks = new Map(local.audioTracks.map(track => [track.id, track as unknown as Record<string, unknown>]));
+  return {
+    ...local,
+    clips: shared.clips,
+    audioTracks: (shared.audioTracks || []).map(track => {
+      const localTrack = localTracks.get(track.id);
+      const localFields = LOCAL_AUDIO_TRACK_FIELDS.filter(field => localTrack?.[field] !== undefined);
+      if (!localTrack || localFields.length === 0) return track;
+      return { ...track, ...Object.fromEntries(localFields.map(field => [field, localTrack[field]])) };
+    }),
+    duration: shared.duration
+  };
+};
+
+/**
+ * タイムラインの共同編集
+ * エディタが置き換えたタイムラインとの差分をクリップ・オーディオトラック単位の操作にしてサーバーへ送り、
+ * 他の参加者の操作を受け取って未確定の自分の操作を載せ直す（リベース）。
+ * 競合で取り消された操作は手元からも消え、onRejected で通知する
+ */
+export const useTimelineCollaboration = (
+  projectId: string | undefined,
+  timeline: Timeline,
+  // snapshot: 参加直後にサーバーの状態で置き換えたとき（それ以外は他の参加者の操作や取り消しの反映）
+  onTimelineChange: (timeline: Timeline, change: { snapshot: boolean }) => void,
+  { enabled = true, onRejected }: UseTimelineCollaborationOptions = {}
+) => {
+  const [isJoined, setIsJoined] = useState(false);
+  const [isConnected, setIsConnected] = useState(realtimeClient.isConnected());
+  const [role, setRole] = useState<CollabRole | null>(null);
+  const [participants, setParticipants] = useState<CollabParticipant[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const confirmedRef = useRef<Timeline | null>(null); // サーバーで確定した状態
+  const versionRef = useRef(0);
+  const pendingRef = useRef<PendingOperation[]>([]); // 送信済みで未確定の操作
+  const localRef = useRef<Timeline>(timeline); // エディタが持っている状態
+  const clientIdRef = useRef<string | null>(null);
+  const opCounterRef = useRef(0);
+
+  const onTimelineChangeRef = useRef(onTimelineChange);
+  const onRejectedRef = useRef(onRejected);
+  onTimelineChangeRef.current = onTimelineChange;
+  onRejectedRef.current = onRejected;
+
+  const active = enabled && Boolean(projectId);
+
+  const emitTimeline = useCallback((next: Timeline, snapshot = false) => {
+    localRef.current = next;
+    onTimelineChangeRef.current(next, { snapshot });
+  }, []);
+
+  // 確定済みの状態に未確定の操作を載せ直してエディタへ反映する
+  const rebase = useCallback(() => {
+    if (!confirmedRef.current) return;
+    const { timeline: rebased, applied } = applyOperations(confirmedRef.current, pendingRef.current);
+    pendingRef.current = applied;
+    emitTimeline(withLocalView(rebased, localRef.current));
+  }, [emitTimeline]);
+
+  const sendOperation = useCallback((pending: PendingOperation) => {
+    realtimeClient.send('collab_op', {
+      projectId,
+      opId: pending.opId,
+      baseVersion: versionRef.current,
+      op: pending.op
+    });
+  }, [projectId]);
+
+  // サーバーとの接続・参加とイベントの購読
+  useEffect(() => {
+    if (!active) return;
+    let hasState = false;
+
+    const requestSync = () => realtimeClient.send('collab_sync', { projectId });
+
+    const unsubscribers = [
+      realtimeClient.subscribe<CollabStateEvent>('collab_state', event => {
+        if (event.projectId !== projectId) return;
+        confirmedRef.current = event.timeline;
+        versionRef.current = event.version;
+        clientIdRef.current = event.clientId;
+        setRole(event.role);
+        setParticipants(event.participants.filter(p => p.clientId !== event.clientId));
+        setIsJoined(true);
+        setError(null);
+
+        if (hasState) {
+          // 再接続・再同期: 未確定の操作を新しい版に対して送り直す（操作は冪等）
+          rebase();
+          pendingRef.current.forEach(sendOperation);
+        } else {
+          // 初回はサーバーの状態でエディタを置き換える（ズームと再生位置は維持）
+          pendingRef.current = [];
+          emitTimeline({
+            ...event.timeline,
+            zoom: localRef.current.zoom,
+            playheadPosition: localRef.current.playheadPosition
+          }, true);
+        }
+        hasState = true;
+      }),
+
+      realtimeClient.subscribe<CollabOperationEvent>('collab_op', event => {
+        if (event.projectId !== projectId || !confirmedRef.current) return;
+        if (event.version !== versionRef.current + 1) {
+          // 取りこぼしがあれば全体を取り直す
+          requestSync();
+          return;
+        }
+
+        const result = applyOperation(confirmedRef.current, event.op);
+        if (!result.ok) {
+          requestSync();
+          return;
+        }
+        confirmedRef.current = result.timeline;
+        versionRef.current = event.version;
+
+        if (event.clientId === clientIdRef.current) {
+          // 自分の操作の確定（手元には適用済みなので置き換えない。置き換えると Undo 履歴が消える）
+          pendingRef.current = pendingRef.current.filter(p => p.opId !== event.opId);
+        } else {
+          rebase();
+        }
+      }),
+
+      realtimeClient.subscribe<CollabOperationRejectedEvent>('collab_op_rejected', event => {
+        if (event.projectId !== projectId) return;
+        const rejected = pendingRef.current.find(p => p.opId === event.opId);
+        pendingRef.current = pendingRef.current.filter(p => p.opId !== event.opId);
+
+        if (event.reason === 'stale' || event.reason === 'invalid_version') {
+          requestSync();
+        } else {
+          rebase();
+        }
+        if (rejected) onRejectedRef.current?.(event.reason, rejected.op);
+      }),
+
+      realtimeClient.subscribe<CollabPresenceEvent>('collab_presence', event => {
+        if (event.projectId !== projectId) return;
+        setParticipants(event.participants.filter(p => p.clientId !== clientIdRef.current));
+      }),
+
+      realtimeClient.subscribe<CollabErrorEvent>('collab_error', event => {
+        if (event.projectId && event.projectId !== projectId) return;
+        setError(event.message);
+      }),
+
+      // 接続（再接続）のたびに参加し直す
+      realtimeClient.onStatusChange(connected => {
+        setIsConnected(connected);
+        if (connected) {
+          realtimeClient.send('collab_join', { projectId });
+        } else {
+          setIsJoined(false);
+        }
+      })
+    ];
+
+    return () => {
+      realtimeClient.send('collab_leave', { projectId });
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      confirmedRef.current = null;
+      pendingRef.current = [];
+      setIsJoined(false);
+      setRole(null);
+      setParticipants([]);
+    };
+  }, [active, projectId, emitTimeline, rebase, sendOperation]);
+
+  // エディタでの変更を操作にして送る
+  useEffect(() => {
+    const previous = localRef.current;
+    localRef.current = timeline;
+    if (!active || !isJoined || previous === timeline) return;
+
+    diffTimelines(previous, timeline).forEach(op => {
+      opCounterRef.current += 1;
+      const pending = { opId: `${clientIdRef.current}:${opCounterRef.current}`, op };
+      pendingRef.current = [...pendingRef.current, pending];
+      sendOperation(pending);
+    });
+  }, [timeline, active, isJoined, sendOperation]);
+
+  // 選択中のクリップと再生位置を間引いて送る
+  const presenceRef = useRef<{ selection: string[]; playhead: number } | null>(null);
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const updatePresence = useCallback((presence: { selection: string[]; playhead: number }) => {
+    presenceRef.current = presence;
+    if (!active || presenceTimerRef.current) return;
+
+    presenceTimerRef.current = setTimeout(() => {
+      presenceTimerRef.current = null;
+      if (presenceRef.current) {
+        realtimeClient.send('collab_presence', { projectId, ...presenceRef.current });
+      }
+    }, PRESENCE_INTERVAL);
+  }, [active, projectId]);
+
+  useEffect(() => () => {
+    if (presenceTimerRef.current) clearTimeout(presenceTimerRef.current);
+  }, []);
+
+  return {
+    isConnected,
+    isJoined,
+    role,
+    canEdit: role !== null && role !== 'viewer',
+    participants, // 自分以外の参加者
+    error,
+    updatePresence
+  };
+};
+
+export default useTimelineCollaboration;
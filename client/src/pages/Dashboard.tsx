@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { 
   Plus, 
   Search, 
@@ -22,8 +22,12 @@ import {
   Award,
   Target,
   Users,
-  Heart
+  Heart,
+  LayoutTemplate,
+  Loader2
 } from 'lucide-react';
+import type { Template } from '@/types';
+import { templatesAPI, handleApiError } from '../utils/api';
 
 // Context
 import { useUser } from '../contexts/UserContext';
@@ -98,36 +102,6 @@ const tutorials = [
   }
 ];
 
-const templates = [
-  {
-    id: 'template1',
-    name: 'ポップミュージック',
-    description: '明るくエネルギッシュなポップソング向けテンプレート',
-    thumbnail: 'https://via.placeholder.com/200x120/ff6b6b/ffffff?text=Pop+Music',
-    genre: 'pop',
-    difficulty: 'beginner',
-    uses: 1247
-  },
-  {
-    id: 'template2',
-    name: 'アコースティック',
-    description: '落ち着いたアコースティック楽曲向けテンプレート',
-    thumbnail: 'https://via.placeholder.com/200x120/4ecdc4/ffffff?text=Acoustic',
-    genre: 'acoustic',
-    difficulty: 'beginner',
-    uses: 892
-  },
-  {
-    id: 'template3',
-    name: 'ロックバンド',
-    description: 'パワフルなロック楽曲向けテンプレート',
-    thumbnail: 'https://via.placeholder.com/200x120/45b7d1/ffffff?text=Rock+Band',
-    genre: 'rock',
-    difficulty: 'intermediate',
-    uses: 634
-  }
-];
-
 const Dashboard: React.FC = () => {
   const { user } = useUser();
   const [searchTerm, setSearchTerm] = useState('');
@@ -135,6 +109,11 @@ const Dashboard: React.FC = () => {
   const [showWelcome, setShowWelcome] = useState(false);
   const [activeTab, setActiveTab] = useState('projects');
   const [isFirstTime, setIsFirstTime] = useState(false);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [templatesLoading, setTemplatesLoading] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [creatingFromTemplate, setCreatingFromTemplate] = useState<string | null>(null);
+  const navigate = useNavigate();
 
   // Determine if user should see mock data (demo account) or real data
   const isDemo = user?.email === 'demo@flickmv.com';
@@ -161,6 +140,39 @@ const Dashboard: React.FC = () => {
     }
   }, [user]);
 
+  // テンプレートタブを開いたときに自分のテンプレートと公開テンプレートを読み込む
+  useEffect(() => {
+    if (activeTab !== 'templates') return;
+    let cancelled = false;
+    setTemplatesLoading(true);
+    setTemplateError(null);
+    templatesAPI.getAll()
+      .then(response => {
+        if (!cancelled) setTemplates(response.templates);
+      })
+      .catch(error => {
+        if (!cancelled) setTemplateError(handleApiError(error));
+      })
+      .finally(() => {
+        if (!cancelled) setTemplatesLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [activeTab]);
+
+  // テンプレートからプロジェクトを作り、スロットを埋めるためにエディタで開く
+  const handleUseTemplate = async (template: Template) => {
+    setCreatingFromTemplate(template.id);
+    setTemplateError(null);
+    try {
+      const response = await templatesAPI.createProject(template.id);
+      navigate(`/editor/${response.project.id}`);
+    } catch (error) {
+      setTemplateError(handleApiError(error));
+    } finally {
+      setCreatingFromTemplate(null);
+    }
+  };
+
   const filteredProjects = userProjects.filter(project => {
     const matchesSearch = project.name.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesFilter = filterBy === 'all' || project.status === filterBy;
@@ -505,50 +517,106 @@ const Dashboard: React.FC = () => {
                 <p className="text-dark-400">プロがデザインしたテンプレートで素早くスタート</p>
               </div>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {templates.map((template, index) => (
-                  <motion.div
-                    key={template.id}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: 0.1 * index }}
-                    whileHover={{ y: -5 }}
-                    className="bg-dark-800/50 backdrop-blur-sm rounded-xl overflow-hidden border border-dark-700/50 hover:border-purple-500/50 transition-all duration-300 group cursor-pointer"
-                  >
-                    <div className="relative">
-                      <img 
-                        src={template.thumbnail} 
-                        alt={template.name}
-                        className="w-full h-32 object-cover group-hover:scale-105 transition-transform duration-300"
-                      />
-                      <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
-                      <div className={`absolute top-3 right-3 px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(template.difficulty)}`}>
-                        {template.difficulty === 'beginner' ? '初級' : template.difficulty === 'intermediate' ? '中級' : '上級'}
+              {templateError && (
+                <p className="mb-4 text-sm text-red-400">{templateError}</p>
+              )}
+
+              {templatesLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="w-8 h-8 text-purple-400 animate-spin" />
+                </div>
+              ) : templates.length === 0 ? (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="text-center py-12"
+                >
+                  <div className="w-24 h-24 bg-dark-800 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <LayoutTemplate className="w-12 h-12 text-dark-600" />
+                  </div>
+                  <h3 className="text-xl font-semibold text-white mb-2">テンプレートがありません</h3>
+                  <p className="text-dark-400">
+                    エディタの「テンプレートとして保存」で、作ったプロジェクトをテンプレートにできます
+                  </p>
+                </motion.div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {templates.map((template, index) => (
+                    <motion.div
+                      key={template.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.1 * index }}
+                      whileHover={{ y: -5 }}
+                      className="bg-dark-800/50 backdrop-blur-sm rounded-xl overflow-hidden border border-dark-700/50 hover:border-purple-500/50 transition-all duration-300 group cursor-pointer"
+                    >
+                      <div className="relative">
+                        {template.thumbnail ? (
+                          <img 
+                            src={template.thumbnail} 
+                            alt={template.name}
+                            className="w-full h-32 object-cover group-hover:scale-105 transition-transform duration-300"
+                          />
+                        ) : (
+                          <div className="w-full h-32 bg-gradient-to-br from-purple-500/30 to-pink-500/30 flex items-center justify-center">
+                            <LayoutTemplate className="w-10 h-10 text-white/60" />
+                          </div>
+                        )}
+                        <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
+                        <div className={`absolute top-3 right-3 px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(template.difficulty)}`}>
+                          {template.difficulty === 'beginner' ? '初級' : template.difficulty === 'intermediate' ? '中級' : '上級'}
+                        </div>
+                        {template.owned && (
+                          <div className="absolute top-3 left-3 px-2 py-1 rounded-full text-xs font-medium text-white bg-black/50">
+                            {template.isPublic ? '公開中' : '自分用'}
+                          </div>
+                        )}
                       </div>
-                    </div>
                     
-                    <div className="p-4 space-y-3">
-                      <div className="flex items-start justify-between">
-                        <h3 className="text-lg font-semibold text-white group-hover:text-purple-400 transition-colors">
-                          {template.name}
-                        </h3>
-                        <div className="flex items-center space-x-1 text-dark-400">
-                          <Users className="w-3 h-3" />
-                          <span className="text-xs">{template.uses}</span>
+                      <div className="p-4 space-y-3">
+                        <div className="flex items-start justify-between">
+                          <h3 className="text-lg font-semibold text-white group-hover:text-purple-400 transition-colors">
+                            {template.name}
+                          </h3>
+                          <div className="flex items-center space-x-1 text-dark-400">
+                            <Users className="w-3 h-3" />
+                            <span className="text-xs">{template.uses}</span>
+                          </div>
                         </div>
-                      </div>
                       
-                      <p className="text-dark-400 text-sm">
-                        {template.description}
-                      </p>
+                        {template.description && (
+                          <p className="text-dark-400 text-sm">
+                            {template.description}
+                          </p>
+                        )}
+
+                        <div className="flex items-center space-x-4 text-xs text-dark-400">
+                          <span className="flex items-center space-x-1">
+                            <Clock className="w-3 h-3" />
+                            <span>{Math.round(template.duration)}秒</span>
+                          </span>
+                          <span className="flex items-center space-x-1">
+                            <Video className="w-3 h-3" />
+                            <span>{template.slots.filter(slot => slot.type === 'visual').length}</span>
+                          </span>
+                          <span className="flex items-center space-x-1">
+                            <Music className="w-3 h-3" />
+                            <span>{template.slots.filter(slot => slot.type === 'audio').length}</span>
+                          </span>
+                        </div>
                       
-                      <button className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white py-2 px-4 rounded-lg font-medium transition-all">
-                        このテンプレートを使用
-                      </button>
-                    </div>
-                  </motion.div>
-                ))}
-              </div>
+                        <button
+                          onClick={() => handleUseTemplate(template)}
+                          disabled={creatingFromTemplate !== null}
+                          className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 text-white py-2 px-4 rounded-lg font-medium transition-all"
+                        >
+                          {creatingFromTemplate === template.id ? '作成中...' : 'このテンプレートを使用'}
+                        </button>
+                      </div>
+                    </motion.div>
+                  ))}
+                </div>
+              )}
             </motion.div>
           )}
 
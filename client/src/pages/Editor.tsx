@@ -7,15 +7,18 @@ import { MediaLibrary } from '../components/media/MediaLibrary';
 import Timeline from '../components/timeline/Timeline';
 import Preview from '../components/preview/Preview';
 import PlaybackControls from '../components/editor/PlaybackControls';
+import CollaboratorPresence from '../components/editor/CollaboratorPresence';
 
 
 
 
 import RightPanel from '../components/panels/RightPanel';
 import { ExportPanel, ExportProgress } from '../components/export';
+import { SaveTemplateModal, TemplateSlotsPanel } from '../components/templates';
 
 // Context
 import { useUser } from '../contexts/UserContext';
+import { useCommands, useCommandHandlers } from '../hooks/useCommands';
 
 import {
   Play,
@@ -64,12 +67,18 @@ import {
   Minimize2,
   PictureInPicture2,
   Camera,
-  RotateCcw
+  RotateCcw,
+  Keyboard
 } from 'lucide-react';
 
 // Types
-import type { Project, TimelineClip, MediaFile, Resolution, ExportJob } from '../types';
+import type { Project, TimelineClip, MediaFile, Resolution, ExportJob, EditRecipe, Timeline as TimelineData } from '../types';
 import { processMediaFile } from '../utils/media/mediaProcessor';
+import { applyRecipeToTimeline, getTimelineBPMAnalysis } from '../utils/recipes/recipeEngine';
+import { useUndoRedo } from '../hooks/timeline';
+import { useTimelineCollaboration } from '../hooks/useTimelineCollaboration';
+import { usePlaybackEngine } from '../hooks/usePlaybackEngine';
+import { projectsAPI } from '../utils/api';
 
 // PopupPreview Manager
 class PreviewWindowManager {
@@ -371,6 +380,7 @@ const Editor: React.FC = () => {
   const [showExportPanel, setShowExportPanel] = useState(false);
   const [currentExportJob, setCurrentExportJob] = useState<ExportJob | null>(null);
   const [showExportProgress, setShowExportProgress] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
   
   // Panel state - 修正版
   const [leftPanelWidth, setLeftPanelWidth] = useState(280);
@@ -405,6 +415,52 @@ const Editor: React.FC = () => {
 
 
 
+  // タイムライン履歴（タイムライン・クリップの編集とレシピ適用を1ステップずつ元に戻せる）
+  const {
+    state: historyTimeline,
+    setState: setHistoryTimeline,
+    executeAction: recordTimelineAction,
+    clearHistory: clearTimelineHistory
+  } = useUndoRedo<TimelineData>(project.timeline, {
+    stateComparer: (a, b) => a === b,
+    stateCloner: (timeline) => timeline
+  });
+
+  // 利用者の編集は履歴に記録してから反映する
+  const applyTimelineEdit = useCallback((timeline: TimelineData, description = 'タイムラインの編集') => {
+    recordTimelineAction('timeline_property_change', description, timeline);
+    setProject(prev => ({ ...prev, timeline }));
+  }, [recordTimelineAction]);
+
+  // タイムラインのドラッグ・リサイズ中の途中経過は履歴に記録せず、離したときに1ステップとして記録する
+  const timelinePreviewRef = useRef<TimelineData | null>(null);
+  const handleTimelineUpdate = useCallback((timeline: TimelineData, { preview = false } = {}) => {
+    timelinePreviewRef.current = preview ? timeline : null;
+    if (preview) {
+      setProject(prev => ({ ...prev, timeline }));
+    } else {
+      applyTimelineEdit(timeline);
+    }
+  }, [applyTimelineEdit]);
+
+  // 履歴を通さない変更（共同編集の反映・アップロードによる長さ調整など）は現在の状態にだけ取り込み、
+  // 記録済みのステップは残す
+  useEffect(() => {
+    if (project.timeline === timelinePreviewRef.current) return;
+    setHistoryTimeline(project.timeline);
+  }, [project.timeline, setHistoryTimeline]);
+
+  // 別のプロジェクトや共同編集のスナップショットを読み込んだら、記録済みのステップは破棄する
+  const resetTimelineHistory = useCallback((timeline: TimelineData) => {
+    setHistoryTimeline(timeline);
+    clearTimelineHistory();
+  }, [setHistoryTimeline, clearTimelineHistory]);
+
+  // Undo/Redo の結果をプロジェクトに反映
+  useEffect(() => {
+    setProject(prev => prev.timeline === historyTimeline ? prev : { ...prev, timeline: historyTimeline });
+  }, [historyTimeline]);
+
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
@@ -412,6 +468,17 @@ const Editor: React.FC = () => {
 
   const currentVideoResolution = VIDEO_RESOLUTIONS[videoResolution];
 
+  // 選択中クリップの編集（プレビュー・右パネル）
+  const handleClipUpdate = (clip: TimelineClip) => {
+    applyTimelineEdit({
+      ...project.timeline,
+      clips: project.timeline.clips.map(c =>
+        c.id === clip.id ? clip : c
+      )
+    }, 'クリップの編集');
+    setSelectedClip(clip);
+  };
+
   // プレビューレンダリング用の関数
   const renderPreviewContent = () => {
     return (
@@ -419,6 +486,8 @@ const Editor: React.FC = () => {
         project={project}
         playheadPosition={playheadPosition}
         isPlaying={isPlaying}
+        selectedClipId={selectedClip?.id}
+        onClipUpdate={handleClipUpdate}
       />
     );
   };
@@ -746,16 +815,8 @@ const Editor: React.FC = () => {
 
   const handleTimeUpdate = useCallback((time: number) => {
     console.log('⏱️ 時間更新:', time.toFixed(2), '秒');
+    // 再生ヘッドの移動は編集ではないので、タイムライン（履歴）には書き込まない
     setPlayheadPosition(time);
-    
-    // タイムラインも同時に更新
-    setProject(prev => ({
-      ...prev,
-      timeline: {
-        ...prev.timeline,
-        playheadPosition: time
-      }
-    }));
   }, []);
 
   const handleExport = () => {
@@ -813,6 +874,105 @@ const Editor: React.FC = () => {
     setVideoResolution(freshProject.settings.resolution);
   }, []);
 
+  // プロジェクト ID があればサーバーから読み込む（テンプレートから作ったプロジェクトもここで開く）
+  const savedTemplateRef = useRef<TimelineData['template']>(undefined);
+  const [loadedProjectId, setLoadedProjectId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    projectsAPI.getById(projectId)
+      .then(response => {
+        const loaded = (response as { project?: Project } | undefined)?.project;
+        if (cancelled || !loaded) return;
+        savedTemplateRef.current = loaded.timeline.template;
+        setProject(loaded);
+        resetTimelineHistory(loaded.timeline);
+        setVideoResolution(loaded.settings.resolution);
+        setLoadedProjectId(projectId);
+      })
+      .catch(error => console.error('プロジェクトの読み込みに失敗:', error));
+    return () => { cancelled = true; };
+  }, [projectId, resetTimelineHistory]);
+
+  // テンプレートの情報は共同編集の差分に載らないので、スロットを埋めたらタイムラインごと保存する
+  const handleTemplateTimelineChange = useCallback((update: (timeline: TimelineData) => TimelineData) => {
+    setProject(prev => ({ ...prev, timeline: update(prev.timeline) }));
+  }, []);
+  useEffect(() => {
+    const template = project.timeline.template;
+    if (!projectId || !template || template === savedTemplateRef.current) return;
+    savedTemplateRef.current = template;
+    projectsAPI.updateTimeline(projectId, project.timeline)
+      .catch(error => console.error('テンプレートのスロットの保存に失敗:', error));
+  }, [projectId, project.timeline]);
+
+  // 共同編集（プロジェクト ID があるときだけ、読み込みが終わってからサーバーと同期する）
+  const [collabNotice, setCollabNotice] = useState<string | null>(null);
+  const handleCollabTimelineChange = useCallback((timeline: TimelineData, { snapshot }: { snapshot: boolean }) => {
+    setProject(prev => ({ ...prev, timeline }));
+    if (snapshot) resetTimelineHistory(timeline);
+  }, [resetTimelineHistory]);
+  const handleCollabRejected = useCallback((reason: string) => {
+    if (reason === 'conflict') {
+      setCollabNotice('他の参加者の編集と重なったため、変更を取り消しました');
+    } else if (reason === 'read_only') {
+      setCollabNotice('閲覧のみの権限では編集できません');
+    }
+  }, []);
+  const collaboration = useTimelineCollaboration(projectId, project.timeline, handleCollabTimelineChange, {
+    enabled: Boolean(projectId) && loadedProjectId === projectId,
+    onRejected: handleCollabRejected
+  });
+  const { updatePresence } = collaboration;
+
+  useEffect(() => {
+    updatePresence({ selection: selectedClip ? [selectedClip.id] : [], playhead: playheadPosition });
+  }, [selectedClip, playheadPosition, updatePresence]);
+
+  useEffect(() => {
+    if (!collabNotice) return;
+    const timer = setTimeout(() => setCollabNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [collabNotice]);
+
+  // 音声再生（オーディオトラックのミュート・ソロを反映し、再生ヘッドは音声の時計で進める）
+  // 再生中は毎フレーム呼ばれるので、タイムライン（履歴）には書き込まない
+  const handlePlaybackTime = useCallback((time: number) => {
+    setPlayheadPosition(time);
+  }, []);
+  const handlePlaybackEnded = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+  usePlaybackEngine({
+    timeline: project.timeline,
+    mediaLibrary: project.mediaLibrary,
+    isPlaying,
+    playheadPosition,
+    onTimeUpdate: handlePlaybackTime,
+    onEnded: handlePlaybackEnded
+  });
+
+  const handleApplyRecipe = useCallback((recipe: EditRecipe, clip: TimelineClip) => {
+    try {
+      const { timeline, result } = applyRecipeToTimeline(
+        project.timeline,
+        recipe,
+        clip,
+        getTimelineBPMAnalysis(project.timeline)
+      );
+      recordTimelineAction('recipe_apply', result.description, timeline, {
+        recipeId: recipe.id,
+        clipId: clip.id
+      });
+      setProject(prev => ({ ...prev, timeline }));
+      setSelectedClip(result.clips[0] || null);
+      console.log('🪄 レシピ適用:', recipe.name, `${result.clips.length} clips`);
+    } catch (error) {
+      console.error('レシピ適用エラー:', error);
+      alert(`レシピを適用できませんでした: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [project.timeline, recordTimelineAction]);
+
   useEffect(() => {
     const hasSeenTutorial = localStorage.getItem('hasSeenEditorTutorial_v3');
     if (!hasSeenTutorial) {
@@ -828,6 +988,26 @@ const Editor: React.FC = () => {
     };
   }, []);
 
+  // キーボードショートカット（キーの割り当ては CommandProvider、変更はキー設定から）
+  const { openKeybindings } = useCommands();
+  const seekTo = (time: number) => {
+    setPlayheadPosition(Math.max(0, Math.min(project.timeline.duration, time)));
+  };
+  const frameDuration = 1 / (project.settings.frameRate || 30);
+  useCommandHandlers({
+    'playback.togglePlay': handlePlayPause,
+    'playback.goToStart': () => seekTo(0),
+    'playback.goToEnd': () => seekTo(project.timeline.duration),
+    'playback.stepBackward': () => seekTo(playheadPosition - frameDuration),
+    'playback.stepForward': () => seekTo(playheadPosition + frameDuration),
+    'playback.jumpBackward': () => seekTo(playheadPosition - 1),
+    'playback.jumpForward': () => seekTo(playheadPosition + 1),
+    'view.zoomIn': () => setZoom(prev => Math.min(4, prev + 0.25)),
+    'view.zoomOut': () => setZoom(prev => Math.max(0.25, prev - 0.25)),
+    'view.zoomReset': () => setZoom(1),
+    'file.export': handleExport
+  });
+
   return (
     <div className="h-screen flex flex-col bg-dark-900 text-white overflow-hidden">
       {/* Tutorial Overlay */}
@@ -894,6 +1074,13 @@ const Editor: React.FC = () => {
         onExportStart={handleExportStart}
       />
 
+      {/* Save as Template */}
+      <SaveTemplateModal
+        project={project}
+        isOpen={showSaveTemplate}
+        onClose={() => setShowSaveTemplate(false)}
+      />
+
       {/* Export Progress */}
       {currentExportJob && (
         <ExportProgress
@@ -923,6 +1110,12 @@ const Editor: React.FC = () => {
           </div>
 
           <div className="hidden md:flex items-center space-x-4">
+            <CollaboratorPresence
+              participants={collaboration.participants}
+              role={collaboration.role}
+              isJoined={collaboration.isJoined}
+              conflictMessage={collabNotice}
+            />
             <div className="text-sm text-gray-400">
               <span className="hidden sm:inline">エクスポート残り: </span>
               <span className="font-medium text-blue-400">{user.exportStats.remaining}/{user.exportStats.limit}</span>
@@ -938,6 +1131,23 @@ const Editor: React.FC = () => {
               <span>ヘルプ</span>
             </button>
             
+            <button
+              onClick={openKeybindings}
+              className="hidden sm:flex items-center space-x-2 bg-dark-700 hover:bg-dark-600 px-3 py-1.5 rounded-lg text-sm transition-all"
+              title="キーボードショートカット"
+            >
+              <Keyboard className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={() => setShowSaveTemplate(true)}
+              disabled={!project.timeline.clips.length}
+              className="hidden sm:flex items-center space-x-2 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1.5 rounded-lg text-sm transition-all"
+            >
+              <Save className="w-4 h-4" />
+              <span>テンプレートとして保存</span>
+            </button>
+
             <button
               onClick={handleExport}
               disabled={user.exportStats.remaining <= 0}
@@ -1000,6 +1210,11 @@ const Editor: React.FC = () => {
                   }}
                 />
                 
+                <TemplateSlotsPanel
+                  project={project}
+                  onTimelineChange={handleTemplateTimelineChange}
+                />
+
                 <MediaLibrary
                   mediaFiles={project.mediaLibrary}
                   onUpload={handleMediaUpload}
@@ -1196,10 +1411,9 @@ const Editor: React.FC = () => {
                 timeline={project.timeline}
                 playheadPosition={playheadPosition}
                 zoom={zoom}
+                mediaLibrary={project.mediaLibrary}
                 onClipSelect={handleClipSelect}
-                onTimelineUpdate={(timeline) => 
-                  setProject(prev => ({ ...prev, timeline }))
-                }
+                onTimelineUpdate={handleTimelineUpdate}
               />
             </div>
           </motion.div>
@@ -1244,21 +1458,15 @@ const Editor: React.FC = () => {
               onClosePreviewWindow={closePreviewWindow}
               onProjectUpdate={setProject}
               onApplyPreset={(clip) => {
-                setProject(prev => ({
-                  ...prev,
-                  timeline: {
-                    ...prev.timeline,
-                    clips: prev.timeline.clips.map(c => 
-                      c.id === clip.id ? clip : c
-                    )
-                  }
-                }));
-                setSelectedClip(clip);
+                handleClipUpdate(clip);
                 console.log('✨ エフェクトプリセット適用:', clip.id);
               }}
+              onClipUpdate={handleClipUpdate}
+              playheadPosition={playheadPosition}
               onPreviewPreset={(preset) => {
                 console.log('👁️ プリセットプレビュー:', preset.name);
               }}
+              onApplyRecipe={handleApplyRecipe}
             />
           )}
         </motion.div>
@@ -408,6 +408,19 @@ const EditorFixed: React.FC = () => {
         project={project}
         playheadPosition={playheadPosition}
         isPlaying={isPlaying}
+        selectedClipId={selectedClip?.id}
+        onClipUpdate={(clip) => {
+          setProject(prev => ({
+            ...prev,
+            timeline: {
+              ...prev.timeline,
+              clips: prev.timeline.clips.map(c =>
+                c.id === clip.id ? clip : c
+              )
+            }
+          }));
+          setSelectedClip(clip);
+        }}
       />
     );
   };
@@ -1194,6 +1207,7 @@ const EditorFixed: React.FC = () => {
               timeline={project.timeline}
               playheadPosition={playheadPosition}
               zoom={zoom}
+              mediaLibrary={project.mediaLibrary}
               onClipSelect={handleClipSelect}
               onTimelineUpdate={(timeline) => 
                 setProject(prev => ({ ...prev, timeline }))
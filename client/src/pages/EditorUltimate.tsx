@@ -448,6 +448,19 @@ const EditorUltimate: React.FC = () => {
         project={project}
         playheadPosition={playheadPosition}
         isPlaying={isPlaying}
+        selectedClipId={selectedClip?.id}
+        onClipUpdate={(clip) => {
+          setProject(prev => ({
+            ...prev,
+            timeline: {
+              ...prev.timeline,
+              clips: prev.timeline.clips.map(c =>
+                c.id === clip.id ? clip : c
+              )
+            }
+          }));
+          setSelectedClip(clip);
+        }}
       />
     );
   };
@@ -854,6 +867,7 @@ const EditorUltimate: React.FC = () => {
               timeline={project.timeline}
               playheadPosition={playheadPosition}
               zoom={zoom}
+              mediaLibrary={project.mediaLibrary}
               onClipSelect={handleClipSelect}
               onTimelineUpdate={(timeline) => 
                 setProject(prev => ({ ...prev, timeline }))
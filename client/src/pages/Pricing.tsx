@@ -26,6 +26,7 @@ import {
   Lock,
   Unlock
 } from 'lucide-react';
+import { PLAN_ENTITLEMENTS, UNLIMITED, type PlanId } from '@entitlements';
 
 // Mock user data
 const mockUser = {
@@ -45,108 +46,87 @@ const mockUser = {
   }
 };
 
+// 価格・上限はサーバーと共通のエンタイトルメントから取り、ここでは表示用の文言だけを持つ
+interface PlanCopy {
+  period: string;
+  description: string;
+  processingMethod: string;
+  profitRate: number;
+  editing: string;
+  extraFeatures: string[];
+  color: string;
+  popular: boolean;
+}
+
+const formatMonthlyLimit = (value: number, unit: string) =>
+  value === UNLIMITED ? '無制限' : `月${value}${unit}まで`;
+
+const buildPlanFeatures = (id: PlanId, copy: PlanCopy) => {
+  const entitlements = PLAN_ENTITLEMENTS[id];
+  return {
+    ...copy,
+    name: entitlements.label,
+    monthlyPrice: entitlements.monthlyPrice,
+    price: `¥${entitlements.monthlyPrice.toLocaleString()}`,
+    watermark: entitlements.watermarkRemoval ? '削除可能' : '必須',
+    features: [
+      copy.editing,
+      `${copy.processingMethod}処理`,
+      `${entitlements.maxResolution}出力`,
+      `${formatMonthlyLimit(entitlements.exportsPerMonth, '本')}出力`,
+      `音声解析 ${formatMonthlyLimit(entitlements.audioAnalysisPerMonth, '回')}`,
+      ...copy.extraFeatures
+    ],
+    limits: {
+      exportsPerMonth: entitlements.exportsPerMonth,
+      maxResolution: entitlements.maxResolution,
+      audioAnalysis: entitlements.audioAnalysisPerMonth,
+      watermarkRemoval: entitlements.watermarkRemoval
+    }
+  };
+};
+
 const planFeatures = {
-  free: {
-    name: 'フリー',
-    price: '¥0',
+  free: buildPlanFeatures('free', {
     period: '永続無料',
     description: '個人利用や学習目的に最適',
-    watermark: '必須',
     processingMethod: 'VPS専用',
     profitRate: -126,
-    features: [
-      '基本編集機能',
-      'VPS専用処理',
-      '720p出力',
-      '月3本まで出力',
-      '音声解析無制限',
-      'コミュニティサポート'
-    ],
-    limits: {
-      exportsPerMonth: 3,
-      maxResolution: '720p',
-      audioAnalysis: 'unlimited',
-      watermarkRemoval: false
-    },
+    editing: '基本編集機能',
+    extraFeatures: ['コミュニティサポート'],
     color: 'gray',
     popular: false
-  },
-  light: {
-    name: 'ライト',
-    price: '¥1,480',
+  }),
+  light: buildPlanFeatures('light', {
     period: '月額',
     description: '個人クリエイター向けの充実機能',
-    watermark: '必須',
     processingMethod: 'GCP専用',
     profitRate: 36,
-    features: [
-      '高度編集機能',
-      'GCP専用処理',
-      '1080p出力',
-      '月10本まで出力',
-      '音声解析無制限',
-      '優先サポート'
-    ],
-    limits: {
-      exportsPerMonth: 10,
-      maxResolution: '1080p',
-      audioAnalysis: 'unlimited',
-      watermarkRemoval: false
-    },
+    editing: '高度編集機能',
+    extraFeatures: ['優先サポート'],
     color: 'blue',
     popular: false
-  },
-  standard: {
-    name: 'スタンダード',
-    price: '¥2,980',
+  }),
+  standard: buildPlanFeatures('standard', {
     period: '月額',
     description: 'プロフェッショナル向けの完全版',
-    watermark: '削除可能',
     processingMethod: 'GCP専用',
     profitRate: 50,
-    features: [
-      '全機能利用可能',
-      'GCP専用処理',
-      '1080p-4K出力対応',
-      '月25本まで出力',
-      '音声解析無制限',
-      '優先レンダリング'
-    ],
-    limits: {
-      exportsPerMonth: 25,
-      maxResolution: '1080p-4K',
-      audioAnalysis: 'unlimited',
-      watermarkRemoval: true
-    },
+    editing: '全機能利用可能',
+    extraFeatures: ['優先レンダリング'],
     color: 'purple',
     popular: true
-  },
-  pro: {
-    name: 'プロ',
-    price: '¥5,480',
+  }),
+  pro: buildPlanFeatures('pro', {
     period: '月額',
     description: 'エンタープライズ向け最上位プラン',
-    watermark: '削除可能',
     processingMethod: 'GCP専用',
     profitRate: 55,
-    features: [
-      '全機能 + AI機能',
-      'GCP専用処理',
-      '4K出力対応',
-      '月40本まで出力',
-      '音声解析無制限',
-      '専用サポート',
-      'API連携'
-    ],
-    limits: {
-      exportsPerMonth: 40,
-      maxResolution: '4K',
-      audioAnalysis: 'unlimited',
-      watermarkRemoval: true
-    },
+    editing: '全機能 + AI機能',
+    extraFeatures: ['専用サポート', 'API連携'],
     color: 'gold',
     popular: false
-  }
+  })
 };
 
 const Pricing: React.FC = () => {
@@ -157,7 +137,7 @@ const Pricing: React.FC = () => {
   const [loading, setLoading] = useState(false);
 
   const currentPlan = planFeatures[user.plan as keyof typeof planFeatures];
-  const remainingExports = currentPlan.limits.exportsPerMonth === -1 
+  const remainingExports = currentPlan.limits.exportsPerMonth === UNLIMITED 
     ? -1 
     : Math.max(0, currentPlan.limits.exportsPerMonth - user.usage.exportsThisMonth);
 
@@ -430,7 +410,7 @@ const Pricing: React.FC = () => {
           {Object.entries(planFeatures).map(([key, plan], index) => {
             const Icon = getPlanIcon(key);
             const isCurrentPlan = user.plan === key;
-            const yearlyPrice = key === 'free' ? '¥0' : `¥${Math.round(parseInt(plan.price.replace('¥', '').replace(',', '')) * 12 * 0.8).toLocaleString()}`;
+            const yearlyPrice = `¥${Math.round(plan.monthlyPrice * 12 * 0.8).toLocaleString()}`;
             
             return (
               <motion.div
@@ -538,7 +518,7 @@ const Pricing: React.FC = () => {
                 音声解析機能について
               </h3>
               <p className="text-sm text-gray-400">
-                全てのプランで音声解析機能を無制限でご利用いただけます。AIによる高精度な音声解析で、音楽に合わせた精度の高い編集が可能です。
+                AIによる高精度な音声解析で、音楽に合わせた精度の高い編集が可能です。月あたりの解析回数はプランごとに異なり、プロプランでは無制限でご利用いただけます。
               </p>
             </div>
             
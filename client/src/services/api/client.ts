@@ -11,8 +11,11 @@ import {
   LoginForm,
   RegisterForm,
   ProjectForm,
-  ExportForm
+  ExportForm,
+  UploadSessionInfo,
+  UploadProgress
 } from '@/types';
+import { STORAGE_KEYS } from '@/utils/constants';
 
 
 // API設定
@@ -23,6 +26,10 @@ const API_BASE_URL =
   (globalThis as any).process?.env?.REACT_APP_API_URL ??
   'http://localhost:5000/api';
 const TIMEOUT = 30000; // 30秒
+const UPLOAD_CONCURRENCY = 3; // 同時に送るチャンク数
+const CHUNK_RETRIES = 3;
+const CHUNK_TIMEOUT = 5 * 60 * 1000; // 1チャンクあたり
+const COMPLETE_TIMEOUT = 5 * 60 * 1000; // 結合とメディア処理を待つ
 
 // HTTPエラークラス
 export class APIError extends Error {
@@ -44,6 +51,67 @@ interface RequestConfig {
   signal?: AbortSignal;
 }
 
+// 再開用に localStorage に残す、完了していないアップロード
+export interface PendingUpload {
+  key: string;
+  uploadId: string;
+  projectId: string;
+  fileName: string;
+  size: number;
+  startedAt: string;
+}
+
+export interface UploadFileOptions {
+  projectId: string;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+// 同じファイルを選び直したときに以前のアップロードと照合するためのキー
+export const getUploadKey = (file: File, projectId: string) =>
+  `${projectId}:${file.name}:${file.size}:${file.lastModified}`;
+
+const readPendingUploads = (): Record<string, PendingUpload> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.pendingUploads) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writePendingUploads = (uploads: Record<string, PendingUpload>) => {
+  localStorage.setItem(STORAGE_KEYS.pendingUploads, JSON.stringify(uploads));
+};
+
+/**
+ * 完了していないアップロード（リロード後に同じファイルを選べば続きから送れる）
+ */
+export const getPendingUploads = (projectId?: string): PendingUpload[] =>
+  Object.values(readPendingUploads()).filter(upload => !projectId || upload.projectId === projectId);
+
+const savePendingUpload = (upload: PendingUpload) => {
+  writePendingUploads({ ...readPendingUploads(), [upload.key]: upload });
+};
+
+const removePendingUpload = (key: string) => {
+  const uploads = readPendingUploads();
+  delete uploads[key];
+  writePendingUploads(uploads);
+};
+
+// チャンクの SHA-256（16進）。サーバーが受信内容と照合する
+const sha256Hex = async (data: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// 再送すれば成功しうるエラー（通信断・タイムアウト・サーバーエラー・チェックサム不一致）
+const isRetryableUploadError = (error: unknown) =>
+  error instanceof APIError &&
+  (error.status === 0 || error.status === 408 || error.status === 422 || (error.status ?? 0) >= 500);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 // レスポンス処理用のユーティリティ
 class ApiClient {
   private baseURL: string;
@@ -184,70 +252,214 @@ class ApiClient {
     return this.request<T>(endpoint, { method: 'DELETE', ...config });
   }
 
-  // ファイルアップロード用
-  async uploadFile<T>(
-    endpoint: string, 
-    file: File, 
-    additionalData?: Record<string, string>,
-    onProgress?: (progress: number) => void,
-    config?: RequestConfig
-  ): Promise<T> {
-    const formData = new FormData();
-    formData.append('file', file);
-    
-    if (additionalData) {
-      Object.entries(additionalData).forEach(([key, value]) => {
-        formData.append(key, value);
-      });
+  /**
+   * 再開可能なファイルアップロード（開始 → チャンク送信 → 完了）
+   * 途中で通信が切れたりリロードしたりしても、同じファイルを選び直せば
+   * サーバーが受信済みのチャンクを飛ばして続きから送る。
+   */
+  async uploadFile(file: File, options: UploadFileOptions): Promise<MediaFile> {
+    const { projectId, onProgress, signal } = options;
+    const key = getUploadKey(file, projectId);
+    let progress: UploadProgress = {
+      key,
+      fileName: file.name,
+      uploadId: null,
+      loaded: 0,
+      total: file.size,
+      percentage: 0,
+      status: 'pending',
+      resumed: false
+    };
+    const report = (updates: Partial<UploadProgress>) => {
+      progress = { ...progress, ...updates };
+      progress.percentage = progress.total > 0 ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : 0;
+      onProgress?.(progress);
+    };
+
+    try {
+      let session = await this.findResumableUpload(key, file, projectId, signal);
+      if (session) {
+        report({ uploadId: session.uploadId, loaded: session.receivedBytes, resumed: true });
+      } else {
+        ({ upload: session } = await this.post<{ upload: UploadSessionInfo }>(
+          `/media/uploads/${projectId}`,
+          { fileName: file.name, mimeType: file.type, size: file.size },
+          { signal }
+        ));
+        savePendingUpload({
+          key,
+          uploadId: session.uploadId,
+          projectId,
+          fileName: file.name,
+          size: file.size,
+          startedAt: new Date().toISOString()
+        });
+        report({ uploadId: session.uploadId });
+      }
+
+      if (session.status === 'uploading') {
+        await this.uploadMissingChunks(file, session, signal, loaded => report({ status: 'uploading', loaded }));
+      }
+
+      report({ status: 'completing', loaded: file.size });
+      const { mediaFile } = await this.post<{ upload: UploadSessionInfo; mediaFile: MediaFile }>(
+        `/media/uploads/${projectId}/${session.uploadId}/complete`,
+        undefined,
+        { signal, timeout: COMPLETE_TIMEOUT }
+      );
+      removePendingUpload(key);
+      report({ status: 'completed' });
+      return mediaFile;
+    } catch (error) {
+      report({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      throw error;
     }
+  }
 
-    // プログレス監視のためのXMLHttpRequestを使用
+  /**
+   * 中断したアップロードを取り消す（サーバーのチャンクも削除）
+   */
+  async cancelUpload(pending: PendingUpload): Promise<void> {
+    removePendingUpload(pending.key);
+    try {
+      await this.delete(`/media/uploads/${pending.projectId}/${pending.uploadId}`);
+    } catch (error) {
+      // 期限切れなどで既にない場合はそのままでよい
+      if (!(error instanceof APIError && (error.status === 404 || error.status === 410))) throw error;
+    }
+  }
+
+  // 同じファイルの未完了アップロードがサーバーに残っていれば、その状態を返す
+  private async findResumableUpload(
+    key: string,
+    file: File,
+    projectId: string,
+    signal?: AbortSignal
+  ): Promise<UploadSessionInfo | null> {
+    const pending = readPendingUploads()[key];
+    if (!pending) return null;
+
+    try {
+      const { upload } = await this.get<{ upload: UploadSessionInfo }>(
+        `/media/uploads/${projectId}/${pending.uploadId}`,
+        { signal }
+      );
+      if (upload.size === file.size) return upload;
+    } catch (error) {
+      if (!(error instanceof APIError && [400, 404, 410].includes(error.status ?? 0))) throw error;
+    }
+    // 期限切れ・別ファイルなら最初からやり直す
+    removePendingUpload(key);
+    return null;
+  }
+
+  // 受信されていないチャンクを並行して送る。onLoaded には送信済みの合計バイト数を渡す
+  private async uploadMissingChunks(
+    file: File,
+    session: UploadSessionInfo,
+    signal: AbortSignal | undefined,
+    onLoaded: (loaded: number) => void
+  ): Promise<void> {
+    const received = new Set(session.receivedChunks);
+    const queue: number[] = [];
+    for (let index = 0; index < session.chunkCount; index++) {
+      if (!received.has(index)) queue.push(index);
+    }
+
+    let completedBytes = session.receivedBytes;
+    const inFlight = new Map<number, number>(); // チャンク -> 送信中のバイト数
+    const reportLoaded = () => {
+      let loaded = completedBytes;
+      inFlight.forEach(bytes => { loaded += bytes; });
+      onLoaded(loaded);
+    };
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const index = queue.shift()!;
+        const offset = index * session.chunkSize;
+        const chunk = file.slice(offset, Math.min(file.size, offset + session.chunkSize));
+        const checksum = await sha256Hex(chunk);
+
+        for (let attempt = 0; ; attempt++) {
+          try {
+            await this.sendChunk(session, offset, chunk, checksum, signal, bytes => {
+              inFlight.set(index, bytes);
+              reportLoaded();
+            });
+            break;
+          } catch (error) {
+            inFlight.delete(index);
+            if (signal?.aborted || attempt >= CHUNK_RETRIES || !isRetryableUploadError(error)) throw error;
+            await wait(1000 * 2 ** attempt);
+          }
+        }
+
+        inFlight.delete(index);
+        completedBytes += chunk.size;
+        reportLoaded();
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, queue.length) }, worker));
+  }
+
+  // チャンク1つを送信（送信中の進捗のため XMLHttpRequest を使用）
+  private sendChunk(
+    session: UploadSessionInfo,
+    offset: number,
+    chunk: Blob,
+    checksum: string,
+    signal: AbortSignal | undefined,
+    onProgress: (loaded: number) => void
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
       const xhr = new XMLHttpRequest();
-      const url = `${this.baseURL}${endpoint}`;
+      const url = `${this.baseURL}/media/uploads/${session.projectId}/${session.uploadId}/chunks/${offset}`;
+
+      if (signal?.aborted) {
+        reject(new APIError('Upload cancelled', 0, 'ABORTED'));
+        return;
+      }
+      const abort = () => xhr.abort();
+      signal?.addEventListener('abort', abort);
+      const settle = (error?: APIError) => {
+        signal?.removeEventListener('abort', abort);
+        if (error) reject(error);
+        else resolve();
+      };
 
       xhr.upload.addEventListener('progress', (event) => {
-        if (event.lengthComputable && onProgress) {
-          const progress = Math.round((event.loaded / event.total) * 100);
-          onProgress(progress);
-        }
+        onProgress(event.loaded);
       });
 
       xhr.addEventListener('load', () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          settle();
+          return;
+        }
+        let response: APIResponse | null = null;
         try {
-          const response: APIResponse<T> = JSON.parse(xhr.responseText);
-          if (xhr.status >= 200 && xhr.status < 300 && response.success) {
-            resolve(response.data as T);
-          } else {
-            reject(new APIError(
-              response.message || `HTTP ${xhr.status}`,
-              xhr.status,
-              response.code,
-              response.error
-            ));
-          }
-        } catch (error) {
-          reject(new APIError('Failed to parse response', xhr.status));
+          response = JSON.parse(xhr.responseText);
+        } catch {
+          // JSON 以外のエラーレスポンス
         }
+        settle(new APIError(response?.message || `HTTP ${xhr.status}`, xhr.status, response?.code, response?.error));
       });
 
-      xhr.addEventListener('error', () => {
-        reject(new APIError('Upload failed', 0));
-      });
-
-      xhr.addEventListener('timeout', () => {
-        reject(new APIError('Upload timeout', 408));
-      });
+      xhr.addEventListener('error', () => settle(new APIError('Upload failed', 0)));
+      xhr.addEventListener('timeout', () => settle(new APIError('Upload timeout', 408)));
+      xhr.addEventListener('abort', () => settle(new APIError('Upload cancelled', 0, 'ABORTED')));
 
-      xhr.open('POST', url);
-      
-      // 認証ヘッダーを設定
+      xhr.open('PUT', url);
       if (this.defaultHeaders['Authorization']) {
         xhr.setRequestHeader('Authorization', this.defaultHeaders['Authorization']);
       }
+      xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+      xhr.setRequestHeader('X-Chunk-SHA256', checksum);
 
-      xhr.timeout = config?.timeout || TIMEOUT;
-      xhr.send(formData);
+      xhr.timeout = CHUNK_TIMEOUT;
+      xhr.send(chunk);
     });
   }
 }
@@ -311,20 +523,21 @@ export const projectAPI = {
   getProjects: (page: number = 1, limit: number = 20): Promise<PaginatedResponse<Project>> =>
     apiClient.get(`/projects?page=${page}&limit=${limit}`),
 
+  // サーバーは { project } を返す（設定・タイムライン・ビートグリッド・mediaLibrary を含む）
   getProject: (projectId: string): Promise<Project> =>
-    apiClient.get(`/projects/${projectId}`),
+    apiClient.get<{ project: Project }>(`/projects/${projectId}`).then(({ project }) => project),
 
   createProject: (projectData: ProjectForm): Promise<Project> =>
-    apiClient.post('/projects', projectData),
+    apiClient.post<{ project: Project }>('/projects', projectData).then(({ project }) => project),
 
   updateProject: (projectId: string, updates: Partial<Project>): Promise<Project> =>
-    apiClient.patch(`/projects/${projectId}`, updates),
+    apiClient.patch<{ project: Project }>(`/projects/${projectId}`, updates).then(({ project }) => project),
 
   deleteProject: (projectId: string): Promise<void> =>
     apiClient.delete(`/projects/${projectId}`),
 
   duplicateProject: (projectId: string, name?: string): Promise<Project> =>
-    apiClient.post(`/projects/${projectId}/duplicate`, { name }),
+    apiClient.post<{ project: Project }>(`/projects/${projectId}/duplicate`, { name }).then(({ project }) => project),
 
   shareProject: (projectId: string, options: { publicAccess: boolean; shareToken?: string }): Promise<{ shareUrl: string }> =>
     apiClient.post(`/projects/${projectId}/share`, options),
@@ -336,16 +549,18 @@ export const mediaAPI = {
     apiClient.get(`/media${projectId ? `?projectId=${projectId}` : ''}`),
 
   uploadMedia: (
-    file: File, 
-    projectId?: string, 
-    onProgress?: (progress: number) => void
+    file: File,
+    projectId: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
   ): Promise<MediaFile> =>
-    apiClient.uploadFile('/media/upload', file, projectId ? { projectId } : undefined, onProgress),
+    apiClient.uploadFile(file, { projectId, onProgress, signal }),
 
+  // 進捗はファイルごと（UploadProgress.key で区別する）
   uploadMultipleMedia: (
-    files: File[], 
-    projectId?: string, 
-    onProgress?: (progress: number) => void
+    files: File[],
+    projectId: string,
+    onProgress?: (progress: UploadProgress) => void
   ): Promise<MediaFile[]> => {
     const promises = files.map(file => 
       mediaAPI.uploadMedia(file, projectId, onProgress)
@@ -353,6 +568,11 @@ export const mediaAPI = {
     return Promise.all(promises);
   },
 
+  getPendingUploads: (projectId?: string): PendingUpload[] => getPendingUploads(projectId),
+
+  cancelUpload: (pending: PendingUpload): Promise<void> =>
+    apiClient.cancelUpload(pending),
+
   deleteMedia: (mediaId: string): Promise<void> =>
     apiClient.delete(`/media/${mediaId}`),
 
@@ -21,7 +21,8 @@ import {
   RegisterForm,
   ProjectForm,
   ExportForm,
-  PaginatedResponse
+  PaginatedResponse,
+  UploadProgress
 } from '@/types';
 
 // Query Keys (型安全な定数)
@@ -267,14 +268,36 @@ export const useMediaFiles = (
   });
 };
 
+/**
+ * メディアのアップロード（再開可能なチャンク送信）
+ * progress はファイルごとの進捗（UploadProgress.key で区別）。途中で止まったアップロードは
+ * 同じファイルを選び直すと続きから送られる。
+ */
 export const useUploadMedia = (options?: {
-  onProgress?: (progress: number) => void;
-  mutationOptions?: UseMutationOptions<MediaFile, APIError, { file: File; projectId?: string }>;
+  onProgress?: (progress: UploadProgress) => void;
+  mutationOptions?: UseMutationOptions<MediaFile, APIError, { file: File; projectId: string }>;
 }) => {
   const queryClient = useQueryClient();
-  
-  return useMutation<MediaFile, APIError, { file: File; projectId?: string }>({
-    mutationFn: ({ file, projectId }) => mediaAPI.uploadMedia(file, projectId, options?.onProgress),
+  const [progress, setProgress] = React.useState<Record<string, UploadProgress>>({});
+
+  const onProgress = options?.onProgress;
+  const handleProgress = React.useCallback((update: UploadProgress) => {
+    setProgress(previous => ({ ...previous, [update.key]: update }));
+    onProgress?.(update);
+  }, [onProgress]);
+
+  // 完了・失敗したファイルの進捗を消す
+  const clearProgress = React.useCallback((key?: string) => {
+    setProgress(previous => {
+      if (!key) return {};
+      const next = { ...previous };
+      delete next[key];
+      return next;
+    });
+  }, []);
+
+  const mutation = useMutation<MediaFile, APIError, { file: File; projectId: string }>({
+    mutationFn: ({ file, projectId }) => mediaAPI.uploadMedia(file, projectId, handleProgress),
     onSuccess: (newMedia, { projectId }) => {
       // メディアリストを無効化
       queryClient.invalidateQueries({ queryKey: queryKeys.mediaList(projectId) });
@@ -283,6 +306,8 @@ export const useUploadMedia = (options?: {
     onError: handleMutationError,
     ...(options?.mutationOptions as any),
   });
+
+  return { ...mutation, progress, clearProgress };
 };
 
 export const useDeleteMedia = (options?: UseMutationOptions<void, APIError, string>) => {
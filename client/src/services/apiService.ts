@@ -3,6 +3,8 @@
  * Handles all API communication with the backend
  */
 
+import type { PlanId } from '@entitlements';
+
 const API_BASE_URL =
   (import.meta as any).env?.VITE_API_URL ??
   (globalThis as any).process?.env?.REACT_APP_API_URL ??
@@ -33,7 +35,7 @@ interface User {
   name: string;
   email: string;
   avatar?: string;
-  plan: 'free' | 'light' | 'standard' | 'pro';
+  plan: PlanId;
   subscription: any;
   usage: any;
   preferences: any;
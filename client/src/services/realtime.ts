@@ -0,0 +1,150 @@
+import { WS_URL, STORAGE_KEYS } from '@/utils/constants';
+
+/**
+ * アプリ全体で共有する WebSocket 接続
+ * 購読者がいる間だけ接続し、切断されたら指数バックオフで再接続する。
+ * 認証トークンは接続 URL（?token=）で渡す。サーバーはトークンのない接続をハンドシェイクで拒否し、
+ * イベントはジョブ所有者・プロジェクト参加者のソケットにだけ送る
+ */
+
+// メッセージの型は購読側で指定する
+type Listener = (message: unknown) => void;
+type StatusListener = (connected: boolean) => void;
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+class RealtimeClient {
+  private ws: WebSocket | null = null;
+  private listeners: Map<string, Set<Listener>> = new Map();
+  private statusListeners: Set<StatusListener> = new Set();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private connected = false;
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * メッセージ type ごとの購読。戻り値で解除する
+   */
+  subscribe<T = unknown>(type: string, listener: (message: T) => void): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener as Listener);
+    this.ensureConnection();
+
+    return () => {
+      const listeners = this.listeners.get(type);
+      listeners?.delete(listener as Listener);
+      if (listeners && listeners.size === 0) this.listeners.delete(type);
+      this.releaseConnection();
+    };
+  }
+
+  /**
+   * 接続状態の購読（購読時に現在の状態を通知する）
+   */
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.connected);
+    this.ensureConnection();
+
+    return () => {
+      this.statusListeners.delete(listener);
+      this.releaseConnection();
+    };
+  }
+
+  send(type: string, data: Record<string, unknown> = {}): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type, ...data }));
+    }
+  }
+
+  private hasSubscribers(): boolean {
+    return this.listeners.size > 0 || this.statusListeners.size > 0;
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach(listener => listener(connected));
+  }
+
+  private ensureConnection() {
+    if (this.ws || this.reconnectTimer || typeof WebSocket === 'undefined') return;
+
+    // 未ログインの間は接続せず、ログインされるまで間隔を空けて確認する
+    const token = localStorage.getItem(STORAGE_KEYS.authToken);
+    if (!token) {
+      this.scheduleReconnect();
+      return;
+    }
+    const url = `${WS_URL}?token=${encodeURIComponent(token)}`;
+
+    try {
+      this.ws = new WebSocket(url);
+    } catch (error) {
+      console.error('WebSocket connection failed:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.ws.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setConnected(true);
+    };
+
+    this.ws.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        this.listeners.get(message.type)?.forEach(listener => listener(message));
+      } catch (error) {
+        console.error('Failed to parse WebSocket message:', error);
+      }
+    };
+
+    this.ws.onclose = () => {
+      this.ws = null;
+      this.setConnected(false);
+      this.scheduleReconnect();
+    };
+
+    // エラー後は必ず close が来るので、再接続は onclose に任せる
+    this.ws.onerror = () => {};
+  }
+
+  private scheduleReconnect() {
+    if (!this.hasSubscribers() || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.hasSubscribers()) this.ensureConnection();
+    }, delay);
+  }
+
+  // 購読者がいなくなったら切断する
+  private releaseConnection() {
+    if (this.hasSubscribers()) return;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.reconnectAttempts = 0;
+    this.setConnected(false);
+  }
+}
+
+export const realtimeClient = new RealtimeClient();
+export default realtimeClient;
@@ -1,10 +1,15 @@
+import type { TempoMap } from '@analysis';
+import { PLAN_IDS, type PlanId } from '@entitlements';
+import type { CollabRole, OperationError, TimelineOperation } from '@collab';
+import type { ExportContainer, ExportVideoCodec, ExportQuality, ExportSettings as ExportJobSettings, PlatformId, PlatformLimits, ReframeAnalysis, ReframeStrategy } from '@render';
+
 // ===== USER & AUTH TYPES =====
 export interface User {
   id: string;
   name: string;
   email: string;
   avatar?: string;
-  plan: 'free' | 'light' | 'standard' | 'pro';
+  plan: PlanId;
   subscription: {
     status: 'active' | 'cancelled' | 'expired' | 'past_due';
     currentPeriodEnd?: Date;
@@ -28,6 +33,7 @@ export interface User {
       push: boolean;
       marketing: boolean;
     };
+    keybindings?: KeybindingOverrides; // 既定から変更したキー割り当てだけ
   };
   createdAt: Date;
   lastLoginAt: Date;
@@ -47,12 +53,40 @@ export interface Notification {
 // ===== MEDIA TYPES =====
 export type MediaType = 'image' | 'video' | 'audio';
 
+// プレビューの画質。high は元ファイル、low / medium はサーバーが作るプロキシを使う
+export type PreviewQuality = 'low' | 'medium' | 'high';
+export type ProxyQuality = Exclude<PreviewQuality, 'high'>;
+
+// プレビュー用の縮小版（動画のプロキシ・画像の縮小）
+export interface MediaRendition {
+  url: string;
+  width: number;
+  height: number;
+  size?: number; // bytes
+}
+
+// タイムラインのフィルムストリップ用スプライトシート（動画のみ）
+// フレーム i は i * interval 秒の映像。左から右、上から下の順に並ぶ
+export interface MediaFilmstrip {
+  url: string;
+  interval: number; // seconds
+  frameCount: number;
+  columns: number;
+  rows: number;
+  frameWidth: number; // px
+  frameHeight: number; // px
+}
+
 export interface MediaFile {
   id: string;
   name: string;
   type: MediaType;
   url: string;
   thumbnail?: string;
+  proxies?: Partial<Record<ProxyQuality, MediaRendition>>;
+  filmstrip?: MediaFilmstrip;
+  // スマートリフレーム用の注目点の軌跡（サーバーが解析、動画・画像のみ）
+  reframe?: ReframeAnalysis;
   size: number; // bytes
   width?: number;
   height?: number;
@@ -68,15 +102,43 @@ export interface MediaFile {
   originalFile?: File;
 }
 
+// 再開可能なアップロード（/api/media/uploads）のサーバー側の状態
+export interface UploadSessionInfo {
+  uploadId: string;
+  projectId: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  chunkSize: number; // bytes（チャンク n は n * chunkSize から）
+  chunkCount: number;
+  receivedChunks: number[];
+  receivedBytes: number;
+  status: 'uploading' | 'completing' | 'completed';
+  mediaFileId: string | null;
+  expiresAt: string;
+}
+
 // ===== PROJECT & TIMELINE TYPES =====
 export type EffectType = 'pan_zoom' | 'fade_in' | 'fade_out' | 'blur' | 'color_grade' | 'custom' | 'brightness' | 'contrast' | 'saturation' | 'speed' | 'fade';
 
+export type EasingType = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bounce';
+
+export interface Keyframe {
+  id: string;
+  time: number; // seconds from the clip start
+  value: number;
+  easing: EasingType; // curve towards the next keyframe
+}
+
 export interface Effect {
   id: string;
   type: EffectType;
   parameters: {
     [key: string]: any;
   };
+  keyframes?: {
+    [parameter: string]: Keyframe[]; // overrides the static value in parameters
+  };
   enabled: boolean;
 }
 
@@ -90,14 +152,39 @@ export interface Transition {
   };
 }
 
+export type { ReframeStrategy };
+
+// リフレームの手動キーフレーム（注目点は素材サイズに対する割合）
+export interface ReframeKeyframe {
+  id: string;
+  time: number; // seconds from the clip start
+  x: number; // 0-1
+  y: number; // 0-1
+}
+
+export interface ClipReframe {
+  strategy?: ReframeStrategy; // 未指定ならプロジェクトの cropStrategy
+  keyframes?: ReframeKeyframe[]; // あればスマートの軌跡より優先
+}
+
+export interface ClipTransform {
+  x: number; // clip center, percentage of frame width
+  y: number; // clip center, percentage of frame height
+  scale: number; // 1 = fills the frame
+  opacity: number; // percentage
+}
+
 export interface TimelineClip {
   id: string;
-  mediaId: string;
+  mediaId: string; // テンプレートのスロットが未設定のあいだは空文字
+  slotId?: string; // テンプレートから作ったクリップのスロット
   startTime: number; // seconds
   duration: number; // seconds
   trimStart: number; // seconds
   trimEnd: number; // seconds
-  layer: number;
+  layer: number; // higher layers are drawn on top
+  transform?: ClipTransform;
+  reframe?: ClipReframe;
   effects?: Effect[];
   transitions?: {
     in?: Transition;
@@ -109,6 +196,7 @@ export interface AudioTrack {
   id: string;
   // メディア管理と未連携の場合もあるため任意
   mediaId?: string;
+  slotId?: string; // テンプレートの曲スロット
   // 表示/識別用
   name?: string;
   url?: string;
@@ -117,6 +205,7 @@ export interface AudioTrack {
   duration: number;
   volume: number; // 0-1
   muted?: boolean;
+  solo?: boolean; // ソロのトラックがあるときは、それ以外の音（動画の音声を含む）を鳴らさない
   // 解析情報
   bpm?: number;
   beats?: number[]; // beat timestamps
@@ -132,14 +221,16 @@ export interface Timeline {
   duration: number; // seconds
   zoom: number;
   playheadPosition: number;
+  template?: TimelineTemplate; // テンプレートから作ったプロジェクト・保存するテンプレート
 }
 
+// コンテナとコーデックの組み合わせは EXPORT_CONTAINERS（@render）で決まる
 export interface OutputFormat {
-  container: 'mp4' | 'mov' | 'avi' | 'webm';
-  videoCodec: 'h264' | 'h265' | 'vp9' | 'av1';
+  container: ExportContainer;
+  videoCodec: ExportVideoCodec;
   audioBitrate: number; // kbps
   videoBitrate: number; // kbps
-  quality: 'low' | 'medium' | 'high' | 'ultra';
+  quality: ExportQuality;
 }
 
 export type Resolution = '720p' | '1080p' | '4K' | '9:16' | '16:9' | '1:1' | '4:3' | 'custom';
@@ -149,6 +240,8 @@ export interface ProjectSettings {
   frameRate: 24 | 30 | 60;
   duration: number; // seconds
   outputFormat: OutputFormat;
+  // アスペクト比が違う素材の切り出し方（クリップごとに上書きできる）
+  cropStrategy?: ReframeStrategy;
 }
 
 export interface Project {
@@ -159,9 +252,10 @@ export interface Project {
   settings: ProjectSettings;
   timeline: Timeline;
   mediaLibrary: MediaFile[];
+  beatGrid?: BeatGrid;
   createdAt: Date;
   updatedAt: Date;
-  status?: 'draft' | 'in-progress' | 'completed';
+  status?: 'draft' | 'in-progress' | 'completed' | 'archived';
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
 }
 
@@ -188,17 +282,13 @@ export interface ExportJob {
   name: string;
   status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number; // 0-100
-  settings?: {
-    resolution?: Resolution | string;
-    frameRate?: 24 | 30 | 60;
-    quality?: 'low' | 'medium' | 'high' | 'ultra';
-    format?: 'mp4' | 'webm' | string;
-    includeAudio?: boolean;
-    name?: string;
-  };
+  // サーバーが補完・検証した設定（normalizeExportSettings）
+  settings?: Partial<ExportJobSettings> & { name?: string; platform?: PlatformLimits };
   processing?: {
     bossJobId?: string;
     currentStep?: string;
+    message?: string;
+    details?: Record<string, unknown>;
     startedAt?: string;
     error?: {
       message: string;
@@ -216,6 +306,12 @@ export interface ExportJob {
       bucket?: string;
       key?: string;
     };
+    // 一括エクスポートでサイズ上限に収めた結果
+    platform?: {
+      id: PlatformId;
+      videoBitrate: number; // kbps
+      reencodes: number;
+    };
     watermark?: {
       applied: boolean;
       preset: string;
@@ -224,6 +320,7 @@ export interface ExportJob {
   };
   watermarkSettings?: WatermarkSettings;
   metadata?: {
+    batch?: ExportJobBatch;
     [key: string]: any;
   };
   createdAt: Date;
@@ -233,20 +330,218 @@ export interface ExportJob {
   cancelledAt?: Date;
 }
 
+// WebSocket で届くエクスポートジョブのイベント（server/services/realtimeService.js）
+// 一括エクスポート（POST /api/export/batch/:projectId）で作られたジョブのつながり
+export interface ExportJobBatch {
+  id: string;
+  name: string;
+  platform: PlatformId;
+  index: number; // バッチ内の順番
+  platforms: PlatformId[];
+}
+
+export interface ExportBatchSkip {
+  platform: PlatformId;
+  code: string; // DURATION_TOO_LONG / DURATION_TOO_SHORT / RESOLUTION_NOT_ALLOWED
+  message: string;
+}
+
+export interface ExportJobProgressEvent {
+  type: 'export_job_progress';
+  jobId: string;
+  projectId?: string;
+  progress: number;
+  phase?: string; // ワーカーの処理段階
+  message?: string;
+  details?: Record<string, unknown>;
+  timestamp: string;
+}
+
+export interface ExportJobStatusEvent {
+  type: 'export_job_status';
+  jobId: string;
+  projectId?: string;
+  status: ExportJob['status'];
+  progress: number;
+  phase?: string;
+  message?: string;
+  output?: ExportJob['output'];
+  error?: NonNullable<ExportJob['processing']>['error'];
+  completedAt?: string;
+  failedAt?: string;
+  timestamp: string;
+}
+
+export type ExportJobEvent = ExportJobProgressEvent | ExportJobStatusEvent;
+
+// ===== COLLABORATION TYPES =====
+// タイムライン共同編集のイベント（server/services/collaborationService.js）
+export type { CollabRole, TimelineOperation };
+
+export interface CollabParticipant {
+  clientId: string; // 接続ごとの ID（同じユーザーの別タブも区別する）
+  userId: string;
+  name: string;
+  avatar?: string | null;
+  role: CollabRole;
+  selection: string[]; // 選択中のクリップ ID
+  playhead: number; // seconds
+}
+
+export interface CollabStateEvent {
+  type: 'collab_state';
+  projectId: string;
+  version: number;
+  timeline: Timeline;
+  role: CollabRole;
+  clientId: string;
+  participants: CollabParticipant[];
+}
+
+export interface CollabOperationEvent {
+  type: 'collab_op';
+  projectId: string;
+  version: number;
+  opId: string;
+  clientId: string;
+  userId: string;
+  op: TimelineOperation;
+}
+
+export interface CollabOperationRejectedEvent {
+  type: 'collab_op_rejected';
+  projectId: string;
+  opId: string;
+  reason: 'conflict' | 'stale' | 'read_only' | 'invalid_version' | 'invalid_timeline' | OperationError;
+  version: number;
+}
+
+export interface CollabPresenceEvent {
+  type: 'collab_presence';
+  projectId: string;
+  participants: CollabParticipant[];
+}
+
+export interface CollabErrorEvent {
+  type: 'collab_error';
+  projectId?: string;
+  message: string;
+}
+
 // ===== TEMPLATE TYPES =====
+// visual は動画・画像どちらでも埋められる
+export type TemplateSlotType = 'visual' | 'audio';
+
+export interface TemplateSlot {
+  id: string;
+  name: string; // 例: "メインクリップ", "曲"
+  type: TemplateSlotType;
+  mediaId?: string; // プロジェクトで埋めたメディア（テンプレート自体には持たない）
+}
+
+// 保存時の曲に対する拍位置（0 = 最初の拍）。曲を差し替えると新しい曲の拍に合わせ直す
+export interface TemplateClipBeats {
+  start: number;
+  end: number;
+}
+
+export interface TimelineTemplate {
+  templateId?: string;
+  slots: TemplateSlot[];
+  tempo?: { bpm: number; beatsPerBar: number }; // 保存時の曲のテンポ
+  clipBeats: Record<string, TemplateClipBeats>; // clip id ごと
+}
+
+export interface TemplateProjectData {
+  settings: ProjectSettings;
+  timeline: Timeline;
+  beatGrid?: BeatGrid;
+}
+
 export interface Template {
   id: string;
   name: string;
-  description: string;
-  thumbnail: string;
+  description?: string | null;
+  thumbnail?: string | null;
   category: string;
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   duration: number;
   tags: string[];
   uses: number;
   rating?: number;
-  premium: boolean;
-  projectData: Partial<Project>;
+  isPublic: boolean;
+  owned: boolean; // 自分のテンプレートか
+  slots: TemplateSlot[];
+  projectData?: TemplateProjectData; // 一覧では省略される
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ===== COMMAND & KEYBINDING TYPES =====
+// キー操作が効く範囲。global はエディタ全体、timeline / preview は最後に操作した領域だけ
+export type CommandScope = 'global' | 'timeline' | 'preview';
+
+export type CommandCategory = 'app' | 'playback' | 'edit' | 'view' | 'snap' | 'navigation' | 'preview';
+
+export type CommandId =
+  | 'app.commandPalette'
+  | 'app.keybindings'
+  | 'file.export'
+  | 'playback.togglePlay'
+  | 'playback.goToStart'
+  | 'playback.goToEnd'
+  | 'playback.stepBackward'
+  | 'playback.stepForward'
+  | 'playback.jumpBackward'
+  | 'playback.jumpForward'
+  | 'edit.undo'
+  | 'edit.redo'
+  | 'edit.copy'
+  | 'edit.paste'
+  | 'edit.split'
+  | 'edit.delete'
+  | 'edit.rippleDelete'
+  | 'edit.nudgeLeft'
+  | 'edit.nudgeRight'
+  | 'view.zoomIn'
+  | 'view.zoomOut'
+  | 'view.zoomReset'
+  | 'view.scrollToStart'
+  | 'view.scrollToEnd'
+  | 'snap.toggle'
+  | 'snap.toggleMagnetic'
+  | 'snap.presetStrict'
+  | 'snap.presetMedium'
+  | 'snap.presetLoose'
+  | 'snap.off'
+  | 'navigation.focusNext'
+  | 'navigation.focusPrevious'
+  | 'navigation.focusUp'
+  | 'navigation.focusDown'
+  | 'navigation.focusLeft'
+  | 'navigation.focusRight'
+  | 'navigation.focusFirst'
+  | 'navigation.focusLast'
+  | 'navigation.help'
+  | 'preview.toggleFullscreen'
+  | 'preview.toggleSafeArea'
+  | 'preview.toggleReframe';
+
+export interface EditorCommand {
+  id: CommandId;
+  title: string;
+  category: CommandCategory;
+  scope: CommandScope;
+  defaultKeys: string[]; // "Ctrl+Shift+Z" 形式。Ctrl は Mac の Cmd も含む
+  allowInInput?: boolean; // テキスト入力中でも実行する
+}
+
+// コマンド ID → キー（空配列は割り当てなし）。既定のままのコマンドは含めない
+export type KeybindingOverrides = Partial<Record<CommandId, string[]>>;
+
+export interface KeybindingConflict {
+  key: string;
+  commandIds: CommandId[];
 }
 
 // ===== TUTORIAL TYPES =====
@@ -330,6 +625,8 @@ export interface TimelineProps {
   onClipSelect: (clip: TimelineClip) => void;
   onTimelineUpdate: (timeline: Timeline) => void;
   onPlayheadChange?: (position: number) => void;
+  // クリップにフィルムストリップを描くためのメディア
+  mediaLibrary?: MediaFile[];
 }
 
 export interface PreviewProps {
@@ -379,6 +676,7 @@ export interface UserContextType {
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   updateUser: (updates: Partial<User>) => Promise<void>;
+  updatePreferences: (preferences: Partial<User['preferences']>) => Promise<void>;
   upgradePlan: (plan: string) => Promise<void>;
   markNotificationAsRead: (notificationId: string) => Promise<void>;
   clearAllNotifications: () => Promise<void>;
@@ -399,10 +697,17 @@ export interface AsyncState<T> {
   error: string | null;
 }
 
+// ファイルごとのアップロード進捗
 export interface UploadProgress {
-  loaded: number;
-  total: number;
-  percentage: number;
+  key: string; // ファイルとプロジェクトから作る識別子（再開の照合にも使う）
+  fileName: string;
+  uploadId: string | null;
+  loaded: number; // bytes
+  total: number; // bytes
+  percentage: number; // 0-100
+  status: 'pending' | 'uploading' | 'completing' | 'completed' | 'error';
+  resumed: boolean; // 以前のアップロードの続きから再開した
+  error?: string;
 }
 
 // ===== FORM TYPES =====
@@ -473,6 +778,7 @@ export interface BPMAnalysis {
     numerator: number; // 4/4 の 4
     denominator: number; // 4/4 の 4
   };
+  tempoMap?: TempoMap; // テンポ変化を含む拍・小節の位置（スナップやグリッドはこちらを優先）
 }
 
 export interface FrequencyBand {
@@ -565,12 +871,18 @@ export interface FrequencyTrigger {
   cooldown: number; // 再トリガーまでの最小時間（秒）
 }
 
+export interface FrequencyTriggerEvent {
+  triggerId: string;
+  time: number; // 音声トラック先頭からの秒数
+  intensity: number; // 発火時の帯域エネルギー (0-1)
+}
+
 export interface FrequencyEffect {
   id: string;
   type: 'flash' | 'zoom' | 'color_shift' | 'blur' | 'particle' | 'shake';
   intensity: number; // 0-1
   duration: number; // 秒
-  easing: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bounce';
+  easing: EasingType;
 }
 
 // ===== SNS PRESET TYPES =====
@@ -615,11 +927,39 @@ export interface AudioTrackEnhanced extends AudioTrack {
   bpmAnalysis?: BPMAnalysis;
   audioAnalysis?: AudioAnalysis;
   frequencyTriggers?: FrequencyTrigger[];
+  triggerEvents?: FrequencyTriggerEvent[]; // オフライン解析で焼き込んだ発火イベント
   beatGrid?: BeatGrid;
   waveformData?: Float32Array; // 波形表示用データ
   spectrogramData?: number[][]; // スペクトログラム表示用データ
 }
 
+// ===== LOCAL AUDIO ANALYSIS (Web Worker) =====
+export interface BandEnergyTrack {
+  name: string; // FREQUENCY_BANDS のキー
+  range: [number, number]; // Hz
+  energies: Float32Array; // フレームごとの帯域エネルギー（0-1）
+}
+
+export interface LocalAudioAnalysis {
+  mediaId: string;
+  duration: number; // 秒
+  sampleRate: number;
+  bpmAnalysis: BPMAnalysis;
+  frameRate: number; // bandEnergies のフレーム数（毎秒）
+  bandEnergies: BandEnergyTrack[];
+  waveformPeaks: Float32Array; // [max, min, max, min, ...]
+  spectrogram: number[][]; // [フレーム][周波数ビン] 0-1
+  spectrogramFrameRate: number;
+  analyzedAt: string;
+}
+
+export type AudioAnalysisStage = 'decoding' | 'beats' | 'spectrum' | 'waveform';
+
+export interface AudioAnalysisProgress {
+  stage: AudioAnalysisStage;
+  progress: number; // 全体の進捗 0-1
+}
+
 // ===== ENHANCED TIMELINE =====
 export interface TimelineEnhanced extends Timeline {
   audioTracks: AudioTrackEnhanced[];
@@ -688,6 +1028,7 @@ export interface FrequencyAnalyzerProps {
   onAnalysisUpdate: (analysis: AudioAnalysis) => void;
   triggers: FrequencyTrigger[];
   onTriggerFired: (triggerId: string, intensity: number) => void;
+  onTriggersBaked?: (events: FrequencyTriggerEvent[]) => void;
   realTime?: boolean;
 }
 
@@ -699,7 +1040,7 @@ export interface SNSOptimizerProps {
 }
 
 export interface EditRecipesPanelProps {
-  recipes: EditRecipe[];
+  recipes?: EditRecipe[];
   selectedClip: TimelineClip | null;
   bpmAnalysis?: BPMAnalysis;
   onRecipeApply: (recipe: EditRecipe, clip: TimelineClip) => void;
@@ -707,7 +1048,7 @@ export interface EditRecipesPanelProps {
 }
 
 // ===== EXPORT CONSTANTS =====
-export const PLAN_TYPES = ['free', 'light', 'standard', 'pro'] as const;
+export const PLAN_TYPES = PLAN_IDS;
 export const MEDIA_TYPES = ['image', 'video', 'audio'] as const;
 export const EXPORT_STATUSES = ['queued', 'processing', 'completed', 'failed', 'cancelled'] as const;
 export const WATERMARK_PRESETS = ['minimal', 'branded', 'corner', 'center'] as const;
@@ -1,5 +1,5 @@
 import { API_BASE_URL, STORAGE_KEYS } from './constants';
-import type { APIResponse } from '@/types';
+import type { APIResponse, Project, Template, TemplateProjectData, TemplateSlot } from '@/types';
 
 class ApiError extends Error {
   status?: number;
@@ -246,6 +246,13 @@ export const mediaAPI = {
 export const exportAPI = {
   create: (projectId: string, settings: any, name?: string) =>
     api.post(`/export/${projectId}`, { settings, name }),
+
+  // SNSプラットフォームごとに1ジョブずつ作成（PLATFORM_PRESETS の id）
+  createBatch: (projectId: string, platforms: string[], name?: string) =>
+    api.post(`/export/batch/${projectId}`, { platforms, name }),
+
+  getBatch: (batchId: string) =>
+    api.get(`/export/batch/${batchId}`),
   
   getJobs: (params?: any) =>
     api.get(`/export/jobs${params ? '?' + new URLSearchParams(params) : ''}`),
@@ -272,6 +279,31 @@ export const exportAPI = {
     api.get('/export/queue')
 };
 
+// Templates API
+type TemplateDetails = Partial<Pick<Template, 'name' | 'description' | 'category' | 'difficulty' | 'tags' | 'isPublic'>>;
+
+export const templatesAPI = {
+  getAll: (params?: Record<string, string>) =>
+    api.get<{ templates: Template[] }>(`/templates${params ? '?' + new URLSearchParams(params) : ''}`),
+
+  getById: (id: string) =>
+    api.get<{ template: Template }>(`/templates/${id}`),
+
+  // createTemplateFromProject で作ったスロットとプロジェクトデータを送る
+  create: (data: TemplateDetails & { slots: TemplateSlot[]; projectData: TemplateProjectData }) =>
+    api.post<{ template: Template }>('/templates', data),
+
+  update: (id: string, data: TemplateDetails & { slots?: TemplateSlot[] }) =>
+    api.put<{ template: Template }>(`/templates/${id}`, data),
+
+  delete: (id: string) =>
+    api.delete(`/templates/${id}`),
+
+  // スロットは未設定のまま作られ、エディタで埋める
+  createProject: (id: string, name?: string) =>
+    api.post<{ project: Project }>(`/templates/${id}/create-project`, name ? { name } : {})
+};
+
 // Users API
 export const usersAPI = {
   getProfile: () =>
@@ -0,0 +1,228 @@
+import type {
+  AudioAnalysisProgress,
+  FrequencyTrigger,
+  FrequencyTriggerEvent,
+  LocalAudioAnalysis,
+  MediaFile
+} from '@/types';
+
+/**
+ * 音声解析の Web Worker クライアント
+ * デコードだけはメインスレッド（decodeAudioData は Worker で使えない）で行い、
+ * ビート検出・帯域エネルギー・波形・スペクトログラム・周波数トリガーの検出は Worker で計算する。
+ * 解析結果は MediaFile.id ごとにキャッシュする
+ */
+
+// ===== Worker とのメッセージ =====
+export type AudioAnalysisRequest =
+  | {
+      task: 'analyze';
+      mediaId: string;
+      sampleRate: number;
+      duration: number;
+      channels: Float32Array[];
+      waveformWidth: number;
+    }
+  | {
+      task: 'triggers';
+      sampleRate: number;
+      channels: Float32Array[];
+      triggers: FrequencyTrigger[];
+    };
+
+// タスクごとの結果
+export interface AudioAnalysisResults {
+  analyze: LocalAudioAnalysis;
+  triggers: FrequencyTriggerEvent[];
+}
+
+export type AudioAnalysisTask = AudioAnalysisRequest['task'];
+
+export type AudioAnalysisWorkerMessage<K extends AudioAnalysisTask = AudioAnalysisTask> =
+  | { type: 'progress'; progress: AudioAnalysisProgress }
+  | { type: 'result'; result: AudioAnalysisResults[K] }
+  | { type: 'error'; message: string };
+
+export interface AnalyzeAudioOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AudioAnalysisProgress) => void;
+  waveformWidth?: number; // 波形のピーク数（max/min のペア数）
+}
+
+const DEFAULT_WAVEFORM_WIDTH = 1000;
+
+const analysisCache = new Map<string, LocalAudioAnalysis>();
+
+export function getCachedAudioAnalysis(mediaId: string): LocalAudioAnalysis | undefined {
+  return analysisCache.get(mediaId);
+}
+
+export function clearAudioAnalysisCache(mediaId?: string): void {
+  if (mediaId) {
+    analysisCache.delete(mediaId);
+  } else {
+    analysisCache.clear();
+  }
+}
+
+function createAbortError(): Error {
+  return new DOMException('音声解析がキャンセルされました', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// デコード用の AudioContext は1つを使い回す
+let decodingContext: AudioContext | null = null;
+
+function getDecodingContext(): AudioContext {
+  if (!decodingContext || decodingContext.state === 'closed') {
+    const webkitWindow = window as typeof window & { webkitAudioContext?: typeof AudioContext };
+    decodingContext = new (window.AudioContext || webkitWindow.webkitAudioContext)();
+  }
+  return decodingContext;
+}
+
+/**
+ * MediaFile / File / URL を AudioBuffer にデコード
+ */
+export async function decodeAudio(source: MediaFile | Blob | string, signal?: AbortSignal): Promise<AudioBuffer> {
+  let arrayBuffer: ArrayBuffer;
+
+  if (source instanceof Blob) {
+    arrayBuffer = await source.arrayBuffer();
+  } else if (typeof source !== 'string' && source.originalFile) {
+    arrayBuffer = await source.originalFile.arrayBuffer();
+  } else {
+    const url = typeof source === 'string' ? source : source.url;
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`音声ファイルの読み込みに失敗しました (${response.status})`);
+    }
+    arrayBuffer = await response.arrayBuffer();
+  }
+
+  if (signal?.aborted) throw createAbortError();
+
+  try {
+    return await getDecodingContext().decodeAudioData(arrayBuffer);
+  } catch {
+    throw new Error('音声データのデコードに失敗しました。対応しているフォーマットかご確認ください。');
+  }
+}
+
+// チャンネルデータはコピーして転送する（AudioBuffer 側は再生にも使うため）
+function copyChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+    channels.push(audioBuffer.getChannelData(i).slice());
+  }
+  return channels;
+}
+
+/**
+ * 1件のリクエストを専用の Worker で実行する。中断時は Worker ごと終了させる
+ */
+function runAnalysisWorker<K extends AudioAnalysisTask>(
+  request: Extract<AudioAnalysisRequest, { task: K }>,
+  { signal, onProgress }: AnalyzeAudioOptions
+): Promise<AudioAnalysisResults[K]> {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../../workers/audioAnalysis.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<AudioAnalysisWorkerMessage<K>>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'result':
+          finish();
+          resolve(message.result);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || '音声解析ワーカーでエラーが発生しました'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage(request, request.channels.map(channel => channel.buffer));
+  });
+}
+
+/**
+ * デコード済みの音声を Worker で解析する
+ */
+export async function analyzeAudioBuffer(
+  mediaId: string,
+  audioBuffer: AudioBuffer,
+  options: AnalyzeAudioOptions = {}
+): Promise<LocalAudioAnalysis> {
+  const cached = analysisCache.get(mediaId);
+  if (cached) return cached;
+
+  const result = await runAnalysisWorker({
+    task: 'analyze',
+    mediaId,
+    sampleRate: audioBuffer.sampleRate,
+    duration: audioBuffer.duration,
+    channels: copyChannels(audioBuffer),
+    waveformWidth: options.waveformWidth || DEFAULT_WAVEFORM_WIDTH
+  }, options);
+
+  analysisCache.set(mediaId, result);
+  return result;
+}
+
+/**
+ * 周波数トリガーの発火イベントを Worker で検出する（トリガー設定が変わるためキャッシュしない）
+ */
+export function detectTriggerEventsInWorker(
+  audioBuffer: AudioBuffer,
+  triggers: FrequencyTrigger[],
+  options: AnalyzeAudioOptions = {}
+): Promise<FrequencyTriggerEvent[]> {
+  return runAnalysisWorker({
+    task: 'triggers',
+    sampleRate: audioBuffer.sampleRate,
+    channels: copyChannels(audioBuffer),
+    triggers
+  }, options);
+}
+
+/**
+ * MediaFile をデコードして解析する（キャッシュがあればそれを返す）
+ */
+export async function analyzeMediaFile(
+  mediaFile: MediaFile,
+  options: AnalyzeAudioOptions = {}
+): Promise<LocalAudioAnalysis> {
+  const cached = analysisCache.get(mediaFile.id);
+  if (cached) return cached;
+
+  options.onProgress?.({ stage: 'decoding', progress: 0 });
+  const audioBuffer = await decodeAudio(mediaFile, options.signal);
+  if (options.signal?.aborted) throw createAbortError();
+
+  return analyzeAudioBuffer(mediaFile.id, audioBuffer, options);
+}
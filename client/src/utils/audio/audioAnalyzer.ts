@@ -1,69 +1,26 @@
 import type { AudioTrackEnhanced, BPMAnalysis } from '@/types';
+import { analyzeAudioBuffer, decodeAudio, type AnalyzeAudioOptions } from './audioAnalysisClient';
 
 /**
  * 音声ファイルの解析と BPM 検出を行うユーティリティクラス
+ * デコードは共有の AudioContext、解析は Web Worker（audioAnalysisClient）で行う
  */
 export class AudioAnalyzer {
-  private audioContext: AudioContext;
-  
-  constructor() {
-    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  }
-
   /**
    * 音声ファイルを読み込んで AudioBuffer に変換
    */
   async loadAudioFile(file: File | string): Promise<AudioBuffer> {
-    let arrayBuffer: ArrayBuffer;
-    
-    if (typeof file === 'string') {
-      // URL から読み込み
-      const response = await fetch(file);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch audio file: ${response.statusText}`);
-      }
-      arrayBuffer = await response.arrayBuffer();
-    } else {
-      // File オブジェクトから読み込み
-      arrayBuffer = await file.arrayBuffer();
-    }
-    
-    try {
-      return await this.audioContext.decodeAudioData(arrayBuffer);
-    } catch (error) {
-      throw new Error('Failed to decode audio data');
-    }
+    return decodeAudio(file);
   }
 
   /**
    * BPM を検出する
+   * @param cacheKey - 解析結果のキャッシュキー（MediaFile.id など）
    */
-  async detectBPM(audioBuffer: AudioBuffer): Promise<BPMAnalysis> {
-    const channelData = audioBuffer.getChannelData(0);
-    const sampleRate = audioBuffer.sampleRate;
-    
-    // 低域フィルターを適用してビートを抽出
-    const filteredData = this.lowPassFilter(channelData, sampleRate, 200);
-    
-    // エネルギーベースのオンセット検出
-    const onsets = this.detectOnsets(filteredData, sampleRate);
-    
-    // BPM を計算
-    const bpm = this.calculateBPM(onsets);
-    
-    // ビートタイムを生成
-    const beatTimes = this.generateBeatTimes(bpm, audioBuffer.duration);
-    
-    // 小節を計算（4/4 拍子を仮定）
-    const bars = this.generateBars(beatTimes, 4);
-    
-    return {
-      bpm,
-      confidence: Math.min(0.95, Math.max(0.3, onsets.length / (audioBuffer.duration * 2))),
-      beatTimes,
-      bars,
-      timeSignature: { numerator: 4, denominator: 4 }
-    };
+  async detectBPM(audioBuffer: AudioBuffer, cacheKey?: string, options?: AnalyzeAudioOptions): Promise<BPMAnalysis> {
+    const key = cacheKey || `buffer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const analysis = await analyzeAudioBuffer(key, audioBuffer, options);
+    return analysis.bpmAnalysis;
   }
 
   /**
@@ -107,10 +64,11 @@ export class AudioAnalyzer {
   async createAudioTrack(
     file: File, 
     name?: string,
-    startTime: number = 0
+    startTime: number = 0,
+    options?: AnalyzeAudioOptions
   ): Promise<AudioTrackEnhanced> {
     const audioBuffer = await this.loadAudioFile(file);
-    const bpmAnalysis = await this.detectBPM(audioBuffer);
+    const analysis = await analyzeAudioBuffer(getFileCacheKey(file), audioBuffer, options);
     
     // ファイルを Blob URL に変換
     const url = URL.createObjectURL(file);
@@ -123,140 +81,25 @@ export class AudioAnalyzer {
       duration: audioBuffer.duration,
       volume: 1.0,
       muted: false,
-      bpm: bpmAnalysis.bpm,
-      beats: bpmAnalysis.beatTimes,
-      bars: bpmAnalysis.bars,
-      bpmAnalysis,
-      waveformData: this.generateWaveformData(audioBuffer, 1000).peaks, // Float32Array 型
-      analyzedAt: new Date().toISOString()
+      bpm: analysis.bpmAnalysis.bpm,
+      beats: analysis.bpmAnalysis.beatTimes,
+      bars: analysis.bpmAnalysis.bars,
+      bpmAnalysis: analysis.bpmAnalysis,
+      waveformData: analysis.waveformPeaks, // Float32Array 型
+      spectrogramData: analysis.spectrogram,
+      analyzedAt: analysis.analyzedAt
     };
   }
 
   /**
-   * 低域通過フィルター
+   * リソースをクリーンアップ（AudioContext は共有のため何もしない）
    */
-  private lowPassFilter(data: Float32Array, sampleRate: number, cutoff: number): Float32Array {
-    const rc = 1.0 / (cutoff * 2 * Math.PI);
-    const dt = 1.0 / sampleRate;
-    const alpha = dt / (rc + dt);
-    
-    const filtered = new Float32Array(data.length);
-    filtered[0] = data[0];
-    
-    for (let i = 1; i < data.length; i++) {
-      filtered[i] = filtered[i - 1] + alpha * (data[i] - filtered[i - 1]);
-    }
-    
-    return filtered;
-  }
-
-  /**
-   * オンセット検出
-   */
-  private detectOnsets(data: Float32Array, sampleRate: number): number[] {
-    const hopSize = Math.floor(sampleRate * 0.01); // 10ms のホップサイズ
-    const windowSize = hopSize * 4;
-    const onsets: number[] = [];
-    
-    let prevEnergy = 0;
-    
-    for (let i = windowSize; i < data.length - windowSize; i += hopSize) {
-      // 現在のウィンドウのエネルギーを計算
-      let energy = 0;
-      for (let j = i - windowSize / 2; j < i + windowSize / 2; j++) {
-        energy += data[j] * data[j];
-      }
-      energy /= windowSize;
-      
-      // エネルギーの急激な増加を検出
-      const energyDiff = energy - prevEnergy;
-      const threshold = prevEnergy * 0.3; // 30% の増加をオンセットとする
-      
-      if (energyDiff > threshold && energy > 0.01) {
-        const time = i / sampleRate;
-        onsets.push(time);
-      }
-      
-      prevEnergy = energy;
-    }
-    
-    return onsets;
-  }
-
-  /**
-   * BPM を計算
-   */
-  private calculateBPM(onsets: number[]): number {
-    if (onsets.length < 4) {
-      // デフォルト BPM
-      return 120;
-    }
-    
-    // オンセット間の間隔を計算
-    const intervals: number[] = [];
-    for (let i = 1; i < onsets.length; i++) {
-      intervals.push(onsets[i] - onsets[i - 1]);
-    }
-    
-    // 最も一般的な間隔を見つける（簡易実装）
-    intervals.sort((a, b) => a - b);
-    const medianInterval = intervals[Math.floor(intervals.length / 2)];
-    
-    // BPM に変換
-    const bpm = Math.round(60 / medianInterval);
-    
-    // 現実的な範囲に制限
-    return Math.max(60, Math.min(200, bpm));
-  }
-
-  /**
-   * ビートタイムを生成
-   */
-  private generateBeatTimes(bpm: number, duration: number): number[] {
-    const beatInterval = 60 / bpm;
-    const beatTimes: number[] = [];
-    
-    for (let time = 0; time < duration; time += beatInterval) {
-      beatTimes.push(time);
-    }
-    
-    return beatTimes;
-  }
-
-  /**
-   * 小節を生成
-   */
-  private generateBars(beatTimes: number[], beatsPerBar: number): number[] {
-    const bars: number[] = [];
-    
-    for (let i = 0; i < beatTimes.length; i += beatsPerBar) {
-      if (beatTimes[i] !== undefined) {
-        bars.push(beatTimes[i]);
-      }
-    }
-    
-    return bars;
-  }
-
-  /**
-   * エネルギーレベルを計算
-   */
-  private calculateEnergy(data: Float32Array): number {
-    let sum = 0;
-    for (let i = 0; i < data.length; i++) {
-      sum += data[i] * data[i];
-    }
-    return Math.sqrt(sum / data.length);
-  }
+  dispose(): void {}
+}
 
-  /**
-   * リソースをクリーンアップ
-   */
-  dispose(): void {
-    if (this.audioContext.state !== 'closed') {
-      this.audioContext.close();
-    }
-  }
+// 同じファイルを再度追加したときに解析結果を再利用する
+function getFileCacheKey(file: File): string {
+  return `file:${file.name}:${file.size}:${file.lastModified}`;
 }
 
 /**
@@ -265,11 +108,12 @@ export class AudioAnalyzer {
 export async function createAudioTrackFromFile(
   file: File,
   name?: string,
-  startTime?: number
+  startTime?: number,
+  options?: AnalyzeAudioOptions
 ): Promise<AudioTrackEnhanced> {
   const analyzer = new AudioAnalyzer();
   try {
-    return await analyzer.createAudioTrack(file, name, startTime);
+    return await analyzer.createAudioTrack(file, name, startTime, options);
   } finally {
     analyzer.dispose();
   }
@@ -278,11 +122,12 @@ export async function createAudioTrackFromFile(
 /**
  * 音声ファイルの BPM のみを検出するヘルパー関数
  */
-export async function detectAudioBPM(file: File | string): Promise<BPMAnalysis> {
+export async function detectAudioBPM(file: File | string, options?: AnalyzeAudioOptions): Promise<BPMAnalysis> {
   const analyzer = new AudioAnalyzer();
   try {
     const audioBuffer = await analyzer.loadAudioFile(file);
-    return await analyzer.detectBPM(audioBuffer);
+    const cacheKey = typeof file === 'string' ? `url:${file}` : getFileCacheKey(file);
+    return await analyzer.detectBPM(audioBuffer, cacheKey, options);
   } finally {
     analyzer.dispose();
   }
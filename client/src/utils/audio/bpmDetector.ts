@@ -1,8 +1,23 @@
 import { BPMAnalysis, AudioAnalysis, FrequencyBand, FREQUENCY_BANDS } from '../../types';
+import { mixToMono, trackBeats, type BeatTrackingResult } from '@analysis';
 
 /**
- * 軽量版BPM検出クラス - ブラウザ環境向けに最適化
- * 実用的な精度と高速処理のバランスを重視
+ * ビートトラッカーの結果を BPMAnalysis に変換（Web Worker の解析結果でも使う）
+ */
+export function toBPMAnalysis({ tempoMap, confidence }: BeatTrackingResult): BPMAnalysis {
+  return {
+    bpm: Math.round(tempoMap.bpm),
+    confidence,
+    beatTimes: tempoMap.beats,
+    bars: tempoMap.downbeats,
+    timeSignature: tempoMap.timeSignature,
+    tempoMap
+  };
+}
+
+/**
+ * BPM検出クラス - ブラウザ環境向け
+ * ビート解析は @analysis（サーバーと共通）、周波数解析は軽量版
  */
 export class BPMDetector {
   private audioContext: AudioContext;
@@ -20,222 +35,36 @@ export class BPMDetector {
   }
 
   /**
-   * 軽量版BPM検出 - 高速で実用的
+   * ビート解析 - テンポ変化・ダウンビート・拍子まで検出
    * @param audioBuffer - Web Audio APIのAudioBuffer
    * @returns BPM解析結果
    */
   async detectBPM(audioBuffer: AudioBuffer): Promise<BPMAnalysis> {
     try {
-      console.log('🎵 軽量版BPM検出を開始します');
-      
-      // オーディオデータの取得（軽量化）
-      const channelData = audioBuffer.getChannelData(0);
-      const duration = audioBuffer.duration;
-      
-      console.log(`📊 音声データ: ${duration.toFixed(1)}秒, ${channelData.length}サンプル`);
-      
-      // ステップ1: 高速ビート検出（エネルギーベース）
-      const beats = this.detectBeatsLightweight(channelData, this.sampleRate);
-      console.log(`🥁 ビート検出: ${beats.length}個`);
-      
-      // ステップ2: BPM計算（シンプルな統計手法）
-      const bpm = this.calculateBPMFast(beats, duration);
-      console.log(`🎶 BPM算出: ${bpm}`);
-      
-      // ステップ3: 信頼度計算（軽量版）
-      const confidence = this.calculateConfidenceFast(beats, bpm);
-      console.log(`✨ 信頼度: ${(confidence * 100).toFixed(1)}%`);
-      
-      // ステップ4: 小節計算
-      const bars = this.calculateBarsSimple(beats, bpm);
-      
-      const result: BPMAnalysis = {
-        bpm: Math.round(bpm),
-        confidence: confidence,
-        beatTimes: beats,
-        bars: bars,
-        timeSignature: {
-          numerator: 4,
-          denominator: 4
-        }
-      };
-      
-      console.log(`✅ 軽量版BPM検出完了: ${result.bpm} BPM (信頼度: ${(confidence * 100).toFixed(1)}%)`);
-      
-      return result;
-    } catch (error) {
-      console.error('❌ BPM検出エラー:', error);
-      throw error;
-    }
-  }
+      console.log('🎵 ビート解析を開始します');
 
-  /**
-   * 軽量版ビート検出 - エネルギーベース
-   * @param channelData - 音声データ
-   * @param sampleRate - サンプリングレート
-   * @returns ビートタイムスタンプ配列
-   */
-  private detectBeatsLightweight(channelData: Float32Array, sampleRate: number): number[] {
-    const beats: number[] = [];
-    const windowSize = 2048; // 軽量化
-    const hopSize = 1024;
-    const threshold = 0.7; // 適度な閾値
-    
-    console.log('📈 エネルギーベースビート検出を開始');
-    
-    // エネルギー計算（ダウンサンプリング）
-    const energies: number[] = [];
-    for (let i = 0; i < channelData.length - windowSize; i += hopSize) {
-      let energy = 0;
-      for (let j = i; j < i + windowSize && j < channelData.length; j++) {
-        energy += channelData[j] * channelData[j];
-      }
-      energies.push(energy / windowSize);
-    }
-    
-    // 適応的閾値でピーク検出
-    const windowLength = Math.min(20, energies.length); // 適応ウィンドウ
-    
-    for (let i = windowLength; i < energies.length - windowLength; i++) {
-      const current = energies[i];
-      
-      // ローカル平均計算
-      let localAvg = 0;
-      for (let j = i - windowLength; j < i + windowLength; j++) {
-        localAvg += energies[j];
-      }
-      localAvg /= (windowLength * 2);
-      
-      // ピーク検出
-      const isLocalMax = current > energies[i - 1] && current > energies[i + 1];
-      const isAboveThreshold = current > localAvg * threshold;
-      
-      if (isLocalMax && isAboveThreshold) {
-        const timeStamp = (i * hopSize) / sampleRate;
-        beats.push(timeStamp);
+      // 全チャンネルをモノラルにまとめる
+      const channels: Float32Array[] = [];
+      for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+        channels.push(audioBuffer.getChannelData(i));
       }
-    }
-    
-    // 近接ビートの統合（最小間隔 0.1秒）
-    return this.mergeCloseBeats(beats, 0.1);
-  }
+      const samples = mixToMono(channels);
 
-  /**
-   * 高速BPM計算
-   * @param beats - ビート配列
-   * @param duration - 楽曲長
-   * @returns BPM値
-   */
-  private calculateBPMFast(beats: number[], duration: number): number {
-    if (beats.length < 4) {
-      return 120; // デフォルト値
-    }
-    
-    // 間隔計算
-    const intervals: number[] = [];
-    for (let i = 1; i < beats.length; i++) {
-      const interval = beats[i] - beats[i - 1];
-      if (interval > 0.3 && interval < 2.0) { // 30-200 BPMの範囲
-        intervals.push(interval);
-      }
-    }
-    
-    if (intervals.length === 0) {
-      return 120;
-    }
-    
-    // 中央値を使用（外れ値に強い）
-    intervals.sort((a, b) => a - b);
-    const medianInterval = intervals[Math.floor(intervals.length / 2)];
-    
-    // BPMに変換
-    let bpm = 60 / medianInterval;
-    
-    // 一般的な範囲に正規化
-    while (bpm < 70) bpm *= 2;
-    while (bpm > 180) bpm /= 2;
-    
-    return bpm;
-  }
+      console.log(`📊 音声データ: ${audioBuffer.duration.toFixed(1)}秒, ${samples.length}サンプル`);
 
-  /**
-   * 高速信頼度計算
-   * @param beats - ビート配列
-   * @param bpm - 検出BPM
-   * @returns 信頼度 (0-1)
-   */
-  private calculateConfidenceFast(beats: number[], bpm: number): number {
-    if (beats.length < 4) {
-      return 0.3;
-    }
-    
-    const expectedInterval = 60 / bpm;
-    let consistentBeats = 0;
-    const tolerance = expectedInterval * 0.15; // 15%の許容誤差
-    
-    for (let i = 1; i < beats.length; i++) {
-      const actualInterval = beats[i] - beats[i - 1];
-      if (Math.abs(actualInterval - expectedInterval) <= tolerance) {
-        consistentBeats++;
-      }
-    }
-    
-    const consistency = consistentBeats / (beats.length - 1);
-    
-    // ビート数と一貫性から信頼度を計算
-    const beatDensity = Math.min(beats.length / 20, 1); // 20ビート以上で最大
-    const confidence = (consistency * 0.7) + (beatDensity * 0.3);
-    
-    return Math.min(Math.max(confidence, 0.1), 0.95); // 0.1-0.95の範囲
-  }
+      // サーバーと共通のビートトラッカー
+      const tracking = trackBeats(samples, audioBuffer.sampleRate);
+      console.log(`🥁 ビート検出: ${tracking.tempoMap.beats.length}個, テンポ区間: ${tracking.tempoMap.segments.length}`);
 
-  /**
-   * シンプル小節計算
-   * @param beats - ビート配列
-   * @param bpm - BPM
-   * @returns 小節配列
-   */
-  private calculateBarsSimple(beats: number[], bpm: number): number[] {
-    const bars: number[] = [];
-    const beatInterval = 60 / bpm;
-    const beatsPerBar = 4; // 4/4拍子
-    
-    if (beats.length === 0) {
-      return bars;
-    }
-    
-    // 最初のビートから開始
-    let currentBar = beats[0];
-    bars.push(currentBar);
-    
-    // 4拍ごとに小節を追加
-    while (currentBar < beats[beats.length - 1]) {
-      currentBar += beatInterval * beatsPerBar;
-      bars.push(currentBar);
-    }
-    
-    return bars;
-  }
+      const result = toBPMAnalysis(tracking);
 
-  /**
-   * 近接ビートの統合
-   * @param beats - 元のビート配列
-   * @param minInterval - 最小間隔
-   * @returns 統合されたビート配列
-   */
-  private mergeCloseBeats(beats: number[], minInterval: number): number[] {
-    if (beats.length <= 1) return beats;
-    
-    const merged: number[] = [beats[0]];
-    
-    for (let i = 1; i < beats.length; i++) {
-      const lastBeat = merged[merged.length - 1];
-      if (beats[i] - lastBeat >= minInterval) {
-        merged.push(beats[i]);
-      }
+      console.log(`✅ ビート解析完了: ${result.bpm} BPM, ${result.timeSignature.numerator}/${result.timeSignature.denominator} (信頼度: ${(result.confidence * 100).toFixed(1)}%)`);
+
+      return result;
+    } catch (error) {
+      console.error('❌ BPM検出エラー:', error);
+      throw error;
     }
-    
-    return merged;
   }
 
   /**
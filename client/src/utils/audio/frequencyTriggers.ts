@@ -0,0 +1,296 @@
+import type {
+  AudioTrackEnhanced,
+  ClipEffect,
+  FrequencyTrigger,
+  FrequencyTriggerEvent,
+  Keyframe,
+  Timeline,
+  TimelineClip
+} from '@/types';
+import { FREQUENCY_BANDS } from '@/types';
+
+/**
+ * 周波数トリガーのオフライン解析
+ * FrequencyAnalyzer（AnalyserNode + requestAnimationFrame）と同じ条件で
+ * 音声全体を走査し、トリガーの発火時刻をタイムラインに焼き込む
+ */
+
+// AnalyserNode の設定（FrequencyAnalyzer と合わせる）
+const FFT_SIZE = 2048;
+const SMOOTHING_TIME_CONSTANT = 0.8;
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+// ライブ解析は requestAnimationFrame ごとに1回サンプリングする
+const ANALYSIS_RATE = 60;
+
+// フラッシュの立ち上がり時間（秒）
+const TRIGGER_ATTACK = 1 / 30;
+
+// 焼き込んだエフェクトを識別するパラメータ
+const BAKED_TRIGGER_PARAMETER = 'frequencyTriggerId';
+
+/**
+ * 解析に必要な AudioBuffer の一部（Web Worker に渡したデータでも使える）
+ */
+export type PCMSource = Pick<AudioBuffer, 'sampleRate' | 'numberOfChannels' | 'length' | 'getChannelData'>;
+
+/**
+ * トリガーの周波数帯域（Hz）
+ */
+export function getTriggerRange(trigger: FrequencyTrigger): [number, number] {
+  if (trigger.band === 'custom' && trigger.customRange) {
+    return trigger.customRange;
+  }
+  const band = FREQUENCY_BANDS[trigger.band.toUpperCase() as keyof typeof FREQUENCY_BANDS] || FREQUENCY_BANDS.BASS;
+  return [band[0], band[1]];
+}
+
+// 全チャンネルを平均してモノラルにする（AnalyserNode のダウンミックスと同じ）
+function mixToMono(source: PCMSource): Float32Array {
+  const mono = new Float32Array(source.length);
+  for (let channel = 0; channel < source.numberOfChannels; channel++) {
+    const data = source.getChannelData(channel);
+    for (let i = 0; i < source.length; i++) {
+      mono[i] += data[i] / source.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+// 実数入力の FFT（radix-2、in-place）
+function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * getByteFrequencyData() 相当のスペクトルを一定間隔で計算する
+ * Blackman 窓・時間方向の平滑化・dB→0-255 の変換は Web Audio の仕様どおり
+ */
+export function computeByteSpectra(
+  source: PCMSource,
+  onProgress?: (progress: number) => void
+): { frames: Uint8Array[]; frameRate: number; binSize: number } {
+  const mono = mixToMono(source);
+  const hop = Math.max(1, Math.round(source.sampleRate / ANALYSIS_RATE));
+  const bins = FFT_SIZE / 2;
+  const blackman = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const x = i / FFT_SIZE;
+    blackman[i] = 0.42 - 0.5 * Math.cos(2 * Math.PI * x) + 0.08 * Math.cos(4 * Math.PI * x);
+  }
+
+  const smoothed = new Float32Array(bins);
+  const real = new Float32Array(FFT_SIZE);
+  const imag = new Float32Array(FFT_SIZE);
+  const frames: Uint8Array[] = [];
+  const frameCount = Math.ceil(source.length / hop);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    // AnalyserNode は現在時刻までの直近 FFT_SIZE サンプルを見る
+    const end = frame * hop;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const index = end - FFT_SIZE + i;
+      real[i] = index >= 0 && index < mono.length ? mono[index] * blackman[i] : 0;
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    const bytes = new Uint8Array(bins);
+    for (let k = 0; k < bins; k++) {
+      const magnitude = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]) / FFT_SIZE;
+      smoothed[k] = SMOOTHING_TIME_CONSTANT * smoothed[k] + (1 - SMOOTHING_TIME_CONSTANT) * magnitude;
+      const decibels = smoothed[k] > 0 ? 20 * Math.log10(smoothed[k]) : MIN_DECIBELS;
+      const scaled = (255 / (MAX_DECIBELS - MIN_DECIBELS)) * (decibels - MIN_DECIBELS);
+      bytes[k] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+    frames.push(bytes);
+
+    if (onProgress && frame % 256 === 0) onProgress(frame / frameCount);
+  }
+
+  onProgress?.(1);
+  return { frames, frameRate: source.sampleRate / hop, binSize: source.sampleRate / 2 / bins };
+}
+
+/**
+ * 帯域の平均エネルギー（0-1）。ライブ解析とオフライン解析で共通
+ */
+export function getBandEnergy(spectrum: Uint8Array, [lowHz, highHz]: [number, number], binSize: number): number {
+  const lowBin = Math.floor(lowHz / binSize);
+  const highBin = Math.floor(highHz / binSize);
+  let sum = 0;
+  let count = 0;
+  for (let i = lowBin; i <= highBin && i < spectrum.length; i++) {
+    sum += spectrum[i];
+    count++;
+  }
+  return count > 0 ? sum / count / 255 : 0;
+}
+
+/**
+ * トリガー定義を音声全体に適用して発火イベントを求める
+ * 帯域エネルギーが threshold を超えたら発火し、duration と cooldown の長い方が過ぎるまで再発火しない
+ * time は音声の先頭からの秒数
+ */
+export function detectTriggerEvents(
+  source: PCMSource,
+  triggers: FrequencyTrigger[],
+  onProgress?: (progress: number) => void
+): FrequencyTriggerEvent[] {
+  const enabled = triggers.filter(trigger => trigger.enabled);
+  if (enabled.length === 0) return [];
+
+  const { frames, frameRate, binSize } = computeByteSpectra(source, onProgress);
+  const events: FrequencyTriggerEvent[] = [];
+
+  enabled.forEach(trigger => {
+    const range = getTriggerRange(trigger);
+    const holdTime = Math.max(trigger.duration, trigger.cooldown);
+    let nextAllowed = 0;
+
+    frames.forEach((spectrum, frame) => {
+      const time = frame / frameRate;
+      if (time < nextAllowed) return;
+
+      const energy = getBandEnergy(spectrum, range, binSize);
+      if (energy > trigger.threshold) {
+        events.push({ triggerId: trigger.id, time: Math.round(time * 1000) / 1000, intensity: energy });
+        nextAllowed = time + holdTime;
+      }
+    });
+  });
+
+  return events.sort((a, b) => a.time - b.time);
+}
+
+function createKeyframe(time: number, value: number, easing: Keyframe['easing'] = 'linear'): Keyframe {
+  return {
+    id: `keyframe_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    time: Math.round(time * 1000) / 1000,
+    value,
+    easing
+  };
+}
+
+/**
+ * トリガーのエフェクトを、発火時刻にピークを持つキーフレームトラックにする
+ * 対応していないエフェクトは null
+ */
+function bakeTriggerEffect(
+  trigger: FrequencyTrigger,
+  clip: TimelineClip,
+  times: number[]
+): ClipEffect | null {
+  const { type, parameters } = trigger.effect;
+  const easing = parameters.easing || 'ease-out';
+
+  let parameter: string;
+  let base: number;
+  let peak: number;
+  switch (type) {
+    case 'brightness':
+    case 'contrast':
+    case 'saturation':
+      parameter = 'value';
+      base = 0;
+      peak = parameters.value ?? 50;
+      break;
+    case 'pan_zoom':
+      parameter = 'zoom';
+      base = 1;
+      peak = parameters.zoom ?? 1.2;
+      break;
+    default:
+      return null;
+  }
+
+  const track: Keyframe[] = [];
+  times.forEach((time, index) => {
+    const next = times[index + 1] ?? clip.duration + TRIGGER_ATTACK;
+    const previous = track[track.length - 1];
+    if (time >= TRIGGER_ATTACK && (!previous || previous.time < time - TRIGGER_ATTACK)) {
+      track.push(createKeyframe(time - TRIGGER_ATTACK, base));
+    }
+    track.push(createKeyframe(time, peak, easing));
+    track.push(createKeyframe(Math.min(time + trigger.duration, next - TRIGGER_ATTACK), base));
+  });
+
+  return {
+    id: `effect_${trigger.id}_${clip.id}`,
+    type,
+    parameters: { ...parameters, [parameter]: base, [BAKED_TRIGGER_PARAMETER]: trigger.id },
+    keyframes: { [parameter]: track },
+    enabled: true
+  };
+}
+
+export function isBakedTriggerEffect(effect: ClipEffect): boolean {
+  return Boolean(effect.parameters[BAKED_TRIGGER_PARAMETER]);
+}
+
+/**
+ * 発火イベントをタイムラインのクリップにエフェクトとして書き込む
+ * 各イベントは発火時刻に表示されている全クリップに入る。以前の焼き込み結果は置き換える
+ */
+export function bakeTriggerEvents(
+  timeline: Timeline,
+  track: AudioTrackEnhanced,
+  triggers: FrequencyTrigger[],
+  events: FrequencyTriggerEvent[]
+): Timeline {
+  const offset = track.startTime || 0;
+  const triggerIds = new Set(triggers.map(trigger => trigger.id));
+
+  const clips = timeline.clips.map(clip => {
+    const effects = (clip.effects || []).filter(effect =>
+      !isBakedTriggerEffect(effect) || !triggerIds.has(effect.parameters[BAKED_TRIGGER_PARAMETER])
+    );
+
+    triggers.filter(trigger => trigger.enabled).forEach(trigger => {
+      const times = events
+        .filter(event => event.triggerId === trigger.id)
+        .map(event => event.time + offset - clip.startTime)
+        .filter(time => time >= 0 && time < clip.duration);
+      if (times.length === 0) return;
+
+      const effect = bakeTriggerEffect(trigger, clip, times);
+      if (effect) effects.push(effect);
+    });
+
+    return { ...clip, effects };
+  });
+
+  const audioTracks = timeline.audioTracks.map(t =>
+    t.id === track.id ? { ...t, triggerEvents: events } as AudioTrackEnhanced : t
+  );
+
+  return { ...timeline, clips, audioTracks };
+}
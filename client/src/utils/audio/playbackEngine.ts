@@ -0,0 +1,354 @@
+import { getClipSpeed, getSourceTime, resolveAudioMuting } from '@render';
+import { decodeAudio } from './audioAnalysisClient';
+import type { Timeline, MediaFile } from '../../types';
+
+/**
+ * タイムラインの音声再生エンジン（Web Audio）
+ * オーディオトラックと動画クリップの音声を AudioContext の時計に合わせて
+ * AudioBufferSourceNode でスケジュールする。再生位置も同じ時計から求めるので、
+ * プレビューの再生ヘッドと音がサンプル単位で揃う。
+ */
+
+export interface PlaybackSource {
+  id: string; // オーディオトラック ID またはクリップ ID
+  kind: 'audio' | 'video';
+  track: string | number; // オーディオトラック ID / 動画レイヤー
+  media: MediaFile | string; // デコード元（MediaFile または URL）
+  mediaKey: string; // デコード結果のキャッシュキー
+  timelineStart: number; // seconds
+  duration: number; // seconds on the timeline
+  sourceOffset: number; // seconds into the source at timelineStart
+  playbackRate: number;
+  volume: number; // 0-1
+  muted: boolean;
+}
+
+// 再生開始までの猶予（スケジュールが間に合うように）
+const SCHEDULE_LEAD = 0.05;
+// スクラブ時に鳴らす長さとフェード
+const SCRUB_GRAIN = 0.08;
+const SCRUB_FADE = 0.01;
+// 音量変更のなめらかさ（時定数）
+const GAIN_SMOOTHING = 0.015;
+
+/**
+ * タイムラインから再生する音声の一覧を作る
+ * オーディオトラックは先頭から、動画クリップは trimStart と速度エフェクトを反映する。
+ * ミュート・ソロはエクスポートと同じ規則（resolveAudioMuting）で決める
+ */
+export function collectPlaybackSources(
+  timeline: Pick<Timeline, 'clips' | 'audioTracks'>,
+  mediaLibrary: MediaFile[]
+): PlaybackSource[] {
+  const mediaById = new Map(mediaLibrary.map(media => [media.id, media]));
+  const sources: PlaybackSource[] = [];
+  const muting = resolveAudioMuting(timeline.audioTracks);
+
+  timeline.audioTracks.forEach(track => {
+    const media = track.mediaId ? mediaById.get(track.mediaId) : undefined;
+    const source = media || track.url;
+    if (!source || track.duration <= 0) return;
+
+    sources.push({
+      id: track.id,
+      kind: 'audio',
+      track: track.id,
+      media: source,
+      mediaKey: media ? media.id : track.url!,
+      timelineStart: track.startTime,
+      duration: track.duration,
+      sourceOffset: 0,
+      playbackRate: 1,
+      volume: track.volume ?? 1,
+      muted: muting.trackMuted(track)
+    });
+  });
+
+  timeline.clips.forEach(clip => {
+    const media = mediaById.get(clip.mediaId);
+    if (!media || media.type !== 'video' || clip.duration <= 0) return;
+
+    sources.push({
+      id: clip.id,
+      kind: 'video',
+      track: clip.layer,
+      media,
+      mediaKey: media.id,
+      timelineStart: clip.startTime,
+      duration: clip.duration,
+      sourceOffset: getSourceTime(clip, 0),
+      playbackRate: getClipSpeed(clip),
+      volume: 1,
+      muted: muting.clipSoundMuted
+    });
+  });
+
+  return sources;
+}
+
+// スケジュールに影響する項目（音量・ミュート以外）
+const scheduleKey = (source: PlaybackSource) =>
+  [source.mediaKey, source.timelineStart, source.duration, source.sourceOffset, source.playbackRate].join(':');
+
+interface ScheduledNode {
+  node: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+export class AudioPlaybackEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private buffers: Map<string, Promise<AudioBuffer | null>> = new Map();
+  private resolvedBuffers: WeakMap<Promise<AudioBuffer | null>, AudioBuffer | null> = new WeakMap();
+  private sources: Map<string, PlaybackSource> = new Map();
+  private scheduled: Map<string, ScheduledNode> = new Map();
+  private scrubNodes: ScheduledNode[] = [];
+
+  private playing = false;
+  private position = 0; // 停止中の位置
+  private startContextTime = 0; // 再生開始時の context.currentTime
+  private startPosition = 0; // 再生開始時のタイムライン位置
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * 現在のタイムライン位置（秒）
+   * 再生中は AudioContext の時計から求め、出力遅延の分だけ差し引いて「聞こえている位置」に合わせる
+   */
+  getCurrentTime(): number {
+    if (!this.playing || !this.context) return this.position;
+    const latency = (this.context.outputLatency || 0) + (this.context.baseLatency || 0);
+    const elapsed = this.context.currentTime - this.startContextTime - latency;
+    return this.startPosition + Math.max(0, elapsed);
+  }
+
+  /**
+   * 再生する音声を更新する
+   * 配置が変わった音声だけ再生中に組み直し、音量・ミュートはその場で反映する
+   */
+  setSources(sources: PlaybackSource[]): void {
+    const previous = this.sources;
+    this.sources = new Map(sources.map(source => [source.id, source]));
+
+    // 使われなくなったデコード結果は破棄する
+    const usedKeys = new Set(sources.map(source => source.mediaKey));
+    Array.from(this.buffers.keys()).forEach(key => {
+      if (!usedKeys.has(key)) this.buffers.delete(key);
+    });
+
+    if (!this.playing) return;
+    const now = this.getCurrentTime();
+
+    previous.forEach((before, id) => {
+      const after = this.sources.get(id);
+      if (!after || scheduleKey(before) !== scheduleKey(after)) this.stopSource(id);
+    });
+    this.sources.forEach((source, id) => {
+      const node = this.scheduled.get(id);
+      if (node) {
+        this.applyGain(node.gain, source);
+      } else {
+        void this.scheduleSource(source, now);
+      }
+    });
+  }
+
+  /**
+   * 指定位置から再生
+   */
+  async play(position: number = this.position): Promise<void> {
+    const context = this.ensureContext();
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    this.stopAll();
+    this.playing = true;
+    this.startPosition = Math.max(0, position);
+    this.startContextTime = context.currentTime + SCHEDULE_LEAD;
+
+    this.sources.forEach(source => {
+      void this.scheduleSource(source, this.startPosition);
+    });
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.position = this.getCurrentTime();
+    this.playing = false;
+    this.stopAll();
+  }
+
+  /**
+   * 再生位置の移動（再生中は移動先から組み直す）
+   */
+  seek(position: number): void {
+    if (this.playing) {
+      void this.play(position);
+    } else {
+      this.position = Math.max(0, position);
+    }
+  }
+
+  /**
+   * 停止中のスクラブ。位置の音を短く鳴らして、耳で拍に合わせられるようにする
+   */
+  scrub(position: number): void {
+    this.position = Math.max(0, position);
+    if (this.playing || !this.context || this.context.state !== 'running') return;
+
+    const context = this.context;
+    this.stopScrub();
+
+    this.sources.forEach(source => {
+      const clipTime = this.position - source.timelineStart;
+      if (source.muted || clipTime < 0 || clipTime >= source.duration) return;
+
+      const buffer = this.peekBuffer(source);
+      if (!buffer) {
+        void this.loadBuffer(source);
+        return;
+      }
+
+      const when = context.currentTime;
+      const node = this.createNode(buffer, source);
+      const level = source.volume;
+      node.gain.gain.setValueAtTime(0, when);
+      node.gain.gain.linearRampToValueAtTime(level, when + SCRUB_FADE);
+      node.gain.gain.setValueAtTime(level, when + SCRUB_GRAIN - SCRUB_FADE);
+      node.gain.gain.linearRampToValueAtTime(0, when + SCRUB_GRAIN);
+      node.node.start(when, source.sourceOffset + clipTime * source.playbackRate);
+      node.node.stop(when + SCRUB_GRAIN);
+      this.scrubNodes.push(node);
+    });
+  }
+
+  /**
+   * 再生前にデコードを始めておく（初回再生の遅れを減らす）
+   */
+  preload(): Promise<void> {
+    return Promise.all(Array.from(this.sources.values()).map(source => this.loadBuffer(source))).then(() => undefined);
+  }
+
+  dispose(): void {
+    this.pause();
+    this.stopScrub();
+    this.buffers.clear();
+    this.sources.clear();
+    if (this.context) {
+      void this.context.close();
+      this.context = null;
+      this.master = null;
+    }
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.context || this.context.state === 'closed') {
+      const webkitWindow = window as typeof window & { webkitAudioContext?: typeof AudioContext };
+      this.context = new (window.AudioContext || webkitWindow.webkitAudioContext)({ latencyHint: 'interactive' });
+      this.master = this.context.createGain();
+      this.master.connect(this.context.destination);
+    }
+    return this.context;
+  }
+
+  // デコード済みならそのまま返す（スクラブは待たずに鳴らすため）
+  private peekBuffer(source: PlaybackSource): AudioBuffer | null {
+    const pending = this.buffers.get(source.mediaKey);
+    return pending ? this.resolvedBuffers.get(pending) || null : null;
+  }
+
+  private loadBuffer(source: PlaybackSource): Promise<AudioBuffer | null> {
+    let pending = this.buffers.get(source.mediaKey);
+    if (!pending) {
+      // 音声のない動画などはデコードに失敗するので、無音として扱う
+      pending = decodeAudio(source.media).catch(error => {
+        if (source.kind === 'audio') console.warn('音声のデコードに失敗しました:', source.mediaKey, error);
+        return null;
+      });
+      const promise = pending;
+      promise.then(buffer => this.resolvedBuffers.set(promise, buffer));
+      this.buffers.set(source.mediaKey, pending);
+    }
+    return pending;
+  }
+
+  private createNode(buffer: AudioBuffer, source: PlaybackSource): ScheduledNode {
+    const context = this.context!;
+    const node = context.createBufferSource();
+    node.buffer = buffer;
+    node.playbackRate.value = source.playbackRate;
+    const gain = context.createGain();
+    node.connect(gain);
+    gain.connect(this.master!);
+    return { node, gain };
+  }
+
+  private applyGain(gain: GainNode, source: PlaybackSource) {
+    const level = source.muted ? 0 : source.volume;
+    gain.gain.setTargetAtTime(level, this.context!.currentTime, GAIN_SMOOTHING);
+  }
+
+  /**
+   * 1つの音声を、タイムライン位置 from 以降の部分だけ再生時計に合わせて予約する
+   */
+  private async scheduleSource(source: PlaybackSource, from: number): Promise<void> {
+    if (from >= source.timelineStart + source.duration) return;
+
+    const buffer = await this.loadBuffer(source);
+    // デコード中に停止・配置変更された場合は予約しない
+    if (!buffer || !this.playing || !this.context || this.sources.get(source.id) !== source) return;
+    if (this.scheduled.has(source.id)) return;
+
+    const context = this.context;
+    // デコードを待った分だけ位置が進んでいる
+    const now = Math.max(from, this.startPosition + (context.currentTime - this.startContextTime));
+    const clipTime = Math.max(0, now - source.timelineStart);
+    const remaining = source.duration - clipTime;
+    if (remaining <= 0) return;
+
+    const when = this.startContextTime + (source.timelineStart + clipTime - this.startPosition);
+    const offset = source.sourceOffset + clipTime * source.playbackRate;
+    if (offset >= buffer.duration) return;
+
+    const scheduled = this.createNode(buffer, source);
+    scheduled.gain.gain.value = source.muted ? 0 : source.volume;
+    scheduled.node.start(Math.max(when, context.currentTime), offset, remaining * source.playbackRate);
+    scheduled.node.onended = () => {
+      if (this.scheduled.get(source.id) === scheduled) this.scheduled.delete(source.id);
+      scheduled.gain.disconnect();
+    };
+    this.scheduled.set(source.id, scheduled);
+  }
+
+  private stopSource(id: string) {
+    const scheduled = this.scheduled.get(id);
+    if (!scheduled) return;
+    this.scheduled.delete(id);
+    scheduled.node.onended = null;
+    try {
+      scheduled.node.stop();
+    } catch {
+      // 既に停止済み
+    }
+    scheduled.gain.disconnect();
+  }
+
+  private stopAll() {
+    Array.from(this.scheduled.keys()).forEach(id => this.stopSource(id));
+  }
+
+  private stopScrub() {
+    this.scrubNodes.forEach(({ node, gain }) => {
+      try {
+        node.stop();
+      } catch {
+        // 既に停止済み
+      }
+      gain.disconnect();
+    });
+    this.scrubNodes = [];
+  }
+}
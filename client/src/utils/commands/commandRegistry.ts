@@ -0,0 +1,113 @@
+import type { CommandId, CommandScope, EditorCommand, KeybindingConflict, KeybindingOverrides } from '@/types';
+import { findKeybindingConflicts, resolveKeybindings } from './keybindings';
+
+export type CommandHandler = () => void;
+
+export interface CommandMatchContext {
+  area: Exclude<CommandScope, 'global'>; // 最後に操作した領域
+  inTextInput: boolean;
+}
+
+/**
+ * コマンドの定義・キー割り当て・実行中の処理を持つレジストリ
+ * 同じコマンドを複数のコンポーネントが登録したときは、後から登録したもの（手前の画面）が優先される。
+ */
+export class CommandRegistry {
+  private commands: EditorCommand[];
+  private commandsById: Map<CommandId, EditorCommand>;
+  private handlers = new Map<CommandId, CommandHandler[]>();
+  private bindings: Map<CommandId, string[]>;
+  private commandsByKey = new Map<string, EditorCommand[]>();
+  private listeners = new Set<() => void>();
+
+  constructor(commands: EditorCommand[], overrides: KeybindingOverrides = {}) {
+    this.commands = commands;
+    this.commandsById = new Map(commands.map(command => [command.id, command]));
+    this.bindings = resolveKeybindings(commands, overrides);
+    this.indexKeys();
+  }
+
+  private indexKeys() {
+    this.commandsByKey.clear();
+    this.commands.forEach(command => {
+      (this.bindings.get(command.id) || []).forEach(key => {
+        this.commandsByKey.set(key, [...(this.commandsByKey.get(key) || []), command]);
+      });
+    });
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** 登録・割り当ての変化を受け取る（解除関数を返す） */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getCommands(): EditorCommand[] {
+    return this.commands;
+  }
+
+  getCommand(id: CommandId): EditorCommand | undefined {
+    return this.commandsById.get(id);
+  }
+
+  getBindings(): Map<CommandId, string[]> {
+    return this.bindings;
+  }
+
+  getKeys(id: CommandId): string[] {
+    return this.bindings.get(id) || [];
+  }
+
+  getConflicts(): KeybindingConflict[] {
+    return findKeybindingConflicts(this.commands, this.bindings);
+  }
+
+  setKeybindings(overrides: KeybindingOverrides) {
+    this.bindings = resolveKeybindings(this.commands, overrides);
+    this.indexKeys();
+    this.notify();
+  }
+
+  /** コマンドの処理を登録する（解除関数を返す） */
+  registerHandler(id: CommandId, handler: CommandHandler): () => void {
+    this.handlers.set(id, [...(this.handlers.get(id) || []), handler]);
+    this.notify();
+    return () => {
+      const remaining = (this.handlers.get(id) || []).filter(h => h !== handler);
+      if (remaining.length > 0) this.handlers.set(id, remaining);
+      else this.handlers.delete(id);
+      this.notify();
+    };
+  }
+
+  /** 今の画面で実行できるか */
+  isAvailable(id: CommandId): boolean {
+    return (this.handlers.get(id)?.length || 0) > 0;
+  }
+
+  execute(id: CommandId): boolean {
+    const stack = this.handlers.get(id);
+    if (!stack || stack.length === 0) return false;
+    stack[stack.length - 1]();
+    return true;
+  }
+
+  /**
+   * キーに対応する実行可能なコマンド
+   * 操作中の領域のコマンドを global より優先する
+   */
+  findCommandForKey(key: string, context: CommandMatchContext): EditorCommand | undefined {
+    const candidates = (this.commandsByKey.get(key) || []).filter(command =>
+      (command.scope === 'global' || command.scope === context.area) &&
+      (!context.inTextInput || command.allowInInput) &&
+      this.isAvailable(command.id)
+    );
+    return candidates.find(command => command.scope === context.area) || candidates[0];
+  }
+}
@@ -0,0 +1,84 @@
+import type { CommandCategory, CommandId, EditorCommand } from '@/types';
+
+/**
+ * エディタのコマンド一覧
+ * キー操作・コマンドパレット・ショートカット設定はすべてここを参照する。
+ * 実際の処理は各コンポーネントが useCommandHandlers で登録し、登録のないコマンドはその画面では使えない。
+ */
+export const EDITOR_COMMANDS: EditorCommand[] = [
+  // アプリ
+  { id: 'app.commandPalette', title: 'コマンドパレットを開く', category: 'app', scope: 'global', defaultKeys: ['Ctrl+K', 'Ctrl+Shift+P'], allowInInput: true },
+  { id: 'app.keybindings', title: 'キーボードショートカットの設定', category: 'app', scope: 'global', defaultKeys: ['Ctrl+,'] },
+  { id: 'file.export', title: 'エクスポート', category: 'app', scope: 'global', defaultKeys: ['Ctrl+E'] },
+
+  // 再生
+  { id: 'playback.togglePlay', title: '再生 / 一時停止', category: 'playback', scope: 'global', defaultKeys: ['Space'] },
+  { id: 'playback.goToStart', title: '先頭へ移動', category: 'playback', scope: 'global', defaultKeys: ['Home'] },
+  { id: 'playback.goToEnd', title: '末尾へ移動', category: 'playback', scope: 'global', defaultKeys: ['End'] },
+  { id: 'playback.stepBackward', title: '1フレーム戻る', category: 'playback', scope: 'global', defaultKeys: ['ArrowLeft'] },
+  { id: 'playback.stepForward', title: '1フレーム進む', category: 'playback', scope: 'global', defaultKeys: ['ArrowRight'] },
+  { id: 'playback.jumpBackward', title: '1秒戻る', category: 'playback', scope: 'global', defaultKeys: ['Shift+ArrowLeft'] },
+  { id: 'playback.jumpForward', title: '1秒進む', category: 'playback', scope: 'global', defaultKeys: ['Shift+ArrowRight'] },
+
+  // 編集
+  { id: 'edit.undo', title: '元に戻す', category: 'edit', scope: 'global', defaultKeys: ['Ctrl+Z'] },
+  { id: 'edit.redo', title: 'やり直す', category: 'edit', scope: 'global', defaultKeys: ['Ctrl+Y', 'Ctrl+Shift+Z'] },
+  { id: 'edit.copy', title: 'クリップをコピー', category: 'edit', scope: 'timeline', defaultKeys: ['Ctrl+C'] },
+  { id: 'edit.paste', title: 'クリップを再生ヘッドに貼り付け', category: 'edit', scope: 'timeline', defaultKeys: ['Ctrl+V'] },
+  { id: 'edit.split', title: '再生ヘッドで分割', category: 'edit', scope: 'timeline', defaultKeys: ['S'] },
+  { id: 'edit.delete', title: 'クリップを削除', category: 'edit', scope: 'timeline', defaultKeys: ['Delete', 'Backspace'] },
+  { id: 'edit.rippleDelete', title: 'リップル削除（後ろを詰める）', category: 'edit', scope: 'timeline', defaultKeys: ['Shift+Delete', 'Shift+Backspace'] },
+  { id: 'edit.nudgeLeft', title: 'クリップを左へ少し移動', category: 'edit', scope: 'timeline', defaultKeys: ['Alt+ArrowLeft'] },
+  { id: 'edit.nudgeRight', title: 'クリップを右へ少し移動', category: 'edit', scope: 'timeline', defaultKeys: ['Alt+ArrowRight'] },
+
+  // 表示
+  { id: 'view.zoomIn', title: 'ズームイン', category: 'view', scope: 'global', defaultKeys: ['Ctrl+=', '='] },
+  { id: 'view.zoomOut', title: 'ズームアウト', category: 'view', scope: 'global', defaultKeys: ['Ctrl+-', '-'] },
+  { id: 'view.zoomReset', title: 'ズームをリセット', category: 'view', scope: 'global', defaultKeys: ['Ctrl+0'] },
+  { id: 'view.scrollToStart', title: '表示範囲を先頭へ', category: 'view', scope: 'timeline', defaultKeys: ['Ctrl+Home'] },
+  { id: 'view.scrollToEnd', title: '表示範囲を末尾へ', category: 'view', scope: 'timeline', defaultKeys: ['Ctrl+End'] },
+
+  // スナップ
+  { id: 'snap.toggle', title: 'スナップのオン / オフ', category: 'snap', scope: 'timeline', defaultKeys: ['N'] },
+  { id: 'snap.toggleMagnetic', title: 'Magneticモード（一時的にスナップを無効）', category: 'snap', scope: 'timeline', defaultKeys: ['M'] },
+  { id: 'snap.presetStrict', title: 'スナップ: 強', category: 'snap', scope: 'timeline', defaultKeys: ['Alt+1'] },
+  { id: 'snap.presetMedium', title: 'スナップ: 中', category: 'snap', scope: 'timeline', defaultKeys: ['Alt+2'] },
+  { id: 'snap.presetLoose', title: 'スナップ: 弱', category: 'snap', scope: 'timeline', defaultKeys: ['Alt+3'] },
+  { id: 'snap.off', title: 'スナップを切る', category: 'snap', scope: 'timeline', defaultKeys: ['Alt+0'] },
+
+  // タイムラインのキーボード操作（アクセシビリティ）
+  { id: 'navigation.focusNext', title: '次の要素にフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['Tab'] },
+  { id: 'navigation.focusPrevious', title: '前の要素にフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['Shift+Tab'] },
+  { id: 'navigation.focusUp', title: '上のトラックにフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['ArrowUp'] },
+  { id: 'navigation.focusDown', title: '下のトラックにフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['ArrowDown'] },
+  { id: 'navigation.focusLeft', title: '左の要素にフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['Ctrl+ArrowLeft'] },
+  { id: 'navigation.focusRight', title: '右の要素にフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['Ctrl+ArrowRight'] },
+  { id: 'navigation.focusFirst', title: '最初の要素にフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['Alt+Home'] },
+  { id: 'navigation.focusLast', title: '最後の要素にフォーカス', category: 'navigation', scope: 'timeline', defaultKeys: ['Alt+End'] },
+  { id: 'navigation.help', title: 'キーボード操作のヘルプを読み上げ', category: 'navigation', scope: 'timeline', defaultKeys: ['F1'] },
+
+  // プレビュー
+  { id: 'preview.toggleFullscreen', title: 'フルスクリーン切り替え', category: 'preview', scope: 'preview', defaultKeys: ['F'] },
+  { id: 'preview.toggleSafeArea', title: 'セーフエリア表示の切り替え', category: 'preview', scope: 'preview', defaultKeys: ['G'] },
+  { id: 'preview.toggleReframe', title: '切り出し（リフレーム）表示の切り替え', category: 'preview', scope: 'preview', defaultKeys: ['R'] }
+];
+
+export const COMMAND_CATEGORY_LABELS: Record<CommandCategory, string> = {
+  app: 'アプリ',
+  playback: '再生',
+  edit: '編集',
+  view: '表示',
+  snap: 'スナップ',
+  navigation: 'キーボード操作',
+  preview: 'プレビュー'
+};
+
+export const COMMAND_SCOPE_LABELS = {
+  global: 'エディタ全体',
+  timeline: 'タイムライン',
+  preview: 'プレビュー'
+} as const;
+
+const COMMANDS_BY_ID = new Map(EDITOR_COMMANDS.map(command => [command.id, command]));
+
+export const getEditorCommand = (id: CommandId): EditorCommand | undefined => COMMANDS_BY_ID.get(id);
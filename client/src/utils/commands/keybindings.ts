@@ -0,0 +1,223 @@
+import type { CommandId, CommandScope, EditorCommand, KeybindingConflict, KeybindingOverrides } from '@/types';
+
+/**
+ * キーの組み合わせ（"Ctrl+Shift+Z" 形式）の正規化・表示と、割り当ての解決・衝突検出
+ * 修飾キーは Ctrl → Alt → Shift の順。Mac の Cmd は Ctrl として扱う。
+ */
+
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift'] as const;
+
+const MODIFIER_ALIASES: Record<string, (typeof MODIFIER_ORDER)[number]> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  cmd: 'Ctrl',
+  command: 'Ctrl',
+  meta: 'Ctrl',
+  mod: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift'
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  space: 'Space',
+  esc: 'Escape',
+  escape: 'Escape',
+  del: 'Delete',
+  delete: 'Delete',
+  backspace: 'Backspace',
+  enter: 'Enter',
+  return: 'Enter',
+  tab: 'Tab',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  arrowleft: 'ArrowLeft',
+  arrowright: 'ArrowRight',
+  arrowup: 'ArrowUp',
+  arrowdown: 'ArrowDown',
+  plus: '=' // Shift なしで押せるキーにそろえる
+};
+
+// 配列によって文字が変わるキーは物理キー（KeyboardEvent.code）から決める
+const CODE_KEYS: Record<string, string> = {
+  Space: 'Space',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  NumpadAdd: '=',
+  NumpadSubtract: '-'
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'OS', 'AltGraph', 'CapsLock']);
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+function normalizeKey(key: string): string | null {
+  if (!key) return null;
+  const alias = KEY_ALIASES[key.toLowerCase()];
+  if (alias) return alias;
+  if (key.length === 1) return key.toUpperCase();
+  if (/^F([1-9]|1[0-9]|2[0-4])$/i.test(key)) return key.toUpperCase();
+  return null;
+}
+
+/**
+ * キーの組み合わせの文字列を正規化する（不正なら null）
+ */
+export function normalizeKeyCombo(combo: string): string | null {
+  // "Ctrl++" のように "+" 自体をキーにした書き方も受ける
+  const parts = combo.trim().replace(/\+\+$/, '+plus').split('+').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const modifiers = new Set<string>();
+  for (const part of parts.slice(0, -1)) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+  const key = normalizeKey(parts[parts.length - 1]);
+  if (!key) return null;
+
+  return [...MODIFIER_ORDER.filter(modifier => modifiers.has(modifier)), key].join('+');
+}
+
+/**
+ * キーボードイベントをキーの組み合わせにする（修飾キーだけなら null）
+ */
+export function eventToKeyCombo(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  let key: string | null = null;
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.slice(3);
+  else if (/^(Digit|Numpad)[0-9]$/.test(event.code)) key = event.code.slice(-1);
+  else if (CODE_KEYS[event.code]) key = CODE_KEYS[event.code];
+  else key = normalizeKey(event.key);
+  if (!key) return null;
+
+  return [
+    ...(event.ctrlKey || event.metaKey ? ['Ctrl'] : []),
+    ...(event.altKey ? ['Alt'] : []),
+    ...(event.shiftKey ? ['Shift'] : []),
+    key
+  ].join('+');
+}
+
+/**
+ * 表示用（Mac では修飾キーを記号にする）
+ */
+export function formatKeyCombo(combo: string): string {
+  const labels: Record<string, string> = isMac()
+    ? { Ctrl: '⌘', Alt: '⌥', Shift: '⇧' }
+    : {};
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  const parts = combo.split('+').map(part => labels[part] || arrows[part] || part);
+  return isMac() ? parts.join('') : parts.join('+');
+}
+
+/**
+ * 既定のキーに利用者の変更を重ねた、コマンドごとのキー
+ */
+export function resolveKeybindings(
+  commands: EditorCommand[],
+  overrides: KeybindingOverrides = {}
+): Map<CommandId, string[]> {
+  const bindings = new Map<CommandId, string[]>();
+  commands.forEach(command => {
+    const keys = overrides[command.id] ?? command.defaultKeys;
+    const normalized = keys.map(normalizeKeyCombo).filter((key): key is string => key !== null);
+    bindings.set(command.id, Array.from(new Set(normalized)));
+  });
+  return bindings;
+}
+
+/**
+ * 同時に効く範囲のコマンドか（global は他のすべてと重なる）
+ */
+export const scopesOverlap = (a: CommandScope, b: CommandScope) =>
+  a === b || a === 'global' || b === 'global';
+
+/**
+ * 同じキーが、重なる範囲の複数のコマンドに割り当てられているもの
+ */
+export function findKeybindingConflicts(
+  commands: EditorCommand[],
+  bindings: Map<CommandId, string[]>
+): KeybindingConflict[] {
+  const byKey = new Map<string, EditorCommand[]>();
+  commands.forEach(command => {
+    (bindings.get(command.id) || []).forEach(key => {
+      byKey.set(key, [...(byKey.get(key) || []), command]);
+    });
+  });
+
+  const conflicts: KeybindingConflict[] = [];
+  byKey.forEach((keyCommands, key) => {
+    const conflicting = keyCommands.filter(command =>
+      keyCommands.some(other => other.id !== command.id && scopesOverlap(command.scope, other.scope))
+    );
+    if (conflicting.length > 0) {
+      conflicts.push({ key, commandIds: conflicting.map(command => command.id) });
+    }
+  });
+  return conflicts;
+}
+
+/**
+ * あるコマンドにキーを割り当てたときに衝突するコマンド
+ */
+export function findCommandsUsingKey(
+  commands: EditorCommand[],
+  bindings: Map<CommandId, string[]>,
+  key: string,
+  command: EditorCommand
+): EditorCommand[] {
+  return commands.filter(other =>
+    other.id !== command.id &&
+    scopesOverlap(other.scope, command.scope) &&
+    (bindings.get(other.id) || []).includes(key)
+  );
+}
+
+/**
+ * 変更後のキーを既定と比べて、保存する差分にする
+ */
+export function toKeybindingOverrides(
+  commands: EditorCommand[],
+  bindings: Map<CommandId, string[]>
+): KeybindingOverrides {
+  const overrides: KeybindingOverrides = {};
+  commands.forEach(command => {
+    const keys = bindings.get(command.id) || [];
+    const defaults = resolveKeybindings([command]).get(command.id) || [];
+    const same = keys.length === defaults.length && keys.every(key => defaults.includes(key));
+    if (!same) overrides[command.id] = keys;
+  });
+  return overrides;
+}
+
+/**
+ * テキストを入力中の要素か（入力中は allowInInput のコマンドだけ実行する）
+ */
+export function isTextInputTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+  if (target.tagName !== 'INPUT') return false;
+  const type = (target as HTMLInputElement).type;
+  return !['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'color', 'file'].includes(type);
+}
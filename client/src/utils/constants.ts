@@ -1,3 +1,5 @@
+import { EXPORT_QUALITY_PRESETS, EXPORT_FRAME_RATES, EXPORT_CONTAINERS, type ExportContainer } from '@render';
+
 // API Configuration
 export const API_BASE_URL =
   (import.meta as any).env?.VITE_API_URL ??
@@ -8,8 +10,7 @@ export const WS_URL =
   (globalThis as any).process?.env?.REACT_APP_WS_URL ??
   'ws://localhost:5000';
 
-// File Upload Limits
-export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+// File Upload Limits (file size and storage follow the plan: getUploadLimitBytes / checkUpload in @entitlements)
 export const MAX_FILES_PER_UPLOAD = 10;
 
 // Supported File Types
@@ -29,16 +30,14 @@ export const TIMELINE_SCALE_MAX = 10;
 export const TIMELINE_TRACK_HEIGHT = 60;
 export const TIMELINE_AUDIO_TRACK_HEIGHT = 40;
 
-// Export Settings
+// Clip transform used when a clip has none (full frame, centered); defined by the shared renderer
+export { DEFAULT_CLIP_TRANSFORM } from '@render';
+
+// Export Settings (the export worker encodes from the same tables)
 export const EXPORT_PRESETS = {
-  quality: {
-    low: { videoBitrate: 1000, audioBitrate: 128, crf: 28 },
-    medium: { videoBitrate: 3000, audioBitrate: 192, crf: 23 },
-    high: { videoBitrate: 5000, audioBitrate: 256, crf: 20 },
-    ultra: { videoBitrate: 8000, audioBitrate: 320, crf: 18 }
-  },
-  frameRates: [24, 30, 60],
-  formats: ['mp4', 'webm']
+  quality: EXPORT_QUALITY_PRESETS,
+  frameRates: EXPORT_FRAME_RATES,
+  formats: Object.keys(EXPORT_CONTAINERS) as ExportContainer[]
 };
 
 // Animation Durations
@@ -53,7 +52,8 @@ export const STORAGE_KEYS = {
   authToken: 'flickmv_auth_token',
   userPreferences: 'flickmv_user_preferences',
   recentProjects: 'flickmv_recent_projects',
-  editorState: 'flickmv_editor_state'
+  editorState: 'flickmv_editor_state',
+  pendingUploads: 'flickmv_pending_uploads'
 };
 
 // Error Messages
@@ -76,22 +76,6 @@ export const SUCCESS_MESSAGES = {
   settingsSaved: 'Settings saved successfully!'
 };
 
-// Keyboard Shortcuts
-export const KEYBOARD_SHORTCUTS = {
-  play: 'Space',
-  save: 'Ctrl+S',
-  undo: 'Ctrl+Z',
-  redo: 'Ctrl+Y',
-  delete: 'Delete',
-  copy: 'Ctrl+C',
-  paste: 'Ctrl+V',
-  cut: 'Ctrl+X',
-  selectAll: 'Ctrl+A',
-  zoomIn: 'Ctrl+=',
-  zoomOut: 'Ctrl+-',
-  fitToScreen: 'Ctrl+0'
-};
-
 // Theme Colors
 export const THEME_COLORS = {
   primary: {
@@ -0,0 +1,60 @@
+import { isAnimated } from '@render';
+import type { ClipEffect, Keyframe, TimelineClip } from '@/types';
+
+/**
+ * エフェクトのキーフレーム編集（時間はクリップ先頭からの秒数）
+ * 補間はプレビュー・エクスポートと同じ @render の parameterAt を使う
+ */
+
+// 再生ヘッドのクリップ内での時間（クリップ外なら端に寄せる）
+export const getClipTime = (clip: TimelineClip, playheadPosition: number): number => {
+  const clipTime = playheadPosition - clip.startTime;
+  return Math.round(Math.min(clip.duration, Math.max(0, clipTime)) * 100) / 100;
+};
+
+// パラメータのキーフレームを差し替えたクリップ（空ならトラックごと外す）
+export const withKeyframeTrack = (
+  clip: TimelineClip,
+  effectId: string,
+  parameter: string,
+  keyframes: Keyframe[]
+): TimelineClip => ({
+  ...clip,
+  effects: (clip.effects || []).map(effect => {
+    if (effect.id !== effectId) return effect;
+    const tracks = { ...effect.keyframes };
+    if (keyframes.length > 0) {
+      tracks[parameter] = [...keyframes].sort((a, b) => a.time - b.time);
+    } else {
+      delete tracks[parameter];
+    }
+    return { ...effect, keyframes: Object.keys(tracks).length > 0 ? tracks : undefined };
+  })
+});
+
+// 指定時間のキーフレームを追加・更新したトラック
+export const setKeyframeAt = (track: Keyframe[], time: number, value: number): Keyframe[] => {
+  const existing = track.find(keyframe => Math.abs(keyframe.time - time) < 0.01);
+  return existing
+    ? track.map(keyframe => keyframe.id === existing.id ? { ...keyframe, value } : keyframe)
+    : [...track, { id: `keyframe-${Date.now()}`, time, value, easing: 'linear' }];
+};
+
+// キーフレームのあるパラメータは clipTime のキーフレームを、ないものは固定値を書き換える
+export const withParameterValue = (
+  clip: TimelineClip,
+  effect: ClipEffect,
+  parameter: string,
+  value: number,
+  clipTime: number
+): TimelineClip => {
+  if (isAnimated(effect, parameter)) {
+    return withKeyframeTrack(clip, effect.id, parameter, setKeyframeAt(effect.keyframes?.[parameter] || [], clipTime, value));
+  }
+  return {
+    ...clip,
+    effects: (clip.effects || []).map(e =>
+      e.id === effect.id ? { ...e, parameters: { ...e.parameters, [parameter]: value } } : e
+    )
+  };
+};
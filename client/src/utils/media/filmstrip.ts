@@ -0,0 +1,62 @@
+import { getSourceTime, type RenderClip } from '@render';
+import type { MediaFilmstrip } from '../../types';
+
+/**
+ * フィルムストリップ（スプライトシート）の切り出し計算
+ * クリップの表示幅にフレームを並べ、各コマにはその位置の素材時間
+ * （速度エフェクトを含めた getSourceTime）に一番近いフレームを割り当てる。
+ */
+
+export interface FilmstripTile {
+  x: number; // クリップ左端からの表示位置（px）
+  width: number; // 表示幅（px）
+  // スプライト内の切り出し範囲（px）
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+export interface FilmstripLayoutOptions {
+  pixelsPerSecond: number;
+  height: number; // 表示高さ（px）
+  // 並べる範囲（クリップ左端からの px）。省略時はクリップ全体
+  from?: number;
+  to?: number;
+}
+
+// 素材時間 time に一番近いフレームのスプライト内位置
+export function getFilmstripFrame(filmstrip: MediaFilmstrip, time: number): Pick<FilmstripTile, 'sx' | 'sy' | 'sw' | 'sh'> {
+  const index = Math.min(
+    filmstrip.frameCount - 1,
+    Math.max(0, Math.round(time / filmstrip.interval))
+  );
+  return {
+    sx: (index % filmstrip.columns) * filmstrip.frameWidth,
+    sy: Math.floor(index / filmstrip.columns) * filmstrip.frameHeight,
+    sw: filmstrip.frameWidth,
+    sh: filmstrip.frameHeight
+  };
+}
+
+// クリップ幅に並べるコマ（from〜to に掛かるコマだけ。最後のコマは右端で切れる）
+export function getFilmstripTiles(
+  filmstrip: MediaFilmstrip,
+  clip: RenderClip,
+  options: FilmstripLayoutOptions
+): FilmstripTile[] {
+  const { pixelsPerSecond, height } = options;
+  const clipWidth = clip.duration * pixelsPerSecond;
+  if (clipWidth <= 0 || height <= 0 || filmstrip.frameCount <= 0) return [];
+
+  const tileWidth = (filmstrip.frameWidth * height) / filmstrip.frameHeight;
+  const from = Math.max(0, options.from ?? 0);
+  const to = Math.min(clipWidth, options.to ?? clipWidth);
+  const tiles: FilmstripTile[] = [];
+  for (let x = Math.floor(from / tileWidth) * tileWidth; x < to; x += tileWidth) {
+    // コマの中央の時間で代表させる
+    const elapsed = Math.min(x + tileWidth / 2, clipWidth) / pixelsPerSecond;
+    tiles.push({ x, width: tileWidth, ...getFilmstripFrame(filmstrip, getSourceTime(clip, elapsed)) });
+  }
+  return tiles;
+}
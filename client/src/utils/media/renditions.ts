@@ -0,0 +1,31 @@
+import type { MediaFile, PreviewQuality, ProxyQuality } from '../../types';
+
+/**
+ * プレビュー画質に合うメディアの読み込み元
+ * プロキシがない（生成前・音声・元が小さい）場合は、より近い画質か元ファイルを使う。
+ * エクスポートは常に元ファイルを使うので、ここはプレビュー専用。
+ */
+
+export interface PreviewSource {
+  url: string;
+  width?: number;
+  height?: number;
+  isProxy: boolean;
+}
+
+// 画質ごとに試すプロキシの順番
+const PROXY_FALLBACKS: Record<PreviewQuality, ProxyQuality[]> = {
+  low: ['low', 'medium'],
+  medium: ['medium'],
+  high: []
+};
+
+export function getPreviewSource(media: MediaFile, quality: PreviewQuality): PreviewSource {
+  for (const level of PROXY_FALLBACKS[quality]) {
+    const proxy = media.proxies?.[level];
+    if (proxy?.url) {
+      return { url: proxy.url, width: proxy.width, height: proxy.height, isProxy: true };
+    }
+  }
+  return { url: media.url, width: media.width, height: media.height, isProxy: false };
+}
@@ -0,0 +1,351 @@
+import { getSourceTime, type RenderClip } from '@render';
+import type { MediaFile, PreviewQuality } from '../../types';
+import { getPreviewSource } from './renditions';
+
+/**
+ * プレビュー用の動画フレーム供給
+ * 描画のたびに <video> をシークすると非同期で間に合わずカクつくため、
+ * 再生ヘッドの前後をクリップごとに先読みデコードして ImageBitmap でキャッシュする。
+ * フレームはプロジェクトの frameRate で区切ったクリップ内のフレーム番号で管理し、
+ * trimStart / trimEnd と速度エフェクトを反映したソース時間からデコードする。
+ * デコード元はプレビュー画質に合うプロキシ（なければ元ファイル）。
+ */
+
+export interface VideoFrame {
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+  exact: boolean; // 要求したフレームそのものか（false なら近いフレームで代用）
+}
+
+export interface VideoFrameProviderOptions {
+  frameRate: number;
+  quality?: PreviewQuality;
+  lookahead?: number; // seconds
+  lookbehind?: number; // seconds
+  maxDimension?: number; // デコードするフレームの長辺（px）
+  maxFrames?: number; // キャッシュする総フレーム数
+}
+
+// プレビューのレイヤー（RenderClip）とタイムラインのクリップのどちらでも受け取る
+type FrameClip = RenderClip & { trimEnd?: number };
+
+interface ClipCache {
+  signature: string; // trim / 速度が変わったら作り直す
+  frames: Map<number, ImageBitmap>;
+}
+
+interface Decoder {
+  mediaId: string;
+  video: HTMLVideoElement;
+  ready: Promise<HTMLVideoElement>;
+  objectUrl: string | null;
+}
+
+interface DecodeTask {
+  clip: FrameClip;
+  media: MediaFile;
+  frameIndex: number;
+  priority: number; // 再生ヘッドからの距離（小さいほど先）
+}
+
+const DEFAULT_LOOKAHEAD = 1;
+const DEFAULT_LOOKBEHIND = 0.25;
+const DEFAULT_MAX_DIMENSION = 960;
+const DEFAULT_MAX_FRAMES = 240;
+const DECODER_TIMEOUT_MS = 10000;
+
+// キャッシュを作り直す必要のあるクリップの項目
+const clipSignature = (clip: FrameClip) =>
+  [clip.mediaId, clip.startTime, clip.duration, clip.trimStart, clip.trimEnd, getSourceTime(clip, 1)].join(':');
+
+export class VideoFrameProvider {
+  private readonly frameRate: number;
+  private quality: PreviewQuality;
+  private lookahead: number;
+  private lookbehind: number;
+  private maxDimension: number;
+  private maxFrames: number;
+
+  private decoders: Map<string, Decoder> = new Map(); // mediaId + 読み込み元 URL -> decoder
+  private caches: Map<string, ClipCache> = new Map(); // clipId -> frames
+  private queue: DecodeTask[] = [];
+  private decoding: Set<string> = new Set(); // デコード中の mediaId（1メディアずつ順番にシークする）
+  private listeners: Set<() => void> = new Set();
+  private disposed = false;
+
+  constructor(options: VideoFrameProviderOptions) {
+    this.frameRate = options.frameRate;
+    this.quality = options.quality ?? 'medium';
+    this.lookahead = options.lookahead ?? DEFAULT_LOOKAHEAD;
+    this.lookbehind = options.lookbehind ?? DEFAULT_LOOKBEHIND;
+    this.maxDimension = options.maxDimension ?? DEFAULT_MAX_DIMENSION;
+    this.maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES;
+  }
+
+  /**
+   * プレビュー画質の変更。キャッシュを捨て、次のデコードから新しい読み込み元を使う
+   */
+  setQuality(quality: PreviewQuality): void {
+    if (quality === this.quality) return;
+    this.quality = quality;
+    this.clear();
+    // デコード中のものは終わってから使われなくなる
+    this.decoders.forEach((decoder, key) => {
+      if (!this.decoding.has(decoder.mediaId)) this.releaseDecoder(key);
+    });
+  }
+
+  /**
+   * フレームがデコードされたときに呼ばれる（描画の更新用）
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * タイムライン上の時刻でのクリップのフレーム
+   * キャッシュにない場合は最も近いデコード済みフレームを返す（なければ null）
+   */
+  getFrame(clip: FrameClip, timelineTime: number): VideoFrame | null {
+    const cache = this.cacheFor(clip);
+    const frameIndex = this.frameIndexAt(clip, timelineTime);
+
+    const exact = cache.frames.get(frameIndex);
+    if (exact) return this.toFrame(exact, true);
+
+    let nearest: ImageBitmap | null = null;
+    let nearestDistance = Infinity;
+    cache.frames.forEach((bitmap, index) => {
+      const distance = Math.abs(index - frameIndex);
+      if (distance < nearestDistance) {
+        nearest = bitmap;
+        nearestDistance = distance;
+      }
+    });
+    return nearest ? this.toFrame(nearest, false) : null;
+  }
+
+  /**
+   * 再生ヘッドの前後のフレームをデコード待ちに入れる
+   * @param clips - 表示中・これから表示するクリップとそのメディア
+   * @param timelineTime - 再生ヘッド位置
+   * @param isPlaying - 再生中は先読みを優先し、停止中は現在フレームの前後だけにする
+   */
+  prefetch(clips: { clip: FrameClip; media: MediaFile }[], timelineTime: number, isPlaying: boolean): void {
+    if (this.disposed) return;
+
+    const ahead = isPlaying ? this.lookahead : 1 / this.frameRate;
+    const behind = isPlaying ? 0 : this.lookbehind;
+    const windowStart = timelineTime - behind;
+    const windowEnd = timelineTime + ahead;
+    const tasks: DecodeTask[] = [];
+
+    clips.forEach(({ clip, media }) => {
+      if (media.type !== 'video') return;
+      const cache = this.cacheFor(clip);
+      const first = Math.max(0, this.frameIndexAt(clip, Math.max(windowStart, clip.startTime)));
+      const last = this.frameIndexAt(clip, Math.min(windowEnd, clip.startTime + clip.duration));
+
+      for (let frameIndex = first; frameIndex <= last; frameIndex++) {
+        if (cache.frames.has(frameIndex)) continue;
+        const frameTime = clip.startTime + frameIndex / this.frameRate;
+        // 再生中は先のフレームを、停止中は近いフレームを優先
+        const distance = frameTime - timelineTime;
+        const priority = distance >= 0 ? distance : -distance + ahead;
+        tasks.push({ clip, media, frameIndex, priority });
+      }
+    });
+
+    // 古い要求は捨てて、新しい再生位置の分だけにする
+    this.queue = tasks.sort((a, b) => a.priority - b.priority);
+    this.evict(clips.map(({ clip }) => clip), timelineTime);
+    this.pump();
+  }
+
+  clear(): void {
+    this.queue = [];
+    this.caches.forEach(cache => cache.frames.forEach(bitmap => bitmap.close()));
+    this.caches.clear();
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.clear();
+    this.listeners.clear();
+    Array.from(this.decoders.keys()).forEach(key => this.releaseDecoder(key));
+  }
+
+  private releaseDecoder(key: string) {
+    const decoder = this.decoders.get(key);
+    if (!decoder) return;
+    this.decoders.delete(key);
+    decoder.video.removeAttribute('src');
+    decoder.video.load();
+    if (decoder.objectUrl) URL.revokeObjectURL(decoder.objectUrl);
+  }
+
+  private toFrame(bitmap: ImageBitmap, exact: boolean): VideoFrame {
+    return { bitmap, width: bitmap.width, height: bitmap.height, exact };
+  }
+
+  private frameIndexAt(clip: FrameClip, timelineTime: number): number {
+    const clipTime = Math.min(Math.max(0, timelineTime - clip.startTime), clip.duration);
+    return Math.floor(clipTime * this.frameRate + 1e-6);
+  }
+
+  private cacheFor(clip: FrameClip): ClipCache {
+    const signature = clipSignature(clip);
+    let cache = this.caches.get(clip.id);
+    if (!cache || cache.signature !== signature) {
+      cache?.frames.forEach(bitmap => bitmap.close());
+      cache = { signature, frames: new Map() };
+      this.caches.set(clip.id, cache);
+    }
+    return cache;
+  }
+
+  // 上限を超えたら、再生ヘッドから遠いフレームから捨てる
+  private evict(activeClips: FrameClip[], timelineTime: number) {
+    const active = new Set(activeClips.map(clip => clip.id));
+    this.caches.forEach((cache, clipId) => {
+      if (!active.has(clipId)) {
+        cache.frames.forEach(bitmap => bitmap.close());
+        this.caches.delete(clipId);
+      }
+    });
+
+    const entries: { clip: FrameClip; frameIndex: number; distance: number }[] = [];
+    activeClips.forEach(clip => {
+      this.caches.get(clip.id)?.frames.forEach((_, frameIndex) => {
+        const frameTime = clip.startTime + frameIndex / this.frameRate;
+        entries.push({ clip, frameIndex, distance: Math.abs(frameTime - timelineTime) });
+      });
+    });
+    if (entries.length <= this.maxFrames) return;
+
+    entries
+      .sort((a, b) => b.distance - a.distance)
+      .slice(0, entries.length - this.maxFrames)
+      .forEach(({ clip, frameIndex }) => {
+        const frames = this.caches.get(clip.id)?.frames;
+        frames?.get(frameIndex)?.close();
+        frames?.delete(frameIndex);
+      });
+  }
+
+  // メディアごとに1フレームずつ順番にデコードする
+  private pump() {
+    const next = this.queue.find(task => !this.decoding.has(task.media.id));
+    if (!next || this.disposed) return;
+    this.queue = this.queue.filter(task => task !== next);
+    this.decoding.add(next.media.id);
+
+    this.decodeFrame(next)
+      .catch(error => {
+        console.warn('動画フレームのデコードに失敗しました:', next.media.name, error);
+      })
+      .finally(() => {
+        this.decoding.delete(next.media.id);
+        this.pump();
+      });
+
+    // 別メディアのタスクは並行して進める
+    this.pump();
+  }
+
+  private async decodeFrame({ clip, media, frameIndex }: DecodeTask): Promise<void> {
+    const video = await this.decoderFor(media).ready;
+    const cache = this.caches.get(clip.id);
+    // デコード待ちの間にクリップが変更・破棄された
+    if (this.disposed || !cache || cache.signature !== clipSignature(clip) || cache.frames.has(frameIndex)) return;
+
+    // トリム範囲の外（ソースの終端を越える速度など）は範囲内の最後のフレームで止める
+    const frameDuration = 1 / this.frameRate;
+    // trimEnd はソース上の終了位置（秒）
+    const sourceEnd = Math.max(0, Math.min(video.duration, clip.trimEnd || video.duration) - frameDuration / 2);
+    const sourceTime = Math.min(Math.max(0, getSourceTime(clip, frameIndex * frameDuration)), sourceEnd);
+
+    await seekTo(video, sourceTime);
+    if (this.disposed || this.caches.get(clip.id) !== cache) return;
+
+    const scale = Math.min(1, this.maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    const bitmap = await createImageBitmap(video, {
+      resizeWidth: Math.max(1, Math.round(video.videoWidth * scale)),
+      resizeHeight: Math.max(1, Math.round(video.videoHeight * scale)),
+      resizeQuality: 'medium'
+    });
+    if (this.disposed || this.caches.get(clip.id) !== cache) {
+      bitmap.close();
+      return;
+    }
+
+    cache.frames.set(frameIndex, bitmap);
+    this.listeners.forEach(listener => listener());
+  }
+
+  private decoderFor(media: MediaFile): Decoder {
+    // アップロード前のローカルファイルはそのまま、それ以外は画質に合うプロキシから読む
+    const localFile = media.originalFile instanceof File ? media.originalFile : null;
+    const sourceUrl = localFile ? null : getPreviewSource(media, this.quality).url;
+    const key = `${media.id}:${sourceUrl ?? 'local'}`;
+
+    let decoder = this.decoders.get(key);
+    if (decoder) return decoder;
+
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+    video.playsInline = true;
+
+    const objectUrl = localFile ? URL.createObjectURL(localFile) : null;
+    const ready = new Promise<HTMLVideoElement>((resolve, reject) => {
+      const timeoutId = setTimeout(() => reject(new Error('動画読み込みタイムアウト')), DECODER_TIMEOUT_MS);
+      video.onloadeddata = () => {
+        clearTimeout(timeoutId);
+        resolve(video);
+      };
+      video.onerror = () => {
+        clearTimeout(timeoutId);
+        reject(new Error('動画を読み込めませんでした'));
+      };
+    });
+    video.src = objectUrl || sourceUrl!;
+
+    decoder = { mediaId: media.id, video, ready, objectUrl };
+    this.decoders.set(key, decoder);
+    // 読み込みに失敗したら次の要求で作り直す
+    ready.catch(() => {
+      if (this.decoders.get(key) === decoder) this.decoders.delete(key);
+    });
+    return decoder;
+  }
+}
+
+// シーク完了（表示フレームが更新されるまで）を待つ
+function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  if (Math.abs(video.currentTime - time) < 1e-4 && video.readyState >= 2) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('シークに失敗しました'));
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+}
@@ -0,0 +1,318 @@
+import { getClipSpeed } from '@render';
+import type { BPMAnalysis, ClipEffect, EditRecipe, EffectType, Keyframe, Timeline, TimelineClip, Transition } from '@/types';
+
+/**
+ * レシピ適用結果（選択クリップを clips で置き換える）
+ */
+export interface RecipeResult {
+  clips: TimelineClip[];
+  description: string;
+}
+
+type RecipeHandler = (recipe: EditRecipe, clip: TimelineClip, analysis: BPMAnalysis) => TimelineClip[];
+
+// フラッシュの立ち上がり時間（秒）
+const FLASH_ATTACK = 1 / 30;
+
+// 小節情報がない場合の1小節あたりの拍数
+const DEFAULT_BEATS_PER_BAR = 4;
+
+/**
+ * タイムライン上の解析済み音声トラックから BPMAnalysis を組み立てる
+ * 拍・小節の時刻はトラックの開始位置を足してタイムライン時刻にする
+ */
+export function getTimelineBPMAnalysis(timeline: Timeline): BPMAnalysis | undefined {
+  const track = (timeline.audioTracks || []).find(t => t.bpm && t.beats && t.beats.length > 0);
+  if (!track || !track.bpm || !track.beats) return undefined;
+
+  const offset = track.startTime || 0;
+  return {
+    bpm: track.bpm,
+    confidence: track.confidence ?? 0,
+    beatTimes: track.beats.map(time => time + offset),
+    bars: (track.bars || []).map(time => time + offset),
+    timeSignature: { numerator: DEFAULT_BEATS_PER_BAR, denominator: 4 }
+  };
+}
+
+function getBars(analysis: BPMAnalysis): number[] {
+  if (analysis.bars.length > 0) return analysis.bars;
+  const beatsPerBar = analysis.timeSignature?.numerator || DEFAULT_BEATS_PER_BAR;
+  return analysis.beatTimes.filter((_, index) => index % beatsPerBar === 0);
+}
+
+/**
+ * クリップ内に入る時刻をクリップ先頭からの秒数で返す
+ */
+function toClipTimes(times: number[], clip: TimelineClip): number[] {
+  return times
+    .map(time => time - clip.startTime)
+    .filter(time => time >= 0 && time < clip.duration)
+    .sort((a, b) => a - b);
+}
+
+function getTriggerTimes(recipe: EditRecipe, clip: TimelineClip, analysis: BPMAnalysis): number[] {
+  const times = recipe.trigger === 'bar' ? getBars(analysis) : analysis.beatTimes;
+  return toClipTimes(times, clip);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function createId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function createKeyframe(time: number, value: number, easing: Keyframe['easing'] = 'linear'): Keyframe {
+  return { id: createId('keyframe'), time: round(time), value: round(value), easing };
+}
+
+/**
+ * 指定タイプのエフェクトにキーフレームトラックを設定する
+ * 既存のエフェクトがあればそのトラックを置き換え、なければ追加する
+ */
+function setEffectTracks(
+  clip: TimelineClip,
+  type: EffectType,
+  tracks: Record<string, Keyframe[]>,
+  parameters: ClipEffect['parameters'] = {}
+): TimelineClip {
+  const effects = clip.effects || [];
+  const existing = effects.find(effect => effect.type === type && effect.enabled);
+
+  if (existing) {
+    return {
+      ...clip,
+      effects: effects.map(effect => effect.id === existing.id
+        ? { ...effect, keyframes: { ...effect.keyframes, ...tracks } }
+        : effect
+      )
+    };
+  }
+
+  const effect: ClipEffect = {
+    id: createId('effect'),
+    type,
+    parameters,
+    keyframes: tracks,
+    enabled: true
+  };
+  return { ...clip, effects: [...effects, effect] };
+}
+
+function toTransition(type: string, duration: number, parameters: Transition['parameters'] = {}): Transition | undefined {
+  if (type === 'cut' || !(duration > 0)) return undefined;
+  return { type: type as Transition['type'], duration, parameters };
+}
+
+/**
+ * クリップを cutTimes（クリップ先頭からの秒数）で分割する
+ * 分割点には transition を入り側のトランジションとして設定する
+ */
+export function splitClipAt(clip: TimelineClip, cutTimes: number[], transition?: Transition): TimelineClip[] {
+  const cuts = cutTimes.filter(time => time > 0 && time < clip.duration);
+  const bounds = [0, ...Array.from(new Set(cuts)), clip.duration];
+  const speed = getClipSpeed(clip);
+  const lastIndex = bounds.length - 2;
+
+  return bounds.slice(0, -1).map((from, index) => {
+    const to = bounds[index + 1];
+    const duration = round(to - from);
+    const trimStart = round(clip.trimStart + from * speed);
+
+    // キーフレームはクリップ先頭基準なので分割位置だけずらす
+    const effects = (clip.effects || [])
+      .filter(effect => effect.type !== 'fade' ||
+        (effect.parameters.type === 'out' ? index === lastIndex : index === 0))
+      .map(effect => ({
+        ...effect,
+        id: `${effect.id}_${index}`,
+        keyframes: effect.keyframes && Object.fromEntries(
+          Object.entries(effect.keyframes).map(([parameter, track]) => [
+            parameter,
+            track.map(keyframe => ({ ...keyframe, time: round(keyframe.time - from) }))
+          ])
+        )
+      }));
+
+    return {
+      ...clip,
+      id: index === 0 ? clip.id : createId('clip'),
+      startTime: round(clip.startTime + from),
+      duration,
+      trimStart,
+      trimEnd: round(trimStart + duration * speed),
+      effects,
+      transitions: {
+        in: index === 0 ? clip.transitions?.in : transition,
+        out: index === lastIndex ? clip.transitions?.out : undefined
+      }
+    };
+  });
+}
+
+const beatCut: RecipeHandler = (recipe, clip, analysis) => {
+  const { cutInterval = 'every_beat', transitionType = 'cut', transitionDuration = 0.1 } = recipe.parameters;
+  const times = cutInterval === 'every_bar'
+    ? getBars(analysis)
+    : analysis.beatTimes.filter((_, index) => cutInterval !== 'every_2_beats' || index % 2 === 0);
+
+  return splitClipAt(clip, toClipTimes(times, clip), toTransition(transitionType, transitionDuration));
+};
+
+const slideTransition: RecipeHandler = (recipe, clip, analysis) => {
+  const { direction = 'left', duration = 0.5, easing = 'ease-in-out' } = recipe.parameters;
+  return splitClipAt(
+    clip,
+    toClipTimes(getBars(analysis), clip),
+    toTransition('slide', duration, { direction, easing })
+  );
+};
+
+const beatZoom: RecipeHandler = (recipe, clip, analysis) => {
+  const { zoomStrength = 0.1, zoomDirection = 'alternating', easing = 'ease-out' } = recipe.parameters;
+  const times = getTriggerTimes(recipe, clip, analysis);
+  const peak = 1 + zoomStrength;
+  const zoom: Keyframe[] = [];
+
+  times.forEach((time, index) => {
+    const next = times[index + 1] ?? clip.duration;
+    if (zoomDirection === 'alternating') {
+      // 拍ごとにズームイン・アウトを交互に繰り返す
+      zoom.push(createKeyframe(time, index % 2 === 0 ? 1 : peak, easing));
+    } else {
+      // 拍の半分で振り切り、次の拍までに戻る
+      const [from, to] = zoomDirection === 'out' ? [peak, 1] : [1, peak];
+      zoom.push(createKeyframe(time, from, easing));
+      zoom.push(createKeyframe(time + (next - time) / 2, to, easing));
+    }
+  });
+
+  return zoom.length > 0 ? [setEffectTracks(clip, 'pan_zoom', { zoom }, { zoom: 1, panX: 0, panY: 0 })] : [clip];
+};
+
+const colorFlash: RecipeHandler = (recipe, clip, analysis) => {
+  // colorShift（色相）はレンダラー未対応のため明るさのフラッシュのみ
+  const { flashIntensity = 0.3, duration = 0.15 } = recipe.parameters;
+  const times = getTriggerTimes(recipe, clip, analysis);
+  const value: Keyframe[] = [];
+
+  times.forEach((time, index) => {
+    const next = times[index + 1] ?? clip.duration + FLASH_ATTACK;
+    if (time >= FLASH_ATTACK) value.push(createKeyframe(time - FLASH_ATTACK, 0));
+    value.push(createKeyframe(time, flashIntensity * 100, 'ease-out'));
+    value.push(createKeyframe(Math.min(time + duration, next - FLASH_ATTACK), 0));
+  });
+
+  return value.length > 0 ? [setEffectTracks(clip, 'brightness', { value }, { value: 0 })] : [clip];
+};
+
+const shakeEffect: RecipeHandler = (recipe, clip, analysis) => {
+  const { intensity = 0.02, frequency = 20, duration = 0.2, direction = 'xy' } = recipe.parameters;
+  const times = getTriggerTimes(recipe, clip, analysis);
+  const steps = Math.max(1, Math.round(duration * frequency));
+  const panX: Keyframe[] = [];
+  const panY: Keyframe[] = [];
+
+  times.forEach((time, index) => {
+    const next = times[index + 1] ?? clip.duration;
+    for (let step = 0; step <= steps; step++) {
+      const at = time + step / frequency;
+      if (at >= next) break;
+      // 揺れは減衰させ、最後は中央に戻す
+      const amplitude = step === 0 || step === steps ? 0 : intensity * (1 - step / steps);
+      const sign = step % 2 === 0 ? 1 : -1;
+      if (direction !== 'y') panX.push(createKeyframe(at, amplitude * sign));
+      if (direction !== 'x') panY.push(createKeyframe(at, amplitude * (Math.floor(step / 2) % 2 === 0 ? 1 : -1)));
+    }
+  });
+
+  if (panX.length === 0 && panY.length === 0) return [clip];
+
+  // パンできる余白のため、ズームが未設定なら揺れ幅分だけ拡大しておく
+  const panZoom = clip.effects?.find(effect => effect.type === 'pan_zoom' && effect.enabled);
+  const tracks: Record<string, Keyframe[]> = {};
+  if (panX.length > 0) tracks.panX = panX;
+  if (panY.length > 0) tracks.panY = panY;
+  if (!panZoom?.keyframes?.zoom) tracks.zoom = [createKeyframe(0, 1 + intensity * 2)];
+
+  return [setEffectTracks(clip, 'pan_zoom', tracks, { zoom: 1, panX: 0, panY: 0 })];
+};
+
+const autoKenBurns: RecipeHandler = (recipe, clip, analysis) => {
+  const { panAmount = 0.1, zoomAmount = 0.15, duration = 'bar_length', randomDirection = true } = recipe.parameters;
+  const barsPerMove = duration === '4_bars' ? 4 : duration === '2_bars' ? 2 : 1;
+  const times = toClipTimes(getBars(analysis), clip).filter((_, index) => index % barsPerMove === 0);
+  if (times.length === 0 || times[0] > 0) times.unshift(0);
+
+  const zoom: Keyframe[] = [];
+  const panX: Keyframe[] = [];
+  const panY: Keyframe[] = [];
+
+  [...times, clip.duration].forEach((time, index) => {
+    const angle = randomDirection ? Math.random() * Math.PI * 2 : (index % 4) * (Math.PI / 2);
+    const zoomed = index % 2 === 1;
+    zoom.push(createKeyframe(time, zoomed ? 1 + zoomAmount : 1, 'ease-in-out'));
+    panX.push(createKeyframe(time, zoomed ? Math.cos(angle) * panAmount : 0, 'ease-in-out'));
+    panY.push(createKeyframe(time, zoomed ? Math.sin(angle) * panAmount : 0, 'ease-in-out'));
+  });
+
+  return [setEffectTracks(clip, 'pan_zoom', { zoom, panX, panY }, { zoom: 1, panX: 0, panY: 0 })];
+};
+
+/**
+ * レシピID → 編集処理
+ */
+export const RECIPE_HANDLERS: Record<string, RecipeHandler> = {
+  beat_cut: beatCut,
+  beat_zoom: beatZoom,
+  color_flash: colorFlash,
+  shake_effect: shakeEffect,
+  slide_transition: slideTransition,
+  auto_ken_burns: autoKenBurns
+};
+
+export function isRecipeSupported(recipe: EditRecipe): boolean {
+  return recipe.id in RECIPE_HANDLERS;
+}
+
+/**
+ * レシピをクリップに適用し、置き換え後のクリップを返す
+ */
+export function executeRecipe(recipe: EditRecipe, clip: TimelineClip, analysis: BPMAnalysis | undefined): RecipeResult {
+  const handler = RECIPE_HANDLERS[recipe.id];
+  if (!handler) {
+    throw new Error(`Recipe not supported: ${recipe.id}`);
+  }
+  if (!analysis || analysis.beatTimes.length === 0) {
+    throw new Error('Recipe requires a BPM analysis with beats');
+  }
+
+  const clips = handler(recipe, clip, analysis);
+  return {
+    clips,
+    description: `Apply recipe: ${recipe.name}`
+  };
+}
+
+/**
+ * レシピを適用したタイムラインを返す（元のタイムラインは変更しない）
+ */
+export function applyRecipeToTimeline(
+  timeline: Timeline,
+  recipe: EditRecipe,
+  clip: TimelineClip,
+  analysis: BPMAnalysis | undefined
+): { timeline: Timeline; result: RecipeResult } {
+  const index = timeline.clips.findIndex(c => c.id === clip.id);
+  if (index < 0) {
+    throw new Error(`Clip not found: ${clip.id}`);
+  }
+
+  const result = executeRecipe(recipe, timeline.clips[index], analysis);
+  const clips = [...timeline.clips];
+  clips.splice(index, 1, ...result.clips);
+
+  return { timeline: { ...timeline, clips }, result };
+}
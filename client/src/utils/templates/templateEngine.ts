@@ -0,0 +1,271 @@
+import { beatPositionAt, timeAtBeatPosition, type TempoMap } from '@analysis';
+import { getClipSpeed } from '@render';
+import type {
+  AudioTrack,
+  BPMAnalysis,
+  MediaFile,
+  Project,
+  TemplateClipBeats,
+  TemplateProjectData,
+  TemplateSlot,
+  Timeline,
+  TimelineClip
+} from '@/types';
+import { getTimelineBPMAnalysis } from '../recipes/recipeEngine';
+
+/**
+ * テンプレートの保存・スロットの埋め込み・曲に合わせた再配置
+ * テンプレートではクリップと音声トラックがメディアの代わりにスロット（slotId）を参照する。
+ * 保存時に曲の解析があれば各クリップの位置を拍で記録しておき、
+ * 新しい曲を埋めて解析したら、その曲の拍に合わせてカット位置と長さを合わせ直す。
+ */
+
+export interface TemplateDraft {
+  slots: TemplateSlot[];
+  projectData: TemplateProjectData;
+}
+
+// 拍位置がこの範囲内なら 1/4 拍単位に揃える（解析の揺れで拍ちょうどのカットがずれないように）
+const BEAT_SNAP_STEP = 0.25;
+const BEAT_SNAP_TOLERANCE = 0.08;
+
+// 合わせ直したクリップの最短の長さ（秒）
+const MIN_CLIP_DURATION = 0.1;
+
+// 曲ごとに変わるので、テンプレートには残さない音声トラックの項目
+const SONG_TRACK_FIELDS = ['mediaId', 'url', 'bpm', 'beats', 'bars', 'confidence', 'analyzedAt', 'originalFile'] as const;
+
+const round = (value: number, digits = 3) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+function snapBeat(position: number): number {
+  const snapped = Math.round(position / BEAT_SNAP_STEP) * BEAT_SNAP_STEP;
+  return Math.abs(snapped - position) <= BEAT_SNAP_TOLERANCE ? snapped : round(position);
+}
+
+/**
+ * BPMAnalysis のテンポマップ（なければ拍の時刻から組み立てる）を offset 秒ずらしたもの
+ */
+export function toTempoMap(analysis: BPMAnalysis, offset = 0): TempoMap {
+  const map: TempoMap = analysis.tempoMap || {
+    bpm: analysis.bpm,
+    beats: analysis.beatTimes,
+    downbeats: analysis.bars,
+    segments: analysis.beatTimes.length > 0 ? [{ start: analysis.beatTimes[0], bpm: analysis.bpm, beatIndex: 0 }] : [],
+    timeSignature: analysis.timeSignature
+  };
+  if (offset === 0) return map;
+  return {
+    ...map,
+    beats: map.beats.map(time => time + offset),
+    downbeats: map.downbeats.map(time => time + offset),
+    segments: map.segments.map(segment => ({ ...segment, start: segment.start + offset }))
+  };
+}
+
+export const isSlotCompatible = (slot: TemplateSlot, media: MediaFile) =>
+  slot.type === 'audio' ? media.type === 'audio' : media.type === 'video' || media.type === 'image';
+
+export const getUnfilledSlots = (timeline: Timeline): TemplateSlot[] =>
+  (timeline.template?.slots || []).filter(slot => !slot.mediaId);
+
+/**
+ * プロジェクトをテンプレートにする
+ * 使っているメディアごとにスロットを作り（テンプレートから作ったクリップは元のスロットを引き継ぐ）、
+ * 曲の解析があればクリップの拍位置を記録する
+ */
+export function createTemplateFromProject(project: Project): TemplateDraft {
+  const { timeline } = project;
+  const slots: TemplateSlot[] = [];
+  const slotByMedia = new Map<string, string>();
+  const existingSlots = new Map((timeline.template?.slots || []).map(slot => [slot.id, slot]));
+
+  const slotFor = (mediaId: string, previousSlotId: string | undefined, type: TemplateSlot['type'], name: string) => {
+    const key = `${type}:${mediaId || previousSlotId}`;
+    const known = slotByMedia.get(key);
+    if (known) return known;
+
+    const previous = previousSlotId ? existingSlots.get(previousSlotId) : undefined;
+    let id = previous && !slots.some(slot => slot.id === previous.id) ? previous.id : '';
+    for (let n = slots.length + 1; !id; n++) {
+      const candidate = `slot-${n}`;
+      if (!existingSlots.has(candidate) && !slots.some(slot => slot.id === candidate)) id = candidate;
+    }
+    slots.push({ id, name: previous?.name || name, type });
+    slotByMedia.set(key, id);
+    return id;
+  };
+
+  const clips = [...timeline.clips]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((clip): TimelineClip => ({
+      ...clip,
+      mediaId: '',
+      slotId: slotFor(clip.mediaId, clip.slotId, 'visual', `クリップ ${slots.filter(s => s.type === 'visual').length + 1}`)
+    }));
+
+  const audioTracks = timeline.audioTracks.map((track): AudioTrack => {
+    const stored: AudioTrack = { ...track };
+    SONG_TRACK_FIELDS.forEach(field => delete stored[field]);
+    const songs = slots.filter(s => s.type === 'audio').length;
+    return {
+      ...stored,
+      slotId: slotFor(track.mediaId || track.url || track.id, track.slotId, 'audio', songs === 0 ? '曲' : `曲 ${songs + 1}`)
+    };
+  });
+
+  // 曲の拍に対するクリップの位置
+  const analysis = getTimelineBPMAnalysis(timeline);
+  const map = analysis ? toTempoMap(analysis) : undefined;
+  const clipBeats: Record<string, TemplateClipBeats> = {};
+  if (map && map.beats.length > 1) {
+    clips.forEach(clip => {
+      clipBeats[clip.id] = {
+        start: snapBeat(beatPositionAt(map, clip.startTime)),
+        end: snapBeat(beatPositionAt(map, clip.startTime + clip.duration))
+      };
+    });
+  }
+
+  return {
+    slots,
+    projectData: {
+      settings: project.settings,
+      timeline: {
+        ...timeline,
+        clips,
+        audioTracks,
+        playheadPosition: 0,
+        template: {
+          slots,
+          clipBeats,
+          ...(analysis ? { tempo: { bpm: analysis.bpm, beatsPerBar: analysis.timeSignature.numerator || 4 } } : {})
+        }
+      },
+      ...(project.beatGrid ? { beatGrid: project.beatGrid } : {})
+    }
+  };
+}
+
+/**
+ * 素材の長さに収まるように動画クリップの読み始めを前にずらす
+ */
+function fitClipToMedia(clip: TimelineClip, media: MediaFile | undefined): TimelineClip {
+  const needed = clip.duration * getClipSpeed(clip);
+  let trimStart = clip.trimStart || 0;
+  if (media?.type === 'video' && media.duration && trimStart + needed > media.duration) {
+    trimStart = Math.max(0, media.duration - needed);
+  }
+  return { ...clip, trimStart: round(trimStart), trimEnd: round(trimStart + needed) };
+}
+
+/**
+ * スロットにメディアを埋める（同じスロットのクリップ・音声トラックすべて）
+ * 曲を埋めたら、解析後に refitTemplateTimeline で拍に合わせ直す
+ */
+export function fillTemplateSlot(timeline: Timeline, slotId: string, media: MediaFile): Timeline {
+  const template = timeline.template;
+  const slot = template?.slots.find(s => s.id === slotId);
+  if (!template || !slot || !isSlotCompatible(slot, media)) return timeline;
+
+  return {
+    ...timeline,
+    clips: timeline.clips.map(clip =>
+      clip.slotId === slotId ? fitClipToMedia({ ...clip, mediaId: media.id }, media) : clip
+    ),
+    audioTracks: timeline.audioTracks.map(track => {
+      if (track.slotId !== slotId) return track;
+      const updated: AudioTrack = { ...track, mediaId: media.id, name: media.name, url: media.url };
+      // 前の曲の解析は使えない
+      SONG_TRACK_FIELDS.filter(field => field !== 'mediaId' && field !== 'url').forEach(field => delete updated[field]);
+      return media.duration ? { ...updated, duration: media.duration } : updated;
+    }),
+    template: {
+      ...template,
+      slots: template.slots.map(s => (s.id === slotId ? { ...s, mediaId: media.id } : s))
+    }
+  };
+}
+
+function scaleClipTimes(clip: TimelineClip, ratio: number): TimelineClip {
+  if (ratio === 1) return clip;
+  return {
+    ...clip,
+    effects: clip.effects?.map(effect => {
+      if (!effect.keyframes) return effect;
+      const keyframes: typeof effect.keyframes = {};
+      Object.entries(effect.keyframes).forEach(([parameter, track]) => {
+        keyframes[parameter] = track.map(keyframe => ({ ...keyframe, time: round(keyframe.time * ratio) }));
+      });
+      return { ...effect, keyframes };
+    }),
+    ...(clip.reframe?.keyframes
+      ? {
+          reframe: {
+            ...clip.reframe,
+            keyframes: clip.reframe.keyframes.map(keyframe => ({ ...keyframe, time: round(keyframe.time * ratio) }))
+          }
+        }
+      : {})
+  };
+}
+
+/**
+ * 曲スロットの新しい曲の解析に合わせて、拍位置を記録したクリップの位置と長さを合わせ直す
+ * 拍ちょうどだったカットは新しい曲の拍に乗り、クリップ内のキーフレームは長さに比例して伸縮する。
+ * 曲の音声トラックには解析結果（BPM・拍・小節）を書き込む。
+ */
+export function refitTemplateTimeline(
+  timeline: Timeline,
+  slotId: string,
+  analysis: BPMAnalysis,
+  mediaLibrary: MediaFile[] = []
+): Timeline {
+  const template = timeline.template;
+  const track = timeline.audioTracks.find(t => t.slotId === slotId);
+  if (!template || !track) return timeline;
+
+  const map = toTempoMap(analysis, track.startTime || 0);
+  const mediaById = new Map(mediaLibrary.map(media => [media.id, media]));
+  let end = 0;
+
+  const clips = timeline.clips.map(clip => {
+    const beats = template.clipBeats[clip.id];
+    if (!beats || map.beats.length < 2) {
+      end = Math.max(end, clip.startTime + clip.duration);
+      return clip;
+    }
+
+    // 先頭から始まるクリップは先頭のまま（最初の拍より前の弱起も含める）
+    const startTime = clip.startTime === 0 ? 0 : Math.max(0, round(timeAtBeatPosition(map, beats.start)));
+    const duration = Math.max(MIN_CLIP_DURATION, round(timeAtBeatPosition(map, beats.end) - startTime));
+    end = Math.max(end, startTime + duration);
+
+    const scaled = scaleClipTimes({ ...clip, startTime, duration }, duration / clip.duration);
+    return fitClipToMedia(scaled, mediaById.get(clip.mediaId));
+  });
+
+  return {
+    ...timeline,
+    clips,
+    duration: Object.keys(template.clipBeats).length > 0 ? Math.ceil(end) : timeline.duration,
+    audioTracks: timeline.audioTracks.map(t =>
+      t.id === track.id
+        ? {
+            ...t,
+            bpm: analysis.bpm,
+            beats: analysis.beatTimes,
+            bars: analysis.bars,
+            confidence: analysis.confidence,
+            analyzedAt: new Date().toISOString()
+          }
+        : t
+    ),
+    template: {
+      ...template,
+      tempo: { bpm: analysis.bpm, beatsPerBar: analysis.timeSignature.numerator || 4 }
+    }
+  };
+}
@@ -0,0 +1,137 @@
+import { mixToMono, trackBeats } from '@analysis';
+import { FREQUENCY_BANDS, type AudioAnalysisProgress, type BandEnergyTrack, type LocalAudioAnalysis } from '@/types';
+import type {
+  AudioAnalysisRequest,
+  AudioAnalysisTask,
+  AudioAnalysisWorkerMessage
+} from '@/utils/audio/audioAnalysisClient';
+import { toBPMAnalysis } from '@/utils/audio/bpmDetector';
+import {
+  computeByteSpectra,
+  detectTriggerEvents,
+  getBandEnergy,
+  type PCMSource
+} from '@/utils/audio/frequencyTriggers';
+
+/**
+ * 音声解析ワーカー
+ * audioAnalysisClient から1件のリクエスト（解析 / トリガー検出）を受け取り、進捗と結果を返す
+ */
+
+// スペクトログラムの解像度（AnalyserNode のフレームを間引いてビンをまとめる）
+const SPECTROGRAM_FRAME_STEP = 3;
+const SPECTROGRAM_BINS = 64;
+
+// 進捗の配分
+const BEATS_WEIGHT = 0.5;
+const SPECTRUM_WEIGHT = 0.45;
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AudioAnalysisRequest>) => void) | null;
+  postMessage: <K extends AudioAnalysisTask>(message: AudioAnalysisWorkerMessage<K>) => void;
+};
+
+function reportProgress(stage: AudioAnalysisProgress['stage'], progress: number): void {
+  scope.postMessage({ type: 'progress', progress: { stage, progress: Math.min(1, progress) } });
+}
+
+function computeWaveformPeaks(samples: Float32Array, width: number): Float32Array {
+  const blockSize = Math.max(1, Math.floor(samples.length / width));
+  const peaks = new Float32Array(width * 2);
+
+  for (let i = 0; i < width; i++) {
+    const start = i * blockSize;
+    const end = Math.min(start + blockSize, samples.length);
+    let min = 0;
+    let max = 0;
+    for (let j = start; j < end; j++) {
+      if (samples[j] > max) max = samples[j];
+      if (samples[j] < min) min = samples[j];
+    }
+    peaks[i * 2] = max;
+    peaks[i * 2 + 1] = min;
+  }
+
+  return peaks;
+}
+
+function analyze(request: Extract<AudioAnalysisRequest, { task: 'analyze' }>): LocalAudioAnalysis {
+  const { mediaId, sampleRate, duration, channels, waveformWidth } = request;
+  const mono = mixToMono(channels);
+
+  // ビート検出
+  const tracking = trackBeats(mono, sampleRate, {
+    onProgress: progress => reportProgress('beats', progress * BEATS_WEIGHT)
+  });
+
+  // 帯域エネルギーとスペクトログラム（FrequencyAnalyzer と同じ AnalyserNode 相当のスペクトル）
+  const { frames, frameRate, binSize } = computeByteSpectra(toPCMSource([mono], sampleRate), progress =>
+    reportProgress('spectrum', BEATS_WEIGHT + progress * SPECTRUM_WEIGHT)
+  );
+
+  const bandEnergies: BandEnergyTrack[] = Object.keys(FREQUENCY_BANDS).map(name => {
+    const [low, high] = FREQUENCY_BANDS[name as keyof typeof FREQUENCY_BANDS];
+    const range: [number, number] = [low, high];
+    const energies = new Float32Array(frames.length);
+    frames.forEach((spectrum, frame) => {
+      energies[frame] = getBandEnergy(spectrum, range, binSize);
+    });
+    return { name, range, energies };
+  });
+
+  const spectrogram: number[][] = [];
+  for (let frame = 0; frame < frames.length; frame += SPECTROGRAM_FRAME_STEP) {
+    const spectrum = frames[frame];
+    const group = Math.floor(spectrum.length / SPECTROGRAM_BINS);
+    const row: number[] = [];
+    for (let bin = 0; bin < SPECTROGRAM_BINS; bin++) {
+      let sum = 0;
+      for (let i = bin * group; i < (bin + 1) * group; i++) sum += spectrum[i];
+      row.push(Math.round((sum / group / 255) * 1000) / 1000);
+    }
+    spectrogram.push(row);
+  }
+
+  // 波形
+  reportProgress('waveform', BEATS_WEIGHT + SPECTRUM_WEIGHT);
+  const waveformPeaks = computeWaveformPeaks(channels[0] || mono, waveformWidth);
+  reportProgress('waveform', 1);
+
+  return {
+    mediaId,
+    duration,
+    sampleRate,
+    bpmAnalysis: toBPMAnalysis(tracking),
+    frameRate,
+    bandEnergies,
+    waveformPeaks,
+    spectrogram,
+    spectrogramFrameRate: frameRate / SPECTROGRAM_FRAME_STEP,
+    analyzedAt: new Date().toISOString()
+  };
+}
+
+function toPCMSource(channels: Float32Array[], sampleRate: number): PCMSource {
+  return {
+    sampleRate,
+    numberOfChannels: channels.length,
+    length: channels[0]?.length || 0,
+    getChannelData: (channel: number) => channels[channel]
+  };
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  try {
+    if (request.task === 'triggers') {
+      const events = detectTriggerEvents(toPCMSource(request.channels, request.sampleRate), request.triggers, progress =>
+        reportProgress('spectrum', progress)
+      );
+      scope.postMessage<'triggers'>({ type: 'result', result: events });
+    } else {
+      scope.postMessage<'analyze'>({ type: 'result', result: analyze(request) });
+    }
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -17,6 +17,19 @@ export default defineConfig({
       '@/hooks': resolve(__dirname, './src/hooks'),
       '@/data': resolve(__dirname, './src/data'),
       '@/styles': resolve(__dirname, './src/styles'),
+      // Timeline renderer shared with the export worker
+      '@render': resolve(__dirname, '../worker/src/render'),
+      // Beat tracker shared with the server
+      '@analysis': resolve(__dirname, '../worker/src/analysis'),
+      // Plan entitlements shared with the server
+      '@entitlements': resolve(__dirname, '../worker/src/entitlements'),
+      // Timeline operations shared with the collaboration server
+      '@collab': resolve(__dirname, '../worker/src/collab'),
+    },
+  },
+  server: {
+    fs: {
+      allow: ['..'],
     },
   },
 })
@@ -61,6 +61,10 @@ npm install
 cd $APP_DIR/client
 npm install
 
+# ワーカー依存関係（サーバーが worker/dist の共有モジュールを読み込むため）
+cd $APP_DIR/worker
+npm install
+
 # サーバー依存関係
 cd $APP_DIR/server
 npm install
@@ -71,6 +75,10 @@ echo -e "${YELLOW}📋 Step 4: Build Frontend${NC}"
 cd $APP_DIR/client
 npm run build
 
+# サーバーが読み込む共有モジュール（worker/dist）のビルド
+cd $APP_DIR/server
+npm run build:shared
+
 echo -e "${YELLOW}📋 Step 5: Database Setup${NC}"
 
 # Prisma設定
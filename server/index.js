@@ -20,6 +20,7 @@ const mediaRoutes = require('./routes/media');
 const exportRoutes = require('./routes/export');
 const userRoutes = require('./routes/users');
 const internalRoutes = require('./routes/internal');
+const templateRoutes = require('./routes/templates');
 
 // Import middleware
 const { authMiddleware } = require('./middleware/auth');
@@ -78,6 +79,7 @@ app.use('/api/projects', authMiddleware, projectRoutes);
 app.use('/api/media', authMiddleware, mediaRoutes);
 app.use('/api/export', authMiddleware, exportRoutes);
 app.use('/api/users', authMiddleware, userRoutes);
+app.use('/api/templates', authMiddleware, templateRoutes);
 // Internal admin-only routes (auth/x-internal-key inside router)
 app.use('/api/internal', internalRoutes);
 
@@ -1,5 +1,7 @@
 const jwt = require('jsonwebtoken');
 const prisma = require('../prisma/client');
+const { hasPlanAtLeast, normalizePlan, resolveUserPlan } = require('../../worker/dist/entitlements');
+const { getProjectAccess, hasProjectPermission } = require('../utils/projectAccess');
 
 // Auth middleware (required)
 const authMiddleware = async (req, res, next) => {
@@ -163,22 +165,17 @@ const requireSubscription = (requiredTier) => {
       });
     }
 
-    const subscriptionLevels = {
-      free: 0,
-      pro: 1,
-      enterprise: 2
-    };
+    // Plan order and legacy names come from the shared entitlements module
+    const currentPlan = resolveUserPlan(req.user);
+    const requiredPlan = normalizePlan(requiredTier);
 
-    const userLevel = subscriptionLevels[req.user.subscription] || 0;
-    const requiredLevel = subscriptionLevels[requiredTier] || 0;
-
-    if (userLevel < requiredLevel) {
+    if (!hasPlanAtLeast(currentPlan, requiredPlan)) {
       return res.status(403).json({
         success: false,
-        message: `${requiredTier} subscription required`,
+        message: `${requiredPlan} subscription required`,
         upgradeRequired: true,
-        currentSubscription: req.user.subscription,
-        requiredSubscription: requiredTier
+        currentSubscription: currentPlan,
+        requiredSubscription: requiredPlan
       });
     }
 
@@ -190,7 +187,6 @@ const requireSubscription = (requiredTier) => {
 const projectPermission = (permission = 'view') => {
   return async (req, res, next) => {
     try {
-      const prisma = require('../prisma/client');
       const projectId = req.params.projectId || req.params.id;
 
       if (!projectId) {
@@ -200,18 +196,8 @@ const projectPermission = (permission = 'view') => {
         });
       }
 
-      // Fetch minimal project with owner and collaborators
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: {
-          id: true,
-          ownerId: true,
-          isPublic: true,
-          collaborators: {
-            select: { userId: true, role: true }
-          }
-        }
-      });
+      const userId = req.user?.id;
+      const { project, role } = await getProjectAccess(projectId, userId);
 
       if (!project) {
         return res.status(404).json({
@@ -220,7 +206,6 @@ const projectPermission = (permission = 'view') => {
         });
       }
 
-      const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({
           success: false,
@@ -228,37 +213,7 @@ const projectPermission = (permission = 'view') => {
         });
       }
 
-      let hasPermission = false;
-
-      switch (permission) {
-        case 'view':
-          if (project.isPublic) {
-            hasPermission = true;
-          } else if (project.ownerId === userId) {
-            hasPermission = true;
-          } else {
-            hasPermission = project.collaborators.some(c => c.userId === userId);
-          }
-          break;
-
-        case 'edit':
-          if (project.ownerId === userId) {
-            hasPermission = true;
-          } else {
-            const collab = project.collaborators.find(c => c.userId === userId);
-            hasPermission = !!collab && (collab.role === 'editor' || collab.role === 'admin');
-          }
-          break;
-
-        case 'admin':
-          hasPermission = project.ownerId === userId;
-          break;
-
-        default:
-          hasPermission = false;
-      }
-
-      if (!hasPermission) {
+      if (!hasProjectPermission(role, permission)) {
         return res.status(403).json({
           success: false,
           message: `Insufficient permissions to ${permission} this project`
@@ -267,6 +222,7 @@ const projectPermission = (permission = 'view') => {
 
       // attach project stub (frequently used downstream)
       req.project = project;
+      req.projectRole = role;
       next();
     } catch (error) {
       console.error('Project permission middleware error:', error);
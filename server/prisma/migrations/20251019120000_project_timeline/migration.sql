@@ -0,0 +1,87 @@
+-- CreateEnum
+CREATE TYPE "ProjectStatus" AS ENUM ('draft', 'in_progress', 'completed', 'archived');
+
+-- CreateEnum
+CREATE TYPE "CollaboratorRole" AS ENUM ('viewer', 'editor', 'admin');
+
+-- CreateEnum
+CREATE TYPE "MediaType" AS ENUM ('image', 'video', 'audio');
+
+-- AlterTable: projects.userId -> ownerId
+ALTER TABLE "projects" DROP CONSTRAINT "projects_userId_fkey";
+ALTER TABLE "projects" RENAME COLUMN "userId" TO "ownerId";
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "status" "ProjectStatus" NOT NULL DEFAULT 'draft',
+ADD COLUMN     "isPublic" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "thumbnail" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "settings" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "timeline" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "beatGrid" JSONB,
+ADD COLUMN     "mediaIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "metadata" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "collaborators" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "CollaboratorRole" NOT NULL DEFAULT 'viewer',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "collaborators_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "media_files" (
+    "id" TEXT NOT NULL,
+    "legacyId" TEXT,
+    "name" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "type" "MediaType" NOT NULL,
+    "format" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "thumbnail" TEXT,
+    "size" BIGINT NOT NULL,
+    "duration" DOUBLE PRECISION,
+    "dimensions" JSONB,
+    "metadata" JSONB,
+    "storage" JSONB,
+    "processing" JSONB,
+    "analysis" JSONB,
+    "ownerId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "lastAccessed" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "media_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "projects_ownerId_idx" ON "projects"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collaborators_projectId_userId_key" ON "collaborators"("projectId", "userId");
+
+-- CreateIndex
+CREATE INDEX "media_files_projectId_idx" ON "media_files"("projectId");
+
+-- CreateIndex
+CREATE INDEX "media_files_ownerId_idx" ON "media_files"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collaborators" ADD CONSTRAINT "collaborators_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collaborators" ADD CONSTRAINT "collaborators_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "media_files" ADD CONSTRAINT "media_files_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "media_files" ADD CONSTRAINT "media_files_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
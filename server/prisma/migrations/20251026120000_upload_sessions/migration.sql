@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "UploadStatus" AS ENUM ('uploading', 'completing', 'completed');
+
+-- CreateTable
+CREATE TABLE "upload_sessions" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "receivedChunks" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "status" "UploadStatus" NOT NULL DEFAULT 'uploading',
+    "mediaFileId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "upload_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "upload_sessions_ownerId_idx" ON "upload_sessions"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "upload_sessions" ADD CONSTRAINT "upload_sessions_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
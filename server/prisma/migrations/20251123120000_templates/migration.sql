@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "category" TEXT NOT NULL DEFAULT 'custom',
+    "difficulty" TEXT NOT NULL DEFAULT 'beginner',
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "thumbnail" TEXT,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "ownerId" TEXT NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "slots" JSONB NOT NULL DEFAULT '[]',
+    "projectData" JSONB NOT NULL DEFAULT '{}',
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "templates_ownerId_idx" ON "templates"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "templates_isPublic_idx" ON "templates"("isPublic");
+
+-- AddForeignKey
+ALTER TABLE "templates" ADD CONSTRAINT "templates_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
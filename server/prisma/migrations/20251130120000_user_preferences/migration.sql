@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "preferences" JSONB NOT NULL DEFAULT '{}';
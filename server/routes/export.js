@@ -1,3 +1,4 @@
+const crypto = require('crypto');
 const express = require('express');
 const { body, param, query, validationResult } = require('express-validator');
 
@@ -5,6 +6,24 @@ const prisma = require('../prisma/client');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { projectPermission, requireSubscription, actionRateLimit } = require('../middleware/auth');
 const exportService = require('../services/exportService');
+const storageService = require('../services/storageService');
+const UsageTrackingService = require('../services/usageTrackingService');
+const { resolveUserPlan, getEntitlements, isResolutionAllowed, UNLIMITED } = require('../../worker/dist/entitlements');
+// Built from worker/src/render (npm run build:render)
+const {
+  RENDER_RESOLUTIONS,
+  EXPORT_CONTAINERS,
+  EXPORT_FRAME_RATES,
+  EXPORT_QUALITY_PRESETS,
+  PLATFORM_PRESETS,
+  EncodingError,
+  normalizeExportSettings,
+  resolveOutputSize,
+  platformExportSettings,
+  checkPlatformDuration
+} = require('../../worker/dist/render');
+const realtimeService = require('../services/realtimeService');
+const { findUnfilledSlots } = require('../utils/projectTemplates');
 
 const router = express.Router();
 
@@ -15,13 +34,14 @@ router.post('/:projectId',
   [
     param('projectId').isUUID().withMessage('Invalid project ID'),
     body('name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
-    body('settings.resolution').optional().isIn(['9:16', '1:1', '16:9', 'custom']).withMessage('Invalid resolution'),
-    body('settings.frameRate').optional().isIn([24, 30, 60]).withMessage('Invalid frame rate'),
-    body('settings.format.container').optional().isIn(['mp4', 'webm']).withMessage('Invalid container format'),
-    body('settings.quality.preset').optional().isIn(['low', 'medium', 'high', 'ultra']).withMessage('Invalid quality preset')
+    body('settings.resolution').optional().isIn(Object.keys(RENDER_RESOLUTIONS)).withMessage('Invalid resolution'),
+    body('settings.frameRate').optional().isIn(EXPORT_FRAME_RATES).withMessage('Invalid frame rate'),
+    body('settings.format.container').optional().isIn(Object.keys(EXPORT_CONTAINERS)).withMessage('Invalid container format'),
+    body('settings.quality.preset').optional().isIn(Object.keys(EXPORT_QUALITY_PRESETS)).withMessage('Invalid quality preset')
   ],
   projectPermission('view'),
   actionRateLimit('export', 5, 60 * 60 * 1000), // 5 exports per hour
+  UsageTrackingService.createLimitCheckMiddleware('exportVideos'), // Monthly export quota per plan
   asyncHandler(async (req, res) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -32,73 +52,54 @@ router.post('/:projectId',
       });
     }
 
-    // Fetch project with media files (full timeline/settings are needed)
-    const projectId = req.params.projectId;
-    const project = await prisma.project.findUnique({
-      where: { id: projectId },
-      select: {
-        id: true,
-        name: true,
-        settings: true,
-        timeline: true,
-        mediaFiles: {
-          select: {
-            id: true,
-            name: true,
-            type: true,
-            url: true,
-            thumbnail: true,
-            size: true,
-            width: true,
-            height: true,
-            duration: true,
-            format: true,
-            metadata: true
-          }
-        }
-      }
-    });
-
-    if (!project) {
-      throw new AppError('Project not found', 404);
-    }
-
-    if (!project.timeline?.clips || project.timeline.clips.length === 0) {
-      throw new AppError('Project must have at least one clip to export', 400);
-    }
+    const project = await findExportProject(req.params.projectId);
 
     const { name, settings = {}, priority = 0 } = req.body;
+    const plan = resolveUserPlan(req.user);
 
-    // Default export settings
+    // Defaults come from the project's output format; a format or quality in
+    // the request replaces them as a whole (the export panel sends plain strings)
+    const outputFormat = project.settings?.outputFormat || {};
     const defaultSettings = {
-      resolution: project.settings?.resolution || '9:16',
-      frameRate: project.settings?.frameRate || 30,
+      resolution: project.settings?.resolution,
+      frameRate: project.settings?.frameRate,
       format: {
-        container: 'mp4',
-        videoCodec: 'h264',
-        audioCodec: 'aac'
+        container: outputFormat.container,
+        videoCodec: outputFormat.videoCodec
       },
       quality: {
-        preset: 'high',
-        videoBitrate: 5000,
-        audioBitrate: 192,
-        crf: 23
+        // Subscription-based default (watermark enforcement is handled server-side via WatermarkService)
+        preset: outputFormat.quality || (plan === 'free' ? 'medium' : 'high'),
+        videoBitrate: outputFormat.videoBitrate,
+        audioBitrate: outputFormat.audioBitrate
       },
       includeAudio: true
     };
 
-    // Apply subscription-based limitations (watermark enforcement is handled server-side via WatermarkService)
-    if (req.user.subscription === 'free') {
-      defaultSettings.quality.preset = 'medium';
+    // Fill in the preset's CRF/bitrates and reject combinations the worker cannot encode
+    let finalSettings;
+    try {
+      finalSettings = normalizeExportSettings({
+        ...defaultSettings,
+        ...settings,
+        format: settings.format || defaultSettings.format,
+        quality: settings.quality || defaultSettings.quality
+      });
+    } catch (error) {
+      if (error instanceof EncodingError) {
+        throw new AppError(error.message, 400, error.code);
+      }
+      throw error;
     }
 
-    // Merge settings
-    const finalSettings = {
-      ...defaultSettings,
-      ...settings,
-      format: { ...defaultSettings.format, ...(settings.format || {}) },
-      quality: { ...defaultSettings.quality, ...(settings.quality || {}) }
-    };
+    const { width, height } = resolveOutputSize(finalSettings.resolution, finalSettings.customResolution);
+    if (!isResolutionAllowed(plan, width, height)) {
+      throw new AppError(
+        `${width}x${height} exceeds your plan's ${getEntitlements(plan).maxResolution} export limit`,
+        403,
+        'RESOLUTION_NOT_ALLOWED'
+      );
+    }
 
     // Create export job
     const exportJob = await prisma.exportJob.create({
@@ -109,11 +110,7 @@ router.post('/:projectId',
         name: name || `${project.name} Export`,
         settings: finalSettings,
         priority: Math.max(-10, Math.min(10, parseInt(priority, 10) || 0)),
-        metadata: {
-          timeline: project.timeline,
-          projectSettings: project.settings,
-          mediaFiles: project.mediaFiles || []
-        },
+        metadata: exportJobMetadata(project),
         status: 'queued',
         progress: 0
       }
@@ -139,6 +136,174 @@ router.post('/:projectId',
   })
 );
 
+// @route   POST /api/export/batch/:projectId
+// @desc    Create one linked export job per social platform
+// @access  Private
+router.post('/batch/:projectId',
+  [
+    param('projectId').isUUID().withMessage('Invalid project ID'),
+    body('name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    body('platforms').isArray({ min: 1, max: Object.keys(PLATFORM_PRESETS).length }).withMessage('Select at least one platform'),
+    body('platforms.*').isIn(Object.keys(PLATFORM_PRESETS)).withMessage('Unknown platform'),
+    body('includeAudio').optional().isBoolean().withMessage('includeAudio must be a boolean')
+  ],
+  projectPermission('view'),
+  actionRateLimit('export', 5, 60 * 60 * 1000), // A batch counts as one export action
+  UsageTrackingService.createLimitCheckMiddleware('exportVideos'),
+  asyncHandler(async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const project = await findExportProject(req.params.projectId);
+    const plan = resolveUserPlan(req.user);
+    const duration = project.timeline.duration || 0;
+    const baseName = req.body.name || project.name;
+
+    // Platforms the video cannot go to are skipped (with the reason) rather than failing the batch
+    const accepted = [];
+    const skipped = [];
+    for (const platformId of [...new Set(req.body.platforms)]) {
+      const preset = PLATFORM_PRESETS[platformId];
+      const durationError = checkPlatformDuration(preset, duration);
+      if (durationError) {
+        skipped.push({ platform: platformId, code: durationError.code, message: durationError.message });
+        continue;
+      }
+
+      const { platform, ...encoding } = platformExportSettings(preset, {
+        frameRate: project.settings?.frameRate,
+        includeAudio: req.body.includeAudio
+      });
+      const settings = { ...normalizeExportSettings(encoding), platform };
+
+      const { width, height } = resolveOutputSize(settings.resolution, settings.customResolution);
+      if (!isResolutionAllowed(plan, width, height)) {
+        skipped.push({
+          platform: platformId,
+          code: 'RESOLUTION_NOT_ALLOWED',
+          message: `${width}x${height} exceeds your plan's ${getEntitlements(plan).maxResolution} export limit`
+        });
+        continue;
+      }
+
+      accepted.push({ preset, settings });
+    }
+
+    if (accepted.length === 0) {
+      throw new AppError(
+        `None of the selected platforms can be exported: ${skipped.map(s => s.message).join('; ')}`,
+        400,
+        'NO_EXPORTABLE_PLATFORMS'
+      );
+    }
+
+    // The quota middleware only checks for one export
+    const remaining = req.usageInfo?.remaining?.exportVideos;
+    if (typeof remaining === 'number' && remaining !== UNLIMITED && remaining < accepted.length) {
+      throw new AppError(
+        `This batch needs ${accepted.length} exports but only ${remaining} remain this month`,
+        429,
+        'USAGE_LIMIT_EXCEEDED'
+      );
+    }
+
+    const batchId = crypto.randomUUID();
+    const batchPlatforms = accepted.map(({ preset }) => preset.id);
+    const metadata = exportJobMetadata(project);
+
+    const exportJobs = await prisma.$transaction(async (tx) =>
+      Promise.all(accepted.map(({ preset, settings }, index) =>
+        tx.exportJob.create({
+          data: {
+            legacyId: `export-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            projectId: project.id,
+            userId: req.user.id,
+            name: `${baseName} - ${preset.name}`,
+            settings,
+            priority: 0,
+            metadata: {
+              ...metadata,
+              batch: { id: batchId, name: baseName, platform: preset.id, index, platforms: batchPlatforms }
+            },
+            status: 'queued',
+            progress: 0
+          }
+        })
+      ))
+    );
+
+    for (const exportJob of exportJobs) {
+      await exportService.queueExport(exportJob.id);
+    }
+
+    // Update user's export count (best-effort)
+    await prisma.user.update({
+      where: { id: req.user.id },
+      data: { usageExportsThisMonth: (req.user.usageExportsThisMonth || 0) + exportJobs.length }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Created ${exportJobs.length} export job${exportJobs.length === 1 ? '' : 's'}`,
+      data: {
+        batch: { id: batchId, name: baseName, platforms: batchPlatforms },
+        exportJobs,
+        skipped,
+        estimatedTime: estimateExportTime(duration * exportJobs.length, accepted[0].settings)
+      }
+    });
+  })
+);
+
+// @route   GET /api/export/batch/:batchId
+// @desc    Get the jobs of a batch export
+// @access  Private
+router.get('/batch/:batchId',
+  param('batchId').isUUID().withMessage('Invalid batch ID'),
+  asyncHandler(async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const exportJobs = await prisma.exportJob.findMany({
+      where: {
+        userId: req.user.id,
+        metadata: { path: ['batch', 'id'], equals: req.params.batchId }
+      },
+      orderBy: { createdAt: 'asc' },
+      include: { project: { select: { name: true } } }
+    });
+
+    if (exportJobs.length === 0) {
+      throw new AppError('Export batch not found', 404);
+    }
+
+    const status = exportJobs.reduce((counts, job) => {
+      counts[job.status] = (counts[job.status] || 0) + 1;
+      return counts;
+    }, {});
+
+    res.json({
+      success: true,
+      data: {
+        batch: { id: req.params.batchId, name: exportJobs[0].metadata.batch.name, status },
+        exportJobs
+      }
+    });
+  })
+);
+
 // @route   GET /api/export/jobs
 // @desc    Get user's export jobs
 // @access  Private
@@ -240,13 +405,16 @@ router.post('/jobs/:id/cancel',
       throw new AppError('Cannot cancel this export job', 400);
     }
 
-    await prisma.exportJob.update({
+    const cancelled = await prisma.exportJob.update({
       where: { id: job.id },
       data: { status: 'cancelled' }
     });
 
     await exportService.cancelJob(job.id);
 
+    // Other tabs of the same user follow the cancellation live
+    realtimeService.publishExportStatus(cancelled);
+
     res.json({
       success: true,
       message: 'Export job cancelled successfully'
@@ -317,7 +485,7 @@ router.delete('/jobs/:id',
       throw new AppError('Cannot delete active export job. Cancel it first.', 400);
     }
 
-    // Delete output files if local and filename present
+    // Delete output files from storage
     if (job.output?.url) {
       await exportService.deleteOutputFiles(job.id);
     }
@@ -332,7 +500,7 @@ router.delete('/jobs/:id',
 );
 
 // @route   GET /api/export/jobs/:id/download
-// @desc    Download export result (local files or redirect to remote URL)
+// @desc    Download export result (local files or redirect to a signed URL)
 // @access  Private
 router.get('/jobs/:id/download',
   param('id').isUUID().withMessage('Invalid export job ID'),
@@ -355,27 +523,8 @@ router.get('/jobs/:id/download',
       throw new AppError('Export file not available', 404);
     }
 
-    // If output is remote (R2/HTTP), redirect
-    if (/^https?:\/\//i.test(job.output.url)) {
-      // Optional: track download
-      await prisma.exportJob.update({
-        where: { id: job.id },
-        data: {
-          analytics: {
-            ...(job.analytics || {}),
-            downloadCount: (job.analytics?.downloadCount || 0) + 1,
-            lastDownloaded: new Date()
-          }
-        }
-      });
-      return res.redirect(job.output.url);
-    }
-
-    // Local download
-    const filePath = require('path').join(__dirname, '../exports', String(job.userId), job.output.filename);
-    try {
-      await require('fs').promises.access(filePath);
-    } catch {
+    const location = storageService.exportLocation(job);
+    if (!location || !(await storageService.exists(location))) {
       throw new AppError('File not found on server', 404);
     }
 
@@ -391,7 +540,8 @@ router.get('/jobs/:id/download',
       }
     });
 
-    res.download(filePath, job.output.filename);
+    // Streamed from local disk, or a redirect to a signed URL for R2/S3
+    await storageService.sendDownload(res, location, job.output.filename);
   })
 );
 
@@ -449,8 +599,12 @@ router.get('/presets',
       ],
       formats: [
         { value: 'mp4', label: 'MP4', description: 'Universal compatibility' },
+        { value: 'mov', label: 'MOV', description: 'Apple devices and editing software' },
+        { value: 'avi', label: 'AVI', description: 'Legacy players' },
         { value: 'webm', label: 'WebM', description: 'Web optimized' }
-      ]
+      ].map(format => ({ ...format, videoCodecs: EXPORT_CONTAINERS[format.value].videoCodecs })),
+      // Targets for POST /api/export/batch/:projectId
+      platforms: Object.values(PLATFORM_PRESETS)
     };
 
     res.json({
@@ -460,6 +614,62 @@ router.get('/presets',
   })
 );
 
+// Project with what an export job needs (timeline, settings, media files)
+async function findExportProject(projectId) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      name: true,
+      settings: true,
+      timeline: true,
+      mediaFiles: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          url: true,
+          thumbnail: true,
+          size: true,
+          width: true,
+          height: true,
+          duration: true,
+          format: true,
+          metadata: true,
+          ownerId: true,
+          storage: true,
+          reframe: true
+        }
+      }
+    }
+  });
+
+  if (!project) {
+    throw new AppError('Project not found', 404);
+  }
+
+  if (!project.timeline?.clips || project.timeline.clips.length === 0) {
+    throw new AppError('Project must have at least one clip to export', 400);
+  }
+
+  // Projects created from a template keep placeholder clips and songs until their slot is filled
+  const unfilled = findUnfilledSlots(project.timeline);
+  if (unfilled.length > 0) {
+    throw new AppError(`Fill the template slots before exporting: ${unfilled.join(', ')}`, 400, 'TEMPLATE_SLOTS_UNFILLED');
+  }
+
+  return project;
+}
+
+// Snapshot the worker renders from
+function exportJobMetadata(project) {
+  return {
+    timeline: project.timeline,
+    projectSettings: project.settings,
+    mediaFiles: project.mediaFiles || []
+  };
+}
+
 // Helper function to estimate export time
 function estimateExportTime(duration, settings) {
   // Base time: 2x real-time for high quality
@@ -0,0 +1,33 @@
+const express = require('express');
+
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const storageService = require('../services/storageService');
+
+const router = express.Router();
+
+// @route   GET /api/files/:key
+// @desc    Serve a local storage object from a signed URL (storageService.signedUrl)
+// @access  Public (signed URL)
+router.get('/*',
+  asyncHandler(async (req, res) => {
+    const key = req.params[0];
+    const { expires, signature, name } = req.query;
+    const downloadName = typeof name === 'string' ? name : undefined;
+
+    if (!storageService.local.verifySignedUrl(key, Number(expires), String(signature || ''), downloadName)) {
+      throw new AppError('Link is invalid or has expired', 403);
+    }
+    if (!(await storageService.local.stat(key))) {
+      throw new AppError('File not found in storage', 404);
+    }
+
+    const filePath = storageService.local.pathFor(key);
+    if (downloadName) {
+      res.download(filePath, downloadName);
+    } else {
+      res.sendFile(filePath);
+    }
+  })
+);
+
+module.exports = router;
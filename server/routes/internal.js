@@ -2,6 +2,7 @@ const express = require('express');
 const { body, param, validationResult } = require('express-validator');
 const prisma = require('../prisma/client');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const realtimeService = require('../services/realtimeService');
 
 const router = express.Router();
 
@@ -123,14 +124,21 @@ router.post('/export/jobs/:id/status',
       data: updateData,
       select: {
         id: true,
+        userId: true,
+        projectId: true,
         status: true,
         progress: true,
         output: true,
         processing: true,
+        completedAt: true,
+        failedAt: true,
         updatedAt: true
       }
     });
 
+    // Push to the job owner's open sockets
+    realtimeService.publishExportStatus(exportJob);
+
     res.json({
       success: true,
       data: { exportJob }
@@ -186,12 +194,16 @@ router.post('/export/jobs/:id/progress',
       },
       select: {
         id: true,
+        userId: true,
+        projectId: true,
         progress: true,
         processing: true,
         updatedAt: true
       }
     });
 
+    realtimeService.publishExportProgress(exportJob);
+
     res.json({
       success: true,
       data: { exportJob }
@@ -240,6 +252,8 @@ router.post('/export/jobs/:id/error',
       }
     });
 
+    realtimeService.publishExportStatus(exportJob);
+
     res.json({
       success: true,
       data: { exportJob }
@@ -10,13 +10,22 @@ const { projectPermission, actionRateLimit } = require('../middleware/auth');
 const mediaService = require('../services/mediaService');
 const audioAnalysisService = require('../services/audioAnalysisService');
 const UsageTrackingService = require('../services/usageTrackingService');
+const uploadService = require('../services/uploadService');
+const storageService = require('../services/storageService');
+const {
+  PLAN_IDS,
+  getStorageLimitBytes,
+  getUploadLimitBytes,
+  resolveUserPlan
+} = require('../../worker/dist/entitlements');
+const { mediaKey } = require('../../worker/dist/storage');
 
 const router = express.Router();
 
-// Configure multer for file uploads (local FS same as before)
+// Configure multer for file uploads (staged on disk, then moved into storage)
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
-    const uploadDir = path.join(__dirname, '../uploads', req.user.id.toString());
+    const uploadDir = path.join(__dirname, '../temp/incoming');
     try {
       await fs.mkdir(uploadDir, { recursive: true });
       cb(null, uploadDir);
@@ -32,33 +41,34 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (req, file, cb) => {
-  const allowedTypes = {
-    'image/jpeg': true,
-    'image/png': true,
-    'image/webp': true,
-    'video/mp4': true,
-    'video/webm': true,
-    'video/quicktime': true,
-    'audio/mpeg': true,
-    'audio/wav': true,
-    'audio/mp4': true
-  };
-
-  if (allowedTypes[file.mimetype]) {
+  if (uploadService.mediaTypeOf(file.mimetype)) {
     cb(null, true);
   } else {
     cb(new AppError('File type not supported', 400), false);
   }
 };
 
-const upload = multer({
+// File size limit follows the user's plan
+const upload = (req, res, next) => multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB
+    fileSize: getUploadLimitBytes(resolveUserPlan(req.user)),
     files: 10 // Max 10 files per request
   }
-});
+}).array('files', 10)(req, res, next);
+
+const handleValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+  next();
+};
 
 // @route   POST /api/media/upload/:projectId
 // @desc    Upload media files
@@ -67,7 +77,7 @@ router.post('/upload/:projectId',
   param('projectId').isUUID().withMessage('Invalid project ID'),
   projectPermission('edit'),
   actionRateLimit('upload', 20, 60 * 60 * 1000), // 20 uploads per hour
-  upload.array('files', 10),
+  upload,
   asyncHandler(async (req, res) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -84,8 +94,15 @@ router.post('/upload/:projectId',
 
     const projectId = req.params.projectId;
     const uploadedFiles = [];
+    const storedLocations = [];
 
     try {
+      // Storage left on the plan (multer already enforced the per-file size)
+      await uploadService.assertUploadAllowed(
+        req.user,
+        req.files.reduce((total, file) => total + file.size, 0)
+      );
+
       for (const file of req.files) {
         // Determine media type
         let mediaType;
@@ -94,6 +111,13 @@ router.post('/upload/:projectId',
         else if (file.mimetype.startsWith('audio/')) mediaType = 'audio';
         else throw new AppError('Unsupported file type', 400);
 
+        const { location, url } = await storageService.putFile(
+          mediaKey(req.user.id.toString(), file.filename),
+          file.path,
+          { contentType: file.mimetype }
+        );
+        storedLocations.push(location);
+
         // Create media file record (UUID auto)
         const created = await prisma.mediaFile.create({
           data: {
@@ -101,14 +125,11 @@ router.post('/upload/:projectId',
             originalName: file.originalname,
             type: mediaType,
             format: path.extname(file.originalname).substring(1).toLowerCase(),
-            url: `/uploads/${req.user.id}/${file.filename}`,
+            url,
             size: BigInt(file.size),
             ownerId: req.user.id,
             projectId,
-            storage: {
-              provider: 'local',
-              key: file.filename
-            },
+            storage: location,
             processing: {
               status: 'pending',
               progress: 0
@@ -118,8 +139,8 @@ router.post('/upload/:projectId',
 
         uploadedFiles.push(created);
 
-        // Queue for processing (synchronous lightweight pipeline)
-        // Fire & wait: processing updates DB internal states
+        // Metadata, thumbnail and validation run here; proxies, filmstrip and
+        // reframe are queued as a background job (progress in processing)
         await mediaService.processFileById(created.id);
       }
 
@@ -127,24 +148,150 @@ router.post('/upload/:projectId',
         success: true,
         message: `${uploadedFiles.length} file(s) uploaded successfully`,
         data: {
-          files: uploadedFiles
+          files: await storageService.presentMediaList(uploadedFiles)
         }
       });
 
     } catch (error) {
-      // Clean up uploaded files on error
-      for (const file of req.files) {
+      // Clean up stored objects that have no media record yet
+      const recorded = new Set(uploadedFiles.map(file => file.storage?.key));
+      for (const location of storedLocations.filter(location => !recorded.has(location.key))) {
         try {
-          await fs.unlink(file.path);
-        } catch (unlinkError) {
-          console.error('Error cleaning up file:', unlinkError);
+          await storageService.delete(location);
+        } catch (deleteError) {
+          console.error('Error cleaning up stored file:', deleteError);
         }
       }
       throw error;
+    } finally {
+      // Staged files are copies once stored
+      for (const file of req.files) {
+        await fs.rm(file.path, { force: true });
+      }
     }
   })
 );
 
+// ===== Resumable uploads =====
+// initiate -> PUT chunks (any order, resendable) -> complete; GET returns the
+// chunks received so far so an interrupted upload can continue.
+
+// @route   POST /api/media/uploads/:projectId
+// @desc    Start a resumable upload
+// @access  Private
+router.post('/uploads/:projectId',
+  [
+    param('projectId').isUUID().withMessage('Invalid project ID'),
+    body('fileName').trim().isLength({ min: 1, max: 255 }).withMessage('File name must be 1-255 characters'),
+    body('mimeType').isString().withMessage('MIME type is required'),
+    body('size').isInt({ min: 1 }).withMessage('Size must be a positive integer').toInt()
+  ],
+  handleValidation,
+  projectPermission('edit'),
+  actionRateLimit('upload', 20, 60 * 60 * 1000), // 20 uploads per hour
+  asyncHandler(async (req, res) => {
+    const { fileName, mimeType, size } = req.body;
+    const session = await uploadService.initiate(req.user, {
+      projectId: req.params.projectId,
+      fileName,
+      mimeType,
+      size
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { upload: uploadService.describe(session) }
+    });
+  })
+);
+
+const uploadParams = [
+  param('projectId').isUUID().withMessage('Invalid project ID'),
+  param('uploadId').isUUID().withMessage('Invalid upload ID')
+];
+
+// @route   GET /api/media/uploads/:projectId/:uploadId
+// @desc    Get upload status (received chunks)
+// @access  Private
+router.get('/uploads/:projectId/:uploadId',
+  uploadParams,
+  handleValidation,
+  projectPermission('edit'),
+  asyncHandler(async (req, res) => {
+    const session = await uploadService.getSession(req.params.uploadId, req.user.id, req.params.projectId);
+    res.json({
+      success: true,
+      data: { upload: uploadService.describe(session) }
+    });
+  })
+);
+
+// @route   PUT /api/media/uploads/:projectId/:uploadId/chunks/:offset
+// @desc    Upload one chunk (raw body, X-Chunk-SHA256: hex SHA-256 of the body)
+// @access  Private
+router.put('/uploads/:projectId/:uploadId/chunks/:offset',
+  [
+    ...uploadParams,
+    param('offset').isInt({ min: 0 }).withMessage('Offset must be a non-negative integer').toInt()
+  ],
+  handleValidation,
+  projectPermission('edit'),
+  express.raw({ type: () => true, limit: uploadService.chunkSize }),
+  asyncHandler(async (req, res) => {
+    const session = await uploadService.getSession(req.params.uploadId, req.user.id, req.params.projectId);
+    const updated = await uploadService.writeChunk(
+      session,
+      req.params.offset,
+      req.body,
+      req.get('X-Chunk-SHA256')
+    );
+
+    res.json({
+      success: true,
+      data: { upload: uploadService.describe(updated) }
+    });
+  })
+);
+
+// @route   POST /api/media/uploads/:projectId/:uploadId/complete
+// @desc    Join the chunks and create the media file
+// @access  Private
+router.post('/uploads/:projectId/:uploadId/complete',
+  uploadParams,
+  handleValidation,
+  projectPermission('edit'),
+  asyncHandler(async (req, res) => {
+    const session = await uploadService.getSession(req.params.uploadId, req.user.id, req.params.projectId);
+    const mediaFile = await uploadService.complete(session);
+
+    res.status(201).json({
+      success: true,
+      message: 'File uploaded successfully',
+      data: {
+        upload: uploadService.describe({ ...session, status: 'completed', mediaFileId: mediaFile?.id || null }),
+        mediaFile: await storageService.presentMedia(mediaFile)
+      }
+    });
+  })
+);
+
+// @route   DELETE /api/media/uploads/:projectId/:uploadId
+// @desc    Cancel an upload
+// @access  Private
+router.delete('/uploads/:projectId/:uploadId',
+  uploadParams,
+  handleValidation,
+  projectPermission('edit'),
+  asyncHandler(async (req, res) => {
+    const session = await uploadService.getSession(req.params.uploadId, req.user.id, req.params.projectId);
+    await uploadService.discard(session);
+    res.json({
+      success: true,
+      message: 'Upload cancelled'
+    });
+  })
+);
+
 // @route   GET /api/media/:projectId
 // @desc    Get media files for project
 // @access  Private
@@ -186,7 +333,7 @@ router.get('/:projectId',
     res.json({
       success: true,
       data: {
-        mediaFiles,
+        mediaFiles: await storageService.presentMediaList(mediaFiles),
         pagination: {
           page: parseInt(page),
           limit: parseInt(limit),
@@ -225,7 +372,37 @@ router.get('/file/:id',
 
     res.json({
       success: true,
-      data: { mediaFile }
+      data: { mediaFile: await storageService.presentMedia(mediaFile) }
+    });
+  })
+);
+
+// @route   GET /api/media/file/:id/filmstrip
+// @desc    Get the timeline filmstrip sprite sheet of a video
+// @access  Private
+router.get('/file/:id/filmstrip',
+  param('id').isUUID().withMessage('Invalid media file ID'),
+  asyncHandler(async (req, res) => {
+    const mediaFile = await prisma.mediaFile.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, ownerId: true, type: true, filmstrip: true, processing: true }
+    });
+
+    if (!mediaFile) {
+      throw new AppError('Media file not found', 404);
+    }
+
+    if (mediaFile.ownerId !== req.user.id) {
+      throw new AppError('Access denied', 403);
+    }
+
+    // null until processing has produced one (or for non-video media)
+    res.json({
+      success: true,
+      data: {
+        filmstrip: await storageService.presentFilmstrip(mediaFile.filmstrip),
+        processingStatus: mediaFile.processing?.status || null
+      }
     });
   })
 );
@@ -321,10 +498,14 @@ router.delete('/file/:id',
       }
     }
 
-    // Delete physical file
+    // Delete stored file, its preview proxies and filmstrip
     try {
-      const filePath = path.join(__dirname, '../uploads', req.user.id.toString(), mediaFile.storage?.key || '');
-      await fs.unlink(filePath);
+      await storageService.delete(storageService.mediaLocation(mediaFile));
+      await Promise.all(
+        [...Object.values(mediaFile.proxies || {}), mediaFile.filmstrip]
+          .filter(rendition => rendition?.storage?.key)
+          .map(rendition => storageService.delete(rendition.storage))
+      );
     } catch (error) {
       console.error('Error deleting physical file:', error);
     }
@@ -344,7 +525,7 @@ router.delete('/file/:id',
 // @access  Private (Basic plan or higher)
 router.post('/file/:id/analyze',
   param('id').isUUID().withMessage('Invalid media file ID'),
-  UsageTrackingService.createLimitCheckMiddleware('mediaAnalysis'), // Plan-based limits
+  UsageTrackingService.createLimitCheckMiddleware('audioAnalysis'), // Plan-based limits
   actionRateLimit('analyze', 10, 60 * 60 * 1000), // 10 analyses per hour
   asyncHandler(async (req, res) => {
     const mediaFile = await prisma.mediaFile.findUnique({
@@ -361,7 +542,7 @@ router.post('/file/:id/analyze',
     }
 
     // Record usage
-    await UsageTrackingService.recordUsage(req.user.id, 'mediaAnalysis', {
+    await UsageTrackingService.recordUsage(req.user.id, 'audioAnalysis', {
       mediaFileId: mediaFile.id,
       mediaType: mediaFile.type
     });
@@ -400,12 +581,8 @@ router.get('/file/:id/download',
       throw new AppError('Access denied', 403);
     }
 
-    // Get file path
-    const filePath = path.join(__dirname, '../uploads', mediaFile.ownerId.toString(), mediaFile.storage?.key || '');
-    
-    try {
-      await fs.access(filePath);
-    } catch (error) {
+    const location = storageService.mediaLocation(mediaFile);
+    if (!(await storageService.exists(location))) {
       throw new AppError('File not found on server', 404);
     }
 
@@ -418,8 +595,8 @@ router.get('/file/:id/download',
       }
     });
 
-    // Send file
-    res.download(filePath, mediaFile.name);
+    // Send file (or redirect to a signed URL for remote storage)
+    await storageService.sendDownload(res, location, mediaFile.name);
   })
 );
 
@@ -471,7 +648,7 @@ router.post('/file/:id/audio-analyze',
     // プラン別利用制限チェック
     const usageCheck = await UsageTrackingService.checkUsageLimit(
       req.user.id,
-      req.user.plan || 'free',
+      resolveUserPlan(req.user),
       'audioAnalysis'
     );
 
@@ -484,7 +661,7 @@ router.post('/file/:id/audio-analyze',
         limits: usageCheck.limits,
         remaining: usageCheck.remaining,
         resetDates: usageCheck.resetDates,
-        upgradeRequired: req.user.plan === 'free'
+        upgradeRequired: resolveUserPlan(req.user) === 'free'
       });
     }
 
@@ -569,7 +746,7 @@ router.post('/file/:id/regenerate-prompts',
     // プラン別利用制限チェック
     const usageCheck = await UsageTrackingService.checkUsageLimit(
       req.user.id,
-      req.user.plan || 'free',
+      resolveUserPlan(req.user),
       'promptRegeneration'
     );
 
@@ -582,7 +759,7 @@ router.post('/file/:id/regenerate-prompts',
         limits: usageCheck.limits,
         remaining: usageCheck.remaining,
         resetDates: usageCheck.resetDates,
-        upgradeRequired: req.user.plan === 'free'
+        upgradeRequired: resolveUserPlan(req.user) === 'free'
       });
     }
 
@@ -642,7 +819,7 @@ router.get('/usage-stats',
   asyncHandler(async (req, res) => {
     const stats = await UsageTrackingService.getUserUsageStats(
       req.user.id,
-      req.user.plan || 'free'
+      resolveUserPlan(req.user)
     );
 
     if (!stats) {
@@ -654,8 +831,8 @@ router.get('/usage-stats',
       data: {
         ...stats,
         planInfo: {
-          current: req.user.plan || 'free',
-          available: Object.keys(UsageTrackingService.getPlanLimits())
+          current: resolveUserPlan(req.user),
+          available: PLAN_IDS
         }
       }
     });
@@ -676,14 +853,7 @@ router.get('/storage',
     const used = Number(agg._sum?.size || 0n);
     const fileCount = agg._count?._all || 0;
 
-    const limits = {
-      'free': 1024 * 1024 * 1024, // 1GB
-      'basic': 10 * 1024 * 1024 * 1024, // 10GB
-      'pro': 50 * 1024 * 1024 * 1024, // 50GB
-      'premium': 500 * 1024 * 1024 * 1024 // 500GB
-    };
-
-    const limit = limits[req.user.plan || 'free'] || limits.free;
+    const limit = getStorageLimitBytes(resolveUserPlan(req.user));
 
     const storageInfo = {
       used,
@@ -1,9 +1,23 @@
 const express = require('express');
 const { body, validationResult, param, query } = require('express-validator');
 
+const { Prisma } = require('@prisma/client');
 const prisma = require('../prisma/client');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { projectPermission, requireSubscription, actionRateLimit } = require('../middleware/auth');
+const entitlements = require('../../worker/dist/entitlements');
+const collaborationService = require('../services/collaborationService');
+const storageService = require('../services/storageService');
+const {
+  DEFAULT_SETTINGS,
+  createEmptyTimeline,
+  normalizeSettings,
+  normalizeTimeline,
+  validateTimeline,
+  collectMediaIds,
+  buildTimelineMetadata,
+  toProjectResponse
+} = require('../utils/projectTimeline');
 
 const router = express.Router();
 
@@ -21,18 +35,8 @@ const toProjectStatusEnum = (s) => {
   }
 };
 
-const canCreateProject = (user) => {
-  switch (user.subscription) {
-    case 'free':
-      return (user.usageProjectsCount || 0) < 3;
-    case 'pro':
-      return (user.usageProjectsCount || 0) < 50;
-    case 'enterprise':
-      return true;
-    default:
-      return false;
-  }
-};
+const canCreateProject = (user) =>
+  entitlements.canCreateProject(entitlements.resolveUserPlan(user), user.usageProjectsCount || 0);
 
 // @route   GET /api/projects
 // @desc    Get user's projects
@@ -139,34 +143,14 @@ router.post('/',
     // Check if user can create new project
     if (!canCreateProject(req.user)) {
       throw new AppError(
-        `Project limit reached for ${req.user.subscription} subscription. Please upgrade or delete existing projects.`,
+        `Project limit reached for ${entitlements.resolveUserPlan(req.user)} plan. Please upgrade or delete existing projects.`,
         402
       );
     }
 
-    const { name, description, settings = {} } = req.body;
-
-    // Default project settings
-    const defaultSettings = {
-      resolution: '9:16',
-      frameRate: 30,
-      duration: 30,
-      outputFormat: {
-        container: 'mp4',
-        videoCodec: 'h264',
-        audioBitrate: 192,
-        videoBitrate: 5000,
-        quality: 'high'
-      }
-    };
+    const { name, description, settings = {}, beatGrid } = req.body;
 
-    const timeline = {
-      clips: [],
-      audioTracks: [],
-      duration: settings.duration || 30,
-      zoom: 1,
-      playheadPosition: 0
-    };
+    const timeline = createEmptyTimeline(settings.duration || DEFAULT_SETTINGS.duration);
 
     // Create project and update user usage in a transaction
     const result = await prisma.$transaction(async (tx) => {
@@ -175,8 +159,9 @@ router.post('/',
           name,
           description: description || null,
           ownerId: req.user.id,
-          settings: { ...defaultSettings, ...settings },
+          settings: normalizeSettings(settings),
           timeline,
+          beatGrid: beatGrid || undefined,
           metadata: {
             totalClips: 0,
             totalDuration: 0,
@@ -197,7 +182,7 @@ router.post('/',
     res.status(201).json({
       success: true,
       message: 'Project created successfully',
-      data: { project: result }
+      data: { project: toProjectResponse(result) }
     });
   })
 );
@@ -225,27 +210,31 @@ router.get('/:id',
       throw new AppError('Project not found', 404);
     }
 
-    // Get media library for this project
+    // Media library: uploads to this project plus media the timeline references
     const mediaFiles = await prisma.mediaFile.findMany({
-      where: { projectId },
+      where: {
+        OR: [
+          { projectId },
+          { id: { in: project.mediaIds || [] } }
+        ]
+      },
       orderBy: { createdAt: 'desc' }
     });
 
+    const response = toProjectResponse(project, await storageService.presentMediaList(mediaFiles));
+
     res.json({
       success: true,
       data: {
-        project,
-        mediaLibrary: mediaFiles
+        project: response,
+        mediaLibrary: response.mediaLibrary
       }
     });
   })
 );
 
-// @route   PUT /api/projects/:id
-// @desc    Update project
-// @access  Private
-router.put('/:id',
-  [
+// Validation shared by PUT and PATCH /api/projects/:id
+const updateProjectValidation = [
     param('id').isUUID().withMessage('Invalid project ID'),
     body('name')
       .optional()
@@ -260,61 +249,105 @@ router.put('/:id',
     body('status')
       .optional()
       .isIn(['draft', 'in-progress', 'completed', 'archived'])
-      .withMessage('Invalid status')
-  ],
-  projectPermission('edit'),
-  asyncHandler(async (req, res) => {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: errors.array()
-      });
-    }
+      .withMessage('Invalid status'),
+    body('settings')
+      .optional()
+      .isObject()
+      .withMessage('Settings must be an object'),
+    body('timeline')
+      .optional()
+      .isObject()
+      .withMessage('Timeline must be an object'),
+    body('timeline.clips')
+      .optional()
+      .isArray()
+      .withMessage('Clips must be an array'),
+    body('beatGrid')
+      .optional({ nullable: true })
+      .isObject()
+      .withMessage('Beat grid must be an object'),
+    body('thumbnail')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Thumbnail must be a URL')
+];
+
+// Saves whatever part of the editor state was sent (settings, timeline, beat grid, ...)
+const updateProject = asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
 
-    const { name, description, status, settings, tags } = req.body;
-    const projectId = req.params.id;
+  const { name, description, status, settings, tags, timeline, beatGrid, thumbnail } = req.body;
+  const projectId = req.params.id;
 
-    const data = {};
-    if (name) data.name = name;
-    if (description !== undefined) data.description = description;
-    if (status) data.status = toProjectStatusEnum(status);
-    if (settings) {
-      // Merge current settings with provided
-      const current = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: { settings: true }
-      });
-      data.settings = { ...(current?.settings || {}), ...settings };
-    }
-    if (tags) data.tags = tags;
+  const currentProject = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { settings: true, metadata: true, timeline: true }
+  });
 
-    // Update metadata
-    const currentProject = await prisma.project.findUnique({
-      where: { id: projectId },
-      select: { metadata: true, timeline: true }
-    });
+  if (!currentProject) {
+    throw new AppError('Project not found', 404);
+  }
 
-    const currentMeta = currentProject?.metadata || {};
+  const data = {};
+  if (name) data.name = name;
+  if (description !== undefined) data.description = description;
+  if (status) data.status = toProjectStatusEnum(status);
+  if (settings) data.settings = normalizeSettings(settings, currentProject.settings);
+  if (tags) data.tags = tags;
+  if (thumbnail !== undefined) data.thumbnail = thumbnail;
+  if (beatGrid !== undefined) data.beatGrid = beatGrid === null ? Prisma.DbNull : beatGrid;
+
+  const currentMeta = currentProject.metadata || {};
+  if (timeline) {
+    const normalized = normalizeTimeline(timeline);
+    const timelineError = validateTimeline(normalized);
+    if (timelineError) {
+      throw new AppError(timelineError, 400);
+    }
+    data.timeline = normalized;
+    data.mediaIds = collectMediaIds(normalized);
+    data.metadata = buildTimelineMetadata(normalized, currentMeta, req.user.id);
+  } else {
     data.metadata = {
       ...currentMeta,
       lastEditedBy: req.user.id,
       version: (currentMeta.version || 0) + 1
     };
+  }
 
-    const updated = await prisma.project.update({
-      where: { id: projectId },
-      data
-    });
+  const updated = await prisma.project.update({
+    where: { id: projectId },
+    data
+  });
 
-    res.json({
-      success: true,
-      message: 'Project updated successfully',
-      data: { project: updated }
-    });
-  })
-);
+  // Editors in a collaboration session continue from the saved timeline
+  if (data.timeline) {
+    collaborationService.replaceTimeline(projectId, data.timeline, data.metadata.version);
+  }
+
+  res.json({
+    success: true,
+    message: 'Project updated successfully',
+    data: { project: toProjectResponse(updated) }
+  });
+});
+
+// @route   PUT /api/projects/:id
+// @desc    Update project
+// @access  Private
+router.put('/:id', updateProjectValidation, projectPermission('edit'), updateProject);
+
+// @route   PATCH /api/projects/:id
+// @desc    Update part of a project (editor autosave)
+// @access  Private
+router.patch('/:id', updateProjectValidation, projectPermission('edit'), updateProject);
 
 // @route   PUT /api/projects/:id/timeline
 // @desc    Update project timeline
@@ -337,31 +370,33 @@ router.put('/:id/timeline',
       });
     }
 
-    const { timeline } = req.body;
+    const { beatGrid } = req.body;
     const projectId = req.params.id;
 
-    if (timeline.duration > 600) { // 10 minutes max
-      throw new AppError('Timeline duration cannot exceed 10 minutes', 400);
+    const timeline = normalizeTimeline(req.body.timeline);
+    const timelineError = validateTimeline(timeline);
+    if (timelineError) {
+      throw new AppError(timelineError, 400);
     }
 
+    const current = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { metadata: true }
+    });
+
     const updated = await prisma.project.update({
       where: { id: projectId },
       data: {
-        timeline: {
-          ...(timeline || {}),
-          clips: timeline.clips || [],
-          audioTracks: timeline.audioTracks || []
-        },
-        metadata: {
-          totalClips: (timeline.clips || []).length,
-          totalDuration: timeline.duration,
-          lastEditedBy: req.user.id,
-          version: 1 // Could be incremented if needed
-        }
+        timeline,
+        mediaIds: collectMediaIds(timeline),
+        ...(beatGrid !== undefined && { beatGrid: beatGrid === null ? Prisma.DbNull : beatGrid }),
+        metadata: buildTimelineMetadata(timeline, current?.metadata, req.user.id)
       },
-      select: { timeline: true }
+      select: { timeline: true, metadata: true }
     });
 
+    collaborationService.replaceTimeline(projectId, updated.timeline, updated.metadata?.version);
+
     res.json({
       success: true,
       message: 'Timeline updated successfully',
@@ -396,6 +431,11 @@ router.delete('/:id',
       });
     });
 
+    // Editors still in the project's collaboration session lose access
+    await collaborationService.refreshAccess(projectId).catch(error => {
+      console.error('Failed to refresh collaboration access:', error);
+    });
+
     res.json({
       success: true,
       message: 'Project deleted successfully'
@@ -418,7 +458,7 @@ router.post('/:id/duplicate',
     });
     if (!canCreateProject(freshUser)) {
       throw new AppError(
-        `Project limit reached for ${freshUser.subscription} subscription.`,
+        `Project limit reached for ${entitlements.resolveUserPlan(freshUser)} plan.`,
         402
       );
     }
@@ -431,6 +471,8 @@ router.post('/:id/duplicate',
         description: true,
         settings: true,
         timeline: true,
+        beatGrid: true,
+        mediaIds: true,
         tags: true
       }
     });
@@ -447,6 +489,8 @@ router.post('/:id/duplicate',
           ownerId: req.user.id,
           settings: original.settings,
           timeline: original.timeline,
+          beatGrid: original.beatGrid || undefined,
+          mediaIds: original.mediaIds,
           tags: original.tags,
           metadata: {
             totalClips: (original.timeline?.clips || []).length,
@@ -468,7 +512,7 @@ router.post('/:id/duplicate',
     res.status(201).json({
       success: true,
       message: 'Project duplicated successfully',
-      data: { project: duplicate }
+      data: { project: toProjectResponse(duplicate) }
     });
   })
 );
@@ -483,7 +527,7 @@ router.post('/:id/collaborators',
     body('role').isIn(['viewer', 'editor', 'admin']).withMessage('Invalid role')
   ],
   projectPermission('admin'),
-  requireSubscription('pro'), // Pro feature
+  requireSubscription(entitlements.minimumPlanFor('collaborators')),
   asyncHandler(async (req, res) => {
     const { email, role } = req.body;
     const projectId = req.params.id;
@@ -522,6 +566,11 @@ router.post('/:id/collaborators',
       }
     });
 
+    // A connected public viewer gets the new role right away
+    await collaborationService.refreshAccess(projectId).catch(error => {
+      console.error('Failed to refresh collaboration access:', error);
+    });
+
     res.json({
       success: true,
       message: 'Collaborator added successfully'
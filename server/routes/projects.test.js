@@ -0,0 +1,239 @@
+const express = require('express');
+const request = require('supertest');
+
+// In-memory project rows; values pass through JSON like Postgres JSON columns
+const mockProjects = new Map();
+const mockClone = (value) => JSON.parse(JSON.stringify(value));
+
+jest.mock('@prisma/client', () => ({ Prisma: { DbNull: null } }));
+jest.mock('../prisma/client', () => ({
+  project: {
+    findUnique: jest.fn(async ({ where }) => {
+      const project = mockProjects.get(where.id);
+      return project ? mockClone(project) : null;
+    }),
+    update: jest.fn(async ({ where, data }) => {
+      const project = mockClone({ ...mockProjects.get(where.id), ...data });
+      mockProjects.set(where.id, project);
+      return mockClone(project);
+    })
+  },
+  mediaFile: {
+    findMany: jest.fn(async () => [])
+  }
+}));
+jest.mock('../middleware/auth', () => {
+  const pass = () => (req, res, next) => next();
+  return { projectPermission: pass, requireSubscription: pass, actionRateLimit: pass };
+});
+jest.mock('../services/collaborationService', () => ({ replaceTimeline: jest.fn() }));
+jest.mock('../services/storageService', () => ({ presentMediaList: jest.fn(async (files) => files) }));
+
+const collaborationService = require('../services/collaborationService');
+const { errorHandler } = require('../middleware/errorHandler');
+const { DEFAULT_SETTINGS } = require('../utils/projectTimeline');
+const projectRoutes = require('./projects');
+
+const PROJECT_ID = '3f1c2a8e-5b7d-4c1e-9a2f-6d8b0e4c7a31';
+const USER_ID = 'user-1';
+
+const app = express();
+app.use(express.json());
+app.use((req, res, next) => {
+  req.user = { id: USER_ID };
+  next();
+});
+app.use('/api/projects', projectRoutes);
+app.use(errorHandler);
+
+// What useUpdateProject sends when the editor autosaves
+const editorState = () => ({
+  settings: {
+    resolution: '1:1',
+    frameRate: 60,
+    duration: 8,
+    backgroundColor: '#101010',
+    outputFormat: { container: 'webm', videoCodec: 'vp9', audioBitrate: 320, videoBitrate: 8000, quality: 'ultra' }
+  },
+  beatGrid: { bpm: 128, offset: 0.02, timeSignature: [4, 4] },
+  timeline: {
+    clips: [
+      {
+        id: 'clip-1',
+        mediaId: 'media-video',
+        startTime: 0,
+        duration: 5,
+        trimStart: 1,
+        trimEnd: 6,
+        layer: 0,
+        transform: { x: 0.1, y: -0.2, scale: 1.2, opacity: 0.9 },
+        reframe: { strategy: 'subject', keyframes: [{ time: 1, focus: { x: 0.4, y: 0.5 } }] },
+        effects: [
+          {
+            id: 'effect-1',
+            type: 'brightness',
+            enabled: true,
+            parameters: { value: 10 },
+            keyframes: {
+              value: [
+                { id: 'kf-1', time: 0, value: 0, easing: 'linear' },
+                { id: 'kf-2', time: 2, value: 40, easing: 'easeInOut' }
+              ]
+            }
+          }
+        ],
+        transitions: { out: { type: 'crossfade', duration: 0.5 } }
+      },
+      {
+        id: 'clip-2',
+        mediaId: 'media-image',
+        startTime: 5,
+        duration: 3,
+        trimStart: 0,
+        trimEnd: 3,
+        layer: 1,
+        effects: [{ id: 'effect-2', type: 'speed', enabled: true, parameters: { value: 0.5 } }],
+        transitions: { in: { type: 'slide', duration: 0.5, parameters: { direction: 'left' } } }
+      }
+    ],
+    audioTracks: [
+      {
+        id: 'audio-1',
+        mediaId: 'media-audio',
+        name: 'song.mp3',
+        startTime: 0,
+        duration: 8,
+        volume: 0.8,
+        muted: false,
+        solo: true,
+        bpm: 128,
+        beats: [0, 0.47, 0.94],
+        triggerEvents: [{ triggerId: 'bass_trigger', time: 0.47, intensity: 0.9 }]
+      }
+    ],
+    duration: 8,
+    zoom: 2,
+    playheadPosition: 3.5
+  }
+});
+
+const save = (updates) => request(app).patch(`/api/projects/${PROJECT_ID}`).send(updates);
+const load = () => request(app).get(`/api/projects/${PROJECT_ID}`);
+
+beforeEach(() => {
+  mockProjects.clear();
+  mockProjects.set(PROJECT_ID, {
+    id: PROJECT_ID,
+    name: 'MV',
+    status: 'draft',
+    ownerId: USER_ID,
+    settings: DEFAULT_SETTINGS,
+    timeline: { clips: [], audioTracks: [], duration: 30, zoom: 1, playheadPosition: 0 },
+    beatGrid: null,
+    mediaIds: [],
+    metadata: { version: 1 }
+  });
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  console.error.mockRestore();
+});
+
+describe('PATCH then GET /api/projects/:id', () => {
+  it('loads back the editor state that was saved', async () => {
+    const sent = editorState();
+
+    const saved = await save(sent);
+    expect(saved.status).toBe(200);
+
+    const loaded = await load();
+    expect(loaded.status).toBe(200);
+
+    const { project } = loaded.body.data;
+    expect(project.timeline).toEqual(sent.timeline);
+    expect(project.settings).toEqual(sent.settings);
+    expect(project.beatGrid).toEqual(sent.beatGrid);
+    expect(saved.body.data.project).toMatchObject({
+      timeline: project.timeline,
+      settings: project.settings,
+      beatGrid: project.beatGrid
+    });
+  });
+
+  it('drops browser-only audio track fields before saving', async () => {
+    const sent = editorState();
+    sent.timeline.audioTracks[0] = {
+      ...sent.timeline.audioTracks[0],
+      waveformData: [0.1, 0.2],
+      spectrogramData: [[1, 2]],
+      originalFile: {}
+    };
+
+    await save(sent);
+    const { project } = (await load()).body.data;
+
+    expect(project.timeline.audioTracks).toEqual(editorState().timeline.audioTracks);
+  });
+
+  it('keeps the saved timeline when only settings change', async () => {
+    await save(editorState());
+    await save({ settings: { frameRate: 24 } });
+    const { project } = (await load()).body.data;
+
+    expect(project.timeline).toEqual(editorState().timeline);
+    expect(project.settings).toEqual({ ...editorState().settings, frameRate: 24 });
+  });
+
+  it('clears the beat grid when null is saved', async () => {
+    await save(editorState());
+    await save({ beatGrid: null });
+    const { project } = (await load()).body.data;
+
+    expect(project.beatGrid).toBeUndefined();
+  });
+
+  it('records the media, version and editor of each save', async () => {
+    await save(editorState());
+    await save(editorState());
+
+    expect(mockProjects.get(PROJECT_ID)).toMatchObject({
+      mediaIds: ['media-video', 'media-image', 'media-audio'],
+      metadata: { version: 3, totalClips: 2, totalDuration: 8, lastEditedBy: USER_ID }
+    });
+  });
+
+  it('hands the saved timeline to the collaboration session', async () => {
+    const saved = await save(editorState());
+
+    expect(collaborationService.replaceTimeline).toHaveBeenCalledWith(
+      PROJECT_ID,
+      saved.body.data.project.timeline,
+      2
+    );
+  });
+
+  it('rejects a timeline with an incomplete clip and keeps the stored one', async () => {
+    await save(editorState());
+    const sent = editorState();
+    delete sent.timeline.clips[1].mediaId;
+
+    const rejected = await save(sent);
+    const { project } = (await load()).body.data;
+
+    expect(rejected.status).toBe(400);
+    expect(rejected.body.message).toBe('Each clip needs id, mediaId, startTime and duration');
+    expect(project.timeline).toEqual(editorState().timeline);
+  });
+
+  it('rejects a timeline over ten minutes', async () => {
+    const sent = editorState();
+    sent.timeline.duration = 601;
+
+    const rejected = await save(sent);
+
+    expect(rejected.status).toBe(400);
+    expect(mockProjects.get(PROJECT_ID).timeline.clips).toEqual([]);
+  });
+});
@@ -0,0 +1,380 @@
+const express = require('express');
+const { body, validationResult, param, query } = require('express-validator');
+
+const prisma = require('../prisma/client');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { actionRateLimit } = require('../middleware/auth');
+const entitlements = require('../../worker/dist/entitlements');
+const { normalizeSettings, buildTimelineMetadata, toProjectResponse } = require('../utils/projectTimeline');
+const {
+  normalizeSlots,
+  validateSlots,
+  normalizeTemplateProjectData,
+  validateTemplateProjectData,
+  createTimelineFromTemplate,
+  toTemplateResponse
+} = require('../utils/projectTemplates');
+
+const router = express.Router();
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'];
+
+const handleValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+// Validation shared by POST and PUT /api/templates
+const templateFieldValidation = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description must be less than 500 characters'),
+  body('category')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Category must be between 1 and 50 characters'),
+  body('difficulty')
+    .optional()
+    .isIn(DIFFICULTIES)
+    .withMessage('Invalid difficulty'),
+  body('tags')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Tags must be an array of at most 20 items'),
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('isPublic must be a boolean'),
+  body('slots')
+    .optional()
+    .isArray()
+    .withMessage('Slots must be an array')
+];
+
+// @route   GET /api/templates
+// @desc    Get the user's templates and public templates
+// @access  Private
+router.get('/',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('scope').optional().isIn(['all', 'mine']).withMessage('Invalid scope'),
+    query('category').optional().isLength({ max: 50 }).withMessage('Category too long'),
+    query('search').optional().isLength({ max: 100 }).withMessage('Search term too long')
+  ],
+  handleValidation,
+  asyncHandler(async (req, res) => {
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+    const skip = (page - 1) * limit;
+    const { scope = 'all', category, search } = req.query;
+
+    const where = {
+      AND: [
+        scope === 'mine' ? { ownerId: req.user.id } : { OR: [{ ownerId: req.user.id }, { isPublic: true }] },
+        ...(category ? [{ category }] : []),
+        ...(search
+          ? [{
+              OR: [
+                { name: { contains: search, mode: 'insensitive' } },
+                { description: { contains: search, mode: 'insensitive' } },
+                { tags: { has: search } }
+              ]
+            }]
+          : [])
+      ]
+    };
+
+    const [templates, total] = await Promise.all([
+      prisma.template.findMany({
+        where,
+        orderBy: [{ uses: 'desc' }, { updatedAt: 'desc' }],
+        skip,
+        take: limit,
+        // The timeline is only needed when a project is created from the template
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          category: true,
+          difficulty: true,
+          tags: true,
+          thumbnail: true,
+          duration: true,
+          uses: true,
+          isPublic: true,
+          slots: true,
+          ownerId: true,
+          createdAt: true,
+          updatedAt: true
+        }
+      }),
+      prisma.template.count({ where })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        templates: templates.map(template => toTemplateResponse(template, req.user.id)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  })
+);
+
+// @route   GET /api/templates/:id
+// @desc    Get single template
+// @access  Private
+router.get('/:id',
+  param('id').isUUID().withMessage('Invalid template ID'),
+  handleValidation,
+  asyncHandler(async (req, res) => {
+    const template = await findVisibleTemplate(req.params.id, req.user.id);
+
+    res.json({
+      success: true,
+      data: { template: toTemplateResponse(template, req.user.id) }
+    });
+  })
+);
+
+// @route   POST /api/templates
+// @desc    Save a project as a template (the editor sends the project with media replaced by slots)
+// @access  Private
+router.post('/',
+  [
+    body('name')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Template name must be between 1 and 100 characters'),
+    ...templateFieldValidation,
+    body('slots')
+      .isArray({ min: 1 })
+      .withMessage('A template needs at least one media slot'),
+    body('projectData')
+      .isObject()
+      .withMessage('Project data must be an object'),
+    body('projectData.timeline')
+      .isObject()
+      .withMessage('Timeline must be an object'),
+    body('thumbnail')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Thumbnail must be a URL')
+  ],
+  handleValidation,
+  actionRateLimit('create-template', 20, 60 * 60 * 1000), // 20 templates per hour
+  asyncHandler(async (req, res) => {
+    const { name, description, category, difficulty, tags, isPublic, thumbnail } = req.body;
+
+    const slots = normalizeSlots(req.body.slots);
+    const slotError = validateSlots(slots);
+    if (slotError) {
+      throw new AppError(slotError, 400, 'INVALID_TEMPLATE');
+    }
+
+    const projectData = normalizeTemplateProjectData(req.body.projectData, slots);
+    const dataError = validateTemplateProjectData(projectData);
+    if (dataError) {
+      throw new AppError(dataError, 400, 'INVALID_TEMPLATE');
+    }
+
+    const template = await prisma.template.create({
+      data: {
+        name,
+        description: description || null,
+        category: category || 'custom',
+        difficulty: difficulty || 'beginner',
+        tags: Array.isArray(tags) ? tags.map(String) : [],
+        thumbnail: thumbnail || null,
+        isPublic: Boolean(isPublic),
+        ownerId: req.user.id,
+        duration: projectData.timeline.duration,
+        slots,
+        projectData
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Template created successfully',
+      data: { template: toTemplateResponse(template, req.user.id) }
+    });
+  })
+);
+
+// @route   PUT /api/templates/:id
+// @desc    Update a template's details and slot names
+// @access  Private (owner)
+router.put('/:id',
+  [
+    param('id').isUUID().withMessage('Invalid template ID'),
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Template name must be between 1 and 100 characters'),
+    ...templateFieldValidation
+  ],
+  handleValidation,
+  asyncHandler(async (req, res) => {
+    const current = await findOwnedTemplate(req.params.id, req.user.id);
+    const { name, description, category, difficulty, tags, isPublic } = req.body;
+
+    const data = {};
+    if (name) data.name = name;
+    if (description !== undefined) data.description = description;
+    if (category) data.category = category;
+    if (difficulty) data.difficulty = difficulty;
+    if (tags) data.tags = tags.map(String);
+    if (isPublic !== undefined) data.isPublic = Boolean(isPublic);
+
+    // Slots can be renamed; adding or removing them means saving the project again
+    if (req.body.slots) {
+      const names = new Map(normalizeSlots(req.body.slots).map(slot => [slot.id, slot.name]));
+      const slots = normalizeSlots(current.slots).map(slot => ({ ...slot, name: names.get(slot.id) || slot.name }));
+      data.slots = slots;
+      data.projectData = {
+        ...current.projectData,
+        timeline: {
+          ...current.projectData.timeline,
+          template: { ...current.projectData.timeline.template, slots }
+        }
+      };
+    }
+
+    const updated = await prisma.template.update({
+      where: { id: current.id },
+      data
+    });
+
+    res.json({
+      success: true,
+      message: 'Template updated successfully',
+      data: { template: toTemplateResponse(updated, req.user.id) }
+    });
+  })
+);
+
+// @route   DELETE /api/templates/:id
+// @desc    Delete template (projects created from it are kept)
+// @access  Private (owner)
+router.delete('/:id',
+  param('id').isUUID().withMessage('Invalid template ID'),
+  handleValidation,
+  asyncHandler(async (req, res) => {
+    const template = await findOwnedTemplate(req.params.id, req.user.id);
+    await prisma.template.delete({ where: { id: template.id } });
+
+    res.json({
+      success: true,
+      message: 'Template deleted successfully'
+    });
+  })
+);
+
+// @route   POST /api/templates/:id/create-project
+// @desc    Create a project from a template; its slots are filled in the editor
+// @access  Private
+router.post('/:id/create-project',
+  [
+    param('id').isUUID().withMessage('Invalid template ID'),
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Project name must be between 1 and 100 characters')
+  ],
+  handleValidation,
+  actionRateLimit('create-project', 10, 60 * 60 * 1000), // shares the project creation limit
+  asyncHandler(async (req, res) => {
+    if (!entitlements.canCreateProject(entitlements.resolveUserPlan(req.user), req.user.usageProjectsCount || 0)) {
+      throw new AppError(
+        `Project limit reached for ${entitlements.resolveUserPlan(req.user)} plan. Please upgrade or delete existing projects.`,
+        402
+      );
+    }
+
+    const template = await findVisibleTemplate(req.params.id, req.user.id);
+    const timeline = createTimelineFromTemplate(template);
+
+    const project = await prisma.$transaction(async (tx) => {
+      const created = await tx.project.create({
+        data: {
+          name: req.body.name || template.name,
+          description: template.description,
+          ownerId: req.user.id,
+          tags: template.tags,
+          settings: normalizeSettings({ ...template.projectData?.settings, duration: timeline.duration }),
+          timeline,
+          beatGrid: template.projectData?.beatGrid || undefined,
+          metadata: {
+            ...buildTimelineMetadata(timeline, {}, req.user.id),
+            templateId: template.id
+          }
+        }
+      });
+
+      await tx.user.update({
+        where: { id: req.user.id },
+        data: { usageProjectsCount: (req.user.usageProjectsCount || 0) + 1 }
+      });
+
+      await tx.template.update({
+        where: { id: template.id },
+        data: { uses: { increment: 1 } }
+      });
+
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Project created from template',
+      data: { project: toProjectResponse(project) }
+    });
+  })
+);
+
+/**
+ * Template the user may use (their own or public)
+ * @param {string} templateId
+ * @param {string} userId
+ */
+async function findVisibleTemplate(templateId, userId) {
+  const template = await prisma.template.findUnique({ where: { id: templateId } });
+  if (!template || (template.ownerId !== userId && !template.isPublic)) {
+    throw new AppError('Template not found', 404);
+  }
+  return template;
+}
+
+/**
+ * Template the user may change (their own)
+ * @param {string} templateId
+ * @param {string} userId
+ */
+async function findOwnedTemplate(templateId, userId) {
+  const template = await findVisibleTemplate(templateId, userId);
+  if (template.ownerId !== userId) {
+    throw new AppError('Only the template owner can change it', 403);
+  }
+  return template;
+}
+
+module.exports = router;
@@ -4,6 +4,12 @@ const { body, query, validationResult } = require('express-validator');
 const prisma = require('../prisma/client');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { adminMiddleware, actionRateLimit } = require('../middleware/auth');
+const {
+  UNLIMITED,
+  getEntitlements,
+  getStorageLimitBytes,
+  resolveUserPlan
+} = require('../../worker/dist/entitlements');
 
 const router = express.Router();
 
@@ -17,25 +23,43 @@ const toNumber = (v) => {
   }
 };
 
-const getSubscriptionLimits = (subscription) => {
-  const limits = {
-    free: {
-      storage: 1024 * 1024 * 1024, // 1GB
-      projects: 3,
-      exports: 5
-    },
-    pro: {
-      storage: 50 * 1024 * 1024 * 1024, // 50GB
-      projects: 50,
-      exports: 100
-    },
-    enterprise: {
-      storage: 500 * 1024 * 1024 * 1024, // 500GB
-      projects: 1000,
-      exports: 1000
-    }
+// Limits from the shared plan entitlements (-1 = unlimited)
+const getSubscriptionLimits = (plan) => {
+  const { maxProjects, exportsPerMonth } = getEntitlements(plan);
+  return {
+    storage: getStorageLimitBytes(plan),
+    projects: maxProjects,
+    exports: exportsPerMonth
   };
-  return limits[subscription] || limits.free;
+};
+
+const toPercentage = (used, limit) =>
+  limit === UNLIMITED || !used ? 0 : Math.round((used / limit) * 100);
+
+// Keybinding overrides are a map of command id -> key combos (e.g. "Ctrl+Shift+Z").
+// The client owns the command list, so only the shape is checked here.
+const MAX_KEYBINDING_COMMANDS = 200;
+const MAX_KEYS_PER_COMMAND = 4;
+const COMMAND_ID_PATTERN = /^[a-z]+\.[A-Za-z]+$/;
+
+const isValidKeybindings = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('keybindings must be an object');
+  }
+  const entries = Object.entries(value);
+  if (entries.length > MAX_KEYBINDING_COMMANDS) {
+    throw new Error('Too many keybindings');
+  }
+  for (const [commandId, keys] of entries) {
+    if (!COMMAND_ID_PATTERN.test(commandId)) {
+      throw new Error(`Invalid command id: ${commandId}`);
+    }
+    if (!Array.isArray(keys) || keys.length > MAX_KEYS_PER_COMMAND ||
+        !keys.every(key => typeof key === 'string' && key.length > 0 && key.length <= 40)) {
+      throw new Error(`Invalid keys for ${commandId}`);
+    }
+  }
+  return true;
 };
 
 // @route   GET /api/users/profile
@@ -106,7 +130,8 @@ router.put('/preferences',
     body('theme').optional().isIn(['light', 'dark', 'auto']).withMessage('Invalid theme'),
     body('defaultResolution').optional().isIn(['9:16', '1:1', '16:9']).withMessage('Invalid resolution'),
     body('autoSave').optional().isBoolean().withMessage('autoSave must be boolean'),
-    body('language').optional().isLength({ min: 2, max: 5 }).withMessage('Invalid language code')
+    body('language').optional().isLength({ min: 2, max: 5 }).withMessage('Invalid language code'),
+    body('keybindings').optional().custom(isValidKeybindings)
   ],
   asyncHandler(async (req, res) => {
     const errors = validationResult(req);
@@ -118,7 +143,7 @@ router.put('/preferences',
       });
     }
 
-    const { theme, defaultResolution, autoSave, language } = req.body;
+    const { theme, defaultResolution, autoSave, language, keybindings } = req.body;
 
     const current = await prisma.user.findUnique({
       where: { id: req.user.id },
@@ -130,7 +155,9 @@ router.put('/preferences',
       ...(theme ? { theme } : {}),
       ...(defaultResolution ? { defaultResolution } : {}),
       ...(typeof autoSave === 'boolean' ? { autoSave } : {}),
-      ...(language ? { language } : {})
+      ...(language ? { language } : {}),
+      // Saved as a whole so removed overrides fall back to the defaults
+      ...(keybindings ? { keybindings } : {})
     };
 
     await prisma.user.update({
@@ -251,7 +278,8 @@ router.get('/usage',
     });
     const projectsCount = await prisma.project.count({ where: { ownerId: userId } });
 
-    const limits = getSubscriptionLimits(req.user.subscription);
+    const plan = resolveUserPlan(req.user);
+    const limits = getSubscriptionLimits(plan);
 
     const usedStorage = toNumber(storageAgg._sum?.size || 0);
 
@@ -259,23 +287,23 @@ router.get('/usage',
       storage: {
         used: usedStorage,
         limit: limits.storage,
-        percentage: usedStorage ? Math.round((usedStorage / limits.storage) * 100) : 0
+        percentage: toPercentage(usedStorage, limits.storage)
       },
       projects: {
         used: projectsCount,
         limit: limits.projects,
-        percentage: Math.round((projectsCount / limits.projects) * 100)
+        percentage: toPercentage(projectsCount, limits.projects)
       },
       exports: {
         used: exportsThisMonth,
         limit: limits.exports,
-        percentage: Math.round((exportsThisMonth / limits.exports) * 100)
+        percentage: toPercentage(exportsThisMonth, limits.exports)
       }
     };
 
     res.json({
       success: true,
-      data: { usage, subscription: req.user.subscription }
+      data: { usage, subscription: plan }
     });
   })
 );
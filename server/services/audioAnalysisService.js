@@ -1,6 +1,6 @@
 const GroqClient = require('./groq/groqClient');
 const prisma = require('../prisma/client');
-const path = require('path');
+const storageService = require('./storageService');
 
 class AudioAnalysisService {
   constructor() {
@@ -14,6 +14,8 @@ class AudioAnalysisService {
    * @returns {Promise<Object>} - 解析結果
    */
   async analyzeAudioFile(mediaFileId, options = {}) {
+    let localFile = null;
+
     try {
       // MediaFileを取得
       const mediaFile = await prisma.mediaFile.findUnique({
@@ -27,8 +29,9 @@ class AudioAnalysisService {
       // 解析状態を更新
       await this.updateAnalysisStatus(mediaFileId, 'processing', 10);
 
-      // ファイルパスを構築
-      const filePath = path.join(__dirname, '../uploads', mediaFile.ownerId.toString(), mediaFile.storage?.key || '');
+      // 文字起こし用にローカルのファイルを用意（リモートのストレージならダウンロード）
+      localFile = await storageService.toLocalFile(storageService.mediaLocation(mediaFile));
+      const filePath = localFile.path;
 
       // 1. 音声をテキスト化
       await this.updateAnalysisStatus(mediaFileId, 'processing', 30);
@@ -81,6 +84,8 @@ class AudioAnalysisService {
       await this.updateAnalysisStatus(mediaFileId, 'failed', 0, error.message);
       
       throw error;
+    } finally {
+      await localFile?.cleanup();
     }
   }
 
@@ -0,0 +1,400 @@
+/**
+ * CollaborationService
+ * Operation-based timeline editing over the WebSocket server (src/index.ts).
+ *
+ * - Each open project has an in-memory session: the merged timeline, its version,
+ *   recent operations and the connected participants (presence).
+ * - Editors send clip- and audio-track-level operations built on a base version.
+ *   The server applies them in arrival order and assigns version + 1. An operation
+ *   is rejected when a concurrent operation (applied after its base version by
+ *   another connection) wrote the same clip field, effect or audio track field;
+ *   the editor rebases and shows the change.
+ * - The merged timeline is written back to the project shortly after edits and
+ *   when the last participant leaves.
+ * - Participant roles are re-read when collaborators change and every minute;
+ *   participants who lost access are dropped from the session.
+ *
+ * Messages (client -> server):
+ *   collab_join      { projectId }
+ *   collab_leave     { projectId }
+ *   collab_op        { projectId, opId, baseVersion, op }
+ *   collab_presence  { projectId, selection, playhead }
+ *   collab_sync      { projectId }
+ * Messages (server -> client):
+ *   collab_state     { projectId, version, timeline, role, clientId, participants }
+ *   collab_op        { projectId, version, opId, clientId, userId, op }
+ *   collab_op_rejected { projectId, opId, reason, version }
+ *   collab_presence  { projectId, participants }
+ *   collab_error     { projectId, message }
+ */
+
+const crypto = require('crypto');
+const prisma = require('../prisma/client');
+const { applyOperation, findConflict, isTimelineOperation } = require('../../worker/dist/collab');
+const {
+  normalizeTimeline,
+  validateTimeline,
+  collectMediaIds,
+  buildTimelineMetadata
+} = require('../utils/projectTimeline');
+const { getProjectAccess, hasProjectPermission } = require('../utils/projectAccess');
+
+const OPEN = 1; // WebSocket.OPEN
+const HISTORY_LIMIT = 500; // operations kept for conflict checks
+const PERSIST_DELAY_MS = 2000;
+const ACCESS_CHECK_MS = 60 * 1000; // catches roles changed outside the collaborator routes
+
+class CollaborationService {
+  constructor() {
+    this.sessions = new Map(); // projectId -> session
+    this.loading = new Map(); // projectId -> Promise<session>
+  }
+
+  async loadSession(projectId) {
+    if (this.sessions.has(projectId)) return this.sessions.get(projectId);
+    if (this.loading.has(projectId)) return this.loading.get(projectId);
+
+    const promise = (async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { timeline: true, metadata: true }
+      });
+      if (!project) return null;
+
+      const session = {
+        projectId,
+        timeline: normalizeTimeline(project.timeline),
+        version: project.metadata?.version || 0,
+        history: [], // { version, clientId, userId, op }
+        participants: new Map(), // clientId -> participant
+        persistTimer: null,
+        accessTimer: null,
+        lastEditedBy: null
+      };
+      session.accessTimer = setInterval(() => {
+        this.refreshAccess(projectId).catch(error => {
+          console.error(`Failed to refresh collaboration access for ${projectId}:`, error);
+        });
+      }, ACCESS_CHECK_MS);
+      session.accessTimer.unref?.();
+      this.sessions.set(projectId, session);
+      return session;
+    })();
+
+    this.loading.set(projectId, promise);
+    try {
+      return await promise;
+    } finally {
+      this.loading.delete(projectId);
+    }
+  }
+
+  /**
+   * Join a project's editing session
+   * @param {import('ws') & { userId?: string, clientId?: string, collabProjectId?: string }} ws
+   * @param {string} projectId
+   */
+  async join(ws, projectId) {
+    if (typeof projectId !== 'string' || !projectId) {
+      return this.sendError(ws, projectId, 'Invalid projectId');
+    }
+    if (!ws.userId) {
+      return this.sendError(ws, projectId, 'Authentication required');
+    }
+
+    const [{ role }, user] = await Promise.all([
+      getProjectAccess(projectId, ws.userId),
+      prisma.user.findUnique({ where: { id: ws.userId }, select: { name: true, avatar: true } })
+    ]);
+    if (!hasProjectPermission(role, 'view')) {
+      return this.sendError(ws, projectId, 'Project not found or access denied');
+    }
+    // Closed while checking access; its leave() has already run
+    if (ws.readyState !== OPEN) return;
+
+    const session = await this.loadSession(projectId);
+    if (!session) {
+      return this.sendError(ws, projectId, 'Project not found or access denied');
+    }
+    // An empty session left by this is closed by the next access check
+    if (ws.readyState !== OPEN) return;
+
+    // One session per connection
+    if (ws.collabProjectId && ws.collabProjectId !== projectId) {
+      this.leave(ws);
+    }
+
+    ws.clientId = ws.clientId || crypto.randomUUID();
+    ws.collabProjectId = projectId;
+    session.participants.set(ws.clientId, {
+      ws,
+      clientId: ws.clientId,
+      userId: ws.userId,
+      name: user?.name || 'Unknown',
+      avatar: user?.avatar || null,
+      role,
+      selection: [],
+      playhead: 0
+    });
+
+    this.sendState(ws, session);
+    this.broadcastPresence(session);
+  }
+
+  /**
+   * Leave the current session (also called when the socket closes)
+   */
+  leave(ws) {
+    const session = ws.collabProjectId && this.sessions.get(ws.collabProjectId);
+    ws.collabProjectId = undefined;
+    if (!session || !session.participants.delete(ws.clientId)) return;
+
+    if (session.participants.size === 0) {
+      this.closeSession(session);
+    } else {
+      this.broadcastPresence(session);
+    }
+  }
+
+  /**
+   * Apply an operation from a participant
+   * @param {any} ws
+   * @param {{ projectId: string, opId: string, baseVersion: number, op: any }} message
+   */
+  submit(ws, { projectId, opId, baseVersion, op }) {
+    const session = this.sessionFor(ws, projectId);
+    if (!session) return;
+    const participant = session.participants.get(ws.clientId);
+
+    const reject = (reason) => this.send(ws, 'collab_op_rejected', {
+      projectId,
+      opId,
+      reason,
+      version: session.version
+    });
+
+    if (!hasProjectPermission(participant.role, 'edit')) return reject('read_only');
+    if (typeof opId !== 'string' || !isTimelineOperation(op)) return reject('invalid_operation');
+    if (!Number.isInteger(baseVersion) || baseVersion > session.version) return reject('invalid_version');
+
+    // Operations the editor had not seen when it built this one
+    const oldestKnown = session.history.length > 0 ? session.history[0].version - 1 : session.version;
+    if (baseVersion < oldestKnown) return reject('stale');
+    const concurrent = session.history.filter(entry =>
+      entry.version > baseVersion && entry.clientId !== ws.clientId
+    );
+    if (findConflict(op, concurrent)) return reject('conflict');
+
+    const result = applyOperation(session.timeline, op);
+    if (!result.ok) return reject(result.reason);
+    const timeline = normalizeTimeline(result.timeline);
+    const invalid = validateTimeline(timeline);
+    if (invalid) return reject('invalid_timeline');
+
+    session.timeline = timeline;
+    session.version += 1;
+    session.lastEditedBy = ws.userId;
+    session.history.push({ version: session.version, clientId: ws.clientId, userId: ws.userId, op });
+    if (session.history.length > HISTORY_LIMIT) session.history.shift();
+
+    this.broadcast(session, 'collab_op', {
+      projectId,
+      version: session.version,
+      opId,
+      clientId: ws.clientId,
+      userId: ws.userId,
+      op
+    });
+    this.schedulePersist(session);
+  }
+
+  /**
+   * Selection and playhead of a participant
+   */
+  updatePresence(ws, { projectId, selection, playhead }) {
+    const session = this.sessionFor(ws, projectId);
+    if (!session) return;
+    const participant = session.participants.get(ws.clientId);
+
+    if (Array.isArray(selection)) {
+      participant.selection = selection.filter(id => typeof id === 'string').slice(0, 100);
+    }
+    if (Number.isFinite(playhead) && playhead >= 0) {
+      participant.playhead = playhead;
+    }
+    this.broadcastPresence(session);
+  }
+
+  /**
+   * Resend the full state (editor detected a gap or was rejected as stale)
+   */
+  sync(ws, projectId) {
+    const session = this.sessionFor(ws, projectId);
+    if (session) this.sendState(ws, session);
+  }
+
+  /**
+   * A timeline saved over REST replaces the session state. Old base versions
+   * can no longer be rebased, so every participant gets the new state.
+   * @param {string} projectId
+   * @param {any} timeline - normalized timeline as stored
+   * @param {number} version - metadata.version stored with it
+   */
+  replaceTimeline(projectId, timeline, version) {
+    const session = this.sessions.get(projectId);
+    if (!session) return;
+
+    session.timeline = timeline;
+    session.version = Math.max(session.version + 1, version || 0);
+    session.history = [];
+    clearTimeout(session.persistTimer);
+    session.persistTimer = null;
+    session.participants.forEach(participant => this.sendState(participant.ws, session));
+  }
+
+  /**
+   * Re-read each participant's role (collaborator added or changed, project
+   * deleted). Participants who lost access are dropped, the others continue
+   * with their current role.
+   * @param {string} projectId
+   */
+  async refreshAccess(projectId) {
+    const session = this.sessions.get(projectId);
+    if (!session) return;
+    if (session.participants.size === 0) {
+      this.closeSession(session);
+      return;
+    }
+
+    const userIds = [...new Set(Array.from(session.participants.values(), participant => participant.userId))];
+    const roles = new Map(await Promise.all(userIds.map(async userId =>
+      [userId, (await getProjectAccess(projectId, userId)).role]
+    )));
+    if (this.sessions.get(projectId) !== session) return;
+
+    let changed = false;
+    session.participants.forEach(participant => {
+      // Joined during the check with a fresh role
+      if (!roles.has(participant.userId)) return;
+      const role = roles.get(participant.userId);
+      if (role === participant.role) return;
+
+      if (hasProjectPermission(role, 'view')) {
+        participant.role = role;
+        changed = true;
+        this.sendState(participant.ws, session);
+      } else {
+        this.sendError(participant.ws, projectId, 'Project not found or access denied');
+        this.leave(participant.ws);
+      }
+    });
+
+    if (changed && this.sessions.get(projectId) === session) {
+      this.broadcastPresence(session);
+    }
+  }
+
+  sessionFor(ws, projectId) {
+    const session = this.sessions.get(projectId);
+    if (!session || ws.collabProjectId !== projectId || !session.participants.has(ws.clientId)) {
+      this.sendError(ws, projectId, 'Join the project first');
+      return null;
+    }
+    return session;
+  }
+
+  schedulePersist(session) {
+    if (session.persistTimer) return;
+    session.persistTimer = setTimeout(() => {
+      session.persistTimer = null;
+      this.persist(session).catch(error => {
+        console.error(`Failed to save collaborative timeline for ${session.projectId}:`, error);
+      });
+    }, PERSIST_DELAY_MS);
+  }
+
+  async persist(session) {
+    const { projectId, timeline, version } = session;
+    const current = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { metadata: true }
+    });
+    if (!current) return;
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        timeline,
+        mediaIds: collectMediaIds(timeline),
+        metadata: {
+          ...buildTimelineMetadata(timeline, current.metadata, session.lastEditedBy),
+          version
+        }
+      }
+    });
+  }
+
+  closeSession(session) {
+    const pending = Boolean(session.persistTimer);
+    clearTimeout(session.persistTimer);
+    clearInterval(session.accessTimer);
+    session.persistTimer = null;
+    this.sessions.delete(session.projectId);
+
+    if (pending) {
+      this.persist(session).catch(error => {
+        console.error(`Failed to save collaborative timeline for ${session.projectId}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Save every session with unsaved edits (graceful shutdown)
+   */
+  async flushAll() {
+    const sessions = Array.from(this.sessions.values()).filter(session => session.persistTimer);
+    sessions.forEach(session => {
+      clearTimeout(session.persistTimer);
+      session.persistTimer = null;
+    });
+    await Promise.allSettled(sessions.map(session => this.persist(session)));
+  }
+
+  participantsOf(session) {
+    return Array.from(session.participants.values()).map(({ ws, ...participant }) => participant);
+  }
+
+  sendState(ws, session) {
+    const participant = session.participants.get(ws.clientId);
+    this.send(ws, 'collab_state', {
+      projectId: session.projectId,
+      version: session.version,
+      timeline: session.timeline,
+      role: participant?.role,
+      clientId: ws.clientId,
+      participants: this.participantsOf(session)
+    });
+  }
+
+  broadcastPresence(session) {
+    this.broadcast(session, 'collab_presence', {
+      projectId: session.projectId,
+      participants: this.participantsOf(session)
+    });
+  }
+
+  broadcast(session, type, payload) {
+    session.participants.forEach(participant => this.send(participant.ws, type, payload));
+  }
+
+  sendError(ws, projectId, message) {
+    this.send(ws, 'collab_error', { projectId, message });
+  }
+
+  send(ws, type, payload) {
+    if (ws.readyState !== OPEN) return;
+    ws.send(JSON.stringify({ type, ...payload, timestamp: new Date().toISOString() }));
+  }
+}
+
+module.exports = new CollaborationService();
@@ -0,0 +1,252 @@
+jest.mock('../prisma/client', () => ({
+  project: {
+    findUnique: jest.fn(async () => ({
+      timeline: { clips: [], audioTracks: [], duration: 30 },
+      metadata: { version: 3 }
+    })),
+    update: jest.fn(async () => ({}))
+  },
+  user: {
+    findUnique: jest.fn(async () => ({ name: 'Editor', avatar: null }))
+  }
+}));
+jest.mock('../utils/projectAccess', () => ({
+  ...jest.requireActual('../utils/projectAccess'),
+  getProjectAccess: jest.fn()
+}));
+
+const { getProjectAccess } = require('../utils/projectAccess');
+const collaborationService = require('./collaborationService');
+
+const PROJECT_ID = 'project-1';
+const OPEN = 1;
+const CLOSED = 3;
+
+// Roles by user, as getProjectAccess would read them
+let roles;
+
+const socket = (userId) => ({
+  userId,
+  readyState: OPEN,
+  sent: [],
+  send(message) {
+    this.sent.push(JSON.parse(message));
+  }
+});
+const messages = (ws, type) => ws.sent.filter(message => message.type === type);
+const session = () => collaborationService.sessions.get(PROJECT_ID);
+
+beforeEach(() => {
+  roles = { owner: 'owner', editor: 'editor' };
+  getProjectAccess.mockImplementation(async (projectId, userId) => ({ role: roles[userId] || null }));
+});
+
+afterEach(() => {
+  collaborationService.sessions.forEach(s => collaborationService.closeSession(s));
+});
+
+describe('join', () => {
+  it('adds the participant with its role', async () => {
+    const ws = socket('editor');
+
+    await collaborationService.join(ws, PROJECT_ID);
+
+    expect(session().participants.get(ws.clientId)).toMatchObject({ userId: 'editor', role: 'editor' });
+    expect(messages(ws, 'collab_state')).toEqual([expect.objectContaining({ role: 'editor', version: 3 })]);
+  });
+
+  it('does not add a socket that closed while access was checked', async () => {
+    const ws = socket('editor');
+    getProjectAccess.mockImplementationOnce(async () => {
+      ws.readyState = CLOSED;
+      return { role: 'editor' };
+    });
+
+    await collaborationService.join(ws, PROJECT_ID);
+
+    expect(session()).toBeUndefined();
+    expect(ws.collabProjectId).toBeUndefined();
+  });
+
+  it('does not add a socket that closed while the session loaded', async () => {
+    const other = socket('owner');
+    await collaborationService.join(other, PROJECT_ID);
+    const ws = socket('editor');
+    getProjectAccess.mockImplementationOnce(async () => ({ role: 'editor' }));
+    const joining = collaborationService.join(ws, PROJECT_ID);
+    ws.readyState = CLOSED;
+
+    await joining;
+
+    expect(session().participants.size).toBe(1);
+    expect(ws.collabProjectId).toBeUndefined();
+  });
+
+  it('rejects users without access', async () => {
+    const ws = socket('stranger');
+
+    await collaborationService.join(ws, PROJECT_ID);
+
+    expect(messages(ws, 'collab_error')).toHaveLength(1);
+    expect(session()).toBeUndefined();
+  });
+});
+
+describe('refreshAccess', () => {
+  it('drops participants who lost access', async () => {
+    const owner = socket('owner');
+    const editor = socket('editor');
+    await collaborationService.join(owner, PROJECT_ID);
+    await collaborationService.join(editor, PROJECT_ID);
+    delete roles.editor;
+
+    await collaborationService.refreshAccess(PROJECT_ID);
+
+    expect(Array.from(session().participants.values(), p => p.userId)).toEqual(['owner']);
+    expect(messages(editor, 'collab_error')).toHaveLength(1);
+    expect(editor.collabProjectId).toBeUndefined();
+  });
+
+  it('applies a downgraded role to the next operation', async () => {
+    const editor = socket('editor');
+    await collaborationService.join(editor, PROJECT_ID);
+    roles.editor = 'viewer';
+
+    await collaborationService.refreshAccess(PROJECT_ID);
+    collaborationService.submit(editor, {
+      projectId: PROJECT_ID,
+      opId: 'op-1',
+      baseVersion: 3,
+      op: { type: 'clip_remove', clipId: 'clip-1' }
+    });
+
+    expect(messages(editor, 'collab_state').pop()).toMatchObject({ role: 'viewer' });
+    expect(messages(editor, 'collab_op_rejected')).toEqual([expect.objectContaining({ reason: 'read_only' })]);
+  });
+
+  it('closes the session when the project is gone', async () => {
+    const owner = socket('owner');
+    await collaborationService.join(owner, PROJECT_ID);
+    roles = {};
+
+    await collaborationService.refreshAccess(PROJECT_ID);
+
+    expect(session()).toBeUndefined();
+  });
+
+  it('closes a session nobody joined', async () => {
+    await collaborationService.loadSession(PROJECT_ID);
+
+    await collaborationService.refreshAccess(PROJECT_ID);
+
+    expect(session()).toBeUndefined();
+  });
+});
+
+describe('audio tracks', () => {
+  const prisma = require('../prisma/client');
+  const submit = (ws, version, opId, op) =>
+    collaborationService.submit(ws, { projectId: PROJECT_ID, opId, baseVersion: version, op });
+
+  it('shares added and edited tracks and saves them', async () => {
+    const owner = socket('owner');
+    const editor = socket('editor');
+    await collaborationService.join(owner, PROJECT_ID);
+    await collaborationService.join(editor, PROJECT_ID);
+
+    submit(editor, 3, 'op-1', {
+      type: 'audio_track_add',
+      track: { id: 'audio-1', mediaId: 'media-audio', startTime: 0, duration: 8, volume: 1, waveformData: [0.1] }
+    });
+    submit(owner, 4, 'op-2', {
+      type: 'audio_track_update',
+      trackId: 'audio-1',
+      changes: { muted: true, solo: true, beats: [0, 0.5, 1] }
+    });
+
+    expect(messages(editor, 'collab_op').map(message => message.opId)).toEqual(['op-1', 'op-2']);
+    expect(messages(owner, 'collab_op_rejected')).toEqual([]);
+
+    await collaborationService.flushAll();
+
+    const { data } = prisma.project.update.mock.calls.at(-1)[0];
+    expect(data.timeline.audioTracks).toEqual([{
+      id: 'audio-1',
+      mediaId: 'media-audio',
+      startTime: 0,
+      duration: 8,
+      volume: 1,
+      muted: true,
+      solo: true,
+      beats: [0, 0.5, 1]
+    }]);
+    expect(data.metadata.version).toBe(5);
+  });
+
+  it('rejects edits to a track that is gone', async () => {
+    const editor = socket('editor');
+    await collaborationService.join(editor, PROJECT_ID);
+
+    submit(editor, 3, 'op-1', { type: 'audio_track_update', trackId: 'audio-1', changes: { muted: true } });
+
+    expect(messages(editor, 'collab_op_rejected')).toEqual([
+      expect.objectContaining({ opId: 'op-1', reason: 'audio_track_not_found' })
+    ]);
+  });
+
+  it('rejects concurrent edits of the same track field', async () => {
+    const owner = socket('owner');
+    const editor = socket('editor');
+    await collaborationService.join(owner, PROJECT_ID);
+    await collaborationService.join(editor, PROJECT_ID);
+    submit(owner, 3, 'op-1', {
+      type: 'audio_track_add',
+      track: { id: 'audio-1', startTime: 0, duration: 8, volume: 1 }
+    });
+
+    submit(owner, 4, 'op-2', { type: 'audio_track_update', trackId: 'audio-1', changes: { volume: 0.5 } });
+    submit(editor, 4, 'op-3', { type: 'audio_track_update', trackId: 'audio-1', changes: { volume: 0.2 } });
+    submit(editor, 4, 'op-4', { type: 'audio_track_update', trackId: 'audio-1', changes: { muted: true } });
+
+    expect(messages(editor, 'collab_op_rejected')).toEqual([
+      expect.objectContaining({ opId: 'op-3', reason: 'conflict' })
+    ]);
+    expect(session().timeline.audioTracks[0]).toMatchObject({ volume: 0.5, muted: true });
+  });
+});
+
+describe('template slots', () => {
+  const submit = (ws, version, opId, op) =>
+    collaborationService.submit(ws, { projectId: PROJECT_ID, opId, baseVersion: version, op });
+  const placeholder = (overrides) => ({
+    id: 'clip-1',
+    mediaId: '',
+    startTime: 0,
+    duration: 2,
+    trimStart: 0,
+    trimEnd: 2,
+    layer: 0,
+    ...overrides
+  });
+
+  it('shares placeholder clips of an unfilled slot', async () => {
+    const editor = socket('editor');
+    await collaborationService.join(editor, PROJECT_ID);
+
+    submit(editor, 3, 'op-1', { type: 'clip_add', clip: placeholder({ slotId: 'slot-1' }) });
+
+    expect(messages(editor, 'collab_op_rejected')).toEqual([]);
+    expect(session().timeline.clips).toEqual([placeholder({ slotId: 'slot-1' })]);
+  });
+
+  it('rejects a clip without media outside a slot', async () => {
+    const editor = socket('editor');
+    await collaborationService.join(editor, PROJECT_ID);
+
+    submit(editor, 3, 'op-1', { type: 'clip_add', clip: placeholder() });
+
+    expect(messages(editor, 'collab_op_rejected')).toEqual([
+      expect.objectContaining({ opId: 'op-1', reason: 'invalid_operation' })
+    ]);
+  });
+});
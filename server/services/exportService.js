@@ -13,46 +13,23 @@
 // - queueExport(jobId): pg-bossに publish。processing.bossJobId を保存（ベストエフォート）
 // - cancelJob(jobId): pg-bossのキャンセルを試行（publish済み待機ジョブ向け）。実ジョブ側の停止はワーカー側の実装依存。
 // - getQueueStats(): ExportJob テーブル集計
-// - deleteOutputFiles(jobId): 出力とサムネイルのローカル削除（R2利用時は通常不要だがローカル運用の互換用）
+// - deleteOutputFiles(jobId): 出力とサムネイルを storageService 経由で削除（ローカル・R2 どちらでも）
 
 const path = require('path');
-const fs = require('fs').promises;
-const PgBoss = require('pg-boss');
 const prisma = require('../prisma/client');
+const storageService = require('./storageService');
+const { getBoss } = require('./jobQueue');
 const WatermarkService = require('./watermarkService');
+const UsageTrackingService = require('./usageTrackingService');
+const { getEntitlements, checkQuota, resolveUserPlan } = require('../../worker/dist/entitlements');
 
 class ExportService {
   constructor() {
-    this.boss = null;
     this.queueName = process.env.EXPORT_QUEUE_NAME || 'video-export';
-    this._starting = null;
   }
 
   async ensureBoss() {
-    if (this.boss) return this.boss;
-    if (this._starting) return this._starting;
-
-    const connectionString =
-      process.env.DATABASE_URL ||
-      process.env.SUPABASE_DB_URL ||
-      process.env.SUPABASE_POSTGRES_URL;
-
-    if (!connectionString) {
-      throw new Error('DATABASE_URL (Postgres) is required for pg-boss.');
-    }
-
-    const options = {
-      connectionString,
-      schema: process.env.PGBOSS_SCHEMA || undefined
-    };
-
-    this.boss = new PgBoss(options);
-    this._starting = this.boss.start().then(() => this.boss).catch((err) => {
-      this.boss = null;
-      throw err;
-    });
-
-    return this._starting;
+    return getBoss();
   }
 
   /**
@@ -78,10 +55,13 @@ class ExportService {
       throw new Error(`Export job not found: ${exportJobId}`);
     }
 
+    const userPlan = resolveUserPlan(exportJob.user);
+
     // Check export limits based on user plan
     const exportLimit = await WatermarkService.checkExportLimit(
       exportJob.userId, 
-      exportJob.user?.plan || 'free'
+      userPlan,
+      { excludeJobId: exportJobId }
     );
 
     if (!exportLimit.canExport) {
@@ -91,7 +71,7 @@ class ExportService {
     // Apply watermark settings based on user plan
     const updatedExportJob = WatermarkService.applyWatermarkToExport(
       exportJob, 
-      exportJob.user?.plan || 'free'
+      userPlan
     );
 
     // Update export job with watermark settings
@@ -110,7 +90,7 @@ class ExportService {
       { exportJobId },
       {
         singletonKey: exportJobId,
-        priority: this.getJobPriority(exportJob.user?.plan || 'free'),
+        priority: this.getJobPriority(userPlan),
         retryLimit: 3,
         retryDelay: 10_000
       }
@@ -153,13 +133,7 @@ class ExportService {
    * @returns {number}
    */
   getJobPriority(userPlan) {
-    switch (userPlan) {
-      case 'premium': return 90;
-      case 'pro': return 70;
-      case 'basic': return 50;
-      case 'free': return 30;
-      default: return 30;
-    }
+    return getEntitlements(userPlan).exportPriority;
   }
 
   /**
@@ -234,7 +208,7 @@ class ExportService {
       select: {
         watermarkSettings: true,
         user: {
-          select: { plan: true }
+          select: { plan: true, subscription: true }
         }
       }
     });
@@ -243,10 +217,12 @@ class ExportService {
       throw new Error(`Export job not found: ${exportJobId}`);
     }
 
+    const userPlan = resolveUserPlan(exportJob.user);
+
     // Return validated watermark settings
     return WatermarkService.validateWatermarkSettings(
-      exportJob.user?.plan || 'free',
-      exportJob.watermarkSettings || WatermarkService.getDefaultWatermarkSettings(exportJob.user?.plan || 'free')
+      userPlan,
+      exportJob.watermarkSettings || WatermarkService.getDefaultWatermarkSettings(userPlan)
     );
   }
 
@@ -280,20 +256,8 @@ class ExportService {
   async getUserExportStats(userId, userPlan) {
     const planFeatures = WatermarkService.getPlanFeatures(userPlan);
     
-    // Get current month's export count
-    const startOfMonth = new Date();
-    startOfMonth.setDate(1);
-    startOfMonth.setHours(0, 0, 0, 0);
-
-    const currentMonthExports = await prisma.exportJob.count({
-      where: {
-        userId,
-        createdAt: {
-          gte: startOfMonth
-        },
-        status: 'completed'
-      }
-    });
+    // Current month's exports, counted the same way the export limit counts them
+    const currentMonthExports = await UsageTrackingService.countMonthlyExports(userId);
 
     // Get total export count
     const totalExports = await prisma.exportJob.count({
@@ -303,22 +267,20 @@ class ExportService {
       }
     });
 
-    const remaining = planFeatures.maxExportsPerMonth === -1 
-      ? -1 
-      : Math.max(0, planFeatures.maxExportsPerMonth - currentMonthExports);
+    const quota = checkQuota(userPlan, 'exports', currentMonthExports);
 
     return {
       currentMonth: currentMonthExports,
       total: totalExports,
-      limit: planFeatures.maxExportsPerMonth,
-      remaining,
-      canExport: remaining > 0 || remaining === -1,
+      limit: quota.limit,
+      remaining: quota.remaining,
+      canExport: quota.allowed,
       planFeatures
     };
   }
 
   /**
-   * Delete output files (local FS)
+   * Delete output files from storage
    * @param {string} exportJobId - UUID of ExportJob
    */
   async deleteOutputFiles(exportJobId) {
@@ -326,40 +288,25 @@ class ExportService {
       where: { id: exportJobId },
       select: { userId: true, output: true }
     });
-    if (!job?.output?.filename) return;
-
-    const outputPath = this.getOutputPath({
-      userId: job.userId,
-      filename: job.output.filename
-    });
+    const location = job && storageService.exportLocation(job);
+    if (!location) return;
 
     try {
-      await fs.unlink(outputPath);
+      await storageService.delete(location);
     } catch (error) {
       console.warn(`Could not delete output file: ${error.message}`);
     }
 
     if (job.output.thumbnail) {
-      const thumbnailPath = path.join(
-        path.dirname(outputPath),
-        path.basename(job.output.thumbnail)
-      );
+      // The thumbnail sits next to the output
+      const thumbnailKey = path.posix.join(path.posix.dirname(location.key), path.basename(job.output.thumbnail));
       try {
-        await fs.unlink(thumbnailPath);
+        await storageService.delete({ ...location, key: thumbnailKey });
       } catch (error) {
         console.warn(`Could not delete thumbnail: ${error.message}`);
       }
     }
   }
-
-  /**
-   * Local output path resolver
-   * @param {{userId:string, filename:string}} param0
-   * @returns {string}
-   */
-  getOutputPath({ userId, filename }) {
-    return path.join(__dirname, '../exports', String(userId), filename);
-  }
 }
 
 module.exports = new ExportService();
\ No newline at end of file
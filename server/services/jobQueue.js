@@ -0,0 +1,57 @@
+// Shared pg-boss instance for background jobs (video exports, media renditions)
+//
+// Environment:
+//   DATABASE_URL=postgres://...   # Supabase/Postgres
+//   PGBOSS_SCHEMA=pgboss          # optional: schema for pg-boss tables
+
+const PgBoss = require('pg-boss');
+
+let boss = null;
+let starting = null;
+
+/**
+ * Started pg-boss instance (connects on first use)
+ * @returns {Promise<PgBoss>}
+ */
+async function getBoss() {
+  if (boss) return boss;
+  if (starting) return starting;
+
+  const connectionString =
+    process.env.DATABASE_URL ||
+    process.env.SUPABASE_DB_URL ||
+    process.env.SUPABASE_POSTGRES_URL;
+
+  if (!connectionString) {
+    throw new Error('DATABASE_URL (Postgres) is required for pg-boss.');
+  }
+
+  const instance = new PgBoss({
+    connectionString,
+    schema: process.env.PGBOSS_SCHEMA || undefined
+  });
+  instance.on('error', (error) => console.error('pg-boss error:', error));
+
+  starting = instance.start()
+    .then(() => {
+      boss = instance;
+      return boss;
+    })
+    .finally(() => {
+      starting = null;
+    });
+
+  return starting;
+}
+
+/**
+ * Stop pg-boss, letting active jobs finish (no-op if it never started)
+ */
+async function stopBoss() {
+  const instance = boss || await starting?.catch(() => null);
+  if (!instance) return;
+  boss = null;
+  await instance.stop({ graceful: true });
+}
+
+module.exports = { getBoss, stopBoss };
@@ -1,9 +1,39 @@
 const ffmpeg = require('fluent-ffmpeg');
 const sharp = require('sharp');
 const fs = require('fs').promises;
+const os = require('os');
 const path = require('path');
 
 const prisma = require('../prisma/client');
+const storageService = require('./storageService');
+const { getBoss } = require('./jobQueue');
+// Built from worker/src/analysis (npm run build:analysis)
+const { trackBeats, ANALYSIS_SAMPLE_RATE } = require('../../worker/dist/analysis');
+const { thumbnailKey, proxyKey } = require('../../worker/dist/storage');
+// Built from worker/src/render (npm run build:render)
+const {
+  analyzeReframeFrames,
+  REFRAME_ANALYSIS_WIDTH,
+  REFRAME_INTERVAL,
+  REFRAME_MAX_SAMPLES
+} = require('../../worker/dist/render');
+
+// Preview proxy sizes per quality: video height, image longest side (px)
+const PROXY_TARGETS = {
+  video: { low: 360, medium: 720 },
+  image: { low: 640, medium: 1280 }
+};
+
+// pg-boss queue for proxies, filmstrip and reframe analysis
+const RENDITIONS_QUEUE = process.env.MEDIA_QUEUE_NAME || 'media-renditions';
+const PROCESSING_QUEUE = process.env.MEDIA_PROCESSING_QUEUE_NAME || 'media-processing';
+
+// Filmstrip sprite: one frame every FILMSTRIP_INTERVAL seconds (spread wider
+// for long videos so the sheet stays within FILMSTRIP_MAX_FRAMES)
+const FILMSTRIP_INTERVAL = 1;
+const FILMSTRIP_MAX_FRAMES = 120;
+const FILMSTRIP_COLUMNS = 10;
+const FILMSTRIP_FRAME_HEIGHT = 72;
 
 class MediaService {
   constructor() {
@@ -19,7 +49,8 @@ class MediaService {
   // ===== New public APIs (Prisma) =====
 
   /**
-   * Process uploaded media file by ID (extract metadata, thumbnail, validate)
+   * Process uploaded media file by ID (extract metadata, thumbnail, validate),
+   * then queue the preview proxies, filmstrip and reframe path as a background job
    * @param {string} mediaFileId - UUID
    */
   async processFileById(mediaFileId) {
@@ -40,9 +71,13 @@ class MediaService {
       }
     });
 
-    const filePath = this.getFilePathFromRecord(mediaFile);
+    let localFile = null;
 
     try {
+      // ffprobe and sharp need the file on disk
+      localFile = await storageService.toLocalFile(storageService.mediaLocation(mediaFile));
+      const filePath = localFile.path;
+
       // Extract metadata
       const extracted = await this.extractMetadataToJson(mediaFile, filePath);
       await prisma.mediaFile.update({
@@ -52,7 +87,7 @@ class MediaService {
           processing: {
             ...(mediaFile.processing || {}),
             status: 'processing',
-            progress: 40
+            progress: 30
           }
         }
       });
@@ -66,41 +101,164 @@ class MediaService {
           processing: {
             ...(mediaFile.processing || {}),
             status: 'processing',
-            progress: 70
+            progress: 45
           }
         }
       });
 
       // Validate file exists/size and is decodable (best-effort)
       await this.validateFile(mediaFile, filePath);
+
+      // Renditions run outside the upload request; the file is usable meanwhile
+      const bossJobId = await this.queueRenditions(mediaFileId);
       await prisma.mediaFile.update({
         where: { id: mediaFileId },
         data: {
           processing: {
-            ...(mediaFile.processing || {}),
             status: 'processing',
-            progress: 90
+            progress: 50,
+            error: null,
+            thumbnailGenerated: true,
+            metadataExtracted: true,
+            bossJobId,
+            queuedAt: new Date().toISOString()
           }
         }
       });
 
+      console.log(`Media file processed, renditions queued: ${mediaFile.id}`);
+    } catch (error) {
+      console.error(`Error processing media file ${mediaFile.id}:`, error);
+      await prisma.mediaFile.update({
+        where: { id: mediaFileId },
+        data: {
+          processing: {
+            ...(mediaFile.processing || {}),
+            status: 'failed',
+            error: String(error.message || error)
+          }
+        }
+      });
+      throw error;
+    } finally {
+      await localFile?.cleanup();
+    }
+  }
+
+  /**
+   * Publish the processing job (processFileById) for a stored upload
+   * @param {string} mediaFileId - UUID
+   * @returns {Promise<string|null>} pg-boss job ID (null if one is already queued)
+   */
+  async queueProcessing(mediaFileId) {
+    const boss = await getBoss();
+    return boss.send(PROCESSING_QUEUE, { mediaFileId }, {
+      singletonKey: mediaFileId,
+      retryLimit: 2,
+      retryDelay: 30,
+      expireInMinutes: 30
+    });
+  }
+
+  /**
+   * Publish the renditions job for a processed media file
+   * @param {string} mediaFileId - UUID
+   * @returns {Promise<string|null>} pg-boss job ID (null if one is already queued)
+   */
+  async queueRenditions(mediaFileId) {
+    const boss = await getBoss();
+    return boss.send(RENDITIONS_QUEUE, { mediaFileId }, {
+      singletonKey: mediaFileId,
+      retryLimit: 2,
+      retryDelay: 30,
+      expireInMinutes: 60
+    });
+  }
+
+  /**
+   * Work the processing and renditions queues in this process, one file at a
+   * time each (ffmpeg is heavy)
+   */
+  async startWorkers() {
+    const boss = await getBoss();
+    await boss.work(PROCESSING_QUEUE, { teamSize: 1, teamConcurrency: 1 }, (job) =>
+      this.processFileById(job.data.mediaFileId)
+    );
+    await boss.work(RENDITIONS_QUEUE, { teamSize: 1, teamConcurrency: 1 }, (job) =>
+      this.generateRenditionsById(job.data.mediaFileId)
+    );
+    console.log(`Working media queues: ${PROCESSING_QUEUE}, ${RENDITIONS_QUEUE}`);
+  }
+
+  /**
+   * Renditions job: preview proxies, timeline filmstrip and smart reframe path.
+   * Uses the metadata stored by processFileById.
+   * @param {string} mediaFileId - UUID
+   */
+  async generateRenditionsById(mediaFileId) {
+    const mediaFile = await prisma.mediaFile.findUnique({
+      where: { id: mediaFileId }
+    });
+    // Deleted while queued
+    if (!mediaFile) return;
+
+    const setProgress = (progress, updates = {}) => prisma.mediaFile.update({
+      where: { id: mediaFileId },
+      data: {
+        ...updates,
+        processing: {
+          ...(mediaFile.processing || {}),
+          status: 'processing',
+          progress
+        }
+      }
+    });
+
+    const extracted = { dimensions: mediaFile.dimensions || {}, duration: mediaFile.duration };
+    let localFile = null;
+
+    try {
+      await setProgress(55);
+      localFile = await storageService.toLocalFile(storageService.mediaLocation(mediaFile));
+      const filePath = localFile.path;
+
+      // A failure here only loses that output (the preview uses the original,
+      // the clip stays plain, the crop stays centered)
+      const proxies = await this.generateProxies(mediaFile, filePath, extracted.dimensions).catch(error => {
+        console.warn(`Proxy generation failed for ${mediaFile.id}:`, error.message || error);
+        return null;
+      });
+      await setProgress(75, proxies ? { proxies } : {});
+
+      const filmstrip = await this.generateFilmstrip(mediaFile, filePath, extracted).catch(error => {
+        console.warn(`Filmstrip generation failed for ${mediaFile.id}:`, error.message || error);
+        return null;
+      });
+      await setProgress(85, filmstrip ? { filmstrip } : {});
+
+      const reframe = await this.generateReframe(mediaFile, filePath, extracted).catch(error => {
+        console.warn(`Reframe analysis failed for ${mediaFile.id}:`, error.message || error);
+        return null;
+      });
+
       // Completed
       await prisma.mediaFile.update({
         where: { id: mediaFileId },
         data: {
+          ...(reframe ? { reframe } : {}),
           processing: {
+            ...(mediaFile.processing || {}),
             status: 'completed',
             progress: 100,
             error: null,
-            thumbnailGenerated: true,
-            metadataExtracted: true
+            completedAt: new Date().toISOString()
           }
         }
       });
 
-      console.log(`Media file processed successfully: ${mediaFile.id}`);
+      console.log(`Media renditions generated: ${mediaFile.id}`);
     } catch (error) {
-      console.error(`Error processing media file ${mediaFile.id}:`, error);
+      console.error(`Error generating renditions for ${mediaFile.id}:`, error);
       await prisma.mediaFile.update({
         where: { id: mediaFileId },
         data: {
@@ -111,7 +269,10 @@ class MediaService {
           }
         }
       });
+      // pg-boss retries the job
       throw error;
+    } finally {
+      await localFile?.cleanup();
     }
   }
 
@@ -125,9 +286,11 @@ class MediaService {
     });
     if (!mediaFile) throw new Error('Media file not found');
 
-    const filePath = this.getFilePathFromRecord(mediaFile);
+    let localFile = null;
 
     try {
+      localFile = await storageService.toLocalFile(storageService.mediaLocation(mediaFile));
+      const filePath = localFile.path;
       let updates = {};
       if (mediaFile.type === 'audio') {
         const audioAnalysis = await this.analyzeBPMToJson(filePath, mediaFile);
@@ -158,6 +321,8 @@ class MediaService {
     } catch (error) {
       console.error(`Error analyzing media file ${mediaFile.id}:`, error);
       throw error;
+    } finally {
+      await localFile?.cleanup();
     }
   }
 
@@ -223,47 +388,241 @@ class MediaService {
   }
 
   /**
-   * Generate thumbnail/waveform and return thumbnail URL (if created)
+   * Generate thumbnail/waveform, store it and return its URL (if created)
    * @param {any} mediaFile
-   * @param {string} filePath
+   * @param {string} filePath - local copy of the media
    * @returns {Promise<string|null>}
    */
   async generateThumbnail(mediaFile, filePath) {
-    const ownerId = mediaFile.ownerId;
-    const thumbnailDir = path.join(path.dirname(filePath), 'thumbnails');
-    await fs.mkdir(thumbnailDir, { recursive: true });
+    if (!['image', 'video', 'audio'].includes(mediaFile.type)) return null;
 
     const base = path.basename(filePath, path.extname(filePath));
     const thumbnailFilename = `thumb_${base}.jpg`;
-    const thumbnailPath = path.join(thumbnailDir, thumbnailFilename);
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flickmv-thumb-'));
+    const thumbnailPath = path.join(workDir, thumbnailFilename);
 
-    if (mediaFile.type === 'image') {
-      await sharp(filePath).resize(300, 300, { fit: 'cover', position: 'center' }).jpeg({ quality: 80 }).toFile(thumbnailPath);
-      return `/uploads/${ownerId}/thumbnails/${thumbnailFilename}`;
+    try {
+      if (mediaFile.type === 'image') {
+        await sharp(filePath).resize(300, 300, { fit: 'cover', position: 'center' }).jpeg({ quality: 80 }).toFile(thumbnailPath);
+      } else if (mediaFile.type === 'video') {
+        await new Promise((resolve, reject) => {
+          ffmpeg(filePath)
+            .screenshots({
+              count: 1,
+              folder: workDir,
+              filename: thumbnailFilename,
+              size: '300x300'
+            })
+            .on('end', resolve)
+            .on('error', reject);
+        });
+      } else {
+        // Generate simple waveform visualization
+        await this.generateWaveform(filePath, thumbnailPath);
+      }
+
+      const { url } = await storageService.putFile(
+        thumbnailKey(String(mediaFile.ownerId), thumbnailFilename),
+        thumbnailPath,
+        { contentType: 'image/jpeg' }
+      );
+      return url;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Generate low-resolution renditions for the editor preview, store them and
+   * return { low?, medium? } (null if none apply). Renditions are never larger
+   * than the original; export always renders from the original file.
+   * @param {any} mediaFile
+   * @param {string} filePath - local copy of the media
+   * @param {{ width?: number|null, height?: number|null }} [dimensions]
+   * @returns {Promise<object|null>}
+   */
+  async generateProxies(mediaFile, filePath, dimensions = {}) {
+    if (!['image', 'video'].includes(mediaFile.type)) return null;
+
+    const base = path.basename(filePath, path.extname(filePath));
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flickmv-proxy-'));
+    const proxies = {};
+
+    try {
+      for (const [quality, target] of Object.entries(PROXY_TARGETS[mediaFile.type])) {
+        const rendition = mediaFile.type === 'image'
+          ? await this.renderImageProxy(filePath, path.join(workDir, `${base}_${quality}.jpg`), target, dimensions)
+          : await this.renderVideoProxy(filePath, path.join(workDir, `${base}_${quality}.mp4`), target, dimensions);
+        if (!rendition) continue;
+
+        const { location, url } = await storageService.putFile(
+          proxyKey(String(mediaFile.ownerId), path.basename(rendition.path)),
+          rendition.path,
+          { contentType: mediaFile.type === 'image' ? 'image/jpeg' : 'video/mp4' }
+        );
+        proxies[quality] = {
+          url,
+          width: rendition.width,
+          height: rendition.height,
+          size: rendition.size,
+          storage: location
+        };
+      }
+      return Object.keys(proxies).length > 0 ? proxies : null;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
     }
+  }
+
+  /**
+   * Downscale an image so its longer side fits maxSize (null if already smaller)
+   */
+  async renderImageProxy(filePath, outputPath, maxSize, dimensions) {
+    if (Math.max(dimensions.width || 0, dimensions.height || 0) <= maxSize) return null;
+    // rotate() applies EXIF orientation before resizing
+    const info = await sharp(filePath)
+      .rotate()
+      .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toFile(outputPath);
+    return { path: outputPath, width: info.width, height: info.height, size: info.size };
+  }
 
-    if (mediaFile.type === 'video') {
+  /**
+   * Transcode a video to the given height (null if the original is not taller).
+   * Short GOPs keep seeking cheap while scrubbing.
+   */
+  async renderVideoProxy(filePath, outputPath, height, dimensions) {
+    if (!dimensions.width || !dimensions.height || dimensions.height <= height) return null;
+    const width = Math.round((dimensions.width * height) / dimensions.height / 2) * 2;
+
+    await new Promise((resolve, reject) => {
+      ffmpeg(filePath)
+        .videoCodec('libx264')
+        .audioCodec('aac')
+        .audioBitrate('96k')
+        .size(`${width}x${height}`)
+        .outputOptions(['-preset veryfast', '-crf 28', '-g 15', '-pix_fmt yuv420p', '-movflags +faststart'])
+        .output(outputPath)
+        .on('end', resolve)
+        .on('error', reject)
+        .run();
+    });
+
+    const stats = await fs.stat(outputPath);
+    return { path: outputPath, width, height, size: stats.size };
+  }
+
+  /**
+   * Extract a sprite sheet of frames for the timeline filmstrip, store it and
+   * return its layout (null for non-video media). Frame i shows the video at
+   * i * interval seconds; frames run left to right, then top to bottom.
+   * @param {any} mediaFile
+   * @param {string} filePath - local copy of the media
+   * @param {{ dimensions?: any, duration?: number }} extracted - extractMetadataToJson result
+   * @returns {Promise<object|null>}
+   */
+  async generateFilmstrip(mediaFile, filePath, { dimensions = {}, duration } = {}) {
+    if (mediaFile.type !== 'video' || !duration || !dimensions.width || !dimensions.height) return null;
+
+    const interval = Math.max(FILMSTRIP_INTERVAL, duration / FILMSTRIP_MAX_FRAMES);
+    const frameCount = Math.max(1, Math.ceil(duration / interval));
+    const columns = Math.min(FILMSTRIP_COLUMNS, frameCount);
+    const rows = Math.ceil(frameCount / columns);
+    const frameHeight = FILMSTRIP_FRAME_HEIGHT;
+    const frameWidth = Math.max(2, Math.round((dimensions.width * frameHeight) / dimensions.height / 2) * 2);
+
+    const base = path.basename(filePath, path.extname(filePath));
+    const filmstripFilename = `filmstrip_${base}.jpg`;
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flickmv-filmstrip-'));
+    const filmstripPath = path.join(workDir, filmstripFilename);
+
+    try {
       await new Promise((resolve, reject) => {
         ffmpeg(filePath)
-          .screenshots({
-            count: 1,
-            folder: thumbnailDir,
-            filename: thumbnailFilename,
-            size: '300x300'
-          })
+          .noAudio()
+          .videoFilters([
+            `fps=1/${interval}`,
+            `scale=${frameWidth}:${frameHeight}`,
+            `tile=${columns}x${rows}`
+          ])
+          .outputOptions(['-frames:v 1', '-q:v 5'])
+          .output(filmstripPath)
           .on('end', resolve)
-          .on('error', reject);
+          .on('error', reject)
+          .run();
       });
-      return `/uploads/${ownerId}/thumbnails/${thumbnailFilename}`;
+
+      const { location, url } = await storageService.putFile(
+        thumbnailKey(String(mediaFile.ownerId), filmstripFilename),
+        filmstripPath,
+        { contentType: 'image/jpeg' }
+      );
+      return { url, interval, frameCount, columns, rows, frameWidth, frameHeight, storage: location };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
     }
+  }
 
-    if (mediaFile.type === 'audio') {
-      // Generate simple waveform visualization
-      await this.generateWaveform(filePath, thumbnailPath);
-      return `/uploads/${ownerId}/thumbnails/${thumbnailFilename}`;
+  /**
+   * Focus path for smart reframing (worker/src/render/reframe): where the
+   * detail and motion are over time, from small grayscale frames. Null for
+   * audio. Images are a single frame.
+   * @param {any} mediaFile
+   * @param {string} filePath - local copy of the media
+   * @param {{ dimensions?: any, duration?: number }} extracted - extractMetadataToJson result
+   * @returns {Promise<{ interval: number, points: Array<{ time: number, x: number, y: number }> }|null>}
+   */
+  async generateReframe(mediaFile, filePath, { dimensions = {}, duration } = {}) {
+    if (mediaFile.type === 'image') {
+      // Upright like the preview draws it
+      const { data, info } = await sharp(filePath)
+        .rotate()
+        .resize(REFRAME_ANALYSIS_WIDTH)
+        .grayscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      const frame = new Uint8Array(data.buffer, data.byteOffset, info.width * info.height);
+      return analyzeReframeFrames([frame], info.width, info.height, REFRAME_INTERVAL);
     }
 
-    return null;
+    if (mediaFile.type !== 'video' || !duration || !dimensions.width || !dimensions.height) return null;
+
+    const interval = Math.max(REFRAME_INTERVAL, duration / REFRAME_MAX_SAMPLES);
+    const width = REFRAME_ANALYSIS_WIDTH;
+    const height = Math.max(3, Math.round((width * dimensions.height) / dimensions.width));
+    const frames = await this.decodeGrayFrames(filePath, { width, height, interval });
+    return frames.length > 0 ? analyzeReframeFrames(frames, width, height, interval) : null;
+  }
+
+  /**
+   * Decode a video to 8-bit grayscale frames of width x height, one every `interval` seconds
+   * @param {string} filePath
+   * @param {{ width: number, height: number, interval: number }} options
+   * @returns {Promise<Uint8Array[]>}
+   */
+  async decodeGrayFrames(filePath, { width, height, interval }) {
+    return new Promise((resolve, reject) => {
+      const chunks = [];
+      const stream = ffmpeg(filePath)
+        .noAudio()
+        .videoFilters([`fps=1/${interval}`, `scale=${width}:${height}`, 'format=gray'])
+        .format('rawvideo')
+        .on('error', reject)
+        .pipe();
+
+      stream.on('data', chunk => chunks.push(chunk));
+      stream.on('error', reject);
+      stream.on('end', () => {
+        const buffer = Buffer.concat(chunks);
+        const frameSize = width * height;
+        const frames = [];
+        for (let offset = 0; offset + frameSize <= buffer.length; offset += frameSize) {
+          frames.push(new Uint8Array(buffer.subarray(offset, offset + frameSize)));
+        }
+        resolve(frames);
+      });
+    });
   }
 
   /**
@@ -314,38 +673,55 @@ class MediaService {
   }
 
   /**
-   * Audio BPM analysis (placeholder)
+   * Decode audio to mono float PCM at the beat tracker's analysis rate
+   * @param {string} filePath
+   * @returns {Promise<Float32Array>}
+   */
+  async decodePCM(filePath) {
+    return new Promise((resolve, reject) => {
+      const chunks = [];
+      const stream = ffmpeg(filePath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(ANALYSIS_SAMPLE_RATE)
+        .format('f32le')
+        .on('error', reject)
+        .pipe();
+
+      stream.on('data', chunk => chunks.push(chunk));
+      stream.on('error', reject);
+      stream.on('end', () => {
+        const buffer = Buffer.concat(chunks);
+        // Copy into an aligned buffer; pooled Buffers may start at any byte offset
+        const samples = new Float32Array(Math.floor(buffer.length / 4));
+        new Uint8Array(samples.buffer).set(buffer.subarray(0, samples.length * 4));
+        resolve(samples);
+      });
+    });
+  }
+
+  /**
+   * Audio beat analysis: tempo map with tempo changes, downbeats and time signature
    * @param {string} filePath
    * @param {any} mediaFile
    * @returns {Promise<any>} analysis JSON
    */
   async analyzeBPMToJson(filePath, mediaFile) {
-    // Simplified placeholder; implement real BPM analysis with specialized lib if needed
-    await new Promise((resolve, reject) => {
-      ffmpeg(filePath)
-        .audioFilters('dynaudnorm,lowpass=3000,highpass=100')
-        .format('wav')
-        .on('error', reject)
-        .on('end', resolve)
-        .saveToFile(path.join(path.dirname(filePath), 'tmp_bpm.wav'));
-    }).catch(() => {});
-
-    const bpm = 120 + Math.random() * 60;
-    const tempo = bpm > 140 ? 'fast' : 'medium';
-    const duration = mediaFile.duration || 60;
-    const beatsPerSecond = bpm / 60;
-    const beats = [];
-    for (let i = 0; i < duration * beatsPerSecond; i++) {
-      beats.push({
-        time: i / beatsPerSecond,
-        confidence: 0.7 + Math.random() * 0.3
-      });
+    const samples = await this.decodePCM(filePath);
+    const { tempoMap, confidence } = trackBeats(samples, ANALYSIS_SAMPLE_RATE);
+
+    if (tempoMap.beats.length === 0) {
+      console.warn(`No beats detected in media file ${mediaFile.id}`);
     }
 
     return {
-      bpm,
-      tempo,
-      beats
+      bpm: tempoMap.bpm,
+      tempo: tempoMap.bpm > 140 ? 'fast' : tempoMap.bpm < 90 ? 'slow' : 'medium',
+      confidence,
+      beats: tempoMap.beats.map(time => ({ time, confidence })),
+      downbeats: tempoMap.downbeats,
+      timeSignature: tempoMap.timeSignature,
+      tempoMap
     };
   }
 
@@ -389,20 +765,6 @@ class MediaService {
     };
   }
 
-  /**
-   * Resolve uploads file path for a media record
-   * @param {any} mediaFile
-   * @returns {string}
-   */
-  getFilePathFromRecord(mediaFile) {
-    return path.join(
-      __dirname,
-      '../uploads',
-      String(mediaFile.ownerId),
-      mediaFile.storage?.key || ''
-    );
-  }
-
   /**
    * Parse ffmpeg frame rate formats like "30/1"
    * @param {string} frameRateStr
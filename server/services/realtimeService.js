@@ -0,0 +1,194 @@
+// RealtimeService (WebSocket fan-out)
+// - src/index.ts の WebSocket サーバーを attach() で登録し、ルートからイベントを送る
+// - 接続には JWT（?token=...）が必要。ハンドシェイクで検証し、ソケットは userId を持つ
+// - 応答のないソケットはハートビートで切断し、接続ごとにメッセージ数を制限する
+// - エクスポートジョブの進捗・状態はジョブ所有者の全ソケットに送る
+//
+// イベント:
+//   export_job_progress  { jobId, projectId, progress, phase, message, details }
+//   export_job_status    { jobId, projectId, status, progress, output, error, completedAt, failedAt }
+
+const jwt = require('jsonwebtoken');
+const prisma = require('../prisma/client');
+
+const OPEN = 1; // WebSocket.OPEN
+const POLICY_VIOLATION = 1008; // close code
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+const RATE_LIMIT_WINDOW_MS = 10000;
+const RATE_LIMIT_MAX_MESSAGES = 200; // 超えた分は破棄し、2倍を超えたら切断する
+
+class RealtimeService {
+  constructor() {
+    this.wss = null;
+    this.heartbeatTimer = null;
+  }
+
+  /**
+   * WebSocket サーバーを登録し、ハートビートを開始
+   * @param {import('ws').Server} wss
+   */
+  attach(wss) {
+    this.wss = wss;
+    this.startHeartbeat();
+    wss.on('close', () => this.stopHeartbeat());
+  }
+
+  /**
+   * 接続 URL の token を検証し、有効なユーザーの userId を返す（無効なら null）
+   * HTTP の authMiddleware と同じく、削除・無効化されたユーザーは拒否する
+   * @param {string | undefined} url - リクエスト URL（/?token=...）
+   * @returns {Promise<string | null>}
+   */
+  async authenticate(url) {
+    try {
+      const token = new URL(url || '/', 'http://localhost').searchParams.get('token');
+      if (!token) return null;
+      const decoded = jwt.verify(token, process.env.JWT_SECRET);
+      if (!decoded.userId) return null;
+
+      const user = await prisma.user.findUnique({
+        where: { id: decoded.userId },
+        select: { id: true, isActive: true }
+      });
+      return user && user.isActive ? user.id : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * ws の verifyClient: 認証できない接続はハンドシェイクで 401 を返す
+   * 認証済みの userId は req.userId に載せて connection ハンドラへ渡す
+   * @param {{ req: import('http').IncomingMessage & { userId?: string } }} info
+   * @param {(result: boolean, code?: number, message?: string) => void} done
+   */
+  verifyClient(info, done) {
+    this.authenticate(info.req.url)
+      .then(userId => {
+        if (!userId) return done(false, 401, 'Unauthorized');
+        info.req.userId = userId;
+        done(true);
+      })
+      .catch(() => done(false, 500, 'Authentication failed'));
+  }
+
+  /**
+   * 接続ごとのレート制限。受け付けるなら true
+   * 上限を超えたメッセージは破棄して通知し、大きく超えたら切断する
+   * @param {import('ws') & { rateLimit?: { windowStart: number, count: number, notified: boolean } }} ws
+   * @returns {boolean}
+   */
+  allowMessage(ws) {
+    const now = Date.now();
+    if (!ws.rateLimit || now - ws.rateLimit.windowStart > RATE_LIMIT_WINDOW_MS) {
+      ws.rateLimit = { windowStart: now, count: 0, notified: false };
+    }
+
+    const limit = ws.rateLimit;
+    limit.count++;
+    if (limit.count <= RATE_LIMIT_MAX_MESSAGES) return true;
+
+    if (limit.count > RATE_LIMIT_MAX_MESSAGES * 2) {
+      ws.close(POLICY_VIOLATION, 'Rate limit exceeded');
+    } else if (!limit.notified && ws.readyState === OPEN) {
+      limit.notified = true;
+      ws.send(JSON.stringify({
+        type: 'error',
+        code: 'rate_limited',
+        message: 'Too many messages. Please slow down.',
+        retryAfter: Math.ceil((RATE_LIMIT_WINDOW_MS - (now - limit.windowStart)) / 1000)
+      }));
+    }
+    return false;
+  }
+
+  /**
+   * 応答（pong / アプリの ping）があったソケットとして記録
+   */
+  markAlive(ws) {
+    ws.isAlive = true;
+  }
+
+  // 前回の ping に応答しなかったソケットを切断し、残りに ping を送る
+  startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.wss) return;
+      this.wss.clients.forEach(client => {
+        if (client.isAlive === false) {
+          client.terminate();
+          return;
+        }
+        client.isAlive = false;
+        client.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * ユーザーの全ソケットにイベントを送信
+   * @param {string} userId
+   * @param {string} type
+   * @param {object} payload
+   * @returns {number} 送信したソケット数
+   */
+  sendToUser(userId, type, payload) {
+    if (!this.wss || !userId) return 0;
+
+    const message = JSON.stringify({ type, ...payload, timestamp: new Date().toISOString() });
+    let sent = 0;
+    this.wss.clients.forEach(client => {
+      if (client.userId === userId && client.readyState === OPEN) {
+        client.send(message);
+        sent++;
+      }
+    });
+    return sent;
+  }
+
+  /**
+   * エクスポートの詳細進捗（ワーカーの phase / message）
+   * @param {{ id: string, userId: string, projectId?: string, progress: number, processing?: any }} job
+   */
+  publishExportProgress(job) {
+    const processing = job.processing || {};
+    return this.sendToUser(job.userId, 'export_job_progress', {
+      jobId: job.id,
+      projectId: job.projectId,
+      progress: job.progress,
+      phase: processing.phase ?? processing.currentStep,
+      message: processing.message,
+      details: processing.details
+    });
+  }
+
+  /**
+   * エクスポートの状態変化（queued / processing / completed / failed / cancelled）
+   * @param {{ id: string, userId: string, projectId?: string, status: string, progress: number, output?: any, processing?: any }} job
+   */
+  publishExportStatus(job) {
+    const processing = job.processing || {};
+    return this.sendToUser(job.userId, 'export_job_status', {
+      jobId: job.id,
+      projectId: job.projectId,
+      status: job.status,
+      progress: job.progress,
+      phase: processing.phase ?? processing.currentStep,
+      message: processing.message,
+      output: job.output,
+      error: processing.error,
+      completedAt: job.completedAt,
+      failedAt: job.failedAt
+    });
+  }
+}
+
+module.exports = new RealtimeService();
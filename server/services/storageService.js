@@ -0,0 +1,203 @@
+/**
+ * StorageService
+ * Server entry point to object storage (worker/src/storage). Uploads,
+ * thumbnails, waveforms and export outputs are written, read, deleted and
+ * served through here instead of touching server/uploads or server/exports.
+ *
+ * - New objects go to the backend chosen by STORAGE_PROVIDER (local or s3).
+ * - Existing objects are read from the provider recorded in their location,
+ *   so records written before a switch keep working.
+ * - Objects in a private bucket are stored with an s3://<bucket>/<key> URL;
+ *   presentMedia swaps those for short-lived signed URLs in API responses.
+ */
+
+const path = require('path');
+
+const { AppError } = require('../middleware/errorHandler');
+// Built from worker/src/storage (npm run build:storage)
+const {
+  StorageRegistry,
+  StorageError,
+  mediaLocation,
+  exportLocation
+} = require('../../worker/dist/storage');
+
+const SERVER_ROOT = path.join(__dirname, '..');
+const SIGNED_URL_TTL = 6 * 60 * 60; // seconds; long enough for an editing session
+const DOWNLOAD_URL_TTL = 15 * 60;
+
+const PRIVATE_URL = /^s3:\/\/[^/]+\/(.+)$/;
+
+class StorageService {
+  constructor() {
+    this.registry = new StorageRegistry(process.env, {
+      // Keys are uploads/... and exports/..., i.e. the existing server directories
+      localRoot: SERVER_ROOT,
+      // /uploads is served statically
+      localPublicBaseUrl: '',
+      localSignedBaseUrl: `${(process.env.SERVER_URL || '').replace(/\/+$/, '')}/api/files`,
+      signingSecret: process.env.JWT_SECRET
+    });
+  }
+
+  get primary() {
+    return this.registry.primary;
+  }
+
+  get local() {
+    return this.registry.local;
+  }
+
+  /**
+   * Backend holding a location
+   * @param {{ provider: string }} location
+   */
+  backendFor(location) {
+    try {
+      return this.registry.backendFor(location);
+    } catch (error) {
+      throw this.toAppError(error);
+    }
+  }
+
+  mediaLocation(mediaFile) {
+    return mediaLocation(mediaFile);
+  }
+
+  exportLocation(exportJob) {
+    return exportLocation(exportJob);
+  }
+
+  /**
+   * Store a file from local disk in the primary backend
+   * @returns {Promise<{ location: object, url: string }>}
+   */
+  async putFile(key, filePath, options = {}) {
+    const location = await this.primary.putFile(key, filePath, options);
+    return { location, url: this.urlFor(location) };
+  }
+
+  /**
+   * URL saved with a record: the public URL, or s3://<bucket>/<key> for
+   * private buckets (signed when presented)
+   */
+  urlFor(location) {
+    const backend = this.backendFor(location);
+    return backend.publicUrl(location.key) || `s3://${location.bucket || backend.bucket}/${location.key}`;
+  }
+
+  /**
+   * Short-lived URL for a location
+   * @param {object} location
+   * @param {{ expiresIn?: number, downloadName?: string }} [options]
+   */
+  signedUrl(location, options = {}) {
+    return this.backendFor(location).getSignedUrl(location.key, { expiresIn: SIGNED_URL_TTL, ...options });
+  }
+
+  /**
+   * Local copy for ffmpeg/sharp. Call cleanup() when done (no-op on local disk).
+   * @returns {Promise<{ path: string, cleanup: () => Promise<void> }>}
+   */
+  async toLocalFile(location) {
+    try {
+      return await this.backendFor(location).toLocalFile(location.key);
+    } catch (error) {
+      throw this.toAppError(error);
+    }
+  }
+
+  /**
+   * Delete an object (missing objects are ignored)
+   */
+  async delete(location) {
+    await this.backendFor(location).delete(location.key);
+  }
+
+  async exists(location) {
+    return Boolean(await this.backendFor(location).stat(location.key));
+  }
+
+  /**
+   * Send an object as a download: streamed from local disk, or a redirect
+   * to a signed URL for remote storage
+   * @param {import('express').Response} res
+   * @param {object} location
+   * @param {string} downloadName
+   */
+  async sendDownload(res, location, downloadName) {
+    const backend = this.backendFor(location);
+    if (!(await backend.stat(location.key))) {
+      throw new AppError('File not found in storage', 404);
+    }
+
+    if (backend.provider === 'local') {
+      return res.download(backend.pathFor(location.key), downloadName);
+    }
+    const url = await backend.getSignedUrl(location.key, { expiresIn: DOWNLOAD_URL_TTL, downloadName });
+    return res.redirect(url);
+  }
+
+  /**
+   * Media record for an API response, with private URLs signed
+   */
+  async presentMedia(mediaFile) {
+    if (!mediaFile) return mediaFile;
+    const [url, thumbnail, proxies, filmstrip] = await Promise.all([
+      this.presentUrl(mediaFile.url, mediaFile.storage),
+      this.presentUrl(mediaFile.thumbnail, mediaFile.storage),
+      this.presentProxies(mediaFile.proxies),
+      this.presentFilmstrip(mediaFile.filmstrip)
+    ]);
+    return {
+      ...mediaFile,
+      url,
+      thumbnail,
+      ...(proxies ? { proxies } : {}),
+      ...(filmstrip ? { filmstrip } : {})
+    };
+  }
+
+  // Filmstrip layout without its storage location, URL signed
+  async presentFilmstrip(filmstrip) {
+    if (!filmstrip || typeof filmstrip !== 'object') return null;
+    const { storage, ...layout } = filmstrip;
+    return { ...layout, url: await this.presentUrl(layout.url, storage) };
+  }
+
+  // Preview renditions without their storage locations, URLs signed
+  async presentProxies(proxies) {
+    if (!proxies || typeof proxies !== 'object') return null;
+    const entries = await Promise.all(
+      Object.entries(proxies).map(async ([quality, { storage, ...rendition }]) => [
+        quality,
+        { ...rendition, url: await this.presentUrl(rendition.url, storage) }
+      ])
+    );
+    return Object.fromEntries(entries);
+  }
+
+  presentMediaList(mediaFiles) {
+    return Promise.all(mediaFiles.map(mediaFile => this.presentMedia(mediaFile)));
+  }
+
+  async presentUrl(url, storage) {
+    const match = typeof url === 'string' && url.match(PRIVATE_URL);
+    if (!match) return url;
+    return this.signedUrl({ provider: 's3', key: match[1], ...(storage?.bucket ? { bucket: storage.bucket } : {}) });
+  }
+
+  toAppError(error) {
+    if (!(error instanceof StorageError)) return error;
+    switch (error.code) {
+      case 'NOT_FOUND':
+        return new AppError('File not found in storage', 404);
+      case 'INVALID_KEY':
+        return new AppError('Invalid storage key', 400);
+      default:
+        return new AppError(error.message, 500, 'STORAGE_NOT_CONFIGURED');
+    }
+  }
+}
+
+module.exports = new StorageService();
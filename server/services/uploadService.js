@@ -0,0 +1,355 @@
+/**
+ * UploadService
+ * Resumable, chunked media uploads (routes/media.js /uploads).
+ *
+ * - initiate: checks the file against the owner's plan (file size and storage,
+ *   counting uploads still in progress) and creates an UploadSession. The server
+ *   picks the chunk size; chunk n covers bytes [n * chunkSize, (n + 1) * chunkSize).
+ * - writeChunk: stores one chunk after checking its offset, length and SHA-256.
+ *   Chunks may arrive in any order and may be resent.
+ * - describe: which chunks the server has, so a client can resume after a reload.
+ * - complete: joins the chunks, stores the file through storageService and
+ *   creates the MediaFile the same way as the single-request upload. Processing
+ *   (metadata, thumbnail, renditions) is queued, so the MediaFile is returned
+ *   pending; a failed completion puts the session back to 'uploading'.
+ *
+ * Sessions expire after SESSION_TTL_MS without activity; expired sessions of a
+ * user are removed the next time that user starts an upload.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const fsp = require('fs').promises;
+const path = require('path');
+const { once } = require('events');
+
+const prisma = require('../prisma/client');
+const { AppError } = require('../middleware/errorHandler');
+const mediaService = require('./mediaService');
+const storageService = require('./storageService');
+const { checkUpload, resolveUserPlan } = require('../../worker/dist/entitlements');
+const { mediaKey } = require('../../worker/dist/storage');
+
+// Outside uploads/, which is served statically
+const TMP_ROOT = path.join(__dirname, '../temp/uploads');
+
+const CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const ALLOWED_TYPES = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/webp': 'image',
+  'video/mp4': 'video',
+  'video/webm': 'video',
+  'video/quicktime': 'video',
+  'audio/mpeg': 'audio',
+  'audio/wav': 'audio',
+  'audio/mp4': 'audio'
+};
+
+// checkUpload reasons -> error message and code
+const UPLOAD_REJECTIONS = {
+  file_too_large: { message: 'File exceeds the upload size of your plan', code: 'FILE_TOO_LARGE' },
+  storage_full: { message: 'Not enough storage left on your plan', code: 'STORAGE_FULL' }
+};
+
+class UploadService {
+  get chunkSize() {
+    return CHUNK_SIZE;
+  }
+
+  /**
+   * Media type for an allowed MIME type (null when not supported)
+   * @param {string} mimeType
+   * @returns {'image' | 'video' | 'audio' | null}
+   */
+  mediaTypeOf(mimeType) {
+    return ALLOWED_TYPES[mimeType] || null;
+  }
+
+  /**
+   * Bytes counted against the user's storage: stored media plus the full size
+   * of uploads that have started but not completed
+   * @param {string} userId
+   */
+  async getStorageUsed(userId) {
+    const [stored, pending] = await Promise.all([
+      prisma.mediaFile.aggregate({ where: { ownerId: userId }, _sum: { size: true } }),
+      prisma.uploadSession.aggregate({
+        where: { ownerId: userId, status: { not: 'completed' }, expiresAt: { gt: new Date() } },
+        _sum: { size: true }
+      })
+    ]);
+    return Number(stored._sum?.size || 0n) + Number(pending._sum?.size || 0n);
+  }
+
+  /**
+   * Throw when the user's plan does not allow a file of this size
+   * @param {{ id: string, plan?: string, subscription?: string }} user
+   * @param {number} size - bytes
+   */
+  async assertUploadAllowed(user, size) {
+    const storageUsed = await this.getStorageUsed(user.id);
+    const check = checkUpload(resolveUserPlan(user), size, storageUsed);
+    if (!check.allowed) {
+      const { message, code } = UPLOAD_REJECTIONS[check.reason];
+      throw new AppError(message, 413, code);
+    }
+    return check;
+  }
+
+  /**
+   * Start a resumable upload
+   * @param {{ id: string, plan?: string, subscription?: string }} user
+   * @param {{ projectId: string, fileName: string, mimeType: string, size: number }} file
+   */
+  async initiate(user, { projectId, fileName, mimeType, size }) {
+    if (!this.mediaTypeOf(mimeType)) {
+      throw new AppError('File type not supported', 400);
+    }
+    // Chunks cover bytes of the file, so an empty file could never complete
+    if (!(size > 0)) {
+      throw new AppError('File is empty', 400);
+    }
+
+    await this.pruneExpired(user.id);
+    await this.assertUploadAllowed(user, size);
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        ownerId: user.id,
+        projectId,
+        fileName,
+        mimeType,
+        size: BigInt(size),
+        chunkSize: CHUNK_SIZE,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+      }
+    });
+    await fsp.mkdir(this.sessionDir(session.id), { recursive: true });
+    return session;
+  }
+
+  /**
+   * Load a session owned by the user in the project (404 otherwise)
+   */
+  async getSession(uploadId, userId, projectId) {
+    const session = await prisma.uploadSession.findUnique({ where: { id: uploadId } });
+    if (!session || session.ownerId !== userId || session.projectId !== projectId) {
+      throw new AppError('Upload not found', 404);
+    }
+    if (session.status !== 'completed' && session.expiresAt < new Date()) {
+      await this.discard(session);
+      throw new AppError('Upload expired', 410);
+    }
+    return session;
+  }
+
+  /**
+   * Store one chunk
+   * @param {object} session
+   * @param {number} offset - byte offset of the chunk in the file
+   * @param {Buffer} data
+   * @param {string | undefined} checksum - hex SHA-256 of the chunk
+   */
+  async writeChunk(session, offset, data, checksum) {
+    if (session.status !== 'uploading') {
+      throw new AppError('Upload is already complete', 409);
+    }
+
+    const size = Number(session.size);
+    const index = offset / session.chunkSize;
+    if (!Number.isInteger(index) || offset >= size) {
+      throw new AppError('Chunk offset must be a multiple of the chunk size within the file', 400);
+    }
+    const expectedLength = Math.min(session.chunkSize, size - offset);
+    if (!Buffer.isBuffer(data) || data.length !== expectedLength) {
+      throw new AppError(`Chunk must be ${expectedLength} bytes`, 400);
+    }
+
+    const digest = crypto.createHash('sha256').update(data).digest('hex');
+    if (typeof checksum !== 'string' || checksum.toLowerCase() !== digest) {
+      throw new AppError('Chunk checksum mismatch', 422, 'CHECKSUM_MISMATCH');
+    }
+
+    // Write then rename so a dropped request never leaves a partial chunk behind
+    const chunkPath = this.chunkPath(session.id, index);
+    const partialPath = `${chunkPath}.${crypto.randomUUID()}.partial`;
+    await fsp.mkdir(this.sessionDir(session.id), { recursive: true });
+    await fsp.writeFile(partialPath, data);
+    await fsp.rename(partialPath, chunkPath);
+
+    return prisma.uploadSession.update({
+      where: { id: session.id },
+      data: {
+        receivedChunks: { push: index },
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+      }
+    });
+  }
+
+  /**
+   * Join the chunks into a media file and queue its processing
+   * @returns {Promise<object>} the created MediaFile (processing pending)
+   */
+  async complete(session) {
+    if (session.status === 'completed') {
+      return prisma.mediaFile.findUnique({ where: { id: session.mediaFileId } });
+    }
+
+    const missing = this.missingChunks(session);
+    if (missing.length > 0) {
+      throw new AppError(`Upload is missing ${missing.length} chunk(s)`, 409, 'INCOMPLETE_UPLOAD');
+    }
+
+    // Only one request may join the chunks
+    const claimed = await prisma.uploadSession.updateMany({
+      where: { id: session.id, status: 'uploading' },
+      data: { status: 'completing' }
+    });
+    if (claimed.count === 0) {
+      throw new AppError('Upload is already being completed', 409);
+    }
+
+    const ext = path.extname(session.fileName);
+    const fileName = `files-${Date.now()}-${Math.round(Math.random() * 1E9)}${ext}`;
+    const filePath = path.join(this.sessionDir(session.id), `joined${ext}`);
+    let stored = null;
+    let created = null;
+
+    try {
+      const output = fs.createWriteStream(filePath);
+      const finished = once(output, 'finish');
+      for (let index = 0; index < this.chunkCount(session); index++) {
+        const chunk = await fsp.readFile(this.chunkPath(session.id, index));
+        if (!output.write(chunk)) await once(output, 'drain');
+      }
+      output.end();
+      await finished;
+
+      const { size } = await fsp.stat(filePath);
+      if (size !== Number(session.size)) {
+        throw new AppError('Uploaded size does not match', 422);
+      }
+
+      stored = await storageService.putFile(mediaKey(session.ownerId.toString(), fileName), filePath, {
+        contentType: session.mimeType
+      });
+
+      created = await prisma.mediaFile.create({
+        data: {
+          name: session.fileName,
+          originalName: session.fileName,
+          type: this.mediaTypeOf(session.mimeType),
+          format: ext.substring(1).toLowerCase(),
+          url: stored.url,
+          size: session.size,
+          ownerId: session.ownerId,
+          projectId: session.projectId,
+          storage: stored.location,
+          processing: {
+            status: 'pending',
+            progress: 0
+          }
+        }
+      });
+
+      await prisma.uploadSession.update({
+        where: { id: session.id },
+        data: { status: 'completed', mediaFileId: created.id }
+      });
+    } catch (error) {
+      // Leave nothing behind so the client can complete again
+      if (created) await prisma.mediaFile.delete({ where: { id: created.id } }).catch(() => {});
+      if (stored) await storageService.delete(stored.location).catch(() => {});
+      await fsp.unlink(filePath).catch(() => {});
+      await prisma.uploadSession.update({ where: { id: session.id }, data: { status: 'uploading' } });
+      throw error;
+    }
+
+    await fsp.rm(this.sessionDir(session.id), { recursive: true, force: true });
+
+    try {
+      await mediaService.queueProcessing(created.id);
+    } catch (error) {
+      console.error(`Failed to queue processing for media file ${created.id}:`, error);
+      await prisma.mediaFile.update({
+        where: { id: created.id },
+        data: { processing: { status: 'failed', progress: 0, error: String(error.message || error) } }
+      });
+    }
+    return prisma.mediaFile.findUnique({ where: { id: created.id } });
+  }
+
+  /**
+   * Cancel an upload and delete its chunks
+   */
+  async discard(session) {
+    await fsp.rm(this.sessionDir(session.id), { recursive: true, force: true });
+    if (session.status !== 'completed') {
+      await prisma.uploadSession.delete({ where: { id: session.id } }).catch(() => {});
+    }
+  }
+
+  async pruneExpired(userId) {
+    const expired = await prisma.uploadSession.findMany({
+      where: { ownerId: userId, status: { not: 'completed' }, expiresAt: { lt: new Date() } }
+    });
+    await Promise.all(expired.map(session => this.discard(session)));
+  }
+
+  /**
+   * Public view of a session
+   */
+  describe(session) {
+    const received = this.receivedChunks(session);
+    const size = Number(session.size);
+    const receivedBytes = received.reduce(
+      (total, index) => total + Math.min(session.chunkSize, size - index * session.chunkSize),
+      0
+    );
+
+    return {
+      uploadId: session.id,
+      projectId: session.projectId,
+      fileName: session.fileName,
+      mimeType: session.mimeType,
+      size,
+      chunkSize: session.chunkSize,
+      chunkCount: this.chunkCount(session),
+      receivedChunks: received,
+      receivedBytes,
+      status: session.status,
+      mediaFileId: session.mediaFileId,
+      expiresAt: session.expiresAt
+    };
+  }
+
+  chunkCount(session) {
+    return Math.max(1, Math.ceil(Number(session.size) / session.chunkSize));
+  }
+
+  receivedChunks(session) {
+    return Array.from(new Set(session.receivedChunks || [])).sort((a, b) => a - b);
+  }
+
+  missingChunks(session) {
+    const received = new Set(session.receivedChunks || []);
+    const missing = [];
+    for (let index = 0; index < this.chunkCount(session); index++) {
+      if (!received.has(index)) missing.push(index);
+    }
+    return missing;
+  }
+
+  sessionDir(uploadId) {
+    return path.join(TMP_ROOT, uploadId);
+  }
+
+  chunkPath(uploadId, index) {
+    return path.join(this.sessionDir(uploadId), `${index}.part`);
+  }
+}
+
+module.exports = new UploadService();
@@ -0,0 +1,142 @@
+const crypto = require('crypto');
+const fsp = require('fs').promises;
+
+jest.mock('../prisma/client', () => ({
+  mediaFile: {
+    aggregate: jest.fn(async () => ({ _sum: { size: 0n } })),
+    create: jest.fn(async ({ data }) => ({ id: 'media-1', ...data })),
+    findUnique: jest.fn(async ({ where }) => ({ id: where.id, processing: { status: 'pending', progress: 0 } })),
+    update: jest.fn(async () => ({})),
+    delete: jest.fn(async () => ({}))
+  },
+  uploadSession: {
+    aggregate: jest.fn(async () => ({ _sum: { size: 0n } })),
+    findMany: jest.fn(async () => []),
+    create: jest.fn(),
+    updateMany: jest.fn(async () => ({ count: 1 })),
+    update: jest.fn(async () => ({})),
+    delete: jest.fn(async () => ({}))
+  }
+}));
+jest.mock('./storageService', () => ({
+  putFile: jest.fn(async (key) => ({ url: `/uploads/${key}`, location: { provider: 'local', key } })),
+  delete: jest.fn(async () => {})
+}));
+jest.mock('./mediaService', () => ({
+  processFileById: jest.fn(),
+  queueProcessing: jest.fn(async () => 'job-1')
+}));
+
+const prisma = require('../prisma/client');
+const storageService = require('./storageService');
+const mediaService = require('./mediaService');
+const uploadService = require('./uploadService');
+
+const DATA = Buffer.from('a short video');
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+
+// An upload session with every chunk received
+const receivedSession = async () => {
+  const session = {
+    id: `test-${crypto.randomUUID()}`,
+    ownerId: 'user-1',
+    projectId: 'project-1',
+    fileName: 'clip.mp4',
+    mimeType: 'video/mp4',
+    size: BigInt(DATA.length),
+    chunkSize: uploadService.chunkSize,
+    status: 'uploading',
+    receivedChunks: []
+  };
+  await uploadService.writeChunk(session, 0, DATA, sha256(DATA));
+  return { ...session, receivedChunks: [0] };
+};
+
+let sessions = [];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  console.error.mockRestore();
+  await Promise.all(sessions.map(session => uploadService.discard(session)));
+  sessions = [];
+});
+
+const track = (session) => {
+  sessions.push(session);
+  return session;
+};
+
+describe('initiate', () => {
+  it('rejects an empty file', async () => {
+    await expect(uploadService.initiate({ id: 'user-1' }, {
+      projectId: 'project-1',
+      fileName: 'empty.mp4',
+      mimeType: 'video/mp4',
+      size: 0
+    })).rejects.toMatchObject({ statusCode: 400, message: 'File is empty' });
+    expect(prisma.uploadSession.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('complete', () => {
+  it('queues processing and returns the pending media file', async () => {
+    const session = track(await receivedSession());
+
+    const mediaFile = await uploadService.complete(session);
+
+    expect(mediaFile).toMatchObject({ id: 'media-1', processing: { status: 'pending' } });
+    expect(mediaService.queueProcessing).toHaveBeenCalledWith('media-1');
+    expect(mediaService.processFileById).not.toHaveBeenCalled();
+    expect(prisma.uploadSession.update).toHaveBeenCalledWith({
+      where: { id: session.id },
+      data: { status: 'completed', mediaFileId: 'media-1' }
+    });
+  });
+
+  it('puts the session back and removes the stored file when the media record fails', async () => {
+    const session = track(await receivedSession());
+    prisma.mediaFile.create.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(uploadService.complete(session)).rejects.toThrow('database unavailable');
+
+    const { location } = await storageService.putFile.mock.results[0].value;
+    expect(storageService.delete).toHaveBeenCalledWith(location);
+    expect(prisma.uploadSession.update).toHaveBeenLastCalledWith({
+      where: { id: session.id },
+      data: { status: 'uploading' }
+    });
+    // The chunks are kept, so completing again works
+    await expect(uploadService.complete(session)).resolves.toMatchObject({ id: 'media-1' });
+  });
+
+  it('deletes the media record when the session cannot be marked completed', async () => {
+    const session = track(await receivedSession());
+    prisma.uploadSession.update.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(uploadService.complete(session)).rejects.toThrow('database unavailable');
+
+    expect(prisma.mediaFile.delete).toHaveBeenCalledWith({ where: { id: 'media-1' } });
+    expect(storageService.delete).toHaveBeenCalledTimes(1);
+    expect(prisma.uploadSession.update).toHaveBeenLastCalledWith({
+      where: { id: session.id },
+      data: { status: 'uploading' }
+    });
+  });
+
+  it('marks the media file failed when processing cannot be queued', async () => {
+    const session = track(await receivedSession());
+    mediaService.queueProcessing.mockRejectedValueOnce(new Error('pg-boss unavailable'));
+
+    await uploadService.complete(session);
+
+    expect(prisma.mediaFile.update).toHaveBeenCalledWith({
+      where: { id: 'media-1' },
+      data: { processing: { status: 'failed', progress: 0, error: 'pg-boss unavailable' } }
+    });
+  });
+});
@@ -4,34 +4,34 @@
  */
 
 const prisma = require('../prisma/client');
+const {
+  PLAN_IDS,
+  UNLIMITED,
+  checkQuota,
+  getQuotaLimit,
+  normalizePlan,
+  resolveUserPlan
+} = require('../../worker/dist/entitlements');
+
+// 機能名 → 共通のプラン定義（worker/src/entitlements）の利用枠
+const FEATURE_QUOTAS = {
+  audioAnalysis: 'audioAnalysis',
+  promptRegeneration: 'promptRegeneration',
+  exportVideos: 'exports'
+};
 
 class UsageTrackingService {
   /**
-   * プラン別の月間利用制限
+   * プラン別の月間利用制限（-1 は無制限）
    */
   static getPlanLimits() {
-    return {
-      free: {
-        audioAnalysis: 2,          // 無料: 月2回まで
-        promptRegeneration: 5,     // 無料: 月5回まで
-        exportVideos: 3            // 無料: 月3回まで
-      },
-      basic: {
-        audioAnalysis: 8,          // ベーシック: 月8回まで
-        promptRegeneration: 20,    // ベーシック: 月20回まで
-        exportVideos: 15           // ベーシック: 月15回まで
-      },
-      pro: {
-        audioAnalysis: 25,         // プロ: 月25回まで
-        promptRegeneration: 75,    // プロ: 月75回まで
-        exportVideos: 50           // プロ: 月50回まで
-      },
-      premium: {
-        audioAnalysis: -1,         // プレミアム: 無制限
-        promptRegeneration: -1,    // プレミアム: 無制限
-        exportVideos: -1           // プレミアム: 無制限
-      }
-    };
+    return PLAN_IDS.reduce((plans, plan) => {
+      plans[plan] = Object.keys(FEATURE_QUOTAS).reduce((limits, feature) => {
+        limits[feature] = getQuotaLimit(plan, FEATURE_QUOTAS[feature]);
+        return limits;
+      }, {});
+      return plans;
+    }, {});
   }
 
   /**
@@ -43,11 +43,14 @@ class UsageTrackingService {
    */
   static async checkUsageLimit(userId, plan = 'free', feature) {
     try {
-      const limits = this.getPlanLimits()[plan] || this.getPlanLimits().free;
-      const featureLimit = limits[feature];
+      plan = normalizePlan(plan);
+      const limits = this.getPlanLimits()[plan];
+      if (!FEATURE_QUOTAS[feature]) {
+        throw new Error(`Unknown usage feature: ${feature}`);
+      }
 
       // 無制限の場合(-1)
-      if (featureLimit === -1) {
+      if (limits[feature] === UNLIMITED) {
         return {
           allowed: true,
           usage: { [feature]: 0 },
@@ -64,9 +67,7 @@ class UsageTrackingService {
 
       // データベースから使用回数を取得
       const usage = await this.getCurrentMonthUsage(userId, feature, monthStart, monthEnd);
-
-      const remaining = Math.max(0, featureLimit - usage);
-      const allowed = remaining > 0;
+      const { allowed, remaining } = checkQuota(plan, FEATURE_QUOTAS[feature], usage);
 
       // 次のリセット日
       const nextMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1);
@@ -118,6 +119,10 @@ class UsageTrackingService {
         return count;
       }
 
+      if (feature === 'exportVideos') {
+        return this.countMonthlyExports(userId, { monthStart, monthEnd });
+      }
+
       // その他の機能は簡易的に0を返す（実装では専用テーブルを使用）
       return 0;
     } catch (error) {
@@ -126,6 +131,27 @@ class UsageTrackingService {
     }
   }
 
+  /**
+   * 今月のエクスポート数（失敗・キャンセルは数えない）
+   * @param {string} userId
+   * @param {{ monthStart?: Date, monthEnd?: Date, excludeJobId?: string }} [options]
+   *   excludeJobId: キュー投入中のジョブ自身を数えないために指定
+   */
+  static async countMonthlyExports(userId, { monthStart, monthEnd, excludeJobId } = {}) {
+    const now = new Date();
+    const start = monthStart || new Date(now.getFullYear(), now.getMonth(), 1);
+    const end = monthEnd || new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+
+    return prisma.exportJob.count({
+      where: {
+        userId,
+        createdAt: { gte: start, lte: end },
+        status: { notIn: ['failed', 'cancelled'] },
+        ...(excludeJobId && { id: { not: excludeJobId } })
+      }
+    });
+  }
+
   /**
    * 利用記録を保存
    * @param {string} userId - ユーザーID
@@ -165,7 +191,8 @@ class UsageTrackingService {
    */
   static async getUserUsageStats(userId, plan = 'free') {
     try {
-      const limits = this.getPlanLimits()[plan] || this.getPlanLimits().free;
+      plan = normalizePlan(plan);
+      const limits = this.getPlanLimits()[plan];
 
       const currentMonth = new Date();
       const monthStart = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
@@ -177,13 +204,13 @@ class UsageTrackingService {
       for (const feature of Object.keys(limits)) {
         const usage = await this.getCurrentMonthUsage(userId, feature, monthStart, monthEnd);
         const limit = limits[feature];
-        const remaining = limit === -1 ? -1 : Math.max(0, limit - usage);
+        const { remaining } = checkQuota(plan, FEATURE_QUOTAS[feature], usage);
 
         stats[feature] = {
           used: usage,
           limit,
           remaining,
-          percentage: limit === -1 ? 0 : Math.round((usage / Math.max(1, limit)) * 100)
+          percentage: limit === UNLIMITED ? 0 : Math.round((usage / Math.max(1, limit)) * 100)
         };
       }
 
@@ -206,7 +233,8 @@ class UsageTrackingService {
    * プラン情報と制限を取得
    */
   static getPlanInfo(plan = 'free') {
-    const limits = this.getPlanLimits()[plan] || this.getPlanLimits().free;
+    plan = normalizePlan(plan);
+    const limits = this.getPlanLimits()[plan];
 
     return {
       plan,
@@ -238,7 +266,7 @@ class UsageTrackingService {
     return async (req, res, next) => {
       try {
         const userId = req.user?.id;
-        const plan = req.user?.plan || 'free';
+        const plan = resolveUserPlan(req.user);
 
         if (!userId) {
           return res.status(401).json({
@@ -5,28 +5,8 @@
  * - Handles different watermark styles and positions
  */
 
-const PLAN_FEATURES = {
-  free: {
-    canRemoveWatermark: false,
-    maxOutputResolution: '720p',
-    maxExportsPerMonth: 5
-  },
-  basic: {
-    canRemoveWatermark: false,
-    maxOutputResolution: '1080p',
-    maxExportsPerMonth: 25
-  },
-  pro: {
-    canRemoveWatermark: true,
-    maxOutputResolution: '4K',
-    maxExportsPerMonth: 100
-  },
-  premium: {
-    canRemoveWatermark: true,
-    maxOutputResolution: '4K',
-    maxExportsPerMonth: -1 // unlimited
-  }
-};
+const { getEntitlements, checkQuota } = require('../../worker/dist/entitlements');
+const UsageTrackingService = require('./usageTrackingService');
 
 const WATERMARK_PRESETS = {
   minimal: {
@@ -60,7 +40,7 @@ class WatermarkService {
    * Check if user can remove watermark based on their plan
    */
   static canRemoveWatermark(userPlan) {
-    return PLAN_FEATURES[userPlan]?.canRemoveWatermark || false;
+    return getEntitlements(userPlan).watermarkRemoval;
   }
 
   /**
@@ -155,28 +135,26 @@ class WatermarkService {
    * Get user plan features
    */
   static getPlanFeatures(userPlan) {
-    return PLAN_FEATURES[userPlan] || PLAN_FEATURES.free;
+    const entitlements = getEntitlements(userPlan);
+    return {
+      canRemoveWatermark: entitlements.watermarkRemoval,
+      maxOutputResolution: entitlements.maxResolution,
+      maxExportsPerMonth: entitlements.exportsPerMonth
+    };
   }
 
   /**
    * Check if user has reached export limit
+   * @param {{ excludeJobId?: string }} [options] - skip the job being queued
    */
-  static async checkExportLimit(userId, userPlan) {
-    const features = this.getPlanFeatures(userPlan);
-    
-    if (features.maxExportsPerMonth === -1) {
-      return { canExport: true, remaining: -1 };
-    }
+  static async checkExportLimit(userId, userPlan, { excludeJobId } = {}) {
+    const used = await UsageTrackingService.countMonthlyExports(userId, { excludeJobId });
+    const quota = checkQuota(userPlan, 'exports', used);
 
-    // This would typically query the database for user's export count this month
-    // For now, return a mock response
-    const currentExports = 0; // TODO: Get from database
-    const remaining = features.maxExportsPerMonth - currentExports;
-    
     return {
-      canExport: remaining > 0,
-      remaining: Math.max(0, remaining),
-      limit: features.maxExportsPerMonth
+      canExport: quota.allowed,
+      remaining: quota.remaining,
+      limit: quota.limit
     };
   }
 }
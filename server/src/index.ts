@@ -24,9 +24,16 @@ const prisma = new PrismaClient();
  const exportRoutes = require('../routes/export');
  const userRoutes = require('../routes/users');
  const internalRoutes = require('../routes/internal');
+ const templateRoutes = require('../routes/templates');
+ const fileRoutes = require('../routes/files');
  
  const { authMiddleware } = require('../middleware/auth');
  const { errorHandler } = require('../middleware/errorHandler');
+ const realtimeService = require('../services/realtimeService');
+ const collaborationService = require('../services/collaborationService');
+ const mediaService = require('../services/mediaService');
+ const { stopBoss } = require('../services/jobQueue');
+ const { getProjectAccess, hasProjectPermission } = require('../utils/projectAccess');
 
 // Types
 interface HealthResponse {
@@ -47,6 +54,15 @@ interface WebSocketMessage {
 
 interface ExtendedWebSocket extends WebSocket {
   projectId?: string;
+  projectRole?: string; // role on projectId (owner, admin, editor, viewer)
+  userId?: string; // verified from ?token= during the handshake
+  isAlive?: boolean; // heartbeat: cleared on ping, set again on pong
+  clientId?: string; // collaboration: identifies this connection among a user's tabs
+  collabProjectId?: string; // collaboration session joined with collab_join
+}
+
+interface AuthenticatedRequest extends http.IncomingMessage {
+  userId?: string; // set by realtimeService.verifyClient
 }
 
 // Create Express app
@@ -57,7 +73,10 @@ const PORT: number = parseInt(process.env.PORT || '5000', 10);
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  // Chunks of a resumable upload belong to an authenticated upload session that
+  // is already rate limited when it starts; a large file needs hundreds of them
+  skip: (req: Request) => req.method === 'PUT' && /^\/api\/media\/uploads\/[^/]+\/[^/]+\/chunks\//.test(req.path)
 });
 
 // Middleware
@@ -105,53 +124,101 @@ app.use('/api/projects', authMiddleware, projectRoutes);
 app.use('/api/media', authMiddleware, mediaRoutes);
 app.use('/api/export', authMiddleware, exportRoutes);
 app.use('/api/users', authMiddleware, userRoutes);
+app.use('/api/templates', authMiddleware, templateRoutes);
 // Internal admin-only routes (auth/x-internal-key inside router)
 app.use('/api/internal', internalRoutes);
+// Signed storage URLs; the signature is the credential
+app.use('/api/files', fileRoutes);
 
 // WebSocket for real-time updates
 const server = http.createServer(app);
-const wss = new WebSocket.Server({ server });
+const wss = new WebSocket.Server({
+  server,
+  maxPayload: 1024 * 1024, // 1MB per message
+  // The handshake requires a valid ?token= (same JWT as the HTTP API)
+  verifyClient: (info, done) => realtimeService.verifyClient(info, done)
+});
+// Routes push events (export job progress/status) through the service; it also runs heartbeats
+realtimeService.attach(wss);
+
+// Join a project room with the same permissions as projectPermission('view'); viewers are read-only
+const joinProject = async (ws: ExtendedWebSocket, projectId: unknown): Promise<void> => {
+  if (typeof projectId !== 'string' || !projectId) {
+    ws.send(JSON.stringify({ type: 'error', message: 'Invalid projectId' }));
+    return;
+  }
+
+  const { role } = await getProjectAccess(projectId, ws.userId);
+  if (!hasProjectPermission(role, 'view')) {
+    ws.send(JSON.stringify({
+      type: 'error',
+      projectId,
+      message: 'Project not found or access denied'
+    }));
+    return;
+  }
 
-wss.on('connection', (ws: ExtendedWebSocket, req: http.IncomingMessage) => {
+  ws.projectId = projectId;
+  ws.projectRole = role;
+  ws.send(JSON.stringify({
+    type: 'joined',
+    projectId,
+    role,
+    readOnly: !hasProjectPermission(role, 'edit'),
+    timestamp: new Date().toISOString()
+  }));
+};
+
+wss.on('connection', (ws: ExtendedWebSocket, req: AuthenticatedRequest) => {
   console.log('New WebSocket connection from:', req.socket.remoteAddress);
+
+  if (req.userId) {
+    ws.userId = req.userId;
+  }
+  ws.isAlive = true;
+  ws.on('pong', () => realtimeService.markAlive(ws));
   
   ws.on('message', (message: WebSocket.Data) => {
+    if (!realtimeService.allowMessage(ws)) return;
+
     try {
       const data: WebSocketMessage = JSON.parse(message.toString());
       console.log('WebSocket message:', data.type, data.projectId);
       
       switch (data.type) {
         case 'join_project':
-          if (typeof data.projectId === 'string') {
-            ws.projectId = data.projectId;
-            ws.send(JSON.stringify({ 
-              type: 'joined', 
-              projectId: data.projectId,
-              timestamp: new Date().toISOString()
-            }));
-          } else {
-            ws.send(JSON.stringify({ 
-              type: 'error', 
-              message: 'Invalid projectId' 
-            }));
-          }
+          joinProject(ws, data.projectId).catch((error: Error) => {
+            console.error('WebSocket join_project error:', error);
+            ws.send(JSON.stringify({ type: 'error', message: 'Failed to join project' }));
+          });
           break;
           
-        case 'timeline_update':
-          // Broadcast to other clients in the same project
-          wss.clients.forEach((client: ExtendedWebSocket) => {
-            if (client !== ws && 
-                client.readyState === WebSocket.OPEN && 
-                client.projectId === ws.projectId) {
-              client.send(JSON.stringify({
-                ...data,
-                timestamp: new Date().toISOString()
-              }));
-            }
+        // Collaborative timeline editing (services/collaborationService.js)
+        case 'collab_join':
+          collaborationService.join(ws, data.projectId).catch((error: Error) => {
+            console.error('Collaboration join error:', error);
+            collaborationService.sendError(ws, data.projectId, 'Failed to join project');
           });
           break;
+
+        case 'collab_leave':
+          collaborationService.leave(ws);
+          break;
+
+        case 'collab_op':
+          collaborationService.submit(ws, data);
+          break;
+
+        case 'collab_presence':
+          collaborationService.updatePresence(ws, data);
+          break;
+
+        case 'collab_sync':
+          collaborationService.sync(ws, data.projectId);
+          break;
           
         case 'ping':
+          realtimeService.markAlive(ws);
           ws.send(JSON.stringify({ type: 'pong' }));
           break;
           
@@ -173,6 +240,7 @@ wss.on('connection', (ws: ExtendedWebSocket, req: http.IncomingMessage) => {
 
   ws.on('close', (code: number, reason: Buffer) => {
     console.log(`WebSocket connection closed: ${code} ${reason.toString()}`);
+    collaborationService.leave(ws);
   });
 
   ws.on('error', (error: Error) => {
@@ -183,6 +251,7 @@ wss.on('connection', (ws: ExtendedWebSocket, req: http.IncomingMessage) => {
   ws.send(JSON.stringify({ 
     type: 'welcome', 
     message: 'Connected to FlickMV WebSocket',
+    userId: ws.userId,
     timestamp: new Date().toISOString()
   }));
 });
@@ -216,6 +285,16 @@ const gracefulShutdown = async (signal: string): Promise<void> => {
   server.close(async () => {
     console.log('HTTP server closed');
     
+    // Save timelines still being edited collaboratively
+    await collaborationService.flushAll();
+
+    // Stop taking background jobs (media renditions)
+    try {
+      await stopBoss();
+    } catch (error) {
+      console.error('Error stopping job queue:', error);
+    }
+    
     // Disconnect from database
     try {
       await prisma.$disconnect();
@@ -245,6 +324,12 @@ server.listen(PORT, () => {
   console.log(`🔗 API Base URL: http://localhost:${PORT}/api`);
   console.log(`🌐 WebSocket URL: ws://localhost:${PORT}`);
   console.log(`🗄️  Database: ${process.env.DATABASE_URL ? 'Connected' : 'Not configured'}`);
+
+  // Resumable uploads are processed here, off the request, as are the proxies,
+  // filmstrips and reframe paths of every upload
+  mediaService.startWorkers().catch((error: Error) => {
+    console.error('Failed to start media workers:', error);
+  });
 });
 
 export default app;
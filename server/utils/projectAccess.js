@@ -0,0 +1,58 @@
+/**
+ * Project access rules shared by HTTP routes (middleware/auth.js projectPermission)
+ * and WebSocket rooms (src/index.ts join_project, services/collaborationService.js).
+ *
+ * Roles: the project owner, collaborator roles added through
+ * POST /api/projects/:id/collaborators (admin, editor, viewer), and viewer for
+ * anyone else when the project is public.
+ */
+
+const prisma = require('../prisma/client');
+
+const PERMISSION_ROLES = {
+  view: ['owner', 'admin', 'editor', 'viewer'],
+  edit: ['owner', 'admin', 'editor'],
+  admin: ['owner']
+};
+
+/**
+ * @param {string | null} role
+ * @param {'view' | 'edit' | 'admin'} permission
+ */
+function hasProjectPermission(role, permission) {
+  return Boolean(role) && (PERMISSION_ROLES[permission] || []).includes(role);
+}
+
+/**
+ * Load a project's access fields and the user's role on it
+ * @param {string} projectId
+ * @param {string} userId
+ * @returns {Promise<{ project: { id: string, ownerId: string, isPublic: boolean, collaborators: { userId: string, role: string }[] } | null, role: 'owner' | 'admin' | 'editor' | 'viewer' | null }>}
+ */
+async function getProjectAccess(projectId, userId) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      ownerId: true,
+      isPublic: true,
+      collaborators: {
+        select: { userId: true, role: true }
+      }
+    }
+  });
+
+  if (!project) return { project: null, role: null };
+  if (project.ownerId === userId) return { project, role: 'owner' };
+
+  const collaborator = project.collaborators.find(c => c.userId === userId);
+  if (collaborator) return { project, role: collaborator.role };
+
+  return { project, role: project.isPublic ? 'viewer' : null };
+}
+
+module.exports = {
+  PERMISSION_ROLES,
+  hasProjectPermission,
+  getProjectAccess
+};
@@ -0,0 +1,157 @@
+/**
+ * Project templates
+ * A template is a saved project whose media is replaced by named slots: clips
+ * and audio tracks keep their placement but reference a slot (slotId) instead
+ * of a media file. The timeline's `template` block lists the slots and, when
+ * the project had an analyzed song, each clip's position in beats, so the
+ * editor can re-fit cuts to the song the user picks.
+ */
+
+const {
+  normalizeSettings,
+  normalizeTimeline,
+  validateTimeline
+} = require('./projectTimeline');
+
+const SLOT_TYPES = ['visual', 'audio'];
+const MAX_SLOTS = 50;
+
+// Song-specific fields that do not carry over to a new song
+const AUDIO_TRACK_MEDIA_FIELDS = ['mediaId', 'url', 'bpm', 'beats', 'bars', 'confidence', 'analyzedAt'];
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Slots as stored: id, name and type only (no media)
+ * @param {any} slots
+ */
+function normalizeSlots(slots) {
+  return (Array.isArray(slots) ? slots : []).map(slot => ({
+    id: String(slot?.id || ''),
+    name: String(slot?.name || '').trim().slice(0, 100),
+    type: slot?.type
+  }));
+}
+
+/**
+ * Validate slots; returns an error message or null
+ * @param {{ id: string, name: string, type: string }[]} slots
+ */
+function validateSlots(slots) {
+  if (slots.length === 0) return 'A template needs at least one media slot';
+  if (slots.length > MAX_SLOTS) return `A template can have at most ${MAX_SLOTS} slots`;
+  if (slots.some(slot => !slot.id || !slot.name)) return 'Each slot needs an id and a name';
+  if (slots.some(slot => !SLOT_TYPES.includes(slot.type))) return `Slot type must be one of: ${SLOT_TYPES.join(', ')}`;
+  if (new Set(slots.map(slot => slot.id)).size !== slots.length) return 'Slot ids must be unique';
+  return null;
+}
+
+/**
+ * Template project data as stored: settings, a timeline whose clips and audio
+ * tracks point at slots (media references dropped) and the beat grid
+ * @param {any} projectData
+ * @param {{ id: string, name: string, type: string }[]} slots
+ */
+function normalizeTemplateProjectData(projectData, slots) {
+  const source = isPlainObject(projectData) ? projectData : {};
+  const timeline = normalizeTimeline(source.timeline);
+  const template = isPlainObject(timeline.template) ? timeline.template : {};
+
+  return {
+    settings: normalizeSettings(source.settings),
+    timeline: {
+      ...timeline,
+      clips: timeline.clips.map(clip => ({ ...clip, mediaId: '' })),
+      audioTracks: timeline.audioTracks.map(track => {
+        const stored = { ...track };
+        AUDIO_TRACK_MEDIA_FIELDS.forEach(field => delete stored[field]);
+        return stored;
+      }),
+      template: {
+        ...(isPlainObject(template.tempo) ? { tempo: template.tempo } : {}),
+        clipBeats: isPlainObject(template.clipBeats) ? template.clipBeats : {},
+        slots
+      },
+      playheadPosition: 0
+    },
+    ...(isPlainObject(source.beatGrid) ? { beatGrid: source.beatGrid } : {})
+  };
+}
+
+/**
+ * Validate normalized project data against the slots; returns an error message or null
+ * @param {any} projectData
+ */
+function validateTemplateProjectData(projectData) {
+  const { timeline } = projectData;
+  const timelineError = validateTimeline(timeline);
+  if (timelineError) return timelineError;
+
+  const slotTypes = new Map(timeline.template.slots.map(slot => [slot.id, slot.type]));
+  if (timeline.clips.some(clip => slotTypes.get(clip.slotId) !== 'visual')) {
+    return 'Each clip must use a visual slot';
+  }
+  if (timeline.audioTracks.some(track => slotTypes.get(track.slotId) !== 'audio')) {
+    return 'Each audio track must use an audio slot';
+  }
+  return null;
+}
+
+/**
+ * Names of the slots a timeline still uses without media: placeholder clips
+ * (empty mediaId) and audio tracks with neither a media file nor a URL
+ * @param {any} timeline
+ * @returns {string[]}
+ */
+function findUnfilledSlots(timeline) {
+  const names = new Map((timeline?.template?.slots || []).map(slot => [slot.id, slot.name || slot.id]));
+  const unfilled = new Set();
+  (timeline?.clips || []).forEach(clip => {
+    if (!clip.mediaId) unfilled.add(names.get(clip.slotId) || clip.slotId || clip.id);
+  });
+  (timeline?.audioTracks || []).forEach(track => {
+    if (track.slotId && !track.mediaId && !track.url) unfilled.add(names.get(track.slotId) || track.slotId);
+  });
+  return Array.from(unfilled);
+}
+
+/**
+ * Timeline for a project created from a template (slots start unfilled)
+ * @param {any} template - Template row
+ */
+function createTimelineFromTemplate(template) {
+  const timeline = normalizeTimeline(template.projectData?.timeline);
+  return {
+    ...timeline,
+    template: {
+      ...timeline.template,
+      templateId: template.id,
+      slots: normalizeSlots(template.slots)
+    }
+  };
+}
+
+/**
+ * Template row in the client's Template shape
+ * @param {any} template
+ * @param {string} [userId] - requesting user (for `owned`)
+ */
+function toTemplateResponse(template, userId) {
+  return {
+    ...template,
+    slots: normalizeSlots(template.slots),
+    owned: template.ownerId === userId
+  };
+}
+
+module.exports = {
+  SLOT_TYPES,
+  MAX_SLOTS,
+  normalizeSlots,
+  validateSlots,
+  normalizeTemplateProjectData,
+  validateTemplateProjectData,
+  createTimelineFromTemplate,
+  findUnfilledSlots,
+  toTemplateResponse
+};
@@ -0,0 +1,31 @@
+const { findUnfilledSlots } = require('./projectTemplates');
+
+describe('findUnfilledSlots', () => {
+  const timeline = () => ({
+    clips: [
+      { id: 'clip-1', mediaId: 'media-1', slotId: 'slot-1' },
+      { id: 'clip-2', mediaId: '', slotId: 'slot-2' },
+      { id: 'clip-3', mediaId: '', slotId: 'slot-2' }
+    ],
+    audioTracks: [{ id: 'audio-1', slotId: 'slot-3' }],
+    template: {
+      slots: [
+        { id: 'slot-1', name: 'Intro', type: 'visual', mediaId: 'media-1' },
+        { id: 'slot-2', name: 'Chorus', type: 'visual' },
+        { id: 'slot-3', name: 'Song', type: 'audio' }
+      ]
+    }
+  });
+
+  it('names each slot still used without media once', () => {
+    expect(findUnfilledSlots(timeline())).toEqual(['Chorus', 'Song']);
+  });
+
+  it('returns nothing once every slot is filled', () => {
+    const filled = timeline();
+    filled.clips.forEach(clip => { clip.mediaId = 'media-2'; });
+    filled.audioTracks[0].mediaId = 'media-song';
+
+    expect(findUnfilledSlots(filled)).toEqual([]);
+  });
+});
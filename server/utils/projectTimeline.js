@@ -0,0 +1,175 @@
+/**
+ * Project timeline persistence
+ * Projects keep the client's shapes (ProjectSettings, Timeline, BeatGrid) in JSON
+ * columns. These helpers normalize what the editor sends and shape what it reads
+ * back, so a saved project loads into the editor unchanged.
+ */
+
+const MAX_TIMELINE_DURATION = 600; // 10 minutes
+
+const DEFAULT_SETTINGS = {
+  resolution: '9:16',
+  frameRate: 30,
+  duration: 30,
+  outputFormat: {
+    container: 'mp4',
+    videoCodec: 'h264',
+    audioBitrate: 192,
+    videoBitrate: 5000,
+    quality: 'high'
+  }
+};
+
+// Audio track fields derived in the browser (Web Worker analysis) and too large to store
+const DERIVED_AUDIO_TRACK_FIELDS = ['waveformData', 'spectrogramData', 'originalFile'];
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * @param {number} [duration]
+ * @returns {any} empty Timeline
+ */
+function createEmptyTimeline(duration = DEFAULT_SETTINGS.duration) {
+  return {
+    clips: [],
+    audioTracks: [],
+    duration,
+    zoom: 1,
+    playheadPosition: 0
+  };
+}
+
+/**
+ * Merge settings over the current (or default) ProjectSettings
+ * @param {any} settings
+ * @param {any} [current]
+ */
+function normalizeSettings(settings, current) {
+  const base = isPlainObject(current) ? current : DEFAULT_SETTINGS;
+  const next = isPlainObject(settings) ? settings : {};
+  return {
+    ...DEFAULT_SETTINGS,
+    ...base,
+    ...next,
+    outputFormat: {
+      ...DEFAULT_SETTINGS.outputFormat,
+      ...(base.outputFormat || {}),
+      ...(next.outputFormat || {})
+    }
+  };
+}
+
+/**
+ * Timeline as stored: clips (with effects, keyframes and transitions) are kept
+ * as sent, audio tracks lose browser-only fields. Unknown keys are preserved.
+ * @param {any} timeline
+ */
+function normalizeTimeline(timeline) {
+  const source = isPlainObject(timeline) ? timeline : {};
+  const empty = createEmptyTimeline();
+
+  const audioTracks = (Array.isArray(source.audioTracks) ? source.audioTracks : []).map(track => {
+    const stored = { ...track };
+    DERIVED_AUDIO_TRACK_FIELDS.forEach(field => delete stored[field]);
+    return stored;
+  });
+
+  return {
+    ...empty,
+    ...source,
+    clips: Array.isArray(source.clips) ? source.clips : [],
+    audioTracks,
+    duration: Number.isFinite(Number(source.duration)) ? Number(source.duration) : empty.duration
+  };
+}
+
+/**
+ * Validate a timeline before saving; returns an error message or null
+ * @param {any} timeline
+ */
+function validateTimeline(timeline) {
+  if (timeline.duration > MAX_TIMELINE_DURATION) {
+    return 'Timeline duration cannot exceed 10 minutes';
+  }
+  const invalidClip = timeline.clips.find(clip =>
+    !clip || typeof clip.id !== 'string' || typeof clip.mediaId !== 'string' ||
+    !Number.isFinite(clip.startTime) || !Number.isFinite(clip.duration)
+  );
+  if (invalidClip) {
+    return 'Each clip needs id, mediaId, startTime and duration';
+  }
+  return null;
+}
+
+/**
+ * Media referenced by the timeline (clips and audio tracks)
+ * @param {any} timeline
+ * @returns {string[]}
+ */
+function collectMediaIds(timeline) {
+  const ids = new Set();
+  timeline.clips.forEach(clip => clip.mediaId && ids.add(clip.mediaId));
+  timeline.audioTracks.forEach(track => track.mediaId && ids.add(track.mediaId));
+  return Array.from(ids);
+}
+
+/**
+ * @param {any} timeline
+ * @param {any} currentMeta
+ * @param {string} userId
+ */
+function buildTimelineMetadata(timeline, currentMeta, userId) {
+  const meta = isPlainObject(currentMeta) ? currentMeta : {};
+  return {
+    ...meta,
+    totalClips: timeline.clips.length,
+    totalDuration: timeline.duration,
+    lastEditedBy: userId,
+    version: (meta.version || 0) + 1
+  };
+}
+
+const fromProjectStatusEnum = (status) => (status === 'in_progress' ? 'in-progress' : status);
+
+/**
+ * MediaFile row as JSON (BigInt size is not serializable)
+ * @param {any} mediaFile
+ */
+function serializeMediaFile(mediaFile) {
+  return {
+    ...mediaFile,
+    size: mediaFile.size != null ? Number(mediaFile.size) : 0,
+    width: mediaFile.dimensions?.width ?? undefined,
+    height: mediaFile.dimensions?.height ?? undefined,
+    uploadedAt: mediaFile.createdAt
+  };
+}
+
+/**
+ * Project row in the client's Project shape
+ * @param {any} project
+ * @param {any[]} [mediaFiles] - media library (project uploads and referenced media)
+ */
+function toProjectResponse(project, mediaFiles = []) {
+  return {
+    ...project,
+    status: fromProjectStatusEnum(project.status),
+    settings: normalizeSettings(project.settings),
+    timeline: normalizeTimeline(project.timeline),
+    beatGrid: project.beatGrid || undefined,
+    mediaLibrary: mediaFiles.map(serializeMediaFile)
+  };
+}
+
+module.exports = {
+  MAX_TIMELINE_DURATION,
+  DEFAULT_SETTINGS,
+  createEmptyTimeline,
+  normalizeSettings,
+  normalizeTimeline,
+  validateTimeline,
+  collectMediaIds,
+  buildTimelineMetadata,
+  serializeMediaFile,
+  toProjectResponse
+};
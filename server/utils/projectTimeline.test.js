@@ -0,0 +1,219 @@
+const {
+  DEFAULT_SETTINGS,
+  MAX_TIMELINE_DURATION,
+  buildTimelineMetadata,
+  collectMediaIds,
+  normalizeSettings,
+  normalizeTimeline,
+  validateTimeline,
+  toProjectResponse
+} = require('./projectTimeline');
+
+// A timeline as the editor saves it (clips keep effects, keyframes, transitions, transforms and reframes)
+const editorTimeline = () => ({
+  clips: [
+    {
+      id: 'clip-1',
+      mediaId: 'media-video',
+      startTime: 0,
+      duration: 4,
+      trimStart: 1.5,
+      trimEnd: 5.5,
+      layer: 0,
+      transform: { x: 0.1, y: -0.2, scale: 1.2, opacity: 0.9 },
+      reframe: { strategy: 'subject', keyframes: [{ time: 1, focus: { x: 0.4, y: 0.5 } }] },
+      effects: [
+        {
+          id: 'effect-1',
+          type: 'brightness',
+          enabled: true,
+          parameters: { value: 10 },
+          keyframes: {
+            value: [
+              { id: 'kf-1', time: 0, value: 0, easing: 'linear' },
+              { id: 'kf-2', time: 2, value: 40, easing: 'easeInOut' }
+            ]
+          }
+        },
+        { id: 'effect-2', type: 'speed', enabled: true, parameters: { value: 1.5 } }
+      ],
+      transitions: { out: { type: 'slide', duration: 0.5, parameters: { direction: 'up' } } }
+    },
+    {
+      id: 'clip-2',
+      mediaId: 'media-image',
+      startTime: 4,
+      duration: 3,
+      trimStart: 0,
+      trimEnd: 3,
+      layer: 0,
+      effects: [],
+      transitions: { in: { type: 'crossfade', duration: 1 } }
+    }
+  ],
+  audioTracks: [
+    {
+      id: 'audio-1',
+      mediaId: 'media-audio',
+      name: 'song.mp3',
+      startTime: 0,
+      duration: 7,
+      volume: 0.8,
+      muted: false,
+      solo: true,
+      bpm: 128,
+      beats: [0, 0.47, 0.94],
+      bars: [0],
+      confidence: 0.82,
+      triggerEvents: [{ triggerId: 'bass_trigger', time: 0.47, intensity: 0.9 }]
+    }
+  ],
+  duration: 7,
+  zoom: 1.5,
+  playheadPosition: 2.25,
+  template: { id: 'template-1', slots: [] }
+});
+
+describe('normalizeTimeline', () => {
+  it('keeps an editor timeline as sent', () => {
+    const timeline = editorTimeline();
+
+    expect(normalizeTimeline(timeline)).toEqual(timeline);
+  });
+
+  it('survives a JSON column round trip', () => {
+    const stored = JSON.parse(JSON.stringify(normalizeTimeline(editorTimeline())));
+
+    expect(normalizeTimeline(stored)).toEqual(editorTimeline());
+  });
+
+  it('drops browser-only audio track fields', () => {
+    const timeline = editorTimeline();
+    timeline.audioTracks[0] = {
+      ...timeline.audioTracks[0],
+      waveformData: [0.1, 0.2],
+      spectrogramData: [[1, 2]],
+      originalFile: {}
+    };
+
+    const [track] = normalizeTimeline(timeline).audioTracks;
+
+    expect(track).toEqual(editorTimeline().audioTracks[0]);
+  });
+
+  it('fills in an empty timeline', () => {
+    expect(normalizeTimeline(null)).toEqual({
+      clips: [],
+      audioTracks: [],
+      duration: DEFAULT_SETTINGS.duration,
+      zoom: 1,
+      playheadPosition: 0
+    });
+    expect(normalizeTimeline({ clips: 'nope', duration: 'long' })).toMatchObject({
+      clips: [],
+      duration: DEFAULT_SETTINGS.duration
+    });
+  });
+});
+
+describe('validateTimeline', () => {
+  it('accepts an editor timeline', () => {
+    expect(validateTimeline(normalizeTimeline(editorTimeline()))).toBeNull();
+  });
+
+  it('rejects timelines over the maximum duration', () => {
+    const timeline = normalizeTimeline({ ...editorTimeline(), duration: MAX_TIMELINE_DURATION + 1 });
+
+    expect(validateTimeline(timeline)).toBe('Timeline duration cannot exceed 10 minutes');
+  });
+
+  it.each([
+    ['no id', { mediaId: 'm', startTime: 0, duration: 1 }],
+    ['no mediaId', { id: 'c', startTime: 0, duration: 1 }],
+    ['a string startTime', { id: 'c', mediaId: 'm', startTime: '0', duration: 1 }],
+    ['no duration', { id: 'c', mediaId: 'm', startTime: 0 }]
+  ])('rejects a clip with %s', (_case, clip) => {
+    const timeline = normalizeTimeline({ ...editorTimeline(), clips: [clip] });
+
+    expect(validateTimeline(timeline)).toBe('Each clip needs id, mediaId, startTime and duration');
+  });
+});
+
+describe('collectMediaIds', () => {
+  it('lists the media used by clips and audio tracks once', () => {
+    const timeline = normalizeTimeline(editorTimeline());
+    timeline.clips.push({ ...timeline.clips[0], id: 'clip-3' });
+
+    expect(collectMediaIds(timeline)).toEqual(['media-video', 'media-image', 'media-audio']);
+  });
+});
+
+describe('buildTimelineMetadata', () => {
+  it('counts the timeline and bumps the version', () => {
+    const timeline = normalizeTimeline(editorTimeline());
+
+    expect(buildTimelineMetadata(timeline, { version: 4, tags: ['mv'] }, 'user-1')).toEqual({
+      tags: ['mv'],
+      totalClips: 2,
+      totalDuration: 7,
+      lastEditedBy: 'user-1',
+      version: 5
+    });
+  });
+});
+
+describe('normalizeSettings', () => {
+  it('merges over the current settings and keeps the output format whole', () => {
+    const current = normalizeSettings({ resolution: '16:9', frameRate: 60 });
+    const next = normalizeSettings({ outputFormat: { quality: 'ultra' } }, current);
+
+    expect(next).toEqual({
+      ...DEFAULT_SETTINGS,
+      resolution: '16:9',
+      frameRate: 60,
+      outputFormat: { ...DEFAULT_SETTINGS.outputFormat, quality: 'ultra' }
+    });
+  });
+});
+
+describe('toProjectResponse', () => {
+  it('returns the stored editor state in the client shape', () => {
+    const settings = normalizeSettings({ resolution: '1:1', duration: 7 });
+    const beatGrid = { bpm: 128, offset: 0.02, timeSignature: [4, 4] };
+    const row = {
+      id: 'project-1',
+      name: 'MV',
+      status: 'in_progress',
+      settings,
+      timeline: JSON.parse(JSON.stringify(normalizeTimeline(editorTimeline()))),
+      beatGrid
+    };
+    const mediaFile = {
+      id: 'media-video',
+      size: BigInt(1024),
+      dimensions: { width: 1920, height: 1080 },
+      createdAt: '2025-01-01T00:00:00.000Z'
+    };
+
+    const response = toProjectResponse(row, [mediaFile]);
+
+    expect(response).toMatchObject({
+      id: 'project-1',
+      status: 'in-progress',
+      settings,
+      timeline: editorTimeline(),
+      beatGrid
+    });
+    expect(response.mediaLibrary).toEqual([{
+      ...mediaFile,
+      size: 1024,
+      width: 1920,
+      height: 1080,
+      uploadedAt: mediaFile.createdAt
+    }]);
+  });
+
+  it('leaves out a missing beat grid', () => {
+    expect(toProjectResponse({ id: 'project-1', beatGrid: null }).beatGrid).toBeUndefined();
+  });
+});
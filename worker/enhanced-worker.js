@@ -7,8 +7,9 @@
  *
  * Enhanced Features:
  * - Multi-layer video composition
- * - Effect processing (brightness, contrast, saturation, speed, pan_zoom, fade)
- * - Transition effects (crossfade, slide, wipe, cut)
+ * - Smart reframing (cover-fit crop follows the media focus path or clip keyframes)
+ * - Effect processing (brightness, contrast, saturation, speed, pan_zoom, fade) with keyframed parameters
+ * - Transition effects (crossfade, slide, wipe, custom xfade, cut)
  * - Audio track mixing and synchronization
  * - Watermark application based on user plan
  * - Progress reporting with detailed phase information
@@ -20,12 +21,35 @@ const fs = require('fs');
 const fsp = require('fs').promises;
 const path = require('path');
 const os = require('os');
-const { S3Client, PutObjectCommand } = require('@aws-sdk/client-s3');
+
+// Shared timeline renderer (src/render, built with `npm run build:render`)
+const {
+  buildClipFilters,
+  getClipSpeed,
+  planTransitions,
+  resolveAudioMuting,
+  resolveEncoding,
+  resolveTransform,
+  checkPlatformDuration,
+  maxFileSizeBytes,
+  reducedVideoBitrate,
+  PlatformLimitError
+} = require('./dist/render');
+// Shared object storage (src/storage, built with `npm run build:storage`)
+const { StorageRegistry, mediaLocation, exportKey } = require('./dist/storage');
+
+// Clips and the composite are encoded once more at the end (encodeOutput), so
+// the intermediates stay near-lossless H.264 whatever the output format is
+const INTERMEDIATE_VIDEO_OPTIONS = ['-preset veryfast', '-crf 12'];
+
+// Re-encodes at a lower bitrate before a batch output over its platform's size limit fails
+const MAX_SIZE_REENCODES = 2;
 
 const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
 const log = {
   info: (...args) => (['info', 'debug'].includes(LOG_LEVEL) ? console.log('[INFO]', ...args) : undefined),
   debug: (...args) => (LOG_LEVEL === 'debug' ? console.log('[DEBUG]', ...args) : undefined),
+  warn: (...args) => (['info', 'debug'].includes(LOG_LEVEL) ? console.warn('[WARN]', ...args) : undefined),
   error: (...args) => console.error('[ERROR]', ...args),
 };
 
@@ -57,54 +81,127 @@ const WATERMARK_PRESETS = {
   }
 };
 
-// Effect processing functions
-const EFFECT_PROCESSORS = {
-  brightness: (value) => `eq=brightness=${value / 100}`,
-  contrast: (value) => `eq=contrast=${1 + (value / 100)}`,
-  saturation: (value) => `eq=saturation=${1 + (value / 100)}`,
-  speed: (value) => `setpts=${1/value}*PTS`,
-  pan_zoom: (params) => {
-    const { zoom = 1, panX = 0, panY = 0 } = params;
-    const scale = zoom;
-    const x = `(iw-ow)/2+${panX}*iw`;
-    const y = `(ih-oh)/2+${panY}*ih`;
-    return `scale=${scale}*iw:${scale}*ih,crop=iw/${scale}:ih/${scale}:${x}:${y}`;
-  },
-  fade: (params, duration, startTime) => {
-    const { type = 'in', duration: fadeDuration = 0.5 } = params;
-    if (type === 'in') {
-      return `fade=t=in:st=${startTime}:d=${fadeDuration}`;
+// atempo handles 0.5x-2x per instance; larger changes are chained
+function atempoChain(speed) {
+  const filters = [];
+  let rest = speed;
+  while (rest > 2) {
+    filters.push('atempo=2');
+    rest /= 2;
+  }
+  while (rest < 0.5) {
+    filters.push('atempo=0.5');
+    rest /= 0.5;
+  }
+  if (Math.abs(rest - 1) > 1e-6) filters.push(`atempo=${+rest.toFixed(6)}`);
+  return filters;
+}
+
+/**
+ * Build the filter graph that places each audio source at its timeline offset.
+ * Sources are audio tracks and the sound of video clips: `trimStart` seconds
+ * into the source, played at `speed` for `duration` timeline seconds.
+ * Input 0 is the composed video; audio sources start at input index 1.
+ * Returns null when nothing audible remains.
+ */
+function buildAudioMixFilter(sources, totalDuration) {
+  if (!sources.length) return null;
+
+  const parts = [];
+  const labels = [];
+
+  sources.forEach((source, i) => {
+    const delayMs = Math.max(0, Math.round((source.startTime || 0) * 1000));
+    const volume = typeof source.volume === 'number' ? Math.max(0, source.volume) : 1;
+    const speed = source.speed > 0 ? source.speed : 1;
+    const trimStart = Math.max(0, source.trimStart || 0);
+    const trimEnd = +(trimStart + source.duration * speed).toFixed(3);
+    const label = `a${i}`;
+
+    const chain = [`atrim=${trimStart}:${trimEnd}`, 'asetpts=PTS-STARTPTS', ...atempoChain(speed)];
+    chain.push(
+      'aformat=sample_rates=48000:channel_layouts=stereo',
+      `volume=${volume}`,
+      `adelay=${delayMs}|${delayMs}`
+    );
+    parts.push(`[${i + 1}:a]${chain.join(',')}[${label}]`);
+    labels.push(`[${label}]`);
+  });
+
+  const mixed = labels.length > 1
+    ? `${labels.join('')}amix=inputs=${labels.length}:duration=longest:dropout_transition=0:normalize=0`
+    : `${labels[0]}anull`;
+
+  // Pad/trim to the timeline length so the mix never ends before the picture
+  parts.push(`${mixed},apad=whole_dur=${totalDuration},atrim=0:${totalDuration}[aout]`);
+
+  return { filterComplex: parts.join(';'), outputLabel: 'aout' };
+}
+
+/**
+ * Build the overlay graph for a multi-layer timeline.
+ * Input 0 is the black background; processed clips follow in timeline order,
+ * each rendered `plan[i].tail` seconds longer than the clip itself.
+ * Every clip is first turned into a full-frame layer with its transform baked in,
+ * joined clips are chained with xfade, and the chains are stacked by layer
+ * (lowest first) so higher layers end up on top.
+ */
+function buildCompositeFilter(clips, { plan, chains }, { size, frameRate, duration }) {
+  const background = `color=c=black:s=${size}:r=${frameRate}:d=${duration}`;
+  const [width, height] = size.split('x').map(Number);
+
+  const parts = [];
+
+  clips.forEach((clip, i) => {
+    const input = i + 1;
+    const { tail, fadeIn, fadeOut } = plan[i];
+    const { scale, opacity, x, y } = resolveTransform(clip);
+    const centerX = Math.round((x / 100) * width);
+    const centerY = Math.round((y / 100) * height);
+    const length = clip.duration + tail;
+
+    const chain = [`fps=${frameRate}`, 'settb=AVTB', 'setpts=PTS-STARTPTS', 'format=yuva420p'];
+    if (opacity < 100) chain.push(`colorchannelmixer=aa=${opacity / 100}`);
+    if (fadeIn > 0) chain.push(`fade=t=in:st=0:d=${fadeIn}:alpha=1`);
+    if (fadeOut > 0) chain.push(`fade=t=out:st=${clip.duration - fadeOut}:d=${fadeOut}:alpha=1`);
+
+    if (scale === 1 && centerX === width / 2 && centerY === height / 2) {
+      parts.push(`[${input}:v]${chain.join(',')}[c${i}]`);
     } else {
-      return `fade=t=out:st=${startTime + duration - fadeDuration}:d=${fadeDuration}`;
+      // Place the scaled clip on a transparent full-frame canvas
+      chain.push(`scale=iw*${scale}:ih*${scale}`);
+      parts.push(`[${input}:v]${chain.join(',')}[s${i}]`);
+      parts.push(`color=c=black@0:s=${size}:r=${frameRate}:d=${length},format=yuva420p[t${i}]`);
+      parts.push(`[t${i}][s${i}]overlay=x=${centerX}-w/2:y=${centerY}-h/2:shortest=1,settb=AVTB[c${i}]`);
     }
-  }
-};
+  });
 
-// Transition processing functions
-const TRANSITION_PROCESSORS = {
-  crossfade: (duration) => ({
-    filter: 'xfade',
-    duration,
-    offset: 0
-  }),
-  slide: (duration, direction = 'left') => ({
-    filter: 'xfade',
-    duration,
-    offset: 0,
-    transition: `slide${direction}`
-  }),
-  wipe: (duration, direction = 'horizontal') => ({
-    filter: 'xfade',
-    duration,
-    offset: 0,
-    transition: `wipe${direction}`
-  }),
-  cut: () => ({
-    filter: 'concat',
-    duration: 0,
-    offset: 0
-  })
-};
+  let last = '0:v';
+
+  chains.forEach((chain, n) => {
+    const firstClip = clips[chain.indices[0]];
+    const lastClip = clips[chain.indices[chain.indices.length - 1]];
+    const start = firstClip.startTime || 0;
+    const end = (lastClip.startTime || 0) + lastClip.duration;
+    let label = `c${chain.indices[0]}`;
+
+    chain.indices.slice(1).forEach((index, k) => {
+      const { join } = plan[index];
+      const offset = +((clips[index].startTime || 0) - start).toFixed(3);
+      const output = `x${n}_${k}`;
+      parts.push(`[${label}][c${index}]xfade=transition=${join.name}:duration=${join.duration}:offset=${offset}[${output}]`);
+      label = output;
+    });
+
+    parts.push(`[${label}]setpts=PTS+${start}/TB[p${n}]`);
+    parts.push(`[${last}][p${n}]overlay=eof_action=pass:enable='between(t,${start},${end})'[l${n}]`);
+    last = `l${n}`;
+  });
+
+  parts.push(`[${last}]format=yuv420p[vout]`);
+
+  return { background, filterComplex: parts.join(';'), outputLabel: 'vout' };
+}
 
 function required(name) {
   const val = process.env[name];
@@ -117,17 +214,40 @@ function getEnv(name, def) {
   return v !== undefined ? v : def;
 }
 
+/**
+ * Whether a media file has an audio stream ([n:a] fails the mix otherwise)
+ */
+function hasAudioStream(filePath) {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) return reject(err);
+      resolve(Boolean(metadata.streams?.some(stream => stream.codec_type === 'audio')));
+    });
+  });
+}
+
 /**
  * Enhanced video processing pipeline
  */
 class VideoProcessor {
-  constructor(timeline, settings, watermarkSettings, onProgress) {
+  constructor(timeline, settings, watermarkSettings, onProgress, storage, projectSettings = {}) {
     this.timeline = timeline;
     this.settings = settings;
+    // Default reframe strategy for clips without their own (center, smart or manual)
+    this.cropStrategy = projectSettings.cropStrategy;
+    // Container, codecs, quality, frame rate and size; throws EncodingError
+    // for combinations that cannot be produced
+    this.encoding = resolveEncoding(settings);
+    // Duration and file size limits for batch (per-platform) exports
+    this.platform = settings.platform || null;
+    this.reencodes = 0;
     this.watermarkSettings = watermarkSettings;
     this.onProgress = onProgress;
+    this.storage = storage;
     this.tempDir = null;
     this.processedClips = [];
+    this.transitionPlan = null;
+    this.mediaFiles = new Map(); // storage key -> Promise<LocalFile>
   }
 
   async initialize() {
@@ -136,6 +256,16 @@ class VideoProcessor {
   }
 
   async cleanup() {
+    // Media downloaded from remote storage
+    for (const pending of this.mediaFiles.values()) {
+      try {
+        await (await pending).cleanup();
+      } catch {
+        // Download failed; nothing to clean up
+      }
+    }
+    this.mediaFiles.clear();
+
     if (this.tempDir) {
       try {
         await fsp.rmdir(this.tempDir, { recursive: true });
@@ -147,9 +277,10 @@ class VideoProcessor {
   }
 
   /**
-   * Process individual clip with effects
+   * Process individual clip with effects.
+   * `tail` extends the render past the clip end so an outgoing transition has frames to blend.
    */
-  async processClip(clip, index) {
+  async processClip(clip, index, tail = 0) {
     const clipPath = path.join(this.tempDir, `clip_${index}.mp4`);
     
     await this.onProgress({
@@ -160,53 +291,43 @@ class VideoProcessor {
     });
 
     return new Promise(async (resolve, reject) => {
-      // Build filter chain for clip effects
-      const filters = [];
-      
-      if (clip.effects && clip.effects.length > 0) {
-        clip.effects.forEach(effect => {
-          if (effect.enabled) {
-            switch (effect.type) {
-              case 'brightness':
-              case 'contrast':
-              case 'saturation':
-                filters.push(EFFECT_PROCESSORS[effect.type](effect.parameters.value));
-                break;
-              case 'speed':
-                filters.push(EFFECT_PROCESSORS.speed(effect.parameters.value));
-                break;
-              case 'pan_zoom':
-                filters.push(EFFECT_PROCESSORS.pan_zoom(effect.parameters));
-                break;
-              case 'fade':
-                filters.push(EFFECT_PROCESSORS.fade(effect.parameters, clip.duration, clip.startTime));
-                break;
-            }
-          }
-        });
-      }
+      // Cover-fit (cropped around the reframe focus), speed, color, pan/zoom
+      // and fades, shared with the preview
+      const { width, height, frameRate } = this.encoding;
+      const filters = buildClipFilters(clip, { width, height }, frameRate, {
+        media: clip.mediaFile,
+        cropStrategy: this.cropStrategy
+      });
 
       // Get video input (real media or placeholder)
       const videoInput = await this.generateClipContent(clip);
       let command = ffmpeg(videoInput);
 
+      if (videoInput === this.generatePlaceholderContent(clip)) {
+        command = command.inputFormat('lavfi');
+      } else if (clip.mediaFile.type === 'image') {
+        command = command.inputOptions(['-loop 1']);
+      }
+
       // Apply trimming
       if (clip.trimStart > 0) {
         command = command.seekInput(clip.trimStart);
       }
       
-      command = command.duration(clip.duration);
+      command = command.duration(clip.duration + tail);
 
-      // Apply video filters
-      if (filters.length > 0) {
-        command = command.videoFilters(filters.join(','));
+      // Hold the last frame if the source runs out before the transition ends
+      if (tail > 0) {
+        filters.push(`tpad=stop_mode=clone:stop_duration=${tail}`);
       }
 
-      // Set output format
+      command = command.videoFilters(filters.join(','));
+
+      // Intermediate output
       command
         .videoCodec('libx264')
-        .fps(this.settings.frameRate || 30)
-        .size(this.getResolutionSize())
+        .fps(frameRate)
+        .outputOptions(INTERMEDIATE_VIDEO_OPTIONS)
         .on('start', (cmd) => {
           log.debug(`Processing clip ${index}:`, cmd);
         })
@@ -225,15 +346,13 @@ class VideoProcessor {
   async generateClipContent(clip) {
     // Check if clip has associated media file
     if (clip.mediaFile && clip.mediaFile.url) {
-      const mediaPath = await this.resolveMediaPath(clip.mediaFile.url);
-      
-      // Verify file exists
       try {
+        const mediaPath = await this.resolveMediaFile(clip.mediaFile);
         await fsp.access(mediaPath);
         log.debug(`Using real media file: ${mediaPath}`);
         return mediaPath;
       } catch (error) {
-        log.warn(`Media file not found: ${mediaPath}, falling back to placeholder`);
+        log.warn(`Media file not available for clip ${clip.id}: ${error.message}, falling back to placeholder`);
       }
     }
     
@@ -241,6 +360,26 @@ class VideoProcessor {
     return this.generatePlaceholderContent(clip);
   }
 
+  /**
+   * Local path of a media record. Media with a storage location is read
+   * through the storage backend (downloaded once per job when remote);
+   * older records fall back to their URL. Always the original upload,
+   * never a preview proxy.
+   */
+  async resolveMediaFile(mediaFile) {
+    if (!mediaFile.storage || !mediaFile.ownerId) {
+      return this.resolveMediaPath(mediaFile.url);
+    }
+
+    const location = mediaLocation(mediaFile);
+    const cacheKey = `${location.provider}:${location.key}`;
+    if (!this.mediaFiles.has(cacheKey)) {
+      this.mediaFiles.set(cacheKey, this.storage.backendFor(location).toLocalFile(location.key));
+    }
+    const localFile = await this.mediaFiles.get(cacheKey);
+    return localFile.path;
+  }
+
   /**
    * Resolve media file path from URL
    */
@@ -330,74 +469,47 @@ class VideoProcessor {
    * Get resolution size string
    */
   getResolutionSize() {
-    const resolutions = {
-      '9:16': '1080x1920',
-      '1:1': '1080x1080',
-      '16:9': '1920x1080'
-    };
-    return resolutions[this.settings.resolution] || '1080x1920';
+    return `${this.encoding.width}x${this.encoding.height}`;
   }
 
   /**
-   * Apply transitions between clips
+   * Composite processed clips onto a black canvas, layer by layer,
+   * joining adjacent clips on a layer with their transitions
    */
-  async applyTransitions(clipPaths) {
-    if (clipPaths.length <= 1) return clipPaths;
-
+  async composeTimeline(clipPaths) {
     await this.onProgress({
-      phase: 'applying_transitions',
-      message: 'Applying transitions between clips'
+      phase: 'compositing',
+      message: 'Compositing layers'
     });
 
-    // For now, simple concatenation with crossfade
-    // In a full implementation, this would process specific transition types
-    const outputPath = path.join(this.tempDir, 'with_transitions.mp4');
+    const outputPath = path.join(this.tempDir, 'composed.mp4');
+    const items = this.timeline.clips.map((clip, i) => ({ clip, path: clipPaths[i] }));
+    const composite = buildCompositeFilter(items.map(item => item.clip), this.transitionPlan, {
+      size: this.getResolutionSize(),
+      frameRate: this.encoding.frameRate,
+      duration: this.getTimelineDuration()
+    });
 
-    return new Promise(async (resolve, reject) => {
-      let command = ffmpeg();
+    return new Promise((resolve, reject) => {
+      let command = ffmpeg()
+        .input(composite.background)
+        .inputFormat('lavfi');
 
-      // Add all input clips
-      clipPaths.forEach(clipPath => {
-        command = command.input(clipPath);
+      items.forEach(item => {
+        command = command.input(item.path);
       });
 
-      // Build complex filter for transitions
-      let filterComplex = '';
-      let lastOutput = '0:v';
-
-      for (let i = 1; i < clipPaths.length; i++) {
-        const currentInput = `${i}:v`;
-        const outputName = `v${i}`;
-        
-        // Find transition settings for this clip
-        const currentClip = this.timeline.clips[i];
-        const transition = currentClip.transitions?.in;
-        
-        if (transition && transition.type !== 'cut') {
-          // Apply transition effect
-          const duration = transition.duration || 0.5;
-          filterComplex += `[${lastOutput}][${currentInput}]xfade=transition=fade:duration=${duration}:offset=0[${outputName}];`;
-        } else {
-          // Simple concatenation
-          filterComplex += `[${lastOutput}][${currentInput}]concat=n=2:v=1:a=0[${outputName}];`;
-        }
-        
-        lastOutput = outputName;
-      }
-
-      // Remove trailing semicolon and set final output
-      filterComplex = filterComplex.slice(0, -1);
-
       command
-        .complexFilter(filterComplex, lastOutput)
+        .complexFilter(composite.filterComplex, composite.outputLabel)
         .videoCodec('libx264')
-        .fps(this.settings.frameRate || 30)
+        .fps(this.encoding.frameRate)
+        .outputOptions([...INTERMEDIATE_VIDEO_OPTIONS, '-pix_fmt yuv420p'])
         .on('start', (cmd) => {
-          log.debug('Applying transitions:', cmd);
+          log.debug('Compositing layers:', cmd);
         })
         .on('error', reject)
         .on('end', () => {
-          log.debug('Transitions applied successfully');
+          log.debug('Layers composited successfully');
           resolve(outputPath);
         })
         .save(outputPath);
@@ -405,38 +517,202 @@ class VideoProcessor {
   }
 
   /**
-   * Apply watermark to final video
+   * Total timeline length in seconds
+   */
+  getTimelineDuration() {
+    const clipEnd = this.timeline.clips.reduce(
+      (max, clip) => Math.max(max, (clip.startTime || 0) + (clip.duration || 0)),
+      0
+    );
+    return this.timeline.duration || clipEnd;
+  }
+
+  /**
+   * Resolve the audio that should be heard in the export: audio tracks and
+   * the sound of video clips, as sources for buildAudioMixFilter
    */
-  async applyWatermark(inputPath, outputPath) {
-    if (!this.watermarkSettings || !this.watermarkSettings.enabled) {
-      // No watermark, just copy file
-      await fsp.copyFile(inputPath, outputPath);
-      return;
+  async resolveAudioSources() {
+    const sources = [];
+    // Same mute/solo rule as the editor preview
+    const muting = resolveAudioMuting(this.timeline.audioTracks || []);
+
+    for (const track of this.timeline.audioTracks || []) {
+      if (muting.trackMuted(track) || !(track.duration > 0) || track.volume === 0) continue;
+
+      const url = (track.mediaFile && track.mediaFile.url) || track.url;
+      if (!url || url.startsWith('blob:')) {
+        log.warn(`Audio track ${track.id} has no server-side source, skipping`);
+        continue;
+      }
+
+      try {
+        const sourcePath = track.mediaFile && track.mediaFile.url
+          ? await this.resolveMediaFile(track.mediaFile)
+          : await this.resolveMediaPath(url);
+        await fsp.access(sourcePath);
+        sources.push({
+          id: track.id,
+          sourcePath,
+          startTime: track.startTime,
+          duration: track.duration,
+          volume: track.volume
+        });
+      } catch (error) {
+        log.warn(`Audio source not found for track ${track.id}: ${error.message}`);
+      }
     }
 
+    for (const clip of muting.clipSoundMuted ? [] : this.timeline.clips) {
+      const media = clip.mediaFile;
+      if (!media || media.type !== 'video' || !media.url || !(clip.duration > 0)) continue;
+
+      try {
+        const sourcePath = await this.resolveMediaFile(media);
+        if (!(await hasAudioStream(sourcePath))) continue;
+        sources.push({
+          id: clip.id,
+          sourcePath,
+          startTime: clip.startTime,
+          duration: clip.duration,
+          trimStart: clip.trimStart,
+          speed: getClipSpeed(clip)
+        });
+      } catch (error) {
+        log.warn(`Audio not available for clip ${clip.id}: ${error.message}`);
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Mix audio tracks and video clip sound at their offsets and mux the result
+   * with the composed video
+   */
+  async mixAudio(videoPath) {
+    if (!this.encoding.includeAudio) return videoPath;
+
+    const sources = await this.resolveAudioSources();
+    const mix = buildAudioMixFilter(sources, this.getTimelineDuration());
+    if (!mix) return videoPath;
+
     await this.onProgress({
-      phase: 'applying_watermark',
-      message: `Applying ${this.watermarkSettings.preset} watermark`
+      phase: 'mixing_audio',
+      message: `Mixing ${sources.length} audio source(s)`
     });
 
-    const watermarkFilter = this.generateWatermarkFilter();
+    const outputPath = path.join(this.tempDir, 'with_audio.mp4');
+    const { audioBitrate } = this.encoding;
 
-    return new Promise(async (resolve, reject) => {
-      ffmpeg(inputPath)
-        .videoFilters(watermarkFilter)
-        .videoCodec('libx264')
+    return new Promise((resolve, reject) => {
+      let command = ffmpeg(videoPath);
+      sources.forEach(source => {
+        command = command.input(source.sourcePath);
+      });
+
+      command
+        .complexFilter(mix.filterComplex)
+        .outputOptions([
+          '-map 0:v:0',
+          `-map [${mix.outputLabel}]`,
+          '-c:v copy',
+          '-c:a aac',
+          `-b:a ${audioBitrate}k`,
+          '-shortest'
+        ])
         .on('start', (cmd) => {
-          log.debug('Applying watermark:', cmd);
+          log.debug('Mixing audio:', cmd);
         })
         .on('error', reject)
         .on('end', () => {
-          log.debug('Watermark applied successfully');
+          log.debug('Audio mixed successfully');
+          resolve(outputPath);
+        })
+        .save(outputPath);
+    });
+  }
+
+  /**
+   * Final encode in the job's container and codecs, applying the watermark
+   */
+  async encodeOutput(inputPath, outputPath) {
+    const { encoding } = this;
+    const watermark = Boolean(this.watermarkSettings && this.watermarkSettings.enabled);
+
+    if (watermark) {
+      await this.onProgress({
+        phase: 'applying_watermark',
+        message: `Applying ${this.watermarkSettings.preset} watermark`
+      });
+    }
+
+    // mixAudio already wrote AAC at the target bitrate
+    const audioOptions = encoding.audioCodec === 'aac'
+      ? ['-c:a copy']
+      : [`-c:a ${encoding.audioCodec}`, ...encoding.audioOptions];
+
+    return new Promise((resolve, reject) => {
+      let command = ffmpeg(inputPath);
+      if (watermark) {
+        command = command.videoFilters(this.generateWatermarkFilter());
+      }
+
+      command
+        .videoCodec(encoding.videoCodec)
+        .outputOptions([...encoding.videoOptions, ...audioOptions, ...encoding.outputOptions])
+        .on('start', (cmd) => {
+          log.debug(`Encoding ${encoding.container}/${encoding.videoCodec}:`, cmd);
+        })
+        .on('error', reject)
+        .on('end', () => {
+          log.debug('Output encoded successfully');
           resolve();
         })
         .save(outputPath);
     });
   }
 
+  /**
+   * Re-encode at a lower bitrate while the output is over the platform's
+   * size limit; fails with FILE_TOO_LARGE after MAX_SIZE_REENCODES tries
+   */
+  async fitPlatformSize(inputPath, outputPath) {
+    if (!this.platform) return;
+    const maxBytes = maxFileSizeBytes(this.platform);
+
+    for (;;) {
+      const { size } = await fsp.stat(outputPath);
+      if (size <= maxBytes) return;
+
+      if (this.reencodes >= MAX_SIZE_REENCODES) {
+        throw new PlatformLimitError(
+          `Output is ${(size / 1024 / 1024).toFixed(1)}MB, over ${this.platform.name}'s ${this.platform.maxFileSize}MB limit`,
+          'FILE_TOO_LARGE'
+        );
+      }
+
+      const videoBitrate = reducedVideoBitrate(this.platform, {
+        size,
+        duration: this.getTimelineDuration(),
+        videoBitrate: this.encoding.videoBitrate,
+        audioBitrate: this.encoding.audioBitrate
+      });
+      this.reencodes++;
+      log.info(`Output ${size} bytes is over ${maxBytes}; re-encoding at ${videoBitrate}kbps`);
+
+      await this.onProgress({
+        phase: 'finalizing',
+        message: `Re-encoding at ${videoBitrate}kbps to fit ${this.platform.name}'s ${this.platform.maxFileSize}MB limit...`
+      });
+
+      this.encoding = resolveEncoding({
+        ...this.settings,
+        quality: { ...this.settings.quality, videoBitrate }
+      });
+      await this.encodeOutput(inputPath, outputPath);
+    }
+  }
+
   /**
    * Generate watermark filter
    */
@@ -473,6 +749,10 @@ class VideoProcessor {
    */
   async process(outputPath) {
     try {
+      // Batch exports: the platform rejects videos outside its duration range
+      const durationError = this.platform && checkPlatformDuration(this.platform, this.getTimelineDuration());
+      if (durationError) throw durationError;
+
       await this.initialize();
 
       // Phase 1: Process individual clips
@@ -481,22 +761,28 @@ class VideoProcessor {
         message: 'Starting video processing...'
       });
 
+      this.transitionPlan = planTransitions(this.timeline.clips);
+
       const processedClipPaths = [];
       for (let i = 0; i < this.timeline.clips.length; i++) {
-        const clipPath = await this.processClip(this.timeline.clips[i], i);
+        const clipPath = await this.processClip(this.timeline.clips[i], i, this.transitionPlan.plan[i].tail);
         processedClipPaths.push(clipPath);
       }
 
-      // Phase 2: Apply transitions
-      const withTransitions = await this.applyTransitions(processedClipPaths);
+      // Phase 2: Composite layers
+      const composed = await this.composeTimeline(processedClipPaths);
+
+      // Phase 3: Mix audio tracks and video clip sound
+      const withAudio = await this.mixAudio(composed);
 
-      // Phase 3: Apply watermark and finalize
+      // Phase 4: Encode the output (with watermark)
       await this.onProgress({
         phase: 'finalizing',
-        message: 'Applying watermark and finalizing...'
+        message: `Encoding ${this.encoding.container.toUpperCase()} output...`
       });
 
-      await this.applyWatermark(withTransitions, outputPath);
+      await this.encodeOutput(withAudio, outputPath);
+      await this.fitPlatformSize(withAudio, outputPath);
 
       await this.onProgress({
         phase: 'complete',
@@ -518,6 +804,11 @@ async function main() {
   const internalKey = required('INTERNAL_API_KEY');
   const queueName = getEnv('EXPORT_QUEUE_NAME', 'video-export');
 
+  // Local storage root is the parent of UPLOADS_DIR, so uploads/ and exports/ sit side by side
+  const storage = new StorageRegistry(process.env, {
+    localRoot: path.dirname(process.env.UPLOADS_DIR || '/app/uploads')
+  });
+
   // Initialize pg-boss
   const boss = new PgBoss({ connectionString, schema: process.env.PGBOSS_SCHEMA || undefined });
   await boss.start();
@@ -566,6 +857,10 @@ async function main() {
       clips: timeline.clips.map(clip => ({
         ...clip,
         mediaFile: mediaFileMap.get(clip.mediaId) || null
+      })),
+      audioTracks: (timeline.audioTracks || []).map(track => ({
+        ...track,
+        mediaFile: mediaFileMap.get(track.mediaId) || null
       }))
     };
     
@@ -582,7 +877,8 @@ async function main() {
       const phaseProgress = {
         initializing: 5,
         processing_clips: 20,
-        applying_transitions: 60,
+        compositing: 60,
+        mixing_audio: 70,
         applying_watermark: 80,
         finalizing: 90,
         complete: 100
@@ -608,70 +904,61 @@ async function main() {
       log.info(`Progress: ${Math.round(progress)}% - ${progressInfo.message}`);
     };
 
+    // Fails the job up front when the settings cannot be encoded
+    const processor = new VideoProcessor(
+      enhancedTimeline,
+      settings,
+      watermarkSettings,
+      reportProgress,
+      storage,
+      exportJob.metadata?.projectSettings || {}
+    );
+    const { encoding } = processor;
+    log.info(`Output: ${encoding.container} ${encoding.videoCodec} ${encoding.width}x${encoding.height}@${encoding.frameRate}`);
+
     // Setup output
     const tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'flickmv-'));
-    const filename = `${sanitizeFilename(exportJob.name || 'FlickMV_Export')}_${Date.now()}.mp4`;
+    const filename = `${sanitizeFilename(exportJob.name || 'FlickMV_Export')}_${Date.now()}.${encoding.extension}`;
     const outputPath = path.join(tmpDir, filename);
 
     // Process video using enhanced pipeline
-    const processor = new VideoProcessor(enhancedTimeline, settings, watermarkSettings, reportProgress);
     await processor.process(outputPath);
 
     // Upload and finalize
     const stats = await fsp.stat(outputPath);
     log.info(`Video rendered: ${stats.size} bytes`);
 
-    // Upload to R2 if configured
-    let downloadUrl = null;
-    let storage = { provider: 'local' };
-    const r2Endpoint = process.env.R2_ENDPOINT;
-    const r2Bucket = process.env.R2_BUCKET;
-    const r2Key = `exports/${String(exportJob.userId)}/${filename}`.replace(/\\/g, '/');
-    const publicBase = process.env.R2_PUBLIC_BASE_URL;
-
-    if (r2Endpoint && r2Bucket && process.env.R2_ACCESS_KEY_ID && process.env.R2_SECRET_ACCESS_KEY) {
-      log.info('Uploading to R2:', r2Bucket, r2Key);
-      
+    // Store the output (local disk or R2/S3, see src/storage)
+    const outputKey = exportKey(String(exportJob.userId), filename);
+    if (storage.primary.provider !== 'local') {
+      log.info('Uploading output:', storage.primary.provider, outputKey);
       await reportProgress({
         phase: 'finalizing',
         message: 'Uploading to cloud storage...'
       });
-
-      const s3 = new S3Client({
-        region: 'auto',
-        endpoint: r2Endpoint,
-        credentials: {
-          accessKeyId: process.env.R2_ACCESS_KEY_ID,
-          secretAccessKey: process.env.R2_SECRET_ACCESS_KEY
-        }
-      });
-
-      const body = fs.createReadStream(outputPath);
-      await s3.send(new PutObjectCommand({
-        Bucket: r2Bucket,
-        Key: r2Key,
-        Body: body,
-        ContentType: 'video/mp4'
-      }));
-
-      if (publicBase) {
-        downloadUrl = `${publicBase.replace(/\/+$/, '')}/${r2Key}`;
-      }
-
-      storage = { provider: 's3', bucket: r2Bucket, key: r2Key };
-      log.info('Upload completed');
     }
+    const outputLocation = await storage.primary.putFile(outputKey, outputPath, { contentType: encoding.mimeType });
+    const downloadUrl = storage.primary.publicUrl(outputKey);
+    log.info('Output stored:', outputLocation.provider, outputLocation.key);
+    const audioMuting = resolveAudioMuting(timeline.audioTracks || []);
 
     // Report completion
     await internalPostJSON(`${internalBase}/export/jobs/${exportJobId}/status`, internalKey, {
       status: 'completed',
       progress: 100,
       output: {
-        url: downloadUrl || `/exports/${String(exportJob.userId)}/${filename}`,
+        url: downloadUrl || `/${outputKey}`,
         filename,
         size: stats.size,
         duration: timeline.duration,
-        storage,
+        storage: outputLocation,
+        ...(processor.platform ? {
+          platform: {
+            id: processor.platform.id,
+            videoBitrate: processor.encoding.videoBitrate,
+            reencodes: processor.reencodes
+          }
+        } : {}),
         watermark: {
           applied: watermarkSettings.enabled,
           preset: watermarkSettings.preset,
@@ -680,7 +967,8 @@ async function main() {
         processing: {
           clips: timeline.clips.length,
           effects: timeline.clips.reduce((sum, clip) => sum + (clip.effects?.length || 0), 0),
-          transitions: timeline.clips.reduce((sum, clip) => sum + (clip.transitions ? Object.keys(clip.transitions).length : 0), 0)
+          transitions: timeline.clips.reduce((sum, clip) => sum + (clip.transitions ? Object.keys(clip.transitions).length : 0), 0),
+          audioTracks: (timeline.audioTracks || []).filter(track => !audioMuting.trackMuted(track)).length
         }
       },
       completedAt: new Date().toISOString()
@@ -710,6 +998,7 @@ async function main() {
         processing: {
           error: {
             message: String(err.message || err),
+            ...(err.code ? { code: err.code } : {}),
             stack: err.stack,
             timestamp: new Date().toISOString()
           }
@@ -783,7 +1072,12 @@ if (typeof fetch !== 'function') {
   global.fetch = require('node-fetch');
 }
 
-main().catch((e) => {
-  console.error('[FATAL]', e && (e.stack || e.message || e));
-  process.exit(1);
-});
\ No newline at end of file
+// Started as the worker process; tests only load the filter builders
+if (require.main === module) {
+  main().catch((e) => {
+    console.error('[FATAL]', e && (e.stack || e.message || e));
+    process.exit(1);
+  });
+}
+
+module.exports = { buildAudioMixFilter, buildCompositeFilter };
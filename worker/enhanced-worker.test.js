@@ -0,0 +1,160 @@
+const { buildAudioMixFilter, buildCompositeFilter } = require('./enhanced-worker');
+const { planTransitions } = require('./dist/render');
+
+const clip = (id, startTime, duration, overrides = {}) => ({
+  id,
+  mediaId: `media-${id}`,
+  startTime,
+  duration,
+  trimStart: 0,
+  layer: 0,
+  ...overrides
+});
+
+const build = (clips, duration) =>
+  buildCompositeFilter(clips, planTransitions(clips), { size: '1080x1920', frameRate: 30, duration });
+
+describe('buildCompositeFilter', () => {
+  it('chains joined clips with xfade at their timeline offsets', () => {
+    const clips = [
+      clip('a', 0, 4),
+      clip('b', 4, 3, { transitions: { in: { type: 'crossfade', duration: 1 } } }),
+      clip('c', 7, 5, { transitions: { in: { type: 'slide', duration: 0.5, parameters: { direction: 'up' } } } }),
+      clip('d', 12, 2, { transitions: { in: { type: 'wipe', duration: 0.5, parameters: { direction: 'right' } } } }),
+      clip('e', 14, 2, { transitions: { in: { type: 'custom', duration: 0.25, parameters: { name: 'circleopen' } } } })
+    ];
+
+    const { background, filterComplex, outputLabel } = build(clips, 16);
+    const parts = filterComplex.split(';');
+
+    expect(background).toBe('color=c=black:s=1080x1920:r=30:d=16');
+    expect(outputLabel).toBe('vout');
+    expect(parts).toEqual(expect.arrayContaining([
+      '[c0][c1]xfade=transition=fade:duration=1:offset=4[x0_0]',
+      '[x0_0][c2]xfade=transition=slideup:duration=0.5:offset=7[x0_1]',
+      '[x0_1][c3]xfade=transition=wiperight:duration=0.5:offset=12[x0_2]',
+      '[x0_2][c4]xfade=transition=circleopen:duration=0.25:offset=14[x0_3]',
+      '[x0_3]setpts=PTS+0/TB[p0]',
+      "[0:v][p0]overlay=eof_action=pass:enable='between(t,0,16)'[l0]",
+      '[l0]format=yuv420p[vout]'
+    ]));
+  });
+
+  it('pads outgoing clips by the transition length', () => {
+    const clips = [
+      clip('a', 0, 4, { transform: { scale: 0.5 } }),
+      clip('b', 4, 4, { transitions: { in: { type: 'crossfade', duration: 1.5 } } })
+    ];
+
+    const { plan } = planTransitions(clips);
+    const { filterComplex } = build(clips, 8);
+
+    expect(plan.map(entry => entry.tail)).toEqual([1.5, 0]);
+    // The transparent canvas for a scaled clip covers the clip and its tail
+    expect(filterComplex).toContain('color=c=black@0:s=1080x1920:r=30:d=5.5,format=yuva420p[t0]');
+  });
+
+  it('keeps cut clips as separate overlays', () => {
+    const clips = [
+      clip('a', 0, 2),
+      clip('b', 2, 3, { transitions: { in: { type: 'cut', duration: 1 } } })
+    ];
+
+    const { filterComplex } = build(clips, 5);
+
+    expect(filterComplex).not.toContain('xfade');
+    expect(filterComplex).toContain("[0:v][p0]overlay=eof_action=pass:enable='between(t,0,2)'[l0]");
+    expect(filterComplex).toContain('[c1]setpts=PTS+2/TB[p1]');
+    expect(filterComplex).toContain("[l0][p1]overlay=eof_action=pass:enable='between(t,2,5)'[l1]");
+  });
+
+  it('fades unjoined transitions against the layers below', () => {
+    const clips = [
+      clip('a', 0, 6),
+      clip('title', 1, 3, {
+        layer: 1,
+        transitions: { in: { type: 'crossfade', duration: 0.5 }, out: { type: 'slide', duration: 1 } }
+      })
+    ];
+
+    const { filterComplex } = build(clips, 6);
+
+    expect(filterComplex).toContain(
+      '[2:v]fps=30,settb=AVTB,setpts=PTS-STARTPTS,format=yuva420p,' +
+      'fade=t=in:st=0:d=0.5:alpha=1,fade=t=out:st=2:d=1:alpha=1[c1]'
+    );
+    // Higher layers are overlaid last
+    expect(filterComplex.indexOf('[p1]')).toBeGreaterThan(filterComplex.indexOf('[p0]'));
+  });
+});
+
+describe('buildAudioMixFilter', () => {
+  const source = (id, startTime, duration, overrides = {}) => ({
+    id,
+    sourcePath: `/media/${id}`,
+    startTime,
+    duration,
+    ...overrides
+  });
+
+  it('returns null without sources', () => {
+    expect(buildAudioMixFilter([], 10)).toBeNull();
+  });
+
+  it('delays each source to its timeline offset and mixes them', () => {
+    const { filterComplex, outputLabel } = buildAudioMixFilter([
+      source('song', 0, 10),
+      source('voice', 2.5, 3)
+    ], 10);
+    const parts = filterComplex.split(';');
+
+    expect(outputLabel).toBe('aout');
+    expect(parts).toEqual([
+      '[1:a]atrim=0:10,asetpts=PTS-STARTPTS,aformat=sample_rates=48000:channel_layouts=stereo,' +
+        'volume=1,adelay=0|0[a0]',
+      '[2:a]atrim=0:3,asetpts=PTS-STARTPTS,aformat=sample_rates=48000:channel_layouts=stereo,' +
+        'volume=1,adelay=2500|2500[a1]',
+      '[a0][a1]amix=inputs=2:duration=longest:dropout_transition=0:normalize=0,' +
+        'apad=whole_dur=10,atrim=0:10[aout]'
+    ]);
+  });
+
+  it('applies the source volume and never a negative one', () => {
+    const { filterComplex } = buildAudioMixFilter([
+      source('song', 0, 4, { volume: 0.35 }),
+      source('sfx', 1, 1, { volume: -1 })
+    ], 4);
+
+    expect(filterComplex).toContain('volume=0.35,adelay=0|0[a0]');
+    expect(filterComplex).toContain('volume=0,adelay=1000|1000[a1]');
+  });
+
+  it('passes a single source through without amix', () => {
+    const { filterComplex } = buildAudioMixFilter([source('song', 1, 4)], 8);
+
+    expect(filterComplex).not.toContain('amix');
+    expect(filterComplex.split(';')[1]).toBe('[a0]anull,apad=whole_dur=8,atrim=0:8[aout]');
+  });
+
+  it('pads and trims the mix to the timeline length', () => {
+    const { filterComplex } = buildAudioMixFilter([source('song', 0, 30)], 12.5);
+
+    expect(filterComplex).toMatch(/,apad=whole_dur=12\.5,atrim=0:12\.5\[aout\]$/);
+  });
+
+  it('trims video clip sound from its source offset at the clip speed', () => {
+    const { filterComplex } = buildAudioMixFilter([
+      source('clip', 4, 3, { trimStart: 1.5, speed: 2 }),
+      source('slow', 7, 2, { speed: 0.25 })
+    ], 9);
+    const [clipSound, slowSound] = filterComplex.split(';');
+
+    // 3s on the timeline at 2x reads 6s of the source
+    expect(clipSound).toBe(
+      '[1:a]atrim=1.5:7.5,asetpts=PTS-STARTPTS,atempo=2,' +
+      'aformat=sample_rates=48000:channel_layouts=stereo,volume=1,adelay=4000|4000[a0]'
+    );
+    // atempo goes down to 0.5 per instance
+    expect(slowSound).toContain('atrim=0:0.5,asetpts=PTS-STARTPTS,atempo=0.5,atempo=0.5,');
+  });
+});
@@ -0,0 +1,148 @@
+import { computeOnsetEnvelope, estimateBeatPeriods, trackBeats, type BeatTrackingResult } from './index';
+
+const SAMPLE_RATE = 22050;
+const TOLERANCE = 0.03; // seconds; the onset envelope has ~12ms frames
+
+interface Click {
+  time: number;
+  downbeat: boolean;
+}
+
+// Clicks at `bpm` from `from` to `to` seconds, every `meter`-th one a downbeat
+const clicks = (bpm: number, from: number, to: number, meter: number, firstIndex = 0): Click[] => {
+  const result: Click[] = [];
+  for (let i = 0; from + (i * 60) / bpm < to; i++) {
+    result.push({ time: from + (i * 60) / bpm, downbeat: (firstIndex + i) % meter === 0 });
+  }
+  return result;
+};
+
+/**
+ * Synthetic click track: a high click on every beat, with a low thump on
+ * downbeats so the bar accents sit in the kick range
+ */
+const render = (track: Click[], duration: number): Float32Array => {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  const length = Math.round(0.08 * SAMPLE_RATE);
+  track.forEach(({ time, downbeat }) => {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      const t = i / SAMPLE_RATE;
+      const click = 0.5 * Math.sin(2 * Math.PI * 1500 * t);
+      const thump = downbeat ? 0.9 * Math.sin(2 * Math.PI * 80 * t) : 0;
+      samples[start + i] = samples[start + i]! + Math.exp(-60 * t) * (click + thump);
+    }
+  });
+  return samples;
+};
+
+const nearest = (times: number[], time: number) =>
+  Math.min(...times.map(candidate => Math.abs(candidate - time)));
+
+// Every detected beat lies on a click and (almost) every click is detected
+const expectBeatsOnClicks = (beats: number[], track: Click[]) => {
+  const truth = track.map(click => click.time);
+  beats.forEach(beat => expect(nearest(truth, beat)).toBeLessThan(TOLERANCE));
+  expect(beats.length).toBeGreaterThanOrEqual(truth.length - 2);
+};
+
+describe('trackBeats', () => {
+  describe('at a steady 120 BPM in 4/4', () => {
+    const track = clicks(120, 0.5, 12, 4);
+    let result: BeatTrackingResult;
+
+    beforeAll(() => {
+      result = trackBeats(render(track, 12), SAMPLE_RATE);
+    });
+
+    it('finds the tempo', () => {
+      expect(result.tempoMap.bpm).toBeCloseTo(120, 0);
+      expect(result.tempoMap.segments).toHaveLength(1);
+      expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    it('places the beats on the clicks', () => {
+      expectBeatsOnClicks(result.tempoMap.beats, track);
+    });
+
+    it('finds the meter and the downbeat phase', () => {
+      const downbeats = track.filter(click => click.downbeat).map(click => click.time);
+
+      expect(result.tempoMap.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+      expect(result.tempoMap.downbeats.length).toBeGreaterThanOrEqual(downbeats.length - 1);
+      result.tempoMap.downbeats.forEach(time => expect(nearest(downbeats, time)).toBeLessThan(TOLERANCE));
+    });
+  });
+
+  describe('at 100 BPM in 3/4', () => {
+    const track = clicks(100, 0.3, 12, 3);
+    let result: BeatTrackingResult;
+
+    beforeAll(() => {
+      result = trackBeats(render(track, 12), SAMPLE_RATE);
+    });
+
+    it('finds the tempo and places the beats on the clicks', () => {
+      expect(result.tempoMap.bpm).toBeCloseTo(100, 0);
+      expectBeatsOnClicks(result.tempoMap.beats, track);
+    });
+
+    it('detects three beats to the bar from the accents', () => {
+      const downbeats = track.filter(click => click.downbeat).map(click => click.time);
+
+      expect(result.tempoMap.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+      expect(result.tempoMap.downbeats[0]).toBeCloseTo(downbeats[0]!, 1);
+      result.tempoMap.downbeats.forEach(time => expect(nearest(downbeats, time)).toBeLessThan(TOLERANCE));
+    });
+  });
+
+  describe('with a tempo change from 100 to 130 BPM', () => {
+    const slow = clicks(100, 0.5, 10.5, 4);
+    const changeAt = slow[slow.length - 1]!.time + 0.6;
+    const fast = clicks(130, changeAt, 21, 4, slow.length);
+    const track = [...slow, ...fast];
+    let result: BeatTrackingResult;
+
+    beforeAll(() => {
+      result = trackBeats(render(track, 21), SAMPLE_RATE);
+    });
+
+    it('splits the beats into a segment per tempo', () => {
+      const { segments } = result.tempoMap;
+
+      expect(segments.length).toBeGreaterThanOrEqual(2);
+      expect(segments[0]!.bpm).toBeCloseTo(100, 0);
+      expect(segments[segments.length - 1]!.bpm).toBeGreaterThan(128);
+      expect(segments[segments.length - 1]!.bpm).toBeLessThan(132);
+      expect(Math.abs(segments[segments.length - 1]!.start - changeAt)).toBeLessThan(2.5);
+    });
+
+    it('keeps the beats on the clicks away from the change', () => {
+      const steady = result.tempoMap.beats.filter(beat => Math.abs(beat - changeAt) > 2.5);
+      const truth = track.map(click => click.time);
+
+      expect(steady.length).toBeGreaterThan(20);
+      steady.forEach(beat => expect(nearest(truth, beat)).toBeLessThan(TOLERANCE));
+    });
+  });
+
+  it('reports progress up to 1', () => {
+    const progress: number[] = [];
+
+    trackBeats(render(clicks(120, 0.5, 4, 4), 4), SAMPLE_RATE, { onProgress: p => progress.push(p) });
+
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+});
+
+describe('estimateBeatPeriods', () => {
+  it('finds the beat period of a click track for every frame', () => {
+    const envelope = computeOnsetEnvelope(render(clicks(140, 0.5, 8, 4), 8), SAMPLE_RATE);
+
+    const periods = estimateBeatPeriods(envelope.strength, envelope.frameRate, 60, 200);
+
+    expect(periods).toHaveLength(envelope.strength.length);
+    periods.forEach(period => expect((60 * envelope.frameRate) / period).toBeCloseTo(140, -1));
+  });
+});
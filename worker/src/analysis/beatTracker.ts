@@ -0,0 +1,256 @@
+import { computeOnsetEnvelope, type OnsetEnvelope } from './onset';
+import { estimateBeatPeriods } from './tempo';
+import type { BeatTrackerOptions, BeatTrackingResult, TempoSegment, TimeSignature } from './types';
+
+const DEFAULT_MIN_BPM = 60;
+const DEFAULT_MAX_BPM = 200;
+const TIGHTNESS = 100; // how strongly beat spacing sticks to the local period
+const TEMPO_CHANGE = 0.04; // relative change that starts a new tempo segment...
+const TEMPO_CHANGE_BEATS = 4; // ...when it holds for this many beats
+const METERS = [4, 3];
+
+/**
+ * Dynamic-programming beat tracker (Ellis 2007) with a per-frame beat period,
+ * returns beat frame indices
+ */
+function trackBeatFrames(strength: Float32Array, periods: Float32Array): number[] {
+  const n = strength.length;
+  if (n === 0) return [];
+
+  const score = new Float32Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+
+  for (let t = 0; t < n; t++) {
+    const period = periods[t]!;
+    const from = Math.max(0, Math.round(t - 2 * period));
+    const to = t - Math.round(period / 2);
+    let best = -Infinity;
+    for (let prev = from; prev <= to; prev++) {
+      const deviation = Math.log((t - prev) / period);
+      const value = score[prev]! - TIGHTNESS * deviation * deviation;
+      if (value > best) {
+        best = value;
+        backlink[t] = prev;
+      }
+    }
+    // Start a new chain rather than inherit a penalty
+    if (best < 0) {
+      best = 0;
+      backlink[t] = -1;
+    }
+    score[t] = strength[t]! + best;
+  }
+
+  // Last beat: the latest local maximum of the score that is clearly above the rest
+  const maxima: number[] = [];
+  for (let t = 1; t < n - 1; t++) {
+    if (score[t]! > score[t - 1]! && score[t]! >= score[t + 1]!) maxima.push(t);
+  }
+  if (maxima.length === 0) return [];
+  const sorted = maxima.map(t => score[t]!).sort((a, b) => a - b);
+  const threshold = 0.5 * sorted[Math.floor(sorted.length / 2)]!;
+  let last = maxima[maxima.length - 1]!;
+  for (let i = maxima.length - 1; i >= 0; i--) {
+    if (score[maxima[i]!]! > threshold) {
+      last = maxima[i]!;
+      break;
+    }
+  }
+
+  const frames: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]!) frames.unshift(t);
+  return trimWeakBeats(frames, strength);
+}
+
+function peakNear(values: Float32Array, frame: number, radius = 2): number {
+  let peak = 0;
+  for (let i = Math.max(0, frame - radius); i <= Math.min(values.length - 1, frame + radius); i++) {
+    peak = Math.max(peak, values[i]!);
+  }
+  return peak;
+}
+
+// Drop beats the tracker extrapolated into silence at either end
+function trimWeakBeats(frames: number[], strength: Float32Array): number[] {
+  const peaks = frames.map(frame => peakNear(strength, frame));
+  const sorted = [...peaks].sort((a, b) => a - b);
+  const floor = 0.3 * (sorted[Math.floor(sorted.length / 2)] || 0);
+  let start = 0;
+  let end = frames.length;
+  while (start < end && peaks[start]! <= floor) start++;
+  while (end > start && peaks[end - 1]! <= floor) end--;
+  return frames.slice(start, end);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)]! : 0;
+}
+
+function roundBPM(bpm: number): number {
+  return Math.round(bpm * 10) / 10;
+}
+
+/**
+ * Split beats into constant-tempo segments. A segment ends when the local tempo
+ * moves more than TEMPO_CHANGE away from it for TEMPO_CHANGE_BEATS beats.
+ */
+function buildSegments(beats: number[]): TempoSegment[] {
+  if (beats.length < 2) return beats.length === 1 ? [{ start: beats[0]!, bpm: 0, beatIndex: 0 }] : [];
+
+  // Local tempo before each beat, median-filtered over 5 intervals
+  const intervals = beats.slice(1).map((time, i) => time - beats[i]!);
+  const local = intervals.map((_, i) => 60 / median(intervals.slice(Math.max(0, i - 2), i + 3)));
+
+  const starts = [0];
+  let reference = local[0]!;
+  let run = 0;
+  for (let i = 1; i < local.length; i++) {
+    if (Math.abs(local[i]! - reference) / reference > TEMPO_CHANGE) {
+      run++;
+      if (run >= TEMPO_CHANGE_BEATS) {
+        const start = i - run + 1;
+        starts.push(start);
+        reference = median(local.slice(start, i + 1));
+        run = 0;
+      }
+    } else {
+      run = 0;
+    }
+  }
+
+  return starts.map((beatIndex, s) => {
+    const endIndex = s + 1 < starts.length ? starts[s + 1]! : beats.length - 1;
+    const span = beats[endIndex]! - beats[beatIndex]!;
+    const count = endIndex - beatIndex;
+    return {
+      start: beats[beatIndex]!,
+      bpm: roundBPM(count > 0 && span > 0 ? (60 * count) / span : local[beatIndex] || 0),
+      beatIndex
+    };
+  });
+}
+
+function barContrast(accents: number[], numerator: number, phase: number): number {
+  let on = 0;
+  let onCount = 0;
+  let off = 0;
+  let offCount = 0;
+  accents.forEach((accent, i) => {
+    if ((i - phase) % numerator === 0) {
+      on += accent;
+      onCount++;
+    } else {
+      off += accent;
+      offCount++;
+    }
+  });
+  const onMean = on / Math.max(1, onCount);
+  const offMean = off / Math.max(1, offCount);
+  return (onMean - offMean) / Math.max(1e-6, onMean + offMean);
+}
+
+function bestPhase(accents: number[], numerator: number): { phase: number; contrast: number } {
+  let best = { phase: 0, contrast: -Infinity };
+  for (let phase = 0; phase < numerator; phase++) {
+    const contrast = barContrast(accents, numerator, phase);
+    if (contrast > best.contrast) best = { phase, contrast };
+  }
+  return best;
+}
+
+/**
+ * Time signature and downbeats. The meter is the beat grouping whose first beats
+ * carry the strongest (mostly low-band) accents relative to the other beats,
+ * 4/4 winning ties. The bar phase is chosen again in every tempo segment, since
+ * beats around a tempo change can be dropped or doubled.
+ */
+function detectBars(
+  beatFrames: number[],
+  segments: TempoSegment[],
+  envelope: OnsetEnvelope
+): { timeSignature: TimeSignature; downbeatIndices: number[] } {
+  const accents = beatFrames.map(frame =>
+    peakNear(envelope.lowStrength, frame) + 0.5 * peakNear(envelope.strength, frame)
+  );
+
+  let numerator = 4;
+  let bestContrast = -Infinity;
+  METERS.forEach(meter => {
+    if (accents.length < meter * 2) return;
+    const contrast = bestPhase(accents, meter).contrast - (meter === 4 ? 0 : 0.02);
+    if (contrast > bestContrast) {
+      bestContrast = contrast;
+      numerator = meter;
+    }
+  });
+
+  const downbeatIndices: number[] = [];
+  let phase = bestPhase(accents, numerator).phase;
+  segments.forEach((segment, s) => {
+    const end = s + 1 < segments.length ? segments[s + 1]!.beatIndex : accents.length;
+    const segmentAccents = accents.slice(segment.beatIndex, end);
+    // Short segments continue the previous bar grid
+    if (segmentAccents.length >= numerator * 2) {
+      phase = segment.beatIndex + bestPhase(segmentAccents, numerator).phase;
+    }
+    for (let i = segment.beatIndex; i < end; i++) {
+      if (i >= phase && (i - phase) % numerator === 0) downbeatIndices.push(i);
+    }
+  });
+
+  return { timeSignature: { numerator, denominator: 4 }, downbeatIndices };
+}
+
+function estimateConfidence(beatFrames: number[], strength: Float32Array, beats: number[]): number {
+  if (beatFrames.length < 4) return 0.1;
+
+  // Onsets land on the beats...
+  const onBeat = beatFrames.reduce((sum, frame) => sum + peakNear(strength, frame), 0) / beatFrames.length;
+  const salience = Math.min(1, onBeat / 3);
+
+  // ...and the beats are evenly spaced
+  const intervals = beats.slice(1).map((time, i) => time - beats[i]!);
+  const typical = median(intervals);
+  const steady = intervals.filter(interval => Math.abs(interval - typical) <= typical * 0.1).length / intervals.length;
+
+  return Math.min(0.95, Math.max(0.1, salience * 0.6 + steady * 0.4));
+}
+
+/**
+ * Track beats, tempo changes, downbeats and the time signature in mono PCM
+ */
+export function trackBeats(
+  samples: Float32Array,
+  sampleRate: number,
+  options: BeatTrackerOptions = {}
+): BeatTrackingResult {
+  const { minBPM = DEFAULT_MIN_BPM, maxBPM = DEFAULT_MAX_BPM, onProgress } = options;
+
+  const envelope = computeOnsetEnvelope(samples, sampleRate, onProgress && (p => onProgress(p * 0.8)));
+  const periods = estimateBeatPeriods(envelope.strength, envelope.frameRate, minBPM, maxBPM);
+  onProgress?.(0.9);
+
+  const beatFrames = trackBeatFrames(envelope.strength, periods);
+  const beats = beatFrames.map(frame => Math.round((frame / envelope.frameRate + envelope.frameOffset) * 1000) / 1000);
+  const segments = buildSegments(beats);
+  const { timeSignature, downbeatIndices } = detectBars(beatFrames, segments, envelope);
+  const downbeats = downbeatIndices.map(i => beats[i]!);
+
+  // Dominant tempo: the segment covering the most time
+  let bpm = 0;
+  let longest = -1;
+  segments.forEach((segment, i) => {
+    const end = i + 1 < segments.length ? segments[i + 1]!.start : beats[beats.length - 1]!;
+    if (end - segment.start > longest) {
+      longest = end - segment.start;
+      bpm = segment.bpm;
+    }
+  });
+
+  onProgress?.(1);
+  return {
+    tempoMap: { bpm, beats, downbeats, segments, timeSignature },
+    confidence: estimateConfidence(beatFrames, envelope.strength, beats)
+  };
+}
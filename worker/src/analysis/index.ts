@@ -0,0 +1,10 @@
+/**
+ * Offline beat tracking shared by the server, the editor and its Web Workers.
+ * Works on plain PCM arrays (no Web Audio or Node APIs), and produces a tempo
+ * map with beats, tempo segments, downbeats and the time signature.
+ */
+export * from './types';
+export * from './onset';
+export * from './tempo';
+export * from './beatTracker';
+export * from './tempoMap';
@@ -0,0 +1,145 @@
+/**
+ * Onset strength envelope (log-magnitude spectral flux).
+ * Audio is mixed to mono and decimated to about 22.05 kHz first, so results do
+ * not depend on the source sample rate.
+ */
+
+export const ANALYSIS_SAMPLE_RATE = 22050;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 256;
+const LOW_BAND_HZ = 150; // kick / bass range used for bar accents
+
+export interface OnsetEnvelope {
+  frameRate: number; // envelope frames per second
+  frameOffset: number; // seconds from a frame index to the time it represents
+  strength: Float32Array; // full-band onset strength, normalized to unit deviation
+  lowStrength: Float32Array; // low-band onset strength, same scale
+}
+
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  const length = channels[0]?.length || 0;
+  const mono = new Float32Array(length);
+  channels.forEach(data => {
+    for (let i = 0; i < length; i++) mono[i] = mono[i]! + (data[i] || 0) / channels.length;
+  });
+  return mono;
+}
+
+function decimate(samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_SAMPLE_RATE));
+  if (factor === 1) return { samples, sampleRate };
+
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j]!;
+    output[i] = sum / factor;
+  }
+  return { samples: output, sampleRate: sampleRate / factor };
+}
+
+// Radix-2 in-place FFT
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j]!, real[i]!];
+      [imag[i], imag[j]] = [imag[j]!, imag[i]!];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b]! * cos - imag[b]! * sin;
+        const ti = real[b]! * sin + imag[b]! * cos;
+        real[b] = real[a]! - tr;
+        imag[b] = imag[a]! - ti;
+        real[a] = real[a]! + tr;
+        imag[a] = imag[a]! + ti;
+      }
+    }
+  }
+}
+
+// Remove the local mean (about one second), keep the positive part and scale to unit deviation
+function normalize(values: Float32Array, radius: number): Float32Array {
+  const output = new Float32Array(values.length);
+  const prefix = new Float64Array(values.length + 1);
+  for (let i = 0; i < values.length; i++) prefix[i + 1] = prefix[i]! + values[i]!;
+
+  for (let i = 0; i < values.length; i++) {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(values.length, i + radius + 1);
+    const mean = (prefix[to]! - prefix[from]!) / (to - from);
+    output[i] = Math.max(0, values[i]! - mean);
+  }
+
+  let sumSquares = 0;
+  for (let i = 0; i < output.length; i++) sumSquares += output[i]! * output[i]!;
+  const deviation = Math.sqrt(sumSquares / Math.max(1, output.length));
+  if (deviation > 0) {
+    for (let i = 0; i < output.length; i++) output[i] = output[i]! / deviation;
+  }
+  return output;
+}
+
+export function computeOnsetEnvelope(
+  input: Float32Array,
+  inputSampleRate: number,
+  onProgress?: (progress: number) => void
+): OnsetEnvelope {
+  const { samples, sampleRate } = decimate(input, inputSampleRate);
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const bins = FRAME_SIZE / 2;
+  const lowBins = Math.max(2, Math.round(LOW_BAND_HZ / (sampleRate / FRAME_SIZE)));
+
+  const hann = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+  const previous = new Float32Array(bins);
+  const flux = new Float32Array(frameCount);
+  const lowFlux = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i]! * hann[i]!;
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    let total = 0;
+    let low = 0;
+    for (let k = 1; k < bins; k++) {
+      const magnitude = Math.log1p(1000 * Math.sqrt(real[k]! * real[k]! + imag[k]! * imag[k]!));
+      const rise = frame > 0 ? Math.max(0, magnitude - previous[k]!) : 0;
+      previous[k] = magnitude;
+      total += rise;
+      if (k < lowBins) low += rise;
+    }
+    flux[frame] = total;
+    lowFlux[frame] = low;
+
+    if (onProgress && frame % 512 === 0) onProgress(frame / frameCount);
+  }
+
+  const frameRate = sampleRate / HOP_SIZE;
+  const radius = Math.round(frameRate / 2);
+  return {
+    frameRate,
+    frameOffset: FRAME_SIZE / 2 / sampleRate,
+    strength: normalize(flux, radius),
+    lowStrength: normalize(lowFlux, radius)
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Local tempo estimation.
+ * The onset envelope is autocorrelated in overlapping windows (a tempogram) and
+ * a Viterbi pass picks one beat period per window, penalizing tempo jumps so
+ * the path follows gradual drift and only switches for sustained changes.
+ */
+
+const WINDOW_SECONDS = 8;
+const STEP_SECONDS = 2;
+const PRIOR_BPM = 120; // log-normal prior against octave errors
+const PRIOR_OCTAVES = 1;
+const JUMP_PENALTY = 3; // per octave of period change between windows
+
+function autocorrelate(strength: Float32Array, from: number, to: number, maxLag: number): Float32Array {
+  const result = new Float32Array(maxLag + 1);
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    let count = 0;
+    for (let i = from; i < to && i + lag < strength.length; i++) {
+      sum += strength[i]! * strength[i + lag]!;
+      count++;
+    }
+    result[lag] = count > 0 ? sum / count : 0;
+  }
+  return result;
+}
+
+/**
+ * Beat period (in envelope frames) for every frame of `strength`
+ */
+export function estimateBeatPeriods(
+  strength: Float32Array,
+  frameRate: number,
+  minBPM: number,
+  maxBPM: number
+): Float32Array {
+  const minLag = Math.max(1, Math.round((60 * frameRate) / maxBPM));
+  const maxLag = Math.max(minLag, Math.round((60 * frameRate) / minBPM));
+  const lags: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) lags.push(lag);
+
+  const windowFrames = Math.round(WINDOW_SECONDS * frameRate);
+  const stepFrames = Math.round(STEP_SECONDS * frameRate);
+  const windowStarts: number[] = [];
+  for (let start = 0; start === 0 || start + windowFrames / 2 < strength.length; start += stepFrames) {
+    windowStarts.push(start);
+  }
+
+  const prior = lags.map(lag => {
+    const octaves = Math.log2((60 * frameRate) / lag / PRIOR_BPM) / PRIOR_OCTAVES;
+    return Math.exp(-0.5 * octaves * octaves);
+  });
+
+  // Tempogram rows, normalized so each window's best lag scores 1
+  const emissions = windowStarts.map(start => {
+    const ac = autocorrelate(strength, start, start + windowFrames, maxLag * 2);
+    const row = lags.map((lag, i) => (ac[lag]! + 0.5 * (ac[lag * 2] || 0)) * prior[i]!);
+    const best = Math.max(...row);
+    return best > 0 ? row.map(value => value / best) : row.map(() => 0);
+  });
+
+  // Viterbi over lags
+  const jump = lags.map(a => lags.map(b => JUMP_PENALTY * Math.abs(Math.log2(a / b))));
+  let scores = emissions[0]!.slice();
+  const backlinks: number[][] = [];
+  for (let w = 1; w < emissions.length; w++) {
+    const links: number[] = [];
+    scores = lags.map((_, i) => {
+      let best = -Infinity;
+      let link = 0;
+      scores.forEach((score, j) => {
+        const value = score - jump[j]![i]!;
+        if (value > best) {
+          best = value;
+          link = j;
+        }
+      });
+      links.push(link);
+      return best + emissions[w]![i]!;
+    });
+    backlinks.push(links);
+  }
+
+  const path = new Array<number>(emissions.length);
+  path[path.length - 1] = scores.indexOf(Math.max(...scores));
+  for (let w = path.length - 1; w > 0; w--) path[w - 1] = backlinks[w - 1]![path[w]!]!;
+
+  // Interpolate between window centers
+  const centers = windowStarts.map(start => Math.min(strength.length - 1, start + windowFrames / 2));
+  const periods = new Float32Array(strength.length);
+  for (let frame = 0, w = 0; frame < strength.length; frame++) {
+    while (w < centers.length - 1 && frame > centers[w + 1]!) w++;
+    const from = lags[path[w]!]!;
+    const to = lags[path[Math.min(w + 1, path.length - 1)]!]!;
+    const span = (centers[w + 1] ?? centers[w]!) - centers[w]!;
+    const p = span > 0 ? Math.min(1, Math.max(0, (frame - centers[w]!) / span)) : 0;
+    periods[frame] = from + (to - from) * p;
+  }
+  return periods;
+}
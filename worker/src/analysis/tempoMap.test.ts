@@ -0,0 +1,99 @@
+import {
+  beatPositionAt,
+  createConstantTempoMap,
+  getBeatGridTimes,
+  snapToBeatGrid,
+  tempoAt,
+  timeAtBeatPosition
+} from './tempoMap';
+import type { TempoMap } from './types';
+
+// Four beats at 120 BPM from 1s, then four at 60 BPM (3/4)
+const changingMap = (): TempoMap => ({
+  bpm: 60,
+  beats: [1, 1.5, 2, 2.5, 3.5, 4.5, 5.5],
+  downbeats: [1, 2.5, 5.5],
+  segments: [
+    { start: 1, bpm: 120, beatIndex: 0 },
+    { start: 2.5, bpm: 60, beatIndex: 3 }
+  ],
+  timeSignature: { numerator: 3, denominator: 4 }
+});
+
+describe('createConstantTempoMap', () => {
+  it('spaces beats evenly from the offset with a downbeat every bar', () => {
+    const map = createConstantTempoMap(120, 4, 0.25, 3);
+
+    expect(map.beats).toEqual([0.25, 0.75, 1.25, 1.75, 2.25, 2.75, 3.25, 3.75]);
+    expect(map.downbeats).toEqual([0.25, 1.75, 3.25]);
+    expect(map.segments).toEqual([{ start: 0.25, bpm: 120, beatIndex: 0 }]);
+    expect(map.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+  });
+});
+
+describe('tempoAt', () => {
+  it('uses the segment the time falls in and the first one before it', () => {
+    const map = changingMap();
+
+    expect(tempoAt(map, 0)).toBe(120);
+    expect(tempoAt(map, 2)).toBe(120);
+    expect(tempoAt(map, 3)).toBe(60);
+  });
+});
+
+describe('beatPositionAt / timeAtBeatPosition', () => {
+  it('is linear between detected beats', () => {
+    const map = changingMap();
+
+    expect(beatPositionAt(map, 1.25)).toBeCloseTo(0.5);
+    expect(beatPositionAt(map, 3)).toBeCloseTo(3.5);
+    expect(timeAtBeatPosition(map, 3.5)).toBeCloseTo(3);
+  });
+
+  it('extrapolates with the edge tempo outside the detected beats', () => {
+    const map = changingMap();
+
+    expect(beatPositionAt(map, 0)).toBeCloseTo(-2);
+    expect(beatPositionAt(map, 7.5)).toBeCloseTo(8);
+    expect(timeAtBeatPosition(map, -2)).toBeCloseTo(0);
+    expect(timeAtBeatPosition(map, 8)).toBeCloseTo(7.5);
+  });
+
+  it('round-trips across the tempo change', () => {
+    const map = changingMap();
+
+    [0, 0.8, 1.7, 2.5, 3.1, 5.5, 6.2].forEach(time => {
+      expect(timeAtBeatPosition(map, beatPositionAt(map, time))).toBeCloseTo(time);
+    });
+  });
+
+  it('falls back to the tempo without beats', () => {
+    const map = { ...createConstantTempoMap(90, 0), beats: [] };
+
+    expect(beatPositionAt(map, 2)).toBeCloseTo(3);
+    expect(timeAtBeatPosition(map, 3)).toBeCloseTo(2);
+  });
+});
+
+describe('getBeatGridTimes', () => {
+  it('follows the tempo map, including the part before the first beat', () => {
+    expect(getBeatGridTimes(changingMap(), 1, 5)).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3.5, 4.5]);
+  });
+
+  it('subdivides each beat', () => {
+    expect(getBeatGridTimes(changingMap(), 2, 4)).toEqual([
+      0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.25, 2.5, 3, 3.5, 4
+    ]);
+  });
+});
+
+describe('snapToBeatGrid', () => {
+  it('snaps to the nearest grid time at the local tempo', () => {
+    const map = changingMap();
+
+    expect(snapToBeatGrid(map, 1.2, 1)).toBeCloseTo(1);
+    expect(snapToBeatGrid(map, 1.2, 4)).toBeCloseTo(1.25);
+    expect(snapToBeatGrid(map, 3.2, 1)).toBeCloseTo(3.5);
+    expect(snapToBeatGrid(map, 3.2, 2)).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,91 @@
+import type { TempoMap, TempoSegment } from './types';
+
+/**
+ * Evenly spaced tempo map, for audio that has no beat analysis yet
+ */
+export function createConstantTempoMap(bpm: number, duration: number, offset = 0, beatsPerBar = 4): TempoMap {
+  const interval = 60 / bpm;
+  const beats: number[] = [];
+  for (let time = offset; time <= duration; time += interval) beats.push(Math.round(time * 1000) / 1000);
+  return {
+    bpm,
+    beats,
+    downbeats: beats.filter((_, i) => i % beatsPerBar === 0),
+    segments: [{ start: beats[0] ?? offset, bpm, beatIndex: 0 }],
+    timeSignature: { numerator: beatsPerBar, denominator: 4 }
+  };
+}
+
+function segmentAt(map: TempoMap, time: number): TempoSegment | undefined {
+  let current = map.segments[0];
+  map.segments.forEach(segment => {
+    if (segment.start <= time) current = segment;
+  });
+  return current;
+}
+
+export function tempoAt(map: TempoMap, time: number): number {
+  return segmentAt(map, time)?.bpm || map.bpm;
+}
+
+/**
+ * Fractional beat index at `time` (0 = first beat). Between detected beats the
+ * position is linear; outside them it is extrapolated with the edge tempo.
+ */
+export function beatPositionAt(map: TempoMap, time: number): number {
+  const { beats } = map;
+  if (beats.length === 0) return (time * map.bpm) / 60;
+
+  const first = beats[0]!;
+  const last = beats[beats.length - 1]!;
+  if (time <= first) return ((time - first) * tempoAt(map, first)) / 60;
+  if (time >= last) return beats.length - 1 + ((time - last) * tempoAt(map, last)) / 60;
+
+  let low = 0;
+  let high = beats.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (beats[middle]! <= time) low = middle;
+    else high = middle;
+  }
+  return low + (time - beats[low]!) / (beats[high]! - beats[low]!);
+}
+
+/**
+ * Inverse of beatPositionAt()
+ */
+export function timeAtBeatPosition(map: TempoMap, position: number): number {
+  const { beats } = map;
+  if (beats.length === 0) return (position * 60) / map.bpm;
+
+  const first = beats[0]!;
+  const last = beats[beats.length - 1]!;
+  if (position <= 0) return first + (position * 60) / tempoAt(map, first);
+  if (position >= beats.length - 1) return last + ((position - beats.length + 1) * 60) / tempoAt(map, last);
+
+  const index = Math.floor(position);
+  return beats[index]! + (position - index) * (beats[index + 1]! - beats[index]!);
+}
+
+/**
+ * Grid times from 0 to `duration`, `subdivisions` per beat, following the tempo map
+ */
+export function getBeatGridTimes(map: TempoMap, subdivisions: number, duration: number): number[] {
+  const step = 1 / Math.max(1, subdivisions);
+  const times: number[] = [];
+  const start = Math.ceil(beatPositionAt(map, 0) / step) * step;
+  for (let position = start; ; position += step) {
+    const time = timeAtBeatPosition(map, position);
+    if (time > duration) break;
+    if (time >= 0) times.push(Math.round(time * 10000) / 10000);
+  }
+  return times;
+}
+
+/**
+ * Nearest grid time to `time`, see getBeatGridTimes()
+ */
+export function snapToBeatGrid(map: TempoMap, time: number, subdivisions: number): number {
+  const step = 1 / Math.max(1, subdivisions);
+  return timeAtBeatPosition(map, Math.round(beatPositionAt(map, time) / step) * step);
+}
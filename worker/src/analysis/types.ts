@@ -0,0 +1,39 @@
+/**
+ * Beat tracking output shared by the server (media analysis), the editor
+ * (snapping, BeatTimeline) and the export worker.
+ */
+
+export interface TimeSignature {
+  numerator: number; // beats per bar
+  denominator: number;
+}
+
+export interface TempoSegment {
+  start: number; // seconds, time of the segment's first beat
+  bpm: number;
+  beatIndex: number; // index into TempoMap.beats of the first beat in the segment
+}
+
+/**
+ * Beat positions with the tempo they imply. `beats` follow the music (drift
+ * included); `segments` describe the tempo between them and are used to
+ * extrapolate the grid before the first and after the last detected beat.
+ */
+export interface TempoMap {
+  bpm: number; // dominant tempo (longest segment)
+  beats: number[]; // seconds
+  downbeats: number[]; // seconds, first beat of each bar
+  segments: TempoSegment[];
+  timeSignature: TimeSignature;
+}
+
+export interface BeatTrackingResult {
+  tempoMap: TempoMap;
+  confidence: number; // 0-1
+}
+
+export interface BeatTrackerOptions {
+  minBPM?: number | undefined;
+  maxBPM?: number | undefined;
+  onProgress?: ((progress: number) => void) | undefined; // 0-1
+}
@@ -0,0 +1,143 @@
+import type { CollabAudioTrack, CollabClip, CollabEffect, CollabTimeline, TimelineOperation } from './types';
+
+// Fields that clip_update carries (everything else has its own operation)
+const CLIP_FIELDS_WITH_OPERATIONS = new Set(['id', 'mediaId', 'startTime', 'duration', 'trimStart', 'trimEnd', 'layer', 'effects']);
+
+// Audio track fields that stay in the browser (decoded audio and its analysis
+// views); the server drops them too (server/utils/projectTimeline.js)
+export const LOCAL_AUDIO_TRACK_FIELDS = ['waveformData', 'spectrogramData', 'originalFile'];
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+function diffEffects(clipId: string, prev: CollabEffect[], next: CollabEffect[]): TimelineOperation[] {
+  const operations: TimelineOperation[] = [];
+  const nextIds = new Set(next.map(effect => effect.id));
+  const prevById = new Map(prev.map(effect => [effect.id, effect]));
+
+  prev.forEach(effect => {
+    if (!nextIds.has(effect.id)) operations.push({ type: 'effect_remove', clipId, effectId: effect.id });
+  });
+  next.forEach(effect => {
+    const before = prevById.get(effect.id);
+    if (!before || !sameValue(before, effect)) operations.push({ type: 'effect_set', clipId, effect });
+  });
+
+  return operations;
+}
+
+function diffClip(prev: CollabClip, next: CollabClip): TimelineOperation[] {
+  if (prev === next) return [];
+
+  // A different media under the same id cannot be expressed as an edit
+  if (prev.mediaId !== next.mediaId) {
+    return [{ type: 'clip_delete', clipId: prev.id }, { type: 'clip_add', clip: next }];
+  }
+
+  const operations: TimelineOperation[] = [];
+  const trimmed = prev.duration !== next.duration || prev.trimStart !== next.trimStart || prev.trimEnd !== next.trimEnd;
+
+  if (trimmed) {
+    operations.push({
+      type: 'clip_trim',
+      clipId: next.id,
+      startTime: next.startTime,
+      duration: next.duration,
+      trimStart: next.trimStart,
+      trimEnd: next.trimEnd
+    });
+    if (prev.layer !== next.layer) {
+      operations.push({ type: 'clip_move', clipId: next.id, startTime: next.startTime, layer: next.layer });
+    }
+  } else if (prev.startTime !== next.startTime || prev.layer !== next.layer) {
+    operations.push({ type: 'clip_move', clipId: next.id, startTime: next.startTime, layer: next.layer });
+  }
+
+  if (!sameValue(prev.effects || [], next.effects || [])) {
+    operations.push(...diffEffects(next.id, prev.effects || [], next.effects || []));
+  }
+
+  const before = prev as unknown as Record<string, unknown>;
+  const after = next as unknown as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    if (CLIP_FIELDS_WITH_OPERATIONS.has(key) || sameValue(before[key], after[key])) return;
+    changes[key] = after[key] === undefined ? null : after[key];
+  });
+  if (Object.keys(changes).length > 0) {
+    operations.push({ type: 'clip_update', clipId: next.id, changes });
+  }
+
+  return operations;
+}
+
+// Audio track without its browser-only fields
+function sharedAudioTrack(track: CollabAudioTrack): CollabAudioTrack {
+  const shared: Record<string, unknown> = { ...track };
+  LOCAL_AUDIO_TRACK_FIELDS.forEach(field => delete shared[field]);
+  return shared as unknown as CollabAudioTrack;
+}
+
+function diffAudioTracks(prev: CollabAudioTrack[], next: CollabAudioTrack[]): TimelineOperation[] {
+  const operations: TimelineOperation[] = [];
+  const prevById = new Map(prev.map(track => [track.id, track]));
+  const nextIds = new Set(next.map(track => track.id));
+
+  prev.forEach(track => {
+    if (!nextIds.has(track.id)) operations.push({ type: 'audio_track_delete', trackId: track.id });
+  });
+
+  next.forEach(track => {
+    const before = prevById.get(track.id);
+    if (!before) {
+      operations.push({ type: 'audio_track_add', track: sharedAudioTrack(track) });
+      return;
+    }
+    if (before === track) return;
+
+    const beforeFields = sharedAudioTrack(before) as unknown as Record<string, unknown>;
+    const afterFields = sharedAudioTrack(track) as unknown as Record<string, unknown>;
+    const changes: Record<string, unknown> = {};
+    new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]).forEach(key => {
+      if (sameValue(beforeFields[key], afterFields[key])) return;
+      changes[key] = afterFields[key] === undefined ? null : afterFields[key];
+    });
+    if (Object.keys(changes).length > 0) {
+      operations.push({ type: 'audio_track_update', trackId: track.id, changes });
+    }
+  });
+
+  return operations;
+}
+
+/**
+ * Operations that turn `prev` into `next` (clips, audio tracks and timeline duration).
+ * Lets editors that replace the whole timeline on every change take part in
+ * operation-based collaboration.
+ */
+export function diffTimelines(prev: CollabTimeline, next: CollabTimeline): TimelineOperation[] {
+  if (prev === next) return [];
+
+  const operations: TimelineOperation[] = [];
+  const prevById = new Map(prev.clips.map(clip => [clip.id, clip]));
+  const nextIds = new Set(next.clips.map(clip => clip.id));
+
+  prev.clips.forEach(clip => {
+    if (!nextIds.has(clip.id)) operations.push({ type: 'clip_delete', clipId: clip.id });
+  });
+
+  next.clips.forEach(clip => {
+    const before = prevById.get(clip.id);
+    operations.push(...(before ? diffClip(before, clip) : [{ type: 'clip_add' as const, clip }]));
+  });
+
+  if (prev.audioTracks !== next.audioTracks) {
+    operations.push(...diffAudioTracks(prev.audioTracks || [], next.audioTracks || []));
+  }
+
+  if (prev.duration !== next.duration && next.duration > 0) {
+    operations.push({ type: 'duration_set', duration: next.duration });
+  }
+
+  return operations;
+}
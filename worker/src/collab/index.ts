@@ -0,0 +1,8 @@
+/**
+ * Operation-based timeline collaboration shared by the editor and the server.
+ * Editors send clip- and audio-track-level operations; the server orders them, assigns versions,
+ * rejects edits that overlap a concurrent change, and broadcasts the result.
+ */
+export * from './types';
+export * from './operations';
+export * from './diff';
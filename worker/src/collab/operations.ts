@@ -0,0 +1,279 @@
+import type { CollabAudioTrack, CollabClip, CollabEffect, CollabTimeline, OperationResult, TimelineOperation } from './types';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isTime = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isId = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+// Fields with their own operation; clip_update may not touch them
+const STRUCTURAL_CLIP_FIELDS = ['id', 'mediaId', 'startTime', 'duration', 'trimStart', 'trimEnd', 'layer', 'effects'];
+
+// Template placeholders have no media until their slot is filled
+const isClipMedia = (clip: Record<string, unknown>) =>
+  isId(clip['mediaId']) || (clip['mediaId'] === '' && isId(clip['slotId']));
+
+function isClip(value: unknown): value is CollabClip {
+  return isObject(value) &&
+    isId(value['id']) &&
+    isClipMedia(value) &&
+    isTime(value['startTime']) &&
+    isTime(value['duration']) && (value['duration'] as number) > 0 &&
+    isTime(value['trimStart']) &&
+    isTime(value['trimEnd']) &&
+    Number.isInteger(value['layer']) &&
+    (value['effects'] === undefined || (Array.isArray(value['effects']) && value['effects'].every(isEffect)));
+}
+
+function isEffect(value: unknown): value is CollabEffect {
+  return isObject(value) && isId(value['id']);
+}
+
+function isAudioTrack(value: unknown): value is CollabAudioTrack {
+  return isObject(value) &&
+    isId(value['id']) &&
+    isTime(value['startTime']) &&
+    isTime(value['duration']) && (value['duration'] as number) > 0;
+}
+
+// audio_track_update may move or resize a track but not rename it
+function isAudioTrackChanges(value: unknown): value is Record<string, unknown> {
+  return isObject(value) &&
+    !('id' in value) &&
+    (value['startTime'] === undefined || isTime(value['startTime'])) &&
+    (value['duration'] === undefined || (isTime(value['duration']) && (value['duration'] as number) > 0));
+}
+
+/**
+ * Check an operation received from another process (e.g. a WebSocket message)
+ */
+export function isTimelineOperation(value: unknown): value is TimelineOperation {
+  if (!isObject(value)) return false;
+  const op = value;
+
+  switch (op['type']) {
+    case 'clip_add':
+      return isClip(op['clip']);
+    case 'clip_move':
+      return isId(op['clipId']) && isTime(op['startTime']) && Number.isInteger(op['layer']);
+    case 'clip_trim':
+      return isId(op['clipId']) && isTime(op['startTime']) &&
+        isTime(op['duration']) && (op['duration'] as number) > 0 &&
+        isTime(op['trimStart']) && isTime(op['trimEnd']);
+    case 'clip_update':
+      return isId(op['clipId']) && isObject(op['changes']) &&
+        Object.keys(op['changes']).every(key => !STRUCTURAL_CLIP_FIELDS.includes(key));
+    case 'clip_delete':
+      return isId(op['clipId']);
+    case 'effect_set':
+      return isId(op['clipId']) && isEffect(op['effect']);
+    case 'effect_remove':
+      return isId(op['clipId']) && isId(op['effectId']);
+    case 'audio_track_add':
+      return isAudioTrack(op['track']);
+    case 'audio_track_update':
+      return isId(op['trackId']) && isAudioTrackChanges(op['changes']);
+    case 'audio_track_delete':
+      return isId(op['trackId']);
+    case 'duration_set':
+      return isTime(op['duration']) && (op['duration'] as number) > 0;
+    default:
+      return false;
+  }
+}
+
+function updateClip<T extends CollabTimeline>(
+  timeline: T,
+  clipId: string,
+  update: (clip: CollabClip) => CollabClip | null
+): OperationResult<T> {
+  const index = timeline.clips.findIndex(clip => clip.id === clipId);
+  const clip = timeline.clips[index];
+  if (!clip) return { ok: false, reason: 'clip_not_found' };
+
+  const next = update(clip);
+  if (!next) return { ok: false, reason: 'effect_not_found' };
+
+  const clips = timeline.clips.slice();
+  clips[index] = next;
+  return { ok: true, timeline: { ...timeline, clips } };
+}
+
+// Copy with the changed fields set; null or undefined removes a field
+function withChanges<T extends object>(value: T, changes: Record<string, unknown>): T {
+  const next: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  Object.entries(changes).forEach(([key, change]) => {
+    if (change === null || change === undefined) {
+      delete next[key];
+    } else {
+      next[key] = change;
+    }
+  });
+  return next as unknown as T;
+}
+
+/**
+ * Apply one operation. The input timeline is not modified; untouched clips
+ * keep their identity so React memoization still works on the result.
+ */
+export function applyOperation<T extends CollabTimeline>(timeline: T, op: TimelineOperation): OperationResult<T> {
+  switch (op.type) {
+    case 'clip_add':
+      if (timeline.clips.some(clip => clip.id === op.clip.id)) {
+        return { ok: false, reason: 'clip_exists' };
+      }
+      return { ok: true, timeline: { ...timeline, clips: [...timeline.clips, op.clip] } };
+
+    case 'clip_move':
+      return updateClip(timeline, op.clipId, clip => ({ ...clip, startTime: op.startTime, layer: op.layer }));
+
+    case 'clip_trim':
+      return updateClip(timeline, op.clipId, clip => ({
+        ...clip,
+        startTime: op.startTime,
+        duration: op.duration,
+        trimStart: op.trimStart,
+        trimEnd: op.trimEnd
+      }));
+
+    case 'clip_update':
+      return updateClip(timeline, op.clipId, clip => withChanges(clip, op.changes));
+
+    case 'clip_delete':
+      if (!timeline.clips.some(clip => clip.id === op.clipId)) {
+        return { ok: false, reason: 'clip_not_found' };
+      }
+      return { ok: true, timeline: { ...timeline, clips: timeline.clips.filter(clip => clip.id !== op.clipId) } };
+
+    case 'effect_set':
+      return updateClip(timeline, op.clipId, clip => {
+        const effects = clip.effects || [];
+        const exists = effects.some(effect => effect.id === op.effect.id);
+        return {
+          ...clip,
+          effects: exists
+            ? effects.map(effect => (effect.id === op.effect.id ? op.effect : effect))
+            : [...effects, op.effect]
+        };
+      });
+
+    case 'effect_remove':
+      return updateClip(timeline, op.clipId, clip => {
+        const effects = clip.effects || [];
+        if (!effects.some(effect => effect.id === op.effectId)) return null;
+        return { ...clip, effects: effects.filter(effect => effect.id !== op.effectId) };
+      });
+
+    case 'audio_track_add': {
+      const audioTracks = timeline.audioTracks || [];
+      if (audioTracks.some(track => track.id === op.track.id)) {
+        return { ok: false, reason: 'audio_track_exists' };
+      }
+      return { ok: true, timeline: { ...timeline, audioTracks: [...audioTracks, op.track] } };
+    }
+
+    case 'audio_track_update': {
+      const audioTracks = timeline.audioTracks || [];
+      if (!audioTracks.some(track => track.id === op.trackId)) {
+        return { ok: false, reason: 'audio_track_not_found' };
+      }
+      return {
+        ok: true,
+        timeline: {
+          ...timeline,
+          audioTracks: audioTracks.map(track => (track.id === op.trackId ? withChanges(track, op.changes) : track))
+        }
+      };
+    }
+
+    case 'audio_track_delete': {
+      const audioTracks = timeline.audioTracks || [];
+      if (!audioTracks.some(track => track.id === op.trackId)) {
+        return { ok: false, reason: 'audio_track_not_found' };
+      }
+      return { ok: true, timeline: { ...timeline, audioTracks: audioTracks.filter(track => track.id !== op.trackId) } };
+    }
+
+    case 'duration_set':
+      return { ok: true, timeline: { ...timeline, duration: op.duration } };
+
+    default:
+      return { ok: false, reason: 'invalid_operation' };
+  }
+}
+
+/**
+ * Replay operations over a timeline, dropping the ones that no longer apply
+ * (used by the editor to rebase its unacknowledged edits on the server state)
+ */
+export function applyOperations<T extends CollabTimeline, O extends { op: TimelineOperation }>(
+  timeline: T,
+  operations: O[]
+): { timeline: T; applied: O[]; dropped: O[] } {
+  const applied: O[] = [];
+  const dropped: O[] = [];
+  let current = timeline;
+
+  operations.forEach(entry => {
+    const result = applyOperation(current, entry.op);
+    if (result.ok) {
+      current = result.timeline;
+      applied.push(entry);
+    } else {
+      dropped.push(entry);
+    }
+  });
+
+  return { timeline: current, applied, dropped };
+}
+
+/**
+ * Parts of the timeline an operation writes, as `clip:<id>` (the whole clip),
+ * `clip:<id>/<field>`, `clip:<id>/effects/<effectId>`, `audio:<id>` (the whole
+ * track), `audio:<id>/<field>` or `timeline/duration`
+ */
+export function operationKeys(op: TimelineOperation): string[] {
+  switch (op.type) {
+    case 'clip_add':
+      return [`clip:${op.clip.id}`];
+    case 'clip_delete':
+      return [`clip:${op.clipId}`];
+    case 'clip_move':
+      return [`clip:${op.clipId}/startTime`, `clip:${op.clipId}/layer`];
+    case 'clip_trim':
+      return ['startTime', 'duration', 'trimStart', 'trimEnd'].map(field => `clip:${op.clipId}/${field}`);
+    case 'clip_update':
+      return Object.keys(op.changes).map(field => `clip:${op.clipId}/${field}`);
+    case 'effect_set':
+      return [`clip:${op.clipId}/effects/${op.effect.id}`];
+    case 'effect_remove':
+      return [`clip:${op.clipId}/effects/${op.effectId}`];
+    case 'audio_track_add':
+      return [`audio:${op.track.id}`];
+    case 'audio_track_delete':
+      return [`audio:${op.trackId}`];
+    case 'audio_track_update':
+      return Object.keys(op.changes).map(field => `audio:${op.trackId}/${field}`);
+    case 'duration_set':
+      return ['timeline/duration'];
+    default:
+      return [];
+  }
+}
+
+const keysOverlap = (a: string, b: string): boolean =>
+  a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+
+/**
+ * First of the concurrent operations (applied after the editor's base version)
+ * that writes the same part of the timeline as `op`, if any
+ */
+export function findConflict<O extends { op: TimelineOperation }>(op: TimelineOperation, concurrent: O[]): O | null {
+  const keys = operationKeys(op);
+  return concurrent.find(entry => {
+    const other = operationKeys(entry.op);
+    return keys.some(key => other.some(otherKey => keysOverlap(key, otherKey)));
+  }) || null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Structural shapes for collaborative timeline editing.
+ * They mirror the client's Timeline/TimelineClip types so the editor and the
+ * server can pass their own objects in unchanged.
+ */
+
+export interface CollabEffect {
+  id: string;
+}
+
+export interface CollabClip {
+  id: string;
+  mediaId: string; // '' for a template placeholder until its slot is filled
+  slotId?: string | undefined; // template slot the clip was created from
+  startTime: number; // seconds
+  duration: number; // seconds
+  trimStart: number; // seconds
+  trimEnd: number; // seconds
+  layer: number;
+  effects?: CollabEffect[] | undefined;
+}
+
+export interface CollabAudioTrack {
+  id: string;
+  startTime: number; // seconds
+  duration: number; // seconds
+}
+
+export interface CollabTimeline {
+  clips: CollabClip[];
+  audioTracks?: CollabAudioTrack[] | undefined;
+  duration: number; // seconds
+}
+
+/**
+ * Clip- and audio-track-level edits. Every operation sets absolute values, so applying the
+ * same operation twice gives the same timeline (safe to resend after a reconnect).
+ */
+export type TimelineOperation =
+  | { type: 'clip_add'; clip: CollabClip }
+  | { type: 'clip_move'; clipId: string; startTime: number; layer: number }
+  | { type: 'clip_trim'; clipId: string; startTime: number; duration: number; trimStart: number; trimEnd: number }
+  | { type: 'clip_update'; clipId: string; changes: Record<string, unknown> } // other clip fields; null removes a field
+  | { type: 'clip_delete'; clipId: string }
+  | { type: 'effect_set'; clipId: string; effect: CollabEffect } // adds or replaces by effect id
+  | { type: 'effect_remove'; clipId: string; effectId: string }
+  | { type: 'audio_track_add'; track: CollabAudioTrack }
+  | { type: 'audio_track_update'; trackId: string; changes: Record<string, unknown> } // null removes a field
+  | { type: 'audio_track_delete'; trackId: string }
+  | { type: 'duration_set'; duration: number };
+
+export type TimelineOperationType = TimelineOperation['type'];
+
+export type OperationError =
+  | 'invalid_operation'
+  | 'clip_not_found'
+  | 'clip_exists'
+  | 'effect_not_found'
+  | 'audio_track_not_found'
+  | 'audio_track_exists';
+
+export type OperationResult<T> =
+  | { ok: true; timeline: T }
+  | { ok: false; reason: OperationError };
+
+// Project roles: the owner plus the roles granted by POST /api/projects/:id/collaborators
+export type CollabRole = 'owner' | 'admin' | 'editor' | 'viewer';
@@ -0,0 +1,6 @@
+/**
+ * Plan entitlements shared by the server, the worker and the editor.
+ * Plan ids, limits and quota checks live here so every caller enforces the same numbers.
+ */
+export * from './plans';
+export * from './quotas';
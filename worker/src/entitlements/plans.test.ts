@@ -0,0 +1,68 @@
+import {
+  PLAN_ENTITLEMENTS,
+  PLAN_IDS,
+  getEntitlements,
+  hasPlanAtLeast,
+  minimumPlanFor,
+  normalizePlan,
+  resolveUserPlan
+} from './plans';
+
+describe('normalizePlan', () => {
+  it.each(PLAN_IDS)('keeps %s', plan => {
+    expect(normalizePlan(plan)).toBe(plan);
+    expect(normalizePlan(plan.toUpperCase())).toBe(plan);
+  });
+
+  it.each([
+    ['basic', 'light'],
+    ['premium', 'pro'],
+    ['enterprise', 'pro']
+  ])('maps the legacy %s plan to %s', (legacy, plan) => {
+    expect(normalizePlan(legacy)).toBe(plan);
+  });
+
+  it.each([undefined, null, 42, '', 'gold'])('falls back to free for %p', value => {
+    expect(normalizePlan(value)).toBe('free');
+  });
+});
+
+describe('resolveUserPlan', () => {
+  it('reads plan before subscription', () => {
+    expect(resolveUserPlan({ plan: 'standard', subscription: 'pro' })).toBe('standard');
+    expect(resolveUserPlan({ subscription: 'premium' })).toBe('pro');
+  });
+
+  it('ignores the client subscription object', () => {
+    expect(resolveUserPlan({ subscription: { plan: 'pro' } })).toBe('free');
+    expect(resolveUserPlan(null)).toBe('free');
+  });
+});
+
+describe('getEntitlements', () => {
+  it.each(PLAN_IDS)('returns the %s entitlements', plan => {
+    expect(getEntitlements(plan)).toBe(PLAN_ENTITLEMENTS[plan]);
+  });
+
+  it('gives higher plans higher export priority', () => {
+    const priorities = PLAN_IDS.map(plan => getEntitlements(plan).exportPriority);
+    expect([...priorities].sort((a, b) => a - b)).toEqual(priorities);
+  });
+});
+
+describe('hasPlanAtLeast', () => {
+  it('orders the plans free < light < standard < pro', () => {
+    expect(hasPlanAtLeast('pro', 'standard')).toBe(true);
+    expect(hasPlanAtLeast('standard', 'standard')).toBe(true);
+    expect(hasPlanAtLeast('light', 'standard')).toBe(false);
+    expect(hasPlanAtLeast('premium', 'standard')).toBe(true);
+    expect(hasPlanAtLeast(undefined, 'light')).toBe(false);
+  });
+});
+
+describe('minimumPlanFor', () => {
+  it('finds the cheapest plan with the feature', () => {
+    expect(minimumPlanFor('watermarkRemoval')).toBe('standard');
+    expect(minimumPlanFor('collaborators')).toBe('standard');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Plans and what each one includes. Legacy plan names (basic, premium,
+ * enterprise) are mapped onto the current ones.
+ */
+
+export const PLAN_IDS = ['free', 'light', 'standard', 'pro'] as const;
+export type PlanId = (typeof PLAN_IDS)[number];
+
+export const UNLIMITED = -1;
+
+export type OutputResolution = '720p' | '1080p' | '4K';
+
+export interface PlanEntitlements {
+  id: PlanId;
+  label: string; // display name
+  monthlyPrice: number; // JPY
+  exportsPerMonth: number; // UNLIMITED for no cap
+  maxResolution: OutputResolution;
+  maxOutputHeight: number; // pixels on the short side of the output
+  storageGB: number;
+  maxUploadSizeMB: number; // largest single media file
+  maxProjects: number;
+  watermarkRemoval: boolean;
+  audioAnalysisPerMonth: number;
+  promptRegenerationsPerMonth: number;
+  collaborators: boolean;
+  exportPriority: number; // pg-boss priority, higher runs first
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanId, PlanEntitlements> = {
+  free: {
+    id: 'free',
+    label: 'フリー',
+    monthlyPrice: 0,
+    exportsPerMonth: 3,
+    maxResolution: '720p',
+    maxOutputHeight: 720,
+    storageGB: 1,
+    maxUploadSizeMB: 500,
+    maxProjects: 3,
+    watermarkRemoval: false,
+    audioAnalysisPerMonth: 2,
+    promptRegenerationsPerMonth: 5,
+    collaborators: false,
+    exportPriority: 30
+  },
+  light: {
+    id: 'light',
+    label: 'ライト',
+    monthlyPrice: 1480,
+    exportsPerMonth: 10,
+    maxResolution: '1080p',
+    maxOutputHeight: 1080,
+    storageGB: 10,
+    maxUploadSizeMB: 2048,
+    maxProjects: 20,
+    watermarkRemoval: false,
+    audioAnalysisPerMonth: 8,
+    promptRegenerationsPerMonth: 20,
+    collaborators: false,
+    exportPriority: 50
+  },
+  standard: {
+    id: 'standard',
+    label: 'スタンダード',
+    monthlyPrice: 2980,
+    exportsPerMonth: 25,
+    maxResolution: '4K',
+    maxOutputHeight: 2160,
+    storageGB: 50,
+    maxUploadSizeMB: 10240,
+    maxProjects: 50,
+    watermarkRemoval: true,
+    audioAnalysisPerMonth: 25,
+    promptRegenerationsPerMonth: 75,
+    collaborators: true,
+    exportPriority: 70
+  },
+  pro: {
+    id: 'pro',
+    label: 'プロ',
+    monthlyPrice: 5480,
+    exportsPerMonth: 40,
+    maxResolution: '4K',
+    maxOutputHeight: 2160,
+    storageGB: 500,
+    maxUploadSizeMB: 51200,
+    maxProjects: UNLIMITED,
+    watermarkRemoval: true,
+    audioAnalysisPerMonth: UNLIMITED,
+    promptRegenerationsPerMonth: UNLIMITED,
+    collaborators: true,
+    exportPriority: 90
+  }
+};
+
+// Names used by older server code and existing user rows
+const LEGACY_PLAN_ALIASES: Record<string, PlanId> = {
+  basic: 'light',
+  premium: 'pro',
+  enterprise: 'pro'
+};
+
+const isPlanId = (value: string): value is PlanId => (PLAN_IDS as readonly string[]).includes(value);
+
+/**
+ * Canonical plan for a stored plan/subscription name; unknown values fall back to free.
+ */
+export function normalizePlan(value: unknown): PlanId {
+  if (typeof value !== 'string') return 'free';
+  const name = value.toLowerCase();
+  if (isPlanId(name)) return name;
+  return LEGACY_PLAN_ALIASES[name] || 'free';
+}
+
+/**
+ * Plan of a user record. Reads `plan` first, then a string `subscription`
+ * (server rows); the client's `subscription` object is ignored.
+ */
+export function resolveUserPlan(user: { plan?: unknown; subscription?: unknown } | null | undefined): PlanId {
+  if (!user) return 'free';
+  return normalizePlan(user.plan ?? user.subscription);
+}
+
+export function getEntitlements(plan: unknown): PlanEntitlements {
+  return PLAN_ENTITLEMENTS[normalizePlan(plan)];
+}
+
+export function hasPlanAtLeast(plan: unknown, required: unknown): boolean {
+  return PLAN_IDS.indexOf(normalizePlan(plan)) >= PLAN_IDS.indexOf(normalizePlan(required));
+}
+
+export type PlanFeature = 'watermarkRemoval' | 'collaborators';
+
+/**
+ * Lowest plan that includes a feature (used for upgrade prompts and subscription checks).
+ */
+export function minimumPlanFor(feature: PlanFeature): PlanId {
+  return PLAN_IDS.find(id => PLAN_ENTITLEMENTS[id][feature]) || 'pro';
+}
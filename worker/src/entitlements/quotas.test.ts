@@ -0,0 +1,132 @@
+import { PLAN_IDS, UNLIMITED, type PlanId } from './plans';
+import {
+  canCreateProject,
+  checkQuota,
+  checkUpload,
+  getStorageLimitBytes,
+  getUploadLimitBytes,
+  isResolutionAllowed
+} from './quotas';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Limits from PLAN_ENTITLEMENTS, written out so a change to a plan shows up here
+const LIMITS: Record<PlanId, { exports: number; maxUploadMB: number; storageGB: number; maxProjects: number; maxHeight: number }> = {
+  free: { exports: 3, maxUploadMB: 500, storageGB: 1, maxProjects: 3, maxHeight: 720 },
+  light: { exports: 10, maxUploadMB: 2048, storageGB: 10, maxProjects: 20, maxHeight: 1080 },
+  standard: { exports: 25, maxUploadMB: 10240, storageGB: 50, maxProjects: 50, maxHeight: 2160 },
+  pro: { exports: 40, maxUploadMB: 51200, storageGB: 500, maxProjects: UNLIMITED, maxHeight: 2160 }
+};
+
+describe.each(PLAN_IDS)('%s plan', plan => {
+  const limits = LIMITS[plan];
+
+  describe('export quota', () => {
+    it('allows exports below the monthly limit', () => {
+      expect(checkQuota(plan, 'exports', limits.exports - 1)).toEqual({
+        allowed: true,
+        limit: limits.exports,
+        used: limits.exports - 1,
+        remaining: 1
+      });
+    });
+
+    it('blocks exports at and over the monthly limit', () => {
+      expect(checkQuota(plan, 'exports', limits.exports)).toMatchObject({ allowed: false, remaining: 0 });
+      expect(checkQuota(plan, 'exports', limits.exports + 5)).toMatchObject({ allowed: false, remaining: 0 });
+    });
+  });
+
+  describe('checkUpload', () => {
+    it('reports the upload and storage limits', () => {
+      expect(getUploadLimitBytes(plan)).toBe(limits.maxUploadMB * MB);
+      expect(getStorageLimitBytes(plan)).toBe(limits.storageGB * GB);
+    });
+
+    it('allows the largest file when storage has room', () => {
+      const size = Math.min(limits.maxUploadMB * MB, limits.storageGB * GB);
+      expect(checkUpload(plan, size, 0)).toEqual({
+        allowed: true,
+        maxFileSize: limits.maxUploadMB * MB,
+        storageRemaining: limits.storageGB * GB
+      });
+    });
+
+    it('rejects files over the per-file limit', () => {
+      expect(checkUpload(plan, limits.maxUploadMB * MB + 1, 0)).toMatchObject({
+        allowed: false,
+        reason: 'file_too_large'
+      });
+    });
+
+    it('rejects files that do not fit in the remaining storage', () => {
+      const storageUsed = limits.storageGB * GB - 10 * MB;
+      expect(checkUpload(plan, 20 * MB, storageUsed)).toEqual({
+        allowed: false,
+        reason: 'storage_full',
+        maxFileSize: limits.maxUploadMB * MB,
+        storageRemaining: 10 * MB
+      });
+    });
+
+    it('never reports negative remaining storage', () => {
+      expect(checkUpload(plan, 1, limits.storageGB * GB + GB).storageRemaining).toBe(0);
+    });
+  });
+
+  describe('isResolutionAllowed', () => {
+    it('allows outputs up to the plan cap in either orientation', () => {
+      const width = Math.round((limits.maxHeight * 16) / 9);
+      expect(isResolutionAllowed(plan, width, limits.maxHeight)).toBe(true);
+      expect(isResolutionAllowed(plan, limits.maxHeight, width)).toBe(true);
+    });
+
+    it('rejects outputs above the plan cap', () => {
+      expect(isResolutionAllowed(plan, 8192, limits.maxHeight + 2)).toBe(false);
+    });
+  });
+
+  describe('canCreateProject', () => {
+    if (limits.maxProjects === UNLIMITED) {
+      it('has no project limit', () => {
+        expect(canCreateProject(plan, 10000)).toBe(true);
+      });
+    } else {
+      it('allows projects up to the limit', () => {
+        expect(canCreateProject(plan, limits.maxProjects - 1)).toBe(true);
+        expect(canCreateProject(plan, limits.maxProjects)).toBe(false);
+      });
+    }
+  });
+});
+
+describe('isResolutionAllowed', () => {
+  it.each([
+    ['free', 1280, 720, true],
+    ['free', 1920, 1080, false],
+    ['free', 1080, 1920, false],
+    ['light', 1080, 1920, true],
+    ['light', 3840, 2160, false],
+    ['standard', 3840, 2160, true],
+    ['pro', 2160, 3840, true]
+  ] as const)('%s: %ix%i → %s', (plan, width, height, allowed) => {
+    expect(isResolutionAllowed(plan, width, height)).toBe(allowed);
+  });
+});
+
+describe('checkQuota', () => {
+  it('treats unlimited quotas as always allowed', () => {
+    expect(checkQuota('pro', 'audioAnalysis', 1000)).toEqual({
+      allowed: true,
+      limit: UNLIMITED,
+      used: 1000,
+      remaining: UNLIMITED
+    });
+  });
+
+  it('uses the free plan for unknown plans', () => {
+    expect(checkQuota('gold', 'exports', 3).allowed).toBe(false);
+    expect(checkQuota('basic', 'exports', 3).limit).toBe(10);
+  });
+});
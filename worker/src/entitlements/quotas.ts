@@ -0,0 +1,85 @@
+import { getEntitlements, UNLIMITED, type PlanEntitlements } from './plans';
+
+/**
+ * Monthly usage quotas. Every place that enforces or displays a quota goes
+ * through checkQuota, so a plan's limit behaves the same everywhere.
+ */
+
+export type UsageQuota = 'exports' | 'audioAnalysis' | 'promptRegeneration';
+
+const QUOTA_FIELDS: Record<UsageQuota, keyof PlanEntitlements> = {
+  exports: 'exportsPerMonth',
+  audioAnalysis: 'audioAnalysisPerMonth',
+  promptRegeneration: 'promptRegenerationsPerMonth'
+};
+
+export const USAGE_QUOTAS = Object.keys(QUOTA_FIELDS) as UsageQuota[];
+
+export interface QuotaStatus {
+  allowed: boolean;
+  limit: number; // UNLIMITED for no cap
+  used: number;
+  remaining: number; // UNLIMITED for no cap
+}
+
+export function getQuotaLimit(plan: unknown, quota: UsageQuota): number {
+  return getEntitlements(plan)[QUOTA_FIELDS[quota]] as number;
+}
+
+export function checkQuota(plan: unknown, quota: UsageQuota, used: number): QuotaStatus {
+  const limit = getQuotaLimit(plan, quota);
+  if (limit === UNLIMITED) {
+    return { allowed: true, limit, used, remaining: UNLIMITED };
+  }
+  const remaining = Math.max(0, limit - used);
+  return { allowed: remaining > 0, limit, used, remaining };
+}
+
+export function getStorageLimitBytes(plan: unknown): number {
+  const { storageGB } = getEntitlements(plan);
+  return storageGB === UNLIMITED ? UNLIMITED : storageGB * 1024 * 1024 * 1024;
+}
+
+export function getUploadLimitBytes(plan: unknown): number {
+  return getEntitlements(plan).maxUploadSizeMB * 1024 * 1024;
+}
+
+export type UploadRejection = 'file_too_large' | 'storage_full';
+
+export interface UploadCheck {
+  allowed: boolean;
+  reason?: UploadRejection;
+  maxFileSize: number; // bytes
+  storageRemaining: number; // bytes, UNLIMITED for no cap
+}
+
+/**
+ * Whether a file of `fileSize` bytes can be uploaded on top of `storageUsed`
+ * (stored media plus uploads still in progress).
+ */
+export function checkUpload(plan: unknown, fileSize: number, storageUsed: number): UploadCheck {
+  const maxFileSize = getUploadLimitBytes(plan);
+  const storageLimit = getStorageLimitBytes(plan);
+  const storageRemaining = storageLimit === UNLIMITED ? UNLIMITED : Math.max(0, storageLimit - storageUsed);
+
+  if (fileSize > maxFileSize) {
+    return { allowed: false, reason: 'file_too_large', maxFileSize, storageRemaining };
+  }
+  if (storageRemaining !== UNLIMITED && fileSize > storageRemaining) {
+    return { allowed: false, reason: 'storage_full', maxFileSize, storageRemaining };
+  }
+  return { allowed: true, maxFileSize, storageRemaining };
+}
+
+export function canCreateProject(plan: unknown, projectCount: number): boolean {
+  const { maxProjects } = getEntitlements(plan);
+  return maxProjects === UNLIMITED || projectCount < maxProjects;
+}
+
+/**
+ * Whether an output of this size is within the plan's resolution cap
+ * (the short side is compared, so portrait and landscape are treated alike).
+ */
+export function isResolutionAllowed(plan: unknown, width: number, height: number): boolean {
+  return Math.min(width, height) <= getEntitlements(plan).maxOutputHeight;
+}
@@ -0,0 +1,19 @@
+import { resolveAudioMuting } from './audio';
+
+describe('resolveAudioMuting', () => {
+  it('silences only muted tracks when nothing is soloed', () => {
+    const muting = resolveAudioMuting([{ muted: true }, { muted: false }, {}]);
+
+    expect(muting.trackMuted({ muted: true })).toBe(true);
+    expect(muting.trackMuted({})).toBe(false);
+    expect(muting.clipSoundMuted).toBe(false);
+  });
+
+  it('plays only soloed tracks while any track is soloed', () => {
+    const tracks = [{ solo: true }, { solo: false }, { solo: true, muted: true }];
+    const muting = resolveAudioMuting(tracks);
+
+    expect(tracks.map(track => muting.trackMuted(track))).toEqual([false, true, true]);
+    expect(muting.clipSoundMuted).toBe(true);
+  });
+});
@@ -0,0 +1,21 @@
+import type { RenderAudioTrack } from './types';
+
+/**
+ * Which timeline audio is heard, for both preview playback and export.
+ * Muted tracks are silent, and while any track is soloed only soloed tracks
+ * play; video clip sound has no solo switch, so it goes silent as well.
+ */
+export interface AudioMuting {
+  trackMuted(track: Pick<RenderAudioTrack, 'muted' | 'solo'>): boolean;
+  clipSoundMuted: boolean;
+}
+
+export function resolveAudioMuting(
+  tracks: readonly Pick<RenderAudioTrack, 'muted' | 'solo'>[]
+): AudioMuting {
+  const hasSolo = tracks.some(track => Boolean(track.solo));
+  return {
+    trackMuted: track => Boolean(track.muted) || (hasSolo && !track.solo),
+    clipSoundMuted: hasSolo
+  };
+}
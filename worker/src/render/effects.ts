@@ -0,0 +1,227 @@
+import { isAnimated, parameterAt, parameterExpression } from './keyframes';
+import { buildReframeCrop } from './reframe';
+import type { FrameSize, ReframeStrategy, RenderClip, RenderEffect, RenderMedia } from './types';
+
+/**
+ * Color multipliers, 1 = unchanged.
+ * brightness scales RGB, contrast pivots around mid-grey, saturation scales chroma.
+ */
+export interface ColorAdjustment {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+}
+
+/**
+ * Ken Burns state: zoom around the frame center, then shift the picture
+ * by offsetX/offsetY (fractions of the frame size).
+ */
+export interface PanZoomState {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface ResolvedEffects {
+  color: ColorAdjustment;
+  panZoom: PanZoomState | null;
+  fadeLevel: number; // 1 = fully visible, 0 = black
+  speed: number;
+}
+
+const NEUTRAL_COLOR: ColorAdjustment = { brightness: 1, contrast: 1, saturation: 1 };
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function enabledEffects(clip: RenderClip): RenderEffect[] {
+  return (clip.effects || []).filter(effect => effect.enabled);
+}
+
+/**
+ * Playback rate of the clip's source (product of all speed effects)
+ */
+export function getClipSpeed(clip: RenderClip): number {
+  return enabledEffects(clip)
+    .filter(effect => effect.type === 'speed')
+    .reduce((speed, effect) => speed * Math.max(0.01, num(effect.parameters.value, 1)), 1);
+}
+
+/**
+ * Time inside the source media shown at `clipTime` seconds into the clip
+ */
+export function getSourceTime(clip: RenderClip, clipTime: number): number {
+  return (clip.trimStart || 0) + clipTime * getClipSpeed(clip);
+}
+
+const COLOR_EFFECTS = ['brightness', 'contrast', 'saturation'] as const;
+type ColorEffectType = typeof COLOR_EFFECTS[number];
+
+export function resolveColor(clip: RenderClip, clipTime = 0): ColorAdjustment {
+  return enabledEffects(clip).reduce<ColorAdjustment>((color, effect) => {
+    const factor = 1 + parameterAt(effect, 'value', clipTime, 0) / 100;
+    switch (effect.type) {
+      case 'brightness':
+        return { ...color, brightness: color.brightness * factor };
+      case 'contrast':
+        return { ...color, contrast: color.contrast * factor };
+      case 'saturation':
+        return { ...color, saturation: color.saturation * factor };
+      default:
+        return color;
+    }
+  }, { ...NEUTRAL_COLOR });
+}
+
+/**
+ * Pan/zoom at `clipTime`. Without keyframes the zoom ramps from 1 to the target
+ * and the pan from 0 over the clip; keyframed parameters are used as they are.
+ * The pan is limited so the zoomed picture always covers the frame.
+ */
+export function panZoomAt(effect: RenderEffect, clipTime: number, duration: number): PanZoomState {
+  const p = duration > 0 ? clamp(clipTime / duration, 0, 1) : 1;
+  const pan = (parameter: string) => isAnimated(effect, parameter)
+    ? parameterAt(effect, parameter, clipTime, 0)
+    : num(effect.parameters[parameter], 0) * p;
+
+  const zoom = Math.max(1, isAnimated(effect, 'zoom')
+    ? parameterAt(effect, 'zoom', clipTime, 1.1)
+    : 1 + (Math.max(1, num(effect.parameters.zoom, 1.1)) - 1) * p);
+  const limit = (zoom - 1) / 2;
+
+  return {
+    zoom,
+    offsetX: clamp(pan('panX'), -limit, limit),
+    offsetY: clamp(pan('panY'), -limit, limit)
+  };
+}
+
+/**
+ * Visibility of a clip under its fade effects (fade to/from black)
+ */
+export function fadeLevelAt(clip: RenderClip, clipTime: number): number {
+  return enabledEffects(clip)
+    .filter(effect => effect.type === 'fade')
+    .reduce((level, effect) => {
+      const fadeDuration = Math.max(0.001, num(effect.parameters.duration, 0.5));
+      const t = effect.parameters.type === 'out' ? clip.duration - clipTime : clipTime;
+      return level * clamp(t / fadeDuration, 0, 1);
+    }, 1);
+}
+
+export function resolveEffects(clip: RenderClip, clipTime: number): ResolvedEffects {
+  const panZoom = enabledEffects(clip).find(effect => effect.type === 'pan_zoom');
+
+  return {
+    color: resolveColor(clip, clipTime),
+    panZoom: panZoom ? panZoomAt(panZoom, clipTime, clip.duration) : null,
+    fadeLevel: fadeLevelAt(clip, clipTime),
+    speed: getClipSpeed(clip)
+  };
+}
+
+/**
+ * CSS filter for CanvasRenderingContext2D.filter
+ */
+export function toCanvasFilter(color: ColorAdjustment): string {
+  const parts: string[] = [];
+  if (color.brightness !== 1) parts.push(`brightness(${color.brightness})`);
+  if (color.contrast !== 1) parts.push(`contrast(${color.contrast})`);
+  if (color.saturation !== 1) parts.push(`saturate(${color.saturation})`);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+}
+
+/**
+ * Per-frame FFmpeg expression for a color multiplier (product of the clip's effects of `type`)
+ */
+function colorFactorExpression(clip: RenderClip, type: ColorEffectType, time: string): string {
+  const factors = enabledEffects(clip)
+    .filter(effect => effect.type === type)
+    .map(effect => `(1+(${parameterExpression(effect, 'value', time, 0)})/100)`);
+  return factors.length > 0 ? factors.join('*') : '1';
+}
+
+function isColorAnimated(clip: RenderClip, type: ColorEffectType): boolean {
+  return enabledEffects(clip).some(effect => effect.type === type && isAnimated(effect, 'value'));
+}
+
+export interface ClipFilterOptions {
+  media?: RenderMedia | null | undefined; // focus path for smart reframing
+  cropStrategy?: ReframeStrategy | undefined; // the project's default
+}
+
+/**
+ * FFmpeg video filters rendering a clip the way the preview draws it:
+ * cover-fit to the frame (cropped around the reframe focus), speed, color,
+ * pan/zoom and fades.
+ * The output starts at t=0; placing it on the timeline is the compositor's job.
+ */
+export function buildClipFilters(
+  clip: RenderClip,
+  { width, height }: FrameSize,
+  frameRate: number,
+  { media, cropStrategy }: ClipFilterOptions = {}
+): string[] {
+  const filters = [
+    `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+    buildReframeCrop(clip, { width, height }, media, cropStrategy),
+    'setsar=1'
+  ];
+
+  const speed = getClipSpeed(clip);
+  if (speed !== 1) filters.push(`setpts=PTS/${speed}`);
+  filters.push(`fps=${frameRate}`);
+
+  const color = resolveColor(clip);
+  if (isColorAnimated(clip, 'brightness')) {
+    // colorchannelmixer takes no expressions; geq scales RGB per frame instead
+    const b = colorFactorExpression(clip, 'brightness', 'T');
+    filters.push('format=gbrp', `geq=r='r(X,Y)*${b}':g='g(X,Y)*${b}':b='b(X,Y)*${b}'`);
+  } else if (color.brightness !== 1) {
+    const b = color.brightness;
+    filters.push(`colorchannelmixer=rr=${b}:gg=${b}:bb=${b}`);
+  }
+  if (isColorAnimated(clip, 'contrast') || isColorAnimated(clip, 'saturation')) {
+    const c = colorFactorExpression(clip, 'contrast', 't');
+    const s = colorFactorExpression(clip, 'saturation', 't');
+    filters.push(`eq=contrast='${c}':saturation='${s}':eval=frame`);
+  } else if (color.contrast !== 1 || color.saturation !== 1) {
+    filters.push(`eq=contrast=${color.contrast}:saturation=${color.saturation}`);
+  }
+
+  const panZoom = enabledEffects(clip).find(effect => effect.type === 'pan_zoom');
+  if (panZoom) {
+    // Same curve as panZoomAt(), evaluated per output frame
+    const frames = Math.max(1, Math.round(clip.duration * frameRate));
+    const time = `(on/${frameRate})`;
+    const p = `min(on/${frames},1)`;
+    const pan = (parameter: string) => isAnimated(panZoom, parameter)
+      ? parameterExpression(panZoom, parameter, time, 0)
+      : `${num(panZoom.parameters[parameter], 0)}*${p}`;
+
+    const target = Math.max(1, num(panZoom.parameters.zoom, 1.1));
+    const z = isAnimated(panZoom, 'zoom')
+      ? `max(1,${parameterExpression(panZoom, 'zoom', time, 1.1)})`
+      : `1+${Number((target - 1).toFixed(4))}*${p}`;
+    const limit = '(zoom-1)/2';
+    const x = `(iw-iw/zoom)/2-clip(${pan('panX')},-${limit},${limit})*iw/zoom`;
+    const y = `(ih-ih/zoom)/2-clip(${pan('panY')},-${limit},${limit})*ih/zoom`;
+    filters.push(`zoompan=z='${z}':x='${x}':y='${y}':d=1:s=${width}x${height}:fps=${frameRate}`);
+  }
+
+  enabledEffects(clip)
+    .filter(effect => effect.type === 'fade')
+    .forEach(effect => {
+      const fadeDuration = num(effect.parameters.duration, 0.5);
+      filters.push(effect.parameters.type === 'out'
+        ? `fade=t=out:st=${Math.max(0, clip.duration - fadeDuration)}:d=${fadeDuration}`
+        : `fade=t=in:st=0:d=${fadeDuration}`);
+    });
+
+  return filters;
+}
@@ -0,0 +1,178 @@
+import {
+  EXPORT_CONTAINERS,
+  EXPORT_QUALITY_PRESETS,
+  EncodingError,
+  normalizeExportSettings,
+  resolveEncoding,
+  type EncodingErrorCode,
+  type ExportContainer,
+  type ExportQuality,
+  type ExportSettingsInput,
+  type ExportVideoCodec
+} from './encoding';
+
+// The EncodingError code thrown for the settings, or null when they resolve
+const rejectionCode = (input: ExportSettingsInput): EncodingErrorCode | null => {
+  try {
+    resolveEncoding(input);
+    return null;
+  } catch (error) {
+    if (error instanceof EncodingError) return error.code;
+    throw error;
+  }
+};
+
+const ENCODERS = [
+  ['mp4', 'h264', 'libx264', 'aac', ['-movflags +faststart']],
+  ['mp4', 'h265', 'libx265', 'aac', ['-movflags +faststart']],
+  ['mp4', 'av1', 'libaom-av1', 'aac', ['-movflags +faststart']],
+  ['mov', 'h264', 'libx264', 'aac', ['-movflags +faststart']],
+  ['mov', 'h265', 'libx265', 'aac', ['-movflags +faststart']],
+  ['avi', 'h264', 'libx264', 'libmp3lame', []],
+  ['webm', 'vp9', 'libvpx-vp9', 'libopus', []],
+  ['webm', 'av1', 'libaom-av1', 'libopus', []]
+] as const;
+
+describe('normalizeExportSettings', () => {
+  it('fills in the defaults', () => {
+    expect(normalizeExportSettings()).toEqual({
+      resolution: '9:16',
+      frameRate: 30,
+      format: { container: 'mp4', videoCodec: 'h264', audioCodec: 'aac' },
+      quality: { preset: 'high', ...EXPORT_QUALITY_PRESETS.high },
+      includeAudio: true
+    });
+  });
+
+  it('accepts the container and preset as plain strings', () => {
+    const settings = normalizeExportSettings({ format: 'webm', quality: 'low', frameRate: '24' });
+
+    expect(settings.format).toEqual({ container: 'webm', videoCodec: 'vp9', audioCodec: 'opus' });
+    expect(settings.quality).toEqual({ preset: 'low', ...EXPORT_QUALITY_PRESETS.low });
+    expect(settings.frameRate).toBe(24);
+  });
+
+  it('lets explicit CRF and bitrates override the preset', () => {
+    const settings = normalizeExportSettings({
+      quality: { preset: 'medium', crf: 30, videoBitrate: 2500, audioBitrate: 0 }
+    });
+
+    expect(settings.quality).toEqual({ preset: 'medium', crf: 30, videoBitrate: 2500, audioBitrate: 192 });
+  });
+
+  it('keeps the custom size only for custom resolutions', () => {
+    expect(normalizeExportSettings({ resolution: '720p', customResolution: { width: 640, height: 480 } }))
+      .not.toHaveProperty('customResolution');
+    expect(normalizeExportSettings({ resolution: 'custom', customResolution: { width: 640, height: 480 } }).customResolution)
+      .toEqual({ width: 640, height: 480 });
+  });
+});
+
+describe('resolveEncoding', () => {
+  it.each(ENCODERS)('encodes %s with %s', (container, videoCodec, videoEncoder, audioEncoder, outputOptions) => {
+    const plan = resolveEncoding({ format: { container, videoCodec } });
+
+    expect(plan.container).toBe(container);
+    expect(plan.extension).toBe(EXPORT_CONTAINERS[container].extension);
+    expect(plan.mimeType).toBe(EXPORT_CONTAINERS[container].mimeType);
+    expect(plan.videoCodec).toBe(videoEncoder);
+    expect(plan.audioCodec).toBe(audioEncoder);
+    expect(plan.outputOptions).toEqual(outputOptions);
+  });
+
+  it('covers every supported container and codec pair', () => {
+    const pairs = (Object.keys(EXPORT_CONTAINERS) as ExportContainer[]).flatMap(container =>
+      EXPORT_CONTAINERS[container].videoCodecs.map(videoCodec => [container, videoCodec])
+    );
+
+    expect(ENCODERS.map(([container, videoCodec]) => [container, videoCodec])).toEqual(pairs);
+  });
+
+  it('maps the CRF onto each codec\'s scale', () => {
+    const crfFor = (container: ExportContainer, videoCodec: ExportVideoCodec) =>
+      resolveEncoding({ format: { container, videoCodec }, quality: 'high' }).videoOptions.find(option =>
+        option.startsWith('-crf')
+      );
+
+    expect(crfFor('mp4', 'h264')).toBe('-crf 20');
+    expect(crfFor('mp4', 'h265')).toBe('-crf 24');
+    expect(crfFor('webm', 'vp9')).toBe('-crf 28');
+    expect(crfFor('mp4', 'av1')).toBe('-crf 28');
+  });
+
+  it('tags HEVC for Apple players', () => {
+    expect(resolveEncoding({ format: { container: 'mov', videoCodec: 'h265' } }).videoOptions).toContain('-tag:v hvc1');
+    expect(resolveEncoding({ format: { container: 'mp4', videoCodec: 'h264' } }).videoOptions).not.toContain('-tag:v hvc1');
+  });
+
+  it.each(Object.keys(EXPORT_QUALITY_PRESETS) as ExportQuality[])('applies the %s preset', preset => {
+    const { crf, videoBitrate, audioBitrate } = EXPORT_QUALITY_PRESETS[preset];
+    const plan = resolveEncoding({ quality: preset });
+
+    expect(plan.videoBitrate).toBe(videoBitrate);
+    expect(plan.audioBitrate).toBe(audioBitrate);
+    expect(plan.videoOptions).toEqual(expect.arrayContaining([
+      `-crf ${crf}`,
+      `-maxrate ${videoBitrate}k`,
+      `-bufsize ${videoBitrate * 2}k`
+    ]));
+    expect(plan.audioOptions).toEqual([`-b:a ${audioBitrate}k`]);
+  });
+
+  it.each([
+    ['720p', undefined, 1280, 720],
+    ['4K', undefined, 3840, 2160],
+    ['4:3', undefined, 1440, 1080],
+    ['custom', { width: 720, height: 1280 }, 720, 1280]
+  ] as const)('sizes %s output', (resolution, customResolution, width, height) => {
+    const plan = resolveEncoding({ resolution, customResolution });
+
+    expect(plan.width).toBe(width);
+    expect(plan.height).toBe(height);
+  });
+
+  it.each([24, 30, 60] as const)('encodes at %i fps', frameRate => {
+    const plan = resolveEncoding({ frameRate });
+
+    expect(plan.frameRate).toBe(frameRate);
+    expect(plan.videoOptions).toContain(`-r ${frameRate}`);
+  });
+
+  it('keeps includeAudio unless it is turned off', () => {
+    expect(resolveEncoding({}).includeAudio).toBe(true);
+    expect(resolveEncoding({ includeAudio: false }).includeAudio).toBe(false);
+  });
+
+  describe('rejections', () => {
+    it.each([
+      ['a codec the container cannot carry', { format: { container: 'webm', videoCodec: 'h264' } }],
+      ['HEVC in AVI', { format: { container: 'avi', videoCodec: 'h265' } }],
+      ['VP9 in MP4', { format: { container: 'mp4', videoCodec: 'vp9' } }],
+      ['an unknown codec', { format: { container: 'mp4', videoCodec: 'mpeg2' } }],
+      ['another container\'s audio codec', { format: { container: 'mp4', audioCodec: 'opus' } }]
+    ])('rejects %s as UNSUPPORTED_CODEC', (_case, input) => {
+      expect(rejectionCode(input)).toBe('UNSUPPORTED_CODEC');
+    });
+
+    it.each([
+      ['an unknown resolution', { resolution: '8K' }],
+      ['a custom size without dimensions', { resolution: 'custom' }],
+      ['a fractional custom size', { resolution: 'custom', customResolution: { width: 640.5, height: 480 } }],
+      ['an odd custom size', { resolution: 'custom', customResolution: { width: 641, height: 480 } }],
+      ['a custom size that is too small', { resolution: 'custom', customResolution: { width: 8, height: 480 } }],
+      ['a custom size that is too large', { resolution: 'custom', customResolution: { width: 8192, height: 480 } }]
+    ])('rejects %s as INVALID_RESOLUTION', (_case, input) => {
+      expect(rejectionCode(input)).toBe('INVALID_RESOLUTION');
+    });
+
+    it.each([25, 0, '60fps'])('rejects %p fps as INVALID_FRAME_RATE', frameRate => {
+      expect(rejectionCode({ frameRate })).toBe('INVALID_FRAME_RATE');
+    });
+
+    it('rejects unknown containers and presets', () => {
+      expect(rejectionCode({ format: 'mkv' })).toBe('UNSUPPORTED_CONTAINER');
+      expect(rejectionCode({ quality: 'lossless' })).toBe('INVALID_QUALITY');
+      expect(rejectionCode({ quality: { crf: 52 } })).toBe('INVALID_QUALITY');
+    });
+  });
+});
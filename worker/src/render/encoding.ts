@@ -0,0 +1,297 @@
+import { DEFAULT_RESOLUTION, RENDER_RESOLUTIONS } from './resolution';
+import type { FrameSize } from './types';
+
+/**
+ * Export encoder settings. An export job's settings (container, codec,
+ * quality preset or explicit CRF/bitrates, frame rate, resolution) resolve to
+ * one EncodingPlan of FFmpeg options; combinations the worker cannot produce
+ * are rejected with an EncodingError instead of silently falling back.
+ */
+
+export type ExportContainer = 'mp4' | 'mov' | 'avi' | 'webm';
+export type ExportVideoCodec = 'h264' | 'h265' | 'vp9' | 'av1';
+export type ExportAudioCodec = 'aac' | 'opus' | 'mp3';
+export type ExportQuality = 'low' | 'medium' | 'high' | 'ultra';
+export type ExportFrameRate = 24 | 30 | 60;
+
+export interface QualityPreset {
+  videoBitrate: number; // kbps
+  audioBitrate: number; // kbps
+  crf: number; // H.264 scale; other codecs are mapped by codecCrf
+}
+
+// Kept in sync with EXPORT_PRESETS.quality on the client (which re-exports this)
+export const EXPORT_QUALITY_PRESETS: Record<ExportQuality, QualityPreset> = {
+  low: { videoBitrate: 1000, audioBitrate: 128, crf: 28 },
+  medium: { videoBitrate: 3000, audioBitrate: 192, crf: 23 },
+  high: { videoBitrate: 5000, audioBitrate: 256, crf: 20 },
+  ultra: { videoBitrate: 8000, audioBitrate: 320, crf: 18 }
+};
+
+export const EXPORT_FRAME_RATES: readonly ExportFrameRate[] = [24, 30, 60];
+
+export interface ContainerSpec {
+  extension: string;
+  mimeType: string;
+  videoCodecs: readonly ExportVideoCodec[]; // first is the default
+  audioCodec: ExportAudioCodec;
+}
+
+export const EXPORT_CONTAINERS: Record<ExportContainer, ContainerSpec> = {
+  mp4: { extension: 'mp4', mimeType: 'video/mp4', videoCodecs: ['h264', 'h265', 'av1'], audioCodec: 'aac' },
+  mov: { extension: 'mov', mimeType: 'video/quicktime', videoCodecs: ['h264', 'h265'], audioCodec: 'aac' },
+  avi: { extension: 'avi', mimeType: 'video/x-msvideo', videoCodecs: ['h264'], audioCodec: 'mp3' },
+  webm: { extension: 'webm', mimeType: 'video/webm', videoCodecs: ['vp9', 'av1'], audioCodec: 'opus' }
+};
+
+const VIDEO_ENCODERS: Record<ExportVideoCodec, string> = {
+  h264: 'libx264',
+  h265: 'libx265',
+  vp9: 'libvpx-vp9',
+  av1: 'libaom-av1'
+};
+
+const AUDIO_ENCODERS: Record<ExportAudioCodec, string> = {
+  aac: 'aac',
+  opus: 'libopus',
+  mp3: 'libmp3lame'
+};
+
+// Custom sizes: even (4:2:0 chroma) and within what the encoders handle
+const MIN_DIMENSION = 16;
+const MAX_DIMENSION = 4096;
+
+export type EncodingErrorCode =
+  | 'UNSUPPORTED_CONTAINER'
+  | 'UNSUPPORTED_CODEC'
+  | 'INVALID_RESOLUTION'
+  | 'INVALID_FRAME_RATE'
+  | 'INVALID_QUALITY';
+
+export class EncodingError extends Error {
+  constructor(message: string, public readonly code: EncodingErrorCode) {
+    super(message);
+    this.name = 'EncodingError';
+  }
+}
+
+/**
+ * Settings as stored on an export job. The API sends format/quality as
+ * objects; the export panel sends the container and preset as plain strings.
+ */
+export interface ExportSettingsInput {
+  resolution?: string | undefined;
+  customResolution?: { width?: number | undefined; height?: number | undefined } | null | undefined;
+  frameRate?: number | string | undefined;
+  format?: string | { container?: string | undefined; videoCodec?: string | undefined; audioCodec?: string | undefined } | undefined;
+  quality?: string | {
+    preset?: string | undefined;
+    crf?: number | undefined;
+    videoBitrate?: number | undefined;
+    audioBitrate?: number | undefined;
+  } | undefined;
+  includeAudio?: boolean | undefined;
+}
+
+export interface ExportSettings {
+  resolution: string;
+  customResolution?: FrameSize;
+  frameRate: ExportFrameRate;
+  format: {
+    container: ExportContainer;
+    videoCodec: ExportVideoCodec;
+    audioCodec: ExportAudioCodec;
+  };
+  quality: QualityPreset & { preset: ExportQuality };
+  includeAudio: boolean;
+}
+
+export interface EncodingPlan {
+  container: ExportContainer;
+  extension: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  frameRate: ExportFrameRate;
+  includeAudio: boolean;
+  videoCodec: string; // FFmpeg encoder
+  audioCodec: string; // FFmpeg encoder
+  videoBitrate: number; // kbps, the encoder's ceiling
+  audioBitrate: number; // kbps
+  videoOptions: string[];
+  audioOptions: string[];
+  outputOptions: string[];
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+const positive = (value: unknown): number | undefined => {
+  const n = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+/**
+ * Output frame size: a named resolution, or customResolution for 'custom'
+ */
+export function resolveOutputSize(resolution: string, customResolution?: ExportSettingsInput['customResolution']): FrameSize {
+  if (resolution !== 'custom') {
+    const size = RENDER_RESOLUTIONS[resolution];
+    if (!size) {
+      throw new EncodingError(`Unknown resolution "${resolution}"`, 'INVALID_RESOLUTION');
+    }
+    return { ...size };
+  }
+
+  const width = Number(customResolution?.width);
+  const height = Number(customResolution?.height);
+  if (!Number.isInteger(width) || !Number.isInteger(height)) {
+    throw new EncodingError('Custom resolution needs an integer width and height', 'INVALID_RESOLUTION');
+  }
+  if (Math.min(width, height) < MIN_DIMENSION || Math.max(width, height) > MAX_DIMENSION) {
+    throw new EncodingError(
+      `Custom resolution must be between ${MIN_DIMENSION} and ${MAX_DIMENSION} pixels per side`,
+      'INVALID_RESOLUTION'
+    );
+  }
+  if (width % 2 !== 0 || height % 2 !== 0) {
+    throw new EncodingError('Custom resolution width and height must be even', 'INVALID_RESOLUTION');
+  }
+  return { width, height };
+}
+
+/**
+ * Fill in defaults and validate. Explicit CRF and bitrates override the
+ * preset's; a container without a codec gets the container's default codec.
+ */
+export function normalizeExportSettings(input: ExportSettingsInput = {}): ExportSettings {
+  const format = typeof input.format === 'string' ? { container: input.format } : input.format || {};
+  const container = format.container || 'mp4';
+  if (!isOneOf(Object.keys(EXPORT_CONTAINERS) as ExportContainer[], container)) {
+    throw new EncodingError(`Unsupported container "${container}"`, 'UNSUPPORTED_CONTAINER');
+  }
+  const spec = EXPORT_CONTAINERS[container];
+
+  const videoCodec = format.videoCodec || spec.videoCodecs[0]!;
+  if (!isOneOf(spec.videoCodecs, videoCodec)) {
+    throw new EncodingError(
+      `${container.toUpperCase()} cannot carry ${videoCodec} video (supported: ${spec.videoCodecs.join(', ')})`,
+      'UNSUPPORTED_CODEC'
+    );
+  }
+  const audioCodec = format.audioCodec || spec.audioCodec;
+  if (audioCodec !== spec.audioCodec) {
+    throw new EncodingError(
+      `${container.toUpperCase()} exports use ${spec.audioCodec} audio, not ${audioCodec}`,
+      'UNSUPPORTED_CODEC'
+    );
+  }
+
+  const quality = typeof input.quality === 'string' ? { preset: input.quality } : input.quality || {};
+  const preset = quality.preset || 'high';
+  if (!isOneOf(Object.keys(EXPORT_QUALITY_PRESETS) as ExportQuality[], preset)) {
+    throw new EncodingError(`Unknown quality preset "${preset}"`, 'INVALID_QUALITY');
+  }
+  const defaults = EXPORT_QUALITY_PRESETS[preset];
+  const crf = Number(quality.crf ?? defaults.crf);
+  if (!Number.isInteger(crf) || crf < 0 || crf > 51) {
+    throw new EncodingError('CRF must be an integer from 0 to 51', 'INVALID_QUALITY');
+  }
+
+  const frameRate = Number(input.frameRate ?? 30);
+  if (!(EXPORT_FRAME_RATES as readonly number[]).includes(frameRate)) {
+    throw new EncodingError(
+      `Unsupported frame rate ${input.frameRate} (supported: ${EXPORT_FRAME_RATES.join(', ')})`,
+      'INVALID_FRAME_RATE'
+    );
+  }
+
+  const resolution = input.resolution || DEFAULT_RESOLUTION;
+  const size = resolveOutputSize(resolution, input.customResolution);
+
+  return {
+    resolution,
+    ...(resolution === 'custom' ? { customResolution: size } : {}),
+    frameRate: frameRate as ExportFrameRate,
+    format: { container, videoCodec, audioCodec: spec.audioCodec },
+    quality: {
+      preset,
+      crf,
+      videoBitrate: positive(quality.videoBitrate) ?? defaults.videoBitrate,
+      audioBitrate: positive(quality.audioBitrate) ?? defaults.audioBitrate
+    },
+    includeAudio: input.includeAudio !== false
+  };
+}
+
+/**
+ * CRF on the codec's own scale for the same visual quality as an H.264 CRF.
+ * x265 looks alike about 4 points higher; VP9 and AV1 use a 0-63 scale.
+ */
+export function codecCrf(codec: ExportVideoCodec, h264Crf: number): number {
+  switch (codec) {
+    case 'h265':
+      return Math.min(51, h264Crf + 4);
+    case 'vp9':
+    case 'av1':
+      return Math.min(63, Math.round(h264Crf * 1.4));
+    default:
+      return h264Crf;
+  }
+}
+
+function videoOptions(settings: ExportSettings): string[] {
+  const { videoCodec, container } = settings.format;
+  const { crf, videoBitrate } = settings.quality;
+  const codecQuality = codecCrf(videoCodec, crf);
+
+  switch (videoCodec) {
+    case 'h264':
+    case 'h265':
+      // Constant quality, capped at the bitrate
+      return [
+        '-preset medium',
+        `-crf ${codecQuality}`,
+        `-maxrate ${videoBitrate}k`,
+        `-bufsize ${videoBitrate * 2}k`,
+        '-pix_fmt yuv420p',
+        // Apple players need the hvc1 tag for HEVC in MP4/MOV
+        ...(videoCodec === 'h265' && container !== 'avi' ? ['-tag:v hvc1'] : [])
+      ];
+    case 'vp9':
+      // Constrained quality: -b:v is the ceiling
+      return [`-crf ${codecQuality}`, `-b:v ${videoBitrate}k`, '-deadline good', '-cpu-used 2', '-row-mt 1', '-pix_fmt yuv420p'];
+    case 'av1':
+      return [`-crf ${codecQuality}`, `-b:v ${videoBitrate}k`, '-cpu-used 6', '-row-mt 1', '-pix_fmt yuv420p'];
+  }
+}
+
+/**
+ * FFmpeg options for the final encode of an export
+ */
+export function buildEncodingPlan(settings: ExportSettings): EncodingPlan {
+  const { container, videoCodec, audioCodec } = settings.format;
+  const spec = EXPORT_CONTAINERS[container];
+  const { width, height } = resolveOutputSize(settings.resolution, settings.customResolution);
+
+  return {
+    container,
+    extension: spec.extension,
+    mimeType: spec.mimeType,
+    width,
+    height,
+    frameRate: settings.frameRate,
+    includeAudio: settings.includeAudio,
+    videoCodec: VIDEO_ENCODERS[videoCodec],
+    audioCodec: AUDIO_ENCODERS[audioCodec],
+    videoBitrate: settings.quality.videoBitrate,
+    audioBitrate: settings.quality.audioBitrate,
+    videoOptions: [...videoOptions(settings), `-r ${settings.frameRate}`],
+    audioOptions: [`-b:a ${settings.quality.audioBitrate}k`],
+    outputOptions: container === 'mp4' || container === 'mov' ? ['-movflags +faststart'] : []
+  };
+}
+
+export function resolveEncoding(input: ExportSettingsInput = {}): EncodingPlan {
+  return buildEncodingPlan(normalizeExportSettings(input));
+}
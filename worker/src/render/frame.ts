@@ -0,0 +1,105 @@
+import { resolveEffects, getSourceTime, type ResolvedEffects } from './effects';
+import { reframeFocusAt, type ReframeFocus } from './reframe';
+import { resolveResolution } from './resolution';
+import {
+  IDENTITY_GEOMETRY,
+  planTransitions,
+  transitionGeometry,
+  type TransitionGeometry,
+  type TransitionPlan
+} from './transitions';
+import type { RenderClip, RenderMedia, RenderProject, RenderTransform } from './types';
+
+export const DEFAULT_CLIP_TRANSFORM: RenderTransform = {
+  x: 50,
+  y: 50,
+  scale: 1,
+  opacity: 100
+};
+
+export function resolveTransform(clip: RenderClip): RenderTransform {
+  return { ...DEFAULT_CLIP_TRANSFORM, ...clip.transform };
+}
+
+/**
+ * One clip as it appears in a frame, bottom layer first.
+ * Drawing order: cover-fit the media into the frame around `focus`, apply panZoom and color,
+ * darken by (1 - fadeLevel), then place the result with transform and geometry.
+ */
+export interface LayerDescription {
+  clip: RenderClip;
+  clipIndex: number;
+  media: RenderMedia | undefined;
+  clipTime: number; // seconds since the clip started (may exceed duration during a transition tail)
+  progress: number; // 0-1 through the clip
+  sourceTime: number; // seconds into the source media
+  transform: RenderTransform;
+  focus: ReframeFocus; // center of the cover-fit crop, fractions of the source
+  effects: ResolvedEffects;
+  geometry: TransitionGeometry;
+  alpha: number; // transform opacity combined with transition/fade alpha
+}
+
+export interface FrameDescription {
+  time: number;
+  width: number;
+  height: number;
+  layers: LayerDescription[];
+}
+
+/**
+ * Resolve everything visible at `time` on the project timeline.
+ * Pass a precomputed plan when describing many frames of the same timeline.
+ */
+export function describeFrame(project: RenderProject, time: number, transitionPlan?: TransitionPlan): FrameDescription {
+  const { width, height } = resolveResolution(project.settings.resolution);
+  const clips = project.timeline.clips;
+  const { plan } = transitionPlan || planTransitions(clips);
+  const media = new Map((project.mediaLibrary || []).map(file => [file.id, file]));
+
+  const layers: LayerDescription[] = [];
+
+  clips.forEach((clip, clipIndex) => {
+    const entry = plan[clipIndex];
+    const tail = entry ? entry.tail : 0;
+    const clipTime = time - clip.startTime;
+    if (clipTime < 0 || clipTime >= clip.duration + tail) return;
+
+    const effectiveTime = Math.min(clipTime, clip.duration);
+    const transform = resolveTransform(clip);
+    let geometry = IDENTITY_GEOMETRY;
+    let alpha = transform.opacity / 100;
+
+    if (entry) {
+      // Incoming side of a join
+      if (entry.join && clipTime < entry.join.duration) {
+        geometry = transitionGeometry(entry.join.name, clipTime / entry.join.duration).incoming;
+      }
+      // Outgoing side, drawn underneath the next clip on the layer
+      if (entry.out && clipTime >= clip.duration) {
+        geometry = transitionGeometry(entry.out.name, (clipTime - clip.duration) / entry.out.duration).outgoing;
+      }
+      if (entry.fadeIn > 0) alpha *= Math.min(1, clipTime / entry.fadeIn);
+      if (entry.fadeOut > 0) alpha *= Math.min(1, Math.max(0, clip.duration - clipTime) / entry.fadeOut);
+    }
+
+    const clipMedia = media.get(clip.mediaId);
+    layers.push({
+      clip,
+      clipIndex,
+      media: clipMedia,
+      clipTime,
+      progress: clip.duration > 0 ? effectiveTime / clip.duration : 0,
+      sourceTime: getSourceTime(clip, clipTime),
+      transform,
+      focus: reframeFocusAt(clip, clipMedia, effectiveTime, project.settings.cropStrategy),
+      effects: resolveEffects(clip, effectiveTime),
+      geometry,
+      alpha: alpha * geometry.alpha
+    });
+  });
+
+  layers.sort((a, b) => (a.clip.layer || 0) - (b.clip.layer || 0) || a.clip.startTime - b.clip.startTime);
+
+  return { time, width, height, layers };
+}
@@ -0,0 +1,18 @@
+/**
+ * Timeline render description shared by the editor preview and the export worker.
+ * Given a project and a time it resolves which clips are visible, where, and with
+ * which effect and transition state, and serializes the same math to canvas
+ * settings (preview) and FFmpeg filters (export), plus which audio is heard
+ * (mute/solo), the export encoder settings (container, codec, quality, frame
+ * rate, output size) and the social platform targets used by batch exports.
+ */
+export * from './types';
+export * from './resolution';
+export * from './keyframes';
+export * from './effects';
+export * from './audio';
+export * from './transitions';
+export * from './frame';
+export * from './reframe';
+export * from './encoding';
+export * from './platforms';
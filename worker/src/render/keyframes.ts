@@ -0,0 +1,136 @@
+import type { RenderEffect, RenderKeyframe } from './types';
+
+// Same names as FrequencyEffect.easing on the client
+export const EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'bounce'] as const;
+export type Easing = typeof EASINGS[number];
+
+// Effect parameters that can carry a keyframe track
+export const KEYFRAMABLE_PARAMETERS: Record<string, string[]> = {
+  brightness: ['value'],
+  contrast: ['value'],
+  saturation: ['value'],
+  pan_zoom: ['zoom', 'panX', 'panY']
+};
+
+/**
+ * Eased progress for `p` (0-1) through a keyframe segment
+ */
+export function ease(easing: string | undefined, p: number): number {
+  switch (easing) {
+    case 'ease-in':
+      return p * p;
+    case 'ease-out':
+      return 1 - (1 - p) * (1 - p);
+    case 'ease-in-out':
+      return p < 0.5 ? 2 * p * p : 1 - 2 * (1 - p) * (1 - p);
+    case 'bounce': {
+      // easeOutBounce
+      if (p < 1 / 2.75) return 7.5625 * p * p;
+      if (p < 2 / 2.75) return 7.5625 * (p - 1.5 / 2.75) ** 2 + 0.75;
+      if (p < 2.5 / 2.75) return 7.5625 * (p - 2.25 / 2.75) ** 2 + 0.9375;
+      return 7.5625 * (p - 2.625 / 2.75) ** 2 + 0.984375;
+    }
+    default:
+      return p;
+  }
+}
+
+/**
+ * FFmpeg expression for ease(); `p` is an expression, evaluated once into st(1)
+ */
+function easeExpression(easing: string | undefined, p: string): string {
+  const q = 'ld(1)';
+  switch (easing) {
+    case 'ease-in':
+      return `(st(1,${p});${q}*${q})`;
+    case 'ease-out':
+      return `(st(1,${p});1-(1-${q})*(1-${q}))`;
+    case 'ease-in-out':
+      return `(st(1,${p});if(lt(${q},0.5),2*${q}*${q},1-2*(1-${q})*(1-${q})))`;
+    case 'bounce':
+      return `(st(1,${p});` +
+        `if(lt(${q},${1 / 2.75}),7.5625*${q}*${q},` +
+        `if(lt(${q},${2 / 2.75}),7.5625*pow(${q}-${1.5 / 2.75},2)+0.75,` +
+        `if(lt(${q},${2.5 / 2.75}),7.5625*pow(${q}-${2.25 / 2.75},2)+0.9375,` +
+        `7.5625*pow(${q}-${2.625 / 2.75},2)+0.984375))))`;
+    default:
+      return p;
+  }
+}
+
+export function sortKeyframes(track: RenderKeyframe[]): RenderKeyframe[] {
+  return [...track].sort((a, b) => a.time - b.time);
+}
+
+export function getKeyframeTrack(effect: RenderEffect, parameter: string): RenderKeyframe[] | null {
+  const track = effect.keyframes?.[parameter];
+  return track && track.length > 0 ? sortKeyframes(track) : null;
+}
+
+/**
+ * Value of a track at `time` seconds into the clip.
+ * Each keyframe's easing shapes the segment that leaves it; the value holds
+ * before the first and after the last keyframe.
+ */
+export function sampleKeyframes(track: RenderKeyframe[], time: number): number {
+  const keyframes = sortKeyframes(track);
+  const first = keyframes[0]!;
+  if (time <= first.time) return first.value;
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i]!;
+    const to = keyframes[i + 1]!;
+    if (time < to.time) {
+      const span = to.time - from.time;
+      const p = span > 0 ? (time - from.time) / span : 1;
+      return from.value + (to.value - from.value) * ease(from.easing, p);
+    }
+  }
+  return keyframes[keyframes.length - 1]!.value;
+}
+
+/**
+ * The same curve as sampleKeyframes() as an FFmpeg expression of `time`
+ * (e.g. 't' in eq/geq or 'on/30' in zoompan)
+ */
+export function keyframeExpression(track: RenderKeyframe[], time: string): string {
+  const keyframes = sortKeyframes(track);
+  let expression = String(keyframes[keyframes.length - 1]!.value);
+
+  for (let i = keyframes.length - 2; i >= 0; i--) {
+    const from = keyframes[i]!;
+    const to = keyframes[i + 1]!;
+    const span = Math.max(0.001, to.time - from.time);
+    const p = `clip((${time}-${from.time})/${span},0,1)`;
+    const delta = Number((to.value - from.value).toFixed(6));
+    const segment = `${from.value}+(${delta})*${easeExpression(from.easing, p)}`;
+    expression = `if(lt(${time},${to.time}),${segment},${expression})`;
+  }
+  return expression;
+}
+
+function staticValue(effect: RenderEffect, parameter: string, fallback: number): number {
+  const value = effect.parameters[parameter];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Parameter value at `clipTime`: the keyframe track if there is one,
+ * otherwise the static parameter
+ */
+export function parameterAt(effect: RenderEffect, parameter: string, clipTime: number, fallback: number): number {
+  const track = getKeyframeTrack(effect, parameter);
+  return track ? sampleKeyframes(track, clipTime) : staticValue(effect, parameter, fallback);
+}
+
+/**
+ * FFmpeg expression (or plain number) for a parameter, see parameterAt()
+ */
+export function parameterExpression(effect: RenderEffect, parameter: string, time: string, fallback: number): string {
+  const track = getKeyframeTrack(effect, parameter);
+  return track ? keyframeExpression(track, time) : String(staticValue(effect, parameter, fallback));
+}
+
+export function isAnimated(effect: RenderEffect, parameter: string): boolean {
+  return getKeyframeTrack(effect, parameter) !== null;
+}
@@ -0,0 +1,175 @@
+import { EXPORT_QUALITY_PRESETS, type ExportFrameRate, type ExportSettingsInput } from './encoding';
+
+/**
+ * Social platform export targets. A batch export creates one job per
+ * platform with the platform's encoding; the job keeps the platform's limits
+ * (settings.platform) so the worker can check the output and re-encode at a
+ * lower bitrate when the file is over the size limit.
+ */
+
+export type PlatformId = 'instagram_reel' | 'instagram_story' | 'tiktok' | 'youtube_shorts' | 'twitter';
+
+export interface PlatformLimits {
+  id: PlatformId;
+  name: string;
+  minDuration?: number; // seconds
+  maxDuration: number; // seconds
+  maxFileSize: number; // MB
+}
+
+export interface PlatformPreset extends PlatformLimits {
+  resolution: string; // RENDER_RESOLUTIONS key
+  frameRates: readonly ExportFrameRate[];
+  recommendedBitrate: number; // kbps
+}
+
+// Kept in sync with SNS_PRESETS in the client's SNSOptimizer
+export const PLATFORM_PRESETS: Record<PlatformId, PlatformPreset> = {
+  instagram_reel: {
+    id: 'instagram_reel',
+    name: 'Instagram Reel',
+    resolution: '9:16',
+    frameRates: [24, 30],
+    maxDuration: 90,
+    maxFileSize: 100,
+    recommendedBitrate: 5000
+  },
+  instagram_story: {
+    id: 'instagram_story',
+    name: 'Instagram Story',
+    resolution: '9:16',
+    frameRates: [24, 30],
+    maxDuration: 15,
+    maxFileSize: 50,
+    recommendedBitrate: 4000
+  },
+  tiktok: {
+    id: 'tiktok',
+    name: 'TikTok',
+    resolution: '9:16',
+    frameRates: [24, 30, 60],
+    minDuration: 3,
+    maxDuration: 180,
+    maxFileSize: 150,
+    recommendedBitrate: 6000
+  },
+  youtube_shorts: {
+    id: 'youtube_shorts',
+    name: 'YouTube Shorts',
+    resolution: '9:16',
+    frameRates: [24, 30, 60],
+    maxDuration: 60,
+    maxFileSize: 200,
+    recommendedBitrate: 8000
+  },
+  twitter: {
+    id: 'twitter',
+    name: 'Twitter (X)',
+    resolution: '720p',
+    frameRates: [24, 30],
+    maxDuration: 140,
+    maxFileSize: 512,
+    recommendedBitrate: 5000
+  }
+};
+
+// Below this the output is not worth uploading; fail instead
+export const MIN_PLATFORM_VIDEO_BITRATE = 300; // kbps
+
+// Container and muxing overhead kept free when sizing the bitrate
+const SIZE_HEADROOM = 0.95;
+
+export type PlatformLimitCode = 'DURATION_TOO_LONG' | 'DURATION_TOO_SHORT' | 'FILE_TOO_LARGE';
+
+export class PlatformLimitError extends Error {
+  constructor(message: string, public readonly code: PlatformLimitCode) {
+    super(message);
+    this.name = 'PlatformLimitError';
+  }
+}
+
+/**
+ * Settings stored on a batch job's settings (as `platform`)
+ */
+export type PlatformExportSettings = ExportSettingsInput & { platform: PlatformLimits };
+
+export const isPlatformId = (value: unknown): value is PlatformId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLATFORM_PRESETS, value);
+
+export const maxFileSizeBytes = (limits: PlatformLimits): number => limits.maxFileSize * 1024 * 1024;
+
+/**
+ * Frame rate the platform accepts closest to the project's (ties go to the lower rate)
+ */
+export function platformFrameRate(preset: PlatformPreset, frameRate?: number): ExportFrameRate {
+  const target = Number(frameRate) || 30;
+  return preset.frameRates.reduce((best, rate) =>
+    Math.abs(rate - target) < Math.abs(best - target) ? rate : best
+  );
+}
+
+/**
+ * Export settings for one platform: MP4/H.264 at the platform's resolution,
+ * capped at its recommended bitrate
+ */
+export function platformExportSettings(
+  preset: PlatformPreset,
+  options: { frameRate?: number | undefined; includeAudio?: boolean | undefined } = {}
+): PlatformExportSettings {
+  const { id, name, minDuration, maxDuration, maxFileSize } = preset;
+  return {
+    resolution: preset.resolution,
+    frameRate: platformFrameRate(preset, options.frameRate),
+    format: { container: 'mp4', videoCodec: 'h264' },
+    quality: {
+      preset: 'high',
+      videoBitrate: preset.recommendedBitrate,
+      audioBitrate: EXPORT_QUALITY_PRESETS.medium.audioBitrate
+    },
+    includeAudio: options.includeAudio !== false,
+    platform: { id, name, ...(minDuration !== undefined ? { minDuration } : {}), maxDuration, maxFileSize }
+  };
+}
+
+/**
+ * Whether a timeline of `duration` seconds fits the platform
+ */
+export function checkPlatformDuration(limits: PlatformLimits, duration: number): PlatformLimitError | null {
+  if (duration > limits.maxDuration) {
+    return new PlatformLimitError(
+      `${limits.name} allows up to ${limits.maxDuration}s (video is ${Math.round(duration * 10) / 10}s)`,
+      'DURATION_TOO_LONG'
+    );
+  }
+  if (limits.minDuration !== undefined && duration < limits.minDuration) {
+    return new PlatformLimitError(
+      `${limits.name} needs at least ${limits.minDuration}s (video is ${Math.round(duration * 10) / 10}s)`,
+      'DURATION_TOO_SHORT'
+    );
+  }
+  return null;
+}
+
+/**
+ * Video bitrate for a re-encode of an output that came out `size` bytes, over
+ * the platform's limit: the lower of what the limit allows for the duration
+ * and the current bitrate scaled down by the overshoot. Throws
+ * FILE_TOO_LARGE when that would fall under MIN_PLATFORM_VIDEO_BITRATE.
+ */
+export function reducedVideoBitrate(
+  limits: PlatformLimits,
+  output: { size: number; duration: number; videoBitrate: number; audioBitrate: number }
+): number {
+  const maxBytes = maxFileSizeBytes(limits);
+  const budget = (maxBytes * 8 * SIZE_HEADROOM) / 1000 / Math.max(output.duration, 1) - output.audioBitrate;
+  const scaled = output.videoBitrate * (maxBytes / output.size) * 0.9;
+  const bitrate = Math.floor(Math.min(budget, scaled));
+
+  if (!(bitrate >= MIN_PLATFORM_VIDEO_BITRATE)) {
+    throw new PlatformLimitError(
+      `Output is over ${limits.name}'s ${limits.maxFileSize}MB limit even at ${MIN_PLATFORM_VIDEO_BITRATE}kbps`,
+      'FILE_TOO_LARGE'
+    );
+  }
+  return bitrate;
+}
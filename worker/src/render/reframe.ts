@@ -0,0 +1,324 @@
+import { getClipSpeed, getSourceTime } from './effects';
+import { keyframeExpression, sampleKeyframes } from './keyframes';
+import type {
+  FrameSize,
+  ReframeAnalysis,
+  ReframePoint,
+  ReframeStrategy,
+  RenderClip,
+  RenderKeyframe,
+  RenderMedia
+} from './types';
+
+/**
+ * Content-aware reframing. Media analysis samples small grayscale frames and
+ * finds where the detail and motion are (image gradients, frame differences
+ * and a slight center bias; no ML), then keeps a smoothed focus path per
+ * source. When a clip is cover-fit into a frame of another aspect ratio the
+ * crop window follows that path instead of staying centered; reframe
+ * keyframes on the clip override it. The preview and the export share the path.
+ */
+
+export interface ReframeFocus {
+  x: number; // fraction of the source width
+  y: number; // fraction of the source height
+}
+
+/**
+ * Visible part of the source, fractions of the source size
+ */
+export interface CropWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const CENTER_FOCUS: ReframeFocus = { x: 0.5, y: 0.5 };
+
+// Analysis frames are scaled to this width (height keeps the aspect ratio)
+export const REFRAME_ANALYSIS_WIDTH = 96;
+export const REFRAME_INTERVAL = 0.5; // seconds
+export const REFRAME_MAX_SAMPLES = 240;
+
+const MOTION_WEIGHT = 2; // moving pixels count more than static detail
+const CENTER_BIAS = 0.3; // saliency falloff towards the corners
+const SMOOTHING_WINDOW = 1.5; // seconds, each side
+const MAX_FOCUS_SPEED = 0.3; // source widths/heights per second
+const PATH_TOLERANCE = 0.01; // simplification error, fraction of the source
+const MAX_FILTER_KEYFRAMES = 48; // nesting depth of the FFmpeg expression
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+export interface FrameSaliency extends ReframeFocus {
+  confidence: number; // 0-1, how concentrated the saliency is
+}
+
+/**
+ * Saliency centroid of one 8-bit grayscale frame. `previous` (the frame
+ * before, same size) adds motion; without it only detail counts.
+ */
+export function frameSaliency(
+  frame: Uint8Array,
+  width: number,
+  height: number,
+  previous?: Uint8Array | null
+): FrameSaliency {
+  if (width < 3 || height < 3) return { ...CENTER_FOCUS, confidence: 0 };
+
+  const scores = new Float32Array(width * height);
+  let total = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const detail = Math.abs(frame[i + 1]! - frame[i - 1]!) + Math.abs(frame[i + width]! - frame[i - width]!);
+      const motion = previous ? Math.abs(frame[i]! - previous[i]!) : 0;
+      const dx = x / (width - 1) - 0.5;
+      const dy = y / (height - 1) - 0.5;
+      const bias = 1 - CENTER_BIAS * 2 * (dx * dx + dy * dy);
+      const score = (detail + MOTION_WEIGHT * motion) * bias;
+      scores[i] = score;
+      total += score;
+      count++;
+    }
+  }
+
+  // Only what stands out from the average pulls the focus
+  const mean = total / count;
+  let weightSum = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const weight = scores[y * width + x]! - mean;
+      if (weight <= 0) continue;
+      weightSum += weight;
+      sumX += weight * (x + 0.5);
+      sumY += weight * (y + 0.5);
+    }
+  }
+
+  if (weightSum <= 0 || total <= 0) return { ...CENTER_FOCUS, confidence: 0 };
+  return {
+    x: sumX / weightSum / width,
+    y: sumY / weightSum / height,
+    confidence: clamp(weightSum / total, 0, 1)
+  };
+}
+
+/**
+ * Smooth raw focus samples into a camera path: a confidence-weighted moving
+ * average (low-confidence samples drift to their neighbors), then a speed
+ * limit so the crop never whips across the frame.
+ */
+export function smoothReframePath(samples: (ReframePoint & { confidence: number })[]): ReframePoint[] {
+  const averaged = samples.map(sample => {
+    let weightSum = 0;
+    let x = 0;
+    let y = 0;
+    for (const other of samples) {
+      const distance = Math.abs(other.time - sample.time);
+      if (distance > SMOOTHING_WINDOW) continue;
+      const weight = (1 - distance / (SMOOTHING_WINDOW + 1e-6)) * (other.confidence + 0.05);
+      weightSum += weight;
+      x += other.x * weight;
+      y += other.y * weight;
+    }
+    return weightSum > 0 ? { time: sample.time, x: x / weightSum, y: y / weightSum } : { time: sample.time, ...CENTER_FOCUS };
+  });
+
+  const path: ReframePoint[] = [];
+  averaged.forEach((point, index) => {
+    const previous = path[index - 1];
+    if (!previous) {
+      path.push(point);
+      return;
+    }
+    const step = MAX_FOCUS_SPEED * (point.time - previous.time);
+    path.push({
+      time: point.time,
+      x: clamp(point.x, previous.x - step, previous.x + step),
+      y: clamp(point.y, previous.y - step, previous.y + step)
+    });
+  });
+
+  return path.map(point => ({ time: round3(point.time), x: round3(point.x), y: round3(point.y) }));
+}
+
+/**
+ * Focus path of a source from grayscale frames sampled every `interval` seconds
+ * (a still image is a single frame)
+ */
+export function analyzeReframeFrames(frames: Uint8Array[], width: number, height: number, interval: number): ReframeAnalysis {
+  const samples = frames.map((frame, index) => ({
+    time: index * interval,
+    ...frameSaliency(frame, width, height, frames[index - 1])
+  }));
+  return { interval, points: smoothReframePath(samples) };
+}
+
+/**
+ * Focus of a path at `sourceTime` (linear between samples, held at the ends)
+ */
+export function sampleReframePath(points: ReframePoint[], sourceTime: number): ReframeFocus {
+  const first = points[0];
+  if (!first) return { ...CENTER_FOCUS };
+  if (sourceTime <= first.time) return { x: first.x, y: first.y };
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i]!;
+    const to = points[i + 1]!;
+    if (sourceTime < to.time) {
+      const span = to.time - from.time;
+      const p = span > 0 ? (sourceTime - from.time) / span : 1;
+      return { x: from.x + (to.x - from.x) * p, y: from.y + (to.y - from.y) * p };
+    }
+  }
+  const last = points[points.length - 1]!;
+  return { x: last.x, y: last.y };
+}
+
+function reframeKeyframeTracks(clip: RenderClip): { x: RenderKeyframe[]; y: RenderKeyframe[] } | null {
+  const keyframes = clip.reframe?.keyframes;
+  if (!keyframes || keyframes.length === 0) return null;
+  return {
+    x: keyframes.map(keyframe => ({ time: keyframe.time, value: clamp(keyframe.x, 0, 1) })),
+    y: keyframes.map(keyframe => ({ time: keyframe.time, value: clamp(keyframe.y, 0, 1) }))
+  };
+}
+
+export function resolveReframeStrategy(clip: RenderClip, projectStrategy?: ReframeStrategy): ReframeStrategy {
+  return clip.reframe?.strategy || projectStrategy || 'center';
+}
+
+function smartPath(clip: RenderClip, media: RenderMedia | null | undefined, projectStrategy?: ReframeStrategy): ReframePoint[] | null {
+  if (resolveReframeStrategy(clip, projectStrategy) !== 'smart') return null;
+  const points = media?.reframe?.points;
+  return points && points.length > 0 ? points : null;
+}
+
+/**
+ * Focus of a clip at `clipTime`: its reframe keyframes, else the media's
+ * smart path (when the strategy is smart), else the center
+ */
+export function reframeFocusAt(
+  clip: RenderClip,
+  media: RenderMedia | null | undefined,
+  clipTime: number,
+  projectStrategy?: ReframeStrategy
+): ReframeFocus {
+  const tracks = reframeKeyframeTracks(clip);
+  if (tracks) {
+    return { x: sampleKeyframes(tracks.x, clipTime), y: sampleKeyframes(tracks.y, clipTime) };
+  }
+  const path = smartPath(clip, media, projectStrategy);
+  return path ? sampleReframePath(path, getSourceTime(clip, clipTime)) : { ...CENTER_FOCUS };
+}
+
+/**
+ * Part of the source shown when it is cover-fit into `frame` around `focus`
+ */
+export function cropWindow(source: FrameSize, frame: FrameSize, focus: ReframeFocus): CropWindow {
+  const scale = Math.max(frame.width / source.width, frame.height / source.height);
+  const width = Math.min(1, frame.width / scale / source.width);
+  const height = Math.min(1, frame.height / scale / source.height);
+  return {
+    x: clamp(focus.x - width / 2, 0, 1 - width),
+    y: clamp(focus.y - height / 2, 0, 1 - height),
+    width,
+    height
+  };
+}
+
+// Douglas-Peucker on both axes against time
+function simplifyPath(points: ReframePoint[], tolerance: number): ReframePoint[] {
+  if (points.length <= 2) return points;
+  const first = points[0]!;
+  const last = points[points.length - 1]!;
+  const span = last.time - first.time;
+
+  let worst = 0;
+  let worstIndex = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const point = points[i]!;
+    const p = span > 0 ? (point.time - first.time) / span : 0;
+    const error = Math.max(
+      Math.abs(point.x - (first.x + (last.x - first.x) * p)),
+      Math.abs(point.y - (first.y + (last.y - first.y) * p))
+    );
+    if (error > worst) {
+      worst = error;
+      worstIndex = i;
+    }
+  }
+
+  if (worst <= tolerance) return [first, last];
+  return [
+    ...simplifyPath(points.slice(0, worstIndex + 1), tolerance).slice(0, -1),
+    ...simplifyPath(points.slice(worstIndex), tolerance)
+  ];
+}
+
+/**
+ * The clip's focus path in input time (seconds from where the clip's source
+ * starts reading, i.e. the FFmpeg filter's `t` before the speed change),
+ * simplified for an FFmpeg expression. Null when the focus is the center.
+ */
+export function clipReframeTrack(
+  clip: RenderClip,
+  media: RenderMedia | null | undefined,
+  projectStrategy?: ReframeStrategy
+): ReframePoint[] | null {
+  const speed = getClipSpeed(clip);
+  const trimStart = clip.trimStart || 0;
+  let track: ReframePoint[];
+
+  const tracks = reframeKeyframeTracks(clip);
+  if (tracks) {
+    track = [...(clip.reframe?.keyframes || [])]
+      .sort((a, b) => a.time - b.time)
+      .map(keyframe => ({ time: keyframe.time * speed, x: clamp(keyframe.x, 0, 1), y: clamp(keyframe.y, 0, 1) }));
+  } else {
+    const path = smartPath(clip, media, projectStrategy);
+    if (!path) return null;
+    const end = trimStart + clip.duration * speed;
+    track = [
+      { time: trimStart, ...sampleReframePath(path, trimStart) },
+      ...path.filter(point => point.time > trimStart && point.time < end),
+      { time: end, ...sampleReframePath(path, end) }
+    ].map(point => ({ ...point, time: point.time - trimStart }));
+  }
+
+  let simplified = simplifyPath(track, PATH_TOLERANCE);
+  for (let tolerance = PATH_TOLERANCE * 2; simplified.length > MAX_FILTER_KEYFRAMES; tolerance *= 2) {
+    simplified = simplifyPath(track, tolerance);
+  }
+
+  const centered = simplified.every(point => Math.abs(point.x - 0.5) < 1e-3 && Math.abs(point.y - 0.5) < 1e-3);
+  return centered ? null : simplified.map(point => ({ time: round3(point.time), x: round3(point.x), y: round3(point.y) }));
+}
+
+/**
+ * FFmpeg crop after `scale=...:force_original_aspect_ratio=increase`: centered
+ * without a focus path, otherwise following it per frame
+ */
+export function buildReframeCrop(
+  clip: RenderClip,
+  { width, height }: FrameSize,
+  media: RenderMedia | null | undefined,
+  projectStrategy?: ReframeStrategy
+): string {
+  const track = clipReframeTrack(clip, media, projectStrategy);
+  if (!track) return `crop=${width}:${height}`;
+
+  const first = track[0]!;
+  const axis = (key: 'x' | 'y') => track.every(point => point[key] === first[key])
+    ? String(first[key])
+    : keyframeExpression(track.map(point => ({ time: point.time, value: point[key] })), 't');
+  const x = `clip((${axis('x')})*iw-ow/2,0,iw-ow)`;
+  const y = `clip((${axis('y')})*ih-oh/2,0,ih-oh)`;
+  return `crop=${width}:${height}:x='${x}':y='${y}'`;
+}
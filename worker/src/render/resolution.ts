@@ -0,0 +1,21 @@
+import type { FrameSize } from './types';
+
+// Output frame sizes, kept in sync with RESOLUTION_PRESETS on the client
+export const RENDER_RESOLUTIONS: Record<string, FrameSize> = {
+  '480p': { width: 854, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '1440p': { width: 2560, height: 1440 },
+  '4K': { width: 3840, height: 2160 },
+  '9:16': { width: 1080, height: 1920 },
+  '16:9': { width: 1920, height: 1080 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:3': { width: 1440, height: 1080 },
+  'custom': { width: 1920, height: 1080 }
+};
+
+export const DEFAULT_RESOLUTION = '9:16';
+
+export function resolveResolution(resolution: string | undefined): FrameSize {
+  return RENDER_RESOLUTIONS[resolution || DEFAULT_RESOLUTION] || RENDER_RESOLUTIONS[DEFAULT_RESOLUTION]!;
+}
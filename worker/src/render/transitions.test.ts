@@ -0,0 +1,142 @@
+import { planTransitions, resolveTransition } from './transitions';
+import type { RenderClip, RenderTransition } from './types';
+
+const clip = (id: string, startTime: number, duration: number, overrides: Partial<RenderClip> = {}): RenderClip => ({
+  id,
+  mediaId: `media-${id}`,
+  startTime,
+  duration,
+  trimStart: 0,
+  layer: 0,
+  ...overrides
+});
+
+const transition = (type: string, duration: number, parameters?: Record<string, unknown>): RenderTransition =>
+  parameters ? { type, duration, parameters } : { type, duration };
+
+describe('resolveTransition', () => {
+  it.each([
+    [transition('crossfade', 1), 'fade'],
+    [transition('slide', 1), 'slideleft'],
+    [transition('slide', 1, { direction: 'up' }), 'slideup'],
+    [transition('slide', 1, { direction: 'sideways' }), 'slideleft'],
+    [transition('wipe', 1), 'wipeleft'],
+    [transition('wipe', 1, { direction: 'vertical' }), 'wipeup'],
+    [transition('wipe', 1, { direction: 'diagonal' }), 'wipetl'],
+    [transition('wipe', 1, { direction: 'down' }), 'wipedown'],
+    [transition('custom', 1, { name: 'circleopen' }), 'circleopen'],
+    [transition('custom', 1, { name: 'not-an-xfade' }), 'fade']
+  ])('maps %o to %s', (input, name) => {
+    expect(resolveTransition(input)).toEqual({ name, duration: 1 });
+  });
+
+  it('treats cuts, unknown types and zero durations as hard cuts', () => {
+    expect(resolveTransition(transition('cut', 1))).toBeNull();
+    expect(resolveTransition(transition('spin', 1))).toBeNull();
+    expect(resolveTransition(transition('crossfade', 0))).toBeNull();
+    expect(resolveTransition(null)).toBeNull();
+  });
+});
+
+describe('planTransitions', () => {
+  it('joins adjacent clips with the incoming clip\'s transition and pads the outgoing clip', () => {
+    const clips = [
+      clip('a', 0, 4),
+      clip('b', 4, 3, { transitions: { in: transition('crossfade', 1) } }),
+      clip('c', 7, 5, { transitions: { in: transition('slide', 0.5, { direction: 'right' }) } })
+    ];
+
+    const { plan, chains } = planTransitions(clips);
+
+    expect(chains).toEqual([{ layer: 0, indices: [0, 1, 2] }]);
+    expect(plan[0]).toEqual({ tail: 1, join: null, out: { name: 'fade', duration: 1 }, fadeIn: 0, fadeOut: 0 });
+    expect(plan[1]).toEqual({
+      tail: 0.5,
+      join: { name: 'fade', duration: 1 },
+      out: { name: 'slideright', duration: 0.5 },
+      fadeIn: 0,
+      fadeOut: 0
+    });
+    expect(plan[2]!.join).toEqual({ name: 'slideright', duration: 0.5 });
+    expect(plan[2]!.tail).toBe(0);
+  });
+
+  it('falls back to the outgoing clip\'s transition', () => {
+    const clips = [
+      clip('a', 0, 4, { transitions: { out: transition('wipe', 0.75, { direction: 'right' }) } }),
+      clip('b', 4, 4)
+    ];
+
+    const { plan } = planTransitions(clips);
+
+    expect(plan[1]!.join).toEqual({ name: 'wiperight', duration: 0.75 });
+    expect(plan[0]!.tail).toBe(0.75);
+  });
+
+  it('uses the custom xfade name', () => {
+    const clips = [
+      clip('a', 0, 2),
+      clip('b', 2, 2, { transitions: { in: transition('custom', 0.5, { name: 'pixelize' }) } })
+    ];
+
+    expect(planTransitions(clips).plan[1]!.join).toEqual({ name: 'pixelize', duration: 0.5 });
+  });
+
+  it('limits the transition to the shorter of the two clips', () => {
+    const clips = [
+      clip('a', 0, 0.6),
+      clip('b', 0.6, 5, { transitions: { in: transition('crossfade', 2) } })
+    ];
+
+    const { plan } = planTransitions(clips);
+
+    expect(plan[1]!.join).toEqual({ name: 'fade', duration: 0.6 });
+    expect(plan[0]!.tail).toBe(0.6);
+  });
+
+  it('starts a new chain at a cut or a gap', () => {
+    const clips = [
+      clip('a', 0, 2),
+      clip('b', 2, 2, { transitions: { in: transition('cut', 1) } }),
+      clip('c', 5, 2, { transitions: { in: transition('crossfade', 1) } })
+    ];
+
+    const { plan, chains } = planTransitions(clips);
+
+    expect(chains.map(chain => chain.indices)).toEqual([[0], [1], [2]]);
+    expect(plan.every(entry => entry.tail === 0 && entry.join === null)).toBe(true);
+    // With no neighbour, c's crossfade fades the layer in instead
+    expect(plan[2]!.fadeIn).toBe(1);
+  });
+
+  it('turns transitions at chain ends into fades', () => {
+    const clips = [
+      clip('a', 0, 3, { transitions: { in: transition('crossfade', 0.5) } }),
+      clip('b', 3, 3, { transitions: { out: transition('slide', 5) } })
+    ];
+
+    const { plan, chains } = planTransitions(clips);
+
+    // b has no `in` and a has no `out`, so the two are not joined
+    expect(chains.map(chain => chain.indices)).toEqual([[0], [1]]);
+    expect(plan[0]!.fadeIn).toBe(0.5);
+    expect(plan[1]!.fadeOut).toBe(3);
+  });
+
+  it('plans each layer separately, lowest first', () => {
+    const clips = [
+      clip('title', 1, 2, { layer: 1 }),
+      clip('b', 3, 3, { transitions: { in: transition('crossfade', 1) } }),
+      clip('a', 0, 3)
+    ];
+
+    const { plan, chains } = planTransitions(clips);
+
+    expect(chains).toEqual([
+      { layer: 0, indices: [2, 1] },
+      { layer: 1, indices: [0] }
+    ]);
+    expect(plan[2]!.tail).toBe(1);
+    expect(plan[0]!.tail).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import type { RenderClip, RenderTransition } from './types';
+
+/**
+ * Transitions are expressed with FFmpeg xfade names; the preview approximates
+ * the same names on the canvas (see transitionGeometry).
+ */
+export const XFADE_TRANSITIONS = [
+  'fade', 'fadeblack', 'fadewhite', 'fadegrays', 'dissolve', 'distance', 'radial', 'pixelize',
+  'wipeleft', 'wiperight', 'wipeup', 'wipedown', 'wipetl', 'wipetr', 'wipebl', 'wipebr',
+  'slideleft', 'slideright', 'slideup', 'slidedown',
+  'smoothleft', 'smoothright', 'smoothup', 'smoothdown',
+  'circlecrop', 'rectcrop', 'circleopen', 'circleclose',
+  'vertopen', 'vertclose', 'horzopen', 'horzclose',
+  'diagtl', 'diagtr', 'diagbl', 'diagbr',
+  'hlslice', 'hrslice', 'vuslice', 'vdslice', 'hblur', 'squeezeh', 'squeezev'
+] as const;
+
+const WIPE_DIRECTIONS: Record<string, string> = {
+  horizontal: 'wipeleft',
+  vertical: 'wipeup',
+  diagonal: 'wipetl',
+  left: 'wipeleft',
+  right: 'wiperight',
+  up: 'wipeup',
+  down: 'wipedown'
+};
+
+const SLIDE_DIRECTIONS = ['left', 'right', 'up', 'down'];
+
+// Map a Transition to an xfade name (null = hard cut)
+export const TRANSITION_PROCESSORS: Record<string, (parameters: Record<string, unknown>) => string | null> = {
+  crossfade: () => 'fade',
+  slide: (parameters) => {
+    const direction = String(parameters.direction || 'left');
+    return SLIDE_DIRECTIONS.includes(direction) ? `slide${direction}` : 'slideleft';
+  },
+  wipe: (parameters) => WIPE_DIRECTIONS[String(parameters.direction || 'horizontal')] || 'wipeleft',
+  custom: (parameters) => {
+    const name = String(parameters.name || '');
+    return (XFADE_TRANSITIONS as readonly string[]).includes(name) ? name : 'fade';
+  },
+  cut: () => null
+};
+
+// Two clips on a layer are joined when the gap between them is below one frame
+export const ADJACENT_TOLERANCE = 0.05;
+
+export interface ResolvedTransition {
+  name: string;
+  duration: number;
+}
+
+export interface ClipTransitionPlan {
+  tail: number; // seconds the clip stays visible past its end for an outgoing transition
+  join: ResolvedTransition | null; // transition from the previous clip on the layer
+  out: ResolvedTransition | null; // transition into the next clip on the layer
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export interface TransitionChain {
+  layer: number;
+  indices: number[];
+}
+
+export interface TransitionPlan {
+  plan: ClipTransitionPlan[];
+  chains: TransitionChain[];
+}
+
+export function resolveTransition(transition: RenderTransition | null | undefined): ResolvedTransition | null {
+  if (!transition || !(transition.duration > 0)) return null;
+  const processor = TRANSITION_PROCESSORS[transition.type];
+  const name = processor ? processor(transition.parameters || {}) : null;
+  return name ? { name, duration: transition.duration } : null;
+}
+
+/**
+ * Work out how clips on each layer connect.
+ * Adjacent clips are joined by the incoming clip's `in` transition, falling back
+ * to the outgoing clip's `out`. The transition runs over the first seconds of the
+ * incoming clip, so the outgoing clip stays visible that much longer (`tail`).
+ * Transitions with no neighbour on the layer become alpha fades instead.
+ *
+ * Returns one entry per clip (timeline order) and the chains of joined clips.
+ */
+export function planTransitions(clips: RenderClip[]): TransitionPlan {
+  const plan: ClipTransitionPlan[] = clips.map(() => ({ tail: 0, join: null, out: null, fadeIn: 0, fadeOut: 0 }));
+  const chains: TransitionChain[] = [];
+
+  const layers = new Map<number, number[]>();
+  clips.forEach((clip, index) => {
+    const layer = clip.layer || 0;
+    layers.set(layer, [...(layers.get(layer) || []), index]);
+  });
+
+  Array.from(layers.keys()).sort((a, b) => a - b).forEach(layer => {
+    const indices = (layers.get(layer) || []).sort((a, b) => clips[a]!.startTime - clips[b]!.startTime);
+    let chain: TransitionChain | null = null;
+
+    indices.forEach((index, i) => {
+      const clip = clips[index]!;
+      const prevIndex = i > 0 ? indices[i - 1]! : -1;
+      const prev = prevIndex >= 0 ? clips[prevIndex]! : null;
+      const adjacent = prev !== null &&
+        Math.abs(prev.startTime + prev.duration - clip.startTime) < ADJACENT_TOLERANCE;
+      const join = adjacent && prev
+        ? resolveTransition(clip.transitions?.in) || resolveTransition(prev.transitions?.out)
+        : null;
+
+      if (join && chain) {
+        join.duration = Math.min(join.duration, clip.duration, prev!.duration);
+        plan[index]!.join = join;
+        plan[prevIndex]!.tail = join.duration;
+        plan[prevIndex]!.out = join;
+        chain.indices.push(index);
+      } else {
+        chain = { layer, indices: [index] };
+        chains.push(chain);
+      }
+    });
+  });
+
+  // Unjoined chain ends fade against whatever is below the layer
+  chains.forEach(chain => {
+    const firstIndex = chain.indices[0]!;
+    const lastIndex = chain.indices[chain.indices.length - 1]!;
+    const fadeIn = resolveTransition(clips[firstIndex]!.transitions?.in);
+    const fadeOut = resolveTransition(clips[lastIndex]!.transitions?.out);
+    if (fadeIn) plan[firstIndex]!.fadeIn = Math.min(fadeIn.duration, clips[firstIndex]!.duration);
+    if (fadeOut) plan[lastIndex]!.fadeOut = Math.min(fadeOut.duration, clips[lastIndex]!.duration);
+  });
+
+  return { plan, chains };
+}
+
+export interface TransitionGeometry {
+  alpha: number;
+  offsetX: number; // fraction of frame width
+  offsetY: number; // fraction of frame height
+  reveal: { x: number; y: number; width: number; height: number } | null; // fractions of the frame
+}
+
+export const IDENTITY_GEOMETRY: TransitionGeometry = { alpha: 1, offsetX: 0, offsetY: 0, reveal: null };
+
+/**
+ * How the outgoing and incoming clip are drawn at `progress` (0-1) through an
+ * xfade transition. Slides and wipes are reproduced; everything else dissolves.
+ */
+export function transitionGeometry(
+  name: string,
+  progress: number
+): { outgoing: TransitionGeometry; incoming: TransitionGeometry } {
+  const q = Math.min(1, Math.max(0, progress));
+
+  switch (name) {
+    case 'slideleft':
+      return { outgoing: { ...IDENTITY_GEOMETRY, offsetX: -q }, incoming: { ...IDENTITY_GEOMETRY, offsetX: 1 - q } };
+    case 'slideright':
+      return { outgoing: { ...IDENTITY_GEOMETRY, offsetX: q }, incoming: { ...IDENTITY_GEOMETRY, offsetX: q - 1 } };
+    case 'slideup':
+      return { outgoing: { ...IDENTITY_GEOMETRY, offsetY: -q }, incoming: { ...IDENTITY_GEOMETRY, offsetY: 1 - q } };
+    case 'slidedown':
+      return { outgoing: { ...IDENTITY_GEOMETRY, offsetY: q }, incoming: { ...IDENTITY_GEOMETRY, offsetY: q - 1 } };
+    case 'wipeleft':
+      return { outgoing: IDENTITY_GEOMETRY, incoming: { ...IDENTITY_GEOMETRY, reveal: { x: 1 - q, y: 0, width: q, height: 1 } } };
+    case 'wiperight':
+      return { outgoing: IDENTITY_GEOMETRY, incoming: { ...IDENTITY_GEOMETRY, reveal: { x: 0, y: 0, width: q, height: 1 } } };
+    case 'wipeup':
+      return { outgoing: IDENTITY_GEOMETRY, incoming: { ...IDENTITY_GEOMETRY, reveal: { x: 0, y: 1 - q, width: 1, height: q } } };
+    case 'wipedown':
+      return { outgoing: IDENTITY_GEOMETRY, incoming: { ...IDENTITY_GEOMETRY, reveal: { x: 0, y: 0, width: 1, height: q } } };
+    case 'wipetl':
+      return { outgoing: IDENTITY_GEOMETRY, incoming: { ...IDENTITY_GEOMETRY, reveal: { x: 0, y: 0, width: q, height: q } } };
+    default:
+      return { outgoing: IDENTITY_GEOMETRY, incoming: { ...IDENTITY_GEOMETRY, alpha: q } };
+  }
+}
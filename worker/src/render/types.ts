@@ -0,0 +1,108 @@
+/**
+ * Structural shapes the renderer reads from a project.
+ * They mirror the client's Project/TimelineClip types so both the editor
+ * and the export worker can pass their own objects in unchanged.
+ */
+
+export interface RenderTransform {
+  x: number; // clip center, percentage of frame width
+  y: number; // clip center, percentage of frame height
+  scale: number; // 1 = fills the frame
+  opacity: number; // percentage
+}
+
+export interface RenderKeyframe {
+  time: number; // seconds from the clip start
+  value: number;
+  easing?: string | undefined; // curve towards the next keyframe
+}
+
+export interface RenderEffect {
+  id: string;
+  type: string;
+  enabled: boolean;
+  parameters: Record<string, unknown>;
+  keyframes?: Record<string, RenderKeyframe[]> | undefined; // per-parameter tracks
+}
+
+export interface RenderTransition {
+  type: string;
+  duration: number; // seconds
+  parameters?: Record<string, unknown>;
+}
+
+// center: plain cover-fit; smart: follow the media's focus path; manual: keyframes only
+export type ReframeStrategy = 'center' | 'smart' | 'manual';
+
+export interface ReframePoint {
+  time: number; // seconds into the source
+  x: number; // focus, fraction of the source width
+  y: number; // focus, fraction of the source height
+}
+
+/**
+ * Focus path from media analysis (MediaFile.reframe), already smoothed
+ */
+export interface ReframeAnalysis {
+  interval: number; // seconds between samples
+  points: ReframePoint[];
+}
+
+export interface RenderReframeKeyframe {
+  id?: string | undefined;
+  time: number; // seconds from the clip start
+  x: number; // focus, fraction of the source width
+  y: number; // focus, fraction of the source height
+}
+
+export interface RenderClipReframe {
+  strategy?: ReframeStrategy | undefined; // falls back to the project's cropStrategy
+  keyframes?: RenderReframeKeyframe[] | undefined; // manual overrides, win over the smart path
+}
+
+export interface RenderClip {
+  id: string;
+  mediaId: string;
+  startTime: number; // seconds
+  duration: number; // seconds
+  trimStart: number; // seconds
+  layer: number;
+  transform?: Partial<RenderTransform> | undefined;
+  reframe?: RenderClipReframe | undefined;
+  effects?: RenderEffect[] | undefined;
+  transitions?: {
+    in?: RenderTransition | null | undefined;
+    out?: RenderTransition | null | undefined;
+  } | undefined;
+}
+
+export interface RenderAudioTrack {
+  id: string;
+  muted?: boolean | undefined;
+  solo?: boolean | undefined;
+}
+
+export interface RenderMedia {
+  id: string;
+  type: string;
+  url: string;
+  reframe?: ReframeAnalysis | null | undefined;
+}
+
+export interface RenderProject {
+  settings: {
+    resolution: string;
+    frameRate: number;
+    cropStrategy?: ReframeStrategy | undefined;
+  };
+  timeline: {
+    clips: RenderClip[];
+    duration: number;
+  };
+  mediaLibrary?: RenderMedia[] | undefined;
+}
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
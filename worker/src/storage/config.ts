@@ -0,0 +1,92 @@
+import { LocalStorage } from './local';
+import { S3Storage } from './s3';
+import { StorageError, type StorageBackend, type StorageLocation, type StorageProvider } from './types';
+
+/**
+ * Backends from environment variables:
+ *   STORAGE_PROVIDER       local | s3 (default: s3 when the R2_* credentials are set)
+ *   STORAGE_LOCAL_ROOT     directory of the local backend
+ *   R2_ENDPOINT, R2_BUCKET, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY
+ *   R2_REGION              default 'auto'
+ *   R2_FORCE_PATH_STYLE    'true' for local stand-ins such as MinIO
+ *   R2_PUBLIC_BASE_URL     optional public URL of the bucket
+ */
+
+export type StorageEnv = Record<string, string | undefined>;
+
+export interface StorageDefaults {
+  localRoot: string;
+  localPublicBaseUrl?: string;
+  localSignedBaseUrl?: string;
+  signingSecret?: string;
+}
+
+export function isS3Configured(env: StorageEnv): boolean {
+  return Boolean(env.R2_ENDPOINT && env.R2_BUCKET && env.R2_ACCESS_KEY_ID && env.R2_SECRET_ACCESS_KEY);
+}
+
+export function resolveStorageProvider(env: StorageEnv): StorageProvider {
+  const provider = env.STORAGE_PROVIDER?.trim().toLowerCase();
+  if (provider === 'local' || provider === 's3') return provider;
+  if (provider) {
+    throw new StorageError(`Unknown STORAGE_PROVIDER: ${env.STORAGE_PROVIDER}`, 'NOT_CONFIGURED');
+  }
+  return isS3Configured(env) ? 's3' : 'local';
+}
+
+export function createLocalStorage(env: StorageEnv, defaults: StorageDefaults): LocalStorage {
+  const signingSecret = env.STORAGE_SIGNING_SECRET || defaults.signingSecret;
+  return new LocalStorage({
+    root: env.STORAGE_LOCAL_ROOT || defaults.localRoot,
+    ...(defaults.localPublicBaseUrl !== undefined ? { publicBaseUrl: defaults.localPublicBaseUrl } : {}),
+    ...(defaults.localSignedBaseUrl !== undefined ? { signedBaseUrl: defaults.localSignedBaseUrl } : {}),
+    ...(signingSecret ? { signingSecret } : {})
+  });
+}
+
+// null when the R2_* variables are not set
+export function createS3Storage(env: StorageEnv): S3Storage | null {
+  if (!isS3Configured(env)) return null;
+  return new S3Storage({
+    bucket: env.R2_BUCKET!,
+    accessKeyId: env.R2_ACCESS_KEY_ID!,
+    secretAccessKey: env.R2_SECRET_ACCESS_KEY!,
+    endpoint: env.R2_ENDPOINT!,
+    region: env.R2_REGION || 'auto',
+    forcePathStyle: env.R2_FORCE_PATH_STYLE === 'true',
+    ...(env.R2_PUBLIC_BASE_URL ? { publicBaseUrl: env.R2_PUBLIC_BASE_URL } : {})
+  });
+}
+
+/**
+ * The configured backends. New objects go to `primary`; existing objects are
+ * read from the backend recorded in their location, so moving to another
+ * provider does not strand files written before the switch.
+ */
+export class StorageRegistry {
+  readonly local: LocalStorage;
+  readonly s3: S3Storage | null;
+  readonly primary: StorageBackend;
+
+  constructor(env: StorageEnv, defaults: StorageDefaults) {
+    this.local = createLocalStorage(env, defaults);
+    this.s3 = createS3Storage(env);
+
+    const provider = resolveStorageProvider(env);
+    if (provider === 's3' && !this.s3) {
+      throw new StorageError(
+        'STORAGE_PROVIDER=s3 needs R2_ENDPOINT, R2_BUCKET, R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY',
+        'NOT_CONFIGURED'
+      );
+    }
+    this.primary = provider === 's3' ? this.s3! : this.local;
+  }
+
+  backendFor(location: Pick<StorageLocation, 'provider'>): StorageBackend {
+    if (location.provider !== 's3') return this.local;
+    if (!this.s3) {
+      throw new StorageError('Object is stored in S3 but S3 storage is not configured', 'NOT_CONFIGURED');
+    }
+    return this.s3;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Object storage shared by the server and the worker.
+ * Media, thumbnails, waveforms and export outputs are written and read through
+ * a StorageBackend, so they can live on local disk or in an S3-compatible bucket.
+ */
+export * from './types';
+export * from './keys';
+export * from './local';
+export * from './s3';
+export * from './config';
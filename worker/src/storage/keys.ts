@@ -0,0 +1,78 @@
+import { StorageError, type StorageLocation, type StorageProvider } from './types';
+
+/**
+ * Object key layout, identical on every backend:
+ *   uploads/<ownerId>/<file>              uploaded media
+ *   uploads/<ownerId>/thumbnails/<file>   thumbnails, waveforms and filmstrips
+ *   uploads/<ownerId>/proxies/<file>      low-resolution preview renditions
+ *   exports/<userId>/<file>               export outputs
+ * The local backend stores a key at <root>/<key>, which keeps the existing
+ * server/uploads and server/exports directories valid.
+ */
+
+// Keys are relative: no parent or empty segments, no leading slash or drive letter
+export function normalizeKey(key: string): string {
+  const normalized = String(key).replace(/\\/g, '/');
+  const segments = normalized.split('/');
+  if (
+    !normalized ||
+    /^[a-z]:/i.test(normalized) ||
+    segments.some(segment => segment === '' || segment === '.' || segment === '..')
+  ) {
+    throw new StorageError(`Invalid storage key: ${key}`, 'INVALID_KEY');
+  }
+  return normalized;
+}
+
+export const mediaKey = (ownerId: string, fileName: string) => normalizeKey(`uploads/${ownerId}/${fileName}`);
+
+export const thumbnailKey = (ownerId: string, fileName: string) =>
+  normalizeKey(`uploads/${ownerId}/thumbnails/${fileName}`);
+
+export const proxyKey = (ownerId: string, fileName: string) =>
+  normalizeKey(`uploads/${ownerId}/proxies/${fileName}`);
+
+export const exportKey = (userId: string, fileName: string) => normalizeKey(`exports/${userId}/${fileName}`);
+
+interface StoredLocation {
+  provider?: string;
+  key?: string;
+  bucket?: string;
+}
+
+const toProvider = (provider: string | undefined): StorageProvider => (provider === 's3' ? 's3' : 'local');
+
+const withBucket = (location: StorageLocation, bucket: string | undefined): StorageLocation =>
+  bucket ? { ...location, bucket } : location;
+
+/**
+ * Location of a media record. Records from before the storage layer keep only
+ * the file name in storage.key (relative to uploads/<ownerId>).
+ */
+export function mediaLocation(record: { ownerId: string; storage?: StoredLocation | null }): StorageLocation {
+  const storage = record.storage || {};
+  const key = storage.key || '';
+  return withBucket(
+    {
+      provider: toProvider(storage.provider),
+      key: key.includes('/') ? normalizeKey(key) : mediaKey(String(record.ownerId), key)
+    },
+    storage.bucket
+  );
+}
+
+/**
+ * Location of an export output. Local outputs reported before the storage
+ * layer have no key and live at exports/<userId>/<filename>.
+ */
+export function exportLocation(job: {
+  userId: string;
+  output?: { filename?: string; storage?: StoredLocation | null } | null;
+}): StorageLocation | null {
+  const storage = job.output?.storage || {};
+  if (storage.key) {
+    return withBucket({ provider: toProvider(storage.provider), key: normalizeKey(storage.key) }, storage.bucket);
+  }
+  if (!job.output?.filename) return null;
+  return { provider: 'local', key: exportKey(String(job.userId), job.output.filename) };
+}
@@ -0,0 +1,107 @@
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalStorage } from './local';
+import { StorageError } from './types';
+
+const SECRET = 'test-secret';
+
+let root: string;
+let storage: LocalStorage;
+
+// expires, signature and name from a URL produced by getSignedUrl
+const signedParams = (url: string) => {
+  const params = new URL(url, 'http://localhost').searchParams;
+  return {
+    expires: Number(params.get('expires')),
+    signature: params.get('signature') || '',
+    name: params.get('name') ?? undefined
+  };
+};
+
+beforeEach(async () => {
+  root = await fsp.mkdtemp(path.join(os.tmpdir(), 'flickmv-storage-test-'));
+  storage = new LocalStorage({ root, signedBaseUrl: '/api/files', signingSecret: SECRET });
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await fsp.rm(root, { recursive: true, force: true });
+});
+
+describe('LocalStorage objects', () => {
+  it('writes, reads and deletes an object under the root', async () => {
+    const location = await storage.put('uploads/user-1/clip.mp4', 'video bytes');
+
+    expect(location).toEqual({ provider: 'local', key: 'uploads/user-1/clip.mp4' });
+    await expect(fsp.readFile(path.join(root, 'uploads/user-1/clip.mp4'), 'utf8')).resolves.toBe('video bytes');
+    expect((await storage.get('uploads/user-1/clip.mp4')).toString()).toBe('video bytes');
+
+    await storage.delete('uploads/user-1/clip.mp4');
+
+    await expect(storage.stat('uploads/user-1/clip.mp4')).resolves.toBeNull();
+  });
+
+  it('reports a missing object as NOT_FOUND', async () => {
+    await expect(storage.get('uploads/user-1/missing.mp4')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it.each([
+    ['a parent segment', 'uploads/../../etc/passwd'],
+    ['a leading parent segment', '../outside.txt'],
+    ['a backslash parent segment', 'uploads\\..\\..\\outside.txt'],
+    ['an empty segment', 'uploads//clip.mp4'],
+    ['an empty key', ''],
+    ['an absolute path', '/etc/passwd'],
+    ['a backslash absolute path', '\\tmp\\escape.txt'],
+    ['a drive letter', 'C:/Windows/win.ini']
+  ])('rejects a key with %s', async (_case, key) => {
+    await expect(storage.put(key, 'x')).rejects.toMatchObject({ code: 'INVALID_KEY' });
+    expect(() => storage.pathFor(key)).toThrow(StorageError);
+  });
+});
+
+describe('LocalStorage signed URLs', () => {
+  const KEY = 'exports/user-1/my video.mp4';
+
+  it('signs a URL that verifies for its key and name', async () => {
+    const url = await storage.getSignedUrl(KEY, { expiresIn: 60, downloadName: 'MV.mp4' });
+    const { expires, signature, name } = signedParams(url);
+
+    expect(url.startsWith('/api/files/exports/user-1/my%20video.mp4?')).toBe(true);
+    expect(name).toBe('MV.mp4');
+    expect(storage.verifySignedUrl(KEY, expires, signature, name)).toBe(true);
+  });
+
+  it('rejects an expired URL', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const { expires, signature } = signedParams(await storage.getSignedUrl(KEY, { expiresIn: 60 }));
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:01Z'));
+
+    expect(storage.verifySignedUrl(KEY, expires, signature)).toBe(false);
+  });
+
+  it('rejects a tampered signature, key, expiry or name', async () => {
+    const { expires, signature } = signedParams(await storage.getSignedUrl(KEY, { downloadName: 'MV.mp4' }));
+    const flipped = `${signature.slice(0, -1)}${signature.endsWith('0') ? '1' : '0'}`;
+
+    expect(storage.verifySignedUrl(KEY, expires, flipped, 'MV.mp4')).toBe(false);
+    expect(storage.verifySignedUrl('exports/user-2/my video.mp4', expires, signature, 'MV.mp4')).toBe(false);
+    expect(storage.verifySignedUrl(KEY, expires + 3600, signature, 'MV.mp4')).toBe(false);
+    expect(storage.verifySignedUrl(KEY, expires, signature, 'other.mp4')).toBe(false);
+    expect(storage.verifySignedUrl(KEY, expires, 'short', 'MV.mp4')).toBe(false);
+  });
+
+  it('rejects a URL for a key that climbs out of the root', async () => {
+    const { expires, signature } = signedParams(await storage.getSignedUrl(KEY));
+
+    expect(storage.verifySignedUrl('exports/../../secret', expires, signature)).toBe(false);
+  });
+
+  it('needs a signing secret', async () => {
+    const unsigned = new LocalStorage({ root });
+
+    await expect(unsigned.getSignedUrl(KEY)).rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+  });
+});
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import { normalizeKey } from './keys';
+import {
+  StorageError,
+  type ByteRange,
+  type LocalFile,
+  type ObjectInfo,
+  type PutOptions,
+  type SignedUrlOptions,
+  type StorageBackend,
+  type StorageBody,
+  type StorageLocation
+} from './types';
+
+export interface LocalStorageOptions {
+  root: string;
+  // Base URL the root is statically served under ('' for same-origin paths)
+  publicBaseUrl?: string;
+  // Route that serves signed URLs (verifySignedUrl) and the secret to sign them with
+  signedBaseUrl?: string;
+  signingSecret?: string;
+}
+
+const DEFAULT_EXPIRES_IN = 60 * 60; // seconds
+
+const isNotFound = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+const encodeKey = (key: string) => key.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Objects as files under a root directory
+ */
+export class LocalStorage implements StorageBackend {
+  readonly provider = 'local' as const;
+  private readonly root: string;
+
+  constructor(private readonly options: LocalStorageOptions) {
+    this.root = path.resolve(options.root);
+  }
+
+  pathFor(key: string): string {
+    const filePath = path.join(this.root, normalizeKey(key));
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new StorageError(`Invalid storage key: ${key}`, 'INVALID_KEY');
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: StorageBody, _options?: PutOptions): Promise<StorageLocation> {
+    const filePath = this.pathFor(key);
+    // Write then rename so readers never see a partial object
+    const partialPath = `${filePath}.${crypto.randomUUID()}.partial`;
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      if (typeof body === 'string' || body instanceof Uint8Array) {
+        await fsp.writeFile(partialPath, body);
+      } else {
+        await pipeline(body, fs.createWriteStream(partialPath));
+      }
+      await fsp.rename(partialPath, filePath);
+    } catch (error) {
+      await fsp.rm(partialPath, { force: true });
+      throw error;
+    }
+    return { provider: this.provider, key: normalizeKey(key) };
+  }
+
+  putFile(key: string, filePath: string, options?: PutOptions): Promise<StorageLocation> {
+    return this.put(key, fs.createReadStream(filePath), options);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fsp.readFile(this.pathFor(key));
+    } catch (error) {
+      throw isNotFound(error) ? new StorageError(`Object not found: ${key}`, 'NOT_FOUND') : error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.pathFor(key);
+    if (!(await this.stat(key))) {
+      throw new StorageError(`Object not found: ${key}`, 'NOT_FOUND');
+    }
+    return fs.createReadStream(filePath, range ? { start: range.start, ...(range.end !== undefined ? { end: range.end } : {}) } : {});
+  }
+
+  async stat(key: string): Promise<ObjectInfo | null> {
+    try {
+      const stats = await fsp.stat(this.pathFor(key));
+      return stats.isFile() ? { size: stats.size, lastModified: stats.mtime } : null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsp.rm(this.pathFor(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const { signedBaseUrl, signingSecret } = this.options;
+    if (signedBaseUrl === undefined || !signingSecret) {
+      throw new StorageError('Signed URLs need signedBaseUrl and signingSecret', 'NOT_CONFIGURED');
+    }
+    const normalized = normalizeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresIn ?? DEFAULT_EXPIRES_IN);
+    const params = new URLSearchParams({ expires: String(expires) });
+    if (options.downloadName) params.set('name', options.downloadName);
+    params.set('signature', this.sign(normalized, expires, options.downloadName));
+    return `${signedBaseUrl.replace(/\/+$/, '')}/${encodeKey(normalized)}?${params.toString()}`;
+  }
+
+  /**
+   * Check a URL produced by getSignedUrl (expires is in seconds since the epoch)
+   */
+  verifySignedUrl(key: string, expires: number, signature: string, downloadName?: string): boolean {
+    if (!this.options.signingSecret || !Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    let normalized: string;
+    try {
+      normalized = normalizeKey(key);
+    } catch {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(normalized, expires, downloadName));
+    const actual = Buffer.from(String(signature));
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  publicUrl(key: string): string | null {
+    const { publicBaseUrl } = this.options;
+    if (publicBaseUrl === undefined) return null;
+    return `${publicBaseUrl.replace(/\/+$/, '')}/${encodeKey(normalizeKey(key))}`;
+  }
+
+  async toLocalFile(key: string): Promise<LocalFile> {
+    const filePath = this.pathFor(key);
+    if (!(await this.stat(key))) {
+      throw new StorageError(`Object not found: ${key}`, 'NOT_FOUND');
+    }
+    // Already on disk; nothing to clean up
+    return { path: filePath, cleanup: async () => {} };
+  }
+
+  private sign(key: string, expires: number, downloadName?: string): string {
+    return crypto
+      .createHmac('sha256', this.options.signingSecret!)
+      .update(`${key}\n${expires}\n${downloadName || ''}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,89 @@
+import { Readable } from 'stream';
+import { S3Client, type ServiceOutputTypes } from '@aws-sdk/client-s3';
+import { S3Storage } from './s3';
+
+// In-memory bucket behind the stubbed client (key -> body)
+const mockObjects = new Map<string, Buffer>();
+
+const mockToBuffer = async (body: unknown): Promise<Buffer> => {
+  if (typeof body === 'string' || body instanceof Uint8Array) return Buffer.from(body);
+  const chunks: Buffer[] = [];
+  for await (const chunk of body as Readable) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+jest.mock('@aws-sdk/lib-storage', () => ({
+  Upload: jest.fn().mockImplementation(({ params }: { params: { Key: string; Body: unknown } }) => ({
+    done: async () => {
+      mockObjects.set(params.Key, await mockToBuffer(params.Body));
+    }
+  }))
+}));
+
+const notFound = () => Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey' });
+
+// S3Client.send for the commands S3Storage issues
+const send = jest.spyOn(S3Client.prototype, 'send').mockImplementation((async (command: {
+  constructor: { name: string };
+  input: { Bucket: string; Key: string };
+}) => {
+  const body = mockObjects.get(command.input.Key);
+  switch (command.constructor.name) {
+    case 'GetObjectCommand':
+      if (!body) throw notFound();
+      return { Body: Readable.from([body]) };
+    case 'HeadObjectCommand':
+      if (!body) throw Object.assign(new Error('NotFound'), { name: 'NotFound' });
+      return { ContentLength: body.length };
+    case 'DeleteObjectCommand':
+      mockObjects.delete(command.input.Key);
+      return {};
+    default:
+      throw new Error(`Unexpected command ${command.constructor.name}`);
+  }
+}) as unknown as (command: unknown) => Promise<ServiceOutputTypes>);
+
+const storage = new S3Storage({
+  bucket: 'media',
+  accessKeyId: 'key',
+  secretAccessKey: 'secret',
+  endpoint: 'http://localhost:9000',
+  forcePathStyle: true
+});
+
+beforeEach(() => {
+  mockObjects.clear();
+  send.mockClear();
+});
+
+describe('S3Storage', () => {
+  it('puts, gets and deletes an object in the bucket', async () => {
+    const location = await storage.put('uploads/user-1/clip.mp4', 'video bytes', { contentType: 'video/mp4' });
+
+    expect(location).toEqual({ provider: 's3', key: 'uploads/user-1/clip.mp4', bucket: 'media' });
+    expect((await storage.get('uploads/user-1/clip.mp4')).toString()).toBe('video bytes');
+    await expect(storage.stat('uploads/user-1/clip.mp4')).resolves.toEqual({ size: 11 });
+
+    await storage.delete('uploads/user-1/clip.mp4');
+
+    expect(mockObjects.size).toBe(0);
+    await expect(storage.stat('uploads/user-1/clip.mp4')).resolves.toBeNull();
+    expect(send.mock.calls.map(([command]) => (command as { input: unknown }).input)).toContainEqual({
+      Bucket: 'media',
+      Key: 'uploads/user-1/clip.mp4'
+    });
+  });
+
+  it('reports a missing object as NOT_FOUND', async () => {
+    await expect(storage.get('uploads/user-1/missing.mp4')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('rejects parent and absolute keys before calling S3', async () => {
+    await expect(storage.put('uploads/../secret', 'x')).rejects.toMatchObject({ code: 'INVALID_KEY' });
+    await expect(storage.get('/secret')).rejects.toMatchObject({ code: 'INVALID_KEY' });
+    await expect(storage.delete('uploads/../../secret')).rejects.toMatchObject({ code: 'INVALID_KEY' });
+
+    expect(send).not.toHaveBeenCalled();
+    expect(mockObjects.size).toBe(0);
+  });
+});
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { normalizeKey } from './keys';
+import {
+  StorageError,
+  type ByteRange,
+  type LocalFile,
+  type ObjectInfo,
+  type PutOptions,
+  type SignedUrlOptions,
+  type StorageBackend,
+  type StorageBody,
+  type StorageLocation
+} from './types';
+
+export interface S3StorageOptions {
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // R2, MinIO or another S3-compatible store
+  region?: string;
+  // Path-style URLs (http://host/bucket/key), needed by most local stand-ins
+  forcePathStyle?: boolean;
+  // CDN or public bucket URL; objects are served as <publicBaseUrl>/<key>
+  publicBaseUrl?: string;
+}
+
+const DEFAULT_EXPIRES_IN = 60 * 60; // seconds
+
+const isNotFound = (error: unknown) => {
+  const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return err?.name === 'NotFound' || err?.name === 'NoSuchKey' || err?.$metadata?.httpStatusCode === 404;
+};
+
+// Content-Disposition with a non-ASCII file name (RFC 6266)
+const attachment = (fileName: string) =>
+  `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+/**
+ * Objects in an S3-compatible bucket
+ */
+export class S3Storage implements StorageBackend {
+  readonly provider = 's3' as const;
+  readonly bucket: string;
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region || 'auto',
+      ...(options.endpoint ? { endpoint: options.endpoint } : {}),
+      forcePathStyle: Boolean(options.forcePathStyle),
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey
+      }
+    });
+  }
+
+  async put(key: string, body: StorageBody, options: PutOptions = {}): Promise<StorageLocation> {
+    const normalized = normalizeKey(key);
+    // Upload switches to multipart for large bodies and streams of unknown length
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: normalized,
+        Body: body,
+        ...(options.contentType ? { ContentType: options.contentType } : {})
+      }
+    }).done();
+    return { provider: this.provider, key: normalized, bucket: this.bucket };
+  }
+
+  putFile(key: string, filePath: string, options?: PutOptions): Promise<StorageLocation> {
+    return this.put(key, fs.createReadStream(filePath), options);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const body = await this.stream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: normalizeKey(key),
+        ...(range ? { Range: `bytes=${range.start}-${range.end ?? ''}` } : {})
+      }));
+      return response.Body as Readable;
+    } catch (error) {
+      throw isNotFound(error) ? new StorageError(`Object not found: ${key}`, 'NOT_FOUND') : error;
+    }
+  }
+
+  async stat(key: string): Promise<ObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: normalizeKey(key) }));
+      return {
+        size: response.ContentLength ?? 0,
+        ...(response.ContentType ? { contentType: response.ContentType } : {}),
+        ...(response.LastModified ? { lastModified: response.LastModified } : {})
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: normalizeKey(key) }));
+  }
+
+  getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: normalizeKey(key),
+      ...(options.downloadName ? { ResponseContentDisposition: attachment(options.downloadName) } : {})
+    });
+    return getSignedUrl(this.client, command, { expiresIn: options.expiresIn ?? DEFAULT_EXPIRES_IN });
+  }
+
+  publicUrl(key: string): string | null {
+    const { publicBaseUrl } = this.options;
+    return publicBaseUrl ? `${publicBaseUrl.replace(/\/+$/, '')}/${normalizeKey(key)}` : null;
+  }
+
+  async toLocalFile(key: string): Promise<LocalFile> {
+    const dir = await fsp.mkdtemp(path.join(os.tmpdir(), 'flickmv-storage-'));
+    const cleanup = () => fsp.rm(dir, { recursive: true, force: true });
+    const filePath = path.join(dir, path.basename(normalizeKey(key)));
+    try {
+      await pipeline(await this.stream(key), fs.createWriteStream(filePath));
+    } catch (error) {
+      await cleanup();
+      throw error;
+    }
+    return { path: filePath, cleanup };
+  }
+}
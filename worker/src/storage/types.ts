@@ -0,0 +1,61 @@
+import type { Readable } from 'stream';
+
+export type StorageProvider = 'local' | 's3';
+
+// Where an object lives. Saved as MediaFile.storage and ExportJob.output.storage.
+export interface StorageLocation {
+  provider: StorageProvider;
+  key: string; // e.g. uploads/<ownerId>/<file>, exports/<userId>/<file>
+  bucket?: string;
+}
+
+export type StorageBody = Buffer | Uint8Array | string | Readable;
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+export interface ObjectInfo {
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+export interface ByteRange {
+  start: number;
+  end?: number; // inclusive, like an HTTP Range header
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number; // seconds
+  downloadName?: string; // served as an attachment with this file name
+}
+
+// A file on local disk for tools that need a path (ffmpeg, sharp)
+export interface LocalFile {
+  path: string;
+  cleanup: () => Promise<void>;
+}
+
+export interface StorageBackend {
+  readonly provider: StorageProvider;
+  put(key: string, body: StorageBody, options?: PutOptions): Promise<StorageLocation>;
+  putFile(key: string, filePath: string, options?: PutOptions): Promise<StorageLocation>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  stat(key: string): Promise<ObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  // Unsigned URL when the objects are publicly served (null otherwise)
+  publicUrl(key: string): string | null;
+  toLocalFile(key: string): Promise<LocalFile>;
+}
+
+export type StorageErrorCode = 'NOT_FOUND' | 'INVALID_KEY' | 'NOT_CONFIGURED';
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly code: StorageErrorCode) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}